@@ -15,6 +15,7 @@ import OrdenesPage from "@/pages/ordenes";
 import ClientesPage from "@/pages/clientes";
 import InventarioPage from "@/pages/inventario";
 import VentasPage from "@/pages/ventas";
+import CajaPage from "@/pages/caja";
 import ReportesPage from "@/pages/reportes";
 import UsuariosPage from "@/pages/usuarios";
 import { Component, ReactNode } from "react";
@@ -83,6 +84,7 @@ function Router() {
       <Route path="/servicios" component={() => <ServiciosPage />} />
       <Route path="/inventario" component={() => <InventarioPage />} />
       <Route path="/ventas" component={() => <VentasPage />} />
+      <Route path="/caja" component={() => <CajaPage />} />
       <Route path="/reportes" component={() => <ReportesPage />} />
       <Route path="/usuarios" component={() => <UsuariosPage />} />
       <Route path="/configuracion" component={() => <ConfiguracionPage />} />
@@ -7,6 +7,7 @@ import {
   CreditCard,
   FileText,
   BarChart3,
+  Wallet,
   LogOut,
   Building2,
   UserCog
@@ -72,6 +73,11 @@ const menuItems = [
     url: "/ventas",
     icon: CreditCard,
   },
+  {
+    title: "Caja",
+    url: "/caja",
+    icon: Wallet,
+  },
   {
     title: "Reportes",
     url: "/reportes",
@@ -0,0 +1,291 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { Alert, AlertDescription } from "@/components/ui/alert";
+import { useToast } from "@/hooks/use-toast";
+import { AlertTriangle, FileMinus } from "lucide-react";
+import type { Sale, SaleItem, NotaCredito } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { motivosNotaCredito } from "@/components/PrintCreditNote";
+
+interface CreditNoteDialogProps {
+  sale: Sale | null;
+  onClose: () => void;
+  onIssued?: (notaCredito: NotaCredito) => void;
+}
+
+interface SaldoNotaCredito {
+  notas: NotaCredito[];
+  acreditado: number;
+  disponible: number;
+  cantidadesAcreditadas: Record<string, number>;
+  ajustesPorMonto: boolean;
+  items: SaleItem[];
+}
+
+type ModoNotaCredito = "total" | "items" | "monto";
+
+// Format price for Paraguay (Guaraní)
+const formatPrice = (price: number | string) => {
+  const numPrice = typeof price === 'string' ? parseInt(price) : price;
+  return `Gs. ${numPrice.toLocaleString('es-PY')}`;
+};
+
+export default function CreditNoteDialog({ sale, onClose, onIssued }: CreditNoteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [motivo, setMotivo] = useState<NotaCredito["motivo"]>("devolucion");
+  const [descripcion, setDescripcion] = useState("");
+  const [modo, setModo] = useState<ModoNotaCredito>("total");
+  const [cantidades, setCantidades] = useState<Record<string, string>>({});
+  const [monto, setMonto] = useState("");
+
+  const { data: saldo, isLoading } = useQuery<SaldoNotaCredito>({
+    queryKey: ['/api/sales', sale?.id, 'notas-credito'],
+    enabled: !!sale,
+  });
+
+  // Reset the form every time a different invoice is opened
+  useEffect(() => {
+    setMotivo("devolucion");
+    setDescripcion("");
+    setModo("total");
+    setCantidades({});
+    setMonto("");
+  }, [sale?.id]);
+
+  const pendiente = (item: SaleItem) => item.cantidad - (saldo?.cantidadesAcreditadas[item.id] || 0);
+
+  // Notes crediting only an amount cannot be traced back to items
+  const permiteItems = !!saldo && !saldo.ajustesPorMonto && saldo.items.some(item => pendiente(item) > 0);
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/notas-credito', data);
+      return response;
+    },
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notas-credito'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] }); // Returned products
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+
+      toast({
+        title: "Nota de crédito emitida",
+        description: `Nota de crédito ${response.notaCredito.numero} por ${formatPrice(response.notaCredito.total)}.`,
+      });
+      onClose();
+      onIssued?.(response.notaCredito);
+    },
+    onError: (error: any) => {
+      let message = "No se pudo emitir la nota de crédito.";
+      try {
+        const errorData = JSON.parse(error.message.split(': ')[1]);
+        if (typeof errorData.details === 'string') {
+          message = errorData.details;
+        }
+      } catch (e) {
+        // Use default message
+      }
+      toast({
+        title: "Error al emitir nota de crédito",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!sale) return;
+
+    if (descripcion.trim().length < 5) {
+      toast({
+        title: "Descripción requerida",
+        description: "Indique el motivo de la nota de crédito (mínimo 5 caracteres).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const data: any = { saleId: sale.id, motivo, descripcion: descripcion.trim() };
+
+    if (modo === "items") {
+      const items = Object.entries(cantidades)
+        .map(([saleItemId, cantidad]) => ({ saleItemId, cantidad: parseInt(cantidad) || 0 }))
+        .filter(item => item.cantidad > 0);
+      if (items.length === 0) {
+        toast({
+          title: "Seleccione ítems",
+          description: "Indique la cantidad a acreditar de al menos un ítem.",
+          variant: "destructive",
+        });
+        return;
+      }
+      data.items = items;
+    }
+
+    if (modo === "monto") {
+      const value = parseInt(monto);
+      if (!value || value <= 0) {
+        toast({
+          title: "Monto inválido",
+          description: "Ingrese el monto a acreditar.",
+          variant: "destructive",
+        });
+        return;
+      }
+      data.monto = value;
+    }
+
+    createMutation.mutate(data);
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FileMinus className="h-5 w-5" />
+            Nota de Crédito
+          </DialogTitle>
+          <DialogDescription>
+            Devolución o ajuste sobre la factura {sale?.numeroFactura}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !saldo ? (
+          <div className="flex items-center justify-center p-8">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-primary"></div>
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="space-y-1 text-sm">
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Total factura:</span>
+                <span>{formatPrice(sale?.total || 0)}</span>
+              </div>
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">Ya acreditado:</span>
+                <span data-testid="text-credit-note-acreditado">{formatPrice(saldo.acreditado)}</span>
+              </div>
+              <div className="flex justify-between font-semibold">
+                <span>Disponible:</span>
+                <span data-testid="text-credit-note-disponible">{formatPrice(saldo.disponible)}</span>
+              </div>
+            </div>
+
+            {saldo.disponible <= 0 ? (
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>La factura ya fue acreditada en su totalidad.</AlertDescription>
+              </Alert>
+            ) : (
+              <>
+                <Separator />
+
+                <div className="space-y-2">
+                  <Label>Motivo</Label>
+                  <Select value={motivo} onValueChange={(value) => setMotivo(value as NotaCredito["motivo"])}>
+                    <SelectTrigger data-testid="select-credit-note-motivo">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {Object.entries(motivosNotaCredito).map(([value, label]) => (
+                        <SelectItem key={value} value={value}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="credit-note-descripcion">Descripción</Label>
+                  <Textarea
+                    id="credit-note-descripcion"
+                    value={descripcion}
+                    onChange={(e) => setDescripcion(e.target.value)}
+                    placeholder="Ej: Devolución de servicio no realizado"
+                    data-testid="textarea-credit-note-descripcion"
+                  />
+                </div>
+
+                <div className="space-y-2">
+                  <Label>Alcance</Label>
+                  <Select value={modo} onValueChange={(value) => setModo(value as ModoNotaCredito)}>
+                    <SelectTrigger data-testid="select-credit-note-modo">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="total">Saldo total ({formatPrice(saldo.disponible)})</SelectItem>
+                      {permiteItems && <SelectItem value="items">Por ítems</SelectItem>}
+                      <SelectItem value="monto">Por monto</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {modo === "items" && (
+                  <div className="space-y-2">
+                    {saldo.items.map(item => (
+                      <div key={item.id} className="flex items-center justify-between gap-2 text-sm">
+                        <div className="flex-1">
+                          <div className="font-medium">{item.nombre}</div>
+                          <div className="text-xs text-muted-foreground">
+                            {formatPrice(item.precioUnitario)} · {pendiente(item)} de {item.cantidad} por acreditar
+                          </div>
+                        </div>
+                        <Input
+                          type="number"
+                          min={0}
+                          max={pendiente(item)}
+                          className="w-20"
+                          disabled={pendiente(item) <= 0}
+                          value={cantidades[item.id] || ""}
+                          onChange={(e) => setCantidades({ ...cantidades, [item.id]: e.target.value })}
+                          data-testid={`input-credit-note-cantidad-${item.id}`}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {modo === "monto" && (
+                  <div className="space-y-2">
+                    <Label htmlFor="credit-note-monto">Monto (IVA incluido)</Label>
+                    <Input
+                      id="credit-note-monto"
+                      type="number"
+                      min={1}
+                      max={saldo.disponible}
+                      value={monto}
+                      onChange={(e) => setMonto(e.target.value)}
+                      data-testid="input-credit-note-monto"
+                    />
+                  </div>
+                )}
+              </>
+            )}
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={onClose}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={saldo.disponible <= 0 || createMutation.isPending}
+                data-testid="button-confirm-credit-note"
+              >
+                {createMutation.isPending ? "Emitiendo..." : "Emitir Nota de Crédito"}
+              </Button>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
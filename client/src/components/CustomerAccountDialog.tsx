@@ -0,0 +1,467 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet, Printer, Receipt } from "lucide-react";
+import type { Customer, CompanyConfig, Recibo } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface CustomerAccountDialogProps {
+  customer: Customer | null;
+  onClose: () => void;
+}
+
+interface DocumentoPendiente {
+  saleId: string;
+  numeroFactura: string;
+  fecha: string;
+  fechaVencimiento: string;
+  total: number;
+  notasCredito: number;
+  notasDebito: number;
+  pagado: number;
+  saldo: number;
+  diasVencido: number;
+}
+
+interface MovimientoCuenta {
+  fecha: string;
+  tipo: "factura" | "nota_credito" | "nota_debito" | "recibo";
+  documento: string;
+  debe: number;
+  haber: number;
+  saldo: number;
+}
+
+interface AntiguedadSaldos {
+  porVencer: number;
+  dias1a30: number;
+  dias31a60: number;
+  dias61a90: number;
+  mas90: number;
+  total: number;
+}
+
+interface EstadoCuenta {
+  customer: Customer;
+  saldo: number;
+  antiguedad: AntiguedadSaldos;
+  pendientes: DocumentoPendiente[];
+  movimientos: MovimientoCuenta[];
+}
+
+const tiposMovimiento: Record<MovimientoCuenta["tipo"], string> = {
+  factura: "Factura crédito",
+  nota_credito: "Nota de crédito",
+  nota_debito: "Nota de débito",
+  recibo: "Recibo"
+};
+
+const tramosAntiguedad: { key: keyof Omit<AntiguedadSaldos, "total">; label: string }[] = [
+  { key: "porVencer", label: "Por vencer" },
+  { key: "dias1a30", label: "1-30 días" },
+  { key: "dias31a60", label: "31-60 días" },
+  { key: "dias61a90", label: "61-90 días" },
+  { key: "mas90", label: "Más de 90 días" }
+];
+
+// Payment methods accepted on receipts
+const mediosPagoRecibo: { value: Recibo["medioPago"]; label: string }[] = [
+  { value: "efectivo", label: "Efectivo" },
+  { value: "transferencia", label: "Transferencia Bancaria" },
+  { value: "cheque", label: "Cheque" },
+  { value: "tarjeta_debito", label: "Tarjeta de Débito" },
+  { value: "tarjeta_credito", label: "Tarjeta de Crédito" }
+];
+
+// Format price for Paraguay (Guaraní)
+const formatPrice = (price: number | string) => {
+  const numPrice = typeof price === 'string' ? parseInt(price) : price;
+  return `Gs. ${numPrice.toLocaleString('es-PY')}`;
+};
+
+// Format date for Paraguay
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-PY', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit'
+  });
+};
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+
+export default function CustomerAccountDialog({ customer, onClose }: CustomerAccountDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [monto, setMonto] = useState("");
+  const [medioPago, setMedioPago] = useState<Recibo["medioPago"]>("efectivo");
+  const [referencia, setReferencia] = useState("");
+
+  const { data: cuenta, isLoading } = useQuery<EstadoCuenta>({
+    queryKey: ['/api/customers', customer?.id, 'cuenta'],
+    enabled: !!customer,
+  });
+
+  const { data: companyConfig } = useQuery<CompanyConfig>({
+    queryKey: ['/api/company-config'],
+    enabled: !!customer,
+  });
+
+  // Reset the receipt form every time a different customer is opened
+  useEffect(() => {
+    setMonto("");
+    setMedioPago("efectivo");
+    setReferencia("");
+  }, [customer?.id]);
+
+  const createReciboMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/recibos', data);
+      return response;
+    },
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/customers', customer?.id, 'cuenta'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/recibos'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/cuentas-por-cobrar'] });
+
+      toast({
+        title: "Recibo registrado",
+        description: `Recibo N° ${response.numero} por ${formatPrice(response.monto)}.`,
+      });
+      setMonto("");
+      setReferencia("");
+    },
+    onError: (error: any) => {
+      let message = "No se pudo registrar el recibo.";
+      try {
+        const errorData = JSON.parse(error.message.split(': ')[1]);
+        if (typeof errorData.details === 'string') {
+          message = errorData.details;
+        }
+      } catch (e) {
+        // Use default message
+      }
+      toast({
+        title: "Error al registrar recibo",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleRecibo = () => {
+    if (!customer || !cuenta) return;
+
+    const importe = parseInt(monto) || 0;
+    if (importe <= 0 || importe > cuenta.saldo) {
+      toast({
+        title: "Monto inválido",
+        description: `El monto debe ser mayor a cero y no superar el saldo de ${formatPrice(cuenta.saldo)}.`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // Without allocations the server pays the oldest due invoices first
+    createReciboMutation.mutate({
+      customerId: customer.id,
+      monto: importe,
+      medioPago,
+      referencia: referencia.trim() || null,
+    });
+  };
+
+  const handlePrint = () => {
+    if (!cuenta) return;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const empresa = companyConfig
+      ? `
+        <div class="company-name">${escapeHtml(companyConfig.nombreFantasia || companyConfig.razonSocial)}</div>
+        <div class="company-details">RUC: ${escapeHtml(companyConfig.ruc)}</div>
+        <div class="company-details">${escapeHtml(companyConfig.direccion)}</div>
+      `
+      : '';
+
+    const movimientos = cuenta.movimientos.map(movimiento => `
+      <tr>
+        <td>${formatDate(movimiento.fecha)}</td>
+        <td>${tiposMovimiento[movimiento.tipo]}</td>
+        <td>${escapeHtml(movimiento.documento)}</td>
+        <td class="amount">${movimiento.debe ? formatPrice(movimiento.debe) : ''}</td>
+        <td class="amount">${movimiento.haber ? formatPrice(movimiento.haber) : ''}</td>
+        <td class="amount">${formatPrice(movimiento.saldo)}</td>
+      </tr>
+    `).join('');
+
+    const pendientes = cuenta.pendientes.map(pendiente => `
+      <tr>
+        <td>${escapeHtml(pendiente.numeroFactura)}</td>
+        <td>${formatDate(pendiente.fecha)}</td>
+        <td>${formatDate(pendiente.fechaVencimiento)}</td>
+        <td class="amount">${pendiente.diasVencido > 0 ? pendiente.diasVencido : '-'}</td>
+        <td class="amount">${formatPrice(pendiente.saldo)}</td>
+      </tr>
+    `).join('');
+
+    const antiguedad = tramosAntiguedad.map(tramo => `
+      <tr>
+        <td>${tramo.label}</td>
+        <td class="amount">${formatPrice(cuenta.antiguedad[tramo.key])}</td>
+      </tr>
+    `).join('');
+
+    printWindow.document.write(`
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <title>Estado de Cuenta - ${escapeHtml(cuenta.customer.nombre)}</title>
+          <style>
+            @media print {
+              @page { size: A4; margin: 15mm; }
+              .no-print { display: none !important; }
+            }
+            body {
+              font-family: 'Courier New', monospace;
+              margin: 0;
+              padding: 15mm;
+              font-size: 11px;
+              line-height: 1.2;
+              max-width: 190mm;
+            }
+            .header { text-align: center; border-bottom: 1px solid #000; padding-bottom: 8px; margin-bottom: 10px; }
+            .company-name { font-weight: bold; font-size: 16px; margin-bottom: 4px; }
+            .company-details { font-size: 10px; margin-bottom: 2px; }
+            .title { font-weight: bold; font-size: 14px; margin: 8px 0; text-decoration: underline; }
+            .section-title { font-weight: bold; margin: 12px 0 4px; }
+            table { width: 100%; border-collapse: collapse; margin: 6px 0; font-size: 10px; }
+            th, td { padding: 2px; text-align: left; border-bottom: 1px solid #ccc; }
+            th { font-weight: bold; border-bottom: 1px solid #000; }
+            .amount { text-align: right; }
+            .total { font-weight: bold; font-size: 12px; margin-top: 10px; text-align: right; }
+          </style>
+        </head>
+        <body>
+          <div class="header">
+            ${empresa}
+            <div class="title">ESTADO DE CUENTA</div>
+            <div>Emitido el ${formatDate(new Date())}</div>
+          </div>
+
+          <div>
+            <div><strong>Cliente:</strong> ${escapeHtml(cuenta.customer.nombre)}</div>
+            <div><strong>${cuenta.customer.docTipo}:</strong> ${escapeHtml(cuenta.customer.docNumero)}</div>
+          </div>
+
+          <div class="section-title">Movimientos</div>
+          <table>
+            <thead>
+              <tr><th>Fecha</th><th>Tipo</th><th>Documento</th><th class="amount">Debe</th><th class="amount">Haber</th><th class="amount">Saldo</th></tr>
+            </thead>
+            <tbody>${movimientos || '<tr><td colspan="6">Sin movimientos</td></tr>'}</tbody>
+          </table>
+
+          <div class="section-title">Facturas pendientes</div>
+          <table>
+            <thead>
+              <tr><th>Factura</th><th>Fecha</th><th>Vencimiento</th><th class="amount">Días vencida</th><th class="amount">Saldo</th></tr>
+            </thead>
+            <tbody>${pendientes || '<tr><td colspan="5">Sin facturas pendientes</td></tr>'}</tbody>
+          </table>
+
+          <div class="section-title">Antigüedad de saldos</div>
+          <table>
+            <tbody>${antiguedad}</tbody>
+          </table>
+
+          <div class="total">SALDO TOTAL: ${formatPrice(cuenta.saldo)}</div>
+
+          <div class="no-print" style="margin-top: 20px; text-align: center;">
+            <button onclick="window.print()">Imprimir</button>
+            <button onclick="window.close()">Cerrar</button>
+          </div>
+        </body>
+      </html>
+    `);
+    printWindow.document.close();
+  };
+
+  return (
+    <Dialog open={!!customer} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wallet className="h-5 w-5" />
+            Cuenta Corriente
+          </DialogTitle>
+          <DialogDescription>
+            Ventas a crédito, notas y recibos de {customer?.nombre}
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !cuenta ? (
+          <p className="text-center text-muted-foreground py-8">Cargando cuenta...</p>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 md:grid-cols-6 gap-2">
+              {tramosAntiguedad.map(tramo => (
+                <Card key={tramo.key}>
+                  <CardContent className="p-3">
+                    <div className="text-xs text-muted-foreground">{tramo.label}</div>
+                    <div className="font-medium" data-testid={`text-aging-${tramo.key}`}>
+                      {formatPrice(cuenta.antiguedad[tramo.key])}
+                    </div>
+                  </CardContent>
+                </Card>
+              ))}
+              <Card>
+                <CardContent className="p-3">
+                  <div className="text-xs text-muted-foreground">Saldo</div>
+                  <div className="font-bold" data-testid="text-account-balance">{formatPrice(cuenta.saldo)}</div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <div className="space-y-2">
+              <Label>Facturas pendientes</Label>
+              {cuenta.pendientes.length === 0 ? (
+                <p className="text-sm text-muted-foreground">El cliente no tiene facturas a crédito pendientes.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Factura</TableHead>
+                      <TableHead>Vencimiento</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Saldo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cuenta.pendientes.map(pendiente => (
+                      <TableRow key={pendiente.saleId} data-testid={`row-pending-${pendiente.saleId}`}>
+                        <TableCell>{pendiente.numeroFactura}</TableCell>
+                        <TableCell>
+                          {formatDate(pendiente.fechaVencimiento)}
+                          {pendiente.diasVencido > 0 && (
+                            <Badge variant="destructive" className="ml-2">{pendiente.diasVencido} días</Badge>
+                          )}
+                        </TableCell>
+                        <TableCell className="text-right">{formatPrice(pendiente.total + pendiente.notasDebito - pendiente.notasCredito)}</TableCell>
+                        <TableCell className="text-right font-medium">{formatPrice(pendiente.saldo)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+
+            {cuenta.saldo > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <Label className="flex items-center gap-2">
+                    <Receipt className="h-4 w-4" />
+                    Registrar recibo
+                  </Label>
+                  <div className="grid grid-cols-1 md:grid-cols-4 gap-2 items-end">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={monto}
+                      onChange={(e) => setMonto(e.target.value)}
+                      placeholder="Monto"
+                      data-testid="input-receipt-amount"
+                    />
+                    <Select value={medioPago} onValueChange={(value) => setMedioPago(value as Recibo["medioPago"])}>
+                      <SelectTrigger data-testid="select-receipt-payment-method">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {mediosPagoRecibo.map(medio => (
+                          <SelectItem key={medio.value} value={medio.value}>{medio.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Input
+                      value={referencia}
+                      onChange={(e) => setReferencia(e.target.value)}
+                      placeholder="Referencia (opcional)"
+                      data-testid="input-receipt-reference"
+                    />
+                    <Button
+                      onClick={handleRecibo}
+                      disabled={createReciboMutation.isPending}
+                      data-testid="button-create-receipt"
+                    >
+                      {createReciboMutation.isPending ? "Registrando..." : "Registrar"}
+                    </Button>
+                  </div>
+                  <p className="text-xs text-muted-foreground">
+                    El pago se aplica primero a las facturas de vencimiento más antiguo.
+                  </p>
+                </div>
+              </>
+            )}
+
+            <Separator />
+
+            <div className="space-y-2">
+              <Label>Movimientos</Label>
+              {cuenta.movimientos.length === 0 ? (
+                <p className="text-sm text-muted-foreground">Sin movimientos en cuenta corriente.</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Documento</TableHead>
+                      <TableHead className="text-right">Debe</TableHead>
+                      <TableHead className="text-right">Haber</TableHead>
+                      <TableHead className="text-right">Saldo</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {cuenta.movimientos.map((movimiento, index) => (
+                      <TableRow key={index}>
+                        <TableCell>{formatDate(movimiento.fecha)}</TableCell>
+                        <TableCell>
+                          <div>{movimiento.documento}</div>
+                          <div className="text-xs text-muted-foreground">{tiposMovimiento[movimiento.tipo]}</div>
+                        </TableCell>
+                        <TableCell className="text-right">{movimiento.debe ? formatPrice(movimiento.debe) : ""}</TableCell>
+                        <TableCell className="text-right">{movimiento.haber ? formatPrice(movimiento.haber) : ""}</TableCell>
+                        <TableCell className="text-right">{formatPrice(movimiento.saldo)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          </div>
+        )}
+
+        <div className="flex justify-end gap-2 pt-2">
+          <Button variant="outline" onClick={onClose} data-testid="button-close-account">
+            Cerrar
+          </Button>
+          <Button onClick={handlePrint} disabled={!cuenta} data-testid="button-print-account">
+            <Printer className="h-4 w-4 mr-2" />
+            Imprimir estado de cuenta
+          </Button>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
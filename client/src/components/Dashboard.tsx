@@ -8,7 +8,7 @@ import { DollarSign, Car, Users, Package, Settings, Building2 } from "lucide-rea
 import logoUrl from "@assets/Gemini_Generated_Image_kwl7qlkwl7qlkwl7_1757809609665.png";
 import { Button } from "@/components/ui/button";
 import { useQuery } from "@tanstack/react-query";
-import { type CompanyConfig, type Sale, type InventoryItem, type WorkOrder } from "@shared/schema";
+import { type CompanyConfig, type Sale, type InventoryItem, type WorkOrder, type NotaCredito, type NotaDebito } from "@shared/schema";
 
 export function Dashboard() {
   const currentDateTime = new Date();
@@ -27,6 +27,16 @@ export function Dashboard() {
     refetchOnWindowFocus: true, // Refresh when user returns to tab
   });
   
+  const { data: notasCredito = [] } = useQuery<NotaCredito[]>({
+    queryKey: ['/api/notas-credito'],
+    refetchInterval: 30000,
+  });
+  
+  const { data: notasDebito = [] } = useQuery<NotaDebito[]>({
+    queryKey: ['/api/notas-debito'],
+    refetchInterval: 30000,
+  });
+  
   const { data: inventory = [], isLoading: inventoryLoading } = useQuery<InventoryItem[]>({
     queryKey: ['/api/inventory'],
     staleTime: 0, // Always fresh
@@ -73,8 +83,14 @@ export function Dashboard() {
   const todayStart = new Date(today.getFullYear(), today.getMonth(), today.getDate());
   
   // Sales metrics
-  const todaySales = sales.filter(sale => new Date(sale.createdAt) >= todayStart);
-  const todayRevenue = todaySales.reduce((sum, sale) => sum + parseInt(sale.total), 0);
+  const todaySales = sales.filter(sale => !sale.anulada && new Date(sale.createdAt) >= todayStart);
+  const todayCredited = notasCredito
+    .filter(nota => new Date(nota.fecha) >= todayStart)
+    .reduce((sum, nota) => sum + parseInt(nota.total), 0);
+  const todayDebited = notasDebito
+    .filter(nota => new Date(nota.fecha) >= todayStart)
+    .reduce((sum, nota) => sum + parseInt(nota.total), 0);
+  const todayRevenue = todaySales.reduce((sum, sale) => sum + parseInt(sale.total), 0) - todayCredited + todayDebited;
   
   // Inventory alerts
   const criticalInventory = inventory.filter(item => item.estadoAlerta === 'critico');
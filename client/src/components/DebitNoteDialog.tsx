@@ -0,0 +1,320 @@
+import { useState, useEffect } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Label } from "@/components/ui/label";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Separator } from "@/components/ui/separator";
+import { useToast } from "@/hooks/use-toast";
+import { FilePlus, Plus, Trash2 } from "lucide-react";
+import type { Sale, Service, NotaDebito, TasaIva } from "@shared/schema";
+import { TASAS_IVA, etiquetaTasaIva, liquidarIva } from "@shared/iva";
+import { apiRequest } from "@/lib/queryClient";
+import { motivosNotaDebito } from "@/components/PrintDebitNote";
+
+interface DebitNoteDialogProps {
+  sale: Sale | null;
+  onClose: () => void;
+  onIssued?: (notaDebito: NotaDebito) => void;
+}
+
+interface CargoForm {
+  serviceId: string; // "otro" for free-text charges
+  nombre: string;
+  cantidad: string;
+  precioUnitario: string;
+  tasaIva: TasaIva;
+}
+
+const OTRO_CARGO = "otro";
+
+const emptyCargo = (): CargoForm => ({ serviceId: OTRO_CARGO, nombre: "", cantidad: "1", precioUnitario: "", tasaIva: 10 });
+
+// Format price for Paraguay (Guaraní)
+const formatPrice = (price: number | string) => {
+  const numPrice = typeof price === 'string' ? parseInt(price) : price;
+  return `Gs. ${numPrice.toLocaleString('es-PY')}`;
+};
+
+export default function DebitNoteDialog({ sale, onClose, onIssued }: DebitNoteDialogProps) {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [motivo, setMotivo] = useState<NotaDebito["motivo"]>("recupero_costo");
+  const [descripcion, setDescripcion] = useState("");
+  const [cargos, setCargos] = useState<CargoForm[]>([emptyCargo()]);
+
+  const { data: services = [] } = useQuery<Service[]>({
+    queryKey: ['/api/services'],
+    enabled: !!sale,
+  });
+
+  // Reset the form every time a different invoice is opened
+  useEffect(() => {
+    setMotivo("recupero_costo");
+    setDescripcion("");
+    setCargos([emptyCargo()]);
+  }, [sale?.id]);
+
+  const updateCargo = (index: number, updates: Partial<CargoForm>) => {
+    setCargos(cargos.map((cargo, i) => i === index ? { ...cargo, ...updates } : cargo));
+  };
+
+  const selectService = (index: number, serviceId: string) => {
+    const service = services.find(s => s.id === serviceId);
+    updateCargo(index, service
+      ? { serviceId, nombre: service.nombre, precioUnitario: parseInt(service.precio).toString(), tasaIva: service.tasaIva ?? 10 }
+      : { serviceId: OTRO_CARGO });
+  };
+
+  // IVA at the rate of each charge; exempt when the invoice was issued under régimen de turismo
+  const exenta = !!sale && (sale.regimenTurismo || parseInt(sale.impuestos || "0") === 0);
+  const liquidacion = liquidarIva(cargos.map(cargo => ({
+    precioUnitario: parseInt(cargo.precioUnitario) || 0,
+    cantidad: parseInt(cargo.cantidad) || 0,
+    tasaIva: exenta ? 0 : cargo.tasaIva,
+  })));
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => {
+      const response = await apiRequest('POST', '/api/notas-debito', data);
+      return response;
+    },
+    onSuccess: (response: any) => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/notas-debito'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/sales'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
+
+      toast({
+        title: "Nota de débito emitida",
+        description: `Nota de débito ${response.notaDebito.numero} por ${formatPrice(response.notaDebito.total)}.`,
+      });
+      onClose();
+      onIssued?.(response.notaDebito);
+    },
+    onError: (error: any) => {
+      let message = "No se pudo emitir la nota de débito.";
+      try {
+        const errorData = JSON.parse(error.message.split(': ')[1]);
+        if (typeof errorData.details === 'string') {
+          message = errorData.details;
+        }
+      } catch (e) {
+        // Use default message
+      }
+      toast({
+        title: "Error al emitir nota de débito",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!sale) return;
+
+    if (descripcion.trim().length < 5) {
+      toast({
+        title: "Descripción requerida",
+        description: "Indique el motivo de la nota de débito (mínimo 5 caracteres).",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    const items = cargos.map(cargo => ({
+      serviceId: cargo.serviceId === OTRO_CARGO ? null : cargo.serviceId,
+      nombre: cargo.nombre.trim(),
+      cantidad: parseInt(cargo.cantidad) || 0,
+      precioUnitario: parseInt(cargo.precioUnitario) || 0,
+      tasaIva: cargo.tasaIva,
+    }));
+
+    if (items.some(item => !item.nombre || item.cantidad <= 0 || item.precioUnitario <= 0)) {
+      toast({
+        title: "Cargos incompletos",
+        description: "Cada cargo debe tener descripción, cantidad y precio mayor a cero.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({ saleId: sale.id, motivo, descripcion: descripcion.trim(), items });
+  };
+
+  return (
+    <Dialog open={!!sale} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <FilePlus className="h-5 w-5" />
+            Nota de Débito
+          </DialogTitle>
+          <DialogDescription>
+            Cargos adicionales sobre la factura {sale?.numeroFactura}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Motivo</Label>
+            <Select value={motivo} onValueChange={(value) => setMotivo(value as NotaDebito["motivo"])}>
+              <SelectTrigger data-testid="select-debit-note-motivo">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {Object.entries(motivosNotaDebito).map(([value, label]) => (
+                  <SelectItem key={value} value={value}>{label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="debit-note-descripcion">Descripción</Label>
+            <Textarea
+              id="debit-note-descripcion"
+              value={descripcion}
+              onChange={(e) => setDescripcion(e.target.value)}
+              placeholder="Ej: Limpieza de tapizados detectada en la entrega"
+              data-testid="textarea-debit-note-descripcion"
+            />
+          </div>
+
+          <Separator />
+
+          <div className="space-y-3">
+            <Label>Cargos (precios sin IVA)</Label>
+            {cargos.map((cargo, index) => (
+              <div key={index} className="grid grid-cols-12 gap-2 items-end" data-testid={`row-debit-note-item-${index}`}>
+                <div className="col-span-3">
+                  <Select value={cargo.serviceId} onValueChange={(value) => selectService(index, value)}>
+                    <SelectTrigger data-testid={`select-debit-note-service-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={OTRO_CARGO}>Otro cargo</SelectItem>
+                      {services.filter(service => service.activo).map(service => (
+                        <SelectItem key={service.id} value={service.id}>{service.nombre}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-3">
+                  <Input
+                    value={cargo.nombre}
+                    onChange={(e) => updateCargo(index, { nombre: e.target.value })}
+                    placeholder="Descripción"
+                    data-testid={`input-debit-note-nombre-${index}`}
+                  />
+                </div>
+                <div className="col-span-1">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={cargo.cantidad}
+                    onChange={(e) => updateCargo(index, { cantidad: e.target.value })}
+                    data-testid={`input-debit-note-cantidad-${index}`}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Input
+                    type="number"
+                    min={1}
+                    value={cargo.precioUnitario}
+                    onChange={(e) => updateCargo(index, { precioUnitario: e.target.value })}
+                    placeholder="Precio"
+                    data-testid={`input-debit-note-precio-${index}`}
+                  />
+                </div>
+                <div className="col-span-2">
+                  <Select
+                    value={String(exenta ? 0 : cargo.tasaIva)}
+                    onValueChange={(value) => updateCargo(index, { tasaIva: Number(value) as TasaIva })}
+                    disabled={exenta}
+                  >
+                    <SelectTrigger data-testid={`select-debit-note-iva-${index}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {TASAS_IVA.map(tasa => (
+                        <SelectItem key={tasa} value={String(tasa)}>{etiquetaTasaIva(tasa)}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="col-span-1">
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => setCargos(cargos.filter((_, i) => i !== index))}
+                    disabled={cargos.length === 1}
+                    data-testid={`button-remove-debit-note-item-${index}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+            ))}
+            <Button
+              size="sm"
+              variant="outline"
+              onClick={() => setCargos([...cargos, emptyCargo()])}
+              data-testid="button-add-debit-note-item"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Agregar cargo
+            </Button>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-1 text-sm">
+            <div className="flex justify-between">
+              <span className="text-muted-foreground">Subtotal:</span>
+              <span>{formatPrice(liquidacion.subtotal)}</span>
+            </div>
+            {exenta ? (
+              <div className="flex justify-between">
+                <span className="text-muted-foreground">IVA (Exento):</span>
+                <span>{formatPrice(0)}</span>
+              </div>
+            ) : (
+              <>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">IVA (10%):</span>
+                  <span>{formatPrice(liquidacion.iva10)}</span>
+                </div>
+                {liquidacion.iva5 > 0 && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">IVA (5%):</span>
+                    <span>{formatPrice(liquidacion.iva5)}</span>
+                  </div>
+                )}
+              </>
+            )}
+            <div className="flex justify-between font-semibold">
+              <span>Total:</span>
+              <span data-testid="text-debit-note-total">{formatPrice(liquidacion.total)}</span>
+            </div>
+          </div>
+
+          <div className="flex justify-end gap-2">
+            <Button variant="outline" onClick={onClose}>
+              Cancelar
+            </Button>
+            <Button
+              onClick={handleSubmit}
+              disabled={createMutation.isPending}
+              data-testid="button-confirm-debit-note"
+            >
+              {createMutation.isPending ? "Emitiendo..." : "Emitir Nota de Débito"}
+            </Button>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
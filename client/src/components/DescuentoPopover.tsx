@@ -0,0 +1,121 @@
+import { useState, useEffect } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Percent } from "lucide-react";
+import type { MotivoDescuento, TipoDescuento } from "@shared/schema";
+import { MOTIVOS_DESCUENTO, TIPOS_DESCUENTO, type DescuentoVenta } from "@shared/descuentos";
+
+interface DescuentoPopoverProps {
+  descuento: DescuentoVenta | null | undefined;
+  onChange: (descuento: DescuentoVenta | null) => void;
+  titulo: string;
+  testId: string;
+}
+
+// Label of a discount as entered, for the trigger button
+const etiquetaDescuento = (descuento: DescuentoVenta) =>
+  descuento.tipo === "porcentaje"
+    ? `-${descuento.valor}%`
+    : `-Gs. ${descuento.valor.toLocaleString('es-PY')}`;
+
+// Discount of a sale line or of the whole ticket: percentage or amount, always with a reason
+export default function DescuentoPopover({ descuento, onChange, titulo, testId }: DescuentoPopoverProps) {
+  const [open, setOpen] = useState(false);
+  const [tipo, setTipo] = useState<TipoDescuento>("porcentaje");
+  const [valor, setValor] = useState("");
+  const [motivo, setMotivo] = useState<MotivoDescuento | "">("");
+
+  // Start from the discount already applied every time it opens
+  useEffect(() => {
+    if (open) {
+      setTipo(descuento?.tipo ?? "porcentaje");
+      setValor(descuento ? descuento.valor.toString() : "");
+      setMotivo(descuento?.motivo ?? "");
+    }
+  }, [open, descuento]);
+
+  const valorNumero = parseFloat(valor);
+  const valido = valorNumero > 0 && (tipo !== "porcentaje" || valorNumero <= 100) && motivo !== "";
+
+  const aplicar = () => {
+    if (!valido) return;
+    onChange({ tipo, valor: valorNumero, motivo });
+    setOpen(false);
+  };
+
+  const quitar = () => {
+    onChange(null);
+    setOpen(false);
+  };
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button
+          type="button"
+          size="sm"
+          variant={descuento ? "secondary" : "outline"}
+          data-testid={`button-descuento-${testId}`}
+        >
+          <Percent className="h-3 w-3" />
+          {descuento && <span className="ml-1">{etiquetaDescuento(descuento)}</span>}
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="space-y-3">
+        <p className="text-sm font-medium">{titulo}</p>
+        <div className="grid grid-cols-2 gap-2">
+          <div className="space-y-1">
+            <Label>Tipo</Label>
+            <Select value={tipo} onValueChange={(value) => setTipo(value as TipoDescuento)}>
+              <SelectTrigger data-testid={`select-descuento-tipo-${testId}`}>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(TIPOS_DESCUENTO) as TipoDescuento[]).map(value => (
+                  <SelectItem key={value} value={value}>{TIPOS_DESCUENTO[value]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <div className="space-y-1">
+            <Label>{tipo === "porcentaje" ? "Porcentaje" : "Monto (Gs.)"}</Label>
+            <Input
+              type="number"
+              min="0"
+              max={tipo === "porcentaje" ? 100 : undefined}
+              value={valor}
+              onChange={(e) => setValor(e.target.value)}
+              data-testid={`input-descuento-valor-${testId}`}
+            />
+          </div>
+        </div>
+        <div className="space-y-1">
+          <Label>Motivo</Label>
+          <Select value={motivo} onValueChange={(value) => setMotivo(value as MotivoDescuento)}>
+            <SelectTrigger data-testid={`select-descuento-motivo-${testId}`}>
+              <SelectValue placeholder="Seleccione el motivo" />
+            </SelectTrigger>
+            <SelectContent>
+              {(Object.keys(MOTIVOS_DESCUENTO) as MotivoDescuento[]).map(value => (
+                <SelectItem key={value} value={value}>{MOTIVOS_DESCUENTO[value]}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex justify-end gap-2">
+          {descuento && (
+            <Button type="button" variant="outline" size="sm" onClick={quitar} data-testid={`button-descuento-quitar-${testId}`}>
+              Quitar
+            </Button>
+          )}
+          <Button type="button" size="sm" onClick={aplicar} disabled={!valido} data-testid={`button-descuento-aplicar-${testId}`}>
+            Aplicar
+          </Button>
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
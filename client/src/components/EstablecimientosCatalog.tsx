@@ -0,0 +1,560 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Store, Plus, Edit, Trash2, Power, KeyRound } from "lucide-react";
+import type { Establecimiento, PuntoExpedicion } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface PuntoDetalle extends PuntoExpedicion {
+  usuarios: number;
+  timbrado: {
+    timbradoId?: string;
+    numero?: string;
+    numeroInicial?: number;
+    numeroFinal?: number;
+    siguienteNumero?: number;
+    numerosDisponibles?: number;
+    error?: string;
+    code?: string;
+  };
+}
+
+interface EstablecimientoDetalle extends Establecimiento {
+  puntos: PuntoDetalle[];
+}
+
+interface EstablecimientoForm {
+  codigo: string;
+  nombre: string;
+  direccion: string;
+  ciudad: string;
+  telefono: string;
+}
+
+interface PuntoForm {
+  codigo: string;
+  descripcion: string;
+}
+
+const emptyEstablecimiento = (): EstablecimientoForm => ({ codigo: "", nombre: "", direccion: "", ciudad: "", telefono: "" });
+
+// Extract the Spanish details from an apiRequest error ("409: {...}")
+const errorDetails = (error: any, fallback: string) => {
+  try {
+    const errorData = JSON.parse(error.message.split(': ')[1]);
+    if (typeof errorData.details === 'string') {
+      return errorData.details;
+    }
+  } catch (e) {
+    // Use default message
+  }
+  return fallback;
+};
+
+export default function EstablecimientosCatalog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Establecimiento dialog: null = closed, "nuevo" = create, otherwise the one being edited
+  const [establecimientoDialog, setEstablecimientoDialog] = useState<"nuevo" | Establecimiento | null>(null);
+  const [establecimientoForm, setEstablecimientoForm] = useState<EstablecimientoForm>(emptyEstablecimiento());
+
+  // Punto dialog: establecimiento the new punto belongs to, or the punto being edited
+  const [puntoDialog, setPuntoDialog] = useState<{ establecimiento: Establecimiento; punto?: PuntoExpedicion } | null>(null);
+  const [puntoForm, setPuntoForm] = useState<PuntoForm>({ codigo: "", descripcion: "" });
+
+  // Range dialog: authorize numbering for a punto on the vigente timbrado
+  const [rangoDialog, setRangoDialog] = useState<{ establecimiento: Establecimiento; punto: PuntoDetalle } | null>(null);
+  const [rangoForm, setRangoForm] = useState({ numeroInicial: "1", numeroFinal: "" });
+
+  const { data: establecimientos = [], isLoading } = useQuery<EstablecimientoDetalle[]>({
+    queryKey: ['/api/establecimientos'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/establecimientos'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timbrados'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timbrado/status'] });
+  };
+
+  const onError = (title: string, fallback: string) => (error: any) => {
+    toast({ title, description: errorDetails(error, fallback), variant: "destructive" });
+  };
+
+  const saveEstablecimientoMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) =>
+      id ? apiRequest('PUT', `/api/establecimientos/${id}`, data) : apiRequest('POST', '/api/establecimientos', data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Establecimiento guardado", description: "El catálogo de establecimientos fue actualizado." });
+      setEstablecimientoDialog(null);
+    },
+    onError: onError("Error al guardar establecimiento", "No se pudo guardar el establecimiento."),
+  });
+
+  const deleteEstablecimientoMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/establecimientos/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Establecimiento eliminado", description: "El establecimiento fue eliminado del catálogo." });
+    },
+    onError: onError("Error al eliminar establecimiento", "No se pudo eliminar el establecimiento."),
+  });
+
+  const savePuntoMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) =>
+      id ? apiRequest('PUT', `/api/puntos-expedicion/${id}`, data) : apiRequest('POST', '/api/puntos-expedicion', data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Punto de expedición guardado", description: "El catálogo de puntos de expedición fue actualizado." });
+      setPuntoDialog(null);
+    },
+    onError: onError("Error al guardar punto de expedición", "No se pudo guardar el punto de expedición."),
+  });
+
+  const deletePuntoMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/puntos-expedicion/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Punto de expedición eliminado", description: "El punto de expedición fue eliminado del catálogo." });
+    },
+    onError: onError("Error al eliminar punto de expedición", "No se pudo eliminar el punto de expedición."),
+  });
+
+  const addRangoMutation = useMutation({
+    mutationFn: async ({ timbradoId, data }: { timbradoId: string; data: any }) =>
+      apiRequest('POST', `/api/timbrados/${timbradoId}/rangos`, data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Rango autorizado", description: "El punto de expedición ya puede emitir documentos." });
+      setRangoDialog(null);
+    },
+    onError: onError("Error al autorizar rango", "No se pudo registrar el rango de numeración."),
+  });
+
+  const openEstablecimiento = (establecimiento?: Establecimiento) => {
+    setEstablecimientoForm(establecimiento
+      ? {
+          codigo: establecimiento.codigo,
+          nombre: establecimiento.nombre,
+          direccion: establecimiento.direccion,
+          ciudad: establecimiento.ciudad,
+          telefono: establecimiento.telefono ?? "",
+        }
+      : emptyEstablecimiento());
+    setEstablecimientoDialog(establecimiento ?? "nuevo");
+  };
+
+  const openPunto = (establecimiento: Establecimiento, punto?: PuntoExpedicion) => {
+    setPuntoForm(punto ? { codigo: punto.codigo, descripcion: punto.descripcion } : { codigo: "", descripcion: "" });
+    setPuntoDialog({ establecimiento, punto });
+  };
+
+  const openRango = (establecimiento: Establecimiento, punto: PuntoDetalle) => {
+    setRangoForm({ numeroInicial: "1", numeroFinal: "" });
+    setRangoDialog({ establecimiento, punto });
+  };
+
+  const submitEstablecimiento = () => {
+    const editing = establecimientoDialog !== "nuevo" ? establecimientoDialog : null;
+    saveEstablecimientoMutation.mutate({
+      id: editing?.id,
+      data: {
+        ...establecimientoForm,
+        telefono: establecimientoForm.telefono || null,
+        activo: editing?.activo ?? true,
+      },
+    });
+  };
+
+  const toggleEstablecimiento = (establecimiento: Establecimiento) => {
+    saveEstablecimientoMutation.mutate({
+      id: establecimiento.id,
+      data: {
+        codigo: establecimiento.codigo,
+        nombre: establecimiento.nombre,
+        direccion: establecimiento.direccion,
+        ciudad: establecimiento.ciudad,
+        telefono: establecimiento.telefono,
+        activo: !establecimiento.activo,
+      },
+    });
+  };
+
+  const submitPunto = () => {
+    if (!puntoDialog) return;
+    savePuntoMutation.mutate({
+      id: puntoDialog.punto?.id,
+      data: {
+        establecimientoId: puntoDialog.establecimiento.id,
+        ...puntoForm,
+        activo: puntoDialog.punto?.activo ?? true,
+      },
+    });
+  };
+
+  const togglePunto = (punto: PuntoExpedicion) => {
+    savePuntoMutation.mutate({
+      id: punto.id,
+      data: {
+        establecimientoId: punto.establecimientoId,
+        codigo: punto.codigo,
+        descripcion: punto.descripcion,
+        activo: !punto.activo,
+      },
+    });
+  };
+
+  const submitRango = () => {
+    if (!rangoDialog?.punto.timbrado.timbradoId) return;
+    addRangoMutation.mutate({
+      timbradoId: rangoDialog.punto.timbrado.timbradoId,
+      data: {
+        establecimiento: rangoDialog.establecimiento.codigo,
+        puntoExpedicion: rangoDialog.punto.codigo,
+        numeroInicial: parseInt(rangoForm.numeroInicial) || 0,
+        numeroFinal: parseInt(rangoForm.numeroFinal) || 0,
+      },
+    });
+  };
+
+  const renderTimbrado = (establecimiento: Establecimiento, punto: PuntoDetalle) => {
+    const { timbrado } = punto;
+    if (timbrado.numeroInicial !== undefined && timbrado.numeroFinal !== undefined) {
+      return (
+        <div className="text-sm">
+          <div className="font-mono">
+            {timbrado.numero}: {timbrado.numeroInicial} a {timbrado.numeroFinal}
+          </div>
+          <div className={timbrado.code === "TIMBRADO_RANGE_EXHAUSTED" ? "text-xs text-red-600" : "text-xs text-muted-foreground"}>
+            {timbrado.code === "TIMBRADO_RANGE_EXHAUSTED"
+              ? "Numeración agotada"
+              : `Siguiente: ${timbrado.siguienteNumero} · Disponibles: ${timbrado.numerosDisponibles}`}
+          </div>
+        </div>
+      );
+    }
+
+    if (timbrado.code === "TIMBRADO_RANGE_NOT_AUTHORIZED" && timbrado.timbradoId) {
+      return (
+        <Button
+          size="sm"
+          variant="outline"
+          onClick={() => openRango(establecimiento, punto)}
+          data-testid={`button-authorize-range-${punto.id}`}
+        >
+          <KeyRound className="h-4 w-4 mr-1" />
+          Autorizar rango
+        </Button>
+      );
+    }
+
+    return <span className="text-xs text-muted-foreground">{timbrado.error ?? "Sin timbrado vigente"}</span>;
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Store className="h-5 w-5" />
+              Establecimientos y Puntos de Expedición
+            </CardTitle>
+            <CardDescription>
+              Cada punto de expedición (caja) tiene su propia numeración dentro del rango autorizado por el timbrado.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openEstablecimiento()} data-testid="button-add-establecimiento">
+            <Plus className="h-4 w-4 mr-1" />
+            Nuevo Establecimiento
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando establecimientos...</p>
+        ) : establecimientos.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-establecimientos">
+            No hay establecimientos registrados. Guarde la configuración de la empresa o registre uno nuevo.
+          </p>
+        ) : (
+          establecimientos.map(establecimiento => (
+            <div key={establecimiento.id} className="rounded-md border p-4 space-y-3" data-testid={`card-establecimiento-${establecimiento.id}`}>
+              <div className="flex items-start justify-between gap-4">
+                <div>
+                  <div className="flex items-center gap-2 font-medium">
+                    <span className="font-mono">{establecimiento.codigo}</span>
+                    <span>{establecimiento.nombre}</span>
+                    {!establecimiento.activo && <Badge variant="outline">Inactivo</Badge>}
+                  </div>
+                  <div className="text-sm text-muted-foreground">
+                    {establecimiento.direccion} - {establecimiento.ciudad}
+                    {establecimiento.telefono && ` · ${establecimiento.telefono}`}
+                  </div>
+                </div>
+                <div className="flex gap-1">
+                  <Button size="sm" variant="outline" onClick={() => openPunto(establecimiento)} data-testid={`button-add-punto-${establecimiento.id}`}>
+                    <Plus className="h-4 w-4 mr-1" />
+                    Punto
+                  </Button>
+                  <Button size="icon" variant="ghost" onClick={() => openEstablecimiento(establecimiento)} data-testid={`button-edit-establecimiento-${establecimiento.id}`}>
+                    <Edit className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => toggleEstablecimiento(establecimiento)}
+                    disabled={saveEstablecimientoMutation.isPending}
+                    data-testid={`button-toggle-establecimiento-${establecimiento.id}`}
+                  >
+                    <Power className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    size="icon"
+                    variant="ghost"
+                    onClick={() => deleteEstablecimientoMutation.mutate(establecimiento.id)}
+                    disabled={deleteEstablecimientoMutation.isPending}
+                    data-testid={`button-delete-establecimiento-${establecimiento.id}`}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </Button>
+                </div>
+              </div>
+
+              {establecimiento.puntos.length > 0 && (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Punto</TableHead>
+                      <TableHead>Descripción</TableHead>
+                      <TableHead>Usuarios</TableHead>
+                      <TableHead>Rango del timbrado vigente</TableHead>
+                      <TableHead className="text-right">Acciones</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {establecimiento.puntos.map(punto => (
+                      <TableRow key={punto.id} data-testid={`row-punto-${punto.id}`}>
+                        <TableCell className="font-mono">{establecimiento.codigo}-{punto.codigo}</TableCell>
+                        <TableCell>
+                          {punto.descripcion}
+                          {!punto.activo && <Badge variant="outline" className="ml-2">Inactivo</Badge>}
+                        </TableCell>
+                        <TableCell>{punto.usuarios}</TableCell>
+                        <TableCell>{renderTimbrado(establecimiento, punto)}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex justify-end gap-1">
+                            <Button size="icon" variant="ghost" onClick={() => openPunto(establecimiento, punto)} data-testid={`button-edit-punto-${punto.id}`}>
+                              <Edit className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => togglePunto(punto)}
+                              disabled={savePuntoMutation.isPending}
+                              data-testid={`button-toggle-punto-${punto.id}`}
+                            >
+                              <Power className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              size="icon"
+                              variant="ghost"
+                              onClick={() => deletePuntoMutation.mutate(punto.id)}
+                              disabled={deletePuntoMutation.isPending}
+                              data-testid={`button-delete-punto-${punto.id}`}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </div>
+          ))
+        )}
+      </CardContent>
+
+      {/* Establecimiento dialog */}
+      <Dialog open={!!establecimientoDialog} onOpenChange={(open) => !open && setEstablecimientoDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{establecimientoDialog === "nuevo" ? "Nuevo Establecimiento" : "Editar Establecimiento"}</DialogTitle>
+            <DialogDescription>
+              La dirección del establecimiento se informa como dirección del emisor en sus documentos
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="establecimiento-codigo">Código</Label>
+                <Input
+                  id="establecimiento-codigo"
+                  maxLength={3}
+                  value={establecimientoForm.codigo}
+                  onChange={(e) => setEstablecimientoForm({ ...establecimientoForm, codigo: e.target.value })}
+                  placeholder="002"
+                  className="font-mono"
+                  data-testid="input-establecimiento-codigo"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="establecimiento-nombre">Nombre</Label>
+                <Input
+                  id="establecimiento-nombre"
+                  value={establecimientoForm.nombre}
+                  onChange={(e) => setEstablecimientoForm({ ...establecimientoForm, nombre: e.target.value })}
+                  placeholder="Sucursal San Lorenzo"
+                  data-testid="input-establecimiento-nombre"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="establecimiento-direccion">Dirección</Label>
+              <Input
+                id="establecimiento-direccion"
+                value={establecimientoForm.direccion}
+                onChange={(e) => setEstablecimientoForm({ ...establecimientoForm, direccion: e.target.value })}
+                data-testid="input-establecimiento-direccion"
+              />
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="establecimiento-ciudad">Ciudad</Label>
+                <Input
+                  id="establecimiento-ciudad"
+                  value={establecimientoForm.ciudad}
+                  onChange={(e) => setEstablecimientoForm({ ...establecimientoForm, ciudad: e.target.value })}
+                  data-testid="input-establecimiento-ciudad"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="establecimiento-telefono">Teléfono</Label>
+                <Input
+                  id="establecimiento-telefono"
+                  value={establecimientoForm.telefono}
+                  onChange={(e) => setEstablecimientoForm({ ...establecimientoForm, telefono: e.target.value })}
+                  data-testid="input-establecimiento-telefono"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setEstablecimientoDialog(null)}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={submitEstablecimiento}
+                disabled={saveEstablecimientoMutation.isPending}
+                data-testid="button-save-establecimiento"
+              >
+                {saveEstablecimientoMutation.isPending ? "Guardando..." : "Guardar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Punto de expedición dialog */}
+      <Dialog open={!!puntoDialog} onOpenChange={(open) => !open && setPuntoDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{puntoDialog?.punto ? "Editar Punto de Expedición" : "Nuevo Punto de Expedición"}</DialogTitle>
+            <DialogDescription>
+              Establecimiento {puntoDialog?.establecimiento.codigo} - {puntoDialog?.establecimiento.nombre}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="punto-codigo">Código</Label>
+                <Input
+                  id="punto-codigo"
+                  maxLength={3}
+                  value={puntoForm.codigo}
+                  onChange={(e) => setPuntoForm({ ...puntoForm, codigo: e.target.value })}
+                  placeholder="002"
+                  className="font-mono"
+                  data-testid="input-punto-codigo"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="punto-descripcion">Descripción</Label>
+                <Input
+                  id="punto-descripcion"
+                  value={puntoForm.descripcion}
+                  onChange={(e) => setPuntoForm({ ...puntoForm, descripcion: e.target.value })}
+                  placeholder="Caja 2"
+                  data-testid="input-punto-descripcion"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setPuntoDialog(null)}>
+                Cancelar
+              </Button>
+              <Button onClick={submitPunto} disabled={savePuntoMutation.isPending} data-testid="button-save-punto">
+                {savePuntoMutation.isPending ? "Guardando..." : "Guardar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Range authorization dialog */}
+      <Dialog open={!!rangoDialog} onOpenChange={(open) => !open && setRangoDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Autorizar rango de numeración</DialogTitle>
+            <DialogDescription>
+              Timbrado {rangoDialog?.punto.timbrado.numero} para el punto {rangoDialog?.establecimiento.codigo}-{rangoDialog?.punto.codigo}
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="rango-inicial">Desde</Label>
+                <Input
+                  id="rango-inicial"
+                  type="number"
+                  min={1}
+                  value={rangoForm.numeroInicial}
+                  onChange={(e) => setRangoForm({ ...rangoForm, numeroInicial: e.target.value })}
+                  data-testid="input-punto-rango-inicial"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rango-final">Hasta</Label>
+                <Input
+                  id="rango-final"
+                  type="number"
+                  min={1}
+                  value={rangoForm.numeroFinal}
+                  onChange={(e) => setRangoForm({ ...rangoForm, numeroFinal: e.target.value })}
+                  data-testid="input-punto-rango-final"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setRangoDialog(null)}>
+                Cancelar
+              </Button>
+              <Button onClick={submitRango} disabled={addRangoMutation.isPending} data-testid="button-save-punto-rango">
+                {addRangoMutation.isPending ? "Guardando..." : "Autorizar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
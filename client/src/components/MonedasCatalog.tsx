@@ -0,0 +1,422 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Coins, Plus, Edit, Trash2, Power, TrendingUp } from "lucide-react";
+import type { Moneda, TipoCambio } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+
+interface MonedaVigente extends Moneda {
+  tipoCambio: TipoCambio | null;
+}
+
+interface MonedaForm {
+  codigo: string;
+  nombre: string;
+  simbolo: string;
+  decimales: string;
+}
+
+const emptyMoneda = (): MonedaForm => ({ codigo: "", nombre: "", simbolo: "", decimales: "2" });
+
+// Today as YYYY-MM-DD in local time, the format rates are entered with
+const hoy = () => {
+  const fecha = new Date();
+  return `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, '0')}-${String(fecha.getDate()).padStart(2, '0')}`;
+};
+
+// Extract the Spanish details from an apiRequest error ("409: {...}")
+const errorDetails = (error: any, fallback: string) => {
+  try {
+    const errorData = JSON.parse(error.message.split(': ')[1]);
+    if (typeof errorData.details === 'string') {
+      return errorData.details;
+    }
+  } catch (e) {
+    // Use default message
+  }
+  return fallback;
+};
+
+export default function MonedasCatalog() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+
+  // Currency dialog: null = closed, "nueva" = create, otherwise the one being edited
+  const [monedaDialog, setMonedaDialog] = useState<"nueva" | Moneda | null>(null);
+  const [monedaForm, setMonedaForm] = useState<MonedaForm>(emptyMoneda());
+
+  // Rate dialog: currency the rate is entered for
+  const [tipoCambioDialog, setTipoCambioDialog] = useState<Moneda | null>(null);
+  const [tipoCambioForm, setTipoCambioForm] = useState({ fecha: hoy(), tasa: "" });
+
+  const { data: monedas = [], isLoading } = useQuery<Moneda[]>({
+    queryKey: ['/api/monedas'],
+  });
+
+  const { data: vigentes = [] } = useQuery<MonedaVigente[]>({
+    queryKey: ['/api/monedas/vigentes'],
+  });
+
+  const { data: historial = [] } = useQuery<TipoCambio[]>({
+    queryKey: [`/api/tipos-cambio?moneda=${tipoCambioDialog?.codigo ?? ""}`],
+    enabled: !!tipoCambioDialog,
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/monedas'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/monedas/vigentes'] });
+    queryClient.invalidateQueries({
+      predicate: query => typeof query.queryKey[0] === "string" && query.queryKey[0].startsWith('/api/tipos-cambio'),
+    });
+  };
+
+  const onError = (title: string, fallback: string) => (error: any) => {
+    toast({ title, description: errorDetails(error, fallback), variant: "destructive" });
+  };
+
+  const saveMonedaMutation = useMutation({
+    mutationFn: async ({ id, data }: { id?: string; data: any }) =>
+      id ? apiRequest('PUT', `/api/monedas/${id}`, data) : apiRequest('POST', '/api/monedas', data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Moneda guardada", description: "El catálogo de monedas fue actualizado." });
+      setMonedaDialog(null);
+    },
+    onError: onError("Error al guardar moneda", "No se pudo guardar la moneda."),
+  });
+
+  const deleteMonedaMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/monedas/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Moneda eliminada", description: "La moneda fue eliminada del catálogo." });
+    },
+    onError: onError("Error al eliminar moneda", "No se pudo eliminar la moneda."),
+  });
+
+  const saveTipoCambioMutation = useMutation({
+    mutationFn: async (data: any) => apiRequest('POST', '/api/tipos-cambio', data),
+    onSuccess: () => {
+      invalidate();
+      toast({ title: "Tipo de cambio registrado", description: "Las ventas del día usarán el nuevo tipo de cambio." });
+      setTipoCambioForm({ fecha: hoy(), tasa: "" });
+    },
+    onError: onError("Error al registrar tipo de cambio", "No se pudo registrar el tipo de cambio."),
+  });
+
+  const deleteTipoCambioMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/tipos-cambio/${id}`),
+    onSuccess: () => invalidate(),
+    onError: onError("Error al eliminar tipo de cambio", "No se pudo eliminar el tipo de cambio."),
+  });
+
+  const openMoneda = (moneda?: Moneda) => {
+    setMonedaForm(moneda
+      ? { codigo: moneda.codigo, nombre: moneda.nombre, simbolo: moneda.simbolo, decimales: moneda.decimales.toString() }
+      : emptyMoneda());
+    setMonedaDialog(moneda ?? "nueva");
+  };
+
+  const openTipoCambio = (moneda: Moneda) => {
+    setTipoCambioForm({ fecha: hoy(), tasa: "" });
+    setTipoCambioDialog(moneda);
+  };
+
+  const submitMoneda = () => {
+    const editing = monedaDialog !== "nueva" ? monedaDialog : null;
+    saveMonedaMutation.mutate({
+      id: editing?.id,
+      data: {
+        codigo: monedaForm.codigo.trim().toUpperCase(),
+        nombre: monedaForm.nombre,
+        simbolo: monedaForm.simbolo,
+        decimales: parseInt(monedaForm.decimales) || 0,
+        activo: editing?.activo ?? true,
+      },
+    });
+  };
+
+  const toggleMoneda = (moneda: Moneda) => {
+    saveMonedaMutation.mutate({
+      id: moneda.id,
+      data: {
+        codigo: moneda.codigo,
+        nombre: moneda.nombre,
+        simbolo: moneda.simbolo,
+        decimales: moneda.decimales,
+        activo: !moneda.activo,
+      },
+    });
+  };
+
+  const submitTipoCambio = () => {
+    if (!tipoCambioDialog) return;
+    saveTipoCambioMutation.mutate({
+      moneda: tipoCambioDialog.codigo,
+      fecha: tipoCambioForm.fecha,
+      tasa: parseFloat(tipoCambioForm.tasa) || 0,
+    });
+  };
+
+  const tipoCambioVigente = (moneda: Moneda) => vigentes.find(v => v.id === moneda.id)?.tipoCambio ?? null;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Coins className="h-5 w-5" />
+              Monedas y Tipos de Cambio
+            </CardTitle>
+            <CardDescription>
+              Las ventas en moneda extranjera se facturan en guaraníes al tipo de cambio del día.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={() => openMoneda()} data-testid="button-add-moneda">
+            <Plus className="h-4 w-4 mr-1" />
+            Nueva Moneda
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando monedas...</p>
+        ) : monedas.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-monedas">
+            No hay monedas extranjeras registradas. Todas las ventas se cobran en guaraníes.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Moneda</TableHead>
+                <TableHead>Símbolo</TableHead>
+                <TableHead>Tipo de cambio vigente</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {monedas.map(moneda => {
+                const vigente = tipoCambioVigente(moneda);
+                return (
+                  <TableRow key={moneda.id} data-testid={`row-moneda-${moneda.id}`}>
+                    <TableCell>
+                      <div className="flex items-center gap-2">
+                        <span className="font-mono">{moneda.codigo}</span>
+                        <span>{moneda.nombre}</span>
+                        {!moneda.activo && <Badge variant="outline">Inactiva</Badge>}
+                      </div>
+                    </TableCell>
+                    <TableCell>{moneda.simbolo}</TableCell>
+                    <TableCell>
+                      {vigente ? (
+                        <div className="text-sm">
+                          <div>Gs. {parseFloat(vigente.tasa).toLocaleString('es-PY')}</div>
+                          <div className={vigente.fecha === hoy() ? "text-xs text-muted-foreground" : "text-xs text-amber-600"}>
+                            {vigente.fecha === hoy() ? "Cargado hoy" : `Del ${vigente.fecha}`}
+                          </div>
+                        </div>
+                      ) : (
+                        <span className="text-xs text-red-600">Sin tipo de cambio</span>
+                      )}
+                    </TableCell>
+                    <TableCell className="text-right">
+                      <div className="flex justify-end gap-1">
+                        <Button size="sm" variant="outline" onClick={() => openTipoCambio(moneda)} data-testid={`button-tipo-cambio-${moneda.id}`}>
+                          <TrendingUp className="h-4 w-4 mr-1" />
+                          Cotización
+                        </Button>
+                        <Button size="icon" variant="ghost" onClick={() => openMoneda(moneda)} data-testid={`button-edit-moneda-${moneda.id}`}>
+                          <Edit className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => toggleMoneda(moneda)}
+                          disabled={saveMonedaMutation.isPending}
+                          data-testid={`button-toggle-moneda-${moneda.id}`}
+                        >
+                          <Power className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => deleteMonedaMutation.mutate(moneda.id)}
+                          disabled={deleteMonedaMutation.isPending}
+                          data-testid={`button-delete-moneda-${moneda.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      {/* Currency dialog */}
+      <Dialog open={!!monedaDialog} onOpenChange={(open) => !open && setMonedaDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{monedaDialog === "nueva" ? "Nueva Moneda" : "Editar Moneda"}</DialogTitle>
+            <DialogDescription>
+              Código ISO 4217 de la moneda, el mismo que se informa a SIFEN
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="moneda-codigo">Código</Label>
+                <Input
+                  id="moneda-codigo"
+                  maxLength={3}
+                  value={monedaForm.codigo}
+                  onChange={(e) => setMonedaForm({ ...monedaForm, codigo: e.target.value.toUpperCase() })}
+                  placeholder="USD"
+                  className="font-mono"
+                  data-testid="input-moneda-codigo"
+                />
+              </div>
+              <div className="col-span-2 space-y-2">
+                <Label htmlFor="moneda-nombre">Nombre</Label>
+                <Input
+                  id="moneda-nombre"
+                  value={monedaForm.nombre}
+                  onChange={(e) => setMonedaForm({ ...monedaForm, nombre: e.target.value })}
+                  placeholder="Dólar estadounidense"
+                  data-testid="input-moneda-nombre"
+                />
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="moneda-simbolo">Símbolo</Label>
+                <Input
+                  id="moneda-simbolo"
+                  value={monedaForm.simbolo}
+                  onChange={(e) => setMonedaForm({ ...monedaForm, simbolo: e.target.value })}
+                  placeholder="US$"
+                  data-testid="input-moneda-simbolo"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="moneda-decimales">Decimales</Label>
+                <Input
+                  id="moneda-decimales"
+                  type="number"
+                  min={0}
+                  max={4}
+                  value={monedaForm.decimales}
+                  onChange={(e) => setMonedaForm({ ...monedaForm, decimales: e.target.value })}
+                  data-testid="input-moneda-decimales"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setMonedaDialog(null)}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={submitMoneda}
+                disabled={saveMonedaMutation.isPending}
+                data-testid="button-save-moneda"
+              >
+                {saveMonedaMutation.isPending ? "Guardando..." : "Guardar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Exchange rate dialog */}
+      <Dialog open={!!tipoCambioDialog} onOpenChange={(open) => !open && setTipoCambioDialog(null)}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Tipo de Cambio {tipoCambioDialog?.codigo}</DialogTitle>
+            <DialogDescription>
+              Guaraníes por cada {tipoCambioDialog?.nombre}. Registrarlo de nuevo para el mismo día lo corrige.
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="tipo-cambio-fecha">Fecha</Label>
+                <Input
+                  id="tipo-cambio-fecha"
+                  type="date"
+                  value={tipoCambioForm.fecha}
+                  onChange={(e) => setTipoCambioForm({ ...tipoCambioForm, fecha: e.target.value })}
+                  data-testid="input-tipo-cambio-fecha"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="tipo-cambio-tasa">Guaraníes</Label>
+                <Input
+                  id="tipo-cambio-tasa"
+                  type="number"
+                  min={0}
+                  step="0.01"
+                  value={tipoCambioForm.tasa}
+                  onChange={(e) => setTipoCambioForm({ ...tipoCambioForm, tasa: e.target.value })}
+                  placeholder="7300"
+                  data-testid="input-tipo-cambio-tasa"
+                />
+              </div>
+            </div>
+            <div className="flex justify-end">
+              <Button
+                onClick={submitTipoCambio}
+                disabled={saveTipoCambioMutation.isPending}
+                data-testid="button-save-tipo-cambio"
+              >
+                {saveTipoCambioMutation.isPending ? "Registrando..." : "Registrar"}
+              </Button>
+            </div>
+
+            {historial.length > 0 && (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead className="text-right">Guaraníes</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {historial.slice(0, 10).map(tipoCambio => (
+                    <TableRow key={tipoCambio.id} data-testid={`row-tipo-cambio-${tipoCambio.id}`}>
+                      <TableCell className="font-mono">{tipoCambio.fecha}</TableCell>
+                      <TableCell className="text-right">{parseFloat(tipoCambio.tasa).toLocaleString('es-PY')}</TableCell>
+                      <TableCell className="text-right">
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => deleteTipoCambioMutation.mutate(tipoCambio.id)}
+                          disabled={deleteTipoCambioMutation.isPending}
+                          data-testid={`button-delete-tipo-cambio-${tipoCambio.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
@@ -0,0 +1,138 @@
+import { useState } from "react";
+import { useQuery, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { useToast } from "@/hooks/use-toast";
+import { Database, Upload } from "lucide-react";
+import { formatDate } from "@/lib/utils";
+
+interface PadronRucEstado {
+  cantidad: number;
+  actualizado: string | null;
+}
+
+interface ResultadoImportacion {
+  archivos: string[];
+  procesados: number;
+  invalidos: number;
+  nuevos: number;
+  actualizados: number;
+  sinCambios: number;
+}
+
+// Extract the Spanish details from an error response body
+const errorDetails = (text: string, fallback: string) => {
+  try {
+    const errorData = JSON.parse(text);
+    if (typeof errorData.details === 'string') {
+      return errorData.details;
+    }
+  } catch (e) {
+    // Use default message
+  }
+  return fallback;
+};
+
+export default function PadronRucImport() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [archivos, setArchivos] = useState<File[]>([]);
+  const [importando, setImportando] = useState<string | null>(null);
+  const [resultados, setResultados] = useState<{ nombre: string; resultado: ResultadoImportacion }[]>([]);
+
+  const { data: estado } = useQuery<PadronRucEstado>({
+    queryKey: ['/api/padron-ruc/estado'],
+  });
+
+  // Files are sent one at a time, as downloaded from the DNIT (ruc0.zip ... ruc9.zip)
+  const importar = async () => {
+    setResultados([]);
+    for (const archivo of archivos) {
+      setImportando(archivo.name);
+      const res = await fetch('/api/padron-ruc/importar', {
+        method: 'POST',
+        headers: { "Content-Type": "application/octet-stream" },
+        body: archivo,
+        credentials: "include",
+      });
+
+      if (!res.ok) {
+        toast({
+          title: `Error al importar ${archivo.name}`,
+          description: errorDetails(await res.text(), "No se pudo importar el archivo del padrón."),
+          variant: "destructive",
+        });
+        continue;
+      }
+
+      const resultado: ResultadoImportacion = await res.json();
+      setResultados(previos => [...previos, { nombre: archivo.name, resultado }]);
+    }
+
+    setImportando(null);
+    setArchivos([]);
+    queryClient.invalidateQueries({ queryKey: ['/api/padron-ruc/estado'] });
+    toast({ title: "Padrón RUC actualizado", description: "Los clientes se autocompletan con los datos importados." });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Database className="h-5 w-5" />
+          Padrón RUC
+        </CardTitle>
+        <CardDescription>
+          Copia local del padrón de contribuyentes de la DNIT para completar clientes sin conexión a internet
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <p className="text-sm text-muted-foreground" data-testid="text-padron-estado">
+          {estado && estado.cantidad > 0
+            ? `${estado.cantidad.toLocaleString('es-PY')} contribuyentes, actualizado el ${formatDate(estado.actualizado)}`
+            : "El padrón todavía no fue importado"}
+        </p>
+
+        <div className="space-y-2">
+          <Label htmlFor="padron-archivos">Archivos del padrón (rucN.zip o .txt)</Label>
+          <div className="flex gap-2">
+            <Input
+              id="padron-archivos"
+              type="file"
+              multiple
+              accept=".zip,.txt"
+              onChange={(e) => setArchivos(Array.from(e.target.files ?? []))}
+              disabled={!!importando}
+              data-testid="input-padron-archivos"
+            />
+            <Button
+              onClick={importar}
+              disabled={archivos.length === 0 || !!importando}
+              data-testid="button-importar-padron"
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {importando ? `Importando ${importando}...` : "Importar"}
+            </Button>
+          </div>
+          <p className="text-xs text-muted-foreground">
+            Volver a importar un padrón más reciente solo actualiza los contribuyentes que cambiaron.
+          </p>
+        </div>
+
+        {resultados.length > 0 && (
+          <div className="space-y-1 text-sm" data-testid="text-padron-resultados">
+            {resultados.map(({ nombre, resultado }) => (
+              <p key={nombre}>
+                <span className="font-medium">{nombre}:</span>{" "}
+                {resultado.nuevos} nuevos, {resultado.actualizados} actualizados, {resultado.sinCambios} sin cambios
+                {resultado.invalidos > 0 && `, ${resultado.invalidos} líneas ignoradas`}
+              </p>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,527 @@
+import { useQuery } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import {
+  Printer,
+  FileText,
+  User,
+  Calendar,
+  Receipt,
+  DollarSign
+} from "lucide-react";
+import type { Sale, Customer, CompanyConfig, NotaCredito, NotaCreditoItem } from "@shared/schema";
+import { numberToWords } from "@/lib/utils";
+import { liquidarIva } from "@shared/iva";
+
+interface PrintCreditNoteProps {
+  isOpen: boolean;
+  onClose: () => void;
+  notaCreditoId: string | null;
+}
+
+interface CreditNotePrintData {
+  notaCredito: NotaCredito;
+  items: NotaCreditoItem[];
+  sale: Sale | null;
+  customer: Customer | null;
+  companyConfig: CompanyConfig | null;
+}
+
+// Labels for the SIFEN credit note reasons
+export const motivosNotaCredito: Record<NotaCredito["motivo"], string> = {
+  devolucion_ajuste: "Devolución y ajuste de precios",
+  devolucion: "Devolución",
+  descuento: "Descuento",
+  bonificacion: "Bonificación",
+  credito_incobrable: "Crédito incobrable",
+  ajuste_precio: "Ajuste de precio"
+};
+
+// Format price for Paraguay (Guaraní)
+const formatPrice = (price: number | string) => {
+  const numPrice = typeof price === 'string' ? parseInt(price) : price;
+  return `Gs. ${numPrice.toLocaleString('es-PY')}`;
+};
+
+// Format date for Paraguay
+const formatDate = (date: string | Date) => {
+  return new Date(date).toLocaleDateString('es-PY', {
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit'
+  });
+};
+
+export default function PrintCreditNote({ isOpen, onClose, notaCreditoId }: PrintCreditNoteProps) {
+  const { data, isLoading } = useQuery<CreditNotePrintData>({
+    queryKey: ['/api/print/notas-credito', notaCreditoId],
+    enabled: isOpen && !!notaCreditoId,
+  });
+
+  const handlePrint = (size: '80mm' | 'A4') => {
+    if (!data || !data.companyConfig) return;
+
+    const { notaCredito, items, sale, customer, companyConfig } = data;
+
+    const printWindow = window.open('', '_blank');
+    if (!printWindow) return;
+
+    const subtotal = parseInt(notaCredito.subtotal);
+    const tax = parseInt(notaCredito.impuestos);
+    const total = parseInt(notaCredito.total);
+    const totalInWords = numberToWords(total) + ' GUARANÍES';
+    const exento = !!sale?.regimenTurismo || tax === 0;
+    const liquidacion = liquidarIva(items.map(item => ({
+      precioUnitario: item.precioUnitario,
+      cantidad: item.cantidad,
+      tasaIva: item.tasaIva ?? 10,
+    })));
+
+    // CSS styles for different paper sizes (same layout as the invoice)
+    const styles = `
+      <style>
+        @media print {
+          @page {
+            ${size === '80mm'
+              ? 'size: 80mm auto; margin: 5mm;'
+              : 'size: A4; margin: 15mm;'
+            }
+          }
+          body {
+            margin: 0;
+            padding: 0;
+            font-family: 'Courier New', monospace;
+            ${size === '80mm' ? 'font-size: 10px;' : 'font-size: 12px;'}
+            line-height: 1.2;
+          }
+          .no-print { display: none !important; }
+        }
+
+        body {
+          font-family: 'Courier New', monospace;
+          margin: 0;
+          padding: ${size === '80mm' ? '5mm' : '15mm'};
+          ${size === '80mm' ? 'font-size: 10px;' : 'font-size: 12px;'}
+          line-height: 1.2;
+          max-width: ${size === '80mm' ? '70mm' : '190mm'};
+        }
+
+        .invoice-header {
+          text-align: center;
+          border-bottom: 1px solid #000;
+          padding-bottom: 8px;
+          margin-bottom: 10px;
+        }
+
+        .company-name {
+          font-weight: bold;
+          ${size === '80mm' ? 'font-size: 12px;' : 'font-size: 16px;'}
+          margin-bottom: 4px;
+        }
+
+        .company-details {
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+          margin-bottom: 2px;
+        }
+
+        .invoice-title {
+          font-weight: bold;
+          ${size === '80mm' ? 'font-size: 11px;' : 'font-size: 14px;'}
+          margin: 8px 0;
+          text-decoration: underline;
+        }
+
+        .fiscal-info {
+          display: grid;
+          grid-template-columns: 1fr 1fr;
+          gap: 4px;
+          margin: 8px 0;
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+        }
+
+        .customer-info,
+        .reference-info {
+          margin: 10px 0;
+          padding: 5px 0;
+          border-top: 1px solid #000;
+          border-bottom: 1px solid #000;
+        }
+
+        .section-title {
+          font-weight: bold;
+          margin-bottom: 4px;
+          ${size === '80mm' ? 'font-size: 9px;' : 'font-size: 11px;'}
+        }
+
+        .info-row {
+          display: flex;
+          justify-content: space-between;
+          margin: 2px 0;
+          ${size === '80mm' ? 'font-size: 9px;' : 'font-size: 11px;'}
+        }
+
+        .cdc {
+          word-break: break-all;
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+        }
+
+        .items-table {
+          width: 100%;
+          border-collapse: collapse;
+          margin: 10px 0;
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+        }
+
+        .items-table th,
+        .items-table td {
+          padding: 2px;
+          text-align: left;
+          border-bottom: 1px solid #ccc;
+        }
+
+        .items-table th {
+          font-weight: bold;
+          border-bottom: 1px solid #000;
+        }
+
+        .amount { text-align: right; }
+
+        .totals {
+          margin-top: 10px;
+          padding-top: 8px;
+          border-top: 1px solid #000;
+        }
+
+        .total-row {
+          display: flex;
+          justify-content: space-between;
+          margin: 2px 0;
+          ${size === '80mm' ? 'font-size: 9px;' : 'font-size: 11px;'}
+        }
+
+        .total-final {
+          font-weight: bold;
+          ${size === '80mm' ? 'font-size: 11px;' : 'font-size: 13px;'}
+          border-top: 1px solid #000;
+          padding-top: 4px;
+          margin-top: 4px;
+        }
+
+        .total-words {
+          margin: 8px 0;
+          padding: 4px;
+          border: 1px solid #000;
+          text-align: center;
+          font-weight: bold;
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+        }
+
+        .footer {
+          text-align: center;
+          margin-top: 15px;
+          padding-top: 10px;
+          border-top: 1px solid #000;
+          ${size === '80mm' ? 'font-size: 8px;' : 'font-size: 10px;'}
+        }
+
+        .legal-notice {
+          margin-top: 10px;
+          text-align: center;
+          ${size === '80mm' ? 'font-size: 7px;' : 'font-size: 9px;'}
+          color: #666;
+        }
+
+        @media screen {
+          .print-controls {
+            position: fixed;
+            top: 10px;
+            right: 10px;
+            background: white;
+            padding: 10px;
+            border: 1px solid #ccc;
+            border-radius: 4px;
+            box-shadow: 0 2px 8px rgba(0,0,0,0.1);
+          }
+        }
+      </style>
+    `;
+
+    const creditNoteHTML = `
+      <!DOCTYPE html>
+      <html>
+        <head>
+          <meta charset="utf-8">
+          <title>Nota de Crédito ${notaCredito.numero}</title>
+          ${styles}
+        </head>
+        <body>
+          <div class="print-controls no-print">
+            <button onclick="window.print()" style="margin-right: 10px; padding: 8px 16px; background: #007bff; color: white; border: none; border-radius: 4px; cursor: pointer;">Imprimir</button>
+            <button onclick="window.close()" style="padding: 8px 16px; background: #6c757d; color: white; border: none; border-radius: 4px; cursor: pointer;">Cerrar</button>
+          </div>
+
+          <div class="invoice-header">
+            <div class="company-name">${companyConfig.nombreFantasia || companyConfig.razonSocial}</div>
+            <div class="company-details">${companyConfig.razonSocial}</div>
+            <div class="company-details">RUC: ${companyConfig.ruc}</div>
+            <div class="company-details">${companyConfig.direccion}</div>
+            <div class="company-details">${companyConfig.ciudad}</div>
+            ${companyConfig.telefono ? `<div class="company-details">Tel: ${companyConfig.telefono}</div>` : ''}
+
+            <div class="invoice-title">NOTA DE CRÉDITO</div>
+
+            <div class="fiscal-info">
+              <div>Timbrado N°: ${notaCredito.timbradoUsado}</div>
+              <div>Válido hasta: ${new Date(companyConfig.timbradoHasta).toLocaleDateString('es-PY')}</div>
+              <div>Establecimiento: ${notaCredito.numero.split('-')[0]}</div>
+              <div>Punto Expedición: ${notaCredito.numero.split('-')[1]}</div>
+            </div>
+
+            <div style="font-weight: bold; margin: 8px 0;">
+              N° ${notaCredito.numero}
+            </div>
+            ${notaCredito.cdc ? `<div class="cdc">CDC: ${notaCredito.cdc}</div>` : ''}
+          </div>
+
+          <div class="customer-info">
+            <div class="info-row">
+              <span>Fecha:</span>
+              <span>${formatDate(notaCredito.fecha)}</span>
+            </div>
+            <div class="info-row">
+              <span>Cliente:</span>
+              <span>${customer ? customer.nombre : 'Sin Nombre'}</span>
+            </div>
+            <div class="info-row">
+              <span>Documento:</span>
+              <span>${customer ? customer.docNumero : '-'}</span>
+            </div>
+          </div>
+
+          <div class="reference-info">
+            <div class="section-title">DOCUMENTO ASOCIADO</div>
+            <div class="info-row">
+              <span>Factura N°:</span>
+              <span>${sale ? sale.numeroFactura : '-'}</span>
+            </div>
+            <div class="info-row">
+              <span>Timbrado:</span>
+              <span>${sale ? sale.timbradoUsado : '-'}</span>
+            </div>
+            <div class="info-row">
+              <span>Fecha factura:</span>
+              <span>${sale ? formatDate(sale.fecha) : '-'}</span>
+            </div>
+            ${sale?.cdc ? `<div class="cdc">CDC: ${sale.cdc}</div>` : ''}
+            <div class="info-row" style="margin-top: 4px;">
+              <span>Motivo:</span>
+              <span>${motivosNotaCredito[notaCredito.motivo] || notaCredito.motivo}</span>
+            </div>
+            <div class="info-row">
+              <span>${notaCredito.descripcion}</span>
+            </div>
+          </div>
+
+          <table class="items-table">
+            <thead>
+              <tr>
+                <th>Descripción</th>
+                <th style="text-align: center;">Cant.</th>
+                <th class="amount">P. Unit.</th>
+                <th class="amount">Subtotal</th>
+              </tr>
+            </thead>
+            <tbody>
+              ${items.map(item => `
+                <tr>
+                  <td>${item.nombre}</td>
+                  <td style="text-align: center;">${item.cantidad}</td>
+                  <td class="amount">${formatPrice(item.precioUnitario)}</td>
+                  <td class="amount">${formatPrice(item.subtotal)}</td>
+                </tr>
+              `).join('')}
+            </tbody>
+          </table>
+
+          <div class="totals">
+            <div class="total-row">
+              <span>Subtotal:</span>
+              <span>${formatPrice(subtotal)}</span>
+            </div>
+
+            ${exento ? `
+              <div class="total-row">
+                <span>IVA (Exento):</span>
+                <span>Gs. 0</span>
+              </div>
+            ` : `
+              <div class="total-row">
+                <span>IVA (10%):</span>
+                <span>${formatPrice(liquidacion.iva10)}</span>
+              </div>
+              ${liquidacion.iva5 > 0 ? `
+                <div class="total-row">
+                  <span>IVA (5%):</span>
+                  <span>${formatPrice(liquidacion.iva5)}</span>
+                </div>
+              ` : ''}
+            `}
+
+            <div class="total-row total-final">
+              <span>TOTAL CRÉDITO:</span>
+              <span>${formatPrice(total)}</span>
+            </div>
+          </div>
+
+          <div class="total-words">
+            Son: ${totalInWords}
+          </div>
+
+          <div class="footer">
+            <div style="margin-top: 8px;">
+              Original: Cliente | Duplicado: Archivo
+            </div>
+          </div>
+
+          <div class="legal-notice">
+            Ley 125/91 que establece el nuevo régimen tributario.<br/>
+            Decreto 12084 que reglamenta la Ley 125/91.
+          </div>
+        </body>
+      </html>
+    `;
+
+    printWindow.document.write(creditNoteHTML);
+    printWindow.document.close();
+
+    // Auto-focus print window and trigger print dialog
+    printWindow.focus();
+    setTimeout(() => {
+      printWindow.print();
+    }, 250);
+  };
+
+  if (!notaCreditoId) {
+    return null;
+  }
+
+  return (
+    <Dialog open={isOpen} onOpenChange={onClose}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Receipt className="h-5 w-5" />
+            Imprimir Nota de Crédito {data?.notaCredito.numero}
+          </DialogTitle>
+          <DialogDescription>
+            Seleccione el tipo de impresión según su impresora
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading || !data ? (
+          <div className="flex items-center justify-center py-8">
+            <div className="animate-spin h-6 w-6 border-4 border-primary border-t-transparent rounded-full"></div>
+          </div>
+        ) : (
+          <div className="space-y-6">
+            {/* Credit Note Preview Info */}
+            <div className="bg-muted p-4 rounded-lg">
+              <div className="grid grid-cols-2 gap-4 text-sm">
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <User className="h-4 w-4" />
+                    <span className="font-medium">Cliente:</span>
+                    <span>{data.customer?.nombre || 'Sin Nombre'}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-4 w-4" />
+                    <span className="font-medium">Factura:</span>
+                    <span>{data.sale?.numeroFactura || '-'}</span>
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <div className="flex items-center gap-2">
+                    <Calendar className="h-4 w-4" />
+                    <span className="font-medium">Fecha:</span>
+                    <span>{formatDate(data.notaCredito.fecha)}</span>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <DollarSign className="h-4 w-4" />
+                    <span className="font-medium">Total:</span>
+                    <span className="font-bold">{formatPrice(data.notaCredito.total)}</span>
+                  </div>
+                </div>
+              </div>
+
+              <div className="mt-2">
+                <Badge variant="secondary">
+                  {motivosNotaCredito[data.notaCredito.motivo] || data.notaCredito.motivo}
+                </Badge>
+              </div>
+            </div>
+
+            <Separator />
+
+            {/* Print Options */}
+            <div className="space-y-4">
+              <h3 className="text-lg font-semibold">Opciones de Impresión</h3>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {/* 80mm Thermal Printer Option */}
+                <div className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <Printer className="h-5 w-5" />
+                    <h4 className="font-medium">Impresora Térmica (80mm)</h4>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Para impresoras de tickets térmicas estándar de punto de venta
+                  </p>
+                  <Button
+                    onClick={() => handlePrint('80mm')}
+                    className="w-full"
+                    data-testid="button-print-credit-note-80mm"
+                  >
+                    <Printer className="h-4 w-4 mr-2" />
+                    Imprimir Ticket
+                  </Button>
+                </div>
+
+                {/* A4 Printer Option */}
+                <div className="border rounded-lg p-4 space-y-3">
+                  <div className="flex items-center gap-2">
+                    <FileText className="h-5 w-5" />
+                    <h4 className="font-medium">Impresora A4</h4>
+                  </div>
+                  <p className="text-sm text-muted-foreground">
+                    Para impresoras láser o de inyección de tinta formato carta
+                  </p>
+                  <Button
+                    onClick={() => handlePrint('A4')}
+                    variant="outline"
+                    className="w-full"
+                    data-testid="button-print-credit-note-a4"
+                  >
+                    <FileText className="h-4 w-4 mr-2" />
+                    Imprimir A4
+                  </Button>
+                </div>
+              </div>
+
+              <div className="flex pt-4 border-t">
+                <div className="ml-auto">
+                  <Button variant="ghost" onClick={onClose}>
+                    Cerrar
+                  </Button>
+                </div>
+              </div>
+            </div>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
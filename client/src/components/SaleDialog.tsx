@@ -33,8 +33,15 @@ import {
   Save,
   UserCheck
 } from "lucide-react";
-import { insertSaleSchema, type WorkOrder, type Customer, type Service, type InventoryItem, type WorkOrderItem } from "@shared/schema";
+import { insertSaleSchema, type WorkOrder, type Customer, type Service, type ServiceCombo, type InventoryItem, type WorkOrderItem, type TasaIva, type Moneda, type TipoCambio, type MedioPago, type CompanyConfig } from "@shared/schema";
+import { liquidarIva } from "@shared/iva";
+import { cotizarVenta } from "@shared/precios";
+import { porcentajeDescuento, descuentoMaximoRol, type DescuentoVenta } from "@shared/descuentos";
+import { MONEDA_BASE, convertirDesdeGuaranies, formatearMoneda } from "@shared/monedas";
+import { validarTurista, leyendasTurismo } from "@shared/turismo";
+import { MEDIOS_PAGO, MARCAS_TARJETA, validarPagos, aplicarVuelto, medioPagoPrincipal, descripcionPago, type PagoVenta } from "@shared/pagos";
 import { apiRequest } from "@/lib/queryClient";
+import DescuentoPopover from "@/components/DescuentoPopover";
 
 // Sale form schema
 const saleFormSchema = insertSaleSchema.extend({
@@ -45,6 +52,7 @@ const saleFormSchema = insertSaleSchema.extend({
     price: z.number(),
     quantity: z.number().min(1),
     total: z.number(),
+    tasaIva: z.number(),
   })).min(1, "Debe agregar al menos un item"),
   customerData: z.object({
     id: z.string(),
@@ -55,6 +63,7 @@ const saleFormSchema = insertSaleSchema.extend({
   calculatedSubtotal: z.number(),
   calculatedTax: z.number(),
   calculatedTotal: z.number(),
+  fechaVencimiento: z.string().optional().nullable(),
 });
 
 type SaleFormData = z.infer<typeof saleFormSchema>;
@@ -66,6 +75,8 @@ interface SaleItem {
   price: number;
   quantity: number;
   total: number;
+  tasaIva: TasaIva;
+  descuento?: DescuentoVenta | null;
 }
 
 interface SaleDialogProps {
@@ -77,16 +88,31 @@ interface SaleDialogProps {
   onOrderDelivered?: (orderId: string) => void;
 }
 
-// Payment methods
-const paymentMethods = [
-  { value: "efectivo", label: "Efectivo" },
-  { value: "tarjeta", label: "Tarjeta de Crédito/Débito" },
-  { value: "transferencia", label: "Transferencia Bancaria" },
-  { value: "cuenta", label: "Cuenta Corriente" },
-];
+// A payment as entered; an empty amount pays what the other payments leave
+interface PagoForm {
+  medioPago: MedioPago;
+  monto: string;
+  marcaTarjeta: string;
+  ultimos4: string;
+  referencia: string;
+}
+
+const pagoVacio = (medioPago: MedioPago = "efectivo"): PagoForm => ({
+  medioPago,
+  monto: "",
+  marcaTarjeta: "",
+  ultimos4: "",
+  referencia: "",
+});
 
-// Tax rate (10% IVA in Paraguay)
-const TAX_RATE = 0.10;
+const esTarjeta = (medioPago: MedioPago) => medioPago === "tarjeta_credito" || medioPago === "tarjeta_debito";
+
+// Default term of credit sales: 30 days
+const fechaVencimientoPorDefecto = () => {
+  const fecha = new Date();
+  fecha.setDate(fecha.getDate() + 30);
+  return `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, '0')}-${String(fecha.getDate()).padStart(2, '0')}`;
+};
 
 // Format price for Paraguay (Guaraní)
 const formatPrice = (price: number | string) => {
@@ -101,6 +127,10 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
   const [searchTerm, setSearchTerm] = useState("");
   const [timbradoStatus, setTimbradoStatus] = useState<{ isValid: boolean; error?: string }>({ isValid: true });
   const [markAsDelivered, setMarkAsDelivered] = useState(false);
+  const [pagos, setPagos] = useState<PagoForm[]>([pagoVacio()]);
+  const [descuentoVenta, setDescuentoVenta] = useState<DescuentoVenta | null>(null);
+  const [autorizadoPor, setAutorizadoPor] = useState("");
+  const [pinAutorizacion, setPinAutorizacion] = useState("");
 
   // Fetch real inventory items from API
   const { data: inventoryItems = [] } = useQuery<InventoryItem[]>({
@@ -108,6 +138,29 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
     enabled: isOpen,
   });
 
+  // Combos are priced from the catalog like any other item
+  const { data: combos = [] } = useQuery<ServiceCombo[]>({
+    queryKey: ['/api/service-combos'],
+    enabled: isOpen,
+  });
+
+  // Foreign currencies with the rate of the day
+  const { data: monedas = [] } = useQuery<(Moneda & { tipoCambio: TipoCambio | null })[]>({
+    queryKey: ['/api/monedas/vigentes'],
+    enabled: isOpen,
+  });
+
+  // Discounts beyond the maximum of the cashier's role need the PIN of an admin
+  const { data: companyConfig } = useQuery<CompanyConfig | null>({
+    queryKey: ['/api/company-config'],
+    enabled: isOpen,
+  });
+
+  const { data: authData } = useQuery<{ user: { role: string } } | null>({
+    queryKey: ['/api/auth/me'],
+    enabled: isOpen,
+  });
+
   // Check timbrado status on component mount
   const { data: timbradoData } = useQuery({
     queryKey: ['/api/timbrado/status'],
@@ -119,6 +172,13 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
     enabled: isOpen,
   });
 
+  // Sales are recorded against the cashier's open cash session
+  const { data: sesionCaja, isLoading: sesionCajaLoading } = useQuery<{ sesion: { id: string } } | null>({
+    queryKey: ['/api/caja/sesion-actual'],
+    enabled: isOpen,
+  });
+  const cajaAbierta = !!sesionCaja;
+
   // Fetch WorkOrderItems when workOrder is provided
   const { data: workOrderItems = [], isLoading: workOrderItemsLoading } = useQuery<WorkOrderItem[]>({
     queryKey: ['/api/work-orders', workOrder?.id, 'items'],
@@ -157,6 +217,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
           price: parseInt(item.precio),
           quantity: item.cantidad,
           total: parseInt(item.precio) * item.cantidad,
+          tasaIva: services.find(service => service.id === item.serviceId)?.tasaIva ?? 10,
         };
       });
       setItems(saleItems);
@@ -164,12 +225,30 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
       // Clear items when no work order (standalone sale)
       setItems([]);
     }
-  }, [workOrder, workOrderItems, isOpen]);
+  }, [workOrder, workOrderItems, isOpen, services]);
+
+  // Calculate totals with the same pricing engine the server uses (exento under régimen de turismo)
+  const precios = cotizarVenta(
+    items,
+    { services, combos, inventoryItems, workOrderItems },
+    { regimenTurismo: customer?.regimenTurismo || false, descuento: descuentoVenta }
+  );
+  const liquidacion = precios.cotizacion ?? liquidarIva([]);
+  const descuentoTotal = precios.cotizacion?.descuentoTotal ?? 0;
+  const maximoDescuento = descuentoMaximoRol(authData?.user?.role ?? "user", companyConfig);
+  const requiereAutorizacion = !!precios.cotizacion && porcentajeDescuento(precios.cotizacion) > maximoDescuento;
+
+  // Admins with a PIN the cashier can name to authorize the discount
+  const { data: autorizadores = [] } = useQuery<{ id: string; nombre: string }[]>({
+    queryKey: ['/api/descuentos/autorizadores'],
+    enabled: requiereAutorizacion,
+  });
 
-  // Calculate totals
-  const subtotal = items.reduce((sum, item) => sum + item.total, 0);
-  const taxAmount = customer?.regimenTurismo ? 0 : Math.round(subtotal * TAX_RATE);
-  const total = subtotal + taxAmount;
+  // The server rejects turismo sales to tourists outside the conditions of the régimen
+  const turismo: ReturnType<typeof validarTurista> = customer?.regimenTurismo ? validarTurista(customer, new Date()) : { success: true };
+  const subtotal = liquidacion.subtotal;
+  const taxAmount = liquidacion.impuestos;
+  const total = liquidacion.total;
 
   // Form setup
   const form = useForm<SaleFormData>({
@@ -178,6 +257,9 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
       customerId: customer?.id || "",
       workOrderId: workOrder?.id || null,
       medioPago: "efectivo",
+      condicionVenta: "contado",
+      fechaVencimiento: fechaVencimientoPorDefecto(),
+      moneda: MONEDA_BASE,
       regimenTurismo: customer?.regimenTurismo || false,
       subtotal: "0",
       impuestos: "0",
@@ -195,6 +277,57 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
     },
   });
 
+  // Currency the customer pays in, when it is not guaraníes
+  const monedaPago = monedas.find(moneda => moneda.codigo === form.watch('moneda'));
+
+  // Payments as the server validates them: cash beyond the total becomes change
+  const montoIngresado = pagos.reduce((sum, pago) => sum + (parseInt(pago.monto) || 0), 0);
+  const saldo = Math.max(total - montoIngresado, 0);
+  let restante = saldo;
+  const entregas: PagoVenta[] = pagos.map(pago => {
+    let monto = parseInt(pago.monto) || 0;
+    if (!pago.monto.trim()) {
+      monto = restante;
+      restante = 0;
+    }
+    return {
+      medioPago: pago.medioPago,
+      monto,
+      marcaTarjeta: esTarjeta(pago.medioPago) ? pago.marcaTarjeta || null : null,
+      ultimos4: esTarjeta(pago.medioPago) ? pago.ultimos4 || null : null,
+      referencia: !esTarjeta(pago.medioPago) && pago.medioPago !== "efectivo" ? pago.referencia.trim() || null : null,
+    };
+  });
+  const pagosVenta = aplicarVuelto(entregas, total);
+  const ultimos4Incompletos = pagosVenta.some(pago => pago.ultimos4 && pago.ultimos4.length !== 4);
+  const validacionPagos: ReturnType<typeof validarPagos> = ultimos4Incompletos
+    ? { success: false, error: "Ingrese los 4 últimos dígitos de la tarjeta" }
+    : validarPagos(pagosVenta, total);
+  const vuelto = pagosVenta.reduce((sum, pago) => sum + (pago.vuelto ?? 0), 0);
+
+  const actualizarPago = (index: number, cambios: Partial<PagoForm>) => {
+    setPagos(pagos.map((pago, i) => (i === index ? { ...pago, ...cambios } : pago)));
+  };
+
+  // A new payment starts with what is left to pay, unless a payment without amount already takes it
+  const agregarPago = () => {
+    const conSaldo = pagos.some(pago => !pago.monto.trim());
+    setPagos([...pagos, { ...pagoVacio("tarjeta_debito"), monto: !conSaldo && saldo > 0 ? saldo.toString() : "" }]);
+  };
+
+  const quitarPago = (index: number) => {
+    setPagos(pagos.filter((_, i) => i !== index));
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setPagos([pagoVacio()]);
+      setDescuentoVenta(null);
+      setAutorizadoPor("");
+      setPinAutorizacion("");
+    }
+  }, [isOpen]);
+
   // Update form when items or customer change
   useEffect(() => {
     form.setValue('items', items);
@@ -222,7 +355,6 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
       const endpoint = workOrder ? '/api/sales/create-from-order' : '/api/sales';
       const payload = workOrder ? data : data.saleData;
       const response = await apiRequest('POST', endpoint, payload);
-      if (!response.ok) throw new Error('Failed to create sale');
       return response;
     },
     onSuccess: (data, variables) => {
@@ -256,6 +388,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
       // Invalidate any dashboard-related aggregated data queries
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] });
       queryClient.invalidateQueries({ queryKey: ['/api/customers'] }); // For customer updates
+      queryClient.invalidateQueries({ queryKey: ['/api/caja/sesion-actual'] }); // Cash session totals
       
       onClose();
     },
@@ -299,7 +432,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
               <div style="margin: 10px 0;">
                 <p><strong>Cliente:</strong> ${customer?.nombre}</p>
                 <p><strong>Documento:</strong> ${customer?.docNumero}</p>
-                ${customer?.regimenTurismo ? '<p><strong>Régimen Turismo</strong></p>' : ''}
+                ${customer?.regimenTurismo ? leyendasTurismo(customer).map(leyenda => `<p>${leyenda}</p>`).join('') : ''}
               </div>
               <div class="items">
                 ${items.map(item => `
@@ -310,23 +443,45 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                 `).join('')}
               </div>
               <div class="totals">
+                ${descuentoTotal > 0 ? `
+                  <div class="total-line">
+                    <span>Descuentos:</span>
+                    <span>-${formatPrice(descuentoTotal)}</span>
+                  </div>
+                ` : ''}
                 <div class="total-line">
                   <span>Subtotal:</span>
                   <span>${formatPrice(subtotal)}</span>
                 </div>
-                ${taxAmount > 0 ? `
-                  <div class="total-line">
-                    <span>IVA (10%):</span>
-                    <span>${formatPrice(taxAmount)}</span>
-                  </div>
-                ` : '<div class="total-line"><span>Exento IVA (Turismo)</span></div>'}
+                ${customer?.regimenTurismo ? '<div class="total-line"><span>Exento IVA (Turismo)</span></div>' : `
+                  ${liquidacion.iva10 > 0 ? `
+                    <div class="total-line">
+                      <span>IVA (10%):</span>
+                      <span>${formatPrice(liquidacion.iva10)}</span>
+                    </div>
+                  ` : ''}
+                  ${liquidacion.iva5 > 0 ? `
+                    <div class="total-line">
+                      <span>IVA (5%):</span>
+                      <span>${formatPrice(liquidacion.iva5)}</span>
+                    </div>
+                  ` : ''}
+                  ${liquidacion.exentas > 0 ? `
+                    <div class="total-line">
+                      <span>Exentas:</span>
+                      <span>${formatPrice(liquidacion.exentas)}</span>
+                    </div>
+                  ` : ''}
+                `}
                 <div class="total-line" style="font-weight: bold; font-size: 1.2em;">
                   <span>Total:</span>
                   <span>${formatPrice(total)}</span>
                 </div>
               </div>
               <div class="footer">
-                <p>Medio de Pago: ${form.getValues('medioPago')}</p>
+                ${form.getValues('condicionVenta') === 'credito' ? '<p>Condición: Crédito</p>' : pagosVenta.map(pago => `
+                  <p>${descripcionPago(pago)}: ${formatPrice(pago.monto)}${pago.vuelto ? ` (Vuelto: ${formatPrice(pago.vuelto)})` : ''}</p>
+                `).join('')}
                 <p>¡Gracias por su preferencia!</p>
               </div>
             </div>
@@ -357,6 +512,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
         price: parseInt('precio' in item ? item.precio : (item as any).precio),
         quantity: 1,
         total: parseInt('precio' in item ? item.precio : (item as any).precio),
+        tasaIva: item.tasaIva ?? 10,
       };
       setItems([...items, newItem]);
     }
@@ -375,6 +531,11 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
     setItems(updatedItems);
   };
 
+  // Discount of a line; null removes it
+  const updateItemDescuento = (index: number, descuento: DescuentoVenta | null) => {
+    setItems(items.map((item, i) => (i === index ? { ...item, descuento } : item)));
+  };
+
   // Remove item
   const removeItem = (index: number) => {
     setItems(items.filter((_, i) => i !== index));
@@ -402,7 +563,64 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
       return;
     }
 
-    createSaleMutation.mutate({ saleData: formData, action });
+    if (!precios.success) {
+      toast({
+        title: "Error de precios",
+        description: precios.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (!turismo.success) {
+      toast({
+        title: "Régimen de turismo",
+        description: turismo.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.condicionVenta === "credito" && !formData.fechaVencimiento) {
+      toast({
+        title: "Error",
+        description: "Indique la fecha de vencimiento de la venta a crédito",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (requiereAutorizacion && (!autorizadoPor || !/^\d{4,8}$/.test(pinAutorizacion))) {
+      toast({
+        title: "Autorización requerida",
+        description: `El descuento supera el máximo de ${maximoDescuento}% de su rol; elija el administrador que autoriza e ingrese su PIN`,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    if (formData.condicionVenta !== "credito" && !validacionPagos.success) {
+      toast({
+        title: "Error en los pagos",
+        description: validacionPagos.error,
+        variant: "destructive",
+      });
+      return;
+    }
+
+    // The due date is a local calendar day; cash sales carry none and are settled by their payments
+    const saleData = {
+      ...formData,
+      fechaVencimiento: formData.condicionVenta === "credito"
+        ? new Date(`${formData.fechaVencimiento}T00:00:00`).toISOString()
+        : null,
+      ...(formData.condicionVenta !== "credito" ? { medioPago: medioPagoPrincipal(pagosVenta), pagos: pagosVenta } : {}),
+      descuento: descuentoVenta,
+      autorizadoPor: requiereAutorizacion ? autorizadoPor : undefined,
+      pinAutorizacion: requiereAutorizacion ? pinAutorizacion : undefined,
+    };
+
+    createSaleMutation.mutate({ saleData, action });
   };
 
   // Filter available products for search
@@ -445,6 +663,33 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
           </Alert>
         )}
 
+        {!sesionCajaLoading && !cajaAbierta && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription data-testid="text-caja-cerrada">
+              No hay una caja abierta. Abra la caja en el menú Caja antes de registrar ventas.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!turismo.success && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription data-testid="text-tourism-error">
+              {turismo.error} Actualice los datos del cliente antes de facturar.
+            </AlertDescription>
+          </Alert>
+        )}
+
+        {!precios.success && (
+          <Alert variant="destructive">
+            <AlertTriangle className="h-4 w-4" />
+            <AlertDescription data-testid="text-pricing-error">
+              {precios.error}
+            </AlertDescription>
+          </Alert>
+        )}
+
         <div className="grid grid-cols-2 gap-6">
           {/* Left Column - Items Selection */}
           <div className="space-y-4">
@@ -503,7 +748,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                             <div>
                               <p className="font-medium">{product.nombre}</p>
                               <p className="text-sm text-muted-foreground">
-                                {formatPrice(15000)} (Stock: {product.stockActual})
+                                {formatPrice(product.precio)} (Stock: {product.stockActual})
                               </p>
                             </div>
                             <Button size="sm" variant="outline">
@@ -569,6 +814,12 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                           >
                             <Plus className="h-3 w-3" />
                           </Button>
+                          <DescuentoPopover
+                            descuento={item.descuento}
+                            onChange={(descuento) => updateItemDescuento(index, descuento)}
+                            titulo={`Descuento en ${item.name}`}
+                            testId={`${index}`}
+                          />
                           <Button
                             size="sm"
                             variant="destructive"
@@ -580,6 +831,11 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                         </div>
                         <div className="text-right font-medium w-24" data-testid={`total-${index}`}>
                           {formatPrice(item.total)}
+                          {(precios.cotizacion?.lineas[index]?.descuentoLinea ?? 0) > 0 && (
+                            <p className="text-xs text-green-600" data-testid={`discount-${index}`}>
+                              -{formatPrice(precios.cotizacion!.lineas[index].descuentoLinea)}
+                            </p>
+                          )}
                         </div>
                       </div>
                     ))}
@@ -597,22 +853,19 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
               <div className="space-y-4">
                 <FormField
                   control={form.control}
-                  name="medioPago"
+                  name="condicionVenta"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Medio de Pago</FormLabel>
+                      <FormLabel>Condición de Venta</FormLabel>
                       <Select value={field.value} onValueChange={field.onChange}>
                         <FormControl>
-                          <SelectTrigger data-testid="select-payment-method">
-                            <SelectValue placeholder="Seleccionar medio de pago" />
+                          <SelectTrigger data-testid="select-sale-condition">
+                            <SelectValue placeholder="Seleccionar condición" />
                           </SelectTrigger>
                         </FormControl>
                         <SelectContent>
-                          {paymentMethods.map((method) => (
-                            <SelectItem key={method.value} value={method.value}>
-                              {method.label}
-                            </SelectItem>
-                          ))}
+                          <SelectItem value="contado">Contado</SelectItem>
+                          <SelectItem value="credito">Crédito</SelectItem>
                         </SelectContent>
                       </Select>
                       <FormMessage />
@@ -620,9 +873,202 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                   )}
                 />
 
+                {/* Payments - a cash sale can be split across several methods */}
+                {form.watch('condicionVenta') !== "credito" && (
+                  <div className="space-y-2" data-testid="payment-panel">
+                    <div className="flex items-center justify-between">
+                      <span className="text-sm font-medium">Pagos</span>
+                      <Button type="button" size="sm" variant="outline" onClick={agregarPago} data-testid="button-add-payment">
+                        <Plus className="h-3 w-3 mr-1" />
+                        Agregar pago
+                      </Button>
+                    </div>
+                    {pagos.map((pago, index) => (
+                      <div key={index} className="space-y-2 rounded-md border p-2" data-testid={`payment-row-${index}`}>
+                        <div className="flex gap-2">
+                          <Select value={pago.medioPago} onValueChange={(value) => actualizarPago(index, { medioPago: value as MedioPago })}>
+                            <SelectTrigger className="flex-1" data-testid={`select-payment-method-${index}`}>
+                              <SelectValue />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {(Object.keys(MEDIOS_PAGO) as MedioPago[]).map((medio) => (
+                                <SelectItem key={medio} value={medio}>
+                                  {MEDIOS_PAGO[medio]}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="number"
+                            min={0}
+                            className="w-32"
+                            placeholder={entregas[index]?.monto.toString()}
+                            value={pago.monto}
+                            onChange={(e) => actualizarPago(index, { monto: e.target.value })}
+                            data-testid={`input-payment-amount-${index}`}
+                          />
+                          {pagos.length > 1 && (
+                            <Button
+                              type="button"
+                              size="sm"
+                              variant="destructive"
+                              onClick={() => quitarPago(index)}
+                              data-testid={`button-remove-payment-${index}`}
+                            >
+                              <Trash2 className="h-3 w-3" />
+                            </Button>
+                          )}
+                        </div>
+                        {esTarjeta(pago.medioPago) && (
+                          <div className="flex gap-2">
+                            <Select value={pago.marcaTarjeta} onValueChange={(value) => actualizarPago(index, { marcaTarjeta: value })}>
+                              <SelectTrigger className="flex-1" data-testid={`select-card-brand-${index}`}>
+                                <SelectValue placeholder="Marca de la tarjeta" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {MARCAS_TARJETA.map((marca) => (
+                                  <SelectItem key={marca} value={marca}>
+                                    {marca}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              className="w-32"
+                              inputMode="numeric"
+                              maxLength={4}
+                              placeholder="Últimos 4"
+                              value={pago.ultimos4}
+                              onChange={(e) => actualizarPago(index, { ultimos4: e.target.value.replace(/\D/g, '') })}
+                              data-testid={`input-card-last4-${index}`}
+                            />
+                          </div>
+                        )}
+                        {(pago.medioPago === "transferencia" || pago.medioPago === "cheque") && (
+                          <Input
+                            maxLength={50}
+                            placeholder={pago.medioPago === "cheque" ? "Número de cheque" : "Referencia de la transferencia"}
+                            value={pago.referencia}
+                            onChange={(e) => actualizarPago(index, { referencia: e.target.value })}
+                            data-testid={`input-payment-reference-${index}`}
+                          />
+                        )}
+                      </div>
+                    ))}
+                    <p className="text-xs text-muted-foreground">
+                      Un monto vacío cobra el saldo restante; el efectivo que exceda el total se devuelve como vuelto.
+                    </p>
+                    {vuelto > 0 && (
+                      <div className="flex justify-between text-sm font-medium">
+                        <span>Vuelto:</span>
+                        <span data-testid="text-change-amount">{formatPrice(vuelto)}</span>
+                      </div>
+                    )}
+                    {items.length > 0 && !validacionPagos.success && (
+                      <p className="text-sm text-destructive" data-testid="text-payment-error">
+                        {validacionPagos.error}
+                      </p>
+                    )}
+                  </div>
+                )}
+
+                {monedas.some(moneda => moneda.tipoCambio) && (
+                  <FormField
+                    control={form.control}
+                    name="moneda"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Moneda de Pago</FormLabel>
+                        <Select value={field.value ?? MONEDA_BASE} onValueChange={field.onChange}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-sale-currency">
+                              <SelectValue placeholder="Seleccionar moneda" />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            <SelectItem value={MONEDA_BASE}>Guaraníes</SelectItem>
+                            {monedas.filter(moneda => moneda.tipoCambio).map(moneda => (
+                              <SelectItem key={moneda.codigo} value={moneda.codigo}>
+                                {moneda.nombre} ({moneda.codigo})
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormDescription>
+                          La factura se emite en guaraníes; el total se convierte al tipo de cambio del día
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
+                {form.watch('condicionVenta') === "credito" && (
+                  <FormField
+                    control={form.control}
+                    name="fechaVencimiento"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Fecha de Vencimiento</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="date"
+                            value={field.value ?? ""}
+                            onChange={field.onChange}
+                            data-testid="input-due-date"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          El saldo queda en la cuenta corriente del cliente hasta su cobro
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                )}
+
                 <Card>
                   <CardContent className="p-4">
                     <div className="space-y-2">
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center gap-2">
+                          Descuentos:
+                          <DescuentoPopover
+                            descuento={descuentoVenta}
+                            onChange={setDescuentoVenta}
+                            titulo="Descuento sobre el total"
+                            testId="venta"
+                          />
+                        </span>
+                        <span className="text-green-600" data-testid="discount-amount">
+                          {descuentoTotal > 0 ? `-${formatPrice(descuentoTotal)}` : formatPrice(0)}
+                        </span>
+                      </div>
+                      {requiereAutorizacion && (
+                        <div className="space-y-1">
+                          <p className="text-sm text-muted-foreground">
+                            El descuento supera el máximo de {maximoDescuento}% de su rol; elija el administrador que autoriza e ingrese su PIN.
+                          </p>
+                          <Select value={autorizadoPor} onValueChange={setAutorizadoPor}>
+                            <SelectTrigger data-testid="select-autorizado-por">
+                              <SelectValue placeholder="Administrador que autoriza" />
+                            </SelectTrigger>
+                            <SelectContent>
+                              {autorizadores.map(admin => (
+                                <SelectItem key={admin.id} value={admin.id}>{admin.nombre}</SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <Input
+                            type="password"
+                            inputMode="numeric"
+                            placeholder="PIN de autorización"
+                            value={pinAutorizacion}
+                            onChange={(e) => setPinAutorizacion(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                            data-testid="input-pin-autorizacion"
+                          />
+                        </div>
+                      )}
                       <div className="flex justify-between">
                         <span>Subtotal:</span>
                         <span data-testid="subtotal-amount">{formatPrice(subtotal)}</span>
@@ -633,16 +1079,40 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                           <span>Gs. 0</span>
                         </div>
                       ) : (
-                        <div className="flex justify-between">
-                          <span>IVA (10%):</span>
-                          <span data-testid="tax-amount">{formatPrice(taxAmount)}</span>
-                        </div>
+                        <>
+                          {liquidacion.gravadas10 > 0 && (
+                            <div className="flex justify-between">
+                              <span>IVA (10%):</span>
+                              <span data-testid="tax-amount">{formatPrice(liquidacion.iva10)}</span>
+                            </div>
+                          )}
+                          {liquidacion.gravadas5 > 0 && (
+                            <div className="flex justify-between">
+                              <span>IVA (5%):</span>
+                              <span data-testid="tax-amount-5">{formatPrice(liquidacion.iva5)}</span>
+                            </div>
+                          )}
+                          {liquidacion.exentas > 0 && (
+                            <div className="flex justify-between text-muted-foreground">
+                              <span>Exentas:</span>
+                              <span data-testid="exempt-amount">{formatPrice(liquidacion.exentas)}</span>
+                            </div>
+                          )}
+                        </>
                       )}
                       <Separator />
                       <div className="flex justify-between text-lg font-bold">
                         <span>Total:</span>
                         <span data-testid="total-amount">{formatPrice(total)}</span>
                       </div>
+                      {monedaPago?.tipoCambio && (
+                        <div className="flex justify-between text-sm text-muted-foreground">
+                          <span>Total en {monedaPago.codigo} (cambio {formatPrice(parseFloat(monedaPago.tipoCambio.tasa))}):</span>
+                          <span data-testid="total-amount-currency">
+                            {formatearMoneda(convertirDesdeGuaranies(total, monedaPago.tipoCambio.tasa, monedaPago.decimales), monedaPago)}
+                          </span>
+                        </div>
+                      )}
                     </div>
                   </CardContent>
                 </Card>
@@ -665,7 +1135,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                 <div className="flex gap-2">
                   <Button
                     onClick={() => onSubmit('save')}
-                    disabled={createSaleMutation.isPending || !timbradoStatus.isValid}
+                    disabled={createSaleMutation.isPending || !timbradoStatus.isValid || !cajaAbierta}
                     className="flex-1"
                     data-testid="button-save"
                   >
@@ -674,7 +1144,7 @@ export default function SaleDialog({ isOpen, onClose, workOrder, customer, servi
                   </Button>
                   <Button
                     onClick={() => onSubmit('save-print')}
-                    disabled={createSaleMutation.isPending || !timbradoStatus.isValid}
+                    disabled={createSaleMutation.isPending || !timbradoStatus.isValid || !cajaAbierta}
                     className="flex-1"
                     data-testid="button-save-print"
                   >
@@ -0,0 +1,389 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Separator } from "@/components/ui/separator";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { History, Plus, Trash2, PlayCircle } from "lucide-react";
+import type { Timbrado, TimbradoRango } from "@shared/schema";
+import { apiRequest } from "@/lib/queryClient";
+import { formatDate } from "@/lib/utils";
+
+interface TimbradoDetalle extends Timbrado {
+  rangos: (TimbradoRango & { ultimoNumero: number | null })[];
+}
+
+interface RangoForm {
+  establecimiento: string;
+  puntoExpedicion: string;
+  numeroInicial: string;
+  numeroFinal: string;
+}
+
+const emptyRango = (): RangoForm => ({ establecimiento: "001", puntoExpedicion: "001", numeroInicial: "1", numeroFinal: "" });
+
+const estadoBadge = (estado: Timbrado["estado"]) => {
+  switch (estado) {
+    case "vigente":
+      return <Badge className="bg-green-100 text-green-800 dark:bg-green-900/30 dark:text-green-300">Vigente</Badge>;
+    case "proximo":
+      return <Badge variant="secondary">Próximo</Badge>;
+    default:
+      return <Badge variant="outline">Finalizado</Badge>;
+  }
+};
+
+// Extract the Spanish details from an apiRequest error ("409: {...}")
+const errorDetails = (error: any, fallback: string) => {
+  try {
+    const errorData = JSON.parse(error.message.split(': ')[1]);
+    if (typeof errorData.details === 'string') {
+      return errorData.details;
+    }
+  } catch (e) {
+    // Use default message
+  }
+  return fallback;
+};
+
+export default function TimbradoRegistry() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [isDialogOpen, setIsDialogOpen] = useState(false);
+  const [numero, setNumero] = useState("");
+  const [fechaInicio, setFechaInicio] = useState("");
+  const [fechaFin, setFechaFin] = useState("");
+  const [rangos, setRangos] = useState<RangoForm[]>([emptyRango()]);
+
+  const { data: timbrados = [], isLoading } = useQuery<TimbradoDetalle[]>({
+    queryKey: ['/api/timbrados'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/timbrados'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/company-config'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/timbrado/status'] });
+  };
+
+  const openDialog = () => {
+    setNumero("");
+    setFechaInicio("");
+    setFechaFin("");
+    setRangos([emptyRango()]);
+    setIsDialogOpen(true);
+  };
+
+  const updateRango = (index: number, updates: Partial<RangoForm>) => {
+    setRangos(rangos.map((rango, i) => i === index ? { ...rango, ...updates } : rango));
+  };
+
+  const createMutation = useMutation({
+    mutationFn: async (data: any) => apiRequest('POST', '/api/timbrados', data),
+    onSuccess: (timbrado: Timbrado) => {
+      invalidate();
+      toast({
+        title: "Timbrado registrado",
+        description: timbrado.estado === "vigente"
+          ? `El timbrado ${timbrado.numero} quedó vigente.`
+          : `El timbrado ${timbrado.numero} se activará automáticamente al vencer el actual.`,
+      });
+      setIsDialogOpen(false);
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al registrar timbrado",
+        description: errorDetails(error, "No se pudo registrar el timbrado."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const activarMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('POST', `/api/timbrados/${id}/activar`),
+    onSuccess: (timbrado: Timbrado) => {
+      invalidate();
+      toast({
+        title: "Timbrado activado",
+        description: `Las próximas facturas se emitirán con el timbrado ${timbrado.numero}.`,
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al activar timbrado",
+        description: errorDetails(error, "No se pudo activar el timbrado."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const deleteMutation = useMutation({
+    mutationFn: async (id: string) => apiRequest('DELETE', `/api/timbrados/${id}`),
+    onSuccess: () => {
+      invalidate();
+      toast({
+        title: "Timbrado eliminado",
+        description: "El timbrado fue eliminado del registro.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error al eliminar timbrado",
+        description: errorDetails(error, "No se pudo eliminar el timbrado."),
+        variant: "destructive",
+      });
+    },
+  });
+
+  const handleSubmit = () => {
+    if (!/^\d{8}$/.test(numero) || !fechaInicio || !fechaFin) {
+      toast({
+        title: "Datos incompletos",
+        description: "Ingrese el número de timbrado (8 dígitos) y sus fechas de vigencia.",
+        variant: "destructive",
+      });
+      return;
+    }
+
+    createMutation.mutate({
+      numero,
+      fechaInicio,
+      fechaFin,
+      rangos: rangos.map(rango => ({
+        establecimiento: rango.establecimiento,
+        puntoExpedicion: rango.puntoExpedicion,
+        numeroInicial: parseInt(rango.numeroInicial) || 0,
+        numeroFinal: parseInt(rango.numeroFinal) || 0,
+      })),
+    });
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <History className="h-5 w-5" />
+              Registro de Timbrados
+            </CardTitle>
+            <CardDescription>
+              Timbrados autorizados con sus rangos de numeración. Al vencer el timbrado vigente se activa automáticamente el siguiente.
+            </CardDescription>
+          </div>
+          <Button size="sm" onClick={openDialog} data-testid="button-add-timbrado">
+            <Plus className="h-4 w-4 mr-1" />
+            Nuevo Timbrado
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isLoading ? (
+          <p className="text-sm text-muted-foreground">Cargando timbrados...</p>
+        ) : timbrados.length === 0 ? (
+          <p className="text-sm text-muted-foreground" data-testid="text-no-timbrados">
+            No hay timbrados registrados. Guarde la configuración de la empresa o registre un timbrado nuevo.
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Timbrado</TableHead>
+                <TableHead>Vigencia</TableHead>
+                <TableHead>Estado</TableHead>
+                <TableHead>Rangos autorizados</TableHead>
+                <TableHead className="text-right">Acciones</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {timbrados.map(timbrado => (
+                <TableRow key={timbrado.id} data-testid={`row-timbrado-${timbrado.id}`}>
+                  <TableCell className="font-mono">{timbrado.numero}</TableCell>
+                  <TableCell className="text-sm">
+                    {formatDate(timbrado.fechaInicio)} - {formatDate(timbrado.fechaFin)}
+                  </TableCell>
+                  <TableCell>
+                    {estadoBadge(timbrado.estado)}
+                    {timbrado.motivoFinalizacion && (
+                      <div className="text-xs text-muted-foreground mt-1">{timbrado.motivoFinalizacion}</div>
+                    )}
+                  </TableCell>
+                  <TableCell className="text-sm">
+                    {timbrado.rangos.map(rango => (
+                      <div key={rango.id} className="font-mono">
+                        {rango.establecimiento}-{rango.puntoExpedicion}: {rango.numeroInicial} a {rango.numeroFinal}
+                        <span className="text-muted-foreground">
+                          {" "}(último: {rango.ultimoNumero ?? "ninguno"})
+                        </span>
+                      </div>
+                    ))}
+                  </TableCell>
+                  <TableCell className="text-right">
+                    {timbrado.estado === "proximo" && (
+                      <div className="flex justify-end gap-1">
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          onClick={() => activarMutation.mutate(timbrado.id)}
+                          disabled={activarMutation.isPending}
+                          data-testid={`button-activate-timbrado-${timbrado.id}`}
+                        >
+                          <PlayCircle className="h-4 w-4 mr-1" />
+                          Activar
+                        </Button>
+                        <Button
+                          size="icon"
+                          variant="ghost"
+                          onClick={() => deleteMutation.mutate(timbrado.id)}
+                          disabled={deleteMutation.isPending}
+                          data-testid={`button-delete-timbrado-${timbrado.id}`}
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    )}
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+
+      <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+        <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Nuevo Timbrado</DialogTitle>
+            <DialogDescription>
+              Registre el timbrado autorizado por la DNIT y la numeración habilitada para cada punto de expedición
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="timbrado-numero">Número de Timbrado</Label>
+                <Input
+                  id="timbrado-numero"
+                  value={numero}
+                  maxLength={8}
+                  onChange={(e) => setNumero(e.target.value)}
+                  placeholder="12345678"
+                  className="font-mono"
+                  data-testid="input-new-timbrado-numero"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timbrado-inicio">Inicio de vigencia</Label>
+                <Input
+                  id="timbrado-inicio"
+                  type="date"
+                  value={fechaInicio}
+                  onChange={(e) => setFechaInicio(e.target.value)}
+                  data-testid="input-new-timbrado-inicio"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="timbrado-fin">Fin de vigencia</Label>
+                <Input
+                  id="timbrado-fin"
+                  type="date"
+                  value={fechaFin}
+                  onChange={(e) => setFechaFin(e.target.value)}
+                  data-testid="input-new-timbrado-fin"
+                />
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="space-y-3">
+              <Label>Rangos de numeración</Label>
+              {rangos.map((rango, index) => (
+                <div key={index} className="grid grid-cols-12 gap-2 items-end" data-testid={`row-timbrado-rango-${index}`}>
+                  <div className="col-span-2">
+                    <Input
+                      value={rango.establecimiento}
+                      maxLength={3}
+                      onChange={(e) => updateRango(index, { establecimiento: e.target.value })}
+                      placeholder="Est."
+                      className="font-mono"
+                      data-testid={`input-rango-establecimiento-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-2">
+                    <Input
+                      value={rango.puntoExpedicion}
+                      maxLength={3}
+                      onChange={(e) => updateRango(index, { puntoExpedicion: e.target.value })}
+                      placeholder="Punto"
+                      className="font-mono"
+                      data-testid={`input-rango-punto-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-3">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rango.numeroInicial}
+                      onChange={(e) => updateRango(index, { numeroInicial: e.target.value })}
+                      placeholder="Desde"
+                      data-testid={`input-rango-inicial-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-4">
+                    <Input
+                      type="number"
+                      min={1}
+                      value={rango.numeroFinal}
+                      onChange={(e) => updateRango(index, { numeroFinal: e.target.value })}
+                      placeholder="Hasta"
+                      data-testid={`input-rango-final-${index}`}
+                    />
+                  </div>
+                  <div className="col-span-1">
+                    <Button
+                      size="icon"
+                      variant="ghost"
+                      onClick={() => setRangos(rangos.filter((_, i) => i !== index))}
+                      disabled={rangos.length === 1}
+                      data-testid={`button-remove-rango-${index}`}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+              <Button
+                size="sm"
+                variant="outline"
+                onClick={() => setRangos([...rangos, emptyRango()])}
+                data-testid="button-add-rango"
+              >
+                <Plus className="h-4 w-4 mr-1" />
+                Agregar rango
+              </Button>
+            </div>
+
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsDialogOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={handleSubmit}
+                disabled={createMutation.isPending}
+                data-testid="button-confirm-timbrado"
+              >
+                {createMutation.isPending ? "Registrando..." : "Registrar Timbrado"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </Card>
+  );
+}
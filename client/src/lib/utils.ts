@@ -1,5 +1,6 @@
 import { clsx, type ClassValue } from "clsx"
 import { twMerge } from "tailwind-merge"
+import { digitoVerificadorRUC } from "@shared/documentos"
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
@@ -27,7 +28,7 @@ export function formatDateTime(date: Date): string {
 
 /**
  * Validates Paraguayan RUC format and checksum
- * Format: 80000000-0 (8 digits + dash + 1 check digit)
+ * Format: 80000000-0 (up to 8 digits + dash + 1 check digit)
  * This function matches the backend validation algorithm
  * @param ruc The RUC string to validate
  * @returns true if valid, false otherwise
@@ -40,34 +41,15 @@ export function validateRUC(ruc: string): boolean {
   // Remove spaces and normalize
   const cleanRUC = ruc.trim();
   
-  // Check basic format: 8 digits + dash + 1 digit
-  const rucPattern = /^\d{8}-\d$/;
+  // Check basic format: 1 to 8 digits + dash + 1 digit
+  const rucPattern = /^\d{1,8}-\d$/;
   if (!rucPattern.test(cleanRUC)) {
     return false;
   }
 
   // Extract base number and check digit
   const [baseNumber, checkDigitStr] = cleanRUC.split('-');
-  const checkDigit = parseInt(checkDigitStr);
-  
-  // Calculate checksum using Paraguayan RUC algorithm
-  const multipliers = [2, 3, 4, 5, 6, 7, 2, 3];
-  let sum = 0;
-  
-  for (let i = 0; i < 8; i++) {
-    sum += parseInt(baseNumber[i]) * multipliers[i];
-  }
-  
-  const remainder = sum % 11;
-  let calculatedCheckDigit;
-  
-  if (remainder < 2) {
-    calculatedCheckDigit = 0;
-  } else {
-    calculatedCheckDigit = 11 - remainder;
-  }
-  
-  return calculatedCheckDigit === checkDigit;
+  return digitoVerificadorRUC(baseNumber) === parseInt(checkDigitStr);
 }
 
 // ROBUST date formatter - handles all edge cases that were causing crashes
@@ -100,3 +82,34 @@ export function formatDateTimeRobust(dateString?: string | null): string {
     minute: '2-digit'
   });
 }
+
+// Convert numbers to words (Spanish) for legal compliance
+export function numberToWords(num: number): string {
+  const ones = ['', 'UNO', 'DOS', 'TRES', 'CUATRO', 'CINCO', 'SEIS', 'SIETE', 'OCHO', 'NUEVE'];
+  const teens = ['DIEZ', 'ONCE', 'DOCE', 'TRECE', 'CATORCE', 'QUINCE', 'DIECISÉIS', 'DIECISIETE', 'DIECIOCHO', 'DIECINUEVE'];
+  const tens = ['', '', 'VEINTE', 'TREINTA', 'CUARENTA', 'CINCUENTA', 'SESENTA', 'SETENTA', 'OCHENTA', 'NOVENTA'];
+  const thousands = ['', 'MIL', 'MILLÓN', 'MIL MILLONES'];
+
+  if (num === 0) return 'CERO';
+  if (num < 10) return ones[num];
+  if (num < 20) return teens[num - 10];
+  if (num < 100) {
+    const ten = Math.floor(num / 10);
+    const one = num % 10;
+    return tens[ten] + (one ? ' Y ' + ones[one] : '');
+  }
+  if (num < 1000) {
+    const hundred = Math.floor(num / 100);
+    const rest = num % 100;
+    const hundredWord = hundred === 1 ? 'CIENTO' : ones[hundred] + 'CIENTOS';
+    return hundredWord + (rest ? ' ' + numberToWords(rest) : '');
+  }
+  if (num < 1000000) {
+    const thousand = Math.floor(num / 1000);
+    const rest = num % 1000;
+    const thousandWord = thousand === 1 ? 'MIL' : numberToWords(thousand) + ' MIL';
+    return thousandWord + (rest ? ' ' + numberToWords(rest) : '');
+  }
+  
+  return 'MONTO EXCESIVO';
+}
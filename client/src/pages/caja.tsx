@@ -0,0 +1,500 @@
+import { useState } from "react";
+import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
+import { Button } from "@/components/ui/button";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from "@/components/ui/dialog";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { Wallet, Lock, Unlock, ArrowDownUp, Printer } from "lucide-react";
+import type { SesionCaja, MovimientoCaja, MedioPago, TipoMovimientoCaja } from "@shared/schema";
+import { DENOMINACIONES_GUARANI, TIPOS_MOVIMIENTO_CAJA, totalConteo, signoMovimiento, type ConteoCaja } from "@shared/caja";
+import { MEDIOS_PAGO } from "@shared/pagos";
+import { apiRequest } from "@/lib/queryClient";
+import { formatCurrency } from "@/lib/utils";
+
+interface ResumenCaja {
+  sesion: SesionCaja;
+  cajero: string;
+  puntoExpedicion: string;
+  ventas: { cantidad: number; total: number; contado: number; credito: number };
+  anuladas: { cantidad: number; total: number };
+  mediosPago: { medioPago: MedioPago; cantidad: number; total: number; vuelto: number }[];
+  movimientos: MovimientoCaja[];
+  ingresos: number;
+  retiros: number;
+  gastos: number;
+  efectivoVentas: number;
+  efectivoRecibos: number;
+  reembolsos: number;
+  efectivoEsperado: number;
+}
+
+interface SesionHistorial extends SesionCaja {
+  cajero: string | null;
+}
+
+// Extract the Spanish details from an apiRequest error ("409: {...}")
+const errorDetails = (error: any, fallback: string) => {
+  try {
+    const errorData = JSON.parse(error.message.split(': ')[1]);
+    if (typeof errorData.details === 'string') {
+      return errorData.details;
+    }
+  } catch (e) {
+    // Use default message
+  }
+  return fallback;
+};
+
+const formatFechaHora = (fecha: string | Date | null) =>
+  fecha ? new Date(fecha).toLocaleString('es-PY', { dateStyle: 'short', timeStyle: 'short' }) : "-";
+
+// Cierre de caja (Z) of a closed session, partial report (X) of an open one
+const imprimirCierre = (sesionId: string) => {
+  window.open(`/api/caja/sesiones/${sesionId}/cierre`, '_blank');
+};
+
+export default function CajaPage() {
+  const { toast } = useToast();
+  const queryClient = useQueryClient();
+  const [apertura, setApertura] = useState({ montoInicial: "", observaciones: "" });
+  const [movimientoDialog, setMovimientoDialog] = useState(false);
+  const [movimiento, setMovimiento] = useState<{ tipo: TipoMovimientoCaja; monto: string; concepto: string }>({
+    tipo: "retiro", monto: "", concepto: ""
+  });
+  const [cierreDialog, setCierreDialog] = useState(false);
+  const [conteo, setConteo] = useState<ConteoCaja>({});
+  const [observacionesCierre, setObservacionesCierre] = useState("");
+
+  const { data: actual, isLoading } = useQuery<ResumenCaja | null>({
+    queryKey: ['/api/caja/sesion-actual'],
+  });
+
+  const { data: sesiones = [] } = useQuery<SesionHistorial[]>({
+    queryKey: ['/api/caja/sesiones'],
+  });
+
+  const invalidate = () => {
+    queryClient.invalidateQueries({ queryKey: ['/api/caja/sesion-actual'] });
+    queryClient.invalidateQueries({ queryKey: ['/api/caja/sesiones'] });
+  };
+
+  const onError = (title: string, fallback: string) => (error: any) => {
+    toast({ title, description: errorDetails(error, fallback), variant: "destructive" });
+  };
+
+  const abrirMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', '/api/caja/sesiones', {
+      montoInicial: parseInt(apertura.montoInicial || "0", 10),
+      observaciones: apertura.observaciones || null,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setApertura({ montoInicial: "", observaciones: "" });
+      toast({ title: "Caja abierta", description: "Ya puede registrar ventas en esta caja." });
+    },
+    onError: onError("Error al abrir caja", "No se pudo abrir la caja."),
+  });
+
+  const movimientoMutation = useMutation({
+    mutationFn: async () => apiRequest('POST', `/api/caja/sesiones/${actual!.sesion.id}/movimientos`, {
+      tipo: movimiento.tipo,
+      monto: parseInt(movimiento.monto, 10),
+      concepto: movimiento.concepto,
+    }),
+    onSuccess: () => {
+      invalidate();
+      setMovimientoDialog(false);
+      toast({ title: "Movimiento registrado", description: `${TIPOS_MOVIMIENTO_CAJA[movimiento.tipo]} de ${formatCurrency(parseInt(movimiento.monto, 10))}` });
+    },
+    onError: onError("Error al registrar movimiento", "No se pudo registrar el movimiento."),
+  });
+
+  const cerrarMutation = useMutation({
+    mutationFn: async (): Promise<SesionCaja> => apiRequest('POST', `/api/caja/sesiones/${actual!.sesion.id}/cerrar`, {
+      conteo,
+      observaciones: observacionesCierre || null,
+    }),
+    onSuccess: (sesion) => {
+      invalidate();
+      setCierreDialog(false);
+      const diferencia = parseFloat(sesion.diferencia ?? "0");
+      toast({
+        title: "Caja cerrada",
+        description: diferencia === 0
+          ? "El arqueo coincide con el efectivo esperado."
+          : `${diferencia > 0 ? "Sobrante" : "Faltante"} de ${formatCurrency(Math.abs(diferencia))}`,
+        variant: diferencia < 0 ? "destructive" : "default",
+      });
+      imprimirCierre(sesion.id);
+    },
+    onError: onError("Error al cerrar caja", "No se pudo cerrar la caja."),
+  });
+
+  const openMovimiento = (tipo: TipoMovimientoCaja) => {
+    setMovimiento({ tipo, monto: "", concepto: "" });
+    setMovimientoDialog(true);
+  };
+
+  const openCierre = () => {
+    setConteo({});
+    setObservacionesCierre("");
+    setCierreDialog(true);
+  };
+
+  const contado = totalConteo(conteo);
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <div className="text-center">
+          <div className="animate-spin h-8 w-8 border-4 border-primary border-t-transparent rounded-full mx-auto mb-4"></div>
+          <p className="text-muted-foreground">Cargando caja...</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-3">
+          <Wallet className="h-8 w-8 text-primary" />
+          <div>
+            <h1 className="text-2xl font-semibold text-foreground" data-testid="text-caja-title">
+              Caja
+            </h1>
+            <p className="text-muted-foreground" data-testid="text-caja-subtitle">
+              Apertura, movimientos y cierre de caja por turno
+            </p>
+          </div>
+        </div>
+        {actual && (
+          <div className="flex gap-2">
+            <Button variant="outline" onClick={() => openMovimiento("retiro")} data-testid="button-movimiento-caja">
+              <ArrowDownUp className="h-4 w-4 mr-2" />
+              Movimiento
+            </Button>
+            <Button variant="outline" onClick={() => imprimirCierre(actual.sesion.id)} data-testid="button-informe-parcial">
+              <Printer className="h-4 w-4 mr-2" />
+              Informe parcial
+            </Button>
+            <Button onClick={openCierre} data-testid="button-cerrar-caja">
+              <Lock className="h-4 w-4 mr-2" />
+              Cerrar caja
+            </Button>
+          </div>
+        )}
+      </div>
+
+      {!actual ? (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Unlock className="h-5 w-5" />
+              Abrir caja
+            </CardTitle>
+            <CardDescription>
+              Las ventas se registran en la caja abierta del punto de expedición asignado a su usuario
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4 max-w-md">
+            <div className="space-y-2">
+              <Label htmlFor="monto-inicial">Fondo inicial (Gs.)</Label>
+              <Input
+                id="monto-inicial"
+                type="number"
+                min="0"
+                step="1"
+                value={apertura.montoInicial}
+                onChange={(e) => setApertura({ ...apertura, montoInicial: e.target.value })}
+                placeholder="0"
+                data-testid="input-monto-inicial"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="observaciones-apertura">Observaciones</Label>
+              <Textarea
+                id="observaciones-apertura"
+                value={apertura.observaciones}
+                onChange={(e) => setApertura({ ...apertura, observaciones: e.target.value })}
+                data-testid="input-observaciones-apertura"
+              />
+            </div>
+            <Button onClick={() => abrirMutation.mutate()} disabled={abrirMutation.isPending} data-testid="button-abrir-caja">
+              <Unlock className="h-4 w-4 mr-2" />
+              {abrirMutation.isPending ? "Abriendo..." : "Abrir caja"}
+            </Button>
+          </CardContent>
+        </Card>
+      ) : (
+        <>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Caja abierta</CardDescription>
+                <CardTitle className="text-lg" data-testid="text-caja-punto">{actual.puntoExpedicion}</CardTitle>
+              </CardHeader>
+              <CardContent className="text-sm text-muted-foreground">
+                {actual.cajero} desde {formatFechaHora(actual.sesion.fechaApertura)}
+              </CardContent>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Fondo inicial</CardDescription>
+                <CardTitle className="text-lg">{formatCurrency(parseFloat(actual.sesion.montoInicial))}</CardTitle>
+              </CardHeader>
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Ventas ({actual.ventas.cantidad})</CardDescription>
+                <CardTitle className="text-lg" data-testid="text-caja-ventas">{formatCurrency(actual.ventas.total)}</CardTitle>
+              </CardHeader>
+              {actual.ventas.credito > 0 && (
+                <CardContent className="text-sm text-muted-foreground">
+                  {formatCurrency(actual.ventas.credito)} a crédito
+                </CardContent>
+              )}
+            </Card>
+            <Card>
+              <CardHeader className="pb-2">
+                <CardDescription>Efectivo esperado</CardDescription>
+                <CardTitle className="text-lg" data-testid="text-caja-esperado">{formatCurrency(actual.efectivoEsperado)}</CardTitle>
+              </CardHeader>
+              {(actual.efectivoRecibos > 0 || actual.reembolsos > 0) && (
+                <CardContent className="text-sm text-muted-foreground">
+                  {actual.efectivoRecibos > 0 && <div>{formatCurrency(actual.efectivoRecibos)} en cobros de crédito</div>}
+                  {actual.reembolsos > 0 && <div>{formatCurrency(actual.reembolsos)} devueltos con notas de crédito</div>}
+                </CardContent>
+              )}
+            </Card>
+          </div>
+
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            <Card>
+              <CardHeader>
+                <CardTitle>Cobros por medio de pago</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {actual.mediosPago.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Todavía no hay cobros en esta caja.</p>
+                ) : (
+                  <div className="grid grid-cols-3 gap-2 text-sm">
+                    <span className="text-muted-foreground">Medio de pago</span>
+                    <span className="text-right text-muted-foreground">Pagos</span>
+                    <span className="text-right text-muted-foreground">Total</span>
+                    {actual.mediosPago.map(medio => (
+                      <div key={medio.medioPago} className="contents" data-testid={`caja-medio-${medio.medioPago}`}>
+                        <span>{MEDIOS_PAGO[medio.medioPago] ?? medio.medioPago}</span>
+                        <span className="text-right">{medio.cantidad}</span>
+                        <span className="text-right">{formatCurrency(medio.total)}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Movimientos de caja</CardTitle>
+                <CardDescription>Ingresos, retiros y gastos menores del turno</CardDescription>
+              </CardHeader>
+              <CardContent>
+                {actual.movimientos.length === 0 ? (
+                  <p className="text-sm text-muted-foreground">Sin movimientos.</p>
+                ) : (
+                  <div className="space-y-2 text-sm">
+                    {actual.movimientos.map(m => (
+                      <div key={m.id} className="flex justify-between" data-testid={`caja-movimiento-${m.id}`}>
+                        <span>
+                          <Badge variant="outline" className="mr-2">{TIPOS_MOVIMIENTO_CAJA[m.tipo]}</Badge>
+                          {m.concepto}
+                        </span>
+                        <span className={signoMovimiento(m.tipo) < 0 ? "text-red-600" : "text-green-600"}>
+                          {signoMovimiento(m.tipo) < 0 ? "-" : "+"}{formatCurrency(parseFloat(m.monto))}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </div>
+        </>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle>Historial de cajas</CardTitle>
+        </CardHeader>
+        <CardContent>
+          {sesiones.length === 0 ? (
+            <p className="text-sm text-muted-foreground">No hay cajas registradas.</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Apertura</TableHead>
+                  <TableHead>Cierre</TableHead>
+                  <TableHead>Cajero</TableHead>
+                  <TableHead className="text-right">Esperado</TableHead>
+                  <TableHead className="text-right">Contado</TableHead>
+                  <TableHead className="text-right">Diferencia</TableHead>
+                  <TableHead className="text-right">Acciones</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {sesiones.map(sesion => {
+                  const diferencia = sesion.diferencia !== null ? parseFloat(sesion.diferencia) : null;
+                  return (
+                    <TableRow key={sesion.id} data-testid={`row-sesion-${sesion.id}`}>
+                      <TableCell>{formatFechaHora(sesion.fechaApertura)}</TableCell>
+                      <TableCell>
+                        {sesion.estado === "abierta" ? <Badge>Abierta</Badge> : formatFechaHora(sesion.fechaCierre)}
+                      </TableCell>
+                      <TableCell>{sesion.cajero ?? "-"}</TableCell>
+                      <TableCell className="text-right">
+                        {sesion.efectivoEsperado !== null ? formatCurrency(parseFloat(sesion.efectivoEsperado)) : "-"}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {sesion.efectivoContado !== null ? formatCurrency(parseFloat(sesion.efectivoContado)) : "-"}
+                      </TableCell>
+                      <TableCell className={`text-right ${diferencia && diferencia < 0 ? "text-red-600" : diferencia && diferencia > 0 ? "text-amber-600" : ""}`}>
+                        {diferencia === null ? "-" : diferencia === 0 ? "Sin diferencia" : `${diferencia > 0 ? "Sobrante" : "Faltante"} ${formatCurrency(Math.abs(diferencia))}`}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        <Button size="sm" variant="outline" onClick={() => imprimirCierre(sesion.id)} data-testid={`button-imprimir-cierre-${sesion.id}`}>
+                          <Printer className="h-4 w-4 mr-1" />
+                          {sesion.estado === "abierta" ? "Parcial" : "Cierre Z"}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Cash movement */}
+      <Dialog open={movimientoDialog} onOpenChange={setMovimientoDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Movimiento de caja</DialogTitle>
+            <DialogDescription>Dinero que entra o sale del cajón fuera de las ventas</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="space-y-2">
+              <Label>Tipo</Label>
+              <Select value={movimiento.tipo} onValueChange={(tipo) => setMovimiento({ ...movimiento, tipo: tipo as TipoMovimientoCaja })}>
+                <SelectTrigger data-testid="select-tipo-movimiento">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {Object.entries(TIPOS_MOVIMIENTO_CAJA).map(([value, label]) => (
+                    <SelectItem key={value} value={value}>{label}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="monto-movimiento">Monto (Gs.)</Label>
+              <Input
+                id="monto-movimiento"
+                type="number"
+                min="1"
+                step="1"
+                value={movimiento.monto}
+                onChange={(e) => setMovimiento({ ...movimiento, monto: e.target.value })}
+                data-testid="input-monto-movimiento"
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="concepto-movimiento">Concepto</Label>
+              <Input
+                id="concepto-movimiento"
+                value={movimiento.concepto}
+                onChange={(e) => setMovimiento({ ...movimiento, concepto: e.target.value })}
+                placeholder={movimiento.tipo === "gasto" ? "Compra de insumos de limpieza" : "Depósito en banco"}
+                data-testid="input-concepto-movimiento"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setMovimientoDialog(false)}>Cancelar</Button>
+              <Button
+                onClick={() => movimientoMutation.mutate()}
+                disabled={!(parseInt(movimiento.monto, 10) > 0) || !movimiento.concepto.trim() || movimientoMutation.isPending}
+                data-testid="button-guardar-movimiento"
+              >
+                Registrar
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+
+      {/* Closing count: the cashier counts without seeing the expected cash */}
+      <Dialog open={cierreDialog} onOpenChange={setCierreDialog}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle>Cerrar caja</DialogTitle>
+            <DialogDescription>Cuente el efectivo del cajón por denominación, incluido el fondo inicial</DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-2 items-center text-sm">
+              {DENOMINACIONES_GUARANI.map(denominacion => (
+                <div key={denominacion} className="contents">
+                  <span>{formatCurrency(denominacion)}</span>
+                  <Input
+                    type="number"
+                    min="0"
+                    step="1"
+                    value={conteo[denominacion] ?? ""}
+                    onChange={(e) => {
+                      const cantidad = parseInt(e.target.value, 10);
+                      setConteo(previo => {
+                        const { [denominacion]: _, ...resto } = previo;
+                        return cantidad > 0 ? { ...resto, [denominacion]: cantidad } : resto;
+                      });
+                    }}
+                    placeholder="0"
+                    data-testid={`input-conteo-${denominacion}`}
+                  />
+                  <span className="text-right">{formatCurrency((conteo[denominacion] ?? 0) * denominacion)}</span>
+                </div>
+              ))}
+            </div>
+            <div className="flex justify-between font-semibold border-t pt-2">
+              <span>Efectivo contado</span>
+              <span data-testid="text-total-contado">{formatCurrency(contado)}</span>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="observaciones-cierre">Observaciones</Label>
+              <Textarea
+                id="observaciones-cierre"
+                value={observacionesCierre}
+                onChange={(e) => setObservacionesCierre(e.target.value)}
+                data-testid="input-observaciones-cierre"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setCierreDialog(false)}>Cancelar</Button>
+              <Button onClick={() => cerrarMutation.mutate()} disabled={cerrarMutation.isPending} data-testid="button-confirmar-cierre">
+                <Lock className="h-4 w-4 mr-2" />
+                {cerrarMutation.isPending ? "Cerrando..." : "Cerrar e imprimir"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useQuery, useMutation, useQueryClient } from "@tanstack/react-query";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
@@ -30,10 +30,13 @@ import {
   Eye,
   Calendar,
   Trash2,
-  PlusCircle
+  PlusCircle,
+  Wallet
 } from "lucide-react";
-import { insertCustomerSchema, insertVehicleSchema, type Customer, type Vehicle } from "@shared/schema";
+import { insertCustomerSchema, insertVehicleSchema, refinarIdentidadCliente, type Customer, type Vehicle } from "@shared/schema";
 import { apiRequest } from "@/lib/queryClient";
+import { digitoVerificadorRUC } from "@shared/documentos";
+import CustomerAccountDialog from "@/components/CustomerAccountDialog";
 
 // Customer form schema with additional validation
 const customerFormSchema = insertCustomerSchema.extend({
@@ -55,7 +58,16 @@ const customerFormSchema = insertCustomerSchema.extend({
 }, {
   message: "Para régimen turismo es obligatorio país, pasaporte y fecha de ingreso",
   path: ["pais"],
-});
+}).superRefine(refinarIdentidadCliente);
+
+// Taxpayer from the local copy of the DNIT padrón, as returned by /api/padron-ruc/:documento
+interface ConsultaPadronRuc {
+  ruc: string;
+  dv: string;
+  encontrado: boolean;
+  razonSocial: string | null;
+  estado: string | null;
+}
 
 type CustomerFormData = z.infer<typeof customerFormSchema>;
 
@@ -93,6 +105,7 @@ export default function ClientesPage() {
   const [showTourism, setShowTourism] = useState(false);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingCustomer, setEditingCustomer] = useState<Customer | null>(null);
+  const [accountCustomer, setAccountCustomer] = useState<Customer | null>(null);
   
   // Vehicle state
   const [isVehicleDialogOpen, setIsVehicleDialogOpen] = useState(false);
@@ -149,6 +162,40 @@ export default function ClientesPage() {
   // Watch tourism regime to show/hide fields
   const watchTourism = form.watch("regimenTurismo");
 
+  // Look up the RUC or CI being typed in the padrón and suggest the razón social
+  const [consultaPadron, setConsultaPadron] = useState<ConsultaPadronRuc | null>(null);
+  const watchDocTipo = form.watch("docTipo");
+  const watchDocNumero = form.watch("docNumero");
+  useEffect(() => {
+    setConsultaPadron(null);
+    const numero = (watchDocNumero || "").replace(/[.\s]/g, "");
+    if ((watchDocTipo !== "RUC" && watchDocTipo !== "CI") || !/^\d{3,8}(-\d)?$/.test(numero)) {
+      return;
+    }
+
+    const timeout = setTimeout(async () => {
+      try {
+        const consulta: ConsultaPadronRuc = await apiRequest('GET', `/api/padron-ruc/${numero}`);
+        setConsultaPadron(consulta);
+        if (consulta?.encontrado && consulta.razonSocial && !form.getValues("nombre")) {
+          form.setValue("nombre", consulta.razonSocial);
+        }
+      } catch (error) {
+        // The lookup only helps filling the form
+      }
+    }, 400);
+    return () => clearTimeout(timeout);
+  }, [watchDocTipo, watchDocNumero, form]);
+
+  // A RUC typed without its verification digit is completed when leaving the field
+  const completarRUC = () => {
+    const numero = (form.getValues("docNumero") || "").replace(/[.\s]/g, "");
+    if (form.getValues("docTipo") === "RUC" && /^\d{1,8}$/.test(numero)) {
+      const dv = consultaPadron?.ruc.startsWith(`${numero}-`) ? consultaPadron.dv : digitoVerificadorRUC(numero);
+      form.setValue("docNumero", `${numero}-${dv}`, { shouldValidate: true });
+    }
+  };
+
   // Vehicle form setup
   const vehicleForm = useForm<VehicleFormData>({
     resolver: zodResolver(vehicleFormSchema),
@@ -478,8 +525,23 @@ export default function ClientesPage() {
                       <FormItem>
                         <FormLabel>Número *</FormLabel>
                         <FormControl>
-                          <Input placeholder="12345678" {...field} data-testid="input-doc-number" />
+                          <Input
+                            placeholder="12345678"
+                            {...field}
+                            onBlur={() => {
+                              field.onBlur();
+                              completarRUC();
+                            }}
+                            data-testid="input-doc-number"
+                          />
                         </FormControl>
+                        {consultaPadron && (
+                          <FormDescription data-testid="text-padron-ruc">
+                            {consultaPadron.encontrado
+                              ? `Padrón DNIT: ${consultaPadron.razonSocial} (${consultaPadron.estado}) - RUC ${consultaPadron.ruc}`
+                              : `No figura en el padrón - DV calculado: ${consultaPadron.dv}`}
+                          </FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -907,6 +969,14 @@ export default function ClientesPage() {
                       >
                         <Edit className="h-3 w-3" />
                       </Button>
+                      <Button 
+                        size="sm" 
+                        variant="outline"
+                        onClick={() => setAccountCustomer(customer)}
+                        data-testid={`button-account-${customer.id}`}
+                      >
+                        <Wallet className="h-3 w-3" />
+                      </Button>
                     </div>
                   </div>
                   
@@ -1000,6 +1070,12 @@ export default function ClientesPage() {
           )}
         </Card>
       )}
+
+      {/* Customer Account Dialog */}
+      <CustomerAccountDialog
+        customer={accountCustomer}
+        onClose={() => setAccountCustomer(null)}
+      />
     </div>
   );
 }
\ No newline at end of file
@@ -13,11 +13,15 @@ import { Badge } from "@/components/ui/badge";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Separator } from "@/components/ui/separator";
 import { useToast } from "@/hooks/use-toast";
-import { Building2, Upload, AlertTriangle, CheckCircle, Calendar, MapPin, Phone, Mail, Hash, FileText, Coins, Network, Shield, Lock, Key, Server, TestTube, UserCheck, Trash2 } from "lucide-react";
-import { insertCompanyConfigSchema, type CompanyConfig, insertDnitConfigSchema, type DnitConfig, changePasswordSchema } from "@shared/schema";
+import { Building2, Upload, AlertTriangle, CheckCircle, Calendar, MapPin, Phone, Mail, Hash, FileText, Coins, Network, Shield, Lock, Key, Server, TestTube, UserCheck, Trash2, FileKey, Package, Percent } from "lucide-react";
+import { insertCompanyConfigSchema, type CompanyConfig, insertDnitConfigSchema, type DnitConfig, changePasswordSchema, pinAutorizacionSchema, type PinAutorizacionType } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { ImageUpload } from "@/components/ImageUpload";
-import { validateRUC } from "@/lib/utils";
+import TimbradoRegistry from "@/components/TimbradoRegistry";
+import EstablecimientosCatalog from "@/components/EstablecimientosCatalog";
+import MonedasCatalog from "@/components/MonedasCatalog";
+import PadronRucImport from "@/components/PadronRucImport";
+import { validateRUC, formatDate } from "@/lib/utils";
 
 // Extend the schema with additional frontend validations
 const configFormSchema = insertCompanyConfigSchema.extend({
@@ -51,6 +55,8 @@ const dnitFormSchema = insertDnitConfigSchema.extend({
   authToken: z.string().min(1, "El token de autenticación es requerido"),
   certificateData: z.string().optional(),
   certificatePassword: z.string().optional(),
+  idCsc: z.string().regex(/^\d{0,4}$/, "El IdCSC tiene hasta 4 dígitos").optional().nullable(),
+  csc: z.string().optional(),
   operationMode: z.enum(["testing", "production"]).default("testing"),
   isActive: z.boolean().default(false),
 });
@@ -68,9 +74,10 @@ const passwordFormSchema = changePasswordSchema.extend({
 type PasswordFormData = z.infer<typeof passwordFormSchema>;
 
 // Extended DnitConfig type for API responses that don't expose sensitive data
-interface SafeDnitConfig extends Omit<DnitConfig, 'authToken' | 'certificatePassword'> {
+interface SafeDnitConfig extends Omit<DnitConfig, 'authToken' | 'certificatePassword' | 'csc'> {
   hasAuthToken: boolean;
   hasCertificatePassword: boolean;
+  hasCsc: boolean;
 }
 
 export default function ConfiguracionPage() {
@@ -112,6 +119,9 @@ export default function ConfiguracionPage() {
       email: "",
       logoPath: "",
       moneda: "PYG",
+      permitirStockNegativo: false,
+      descuentoMaximoUser: 10,
+      descuentoMaximoAdmin: 100,
     },
   });
 
@@ -123,6 +133,8 @@ export default function ConfiguracionPage() {
       authToken: "",
       certificateData: "",
       certificatePassword: "",
+      idCsc: "",
+      csc: "",
       operationMode: "testing",
       isActive: false,
     },
@@ -138,6 +150,15 @@ export default function ConfiguracionPage() {
     },
   });
 
+  // Authorization PIN form setup (admins authorize discounts beyond the cashier maximum)
+  const pinForm = useForm<PinAutorizacionType>({
+    resolver: zodResolver(pinAutorizacionSchema),
+    defaultValues: {
+      currentPassword: "",
+      pin: "",
+    },
+  });
+
   // Update form when data is loaded
   useEffect(() => {
     if (config) {
@@ -156,6 +177,9 @@ export default function ConfiguracionPage() {
         email: config.email || "",
         logoPath: config.logoPath || "",
         moneda: config.moneda,
+        permitirStockNegativo: config.permitirStockNegativo ?? false,
+        descuentoMaximoUser: config.descuentoMaximoUser ?? 10,
+        descuentoMaximoAdmin: config.descuentoMaximoAdmin ?? 100,
       });
     }
   }, [config, form]);
@@ -168,6 +192,8 @@ export default function ConfiguracionPage() {
         authToken: dnitConfig.hasAuthToken ? "••••••••" : "", // Show placeholder for existing token
         certificateData: dnitConfig.certificateData || "",
         certificatePassword: dnitConfig.hasCertificatePassword ? "••••••••" : "", // Show placeholder for existing password
+        idCsc: dnitConfig.idCsc || "",
+        csc: dnitConfig.hasCsc ? "••••••••" : "", // Show placeholder for existing CSC
         operationMode: dnitConfig.operationMode,
         isActive: dnitConfig.isActive,
       });
@@ -205,6 +231,8 @@ export default function ConfiguracionPage() {
     },
     onSuccess: () => {
       queryClient.invalidateQueries({ queryKey: ['/api/company-config'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/timbrados'] });
+      queryClient.invalidateQueries({ queryKey: ['/api/establecimientos'] });
       toast({
         title: "Configuración guardada",
         description: "La configuración de la empresa se ha guardado correctamente.",
@@ -231,6 +259,10 @@ export default function ConfiguracionPage() {
       if (payload.certificatePassword === "••••••••") {
         payload.certificatePassword = undefined; // Don't update if placeholder
       }
+      if (payload.csc === "••••••••") {
+        payload.csc = undefined; // Don't update if placeholder
+      }
+      payload.idCsc = payload.idCsc || null;
       return apiRequest('PUT', '/api/dnit-config', payload);
     },
     onSuccess: () => {
@@ -277,6 +309,32 @@ export default function ConfiguracionPage() {
     },
   });
 
+  // Mutation for setting the discount authorization PIN
+  const setPinMutation = useMutation({
+    mutationFn: async (data: PinAutorizacionType) => {
+      if (!currentUser?.user?.id) {
+        throw new Error("Usuario no identificado");
+      }
+
+      return apiRequest('POST', `/api/users/${currentUser.user.id}/pin-autorizacion`, data);
+    },
+    onSuccess: () => {
+      pinForm.reset();
+      toast({
+        title: "PIN actualizado",
+        description: "Su PIN de autorización de descuentos se ha guardado.",
+      });
+    },
+    onError: (error: any) => {
+      console.error('Error setting PIN:', error);
+      toast({
+        title: "Error al guardar PIN",
+        description: error.message || "No se pudo guardar el PIN de autorización.",
+        variant: "destructive",
+      });
+    },
+  });
+
   // Mutation for testing DNIT connection
   const testConnectionMutation = useMutation({
     mutationFn: async () => {
@@ -308,6 +366,36 @@ export default function ConfiguracionPage() {
     },
   });
 
+  // Mutation for verifying the signing certificate
+  const testCertificateMutation = useMutation({
+    mutationFn: async () => {
+      const response = await apiRequest('POST', '/api/dnit-config/test-certificate', {});
+      return response;
+    },
+    onSuccess: (result: { success: boolean; error?: string; certificate?: { subject: string; validTo: string } }) => {
+      if (result.success && result.certificate) {
+        toast({
+          title: "Certificado válido",
+          description: `${result.certificate.subject} - vence el ${formatDate(result.certificate.validTo)}`,
+        });
+      } else {
+        toast({
+          title: "Certificado inválido",
+          description: result.error || "No se pudo leer el certificado digital.",
+          variant: "destructive",
+        });
+      }
+    },
+    onError: (error: any) => {
+      console.error('Error testing DNIT certificate:', error);
+      toast({
+        title: "Error al verificar certificado",
+        description: error.message || "Error interno al verificar el certificado digital.",
+        variant: "destructive",
+      });
+    },
+  });
+
   const onSubmit = (data: ConfigFormData) => {
     saveMutation.mutate(data);
   };
@@ -322,6 +410,10 @@ export default function ConfiguracionPage() {
     changePasswordMutation.mutate(data);
   };
 
+  const onPinSubmit = (data: PinAutorizacionType) => {
+    setPinMutation.mutate(data);
+  };
+
   const handleTestConnection = async () => {
     if (!dnitConfig) {
       toast({
@@ -769,6 +861,104 @@ export default function ConfiguracionPage() {
             </CardContent>
           </Card>
 
+          {/* Inventory */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Package className="h-5 w-5" />
+                Inventario
+              </CardTitle>
+              <CardDescription>
+                Control de stock de los productos vendidos
+              </CardDescription>
+            </CardHeader>
+            <CardContent>
+              <FormField
+                control={form.control}
+                name="permitirStockNegativo"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-4">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Permitir stock negativo
+                      </FormLabel>
+                      <FormDescription>
+                        Facturar productos aunque no haya stock suficiente; el stock queda en negativo hasta reponerlo
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <input
+                        type="checkbox"
+                        className="h-4 w-4 rounded border border-input bg-background"
+                        checked={field.value ?? false}
+                        onChange={field.onChange}
+                        data-testid="checkbox-stock-negativo"
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
+          {/* Discounts */}
+          <Card>
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2">
+                <Percent className="h-5 w-5" />
+                Descuentos
+              </CardTitle>
+              <CardDescription>
+                Descuento máximo por rol; por encima de ese porcentaje la venta requiere el PIN de un administrador
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="descuentoMaximoUser"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Máximo para cajeros (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-descuento-maximo-user"
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+              <FormField
+                control={form.control}
+                name="descuentoMaximoAdmin"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Máximo para administradores (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        value={field.value ?? 0}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                        data-testid="input-descuento-maximo-admin"
+                      />
+                    </FormControl>
+                    <FormDescription>
+                      Ningún descuento puede superar este porcentaje, ni con autorización
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </CardContent>
+          </Card>
+
           {/* Submit Button */}
           <div className="flex justify-end">
             <Button 
@@ -789,6 +979,26 @@ export default function ConfiguracionPage() {
         </form>
       </Form>
 
+      {/* Timbrado registry: history, number ranges and the next timbrado */}
+      <div className="mt-6">
+        <TimbradoRegistry />
+      </div>
+
+      {/* Establecimientos and puntos de expedición (cash registers) */}
+      <div className="mt-6">
+        <EstablecimientosCatalog />
+      </div>
+
+      {/* Foreign currencies and daily exchange rates */}
+      <div className="mt-6">
+        <MonedasCatalog />
+      </div>
+
+      {/* Offline copy of the DNIT RUC padrón */}
+      <div className="mt-6">
+        <PadronRucImport />
+      </div>
+
       {/* DNIT Configuration Section */}
       <div className="mt-8">
         <Separator className="mb-6" />
@@ -863,13 +1073,13 @@ export default function ConfiguracionPage() {
                       <FormLabel>URL del Endpoint DNIT *</FormLabel>
                       <FormControl>
                         <Input 
-                          placeholder="https://api.dnit.gov.py/facturacion/v1" 
+                          placeholder="https://sifen-test.set.gov.py" 
                           {...field} 
                           data-testid="input-dnit-endpoint"
                         />
                       </FormControl>
                       <FormDescription>
-                        URL base del servicio web DNIT para envío de facturas electrónicas
+                        URL base de SIFEN (sifen-test.set.gov.py para pruebas, sifen.set.gov.py para producción)
                       </FormDescription>
                       <FormMessage />
                     </FormItem>
@@ -1008,6 +1218,50 @@ export default function ConfiguracionPage() {
                     </FormItem>
                   )}
                 />
+
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                  <FormField
+                    control={dnitForm.control}
+                    name="idCsc"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>IdCSC</FormLabel>
+                        <FormControl>
+                          <Input 
+                            placeholder="0001" 
+                            maxLength={4}
+                            {...field} 
+                            value={field.value ?? ""}
+                            data-testid="input-id-csc"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={dnitForm.control}
+                    name="csc"
+                    render={({ field }) => (
+                      <FormItem className="md:col-span-2">
+                        <FormLabel>Código de Seguridad del Contribuyente (CSC)</FormLabel>
+                        <FormControl>
+                          <Input 
+                            type="password"
+                            placeholder="CSC entregado por la DNIT" 
+                            {...field} 
+                            data-testid="input-csc"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </div>
+                <p className="text-sm text-muted-foreground">
+                  El IdCSC y el CSC se usan para generar el código QR del KuDE impreso
+                </p>
               </CardContent>
             </Card>
 
@@ -1034,6 +1288,27 @@ export default function ConfiguracionPage() {
                 )}
               </Button>
 
+              <Button 
+                type="button"
+                variant="outline"
+                onClick={() => testCertificateMutation.mutate()}
+                disabled={testCertificateMutation.isPending || !dnitConfig}
+                data-testid="button-test-certificate"
+                className="flex items-center gap-2"
+              >
+                {testCertificateMutation.isPending ? (
+                  <>
+                    <div className="animate-spin h-4 w-4 border-2 border-current border-t-transparent rounded-full"></div>
+                    Verificando...
+                  </>
+                ) : (
+                  <>
+                    <FileKey className="h-4 w-4" />
+                    Verificar Certificado
+                  </>
+                )}
+              </Button>
+
               <Button 
                 type="submit" 
                 disabled={saveDnitMutation.isPending}
@@ -1189,6 +1464,80 @@ export default function ConfiguracionPage() {
           </form>
         </Form>
 
+        {/* Discount authorization PIN (admins only) */}
+        {currentUser?.user?.role === 'admin' && (
+          <Form {...pinForm}>
+            <form onSubmit={pinForm.handleSubmit(onPinSubmit)} className="space-y-6 mt-8">
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center gap-2">
+                    <Percent className="h-5 w-5" />
+                    PIN de Autorización de Descuentos
+                  </CardTitle>
+                  <CardDescription>
+                    Los cajeros ingresan este PIN para aplicar descuentos por encima de su máximo; la venta queda registrada como autorizada por usted.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <FormField
+                    control={pinForm.control}
+                    name="currentPassword"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Contraseña Actual *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            placeholder="Ingrese su contraseña actual"
+                            {...field}
+                            data-testid="input-pin-current-password"
+                          />
+                        </FormControl>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <FormField
+                    control={pinForm.control}
+                    name="pin"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Nuevo PIN *</FormLabel>
+                        <FormControl>
+                          <Input
+                            type="password"
+                            inputMode="numeric"
+                            placeholder="De 4 a 8 dígitos"
+                            {...field}
+                            data-testid="input-pin-autorizacion"
+                          />
+                        </FormControl>
+                        <FormDescription>
+                          Los cajeros eligen su nombre en la venta e ingresan este PIN
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+                </CardContent>
+              </Card>
+
+              <div className="flex justify-end">
+                <Button
+                  type="submit"
+                  disabled={setPinMutation.isPending}
+                  data-testid="button-set-pin"
+                  className="flex items-center gap-2"
+                >
+                  <Key className="h-4 w-4" />
+                  {setPinMutation.isPending ? "Guardando PIN..." : "Guardar PIN"}
+                </Button>
+              </div>
+            </form>
+          </Form>
+        )}
+
         {/* System Reset Section - DANGEROUS */}
         <div className="mt-8">
           <Card className="border-destructive/50">
@@ -13,6 +13,7 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { useToast } from "@/hooks/use-toast";
 import { 
   Package, 
@@ -29,9 +30,13 @@ import {
   Eye,
   ShoppingCart,
   Minus,
-  RefreshCw
+  RefreshCw,
+  ClipboardCheck,
+  History
 } from "lucide-react";
-import { insertInventoryItemSchema, type InventoryItem } from "@shared/schema";
+import { insertInventoryItemSchema, type InventoryItem, type TipoMovimientoStock } from "@shared/schema";
+import { TASAS_IVA, etiquetaTasaIva } from "@shared/iva";
+import { TIPOS_MOVIMIENTO_STOCK, type LineaKardex } from "@shared/inventario";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Inventory form schema
@@ -39,6 +44,19 @@ const inventoryFormSchema = insertInventoryItemSchema;
 
 type InventoryFormData = z.infer<typeof inventoryFormSchema>;
 
+type StockAction = 'add' | 'remove' | 'count';
+
+// Movement types entered by hand for each action; a count is always a conteo
+const stockTypes: Record<Exclude<StockAction, 'count'>, TipoMovimientoStock[]> = {
+  add: ['compra', 'ajuste'],
+  remove: ['consumo_servicio', 'ajuste'],
+};
+
+interface KardexProducto {
+  item: InventoryItem;
+  movimientos: (LineaKardex & { usuario: string | null })[];
+}
+
 // Stock level categories
 const getStockStatus = (current: number, minimum: number) => {
   if (current <= 0) {
@@ -94,7 +112,11 @@ export default function InventarioPage() {
   const [editingItem, setEditingItem] = useState<InventoryItem | null>(null);
   const [stockItem, setStockItem] = useState<InventoryItem | null>(null);
   const [stockQuantity, setStockQuantity] = useState<string>("");
-  const [stockAction, setStockAction] = useState<'add' | 'remove'>('add');
+  const [stockAction, setStockAction] = useState<StockAction>('add');
+  const [stockType, setStockType] = useState<TipoMovimientoStock>('compra');
+  const [stockReason, setStockReason] = useState("");
+  const [stockReference, setStockReference] = useState("");
+  const [kardexItem, setKardexItem] = useState<InventoryItem | null>(null);
 
   // Real data queries
   const { data: inventory = [], isLoading } = useQuery<InventoryItem[]>({
@@ -102,6 +124,11 @@ export default function InventarioPage() {
     select: (data) => Array.isArray(data) ? data : []
   });
 
+  const { data: kardex, isLoading: kardexLoading } = useQuery<KardexProducto>({
+    queryKey: ['/api/inventory', kardexItem?.id, 'kardex'],
+    enabled: !!kardexItem,
+  });
+
   // Ensure inventory is always an array
   const inventoryArr = Array.isArray(inventory) ? inventory : [];
   
@@ -135,6 +162,7 @@ export default function InventarioPage() {
       stockActual: 0,
       stockMinimo: 0,
       unidadMedida: "UN",
+      tasaIva: 10,
       proveedor: "",
       ultimoPedido: "",
       estadoAlerta: "normal",
@@ -189,17 +217,19 @@ export default function InventarioPage() {
   });
 
   const updateStockMutation = useMutation({
-    mutationFn: async ({ id, action, quantity }: { id: string; action: 'add' | 'remove'; quantity: number }) => {
-      return await apiRequest('PUT', `/api/inventory/${id}/stock`, { action, quantity });
+    mutationFn: async ({ id, ...data }: { id: string; action: StockAction; tipo?: TipoMovimientoStock; quantity: number; motivo: string | null; referencia: string | null }) => {
+      return await apiRequest('PUT', `/api/inventory/${id}/stock`, data);
     },
-    onSuccess: (_, variables) => {
+    onSuccess: (result: any, variables) => {
       queryClient.invalidateQueries({ queryKey: ['/api/inventory'] });
       setIsStockDialogOpen(false);
       setStockItem(null);
       setStockQuantity("");
       toast({
-        title: `Stock ${variables.action === 'add' ? 'agregado' : 'descontado'}`,
-        description: `Se han ${variables.action === 'add' ? 'agregado' : 'descontado'} ${variables.quantity} unidades.`,
+        title: variables.action === 'count' ? "Conteo registrado" : `Stock ${variables.action === 'add' ? 'agregado' : 'descontado'}`,
+        description: variables.action === 'count'
+          ? `Stock actualizado a ${result.item?.stockActual ?? variables.quantity} unidades.`
+          : `Se han ${variables.action === 'add' ? 'agregado' : 'descontado'} ${variables.quantity} unidades.`,
       });
     },
     onError: (error: Error) => {
@@ -221,15 +251,31 @@ export default function InventarioPage() {
 
   const handleStockUpdate = () => {
     const quantity = parseInt(stockQuantity);
-    if (!stockItem || !quantity || quantity <= 0) return;
+    if (!stockItem || !isValidStockQuantity) return;
     
     updateStockMutation.mutate({
       id: stockItem.id,
       action: stockAction,
-      quantity
+      tipo: stockAction === 'count' ? undefined : stockType,
+      quantity,
+      motivo: stockReason.trim() || null,
+      referencia: stockReference.trim() || null
     });
   };
 
+  const changeStockAction = (action: StockAction) => {
+    setStockAction(action);
+    if (action !== 'count') {
+      setStockType(stockTypes[action][0]);
+    }
+  };
+
+  // Counts can be zero; adjustments need a reason
+  const parsedStockQuantity = parseInt(stockQuantity);
+  const isValidStockQuantity = !isNaN(parsedStockQuantity) &&
+    (stockAction === 'count' ? parsedStockQuantity >= 0 : parsedStockQuantity > 0);
+  const needsStockReason = stockAction !== 'count' && stockType === 'ajuste';
+
   const openDialog = (item?: InventoryItem) => {
     if (item) {
       setEditingItem(item);
@@ -239,6 +285,7 @@ export default function InventarioPage() {
         stockActual: item.stockActual,
         stockMinimo: item.stockMinimo,
         unidadMedida: item.unidadMedida,
+        tasaIva: item.tasaIva ?? 10,
         proveedor: item.proveedor || "",
         ultimoPedido: item.ultimoPedido || "",
         estadoAlerta: item.estadoAlerta,
@@ -254,10 +301,15 @@ export default function InventarioPage() {
   const openStockDialog = (item: InventoryItem) => {
     setStockItem(item);
     setStockQuantity("");
-    setStockAction('add');
+    setStockReason("");
+    setStockReference("");
+    changeStockAction('add');
     setIsStockDialogOpen(true);
   };
 
+  const formatDateTime = (fecha: string | Date) =>
+    new Date(fecha).toLocaleString('es-PY', { dateStyle: 'short', timeStyle: 'short' });
+
   const formatDate = (dateString: string | null) => {
     if (!dateString) return "Nunca";
     return new Date(dateString).toLocaleDateString('es-PY', {
@@ -350,15 +402,19 @@ export default function InventarioPage() {
                     name="stockActual"
                     render={({ field }) => (
                       <FormItem>
-                        <FormLabel>Stock Actual *</FormLabel>
+                        <FormLabel>{editingItem ? "Stock Actual" : "Stock Inicial *"}</FormLabel>
                         <FormControl>
                           <Input 
                             type="number" 
                             placeholder="0" 
                             {...field} 
+                            disabled={!!editingItem}
                             data-testid="input-current-stock"
                           />
                         </FormControl>
+                        {editingItem && (
+                          <FormDescription>Use Stock para registrar movimientos</FormDescription>
+                        )}
                         <FormMessage />
                       </FormItem>
                     )}
@@ -409,6 +465,31 @@ export default function InventarioPage() {
                   />
                 </div>
 
+                <FormField
+                  control={form.control}
+                  name="tasaIva"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>IVA *</FormLabel>
+                      <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value ?? 10)}>
+                        <FormControl>
+                          <SelectTrigger data-testid="select-product-iva">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {TASAS_IVA.map((tasa) => (
+                            <SelectItem key={tasa} value={String(tasa)}>
+                              {etiquetaTasaIva(tasa)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="proveedor"
@@ -483,14 +564,14 @@ export default function InventarioPage() {
           <DialogHeader>
             <DialogTitle>Actualizar Stock</DialogTitle>
             <DialogDescription>
-              Agregue o descuente stock de {stockItem?.nombre}
+              Registre un movimiento de stock de {stockItem?.nombre}
             </DialogDescription>
           </DialogHeader>
           <div className="space-y-4">
-            <div className="grid grid-cols-2 gap-2">
+            <div className="grid grid-cols-3 gap-2">
               <Button 
                 variant={stockAction === 'add' ? 'default' : 'outline'}
-                onClick={() => setStockAction('add')}
+                onClick={() => changeStockAction('add')}
                 data-testid="button-add-stock"
               >
                 <Plus className="h-4 w-4 mr-2" />
@@ -498,17 +579,43 @@ export default function InventarioPage() {
               </Button>
               <Button 
                 variant={stockAction === 'remove' ? 'default' : 'outline'}
-                onClick={() => setStockAction('remove')}
+                onClick={() => changeStockAction('remove')}
                 data-testid="button-remove-stock"
               >
                 <Minus className="h-4 w-4 mr-2" />
                 Descontar
               </Button>
+              <Button 
+                variant={stockAction === 'count' ? 'default' : 'outline'}
+                onClick={() => changeStockAction('count')}
+                data-testid="button-count-stock"
+              >
+                <ClipboardCheck className="h-4 w-4 mr-2" />
+                Conteo
+              </Button>
             </div>
+
+            {stockAction !== 'count' && (
+              <div>
+                <label className="text-sm font-medium">Tipo de movimiento</label>
+                <Select value={stockType} onValueChange={(value) => setStockType(value as TipoMovimientoStock)}>
+                  <SelectTrigger data-testid="select-stock-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {stockTypes[stockAction].map((tipo) => (
+                      <SelectItem key={tipo} value={tipo}>
+                        {TIPOS_MOVIMIENTO_STOCK[tipo]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            )}
             
             <div>
               <label className="text-sm font-medium">
-                Cantidad a {stockAction === 'add' ? 'agregar' : 'descontar'}
+                {stockAction === 'count' ? 'Unidades contadas' : `Cantidad a ${stockAction === 'add' ? 'agregar' : 'descontar'}`}
               </label>
               <Input
                 type="number"
@@ -519,6 +626,32 @@ export default function InventarioPage() {
               />
             </div>
 
+            <div>
+              <label className="text-sm font-medium">
+                Motivo{needsStockReason ? ' *' : ''}
+              </label>
+              <Input
+                placeholder={needsStockReason ? "Rotura, vencimiento, faltante..." : "Opcional"}
+                value={stockReason}
+                onChange={(e) => setStockReason(e.target.value)}
+                maxLength={255}
+                data-testid="input-stock-reason"
+              />
+            </div>
+
+            {stockAction !== 'count' && (
+              <div>
+                <label className="text-sm font-medium">Comprobante</label>
+                <Input
+                  placeholder={stockType === 'compra' ? "N° de factura del proveedor" : "Opcional"}
+                  value={stockReference}
+                  onChange={(e) => setStockReference(e.target.value)}
+                  maxLength={100}
+                  data-testid="input-stock-reference"
+                />
+              </div>
+            )}
+
             {stockItem && (
               <div className="p-3 bg-muted rounded text-sm">
                 <div className="flex justify-between">
@@ -542,7 +675,7 @@ export default function InventarioPage() {
               </Button>
               <Button 
                 onClick={handleStockUpdate}
-                disabled={updateStockMutation.isPending || !stockQuantity || parseInt(stockQuantity) <= 0}
+                disabled={updateStockMutation.isPending || !isValidStockQuantity || (needsStockReason && !stockReason.trim())}
                 data-testid="button-confirm-stock"
               >
                 {updateStockMutation.isPending ? (
@@ -551,7 +684,7 @@ export default function InventarioPage() {
                     Actualizando...
                   </>
                 ) : (
-                  stockAction === 'add' ? 'Agregar Stock' : 'Descontar Stock'
+                  stockAction === 'count' ? 'Registrar Conteo' : stockAction === 'add' ? 'Agregar Stock' : 'Descontar Stock'
                 )}
               </Button>
             </div>
@@ -559,6 +692,60 @@ export default function InventarioPage() {
         </DialogContent>
       </Dialog>
 
+      {/* Kardex Dialog */}
+      <Dialog open={!!kardexItem} onOpenChange={(open) => !open && setKardexItem(null)}>
+        <DialogContent className="max-w-4xl">
+          <DialogHeader>
+            <DialogTitle>Kardex - {kardexItem?.nombre}</DialogTitle>
+            <DialogDescription>
+              Movimientos de stock con el saldo después de cada uno
+            </DialogDescription>
+          </DialogHeader>
+          {kardexLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando movimientos...</p>
+          ) : !kardex || kardex.movimientos.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-kardex-empty">
+              El producto no tiene movimientos de stock.
+            </p>
+          ) : (
+            <div className="max-h-[60vh] overflow-y-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    <TableHead>Movimiento</TableHead>
+                    <TableHead>Detalle</TableHead>
+                    <TableHead className="text-right">Entrada</TableHead>
+                    <TableHead className="text-right">Salida</TableHead>
+                    <TableHead className="text-right">Saldo</TableHead>
+                    <TableHead>Usuario</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {kardex.movimientos.map((movimiento) => (
+                    <TableRow key={movimiento.id} data-testid={`row-kardex-${movimiento.id}`}>
+                      <TableCell className="whitespace-nowrap">{formatDateTime(movimiento.fecha)}</TableCell>
+                      <TableCell>{TIPOS_MOVIMIENTO_STOCK[movimiento.tipo]}</TableCell>
+                      <TableCell className="text-sm text-muted-foreground">
+                        {[movimiento.referencia, movimiento.motivo].filter(Boolean).join(' - ') || '-'}
+                      </TableCell>
+                      <TableCell className="text-right text-green-600">
+                        {movimiento.cantidad > 0 ? movimiento.cantidad : ''}
+                      </TableCell>
+                      <TableCell className="text-right text-red-600">
+                        {movimiento.cantidad < 0 ? -movimiento.cantidad : ''}
+                      </TableCell>
+                      <TableCell className="text-right font-medium">{movimiento.saldo}</TableCell>
+                      <TableCell className="text-sm">{movimiento.usuario ?? '-'}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -744,6 +931,14 @@ export default function InventarioPage() {
                     <RefreshCw className="h-3 w-3 mr-1" />
                     Stock
                   </Button>
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => setKardexItem(item)}
+                    data-testid={`button-kardex-${item.id}`}
+                  >
+                    <History className="h-3 w-3" />
+                  </Button>
                   <Button 
                     size="sm" 
                     variant="outline"
@@ -7,6 +7,9 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { formatDate, formatDateTimeRobust } from "@/lib/utils";
+import { MEDIOS_PAGO } from "@shared/pagos";
+import { MOTIVOS_DESCUENTO } from "@shared/descuentos";
+import type { MedioPago, MotivoDescuento } from "@shared/schema";
 import { 
   BarChart3, 
   TrendingUp, 
@@ -22,7 +25,9 @@ import {
   Package,
   CreditCard,
   FileText,
-  RefreshCw
+  RefreshCw,
+  Plane,
+  Percent
 } from "lucide-react";
 
 // Format price for Paraguay (Guaraní)
@@ -30,16 +35,104 @@ const formatPrice = (price: number) => {
   return `Gs. ${price.toLocaleString('es-PY')}`;
 };
 
+// Libro de Ventas (DNIT RG 90) as returned by /api/reports/libro-ventas
+interface RegistroLibroVentas {
+  tipoComprobante: number;
+  identificacion: string;
+  nombre: string;
+  fecha: string;
+  timbrado: string;
+  numero: string;
+  gravadas10: number;
+  gravadas5: number;
+  exentas: number;
+  iva10: number;
+  iva5: number;
+  total: number;
+  comprobanteAsociado: string | null;
+  anulado: boolean;
+}
+
+interface LibroVentas {
+  periodo: string;
+  registros: RegistroLibroVentas[];
+  totales: Pick<RegistroLibroVentas, "gravadas10" | "gravadas5" | "exentas" | "iva10" | "iva5" | "total">;
+  cantidadAnulados: number;
+}
+
+// Turismo invoices of a month as returned by /api/reports/turismo
+interface RegistroTurismo {
+  saleId: string;
+  fecha: string;
+  numeroFactura: string;
+  nombre: string;
+  pasaporte: string;
+  pais: string;
+  fechaIngreso: string | null;
+  diasPermanencia: number | null;
+  total: number;
+  anulada: boolean;
+}
+
+interface ReporteTurismo {
+  periodo: string;
+  registros: RegistroTurismo[];
+  totales: { cantidad: number; total: number; notasCredito: number; neto: number };
+  porPais: { pais: string; cantidad: number; total: number }[];
+}
+
+// Discounted sales of a month as returned by /api/reports/descuentos
+interface RegistroDescuento {
+  saleId: string;
+  fecha: string;
+  numeroFactura: string;
+  cajero: string | null;
+  autorizadoPor: string | null;
+  totalBruto: number;
+  descuentoLineas: number;
+  descuentoGlobal: number;
+  descuentoTotal: number;
+  total: number;
+  motivos: MotivoDescuento[];
+  anulada: boolean;
+}
+
+interface ReporteDescuentos {
+  periodo: string;
+  registros: RegistroDescuento[];
+  totales: { cantidad: number; totalBruto: number; descuentoTotal: number; porcentaje: number; autorizados: number };
+  porMotivo: { motivo: MotivoDescuento; cantidad: number; total: number }[];
+  porCajero: { cajero: string; cantidad: number; total: number }[];
+  porAutorizador: { autorizadoPor: string; cantidad: number; total: number }[];
+}
+
+const tiposComprobante: Record<number, string> = {
+  109: "Factura",
+  110: "Nota de crédito",
+  111: "Nota de débito",
+};
+
+const currentMonth = () => {
+  const now = new Date();
+  return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+};
+
 // Remove old formatDate - now imported from utils
 
 export default function ReportesPage() {
   const [period, setPeriod] = useState<string>("week");
   const [dateFrom, setDateFrom] = useState<string>("");
   const [dateTo, setDateTo] = useState<string>("");
+  const [mesLibro, setMesLibro] = useState<string>(currentMonth());
+  const [mesTurismo, setMesTurismo] = useState<string>(currentMonth());
+  const [mesDescuentos, setMesDescuentos] = useState<string>(currentMonth());
 
   // Simulated queries
+  const customRange = period === "custom" && dateFrom && dateTo
+    ? `?${new URLSearchParams({ desde: dateFrom, hasta: dateTo })}`
+    : "";
   const { data: salesData, isLoading: salesLoading } = useQuery({
-    queryKey: ['/api/reports/sales', period],
+    queryKey: ['/api/reports/sales', `${period}${customRange}`],
   });
 
   const { data: servicesData, isLoading: servicesLoading } = useQuery({
@@ -56,6 +149,21 @@ export default function ReportesPage() {
     queryKey: ['/api/reports/customers'],
   });
 
+  const { data: libroVentas, isLoading: libroLoading } = useQuery<LibroVentas>({
+    queryKey: [`/api/reports/libro-ventas?mes=${mesLibro}`],
+    enabled: !!mesLibro,
+  });
+
+  const { data: reporteTurismo, isLoading: turismoLoading } = useQuery<ReporteTurismo>({
+    queryKey: [`/api/reports/turismo?mes=${mesTurismo}`],
+    enabled: !!mesTurismo,
+  });
+
+  const { data: reporteDescuentos, isLoading: descuentosLoading } = useQuery<ReporteDescuentos>({
+    queryKey: [`/api/reports/descuentos?mes=${mesDescuentos}`],
+    enabled: !!mesDescuentos,
+  });
+
   // Calculate current period stats from real data
   const currentWeekSales = (salesData as any)?.daily?.reduce((sum: number, day: any) => sum + (day.amount || 0), 0) || 0;
   const currentWeekOrders = (salesData as any)?.daily?.reduce((sum: number, day: any) => sum + (day.orders || 0), 0) || 0;
@@ -257,8 +365,12 @@ export default function ReportesPage() {
                       ></div>
                     </div>
                     <div className="flex justify-between text-xs text-muted-foreground">
-                      <span>{day.orders} órdenes</span>
-                      <span>{formatPrice(Math.round(day.amount / day.orders))} promedio</span>
+                      <span>
+                        {day.orders} órdenes
+                        {day.credited > 0 && ` • NC -${formatPrice(day.credited)}`}
+                        {day.debited > 0 && ` • ND +${formatPrice(day.debited)}`}
+                      </span>
+                      <span>{formatPrice(day.orders > 0 ? Math.round(day.amount / day.orders) : 0)} promedio</span>
                     </div>
                   </div>
                 );
@@ -309,6 +421,117 @@ export default function ReportesPage() {
         </Card>
       </div>
 
+      {/* IVA Summary - credit and debit notes are netted in the period they were issued */}
+      {(salesData as any)?.iva && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <FileText className="h-5 w-5" />
+              Resumen de IVA
+            </CardTitle>
+            <CardDescription>
+              {(salesData as any).cantidadFacturas} facturas • {(salesData as any).cantidadNotasCredito} notas de crédito • {(salesData as any).cantidadNotasDebito} notas de débito
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-2 text-sm">
+              <span className="text-muted-foreground"></span>
+              <span className="text-right text-muted-foreground">Gravado</span>
+              <span className="text-right text-muted-foreground">IVA</span>
+              <span className="text-right text-muted-foreground">Total</span>
+              {[
+                { key: "facturas", label: "Facturado" },
+                { key: "notasCredito", label: "Notas de crédito" },
+                { key: "notasDebito", label: "Notas de débito" },
+                { key: "neto", label: "Neto" }
+              ].map(({ key, label }) => {
+                const totales = (salesData as any).iva[key];
+                return (
+                  <div key={key} className={`contents ${key === "neto" ? "font-semibold" : ""}`} data-testid={`iva-row-${key}`}>
+                    <span>{label}</span>
+                    <span className="text-right">{formatPrice(totales.subtotal)}</span>
+                    <span className="text-right">{formatPrice(totales.iva)}</span>
+                    <span className="text-right">{formatPrice(totales.total)}</span>
+                  </div>
+                );
+              })}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Sales in foreign currency - reported at their invoiced guaraní total */}
+      {(salesData as any)?.monedas?.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <DollarSign className="h-5 w-5" />
+              Ventas en Moneda Extranjera
+            </CardTitle>
+            <CardDescription>
+              Montos cobrados en otras monedas y su equivalente facturado en guaraníes
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-2 text-sm">
+              <span className="text-muted-foreground">Moneda</span>
+              <span className="text-right text-muted-foreground">Ventas</span>
+              <span className="text-right text-muted-foreground">Monto</span>
+              <span className="text-right text-muted-foreground">Equivalente Gs.</span>
+              {(salesData as any).monedas.map((moneda: any) => (
+                <div key={moneda.moneda} className="contents" data-testid={`currency-row-${moneda.moneda}`}>
+                  <span>{moneda.moneda}</span>
+                  <span className="text-right">{moneda.cantidad}</span>
+                  <span className="text-right">
+                    {moneda.totalMoneda.toLocaleString('es-PY', { minimumFractionDigits: 2, maximumFractionDigits: 2 })}
+                  </span>
+                  <span className="text-right">{formatPrice(moneda.totalGs)}</span>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Cash sales per payment method - split payments count in each method */}
+      {(salesData as any)?.mediosPago?.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <CreditCard className="h-5 w-5" />
+              Ingresos por Medio de Pago
+            </CardTitle>
+            <CardDescription>
+              Cobros de ventas al contado; las ventas con pago dividido suman en cada medio
+            </CardDescription>
+          </CardHeader>
+          <CardContent>
+            <div className="grid grid-cols-4 gap-2 text-sm">
+              <span className="text-muted-foreground">Medio de pago</span>
+              <span className="text-right text-muted-foreground">Pagos</span>
+              <span className="text-right text-muted-foreground">Vuelto entregado</span>
+              <span className="text-right text-muted-foreground">Total</span>
+              {(salesData as any).mediosPago.map((medio: any) => (
+                <div key={medio.medioPago} className="contents" data-testid={`payment-row-${medio.medioPago}`}>
+                  <span>{MEDIOS_PAGO[medio.medioPago as MedioPago] ?? medio.medioPago}</span>
+                  <span className="text-right">{medio.cantidad}</span>
+                  <span className="text-right">{medio.vuelto > 0 ? formatPrice(medio.vuelto) : "-"}</span>
+                  <span className="text-right">{formatPrice(medio.total)}</span>
+                </div>
+              ))}
+              {(salesData as any).ventasCredito?.cantidad > 0 && (
+                <div className="contents text-muted-foreground" data-testid="payment-row-credito">
+                  <span>Ventas a crédito (a cobrar)</span>
+                  <span className="text-right">{(salesData as any).ventasCredito.cantidad}</span>
+                  <span className="text-right">-</span>
+                  <span className="text-right">{formatPrice((salesData as any).ventasCredito.total)}</span>
+                </div>
+              )}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Bottom Row */}
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {/* Top Customers */}
@@ -393,6 +616,380 @@ export default function ReportesPage() {
         </Card>
       </div>
 
+      {/* Libro de Ventas (DNIT RG 90) */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <FileText className="h-5 w-5" />
+                Libro de Ventas
+              </CardTitle>
+              <CardDescription>
+                Comprobantes emitidos en el mes, en el formato de la RG 90 para Marangatu
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="month"
+                value={mesLibro}
+                onChange={(e) => setMesLibro(e.target.value)}
+                className="w-44"
+                data-testid="input-libro-ventas-mes"
+              />
+              <Button variant="outline" asChild disabled={!mesLibro}>
+                <a href={`/api/reports/libro-ventas/rg90?mes=${mesLibro}&formato=csv`} data-testid="button-libro-ventas-csv">
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+              <Button asChild disabled={!mesLibro}>
+                <a href={`/api/reports/libro-ventas/rg90?mes=${mesLibro}`} data-testid="button-libro-ventas-zip">
+                  <Download className="h-4 w-4 mr-2" />
+                  ZIP RG 90
+                </a>
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {libroLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando libro de ventas...</p>
+          ) : !libroVentas || libroVentas.registros.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-libro-ventas-empty">
+              No hay comprobantes emitidos en el mes seleccionado
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2">Fecha</th>
+                      <th className="py-2 pr-2">Comprobante</th>
+                      <th className="py-2 pr-2">Número</th>
+                      <th className="py-2 pr-2">Cliente</th>
+                      <th className="py-2 pr-2 text-right">Gravadas 10%</th>
+                      <th className="py-2 pr-2 text-right">Gravadas 5%</th>
+                      <th className="py-2 pr-2 text-right">Exentas</th>
+                      <th className="py-2 pr-2 text-right">IVA</th>
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {libroVentas.registros.map(registro => (
+                      <tr
+                        key={`${registro.tipoComprobante}-${registro.numero}`}
+                        className={`border-b ${registro.anulado ? 'text-muted-foreground line-through' : ''}`}
+                        data-testid={`row-libro-ventas-${registro.numero}`}
+                      >
+                        <td className="py-2 pr-2">{formatDate(registro.fecha)}</td>
+                        <td className="py-2 pr-2">
+                          {tiposComprobante[registro.tipoComprobante]}
+                          {registro.anulado && <Badge variant="outline" className="ml-2">Anulada</Badge>}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {registro.numero}
+                          {registro.comprobanteAsociado && (
+                            <span className="block text-xs text-muted-foreground">Ref. {registro.comprobanteAsociado}</span>
+                          )}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {registro.nombre}
+                          <span className="block text-xs text-muted-foreground">{registro.identificacion}</span>
+                        </td>
+                        <td className="py-2 pr-2 text-right">{formatPrice(registro.gravadas10)}</td>
+                        <td className="py-2 pr-2 text-right">{formatPrice(registro.gravadas5)}</td>
+                        <td className="py-2 pr-2 text-right">{formatPrice(registro.exentas)}</td>
+                        <td className="py-2 pr-2 text-right">{formatPrice(registro.iva10 + registro.iva5)}</td>
+                        <td className="py-2 text-right">{formatPrice(registro.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 md:grid-cols-5 gap-4 text-sm" data-testid="text-libro-ventas-totales">
+                <div>
+                  <p className="text-muted-foreground">Gravadas 10%</p>
+                  <p className="font-semibold">{formatPrice(libroVentas.totales.gravadas10)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Gravadas 5%</p>
+                  <p className="font-semibold">{formatPrice(libroVentas.totales.gravadas5)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Exentas</p>
+                  <p className="font-semibold">{formatPrice(libroVentas.totales.exentas)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">IVA débito fiscal</p>
+                  <p className="font-semibold">{formatPrice(libroVentas.totales.iva10 + libroVentas.totales.iva5)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total neto de notas de crédito</p>
+                  <p className="font-semibold">{formatPrice(libroVentas.totales.total)}</p>
+                </div>
+              </div>
+              {libroVentas.cantidadAnulados > 0 && (
+                <p className="text-xs text-muted-foreground">
+                  {libroVentas.cantidadAnulados} comprobante(s) anulado(s) no se incluyen en los totales ni en el archivo RG 90
+                </p>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Régimen de Turismo */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Plane className="h-5 w-5" />
+                Ventas en Régimen de Turismo
+              </CardTitle>
+              <CardDescription>
+                Facturas exentas a turistas extranjeros, para la declaración mensual ante la DNIT
+              </CardDescription>
+            </div>
+            <div className="flex gap-2">
+              <Input
+                type="month"
+                value={mesTurismo}
+                onChange={(e) => setMesTurismo(e.target.value)}
+                className="w-44"
+                data-testid="input-turismo-mes"
+              />
+              <Button variant="outline" asChild disabled={!mesTurismo}>
+                <a href={`/api/reports/turismo?mes=${mesTurismo}&formato=csv`} data-testid="button-turismo-csv">
+                  <Download className="h-4 w-4 mr-2" />
+                  CSV
+                </a>
+              </Button>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent>
+          {turismoLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando ventas en régimen de turismo...</p>
+          ) : !reporteTurismo || reporteTurismo.registros.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-turismo-empty">
+              No hay ventas en régimen de turismo en el mes seleccionado
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2">Fecha</th>
+                      <th className="py-2 pr-2">Factura</th>
+                      <th className="py-2 pr-2">Turista</th>
+                      <th className="py-2 pr-2">País</th>
+                      <th className="py-2 pr-2">Ingreso</th>
+                      <th className="py-2 text-right">Exentas</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reporteTurismo.registros.map(registro => (
+                      <tr
+                        key={registro.saleId}
+                        className={`border-b ${registro.anulada ? 'text-muted-foreground line-through' : ''}`}
+                        data-testid={`row-turismo-${registro.numeroFactura}`}
+                      >
+                        <td className="py-2 pr-2">{formatDate(registro.fecha)}</td>
+                        <td className="py-2 pr-2">
+                          {registro.numeroFactura}
+                          {registro.anulada && <Badge variant="outline" className="ml-2">Anulada</Badge>}
+                        </td>
+                        <td className="py-2 pr-2">
+                          {registro.nombre}
+                          <span className="block text-xs text-muted-foreground">Pasaporte {registro.pasaporte}</span>
+                        </td>
+                        <td className="py-2 pr-2">{registro.pais}</td>
+                        <td className="py-2 pr-2">
+                          {registro.fechaIngreso ? formatDate(registro.fechaIngreso) : "-"}
+                          {registro.diasPermanencia !== null && (
+                            <span className="block text-xs text-muted-foreground">{registro.diasPermanencia} días</span>
+                          )}
+                        </td>
+                        <td className="py-2 text-right">{formatPrice(registro.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm" data-testid="text-turismo-totales">
+                <div>
+                  <p className="text-muted-foreground">Facturas</p>
+                  <p className="font-semibold">{reporteTurismo.totales.cantidad}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total exento</p>
+                  <p className="font-semibold">{formatPrice(reporteTurismo.totales.total)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Notas de crédito</p>
+                  <p className="font-semibold">{formatPrice(reporteTurismo.totales.notasCredito)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Neto a declarar</p>
+                  <p className="font-semibold">{formatPrice(reporteTurismo.totales.neto)}</p>
+                </div>
+              </div>
+
+              {reporteTurismo.porPais.length > 1 && (
+                <div className="flex flex-wrap gap-2">
+                  {reporteTurismo.porPais.map(grupo => (
+                    <Badge key={grupo.pais} variant="secondary" data-testid={`badge-turismo-pais-${grupo.pais}`}>
+                      {grupo.pais}: {grupo.cantidad} ({formatPrice(grupo.total)})
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {/* Descuentos */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col sm:flex-row sm:items-center sm:justify-between gap-4">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Percent className="h-5 w-5" />
+                Descuentos
+              </CardTitle>
+              <CardDescription>
+                Ventas con descuento del mes por motivo, cajero y administrador que autorizó
+              </CardDescription>
+            </div>
+            <Input
+              type="month"
+              value={mesDescuentos}
+              onChange={(e) => setMesDescuentos(e.target.value)}
+              className="w-44"
+              data-testid="input-descuentos-mes"
+            />
+          </div>
+        </CardHeader>
+        <CardContent>
+          {descuentosLoading ? (
+            <p className="text-sm text-muted-foreground">Cargando descuentos...</p>
+          ) : !reporteDescuentos || reporteDescuentos.registros.length === 0 ? (
+            <p className="text-sm text-muted-foreground" data-testid="text-descuentos-empty">
+              No hay ventas con descuento en el mes seleccionado
+            </p>
+          ) : (
+            <div className="space-y-4">
+              <div className="overflow-x-auto">
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="border-b text-left text-muted-foreground">
+                      <th className="py-2 pr-2">Fecha</th>
+                      <th className="py-2 pr-2">Factura</th>
+                      <th className="py-2 pr-2">Cajero</th>
+                      <th className="py-2 pr-2">Motivo</th>
+                      <th className="py-2 pr-2">Autorizó</th>
+                      <th className="py-2 pr-2 text-right">Total bruto</th>
+                      <th className="py-2 pr-2 text-right">Descuento</th>
+                      <th className="py-2 text-right">Total</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {reporteDescuentos.registros.map(registro => (
+                      <tr
+                        key={registro.saleId}
+                        className={`border-b ${registro.anulada ? 'text-muted-foreground line-through' : ''}`}
+                        data-testid={`row-descuento-${registro.numeroFactura}`}
+                      >
+                        <td className="py-2 pr-2">{formatDate(registro.fecha)}</td>
+                        <td className="py-2 pr-2">
+                          {registro.numeroFactura}
+                          {registro.anulada && <Badge variant="outline" className="ml-2">Anulada</Badge>}
+                        </td>
+                        <td className="py-2 pr-2">{registro.cajero ?? "-"}</td>
+                        <td className="py-2 pr-2">
+                          {registro.motivos.map(motivo => MOTIVOS_DESCUENTO[motivo]).join(", ") || "-"}
+                        </td>
+                        <td className="py-2 pr-2">{registro.autorizadoPor ?? "-"}</td>
+                        <td className="py-2 pr-2 text-right">{formatPrice(registro.totalBruto)}</td>
+                        <td className="py-2 pr-2 text-right">-{formatPrice(registro.descuentoTotal)}</td>
+                        <td className="py-2 text-right">{formatPrice(registro.total)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+
+              <Separator />
+
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-sm" data-testid="text-descuentos-totales">
+                <div>
+                  <p className="text-muted-foreground">Ventas con descuento</p>
+                  <p className="font-semibold">{reporteDescuentos.totales.cantidad}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Total descontado</p>
+                  <p className="font-semibold">{formatPrice(reporteDescuentos.totales.descuentoTotal)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">% sobre el total bruto</p>
+                  <p className="font-semibold">{reporteDescuentos.totales.porcentaje}%</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Autorizados con PIN</p>
+                  <p className="font-semibold">{reporteDescuentos.totales.autorizados}</p>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-sm">
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">Por motivo</p>
+                  <div className="flex flex-wrap gap-2">
+                    {reporteDescuentos.porMotivo.map(grupo => (
+                      <Badge key={grupo.motivo} variant="secondary" data-testid={`badge-descuento-motivo-${grupo.motivo}`}>
+                        {MOTIVOS_DESCUENTO[grupo.motivo]}: {grupo.cantidad} ({formatPrice(grupo.total)})
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">Por cajero</p>
+                  <div className="flex flex-wrap gap-2">
+                    {reporteDescuentos.porCajero.map(grupo => (
+                      <Badge key={grupo.cajero} variant="secondary" data-testid={`badge-descuento-cajero-${grupo.cajero}`}>
+                        {grupo.cajero}: {grupo.cantidad} ({formatPrice(grupo.total)})
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+                <div className="space-y-2">
+                  <p className="text-muted-foreground">Por autorizador</p>
+                  <div className="flex flex-wrap gap-2">
+                    {reporteDescuentos.porAutorizador.length === 0 ? (
+                      <span className="text-muted-foreground">Sin descuentos autorizados</span>
+                    ) : reporteDescuentos.porAutorizador.map(grupo => (
+                      <Badge key={grupo.autorizadoPor} variant="secondary" data-testid={`badge-descuento-autorizador-${grupo.autorizadoPor}`}>
+                        {grupo.autorizadoPor}: {grupo.cantidad} ({formatPrice(grupo.total)})
+                      </Badge>
+                    ))}
+                  </div>
+                </div>
+              </div>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Quick Actions */}
       <Card>
         <CardHeader>
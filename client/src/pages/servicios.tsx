@@ -31,6 +31,7 @@ import {
   Tag
 } from "lucide-react";
 import { insertServiceSchema, insertServiceComboSchema, type Service, type ServiceCombo } from "@shared/schema";
+import { TASAS_IVA, etiquetaTasaIva } from "@shared/iva";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 
 // Service form schema - transform numbers to strings for price inputs
@@ -118,6 +119,7 @@ export default function ServiciosPage() {
       nombre: "",
       descripcion: "",
       precio: "0",
+      tasaIva: 10,
       duracionMin: 30,
       categoria: "basico",
       activo: true,
@@ -131,6 +133,7 @@ export default function ServiciosPage() {
       nombre: "",
       descripcion: "",
       precioTotal: "0",
+      tasaIva: 10,
       serviceIds: [],
       activo: true,
     },
@@ -294,6 +297,7 @@ export default function ServiciosPage() {
         nombre: service.nombre,
         descripcion: service.descripcion || "",
         precio: service.precio,
+        tasaIva: service.tasaIva ?? 10,
         duracionMin: service.duracionMin,
         categoria: service.categoria,
         activo: service.activo,
@@ -313,6 +317,7 @@ export default function ServiciosPage() {
         nombre: combo.nombre,
         descripcion: combo.descripcion || "",
         precioTotal: combo.precioTotal,
+        tasaIva: combo.tasaIva ?? 10,
         serviceIds: [], // TODO: Fetch combo services
         activo: combo.activo,
       });
@@ -468,6 +473,31 @@ export default function ServiciosPage() {
                     )}
                   />
 
+                  <FormField
+                    control={serviceForm.control}
+                    name="tasaIva"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>IVA *</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value ?? 10)}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-service-iva">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {TASAS_IVA.map((tasa) => (
+                              <SelectItem key={tasa} value={String(tasa)}>
+                                {etiquetaTasaIva(tasa)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <div className="flex justify-end gap-2 pt-4">
                     <Button 
                       type="button" 
@@ -568,6 +598,31 @@ export default function ServiciosPage() {
                     )}
                   />
 
+                  <FormField
+                    control={comboForm.control}
+                    name="tasaIva"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>IVA *</FormLabel>
+                        <Select onValueChange={(value) => field.onChange(Number(value))} value={String(field.value ?? 10)}>
+                          <FormControl>
+                            <SelectTrigger data-testid="select-combo-iva">
+                              <SelectValue />
+                            </SelectTrigger>
+                          </FormControl>
+                          <SelectContent>
+                            {TASAS_IVA.map((tasa) => (
+                              <SelectItem key={tasa} value={String(tasa)}>
+                                {etiquetaTasaIva(tasa)}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
                   <FormField
                     control={comboForm.control}
                     name="serviceIds"
@@ -762,6 +817,9 @@ export default function ServiciosPage() {
                           <span className="font-semibold text-primary" data-testid={`text-service-price-${service.id}`}>
                             {formatPrice(service.precio)}
                           </span>
+                          <span className="text-xs text-muted-foreground" data-testid={`text-service-iva-${service.id}`}>
+                            {etiquetaTasaIva(service.tasaIva ?? 10)}
+                          </span>
                         </div>
                       </div>
                       {!service.activo && (
@@ -848,6 +906,9 @@ export default function ServiciosPage() {
                         <span className="font-semibold text-primary" data-testid={`text-combo-price-${combo.id}`}>
                           {formatPrice(combo.precioTotal)}
                         </span>
+                        <span className="text-xs text-muted-foreground" data-testid={`text-combo-iva-${combo.id}`}>
+                          {etiquetaTasaIva(combo.tasaIva ?? 10)}
+                        </span>
                       </div>
                     </div>
                     {!combo.activo && (
@@ -33,7 +33,7 @@ import {
   Clock,
   UserX
 } from "lucide-react";
-import { insertUserSchema, type PublicUser } from "@shared/schema";
+import { insertUserSchema, type PublicUser, type Establecimiento, type PuntoExpedicion } from "@shared/schema";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatDate, formatDateTimeRobust } from "@/lib/utils";
 
@@ -72,6 +72,9 @@ const roleOptions = [
   { value: "readonly", label: "Solo Lectura", description: "Solo puede ver información" },
 ];
 
+// Value of the punto select for users invoicing from the punto in the company configuration
+const PUNTO_PREDETERMINADO = "predeterminado";
+
 // Subscription type options
 const subscriptionOptions = [
   { value: "free", label: "Gratis", description: "50 facturas/mes" },
@@ -96,6 +99,20 @@ export default function UsuariosPage() {
     select: (data) => Array.isArray(data) ? data : []
   });
 
+  // Puntos de expedición (cash registers) users can be assigned to
+  const { data: establecimientos = [] } = useQuery<(Establecimiento & { puntos: PuntoExpedicion[] })[]>({
+    queryKey: ['/api/establecimientos'],
+  });
+  const puntoOptions = establecimientos.flatMap(establecimiento =>
+    establecimiento.puntos.map(punto => ({
+      value: punto.id,
+      label: `${establecimiento.codigo}-${punto.codigo} · ${establecimiento.nombre} / ${punto.descripcion}`,
+      activo: establecimiento.activo && punto.activo,
+    }))
+  );
+  const puntoLabel = (puntoExpedicionId: string | null) =>
+    puntoOptions.find(option => option.value === puntoExpedicionId)?.label.split(' · ')[0] ?? "Predeterminado";
+
   // Ensure users is always an array
   const usersArr = Array.isArray(users) ? users : [];
   
@@ -137,6 +154,7 @@ export default function UsuariosPage() {
       expirationDate: "",
       isActive: true,
       isBlocked: false,
+      puntoExpedicionId: null,
     },
   });
 
@@ -289,6 +307,7 @@ export default function UsuariosPage() {
         expirationDate: user.expirationDate && !isNaN(Date.parse(typeof user.expirationDate === 'string' ? user.expirationDate : user.expirationDate.toString())) ? new Date(user.expirationDate).toISOString().split('T')[0] : "",
         isActive: user.isActive,
         isBlocked: user.isBlocked,
+        puntoExpedicionId: user.puntoExpedicionId ?? null,
       });
     } else {
       setEditingUser(null);
@@ -567,6 +586,38 @@ export default function UsuariosPage() {
                   )}
                 />
 
+                <FormField
+                  control={form.control}
+                  name="puntoExpedicionId"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Punto de Expedición</FormLabel>
+                      <Select
+                        onValueChange={(value) => field.onChange(value === PUNTO_PREDETERMINADO ? null : value)}
+                        value={field.value ?? PUNTO_PREDETERMINADO}
+                      >
+                        <FormControl>
+                          <SelectTrigger data-testid="select-punto-expedicion">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          <SelectItem value={PUNTO_PREDETERMINADO}>Predeterminado (configuración de la empresa)</SelectItem>
+                          {puntoOptions.map(option => (
+                            <SelectItem key={option.value} value={option.value} disabled={!option.activo}>
+                              {option.label}{!option.activo && " (inactivo)"}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormDescription>
+                        Caja desde la que factura el usuario; cada punto tiene su propia numeración
+                      </FormDescription>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
                 <FormField
                   control={form.control}
                   name="expirationDate"
@@ -719,6 +770,7 @@ export default function UsuariosPage() {
               <TableRow>
                 <TableHead>Usuario</TableHead>
                 <TableHead>Rol</TableHead>
+                <TableHead>Punto</TableHead>
                 <TableHead>Suscripción</TableHead>
                 <TableHead>Uso Mensual</TableHead>
                 <TableHead>Estado</TableHead>
@@ -748,6 +800,9 @@ export default function UsuariosPage() {
                   <TableCell data-testid={`badge-role-${user.id}`}>
                     {getRoleBadge(user.role)}
                   </TableCell>
+                  <TableCell className="font-mono text-sm" data-testid={`text-punto-${user.id}`}>
+                    {puntoLabel(user.puntoExpedicionId)}
+                  </TableCell>
                   <TableCell data-testid={`text-subscription-${user.id}`}>
                     <div>
                       <div className="font-medium capitalize">{user.subscriptionType}</div>
@@ -15,6 +15,7 @@ import { Badge } from "@/components/ui/badge";
 import { Separator } from "@/components/ui/separator";
 import { Alert, AlertDescription } from "@/components/ui/alert";
 import { Checkbox } from "@/components/ui/checkbox";
+import { Label } from "@/components/ui/label";
 import { useToast } from "@/hooks/use-toast";
 import { 
   CreditCard, 
@@ -32,11 +33,25 @@ import {
   ShoppingCart,
   Eye,
   Download,
-  Calculator
+  Calculator,
+  RefreshCw,
+  Ban,
+  FileMinus,
+  FilePlus,
+  Printer
 } from "lucide-react";
-import { insertSaleSchema, type Sale, type Customer, type Service, type ServiceCombo, type WorkOrder } from "@shared/schema";
+import { insertSaleSchema, type Sale, type Customer, type Service, type ServiceCombo, type WorkOrder, type NotaCredito, type NotaDebito, type DocumentSequenceKey, type TasaIva, type MedioPago, type CompanyConfig } from "@shared/schema";
+import { liquidarIva } from "@shared/iva";
+import { aplicarDescuentos, porcentajeDescuento, descuentoMaximoRol, type DescuentoVenta } from "@shared/descuentos";
+import { MEDIOS_PAGO } from "@shared/pagos";
 import { apiRequest, queryClient } from "@/lib/queryClient";
 import { formatDate, formatDateTimeRobust } from "@/lib/utils";
+import CreditNoteDialog from "@/components/CreditNoteDialog";
+import PrintCreditNote from "@/components/PrintCreditNote";
+import DebitNoteDialog from "@/components/DebitNoteDialog";
+import PrintDebitNote from "@/components/PrintDebitNote";
+import PrintInvoice from "@/components/PrintInvoice";
+import DescuentoPopover from "@/components/DescuentoPopover";
 
 // Sale form schema
 const saleFormSchema = insertSaleSchema.extend({
@@ -51,17 +66,39 @@ const saleFormSchema = insertSaleSchema.extend({
 
 type SaleFormData = z.infer<typeof saleFormSchema>;
 
-// Payment methods
-const paymentMethods = [
-  { value: "efectivo", label: "Efectivo" },
-  { value: "tarjeta", label: "Tarjeta de Crédito/Débito" },
-  { value: "transferencia", label: "Transferencia Bancaria" },
-  { value: "cuenta", label: "Cuenta Corriente" },
-];
+// Select value of the anonymous consumidor final, sent as a sale without customer (innominado)
+const CONSUMIDOR_FINAL = "innominado";
+const customerIdVenta = (customerId: string | null | undefined) =>
+  customerId && customerId !== CONSUMIDOR_FINAL ? customerId : null;
 
+// Numbers reserved without a document (GET /api/reports/numeracion-huecos)
+type HuecoNumeracion = DocumentSequenceKey & { desde: number; hasta: number };
 
-// Tax rate (10% IVA in Paraguay)
-const TAX_RATE = 0.10;
+const TIPOS_DOCUMENTO: Record<number, string> = {
+  1: "Factura",
+  5: "Nota de crédito",
+  6: "Nota de débito"
+};
+
+const emptyInutilizarData = {
+  numeroDesde: "",
+  numeroHasta: "",
+  motivo: "",
+  establecimiento: "",
+  puntoExpedicion: "",
+  tipoDocumento: 1
+};
+
+// Payment methods (a sale paid with several shows the one that paid the most)
+const paymentMethods = (Object.keys(MEDIOS_PAGO) as MedioPago[]).map(value => ({ value, label: MEDIOS_PAGO[value] }));
+
+// SIFEN electronic document status
+const sifenStatuses: Record<Sale["sifenEstado"], { label: string; className: string }> = {
+  pendiente: { label: "SIFEN: Pendiente", className: "bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200" },
+  enviado: { label: "SIFEN: Enviado", className: "bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200" },
+  aprobado: { label: "SIFEN: Aprobado", className: "bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200" },
+  rechazado: { label: "SIFEN: Rechazado", className: "bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200" },
+};
 
 // Format price for Paraguay (Guaraní)
 const formatPrice = (price: number | string) => {
@@ -78,8 +115,19 @@ export default function VentasPage() {
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [editingSale, setEditingSale] = useState<Sale | null>(null);
   const [selectedItems, setSelectedItems] = useState<any[]>([]);
+  const [descuentoVenta, setDescuentoVenta] = useState<DescuentoVenta | null>(null);
+  const [autorizadoPor, setAutorizadoPor] = useState("");
+  const [pinAutorizacion, setPinAutorizacion] = useState("");
   const [timbradoStatus, setTimbradoStatus] = useState<{ isValid: boolean; error?: string }>({ isValid: true });
-  const [deleteConfirmSale, setDeleteConfirmSale] = useState<Sale | null>(null);
+  const [anularSale, setAnularSale] = useState<Sale | null>(null);
+  const [anularMotivo, setAnularMotivo] = useState("");
+  const [isInutilizarOpen, setIsInutilizarOpen] = useState(false);
+  const [inutilizarData, setInutilizarData] = useState(emptyInutilizarData);
+  const [creditNoteSale, setCreditNoteSale] = useState<Sale | null>(null);
+  const [printNotaCreditoId, setPrintNotaCreditoId] = useState<string | null>(null);
+  const [debitNoteSale, setDebitNoteSale] = useState<Sale | null>(null);
+  const [printNotaDebitoId, setPrintNotaDebitoId] = useState<string | null>(null);
+  const [printSale, setPrintSale] = useState<Sale | null>(null);
 
   // Real timbrado status query
   const { data: timbradoData } = useQuery({
@@ -101,6 +149,12 @@ export default function VentasPage() {
     }
   }, [timbradoData]);
 
+  // Sales are recorded against the cashier's open cash session
+  const { data: sesionCaja, isLoading: sesionCajaLoading } = useQuery<{ sesion: { id: string } } | null>({
+    queryKey: ['/api/caja/sesion-actual'],
+  });
+  const cajaAbierta = !!sesionCaja;
+
   // Current user query for role checking
   const { data: currentUser } = useQuery({
     queryKey: ['/api/auth/me'],
@@ -112,9 +166,25 @@ export default function VentasPage() {
     }
   });
 
+  // Discount maximum of each role
+  const { data: companyConfig } = useQuery<CompanyConfig | null>({
+    queryKey: ['/api/company-config'],
+  });
+
   // Real data queries
   const { data: sales = [], isLoading: salesLoading } = useQuery<Sale[]>({
     queryKey: ['/api/sales'],
+    // Keep SIFEN status up to date while documents are being processed in the background
+    refetchInterval: (query) =>
+      query.state.data?.some(sale => sale.sifenEstado === "pendiente" || sale.sifenEstado === "enviado") ? 30000 : false,
+  });
+
+  const { data: notasCredito = [] } = useQuery<NotaCredito[]>({
+    queryKey: ['/api/notas-credito'],
+  });
+
+  const { data: notasDebito = [] } = useQuery<NotaDebito[]>({
+    queryKey: ['/api/notas-debito'],
   });
 
   const { data: customers = [], isLoading: customersLoading } = useQuery<Customer[]>({
@@ -151,8 +221,18 @@ export default function VentasPage() {
   // Calculate stats
   const today = new Date();
   const startOfDay = new Date(today.getFullYear(), today.getMonth(), today.getDate());
-  const todaySales = sales.filter(sale => new Date(sale.fecha) >= startOfDay);
-  const totalToday = todaySales.reduce((sum, sale) => sum + parseInt(sale.total), 0);
+  const todaySales = sales.filter(sale => !sale.anulada && new Date(sale.fecha) >= startOfDay);
+  // Credit and debit notes issued today adjust today's sales, whatever the date of the invoice
+  const creditedToday = notasCredito
+    .filter(nota => new Date(nota.fecha) >= startOfDay)
+    .reduce((sum, nota) => sum + parseInt(nota.total), 0);
+  const debitedToday = notasDebito
+    .filter(nota => new Date(nota.fecha) >= startOfDay)
+    .reduce((sum, nota) => sum + parseInt(nota.total), 0);
+  const totalToday = todaySales.reduce((sum, sale) => sum + parseInt(sale.total), 0) - creditedToday + debitedToday;
+
+  const notasCreditoBySale = (saleId: string) => notasCredito.filter(nota => nota.saleId === saleId);
+  const notasDebitoBySale = (saleId: string) => notasDebito.filter(nota => nota.saleId === saleId);
 
   // Form setup
   const form = useForm<SaleFormData>({
@@ -171,7 +251,9 @@ export default function VentasPage() {
   const watchItems = form.watch("items");
 
   useEffect(() => {
-    if (watchCustomer) {
+    if (watchCustomer === CONSUMIDOR_FINAL) {
+      form.setValue("regimenTurismo", false);
+    } else if (watchCustomer) {
       const customer = customers.find(c => c.id === watchCustomer);
       if (customer) {
         form.setValue("regimenTurismo", customer.regimenTurismo);
@@ -179,11 +261,28 @@ export default function VentasPage() {
     }
   }, [watchCustomer, customers, form]);
 
-  // Calculate totals
-  const subtotal = selectedItems.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+  // Calculate totals (IVA is liquidated on the amounts after discounts)
   const isLocalCustomer = !form.watch("regimenTurismo");
-  const taxes = isLocalCustomer ? Math.round(subtotal * TAX_RATE) : 0;
-  const total = subtotal + taxes;
+  const lineasVenta = selectedItems.map(item => ({
+    precioUnitario: item.price,
+    cantidad: item.quantity,
+    tasaIva: (isLocalCustomer ? item.tasaIva ?? 10 : 0) as TasaIva,
+    descuento: item.descuento as DescuentoVenta | null | undefined,
+  }));
+  const descuentos = aplicarDescuentos(lineasVenta, descuentoVenta);
+  const liquidacion = liquidarIva(lineasVenta.map((linea, index) => ({
+    ...linea,
+    descuento: descuentos.lineas[index].descuentoLinea + descuentos.lineas[index].descuentoGlobal,
+  })));
+  const { subtotal, impuestos: taxes, total } = liquidacion;
+  const maximoDescuento = descuentoMaximoRol(currentUser?.user?.role || currentUser?.role || "user", companyConfig);
+  const requiereAutorizacion = selectedItems.length > 0 && porcentajeDescuento(descuentos) > maximoDescuento;
+
+  // Admins with a PIN the cashier can name to authorize the discount
+  const { data: autorizadores = [] } = useQuery<{ id: string; nombre: string }[]>({
+    queryKey: ['/api/descuentos/autorizadores'],
+    enabled: requiereAutorizacion,
+  });
 
   // Real API mutations
   const createMutation = useMutation({
@@ -194,7 +293,7 @@ export default function VentasPage() {
       
       // Prepare the sale data for the API
       const saleData = {
-        customerId: data.customerId,
+        customerId: customerIdVenta(data.customerId),
         workOrderId: data.workOrderId || null,
         medioPago: data.medioPago,
         regimenTurismo: data.regimenTurismo,
@@ -203,11 +302,15 @@ export default function VentasPage() {
           id: item.id,
           name: item.name,
           price: item.price,
-          quantity: item.quantity
+          quantity: item.quantity,
+          descuento: item.descuento ?? null
         })),
         subtotal: subtotal.toString(),
         impuestos: taxes.toString(),
         total: total.toString(),
+        descuento: descuentoVenta,
+        autorizadoPor: requiereAutorizacion ? autorizadoPor : undefined,
+        pinAutorizacion: requiereAutorizacion ? pinAutorizacion : undefined,
       };
 
       const response = await apiRequest('POST', '/api/sales', saleData);
@@ -221,6 +324,7 @@ export default function VentasPage() {
       queryClient.invalidateQueries({ queryKey: ['/api/company-config'] }); // Dashboard config
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] }); // Dashboard aggregated data
       queryClient.invalidateQueries({ queryKey: ['/api/customers'] }); // Customer updates
+      queryClient.invalidateQueries({ queryKey: ['/api/caja/sesion-actual'] }); // Cash session totals
       
       // Specific work order invalidation if linked
       const workOrderId = form.getValues('workOrderId');
@@ -231,6 +335,9 @@ export default function VentasPage() {
       
       setIsDialogOpen(false);
       setSelectedItems([]);
+      setDescuentoVenta(null);
+      setAutorizadoPor("");
+      setPinAutorizacion("");
       form.reset();
       toast({
         title: "Venta registrada",
@@ -251,10 +358,14 @@ export default function VentasPage() {
     mutationFn: async ({ id, data }: { id: string; data: SaleFormData }) => {
       const response = await apiRequest('PUT', `/api/sales/${id}`, {
         ...data,
+        customerId: customerIdVenta(data.customerId),
         items: selectedItems,
         subtotal: subtotal.toString(),
         impuestos: taxes.toString(),
         total: total.toString(),
+        descuento: descuentoVenta,
+        autorizadoPor: requiereAutorizacion ? autorizadoPor : undefined,
+        pinAutorizacion: requiereAutorizacion ? pinAutorizacion : undefined,
       });
       return response;
     },
@@ -270,6 +381,9 @@ export default function VentasPage() {
       setIsDialogOpen(false);
       setEditingSale(null);
       setSelectedItems([]);
+      setDescuentoVenta(null);
+      setAutorizadoPor("");
+      setPinAutorizacion("");
       form.reset();
       toast({
         title: "Factura actualizada",
@@ -296,41 +410,108 @@ export default function VentasPage() {
     },
   });
 
-  // Delete sale mutation
-  const deleteMutation = useMutation({
+  // Requeue a sale rejected by SIFEN
+  const sifenRetryMutation = useMutation({
     mutationFn: async (id: string) => {
-      const response = await apiRequest('DELETE', `/api/sales/${id}`);
+      const response = await apiRequest('POST', `/api/sales/${id}/sifen/retry`);
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
+      toast({
+        title: "Documento reenviado",
+        description: "La factura volvió a la cola de envío a SIFEN.",
+      });
+    },
+    onError: (error: any) => {
+      toast({
+        title: "Error",
+        description: error.message || "No se pudo reenviar el documento a SIFEN.",
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Cancel (anular) sale mutation - invoices are kept and a SIFEN event is queued
+  const anularMutation = useMutation({
+    mutationFn: async ({ id, motivo }: { id: string; motivo: string }) => {
+      const response = await apiRequest('POST', `/api/sales/${id}/anular`, { motivo });
       return response;
     },
     onSuccess: () => {
       // Comprehensive cache invalidation for real-time updates
       queryClient.invalidateQueries({ queryKey: ['/api/sales'] });
-      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] }); // For stock updates
+      queryClient.invalidateQueries({ queryKey: ['/api/inventory'] }); // Products back in stock
       queryClient.invalidateQueries({ queryKey: ['/api/work-orders'] }); // Always invalidate for dashboard
-      queryClient.invalidateQueries({ queryKey: ['/api/company-config'] }); // Dashboard config
       queryClient.invalidateQueries({ queryKey: ['/api/dashboard'] }); // Dashboard aggregated data
-      queryClient.invalidateQueries({ queryKey: ['/api/customers'] }); // Customer updates
       
-      setDeleteConfirmSale(null);
+      setAnularSale(null);
+      setAnularMotivo("");
       toast({
-        title: "Factura eliminada",
-        description: "La factura ha sido eliminada correctamente.",
+        title: "Factura anulada",
+        description: "La factura fue anulada y el evento se enviará a SIFEN.",
       });
     },
     onError: (error: any) => {
-      let message = "No se pudo eliminar la factura.";
+      let message = "No se pudo anular la factura.";
       try {
         const errorData = JSON.parse(error.message.split(': ')[1]);
         if (errorData.code === 'FISCAL_COMPLIANCE_VIOLATION') {
           message = `${errorData.details} (${errorData.hoursElapsed}h transcurridas de ${errorData.maxHours}h permitidas)`;
-        } else {
-          message = errorData.details || message;
+        } else if (typeof errorData.details === 'string') {
+          message = errorData.details;
+        }
+      } catch (e) {
+        // Use default message
+      }
+      toast({
+        title: "Error al anular factura",
+        description: message,
+        variant: "destructive",
+      });
+    },
+  });
+
+  // Numbering gaps pending inutilización (admin only)
+  const { data: huecos = [] } = useQuery<HuecoNumeracion[]>({
+    queryKey: ['/api/reports/numeracion-huecos'],
+    enabled: isInutilizarOpen,
+  });
+
+  // Void (inutilizar) unused invoice numbers
+  const inutilizarMutation = useMutation({
+    mutationFn: async (data: {
+      numeroDesde: number;
+      numeroHasta: number;
+      motivo: string;
+      establecimiento?: string;
+      puntoExpedicion?: string;
+      tipoDocumento: number;
+    }) => {
+      const response = await apiRequest('POST', '/api/sifen/inutilizar', data);
+      return response;
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: ['/api/reports/numeracion-huecos'] });
+      setIsInutilizarOpen(false);
+      setInutilizarData(emptyInutilizarData);
+      toast({
+        title: "Numeración inutilizada",
+        description: "El evento de inutilización se enviará a SIFEN.",
+      });
+    },
+    onError: (error: any) => {
+      let message = "No se pudo inutilizar la numeración.";
+      try {
+        const errorData = JSON.parse(error.message.split(': ')[1]);
+        if (typeof errorData.details === 'string') {
+          message = errorData.details;
         }
       } catch (e) {
         // Use default message
       }
       toast({
-        title: "Error al eliminar factura",
+        title: "Error",
         description: message,
         variant: "destructive",
       });
@@ -338,6 +519,15 @@ export default function VentasPage() {
   });
 
   const onSubmit = (data: SaleFormData) => {
+    if (requiereAutorizacion && (!autorizadoPor || !/^\d{4,8}$/.test(pinAutorizacion))) {
+      toast({
+        title: "Autorización requerida",
+        description: `El descuento supera el máximo de ${maximoDescuento}% de su rol; elija el administrador que autoriza e ingrese su PIN`,
+        variant: "destructive",
+      });
+      return;
+    }
+
     const saleData = {
       ...data,
       items: selectedItems,
@@ -350,7 +540,7 @@ export default function VentasPage() {
     }
   };
 
-  const addItem = (type: 'service' | 'combo' | 'product', id: string, name: string, price: number) => {
+  const addItem = (type: 'service' | 'combo' | 'product', id: string, name: string, price: number, tasaIva: TasaIva) => {
     const existingItem = selectedItems.find(item => item.id === id && item.type === type);
     if (existingItem) {
       setSelectedItems(items => 
@@ -361,7 +551,7 @@ export default function VentasPage() {
         )
       );
     } else {
-      setSelectedItems(items => [...items, { type, id, name, price, quantity: 1 }]);
+      setSelectedItems(items => [...items, { type, id, name, price, tasaIva, quantity: 1 }]);
     }
   };
 
@@ -369,6 +559,16 @@ export default function VentasPage() {
     setSelectedItems(items => items.filter(item => !(item.id === id && item.type === type)));
   };
 
+  const updateDescuento = (type: string, id: string, descuento: DescuentoVenta | null) => {
+    setSelectedItems(items =>
+      items.map(item =>
+        item.id === id && item.type === type
+          ? { ...item, descuento }
+          : item
+      )
+    );
+  };
+
   const updateQuantity = (type: string, id: string, quantity: number) => {
     if (quantity <= 0) {
       removeItem(type, id);
@@ -386,6 +586,9 @@ export default function VentasPage() {
   const openDialog = () => {
     setEditingSale(null);
     setSelectedItems([]);
+    setDescuentoVenta(null);
+    setAutorizadoPor("");
+    setPinAutorizacion("");
     form.reset();
     setIsDialogOpen(true);
   };
@@ -393,7 +596,7 @@ export default function VentasPage() {
   const openEditDialog = (sale: Sale) => {
     setEditingSale(sale);
     form.reset({
-      customerId: sale.customerId,
+      customerId: sale.customerId ?? CONSUMIDOR_FINAL,
       workOrderId: sale.workOrderId || "",
       medioPago: sale.medioPago,
       regimenTurismo: sale.regimenTurismo,
@@ -401,40 +604,86 @@ export default function VentasPage() {
     });
     // TODO: Load existing sale items into selectedItems
     setSelectedItems([]);
+    setDescuentoVenta(null);
+    setAutorizadoPor("");
+    setPinAutorizacion("");
     setIsDialogOpen(true);
   };
 
-  const confirmDelete = (sale: Sale) => {
-    setDeleteConfirmSale(sale);
+  const confirmAnular = (sale: Sale) => {
+    setAnularMotivo("");
+    setAnularSale(sale);
   };
 
-  const executeDelete = () => {
-    if (deleteConfirmSale) {
-      deleteMutation.mutate(deleteConfirmSale.id);
+  const executeAnular = () => {
+    if (anularSale && anularMotivo.trim().length >= 5) {
+      anularMutation.mutate({ id: anularSale.id, motivo: anularMotivo.trim() });
     }
   };
 
-  // Check if user can edit/delete sales (admin only + 24-hour window)
-  const canModifySale = (sale: Sale): { canEdit: boolean; canDelete: boolean; reason?: string } => {
+  const executeInutilizar = () => {
+    inutilizarMutation.mutate({
+      numeroDesde: parseInt(inutilizarData.numeroDesde),
+      numeroHasta: parseInt(inutilizarData.numeroHasta),
+      motivo: inutilizarData.motivo.trim(),
+      establecimiento: inutilizarData.establecimiento || undefined,
+      puntoExpedicion: inutilizarData.puntoExpedicion || undefined,
+      tipoDocumento: inutilizarData.tipoDocumento,
+    });
+  };
+
+  const selectHueco = (hueco: HuecoNumeracion) => {
+    setInutilizarData({
+      ...inutilizarData,
+      numeroDesde: hueco.desde.toString(),
+      numeroHasta: hueco.hasta.toString(),
+      establecimiento: hueco.establecimiento,
+      puntoExpedicion: hueco.puntoExpedicion,
+      tipoDocumento: hueco.tipoDocumento,
+    });
+  };
+
+  // Check if user can edit (24-hour window) or cancel (48 hours once approved by SIFEN) sales - admin only
+  const canModifySale = (sale: Sale): { canEdit: boolean; canAnular: boolean; reason?: string } => {
     // Fix role check - handle both nested and direct user object structures
     const userRole = currentUser?.user?.role || currentUser?.role;
     if (!currentUser || userRole !== 'admin') {
-      return { canEdit: false, canDelete: false, reason: 'Solo administradores pueden modificar facturas' };
+      return { canEdit: false, canAnular: false, reason: 'Solo administradores pueden modificar facturas' };
+    }
+
+    if (sale.anulada) {
+      return { canEdit: false, canAnular: false };
+    }
+
+    if (sale.sifenEstado === 'enviado') {
+      return { canEdit: false, canAnular: false, reason: 'Documento en proceso en SIFEN' };
+    }
+
+    if (notasCreditoBySale(sale.id).length > 0 || notasDebitoBySale(sale.id).length > 0) {
+      return { canEdit: false, canAnular: false, reason: 'Factura con notas de crédito o débito emitidas' };
     }
 
     const now = new Date();
-    const saleDate = new Date(sale.createdAt);
-    const hoursDifference = (now.getTime() - saleDate.getTime()) / (1000 * 60 * 60);
-    
+    const hoursDifference = (now.getTime() - new Date(sale.createdAt).getTime()) / (1000 * 60 * 60);
+    const hoursSinceIssue = (now.getTime() - new Date(sale.fecha).getTime()) / (1000 * 60 * 60);
+
+    if (sale.sifenEstado === 'aprobado' && hoursSinceIssue > 48) {
+      return { 
+        canEdit: false, 
+        canAnular: false, 
+        reason: `Factura aprobada hace más de 48h: corresponde emitir nota de crédito` 
+      };
+    }
+
     if (hoursDifference > 24) {
       return { 
         canEdit: false, 
-        canDelete: false, 
-        reason: `Factura creada hace ${Math.round(hoursDifference)}h (máximo 24h para modificaciones)` 
+        canAnular: true, 
+        reason: `Factura creada hace ${Math.round(hoursDifference)}h (máximo 24h para modificaciones): use nota de crédito o débito` 
       };
     }
 
-    return { canEdit: true, canDelete: true };
+    return { canEdit: true, canAnular: true };
   };
 
   // Using robust formatDate from utils (handles invalid dates)
@@ -465,233 +714,298 @@ export default function VentasPage() {
             </p>
           </div>
         </div>
-        <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-          <DialogTrigger asChild>
-            <Button 
-              onClick={openDialog} 
-              disabled={!timbradoStatus.isValid}
-              data-testid="button-new-sale"
+        <div className="flex gap-2">
+          {(currentUser?.user?.role || currentUser?.role) === 'admin' && (
+            <Button
+              variant="outline"
+              onClick={() => setIsInutilizarOpen(true)}
+              data-testid="button-inutilizar"
             >
-              <Plus className="h-4 w-4 mr-2" />
-              Nueva Venta
+              <Ban className="h-4 w-4 mr-2" />
+              Inutilizar Numeración
             </Button>
-          </DialogTrigger>
-          <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
-            <DialogHeader>
-              <DialogTitle>Nueva Venta</DialogTitle>
-              <DialogDescription>
-                Registre una nueva venta y genere la factura correspondiente
-              </DialogDescription>
-            </DialogHeader>
-            <Form {...form}>
-              <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
-                <div className="grid grid-cols-2 gap-4">
-                  <FormField
-                    control={form.control}
-                    name="customerId"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Cliente *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-customer">
-                              <SelectValue placeholder="Seleccione un cliente" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {customers.length === 0 ? (
-                              <SelectItem value="" disabled>
-                                No hay clientes registrados
+          )}
+          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+            <DialogTrigger asChild>
+              <Button 
+                onClick={openDialog} 
+                disabled={!timbradoStatus.isValid || !cajaAbierta}
+                data-testid="button-new-sale"
+              >
+                <Plus className="h-4 w-4 mr-2" />
+                Nueva Venta
+              </Button>
+            </DialogTrigger>
+            <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+              <DialogHeader>
+                <DialogTitle>Nueva Venta</DialogTitle>
+                <DialogDescription>
+                  Registre una nueva venta y genere la factura correspondiente
+                </DialogDescription>
+              </DialogHeader>
+              <Form {...form}>
+                <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+                  <div className="grid grid-cols-2 gap-4">
+                    <FormField
+                      control={form.control}
+                      name="customerId"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Cliente *</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value || undefined}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-customer">
+                                <SelectValue placeholder="Seleccione un cliente" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              <SelectItem value={CONSUMIDOR_FINAL} data-testid="option-consumidor-final">
+                                Consumidor final (sin nombre)
                               </SelectItem>
-                            ) : (
-                              customers.map((customer) => (
+                              {customers.map((customer) => (
                                 <SelectItem key={customer.id} value={customer.id}>
                                   {customer.nombre} ({customer.docNumero})
                                   {customer.regimenTurismo && " - Turista"}
                                 </SelectItem>
-                              ))
-                            )}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-
-                  <FormField
-                    control={form.control}
-                    name="medioPago"
-                    render={({ field }) => (
-                      <FormItem>
-                        <FormLabel>Medio de Pago *</FormLabel>
-                        <Select onValueChange={field.onChange} defaultValue={field.value}>
-                          <FormControl>
-                            <SelectTrigger data-testid="select-payment-method">
-                              <SelectValue placeholder="Seleccione el medio de pago" />
-                            </SelectTrigger>
-                          </FormControl>
-                          <SelectContent>
-                            {paymentMethods.map((method) => (
-                              <SelectItem key={method.value} value={method.value}>
-                                {method.label}
-                              </SelectItem>
-                            ))}
-                          </SelectContent>
-                        </Select>
-                        <FormMessage />
-                      </FormItem>
-                    )}
-                  />
-                </div>
-
-                {/* Services Selection */}
-                <div className="space-y-4">
-                  <h3 className="text-lg font-semibold">Servicios</h3>
-                  {services.length === 0 ? (
-                    <div className="text-center p-8 text-muted-foreground">
-                      <p>No hay servicios disponibles</p>
-                      <p className="text-sm">Agregue servicios desde el módulo de servicios</p>
-                    </div>
-                  ) : (
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {services.map((service) => (
-                        <Button
-                          key={service.id}
-                          type="button"
-                          variant="outline"
-                          onClick={() => addItem('service', service.id, service.nombre, parseInt(service.precio))}
-                          className="h-auto p-3 flex flex-col items-start"
-                          data-testid={`button-add-service-${service.id}`}
-                        >
-                          <span className="font-medium">{service.nombre}</span>
-                          <span className="text-sm text-muted-foreground">{formatPrice(service.precio)}</span>
-                        </Button>
-                      ))}
-                    </div>
-                  )}
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
 
-                  <h3 className="text-lg font-semibold">Combos</h3>
-                  {combos.length === 0 ? (
-                    <div className="text-center p-8 text-muted-foreground">
-                      <p>No hay combos disponibles</p>
-                      <p className="text-sm">Agregue combos desde el módulo de servicios</p>
-                    </div>
-                  ) : (
-                    <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
-                      {combos.map((combo) => (
-                        <Button
-                          key={combo.id}
-                          type="button"
-                          variant="outline"
-                          onClick={() => addItem('combo', combo.id, combo.nombre, parseInt(combo.precioTotal))}
-                          className="h-auto p-3 flex flex-col items-start"
-                          data-testid={`button-add-combo-${combo.id}`}
-                        >
-                          <span className="font-medium">{combo.nombre}</span>
-                          <span className="text-sm text-muted-foreground">{formatPrice(combo.precioTotal)}</span>
-                        </Button>
-                      ))}
-                    </div>
-                  )}
-                </div>
+                    <FormField
+                      control={form.control}
+                      name="medioPago"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Medio de Pago *</FormLabel>
+                          <Select onValueChange={field.onChange} defaultValue={field.value}>
+                            <FormControl>
+                              <SelectTrigger data-testid="select-payment-method">
+                                <SelectValue placeholder="Seleccione el medio de pago" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {paymentMethods.map((method) => (
+                                <SelectItem key={method.value} value={method.value}>
+                                  {method.label}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
 
-                {/* Selected Items */}
-                {selectedItems.length > 0 && (
+                  {/* Services Selection */}
                   <div className="space-y-4">
-                    <h3 className="text-lg font-semibold">Items Seleccionados</h3>
-                    <div className="space-y-2">
-                      {selectedItems.map((item, index) => (
-                        <div key={`${item.type}-${item.id}`} className="flex items-center justify-between p-3 border rounded" data-testid={`item-${item.type}-${item.id}`}>
-                          <div className="flex-1">
-                            <span className="font-medium">{item.name}</span>
-                            <span className="text-sm text-muted-foreground ml-2">
-                              ({item.type === 'service' ? 'Servicio' : item.type === 'combo' ? 'Combo' : 'Producto'})
-                            </span>
+                    <h3 className="text-lg font-semibold">Servicios</h3>
+                    {services.length === 0 ? (
+                      <div className="text-center p-8 text-muted-foreground">
+                        <p>No hay servicios disponibles</p>
+                        <p className="text-sm">Agregue servicios desde el módulo de servicios</p>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {services.map((service) => (
+                          <Button
+                            key={service.id}
+                            type="button"
+                            variant="outline"
+                            onClick={() => addItem('service', service.id, service.nombre, parseInt(service.precio), service.tasaIva)}
+                            className="h-auto p-3 flex flex-col items-start"
+                            data-testid={`button-add-service-${service.id}`}
+                          >
+                            <span className="font-medium">{service.nombre}</span>
+                            <span className="text-sm text-muted-foreground">{formatPrice(service.precio)}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+
+                    <h3 className="text-lg font-semibold">Combos</h3>
+                    {combos.length === 0 ? (
+                      <div className="text-center p-8 text-muted-foreground">
+                        <p>No hay combos disponibles</p>
+                        <p className="text-sm">Agregue combos desde el módulo de servicios</p>
+                      </div>
+                    ) : (
+                      <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+                        {combos.map((combo) => (
+                          <Button
+                            key={combo.id}
+                            type="button"
+                            variant="outline"
+                            onClick={() => addItem('combo', combo.id, combo.nombre, parseInt(combo.precioTotal), combo.tasaIva)}
+                            className="h-auto p-3 flex flex-col items-start"
+                            data-testid={`button-add-combo-${combo.id}`}
+                          >
+                            <span className="font-medium">{combo.nombre}</span>
+                            <span className="text-sm text-muted-foreground">{formatPrice(combo.precioTotal)}</span>
+                          </Button>
+                        ))}
+                      </div>
+                    )}
+                  </div>
+
+                  {/* Selected Items */}
+                  {selectedItems.length > 0 && (
+                    <div className="space-y-4">
+                      <h3 className="text-lg font-semibold">Items Seleccionados</h3>
+                      <div className="space-y-2">
+                        {selectedItems.map((item, index) => (
+                          <div key={`${item.type}-${item.id}`} className="flex items-center justify-between p-3 border rounded" data-testid={`item-${item.type}-${item.id}`}>
+                            <div className="flex-1">
+                              <span className="font-medium">{item.name}</span>
+                              <span className="text-sm text-muted-foreground ml-2">
+                                ({item.type === 'service' ? 'Servicio' : item.type === 'combo' ? 'Combo' : 'Producto'})
+                              </span>
+                            </div>
+                            <div className="flex items-center gap-2">
+                              <Input
+                                type="number"
+                                min="1"
+                                value={item.quantity}
+                                onChange={(e) => updateQuantity(item.type, item.id, parseInt(e.target.value) || 0)}
+                                className="w-16"
+                                data-testid={`input-quantity-${item.type}-${item.id}`}
+                              />
+                              <span className="font-medium min-w-24 text-right">
+                                {formatPrice(descuentos.lineas[index].totalBruto)}
+                                {descuentos.lineas[index].descuentoLinea > 0 && (
+                                  <span className="block text-xs text-green-600" data-testid={`text-discount-${item.type}-${item.id}`}>
+                                    -{formatPrice(descuentos.lineas[index].descuentoLinea)}
+                                  </span>
+                                )}
+                              </span>
+                              <DescuentoPopover
+                                descuento={item.descuento}
+                                onChange={(descuento) => updateDescuento(item.type, item.id, descuento)}
+                                titulo={`Descuento en ${item.name}`}
+                                testId={`${item.type}-${item.id}`}
+                              />
+                              <Button
+                                type="button"
+                                variant="outline"
+                                size="sm"
+                                onClick={() => removeItem(item.type, item.id)}
+                                data-testid={`button-remove-${item.type}-${item.id}`}
+                              >
+                                <Trash2 className="h-3 w-3" />
+                              </Button>
+                            </div>
                           </div>
-                          <div className="flex items-center gap-2">
+                        ))}
+                      </div>
+
+                      {/* Totals */}
+                      <div className="p-4 bg-muted rounded space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="flex items-center gap-2">
+                            Descuentos:
+                            <DescuentoPopover
+                              descuento={descuentoVenta}
+                              onChange={setDescuentoVenta}
+                              titulo="Descuento sobre el total"
+                              testId="venta"
+                            />
+                          </span>
+                          <span className="font-medium text-green-600" data-testid="text-discount">
+                            {descuentos.descuentoTotal > 0 ? `-${formatPrice(descuentos.descuentoTotal)}` : formatPrice(0)}
+                          </span>
+                        </div>
+                        {requiereAutorizacion && (
+                          <div className="space-y-1">
+                            <p className="text-sm text-muted-foreground">
+                              El descuento supera el máximo de {maximoDescuento}% de su rol; elija el administrador que autoriza e ingrese su PIN.
+                            </p>
+                            <Select value={autorizadoPor} onValueChange={setAutorizadoPor}>
+                              <SelectTrigger data-testid="select-autorizado-por">
+                                <SelectValue placeholder="Administrador que autoriza" />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {autorizadores.map(admin => (
+                                  <SelectItem key={admin.id} value={admin.id}>{admin.nombre}</SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
                             <Input
-                              type="number"
-                              min="1"
-                              value={item.quantity}
-                              onChange={(e) => updateQuantity(item.type, item.id, parseInt(e.target.value) || 0)}
-                              className="w-16"
-                              data-testid={`input-quantity-${item.type}-${item.id}`}
+                              type="password"
+                              inputMode="numeric"
+                              placeholder="PIN de autorización"
+                              value={pinAutorizacion}
+                              onChange={(e) => setPinAutorizacion(e.target.value.replace(/\D/g, '').slice(0, 8))}
+                              data-testid="input-pin-autorizacion"
                             />
-                            <span className="font-medium min-w-24 text-right">
-                              {formatPrice(item.price * item.quantity)}
-                            </span>
-                            <Button
-                              type="button"
-                              variant="outline"
-                              size="sm"
-                              onClick={() => removeItem(item.type, item.id)}
-                              data-testid={`button-remove-${item.type}-${item.id}`}
-                            >
-                              <Trash2 className="h-3 w-3" />
-                            </Button>
                           </div>
-                        </div>
-                      ))}
-                    </div>
-
-                    {/* Totals */}
-                    <div className="p-4 bg-muted rounded space-y-2">
-                      <div className="flex justify-between">
-                        <span>Subtotal:</span>
-                        <span className="font-medium" data-testid="text-subtotal">{formatPrice(subtotal)}</span>
-                      </div>
-                      {isLocalCustomer && (
+                        )}
                         <div className="flex justify-between">
-                          <span>IVA (10%):</span>
-                          <span className="font-medium" data-testid="text-taxes">{formatPrice(taxes)}</span>
+                          <span>Subtotal:</span>
+                          <span className="font-medium" data-testid="text-subtotal">{formatPrice(subtotal)}</span>
                         </div>
-                      )}
-                      {!isLocalCustomer && (
-                        <div className="flex justify-between text-green-600">
-                          <span>Exento IVA (Turismo):</span>
-                          <span className="font-medium">Gs. 0</span>
+                        {isLocalCustomer && (
+                          <div className="flex justify-between">
+                            <span>IVA (10%):</span>
+                            <span className="font-medium" data-testid="text-taxes">{formatPrice(liquidacion.iva10)}</span>
+                          </div>
+                        )}
+                        {isLocalCustomer && liquidacion.iva5 > 0 && (
+                          <div className="flex justify-between">
+                            <span>IVA (5%):</span>
+                            <span className="font-medium" data-testid="text-taxes-5">{formatPrice(liquidacion.iva5)}</span>
+                          </div>
+                        )}
+                        {!isLocalCustomer && (
+                          <div className="flex justify-between text-green-600">
+                            <span>Exento IVA (Turismo):</span>
+                            <span className="font-medium">Gs. 0</span>
+                          </div>
+                        )}
+                        <Separator />
+                        <div className="flex justify-between text-lg font-bold">
+                          <span>Total:</span>
+                          <span data-testid="text-total">{formatPrice(total)}</span>
                         </div>
-                      )}
-                      <Separator />
-                      <div className="flex justify-between text-lg font-bold">
-                        <span>Total:</span>
-                        <span data-testid="text-total">{formatPrice(total)}</span>
                       </div>
                     </div>
-                  </div>
-                )}
+                  )}
 
-                <div className="flex justify-end gap-2 pt-4">
-                  <Button 
-                    type="button" 
-                    variant="outline" 
-                    onClick={() => setIsDialogOpen(false)}
-                    data-testid="button-cancel-sale"
-                  >
-                    Cancelar
-                  </Button>
-                  <Button 
-                    type="submit" 
-                    disabled={createMutation.isPending || selectedItems.length === 0 || !form.watch("customerId")}
-                    data-testid="button-process-sale"
-                  >
-                    {createMutation.isPending ? (
-                      <>
-                        <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
-                        Procesando...
-                      </>
-                    ) : (
-                      <>
-                        <Calculator className="h-4 w-4 mr-2" />
-                        Procesar Venta - {formatPrice(total)}
-                      </>
-                    )}
-                  </Button>
-                </div>
-              </form>
-            </Form>
-          </DialogContent>
-        </Dialog>
+                  <div className="flex justify-end gap-2 pt-4">
+                    <Button 
+                      type="button" 
+                      variant="outline" 
+                      onClick={() => setIsDialogOpen(false)}
+                      data-testid="button-cancel-sale"
+                    >
+                      Cancelar
+                    </Button>
+                    <Button 
+                      type="submit" 
+                      disabled={createMutation.isPending || selectedItems.length === 0 || !form.watch("customerId")}
+                      data-testid="button-process-sale"
+                    >
+                      {createMutation.isPending ? (
+                        <>
+                          <div className="animate-spin h-4 w-4 border-2 border-white border-t-transparent rounded-full mr-2"></div>
+                          Procesando...
+                        </>
+                      ) : (
+                        <>
+                          <Calculator className="h-4 w-4 mr-2" />
+                          Procesar Venta - {formatPrice(total)}
+                        </>
+                      )}
+                    </Button>
+                  </div>
+                </form>
+              </Form>
+            </DialogContent>
+          </Dialog>
+        </div>
       </div>
 
       {/* Timbrado Status Alert */}
@@ -704,6 +1018,16 @@ export default function VentasPage() {
         </Alert>
       )}
 
+      {/* Cash Session Alert */}
+      {!sesionCajaLoading && !cajaAbierta && (
+        <Alert className="border-l-4 border-l-amber-500 bg-amber-50 dark:bg-amber-950/20">
+          <AlertTriangle className="h-4 w-4 text-amber-600" />
+          <AlertDescription className="text-amber-800 dark:text-amber-200" data-testid="text-caja-cerrada">
+            No hay una caja abierta. Abra la caja en el menú Caja para registrar ventas.
+          </AlertDescription>
+        </Alert>
+      )}
+
       {/* Stats Cards */}
       <div className="grid grid-cols-1 md:grid-cols-4 gap-4">
         <Card>
@@ -809,6 +1133,14 @@ export default function VentasPage() {
         {filteredSales.map((sale) => {
           const customer = customers.find(c => c.id === sale.customerId);
           const modifyPermissions = canModifySale(sale);
+          const saleNotasCredito = notasCreditoBySale(sale.id);
+          const saleNotasDebito = notasDebitoBySale(sale.id);
+          const acreditado = saleNotasCredito.reduce((sum, nota) => sum + parseInt(nota.total), 0);
+          const debitado = saleNotasDebito.reduce((sum, nota) => sum + parseInt(nota.total), 0);
+          const canIssueNotes = (currentUser?.user?.role || currentUser?.role) === 'admin' &&
+            !sale.anulada &&
+            sale.sifenEstado !== "rechazado";
+          const canCredit = canIssueNotes && acreditado < parseInt(sale.total);
           
           return (
             <Card key={sale.id} className="hover-elevate" data-testid={`card-sale-${sale.id}`}>
@@ -821,6 +1153,11 @@ export default function VentasPage() {
                     </span>
                   </div>
                   <div className="flex gap-1">
+                    {sale.anulada && (
+                      <Badge variant="destructive" data-testid={`badge-anulada-${sale.id}`}>
+                        Anulada
+                      </Badge>
+                    )}
                     {sale.regimenTurismo && (
                       <Badge variant="secondary" className="bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200">
                         Turismo
@@ -831,13 +1168,24 @@ export default function VentasPage() {
                     </Badge>
                   </div>
                 </div>
+                {sale.cdc && (
+                  <div className="flex">
+                    <Badge
+                      variant="secondary"
+                      className={sifenStatuses[sale.sifenEstado || "pendiente"].className}
+                      data-testid={`badge-sifen-status-${sale.id}`}
+                    >
+                      {sifenStatuses[sale.sifenEstado || "pendiente"].label}
+                    </Badge>
+                  </div>
+                )}
               </CardHeader>
               <CardContent className="space-y-3">
                 <div className="space-y-2">
                   <div className="flex items-center gap-2">
                     <User className="h-4 w-4 text-muted-foreground" />
                     <span className="text-sm font-medium" data-testid={`text-customer-${sale.id}`}>
-                      {customer?.nombre}
+                      {sale.customerId ? customer?.nombre : "Consumidor final"}
                     </span>
                   </div>
                   <div className="flex items-center gap-2">
@@ -855,6 +1203,12 @@ export default function VentasPage() {
                     <span className="text-muted-foreground">Subtotal:</span>
                     <span data-testid={`text-subtotal-${sale.id}`}>{formatPrice(sale.subtotal)}</span>
                   </div>
+                  {parseFloat(sale.descuentoTotal ?? "0") > 0 && (
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">Descuento:</span>
+                      <span className="text-green-600" data-testid={`text-discount-${sale.id}`}>-{formatPrice(sale.descuentoTotal)}</span>
+                    </div>
+                  )}
                   {parseInt(sale.impuestos) > 0 && (
                     <div className="flex justify-between text-sm">
                       <span className="text-muted-foreground">IVA:</span>
@@ -867,8 +1221,104 @@ export default function VentasPage() {
                       {formatPrice(sale.total)}
                     </span>
                   </div>
+                  {saleNotasCredito.length > 0 && (
+                    <div className="flex justify-between text-sm text-red-600">
+                      <span>Notas de crédito:</span>
+                      <span data-testid={`text-credited-${sale.id}`}>-{formatPrice(acreditado)}</span>
+                    </div>
+                  )}
+                  {saleNotasDebito.length > 0 && (
+                    <div className="flex justify-between text-sm text-orange-600">
+                      <span>Notas de débito:</span>
+                      <span data-testid={`text-debited-${sale.id}`}>+{formatPrice(debitado)}</span>
+                    </div>
+                  )}
+                  {(saleNotasCredito.length > 0 || saleNotasDebito.length > 0) && (
+                    <div className="flex justify-between text-sm font-semibold">
+                      <span>Neto:</span>
+                      <span data-testid={`text-net-${sale.id}`}>{formatPrice(parseInt(sale.total) - acreditado + debitado)}</span>
+                    </div>
+                  )}
                 </div>
 
+                {saleNotasCredito.length > 0 && (
+                  <div className="space-y-1">
+                    {saleNotasCredito.map(nota => (
+                      <div key={nota.id} className="flex items-center justify-between text-xs" data-testid={`row-credit-note-${nota.id}`}>
+                        <span className="flex items-center gap-1">
+                          <FileMinus className="h-3 w-3 text-muted-foreground" />
+                          NC {nota.numero}
+                          {nota.sifenEstado && nota.sifenEstado !== "aprobado" && (
+                            <span className="text-muted-foreground">({sifenStatuses[nota.sifenEstado].label})</span>
+                          )}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          {formatPrice(nota.total)}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => setPrintNotaCreditoId(nota.id)}
+                            data-testid={`button-print-credit-note-${nota.id}`}
+                            title="Imprimir nota de crédito"
+                          >
+                            <Printer className="h-3 w-3" />
+                          </Button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {saleNotasDebito.length > 0 && (
+                  <div className="space-y-1">
+                    {saleNotasDebito.map(nota => (
+                      <div key={nota.id} className="flex items-center justify-between text-xs" data-testid={`row-debit-note-${nota.id}`}>
+                        <span className="flex items-center gap-1">
+                          <FilePlus className="h-3 w-3 text-muted-foreground" />
+                          ND {nota.numero}
+                          {nota.sifenEstado && nota.sifenEstado !== "aprobado" && (
+                            <span className="text-muted-foreground">({sifenStatuses[nota.sifenEstado].label})</span>
+                          )}
+                        </span>
+                        <span className="flex items-center gap-1">
+                          {formatPrice(nota.total)}
+                          <Button
+                            size="icon"
+                            variant="ghost"
+                            className="h-6 w-6"
+                            onClick={() => setPrintNotaDebitoId(nota.id)}
+                            data-testid={`button-print-debit-note-${nota.id}`}
+                            title="Imprimir nota de débito"
+                          >
+                            <Printer className="h-3 w-3" />
+                          </Button>
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {sale.anulada && (
+                  <div className="text-xs text-muted-foreground" data-testid={`text-motivo-anulacion-${sale.id}`}>
+                    <strong>Motivo de anulación:</strong> {sale.motivoAnulacion}
+                  </div>
+                )}
+
+                {sale.sifenEstado === "rechazado" && !sale.anulada && (
+                  <Alert variant="destructive" data-testid={`alert-sifen-rejected-${sale.id}`}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      <div className="font-medium">Rechazado por SIFEN</div>
+                      {sale.sifenMensajes && (
+                        <div className="text-xs whitespace-pre-line mt-1" data-testid={`text-sifen-messages-${sale.id}`}>
+                          {sale.sifenMensajes}
+                        </div>
+                      )}
+                    </AlertDescription>
+                  </Alert>
+                )}
+
                 <div className="flex gap-1 mt-3">
                   <Button 
                     size="sm" 
@@ -883,11 +1333,35 @@ export default function VentasPage() {
                   <Button 
                     size="sm" 
                     variant="outline"
-                    onClick={() => {/* Download invoice */}}
+                    onClick={() => setPrintSale(sale)}
+                    data-testid={`button-print-${sale.id}`}
+                    title="Imprimir KuDE"
+                  >
+                    <Printer className="h-3 w-3" />
+                  </Button>
+                  <Button 
+                    size="sm" 
+                    variant="outline"
+                    onClick={() => window.open(`/api/sales/${sale.id}/xml`, '_blank')}
                     data-testid={`button-download-${sale.id}`}
+                    title="Descargar documento electrónico (XML)"
                   >
                     <Download className="h-3 w-3" />
                   </Button>
+
+                  {/* Requeue button - only for documents rejected by SIFEN */}
+                  {sale.sifenEstado === "rechazado" && !sale.anulada && (currentUser?.user?.role || currentUser?.role) === 'admin' && (
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      onClick={() => sifenRetryMutation.mutate(sale.id)}
+                      disabled={sifenRetryMutation.isPending}
+                      data-testid={`button-sifen-retry-${sale.id}`}
+                      title="Reenviar a SIFEN"
+                    >
+                      <RefreshCw className="h-3 w-3" />
+                    </Button>
+                  )}
                   
                   {/* Edit button - only show for admin users within 24-hour window */}
                   {modifyPermissions.canEdit && (
@@ -903,23 +1377,49 @@ export default function VentasPage() {
                     </Button>
                   )}
                   
-                  {/* Delete button - only show for admin users within 24-hour window */}
-                  {modifyPermissions.canDelete && (
+                  {/* Cancel button - only show for admin users while SIFEN allows it */}
+                  {modifyPermissions.canAnular && (
                     <Button 
                       size="sm" 
                       variant="outline"
-                      onClick={() => confirmDelete(sale)}
-                      disabled={deleteMutation.isPending}
-                      data-testid={`button-delete-${sale.id}`}
-                      title="Eliminar factura (solo administradores - máximo 24h)"
+                      onClick={() => confirmAnular(sale)}
+                      disabled={anularMutation.isPending}
+                      data-testid={`button-anular-${sale.id}`}
+                      title="Anular factura (solo administradores)"
                       className="hover:bg-red-50 hover:border-red-200 hover:text-red-700 dark:hover:bg-red-950"
                     >
-                      <Trash2 className="h-3 w-3" />
+                      <Ban className="h-3 w-3" />
+                    </Button>
+                  )}
+                  
+                  {/* Credit note button - returns and adjustments once the invoice can no longer be edited */}
+                  {canCredit && (
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      onClick={() => setCreditNoteSale(sale)}
+                      data-testid={`button-credit-note-${sale.id}`}
+                      title="Emitir nota de crédito (solo administradores)"
+                    >
+                      <FileMinus className="h-3 w-3" />
+                    </Button>
+                  )}
+                  
+                  {/* Debit note button - charges added after invoicing */}
+                  {canIssueNotes && (
+                    <Button 
+                      size="sm" 
+                      variant="outline"
+                      onClick={() => setDebitNoteSale(sale)}
+                      data-testid={`button-debit-note-${sale.id}`}
+                      title="Emitir nota de débito (solo administradores)"
+                    >
+                      <FilePlus className="h-3 w-3" />
                     </Button>
                   )}
                   
                   {/* Show reason tooltip when buttons are hidden */}
-                  {(!modifyPermissions.canEdit || !modifyPermissions.canDelete) && modifyPermissions.reason && currentUser?.user?.role === 'admin' && (
+                  {(!modifyPermissions.canEdit || !modifyPermissions.canAnular) && modifyPermissions.reason && currentUser?.user?.role === 'admin' && (
                     <div className="text-xs text-muted-foreground mt-1" title={modifyPermissions.reason}>
                       <AlertTriangle className="h-3 w-3 inline mr-1" />
                       {modifyPermissions.reason}
@@ -953,58 +1453,208 @@ export default function VentasPage() {
         </Card>
       )}
 
-      {/* Delete Confirmation Dialog */}
-      <AlertDialog open={!!deleteConfirmSale} onOpenChange={() => setDeleteConfirmSale(null)}>
+      <PrintInvoice
+        isOpen={!!printSale}
+        onClose={() => setPrintSale(null)}
+        sale={printSale}
+      />
+
+      {/* Credit Note Dialog */}
+      <CreditNoteDialog
+        sale={creditNoteSale}
+        onClose={() => setCreditNoteSale(null)}
+        onIssued={(notaCredito) => setPrintNotaCreditoId(notaCredito.id)}
+      />
+
+      <PrintCreditNote
+        isOpen={!!printNotaCreditoId}
+        onClose={() => setPrintNotaCreditoId(null)}
+        notaCreditoId={printNotaCreditoId}
+      />
+
+      {/* Debit Note Dialog */}
+      <DebitNoteDialog
+        sale={debitNoteSale}
+        onClose={() => setDebitNoteSale(null)}
+        onIssued={(notaDebito) => setPrintNotaDebitoId(notaDebito.id)}
+      />
+
+      <PrintDebitNote
+        isOpen={!!printNotaDebitoId}
+        onClose={() => setPrintNotaDebitoId(null)}
+        notaDebitoId={printNotaDebitoId}
+      />
+
+      {/* Cancel (Anular) Confirmation Dialog */}
+      <AlertDialog open={!!anularSale} onOpenChange={() => setAnularSale(null)}>
         <AlertDialogContent>
           <AlertDialogHeader>
             <AlertDialogTitle className="flex items-center gap-2">
               <AlertTriangle className="h-5 w-5 text-red-500" />
-              Confirmar Eliminación
+              Confirmar Anulación
             </AlertDialogTitle>
             <AlertDialogDescription className="space-y-2">
               <p>
-                ¿Está seguro que desea eliminar la factura <strong>{deleteConfirmSale?.numeroFactura}</strong>?
+                ¿Está seguro que desea anular la factura <strong>{anularSale?.numeroFactura}</strong>?
               </p>
-              {deleteConfirmSale && (
+              {anularSale && (
                 <div className="bg-red-50 dark:bg-red-950/20 p-3 rounded-lg text-sm">
-                  <p><strong>Cliente:</strong> {customers.find(c => c.id === deleteConfirmSale.customerId)?.nombre || 'Cliente desconocido'}</p>
-                  <p><strong>Total:</strong> {formatPrice(deleteConfirmSale.total)}</p>
-                  <p><strong>Fecha:</strong> {formatDateTimeRobust(typeof deleteConfirmSale.fecha === 'string' ? deleteConfirmSale.fecha : deleteConfirmSale.fecha?.toISOString())}</p>
+                  <p><strong>Cliente:</strong> {anularSale.customerId ? customers.find(c => c.id === anularSale.customerId)?.nombre || 'Cliente desconocido' : 'Consumidor final'}</p>
+                  <p><strong>Total:</strong> {formatPrice(anularSale.total)}</p>
+                  <p><strong>Fecha:</strong> {formatDateTimeRobust(typeof anularSale.fecha === 'string' ? anularSale.fecha : anularSale.fecha?.toISOString())}</p>
                 </div>
               )}
-              <p className="text-red-600 dark:text-red-400 font-medium">
-                ⚠️ Esta acción no se puede deshacer y debe realizarse por motivos de corrección de errores únicamente.
-              </p>
               <p className="text-sm text-muted-foreground">
-                Solo se permite eliminar facturas dentro de las primeras 24 horas para cumplir con la normativa fiscal.
+                La factura se conserva en el registro como anulada. Si fue aprobada por SIFEN se enviará un evento de cancelación; de lo contrario se inutilizará su número.
               </p>
             </AlertDialogDescription>
           </AlertDialogHeader>
+          <div className="space-y-2">
+            <Label htmlFor="motivo-anulacion">Motivo de anulación *</Label>
+            <Textarea
+              id="motivo-anulacion"
+              value={anularMotivo}
+              onChange={(e) => setAnularMotivo(e.target.value)}
+              placeholder="Ej: Error en los datos del cliente"
+              maxLength={500}
+              data-testid="input-motivo-anulacion"
+            />
+          </div>
           <AlertDialogFooter>
-            <AlertDialogCancel disabled={deleteMutation.isPending}>
+            <AlertDialogCancel disabled={anularMutation.isPending}>
               Cancelar
             </AlertDialogCancel>
             <AlertDialogAction
-              onClick={executeDelete}
-              disabled={deleteMutation.isPending}
+              onClick={(e) => {
+                e.preventDefault();
+                executeAnular();
+              }}
+              disabled={anularMutation.isPending || anularMotivo.trim().length < 5}
               className="bg-red-600 hover:bg-red-700 focus:ring-red-600"
-              data-testid="button-confirm-delete"
+              data-testid="button-confirm-anular"
             >
-              {deleteMutation.isPending ? (
+              {anularMutation.isPending ? (
                 <>
                   <div className="animate-spin rounded-full h-4 w-4 border-b-2 border-white mr-2"></div>
-                  Eliminando...
+                  Anulando...
                 </>
               ) : (
                 <>
-                  <Trash2 className="h-4 w-4 mr-2" />
-                  Eliminar Factura
+                  <Ban className="h-4 w-4 mr-2" />
+                  Anular Factura
                 </>
               )}
             </AlertDialogAction>
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Inutilización Dialog */}
+      <Dialog open={isInutilizarOpen} onOpenChange={setIsInutilizarOpen}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>Inutilizar Numeración</DialogTitle>
+            <DialogDescription>
+              Informe a SIFEN un rango de números de factura que no serán utilizados
+            </DialogDescription>
+          </DialogHeader>
+          <div className="space-y-4">
+            {huecos.length > 0 && (
+              <div className="space-y-2" data-testid="list-numeracion-huecos">
+                <Label>Huecos detectados</Label>
+                <div className="max-h-40 overflow-y-auto space-y-1">
+                  {huecos.map((hueco) => {
+                    const key = `${hueco.timbrado}-${hueco.tipoDocumento}-${hueco.establecimiento}-${hueco.puntoExpedicion}-${hueco.desde}`;
+                    // Only gaps of the vigente timbrado can be informed to SIFEN from here
+                    const vigente = !timbradoData?.timbradoNumero || hueco.timbrado === timbradoData.timbradoNumero;
+                    return (
+                      <div key={key} className="flex items-center justify-between rounded-md border p-2 text-sm">
+                        <div>
+                          <span className="font-medium">
+                            {TIPOS_DOCUMENTO[hueco.tipoDocumento] ?? `Tipo ${hueco.tipoDocumento}`} {hueco.establecimiento}-{hueco.puntoExpedicion}
+                          </span>
+                          <span className="text-muted-foreground">
+                            {" "}N° {hueco.desde === hueco.hasta ? hueco.desde : `${hueco.desde} - ${hueco.hasta}`}
+                          </span>
+                          {!vigente && (
+                            <Badge variant="outline" className="ml-2">Timbrado {hueco.timbrado}</Badge>
+                          )}
+                        </div>
+                        <Button
+                          size="sm"
+                          variant="ghost"
+                          disabled={!vigente}
+                          onClick={() => selectHueco(hueco)}
+                          data-testid={`button-select-hueco-${key}`}
+                        >
+                          Usar
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+            )}
+            {inutilizarData.establecimiento && (
+              <p className="text-sm text-muted-foreground" data-testid="text-inutilizar-punto">
+                {TIPOS_DOCUMENTO[inutilizarData.tipoDocumento] ?? `Tipo ${inutilizarData.tipoDocumento}`} — Punto {inutilizarData.establecimiento}-{inutilizarData.puntoExpedicion}
+              </p>
+            )}
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="inutilizar-desde">Desde *</Label>
+                <Input
+                  id="inutilizar-desde"
+                  type="number"
+                  min={1}
+                  value={inutilizarData.numeroDesde}
+                  onChange={(e) => setInutilizarData({ ...inutilizarData, numeroDesde: e.target.value })}
+                  data-testid="input-inutilizar-desde"
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="inutilizar-hasta">Hasta *</Label>
+                <Input
+                  id="inutilizar-hasta"
+                  type="number"
+                  min={1}
+                  value={inutilizarData.numeroHasta}
+                  onChange={(e) => setInutilizarData({ ...inutilizarData, numeroHasta: e.target.value })}
+                  data-testid="input-inutilizar-hasta"
+                />
+              </div>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inutilizar-motivo">Motivo *</Label>
+              <Textarea
+                id="inutilizar-motivo"
+                value={inutilizarData.motivo}
+                onChange={(e) => setInutilizarData({ ...inutilizarData, motivo: e.target.value })}
+                placeholder="Ej: Salto de numeración por falla del sistema"
+                maxLength={500}
+                data-testid="input-inutilizar-motivo"
+              />
+            </div>
+            <div className="flex justify-end gap-2">
+              <Button variant="outline" onClick={() => setIsInutilizarOpen(false)}>
+                Cancelar
+              </Button>
+              <Button
+                onClick={executeInutilizar}
+                disabled={
+                  inutilizarMutation.isPending ||
+                  !inutilizarData.numeroDesde ||
+                  !inutilizarData.numeroHasta ||
+                  inutilizarData.motivo.trim().length < 5
+                }
+                data-testid="button-confirm-inutilizar"
+              >
+                {inutilizarMutation.isPending ? "Enviando..." : "Inutilizar"}
+              </Button>
+            </div>
+          </div>
+        </DialogContent>
+      </Dialog>
     </div>
   );
 }
\ No newline at end of file
@@ -0,0 +1,98 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { SesionCaja } from "@shared/schema";
+import { prepararStorage } from "./test-storage";
+
+type Modulos = {
+  storage: typeof import("./storage").storage;
+  CajaService: typeof import("./caja").CajaService;
+};
+
+let m: Modulos;
+let numero = 0;
+
+before(async () => {
+  prepararStorage("caja");
+  const { storage } = await import("./storage");
+  const { CajaService } = await import("./caja");
+  m = { storage, CajaService };
+});
+
+const abrirSesion = async (username: string): Promise<SesionCaja> => {
+  const user = await m.storage.createUser({ username, password: "secreto123", role: "user" });
+  return m.storage.createSesionCaja({ userId: user.id, puntoExpedicionId: `punto-${username}`, montoInicial: "100000" });
+};
+
+const crearVenta = (total: number, medioPago: "efectivo" | "tarjeta_debito", sesionCajaId: string | null = null) => m.storage.createSale({
+  numeroFactura: `001-001-${(++numero).toString().padStart(7, "0")}`,
+  subtotal: total.toString(),
+  total: total.toString(),
+  medioPago,
+  timbradoUsado: "12345678",
+  sesionCajaId
+});
+
+const crearNotaCredito = (saleId: string, total: number, reembolsoEfectivo: number, sesionCajaId: string | null) => m.storage.createNotaCredito({
+  numero: `001-001-${(++numero).toString().padStart(7, "0")}`,
+  saleId,
+  motivo: "devolucion",
+  descripcion: "Devolución del cliente",
+  subtotal: total.toString(),
+  total: total.toString(),
+  timbradoUsado: "12345678",
+  reembolsoEfectivo: reembolsoEfectivo.toString(),
+  sesionCajaId
+});
+
+test("cash receipts and credit note refunds count in the cash expected", async () => {
+  const sesion = await abrirSesion("cajero-resumen");
+  const customer = await m.storage.createCustomer({ nombre: "Cliente Crédito", docTipo: "CI", docNumero: "1234567" });
+  const venta = await crearVenta(55000, "efectivo", sesion.id);
+
+  await m.storage.createRecibo({ customerId: customer.id, monto: "20000", medioPago: "efectivo", sesionCajaId: sesion.id });
+  await m.storage.createRecibo({ customerId: customer.id, monto: "30000", medioPago: "transferencia", sesionCajaId: sesion.id });
+  await crearNotaCredito(venta.id, 22000, 22000, sesion.id);
+
+  const resumen = await m.CajaService.resumen(sesion);
+
+  assert.equal(resumen.efectivoRecibos, 20000);
+  assert.equal(resumen.reembolsos, 22000);
+  assert.equal(resumen.efectivoEsperado, 100000 + 55000 + 20000 - 22000);
+});
+
+test("withdrawals are capped by the cash expected after refunds", async () => {
+  const sesion = await abrirSesion("cajero-retiro");
+  const venta = await crearVenta(50000, "efectivo", sesion.id);
+  await crearNotaCredito(venta.id, 40000, 40000, sesion.id);
+
+  const retiro = await m.CajaService.registrarMovimiento(sesion.id, sesion.userId, false, { tipo: "retiro", monto: 120000, concepto: "Depósito" });
+  assert.equal(retiro.code, "INSUFFICIENT_CASH");
+
+  const pago = await m.CajaService.sesionParaPago(sesion.userId, 110001);
+  assert.equal(pago.code, "INSUFFICIENT_CASH");
+});
+
+test("credit notes give back the cash not refunded yet", async () => {
+  const efectivo = await crearVenta(55000, "efectivo");
+  assert.equal(await m.CajaService.reembolsoEfectivo(efectivo, 50000), 50000);
+  await crearNotaCredito(efectivo.id, 50000, 50000, null);
+  assert.equal(await m.CajaService.reembolsoEfectivo(efectivo, 22000), 5000);
+
+  const tarjeta = await crearVenta(55000, "tarjeta_debito");
+  assert.equal(await m.CajaService.reembolsoEfectivo(tarjeta, 22000), 0);
+});
+
+test("a punto opens one session at a time, even when two cashiers open it at once", async () => {
+  const ana = await m.storage.createUser({ username: "ana-caja", password: "secreto123", role: "user" });
+  const beto = await m.storage.createUser({ username: "beto-caja", password: "secreto123", role: "user" });
+
+  const sesiones = await Promise.all([ana, beto].map(user =>
+    m.storage.openSesionCaja({ userId: user.id, puntoExpedicionId: "punto-compartido", montoInicial: "100000" })
+  ));
+  const abiertas = sesiones.filter(sesion => sesion !== undefined);
+  assert.equal(abiertas.length, 1);
+
+  // Once closed, the punto opens again
+  await m.storage.updateSesionCaja(abiertas[0]!.id, { estado: "cerrada", fechaCierre: new Date() });
+  assert.ok(await m.storage.openSesionCaja({ userId: beto.id, puntoExpedicionId: "punto-compartido", montoInicial: "100000" }));
+});
@@ -0,0 +1,449 @@
+import type {
+  Sale, SesionCaja, MovimientoCaja, CompanyConfig, AbrirSesionCajaType, CreateMovimientoCajaType
+} from "@shared/schema";
+import {
+  DENOMINACIONES_GUARANI, TIPOS_MOVIMIENTO_CAJA, totalConteo, signoMovimiento, type ConteoCaja
+} from "@shared/caja";
+import { MEDIOS_PAGO } from "@shared/pagos";
+import { storage } from "./storage";
+import { EstablecimientoService, type EstablecimientoErrorCode } from "./establecimientos";
+import { PagoService, type ResumenMedioPago } from "./pagos";
+
+/**
+ * Cash register sessions (turnos de caja)
+ * A cashier opens a session with an initial float at the punto de expedición they invoice from, and
+ * every sale and cash movement is recorded against it. Closing counts the drawer by denomination and
+ * compares it with the cash expected: the float, cash collected on sales and on recibos, ingresos, and
+ * the retiros, gastos and credit note refunds paid out. A user has one open session at a time and a
+ * punto is used by one session at a time.
+ */
+
+export type CajaErrorCode =
+  | "SESSION_NOT_FOUND"
+  | "SESSION_ALREADY_OPEN"
+  | "PUNTO_IN_USE"
+  | "NO_OPEN_SESSION"
+  | "SESSION_OTHER_PUNTO"
+  | "SESSION_CLOSED"
+  | "NOT_SESSION_OWNER"
+  | "INSUFFICIENT_CASH"
+  | "INVALID_DENOMINATION"
+  | EstablecimientoErrorCode;
+
+export interface ResumenCaja {
+  sesion: SesionCaja;
+  cajero: string;
+  puntoExpedicion: string; // e.g. "001-002 Caja 2"
+  ventas: {
+    cantidad: number;
+    total: number;
+    contado: number;
+    credito: number;
+  };
+  anuladas: {
+    cantidad: number;
+    total: number;
+  };
+  mediosPago: ResumenMedioPago[];
+  movimientos: MovimientoCaja[];
+  ingresos: number;
+  retiros: number;
+  gastos: number;
+  efectivoVentas: number; // Cash applied to sales, change already given back
+  efectivoRecibos: number; // Cash collected on credit sales
+  reembolsos: number; // Cash given back with credit notes
+  efectivoEsperado: number;
+}
+
+type ResultadoCaja = { success: boolean; sesion?: SesionCaja; error?: string; code?: CajaErrorCode };
+
+export class CajaService {
+  /**
+   * Open session of a user, if any
+   */
+  static async sesionAbierta(userId: string): Promise<SesionCaja | undefined> {
+    return (await storage.getSesionesCaja()).find(sesion => sesion.userId === userId && sesion.estado === "abierta");
+  }
+
+  /**
+   * Session a sale is recorded against: the open session of the cashier at the punto the sale is invoiced from
+   */
+  static async sesionParaVenta(userId: string, puntoExpedicionId: string): Promise<ResultadoCaja> {
+    const sesion = await this.sesionAbierta(userId);
+    if (!sesion) {
+      return { success: false, error: "No hay una caja abierta. Abra la caja antes de registrar ventas.", code: "NO_OPEN_SESSION" };
+    }
+    if (sesion.puntoExpedicionId !== puntoExpedicionId) {
+      return {
+        success: false,
+        error: "La caja abierta pertenece a otro punto de expedición. Ciérrela y abra una nueva en el punto asignado.",
+        code: "SESSION_OTHER_PUNTO"
+      };
+    }
+    return { success: true, sesion };
+  }
+
+  /**
+   * Session cash is paid out of: the open session of the user, with enough cash expected in the drawer
+   */
+  static async sesionParaPago(userId: string, monto: number): Promise<ResultadoCaja> {
+    const sesion = await this.sesionAbierta(userId);
+    if (!sesion) {
+      return { success: false, error: "No hay una caja abierta. Abra la caja para entregar el efectivo.", code: "NO_OPEN_SESSION" };
+    }
+
+    const resumen = await this.resumen(sesion);
+    if (monto > resumen.efectivoEsperado) {
+      return {
+        success: false,
+        error: `No hay suficiente efectivo en caja: se esperan Gs. ${resumen.efectivoEsperado.toLocaleString("es-PY")}`,
+        code: "INSUFFICIENT_CASH"
+      };
+    }
+    return { success: true, sesion };
+  }
+
+  /**
+   * Cash a credit note gives back: its total up to the cash the customer paid, less what earlier
+   * credit notes on the sale already refunded. Credit sales are settled against the balance instead.
+   */
+  static async reembolsoEfectivo(sale: Sale, totalNota: number): Promise<number> {
+    const pagado = (await PagoService.pagosDeVenta(sale))
+      .filter(pago => pago.medioPago === "efectivo")
+      .reduce((sum, pago) => sum + pago.monto, 0);
+    const reembolsado = (await storage.getNotasCreditoBySale(sale.id))
+      .reduce((sum, nota) => sum + parseFloat(nota.reembolsoEfectivo), 0);
+    return Math.max(0, Math.min(totalNota, pagado - reembolsado));
+  }
+
+  static async abrir(userId: string, data: AbrirSesionCajaType): Promise<ResultadoCaja> {
+    if (await this.sesionAbierta(userId)) {
+      return { success: false, error: "Ya tiene una caja abierta. Ciérrela antes de abrir otra.", code: "SESSION_ALREADY_OPEN" };
+    }
+
+    const user = await storage.getUser(userId);
+    const ubicacion = await EstablecimientoService.resolverPunto(user?.puntoExpedicionId);
+    if (!ubicacion.success) {
+      return { success: false, error: ubicacion.error, code: ubicacion.code };
+    }
+
+    // Storage opens it only while the punto has no open session, so two cashiers cannot share it
+    const sesion = await storage.openSesionCaja({
+      userId,
+      puntoExpedicionId: ubicacion.punto!.id,
+      montoInicial: data.montoInicial.toString(),
+      observaciones: data.observaciones?.trim() || null
+    });
+    if (!sesion) {
+      const ocupado = (await storage.getSesionesCaja()).find(otra =>
+        otra.puntoExpedicionId === ubicacion.punto!.id && otra.estado === "abierta"
+      );
+      const cajero = ocupado ? await storage.getUser(ocupado.userId) : undefined;
+      return {
+        success: false,
+        error: `El punto de expedición tiene una caja abierta por ${cajero?.fullName || cajero?.username || "otro usuario"}`,
+        code: "PUNTO_IN_USE"
+      };
+    }
+
+    return { success: true, sesion };
+  }
+
+  /**
+   * Cash put in or taken out of the drawer; retiros and gastos cannot take more than the cash expected
+   */
+  static async registrarMovimiento(
+    sesionId: string,
+    userId: string,
+    esAdmin: boolean,
+    data: CreateMovimientoCajaType
+  ): Promise<{ success: boolean; movimiento?: MovimientoCaja; error?: string; code?: CajaErrorCode }> {
+    const verificacion = await this.verificarAbierta(sesionId, userId, esAdmin);
+    if (!verificacion.success) {
+      return verificacion;
+    }
+
+    if (signoMovimiento(data.tipo) < 0) {
+      const resumen = await this.resumen(verificacion.sesion!);
+      if (data.monto > resumen.efectivoEsperado) {
+        return {
+          success: false,
+          error: `No hay suficiente efectivo en caja: se esperan Gs. ${resumen.efectivoEsperado.toLocaleString("es-PY")}`,
+          code: "INSUFFICIENT_CASH"
+        };
+      }
+    }
+
+    const movimiento = await storage.createMovimientoCaja({
+      sesionId,
+      tipo: data.tipo,
+      monto: data.monto.toString(),
+      concepto: data.concepto.trim(),
+      userId
+    });
+    return { success: true, movimiento };
+  }
+
+  /**
+   * Close a session with the count of the drawer by denomination
+   */
+  static async cerrar(
+    sesionId: string,
+    userId: string,
+    esAdmin: boolean,
+    data: { conteo: ConteoCaja; observaciones?: string | null }
+  ): Promise<ResultadoCaja> {
+    const verificacion = await this.verificarAbierta(sesionId, userId, esAdmin);
+    if (!verificacion.success) {
+      return verificacion;
+    }
+
+    const invalida = Object.keys(data.conteo).find(denominacion => !DENOMINACIONES_GUARANI.includes(parseInt(denominacion, 10)));
+    if (invalida) {
+      return { success: false, error: `Gs. ${invalida} no es una denominación en circulación`, code: "INVALID_DENOMINATION" };
+    }
+
+    const sesion = verificacion.sesion!;
+    const resumen = await this.resumen(sesion);
+    const contado = totalConteo(data.conteo);
+    const observaciones = [sesion.observaciones, data.observaciones?.trim()].filter(Boolean).join("\n");
+
+    const cerrada = await storage.updateSesionCaja(sesionId, {
+      estado: "cerrada",
+      fechaCierre: new Date(),
+      efectivoEsperado: resumen.efectivoEsperado.toString(),
+      efectivoContado: contado.toString(),
+      diferencia: (contado - resumen.efectivoEsperado).toString(),
+      conteo: JSON.stringify(data.conteo),
+      observaciones: observaciones || null,
+      cerradaPor: userId
+    });
+    return { success: true, sesion: cerrada };
+  }
+
+  /**
+   * Sales, payments and movements of a session with the cash expected in the drawer
+   * Cancelled sales are left out: the money is given back when the invoice is cancelled
+   */
+  static async resumen(sesion: SesionCaja): Promise<ResumenCaja> {
+    const sales = await storage.getSalesBySesionCaja(sesion.id);
+    const vigentes = sales.filter(sale => !sale.anulada);
+    const anuladas = sales.filter(sale => sale.anulada);
+    const mediosPago = await PagoService.resumenPorMedio(vigentes);
+    const movimientos = await storage.getMovimientosCaja(sesion.id);
+    const recibos = await storage.getRecibosBySesionCaja(sesion.id);
+    const notasCredito = await storage.getNotasCreditoBySesionCaja(sesion.id);
+
+    const sumar = (tipo: MovimientoCaja["tipo"]) =>
+      movimientos.filter(m => m.tipo === tipo).reduce((sum, m) => sum + parseFloat(m.monto), 0);
+    const totalVentas = (lista: typeof sales) => lista.reduce((sum, sale) => sum + parseFloat(sale.total), 0);
+
+    const ingresos = sumar("ingreso");
+    const retiros = sumar("retiro");
+    const gastos = sumar("gasto");
+    const efectivoVentas = mediosPago.find(medio => medio.medioPago === "efectivo")?.total ?? 0;
+    const efectivoRecibos = recibos
+      .filter(recibo => recibo.medioPago === "efectivo")
+      .reduce((sum, recibo) => sum + parseFloat(recibo.monto), 0);
+    const reembolsos = notasCredito.reduce((sum, nota) => sum + parseFloat(nota.reembolsoEfectivo), 0);
+
+    const cajero = await storage.getUser(sesion.userId);
+    const punto = await storage.getPuntoExpedicion(sesion.puntoExpedicionId);
+    const establecimiento = punto ? await storage.getEstablecimiento(punto.establecimientoId) : undefined;
+
+    return {
+      sesion,
+      cajero: cajero?.fullName || cajero?.username || "-",
+      puntoExpedicion: punto ? `${establecimiento?.codigo ?? "???"}-${punto.codigo} ${punto.descripcion}` : "-",
+      ventas: {
+        cantidad: vigentes.length,
+        total: totalVentas(vigentes),
+        contado: totalVentas(vigentes.filter(sale => sale.condicionVenta !== "credito")),
+        credito: totalVentas(vigentes.filter(sale => sale.condicionVenta === "credito"))
+      },
+      anuladas: { cantidad: anuladas.length, total: totalVentas(anuladas) },
+      mediosPago,
+      movimientos,
+      ingresos,
+      retiros,
+      gastos,
+      efectivoVentas,
+      efectivoRecibos,
+      reembolsos,
+      efectivoEsperado: parseFloat(sesion.montoInicial) + efectivoVentas + efectivoRecibos + ingresos - retiros - gastos - reembolsos
+    };
+  }
+
+  /**
+   * Printable cierre de caja (Z report) of a session; open sessions print as a partial report (X)
+   */
+  static renderCierre(resumen: ResumenCaja, companyConfig: CompanyConfig | undefined): string {
+    const { sesion } = resumen;
+    const cerrada = sesion.estado === "cerrada";
+    const conteo: ConteoCaja = sesion.conteo ? JSON.parse(sesion.conteo) : {};
+    const esperado = cerrada && sesion.efectivoEsperado !== null ? parseFloat(sesion.efectivoEsperado) : resumen.efectivoEsperado;
+    const diferencia = sesion.diferencia !== null ? parseFloat(sesion.diferencia) : 0;
+
+    const fila = (etiqueta: string, valor: number, clase = "") =>
+      `<tr class="${clase}"><td>${this.escape(etiqueta)}</td><td class="amount">${this.formatNumber(valor)}</td></tr>`;
+
+    const medios = resumen.mediosPago.map(medio =>
+      fila(`${MEDIOS_PAGO[medio.medioPago] ?? medio.medioPago} (${medio.cantidad})`, medio.total)
+    ).join("") || `<tr><td colspan="2">Sin cobros</td></tr>`;
+
+    const movimientos = resumen.movimientos.map(movimiento =>
+      `<tr>
+        <td>${this.formatTime(new Date(movimiento.fecha))} ${TIPOS_MOVIMIENTO_CAJA[movimiento.tipo]}: ${this.escape(movimiento.concepto)}</td>
+        <td class="amount">${signoMovimiento(movimiento.tipo) < 0 ? "-" : ""}${this.formatNumber(parseFloat(movimiento.monto))}</td>
+      </tr>`
+    ).join("") || `<tr><td colspan="2">Sin movimientos</td></tr>`;
+
+    const denominaciones = DENOMINACIONES_GUARANI
+      .filter(denominacion => conteo[denominacion] > 0)
+      .map(denominacion =>
+        `<tr>
+          <td>${conteo[denominacion]} x ${this.formatNumber(denominacion)}</td>
+          <td class="amount">${this.formatNumber(conteo[denominacion] * denominacion)}</td>
+        </tr>`
+      ).join("");
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>${cerrada ? "Cierre de caja" : "Informe parcial de caja"}</title>
+    <style>
+      @page { size: 80mm auto; margin: 3mm; }
+      body {
+        font-family: Arial, Helvetica, sans-serif;
+        font-size: 9px;
+        margin: 0 auto;
+        padding: 2mm;
+        max-width: 74mm;
+        color: #000;
+      }
+      .center { text-align: center; }
+      .company-name { font-weight: bold; font-size: 11px; }
+      .doc-title { font-weight: bold; font-size: 11px; margin: 4px 0; }
+      .section { border-top: 1px dashed #000; margin-top: 6px; padding-top: 4px; }
+      .section-title { font-weight: bold; margin-bottom: 2px; }
+      table { width: 100%; border-collapse: collapse; }
+      td { padding: 1px 2px; vertical-align: top; }
+      .amount { text-align: right; white-space: nowrap; }
+      .total td { font-weight: bold; border-top: 1px solid #000; }
+      @media print { .no-print { display: none !important; } }
+      @media screen { .print-controls { position: fixed; top: 10px; right: 10px; } }
+    </style>
+  </head>
+  <body>
+    <div class="print-controls no-print">
+      <button onclick="window.print()">Imprimir</button>
+      <button onclick="window.close()">Cerrar</button>
+    </div>
+
+    <div class="center">
+      ${companyConfig ? `<div class="company-name">${this.escape(companyConfig.nombreFantasia || companyConfig.razonSocial)}</div>
+      <div>RUC: ${this.escape(companyConfig.ruc)}</div>` : ""}
+      <div class="doc-title">${cerrada ? "CIERRE DE CAJA (Z)" : "INFORME PARCIAL DE CAJA (X)"}</div>
+    </div>
+
+    <div class="section">
+      <div>Punto de expedición: ${this.escape(resumen.puntoExpedicion)}</div>
+      <div>Cajero: ${this.escape(resumen.cajero)}</div>
+      <div>Apertura: ${this.formatDateTime(new Date(sesion.fechaApertura))}</div>
+      <div>${cerrada && sesion.fechaCierre ? `Cierre: ${this.formatDateTime(new Date(sesion.fechaCierre))}` : `Emitido: ${this.formatDateTime(new Date())}`}</div>
+    </div>
+
+    <div class="section">
+      <div class="section-title">Ventas</div>
+      <table>
+        ${fila(`Contado`, resumen.ventas.contado)}
+        ${fila(`Crédito`, resumen.ventas.credito)}
+        ${fila(`Total (${resumen.ventas.cantidad} comprobantes)`, resumen.ventas.total, "total")}
+        ${resumen.anuladas.cantidad > 0 ? fila(`Anuladas (${resumen.anuladas.cantidad})`, resumen.anuladas.total) : ""}
+      </table>
+    </div>
+
+    <div class="section">
+      <div class="section-title">Cobros por medio de pago</div>
+      <table>${medios}</table>
+    </div>
+
+    <div class="section">
+      <div class="section-title">Movimientos de caja</div>
+      <table>${movimientos}</table>
+    </div>
+
+    <div class="section">
+      <div class="section-title">Efectivo</div>
+      <table>
+        ${fila("Fondo inicial", parseFloat(sesion.montoInicial))}
+        ${fila("Ventas en efectivo", resumen.efectivoVentas)}
+        ${fila("Cobros de crédito", resumen.efectivoRecibos)}
+        ${fila("Ingresos", resumen.ingresos)}
+        ${fila("Retiros", -resumen.retiros)}
+        ${fila("Gastos menores", -resumen.gastos)}
+        ${fila("Devoluciones (notas de crédito)", -resumen.reembolsos)}
+        ${fila("Efectivo esperado", esperado, "total")}
+      </table>
+    </div>
+
+    ${cerrada ? `<div class="section">
+      <div class="section-title">Arqueo</div>
+      <table>
+        ${denominaciones || `<tr><td colspan="2">Caja vacía</td></tr>`}
+        ${fila("Efectivo contado", parseFloat(sesion.efectivoContado ?? "0"), "total")}
+        ${fila(diferencia > 0 ? "Sobrante" : diferencia < 0 ? "Faltante" : "Diferencia", Math.abs(diferencia), "total")}
+      </table>
+      ${sesion.observaciones ? `<div style="margin-top: 4px;">Observaciones: ${this.escape(sesion.observaciones)}</div>` : ""}
+    </div>
+
+    <div class="section center" style="margin-top: 24px;">
+      <div>______________________</div>
+      <div>Firma del cajero</div>
+    </div>` : ""}
+  </body>
+</html>`;
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  // Open session the user may operate: their own, or any as admin
+  private static async verificarAbierta(sesionId: string, userId: string, esAdmin: boolean): Promise<ResultadoCaja> {
+    const sesion = await storage.getSesionCaja(sesionId);
+    if (!sesion) {
+      return { success: false, error: "Sesión de caja no encontrada", code: "SESSION_NOT_FOUND" };
+    }
+    if (sesion.estado !== "abierta") {
+      return { success: false, error: "La caja ya fue cerrada", code: "SESSION_CLOSED" };
+    }
+    if (sesion.userId !== userId && !esAdmin) {
+      return { success: false, error: "Solo el cajero que abrió la caja o un administrador pueden operarla", code: "NOT_SESSION_OWNER" };
+    }
+    return { success: true, sesion };
+  }
+
+  private static formatNumber(value: number): string {
+    return Math.round(value).toLocaleString("es-PY");
+  }
+
+  private static formatDateTime(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()} ${this.formatTime(date)}`;
+  }
+
+  private static formatTime(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${pad(date.getHours())}:${pad(date.getMinutes())}`;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
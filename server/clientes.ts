@@ -0,0 +1,106 @@
+import type { Customer, InsertCustomerType } from "@shared/schema";
+import { validarDocumento, normalizarDocumento, claveDocumento, type DocumentoErrorCode } from "@shared/documentos";
+import { resolverPais, validarPais, type PaisErrorCode } from "@shared/paises";
+import { storage } from "./storage";
+
+/**
+ * Customers
+ * Documents are validated with the rules of their type and stored normalized. Two customers cannot
+ * share a document: the comparison uses the normalized number, and a CI matches the RUC built on it.
+ * The country must be a known one and is stored with its ISO 3166 name.
+ */
+
+export type ClienteErrorCode = "CUSTOMER_NOT_FOUND" | "DUPLICATE_DOCUMENT" | DocumentoErrorCode | PaisErrorCode;
+
+export class ClienteService {
+  static async crearCliente(data: InsertCustomerType): Promise<{
+    success: boolean;
+    customer?: Customer;
+    error?: string;
+    code?: ClienteErrorCode;
+  }> {
+    const identidad = await this.identidad(data, null);
+    if (!identidad.success) {
+      return identidad;
+    }
+
+    return { success: true, customer: await storage.createCustomer({ ...data, ...identidad.datos }) };
+  }
+
+  /**
+   * Partial updates are validated merged over the stored customer
+   */
+  static async actualizarCliente(id: string, data: Partial<InsertCustomerType>): Promise<{
+    success: boolean;
+    customer?: Customer;
+    error?: string;
+    code?: ClienteErrorCode;
+  }> {
+    const customer = await storage.getCustomer(id);
+    if (!customer) {
+      return { success: false, error: "Cliente no encontrado", code: "CUSTOMER_NOT_FOUND" };
+    }
+
+    const identidad = await this.identidad({ ...customer, ...data }, id);
+    if (!identidad.success) {
+      return identidad;
+    }
+
+    return { success: true, customer: await storage.updateCustomer(id, { ...data, ...identidad.datos }) };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  // Normalized identity fields, or why the customer cannot be saved
+  private static async identidad(
+    data: Pick<InsertCustomerType, "docTipo" | "docNumero" | "pais" | "pasaporte" | "email">,
+    id: string | null
+  ): Promise<
+    | { success: true; datos: Pick<Customer, "docTipo" | "docNumero" | "pasaporte" | "email" | "pais"> }
+    | { success: false; error: string; code: ClienteErrorCode }
+  > {
+    const docTipo = data.docTipo ?? "CI";
+    const documento = validarDocumento(docTipo, data.docNumero, data.pais);
+    if (!documento.success) {
+      return { success: false, error: documento.error!, code: documento.code! };
+    }
+
+    const pais = validarPais(data.pais);
+    if (!pais.success) {
+      return { success: false, error: pais.error!, code: pais.code! };
+    }
+
+    const pasaporte = data.pasaporte?.trim() ? normalizarDocumento("Pasaporte", data.pasaporte) : null;
+    if (pasaporte) {
+      const validacion = validarDocumento("Pasaporte", pasaporte, data.pais);
+      if (!validacion.success) {
+        return { success: false, error: validacion.error!, code: validacion.code! };
+      }
+    }
+
+    const clave = claveDocumento(docTipo, data.docNumero);
+    const duplicado = (await storage.getCustomers()).find(customer =>
+      customer.id !== id && claveDocumento(customer.docTipo, customer.docNumero) === clave
+    );
+    if (duplicado) {
+      return {
+        success: false,
+        error: `El documento ya está registrado para el cliente ${duplicado.nombre} (${duplicado.docTipo} ${duplicado.docNumero})`,
+        code: "DUPLICATE_DOCUMENT"
+      };
+    }
+
+    return {
+      success: true,
+      datos: {
+        docTipo,
+        docNumero: normalizarDocumento(docTipo, data.docNumero),
+        pasaporte,
+        email: data.email || null,
+        pais: resolverPais(data.pais)?.descripcion ?? null
+      }
+    };
+  }
+}
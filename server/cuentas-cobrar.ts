@@ -0,0 +1,416 @@
+import type { Sale, Customer, Recibo, ReciboAplicacion, CondicionVenta, CreateReciboType } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Cuentas por cobrar
+ * Credit sales are the only receivables: each credit invoice is owed for its total plus the debit
+ * notes issued on it, minus its credit notes and the recibos applied to it. Cancelled invoices owe
+ * nothing. Aging is counted from the due date, in 30-day buckets up to more than 90 days.
+ */
+
+export type CuentasCobrarErrorCode =
+  | "CUSTOMER_NOT_FOUND"
+  | "CUSTOMER_REQUIRED"
+  | "INVALID_DUE_DATE"
+  | "NO_PENDING_INVOICES"
+  | "AMOUNT_EXCEEDED"
+  | "INVALID_ALLOCATION";
+
+export interface DocumentoPendiente {
+  saleId: string;
+  numeroFactura: string;
+  fecha: string; // ISO format
+  fechaVencimiento: string; // ISO format
+  total: number;
+  notasCredito: number;
+  notasDebito: number;
+  pagado: number;
+  saldo: number;
+  diasVencido: number; // Zero or negative while not due
+}
+
+export interface MovimientoCuenta {
+  fecha: string; // ISO format
+  tipo: "factura" | "nota_credito" | "nota_debito" | "recibo";
+  documento: string;
+  debe: number;
+  haber: number;
+  saldo: number; // Running balance
+}
+
+export interface AntiguedadSaldos {
+  porVencer: number;
+  dias1a30: number;
+  dias31a60: number;
+  dias61a90: number;
+  mas90: number;
+  total: number;
+}
+
+export interface EstadoCuenta {
+  customer: Customer;
+  saldo: number;
+  antiguedad: AntiguedadSaldos;
+  pendientes: DocumentoPendiente[];
+  movimientos: MovimientoCuenta[];
+}
+
+export interface ResumenCuentasCobrar {
+  clientes: {
+    customerId: string;
+    nombre: string;
+    docNumero: string;
+    antiguedad: AntiguedadSaldos;
+  }[];
+  totales: AntiguedadSaldos;
+}
+
+const DIA_MS = 24 * 60 * 60 * 1000;
+
+export class CuentasPorCobrarService {
+  /**
+   * Ledger of a customer: movements with running balance, unpaid invoices and aging
+   */
+  static async getEstadoCuenta(customerId: string, hoy: Date = new Date()): Promise<EstadoCuenta | undefined> {
+    const customer = await storage.getCustomer(customerId);
+    if (!customer) {
+      return undefined;
+    }
+
+    const documentos = await this.documentos(customerId, hoy);
+    const movimientos: Omit<MovimientoCuenta, "saldo">[] = [];
+
+    for (const { sale, notasCredito, notasDebito } of documentos) {
+      movimientos.push({
+        fecha: new Date(sale.fecha).toISOString(),
+        tipo: "factura",
+        documento: sale.numeroFactura,
+        debe: parseFloat(sale.total),
+        haber: 0
+      });
+      for (const nota of notasDebito) {
+        movimientos.push({
+          fecha: new Date(nota.fecha).toISOString(),
+          tipo: "nota_debito",
+          documento: nota.numero,
+          debe: parseFloat(nota.total),
+          haber: 0
+        });
+      }
+      for (const nota of notasCredito) {
+        movimientos.push({
+          fecha: new Date(nota.fecha).toISOString(),
+          tipo: "nota_credito",
+          documento: nota.numero,
+          debe: 0,
+          haber: parseFloat(nota.total)
+        });
+      }
+    }
+
+    const recibos = await storage.getRecibosByCustomer(customerId);
+    for (const recibo of recibos) {
+      movimientos.push({
+        fecha: new Date(recibo.fecha).toISOString(),
+        tipo: "recibo",
+        documento: this.numeroRecibo(recibo),
+        debe: 0,
+        haber: parseFloat(recibo.monto)
+      });
+    }
+
+    movimientos.sort((a, b) => a.fecha.localeCompare(b.fecha));
+    let saldo = 0;
+    const conSaldo = movimientos.map(movimiento => {
+      saldo += movimiento.debe - movimiento.haber;
+      return { ...movimiento, saldo };
+    });
+
+    const pendientes = documentos.map(documento => documento.pendiente).filter(pendiente => pendiente.saldo > 0);
+
+    return {
+      customer,
+      saldo,
+      antiguedad: this.antiguedad(pendientes),
+      pendientes,
+      movimientos: conSaldo
+    };
+  }
+
+  /**
+   * Aging of the balances of every customer with unpaid credit invoices
+   */
+  static async getResumen(hoy: Date = new Date()): Promise<ResumenCuentasCobrar> {
+    const customers = await storage.getCustomers();
+    const clientes: ResumenCuentasCobrar["clientes"] = [];
+
+    for (const customer of customers) {
+      const pendientes = (await this.documentos(customer.id, hoy))
+        .map(documento => documento.pendiente)
+        .filter(pendiente => pendiente.saldo > 0);
+      if (pendientes.length === 0) continue;
+
+      clientes.push({
+        customerId: customer.id,
+        nombre: customer.nombre,
+        docNumero: customer.docNumero,
+        antiguedad: this.antiguedad(pendientes)
+      });
+    }
+
+    clientes.sort((a, b) => b.antiguedad.total - a.antiguedad.total);
+    return { clientes, totales: this.sumarAntiguedad(clientes.map(cliente => cliente.antiguedad)) };
+  }
+
+  /**
+   * Record a payment of a customer and apply it to the credit invoices
+   * Without explicit allocations the oldest due invoices are paid first
+   */
+  static async registrarRecibo(
+    data: CreateReciboType,
+    userId: string | null,
+    sesionCajaId: string | null = null
+  ): Promise<{
+    success: boolean;
+    recibo?: Recibo;
+    aplicaciones?: ReciboAplicacion[];
+    error?: string;
+    code?: CuentasCobrarErrorCode;
+  }> {
+    const customer = await storage.getCustomer(data.customerId);
+    if (!customer) {
+      return { success: false, error: "El cliente no existe", code: "CUSTOMER_NOT_FOUND" };
+    }
+
+    const pendientes = (await this.documentos(data.customerId, new Date()))
+      .map(documento => documento.pendiente)
+      .filter(pendiente => pendiente.saldo > 0);
+    if (pendientes.length === 0) {
+      return {
+        success: false,
+        error: "El cliente no tiene facturas a crédito pendientes de cobro",
+        code: "NO_PENDING_INVOICES"
+      };
+    }
+
+    const saldoTotal = pendientes.reduce((sum, pendiente) => sum + pendiente.saldo, 0);
+    if (data.monto > saldoTotal) {
+      return {
+        success: false,
+        error: `El monto del recibo supera el saldo del cliente (${saldoTotal.toLocaleString('es-PY')} Gs.)`,
+        code: "AMOUNT_EXCEEDED"
+      };
+    }
+
+    const distribucion = data.aplicaciones && data.aplicaciones.length > 0
+      ? this.validarAplicaciones(data.monto, data.aplicaciones, pendientes)
+      : { success: true, aplicaciones: this.aplicarFIFO(data.monto, pendientes) };
+    if (!distribucion.success || !distribucion.aplicaciones) {
+      return { success: false, error: distribucion.error, code: distribucion.code };
+    }
+
+    const recibo = await storage.createRecibo({
+      customerId: data.customerId,
+      monto: data.monto.toString(),
+      medioPago: data.medioPago,
+      referencia: data.referencia || null,
+      observaciones: data.observaciones || null,
+      sesionCajaId,
+      createdBy: userId
+    });
+
+    const aplicaciones: ReciboAplicacion[] = [];
+    for (const aplicacion of distribucion.aplicaciones) {
+      aplicaciones.push(await storage.createReciboAplicacion({
+        reciboId: recibo.id,
+        saleId: aplicacion.saleId,
+        monto: aplicacion.monto.toString()
+      }));
+    }
+
+    return { success: true, recibo, aplicaciones };
+  }
+
+  /**
+   * Credit sales need an identified customer and a due date not before the sale
+   */
+  static validarCondicionVenta(
+    data: { condicionVenta?: CondicionVenta; fechaVencimiento?: Date | null; customerId?: string | null },
+    fecha: Date = new Date()
+  ): { success: boolean; error?: string; code?: CuentasCobrarErrorCode } {
+    if (data.condicionVenta !== "credito") {
+      return { success: true };
+    }
+
+    if (!data.customerId) {
+      return {
+        success: false,
+        error: "Las ventas a crédito requieren un cliente identificado",
+        code: "CUSTOMER_REQUIRED"
+      };
+    }
+
+    if (!data.fechaVencimiento || isNaN(data.fechaVencimiento.getTime()) ||
+        this.inicioDelDia(data.fechaVencimiento) < this.inicioDelDia(fecha)) {
+      return {
+        success: false,
+        error: "Las ventas a crédito requieren una fecha de vencimiento igual o posterior a la fecha de venta",
+        code: "INVALID_DUE_DATE"
+      };
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Receipt number as printed: R-0000001
+   */
+  static numeroRecibo(recibo: Pick<Recibo, "numero">): string {
+    return `R-${recibo.numero.toString().padStart(7, '0')}`;
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static async documentos(customerId: string, hoy: Date) {
+    const sales = (await storage.getSalesByCustomer(customerId))
+      .filter(sale => sale.condicionVenta === "credito" && !sale.anulada);
+
+    const documentos = [];
+    for (const sale of sales) {
+      const [notasCredito, notasDebito, aplicaciones] = await Promise.all([
+        storage.getNotasCreditoBySale(sale.id),
+        storage.getNotasDebitoBySale(sale.id),
+        storage.getReciboAplicacionesBySale(sale.id)
+      ]);
+      documentos.push({
+        sale,
+        notasCredito,
+        notasDebito,
+        pendiente: this.pendiente(sale, {
+          notasCredito: this.sumar(notasCredito.map(nota => nota.total)),
+          notasDebito: this.sumar(notasDebito.map(nota => nota.total)),
+          pagado: this.sumar(aplicaciones.map(aplicacion => aplicacion.monto))
+        }, hoy)
+      });
+    }
+
+    return documentos.sort((a, b) =>
+      a.pendiente.fechaVencimiento.localeCompare(b.pendiente.fechaVencimiento) ||
+      a.pendiente.numeroFactura.localeCompare(b.pendiente.numeroFactura)
+    );
+  }
+
+  private static pendiente(
+    sale: Sale,
+    montos: { notasCredito: number; notasDebito: number; pagado: number },
+    hoy: Date
+  ): DocumentoPendiente {
+    const total = parseFloat(sale.total);
+    // Credit sales recorded without a due date fall due on the day of the sale
+    const vencimiento = new Date(sale.fechaVencimiento ?? sale.fecha);
+
+    return {
+      saleId: sale.id,
+      numeroFactura: sale.numeroFactura,
+      fecha: new Date(sale.fecha).toISOString(),
+      fechaVencimiento: vencimiento.toISOString(),
+      total,
+      ...montos,
+      saldo: Math.max(0, total + montos.notasDebito - montos.notasCredito - montos.pagado),
+      diasVencido: Math.floor((this.inicioDelDia(hoy) - this.inicioDelDia(vencimiento)) / DIA_MS)
+    };
+  }
+
+  private static antiguedad(pendientes: DocumentoPendiente[]): AntiguedadSaldos {
+    const antiguedad: AntiguedadSaldos = { porVencer: 0, dias1a30: 0, dias31a60: 0, dias61a90: 0, mas90: 0, total: 0 };
+
+    for (const pendiente of pendientes) {
+      if (pendiente.diasVencido <= 0) {
+        antiguedad.porVencer += pendiente.saldo;
+      } else if (pendiente.diasVencido <= 30) {
+        antiguedad.dias1a30 += pendiente.saldo;
+      } else if (pendiente.diasVencido <= 60) {
+        antiguedad.dias31a60 += pendiente.saldo;
+      } else if (pendiente.diasVencido <= 90) {
+        antiguedad.dias61a90 += pendiente.saldo;
+      } else {
+        antiguedad.mas90 += pendiente.saldo;
+      }
+      antiguedad.total += pendiente.saldo;
+    }
+    return antiguedad;
+  }
+
+  private static sumarAntiguedad(lista: AntiguedadSaldos[]): AntiguedadSaldos {
+    const totales: AntiguedadSaldos = { porVencer: 0, dias1a30: 0, dias31a60: 0, dias61a90: 0, mas90: 0, total: 0 };
+    for (const antiguedad of lista) {
+      totales.porVencer += antiguedad.porVencer;
+      totales.dias1a30 += antiguedad.dias1a30;
+      totales.dias31a60 += antiguedad.dias31a60;
+      totales.dias61a90 += antiguedad.dias61a90;
+      totales.mas90 += antiguedad.mas90;
+      totales.total += antiguedad.total;
+    }
+    return totales;
+  }
+
+  private static aplicarFIFO(monto: number, pendientes: DocumentoPendiente[]): { saleId: string; monto: number }[] {
+    const aplicaciones: { saleId: string; monto: number }[] = [];
+    let restante = monto;
+
+    for (const pendiente of pendientes) {
+      if (restante <= 0) break;
+      const aplicado = Math.min(restante, pendiente.saldo);
+      aplicaciones.push({ saleId: pendiente.saleId, monto: aplicado });
+      restante -= aplicado;
+    }
+    return aplicaciones;
+  }
+
+  private static validarAplicaciones(
+    monto: number,
+    aplicaciones: NonNullable<CreateReciboType["aplicaciones"]>,
+    pendientes: DocumentoPendiente[]
+  ): { success: boolean; aplicaciones?: { saleId: string; monto: number }[]; error?: string; code?: CuentasCobrarErrorCode } {
+    const saleIds = new Set<string>();
+
+    for (const aplicacion of aplicaciones) {
+      const pendiente = pendientes.find(p => p.saleId === aplicacion.saleId);
+      if (!pendiente || saleIds.has(aplicacion.saleId)) {
+        return {
+          success: false,
+          error: "Las aplicaciones deben referirse a facturas a crédito pendientes del cliente, una vez cada una",
+          code: "INVALID_ALLOCATION"
+        };
+      }
+      if (aplicacion.monto > pendiente.saldo) {
+        return {
+          success: false,
+          error: `El monto aplicado a la factura ${pendiente.numeroFactura} supera su saldo (${pendiente.saldo.toLocaleString('es-PY')} Gs.)`,
+          code: "AMOUNT_EXCEEDED"
+        };
+      }
+      saleIds.add(aplicacion.saleId);
+    }
+
+    if (aplicaciones.reduce((sum, aplicacion) => sum + aplicacion.monto, 0) !== monto) {
+      return {
+        success: false,
+        error: "La suma de las aplicaciones debe ser igual al monto del recibo",
+        code: "INVALID_ALLOCATION"
+      };
+    }
+
+    return { success: true, aplicaciones };
+  }
+
+  private static sumar(montos: string[]): number {
+    return montos.reduce((sum, monto) => sum + parseFloat(monto), 0);
+  }
+
+  private static inicioDelDia(fecha: Date): number {
+    return new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate()).getTime();
+  }
+}
@@ -0,0 +1,109 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import type { CompanyConfig, User } from "@shared/schema";
+import { cotizarVenta, type CotizacionVenta } from "@shared/precios";
+import { aplicarDescuentos } from "@shared/descuentos";
+import { prepararStorage } from "./test-storage";
+
+type Modulos = {
+  storage: typeof import("./storage").storage;
+  DescuentoService: typeof import("./descuentos").DescuentoService;
+};
+
+let m: Modulos;
+let cotizacion: CotizacionVenta;
+const config: Pick<CompanyConfig, "descuentoMaximoUser" | "descuentoMaximoAdmin"> = { descuentoMaximoUser: 10, descuentoMaximoAdmin: 50 };
+
+before(async () => {
+  prepararStorage("descuentos");
+  const { storage } = await import("./storage");
+  const { DescuentoService } = await import("./descuentos");
+  m = { storage, DescuentoService };
+
+  // 20% off a single line: above the cashier maximum, within the admin one
+  cotizacion = cotizarVenta(
+    [{ type: "service", id: "s1", quantity: 1, descuento: { tipo: "porcentaje", valor: 20, motivo: "promocion" } }],
+    { services: [{ id: "s1", nombre: "Lavado", precio: "100000", tasaIva: 10, activo: true }], combos: [], inventoryItems: [] },
+    { regimenTurismo: false }
+  ).cotizacion!;
+});
+
+const crearUsuario = async (username: string, role: "admin" | "user", pin?: string): Promise<User> => {
+  const user = await m.storage.createUser({ username, password: "secreto123", role });
+  if (pin) {
+    assert.equal((await m.DescuentoService.establecerPin(user.id, pin)).success, true);
+  }
+  return user;
+};
+
+test("discounts within the role maximum need no authorization", async () => {
+  const cajero = await crearUsuario("cajero-limite", "user");
+  const result = await m.DescuentoService.autorizar(cotizacion, cajero, { config: { ...config, descuentoMaximoUser: 20 } });
+
+  assert.deepEqual(result, { success: true, autorizadoPor: null });
+});
+
+test("only the PIN of the named admin authorizes", async () => {
+  const cajero = await crearUsuario("cajero-pin", "user");
+  const ana = await crearUsuario("ana", "admin", "4821");
+  // Admins may share a PIN; setting it reveals nothing about the others
+  const beto = await crearUsuario("beto", "admin", "4821");
+  const carla = await crearUsuario("carla", "admin", "9930");
+
+  const sinAdmin = await m.DescuentoService.autorizar(cotizacion, cajero, { pin: "4821", config });
+  assert.equal(sinAdmin.code, "AUTHORIZATION_REQUIRED");
+
+  const otroPin = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: carla.id, pin: "4821", config });
+  assert.equal(otroPin.code, "INVALID_PIN");
+
+  const ok = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: beto.id, pin: "4821", config });
+  assert.deepEqual(ok, { success: true, autorizadoPor: beto.id });
+  assert.equal((await m.storage.getUser(cajero.id))!.failedPinAttempts, 0);
+
+  const cajeroComoAutorizador = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: cajero.id, pin: "4821", config });
+  assert.equal(cajeroComoAutorizador.code, "INVALID_PIN");
+
+  const otraAdmin = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: ana.id, pin: "4821", config });
+  assert.deepEqual(otraAdmin, { success: true, autorizadoPor: ana.id });
+});
+
+test("wrong PINs lock the cashier out of overrides", async () => {
+  const cajero = await crearUsuario("cajero-bloqueo", "user");
+  const admin = await crearUsuario("dario", "admin", "5566");
+
+  for (let intento = 1; intento <= 5; intento++) {
+    const result = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: admin.id, pin: "0000", config });
+    assert.equal(result.code, "INVALID_PIN");
+  }
+
+  // Locked even with the right PIN
+  const bloqueado = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: admin.id, pin: "5566", config });
+  assert.equal(bloqueado.code, "PIN_LOCKED");
+
+  // The lock expires
+  await m.storage.updateUser(cajero.id, { lastFailedPin: new Date(Date.now() - 16 * 60 * 1000) });
+  const ok = await m.DescuentoService.autorizar(cotizacion, cajero, { autorizadoPor: admin.id, pin: "5566", config });
+  assert.equal(ok.success, true);
+  assert.equal((await m.storage.getUser(cajero.id))!.failedPinAttempts, 0);
+});
+
+test("nothing goes beyond the admin maximum", async () => {
+  const cajero = await crearUsuario("cajero-maximo", "user");
+  const admin = await crearUsuario("elena", "admin", "7788");
+
+  const result = await m.DescuentoService.autorizar(cotizacion, cajero, {
+    autorizadoPor: admin.id,
+    pin: "7788",
+    config: { ...config, descuentoMaximoAdmin: 15 }
+  });
+  assert.equal(result.code, "DISCOUNT_EXCEEDS_MAXIMUM");
+});
+
+test("the ticket discount is prorated without a negative share or one above its line", () => {
+  // Rounding each share would give 2 to the first three lines and -1 to the last one
+  const lineas = [3, 3, 3, 1].map(precio => ({ precioUnitario: precio, cantidad: 1, tasaIva: 0 as const }));
+  const descuentos = aplicarDescuentos(lineas, { tipo: "monto", valor: 5, motivo: "redondeo" });
+
+  assert.deepEqual(descuentos.lineas.map(linea => linea.descuentoGlobal), [2, 2, 1, 0]);
+  assert.equal(descuentos.descuentoGlobal, 5);
+});
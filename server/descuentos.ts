@@ -0,0 +1,274 @@
+import type { CompanyConfig, MotivoDescuento, User } from "@shared/schema";
+import { descuentoMaximoRol, porcentajeDescuento } from "@shared/descuentos";
+import type { CotizacionVenta } from "@shared/precios";
+import { PasswordUtils } from "./password-utils";
+import { storage } from "./storage";
+
+/**
+ * Sale discounts: authorization and monthly report
+ * Cashiers discount up to the maximum of their role; beyond it the sale names an active admin and
+ * carries that admin's PIN, the admin is recorded on the sale and nothing goes beyond the admin
+ * maximum. PINs are hashed like passwords and only the named admin's is checked. Wrong PINs count
+ * against the cashier, like failed logins, and lock overrides for a while after too many. The report
+ * adds up the discounts of a month by reason, cashier and authorizer; cancelled invoices are listed
+ * but left out.
+ */
+
+export type DescuentoErrorCode =
+  | "AUTHORIZATION_REQUIRED"
+  | "INVALID_PIN"
+  | "PIN_LOCKED"
+  | "DISCOUNT_EXCEEDS_MAXIMUM"
+  | "USER_NOT_FOUND";
+
+// Wrong PINs a cashier can enter in a row before overrides lock, and for how long
+const MAX_INTENTOS_PIN = 5;
+const BLOQUEO_PIN_MINUTOS = 15;
+
+// Admin a cashier can ask to authorize a discount
+export interface AutorizadorDescuento {
+  id: string;
+  nombre: string;
+}
+
+export interface RegistroDescuento {
+  saleId: string;
+  fecha: string; // ISO format
+  numeroFactura: string;
+  cajero: string | null;
+  autorizadoPor: string | null;
+  totalBruto: number; // IVA included, before discounts
+  descuentoLineas: number;
+  descuentoGlobal: number;
+  descuentoTotal: number;
+  total: number;
+  motivos: MotivoDescuento[];
+  anulada: boolean;
+}
+
+export interface ReporteDescuentos {
+  periodo: string; // YYYY-MM
+  registros: RegistroDescuento[];
+  totales: {
+    cantidad: number;
+    totalBruto: number;
+    descuentoTotal: number;
+    porcentaje: number; // Of the gross total of the discounted sales
+    autorizados: number; // Sales with an admin override
+  };
+  porMotivo: { motivo: MotivoDescuento; cantidad: number; total: number }[];
+  porCajero: { cajero: string; cantidad: number; total: number }[];
+  porAutorizador: { autorizadoPor: string; cantidad: number; total: number }[];
+}
+
+export class DescuentoService {
+  /**
+   * Whether the user may give the discounts of a quotation, with the PIN of the named admin beyond the
+   * role maximum
+   */
+  static async autorizar(
+    cotizacion: CotizacionVenta,
+    user: { id: string; role: string },
+    opciones: {
+      autorizadoPor?: string;
+      pin?: string;
+      config: Pick<CompanyConfig, "descuentoMaximoUser" | "descuentoMaximoAdmin"> | null | undefined;
+    }
+  ): Promise<{ success: boolean; autorizadoPor?: string | null; error?: string; code?: DescuentoErrorCode }> {
+    const porcentaje = porcentajeDescuento(cotizacion);
+    const maximo = descuentoMaximoRol(user.role, opciones.config);
+    if (porcentaje <= maximo) {
+      return { success: true, autorizadoPor: null };
+    }
+
+    const maximoAdmin = descuentoMaximoRol("admin", opciones.config);
+    if (porcentaje > maximoAdmin) {
+      return {
+        success: false,
+        error: `El descuento de ${porcentaje}% supera el máximo permitido de ${maximoAdmin}%`,
+        code: "DISCOUNT_EXCEEDS_MAXIMUM"
+      };
+    }
+
+    if (!opciones.autorizadoPor || !opciones.pin) {
+      return {
+        success: false,
+        error: `El descuento de ${porcentaje}% supera el máximo de ${maximo}% de su rol; ingrese el PIN de un administrador`,
+        code: "AUTHORIZATION_REQUIRED"
+      };
+    }
+
+    const cajero = await storage.getUser(user.id);
+    if (!cajero) {
+      return { success: false, error: "Usuario no encontrado", code: "USER_NOT_FOUND" };
+    }
+    if (this.bloqueado(cajero)) {
+      return {
+        success: false,
+        error: `Demasiados PIN incorrectos; intente nuevamente en ${BLOQUEO_PIN_MINUTOS} minutos`,
+        code: "PIN_LOCKED"
+      };
+    }
+
+    if (!(await this.pinValido(opciones.autorizadoPor, opciones.pin))) {
+      // Attempts from before the last lock ran out start over
+      const intentos = (cajero.failedPinAttempts >= MAX_INTENTOS_PIN ? 0 : cajero.failedPinAttempts) + 1;
+      await storage.updateUser(cajero.id, { failedPinAttempts: intentos, lastFailedPin: new Date() });
+      return {
+        success: false,
+        error: intentos >= MAX_INTENTOS_PIN
+          ? `El PIN de autorización es incorrecto; autorizaciones bloqueadas por ${BLOQUEO_PIN_MINUTOS} minutos`
+          : "El PIN de autorización es incorrecto",
+        code: "INVALID_PIN"
+      };
+    }
+
+    if (cajero.failedPinAttempts > 0) {
+      await storage.updateUser(cajero.id, { failedPinAttempts: 0, lastFailedPin: null });
+    }
+    return { success: true, autorizadoPor: opciones.autorizadoPor };
+  }
+
+  /**
+   * Set the authorization PIN of an admin
+   */
+  static async establecerPin(userId: string, pin: string): Promise<{ success: boolean; error?: string; code?: DescuentoErrorCode }> {
+    const user = await storage.getUser(userId);
+    if (!user) {
+      return { success: false, error: "Usuario no encontrado", code: "USER_NOT_FOUND" };
+    }
+
+    await storage.updateUser(userId, { pinAutorizacion: await PasswordUtils.hashPassword(pin) });
+    return { success: true };
+  }
+
+  /**
+   * Active admins with a PIN, for the cashier to name who authorizes
+   */
+  static async autorizadores(): Promise<AutorizadorDescuento[]> {
+    return (await storage.getActiveUsers())
+      .filter(user => user.role === "admin" && user.pinAutorizacion)
+      .map(user => ({ id: user.id, nombre: user.fullName || user.username }));
+  }
+
+  /**
+   * Discounted sales of a month (periodo as YYYY-MM)
+   */
+  static async reporteMensual(periodo: string): Promise<ReporteDescuentos> {
+    const [anio, mes] = periodo.split('-').map(value => parseInt(value, 10));
+    const start = new Date(anio, mes - 1, 1);
+    const end = new Date(anio, mes, 0, 23, 59, 59, 999);
+
+    const [sales, users] = await Promise.all([
+      storage.getSalesByDateRange(start, end),
+      storage.getUsers()
+    ]);
+    const nombreDe = (id: string | null) => {
+      const user = id ? users.find(u => u.id === id) : undefined;
+      return user ? user.fullName || user.username : null;
+    };
+
+    const porMotivo = new Map<MotivoDescuento, { motivo: MotivoDescuento; cantidad: number; total: number }>();
+    const sumarMotivo = (motivo: MotivoDescuento, monto: number) => {
+      const grupo = porMotivo.get(motivo) ?? { motivo, cantidad: 0, total: 0 };
+      grupo.cantidad++;
+      grupo.total += monto;
+      porMotivo.set(motivo, grupo);
+    };
+
+    const registros: RegistroDescuento[] = [];
+    for (const sale of sales) {
+      // Sales recorded before discounts have no discount fields
+      const descuentoTotal = parseFloat(sale.descuentoTotal ?? "0") || 0;
+      if (descuentoTotal <= 0) continue;
+
+      const items = await storage.getSaleItems(sale.id);
+      const descuentoGlobal = parseFloat(sale.descuentoGlobal ?? "0") || 0;
+      const motivos = new Set<MotivoDescuento>();
+      for (const item of items) {
+        const descuento = parseFloat(item.descuento ?? "0") || 0;
+        if (descuento > 0 && item.motivoDescuento) {
+          motivos.add(item.motivoDescuento);
+          if (!sale.anulada) sumarMotivo(item.motivoDescuento, descuento);
+        }
+      }
+      if (descuentoGlobal > 0 && sale.motivoDescuentoGlobal) {
+        motivos.add(sale.motivoDescuentoGlobal);
+        if (!sale.anulada) sumarMotivo(sale.motivoDescuentoGlobal, descuentoGlobal);
+      }
+
+      const total = parseFloat(sale.total);
+      registros.push({
+        saleId: sale.id,
+        fecha: new Date(sale.fecha).toISOString(),
+        numeroFactura: sale.numeroFactura,
+        cajero: nombreDe(sale.createdBy),
+        autorizadoPor: nombreDe(sale.descuentoAutorizadoPor ?? null),
+        totalBruto: total + descuentoTotal,
+        descuentoLineas: descuentoTotal - descuentoGlobal,
+        descuentoGlobal,
+        descuentoTotal,
+        total,
+        motivos: Array.from(motivos),
+        anulada: sale.anulada
+      });
+    }
+    registros.sort((a, b) => a.fecha.localeCompare(b.fecha) || a.numeroFactura.localeCompare(b.numeroFactura));
+
+    const vigentes = registros.filter(registro => !registro.anulada);
+    const totalBruto = vigentes.reduce((sum, registro) => sum + registro.totalBruto, 0);
+    const descuentoTotal = vigentes.reduce((sum, registro) => sum + registro.descuentoTotal, 0);
+
+    return {
+      periodo,
+      registros,
+      totales: {
+        cantidad: vigentes.length,
+        totalBruto,
+        descuentoTotal,
+        porcentaje: totalBruto > 0 ? Math.round(descuentoTotal * 10000 / totalBruto) / 100 : 0,
+        autorizados: vigentes.filter(registro => registro.autorizadoPor).length
+      },
+      porMotivo: Array.from(porMotivo.values()).sort((a, b) => b.total - a.total),
+      porCajero: this.agrupar(vigentes, registro => registro.cajero ?? "Sin usuario")
+        .map(({ clave, ...grupo }) => ({ cajero: clave, ...grupo })),
+      porAutorizador: this.agrupar(vigentes.filter(registro => registro.autorizadoPor), registro => registro.autorizadoPor!)
+        .map(({ clave, ...grupo }) => ({ autorizadoPor: clave, ...grupo }))
+    };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  // Whether the PIN is the one of an active admin
+  private static async pinValido(adminId: string, pin: string): Promise<boolean> {
+    const admin = await storage.getUser(adminId);
+    if (!admin || admin.role !== "admin" || !admin.isActive || admin.isBlocked || !admin.pinAutorizacion) {
+      return false;
+    }
+    return PasswordUtils.comparePassword(pin, admin.pinAutorizacion);
+  }
+
+  // Whether the user ran out of PIN attempts less than BLOQUEO_PIN_MINUTOS ago
+  private static bloqueado(user: User): boolean {
+    if (user.failedPinAttempts < MAX_INTENTOS_PIN || !user.lastFailedPin) {
+      return false;
+    }
+    return Date.now() - new Date(user.lastFailedPin).getTime() < BLOQUEO_PIN_MINUTOS * 60 * 1000;
+  }
+
+  private static agrupar(
+    registros: RegistroDescuento[],
+    clave: (registro: RegistroDescuento) => string
+  ): { clave: string; cantidad: number; total: number }[] {
+    const grupos = new Map<string, { clave: string; cantidad: number; total: number }>();
+    for (const registro of registros) {
+      const grupo = grupos.get(clave(registro)) ?? { clave: clave(registro), cantidad: 0, total: 0 };
+      grupo.cantidad++;
+      grupo.total += registro.descuentoTotal;
+      grupos.set(grupo.clave, grupo);
+    }
+    return Array.from(grupos.values()).sort((a, b) => b.total - a.total);
+  }
+}
@@ -0,0 +1,386 @@
+import type {
+  CompanyConfig,
+  Establecimiento,
+  PuntoExpedicion,
+  InsertEstablecimientoType,
+  InsertPuntoExpedicionType
+} from "@shared/schema";
+import { storage } from "./storage";
+import { TimbradoService, type TimbradoErrorCode } from "./timbrados";
+
+/**
+ * Establecimientos and puntos de expedición catalog
+ * Every document number is establecimiento-punto-número, so each punto (cash register) keeps
+ * its own sequence. Users are assigned to a punto; unassigned users invoice from the
+ * establecimiento/punto configured in CompanyConfig.
+ */
+
+export type EstablecimientoErrorCode =
+  | "ESTABLECIMIENTO_NOT_FOUND"
+  | "PUNTO_NOT_FOUND"
+  | "PUNTO_NOT_CONFIGURED"
+  | "PUNTO_INACTIVE"
+  | "DUPLICATE_CODE"
+  | "IN_USE";
+
+export interface PuntoAsignado {
+  success: boolean;
+  establecimiento?: Establecimiento;
+  punto?: PuntoExpedicion;
+  error?: string;
+  code?: EstablecimientoErrorCode;
+}
+
+export interface PuntoExpedicionDetalle extends PuntoExpedicion {
+  usuarios: number; // Users assigned to the punto
+  timbrado: {
+    timbradoId?: string;
+    numero?: string;
+    numeroInicial?: number;
+    numeroFinal?: number;
+    siguienteNumero?: number;
+    numerosDisponibles?: number;
+    error?: string;
+    code?: TimbradoErrorCode;
+  };
+}
+
+export interface EstablecimientoDetalle extends Establecimiento {
+  puntos: PuntoExpedicionDetalle[];
+}
+
+export class EstablecimientoService {
+  /**
+   * Establecimiento and punto a user invoices from
+   * Falls back to the establecimiento/punto of CompanyConfig for users without an assignment
+   */
+  static async resolverPunto(puntoExpedicionId: string | null | undefined): Promise<PuntoAsignado> {
+    if (!puntoExpedicionId) {
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig || !companyConfig.establecimiento || !companyConfig.puntoExpedicion) {
+        return {
+          success: false,
+          error: "Establecimiento y punto de expedición no configurados. Complete la configuración fiscal.",
+          code: "PUNTO_NOT_CONFIGURED"
+        };
+      }
+
+      await this.asegurarCatalogo(companyConfig);
+      const encontrado = await this.buscarPorCodigo(companyConfig.establecimiento, companyConfig.puntoExpedicion);
+      if (!encontrado) {
+        return {
+          success: false,
+          error: `El punto ${companyConfig.establecimiento}-${companyConfig.puntoExpedicion} no está en el catálogo de puntos de expedición.`,
+          code: "PUNTO_NOT_FOUND"
+        };
+      }
+      return this.verificarActivo(encontrado.establecimiento, encontrado.punto);
+    }
+
+    const punto = await storage.getPuntoExpedicion(puntoExpedicionId);
+    const establecimiento = punto ? await storage.getEstablecimiento(punto.establecimientoId) : undefined;
+    if (!punto || !establecimiento) {
+      return {
+        success: false,
+        error: "El punto de expedición asignado al usuario no existe. Solicite a un administrador que lo reasigne.",
+        code: "PUNTO_NOT_FOUND"
+      };
+    }
+    return this.verificarActivo(establecimiento, punto);
+  }
+
+  /**
+   * Establecimiento and punto of a document number prefix; deactivated puntos are found too
+   */
+  static async buscarPunto(codigoEstablecimiento: string, codigoPunto: string): Promise<PuntoAsignado> {
+    const encontrado = await this.buscarPorCodigo(codigoEstablecimiento, codigoPunto);
+    if (!encontrado) {
+      return {
+        success: false,
+        error: `El punto ${codigoEstablecimiento}-${codigoPunto} no está en el catálogo de puntos de expedición.`,
+        code: "PUNTO_NOT_FOUND"
+      };
+    }
+    return { success: true, ...encontrado };
+  }
+
+  /**
+   * Issuer data for a document: address and phone of the establecimiento in its number
+   * Used by the DE XML and the KuDE; unknown establecimientos keep the CompanyConfig data
+   */
+  static async configuracionEmisor(companyConfig: CompanyConfig, numeroDocumento: string): Promise<CompanyConfig> {
+    const [codigo] = numeroDocumento.split('-');
+    const establecimiento = (await storage.getEstablecimientos()).find(e => e.codigo === codigo);
+    if (!establecimiento) {
+      return companyConfig;
+    }
+
+    return {
+      ...companyConfig,
+      direccion: establecimiento.direccion,
+      ciudad: establecimiento.ciudad,
+      telefono: establecimiento.telefono ?? companyConfig.telefono
+    };
+  }
+
+  /**
+   * Catalog with the puntos of every establecimiento, their users and the range of the vigente timbrado
+   */
+  static async listar(): Promise<EstablecimientoDetalle[]> {
+    const companyConfig = await storage.getCompanyConfig();
+    if (companyConfig) {
+      await this.asegurarCatalogo(companyConfig);
+    }
+
+    const usuarios = await storage.getUsers();
+    const detalle: EstablecimientoDetalle[] = [];
+    for (const establecimiento of await storage.getEstablecimientos()) {
+      const puntos: PuntoExpedicionDetalle[] = [];
+      for (const punto of await storage.getPuntosExpedicion(establecimiento.id)) {
+        const vigente = await TimbradoService.consultarVigente(new Date(), {
+          establecimiento: establecimiento.codigo,
+          puntoExpedicion: punto.codigo
+        });
+        puntos.push({
+          ...punto,
+          usuarios: usuarios.filter(user => user.puntoExpedicionId === punto.id).length,
+          timbrado: {
+            timbradoId: vigente.timbrado?.id,
+            numero: vigente.timbrado?.numero,
+            numeroInicial: vigente.rango?.numeroInicial,
+            numeroFinal: vigente.rango?.numeroFinal,
+            siguienteNumero: vigente.siguienteNumero,
+            numerosDisponibles: vigente.numerosDisponibles,
+            error: vigente.error,
+            code: vigente.code
+          }
+        });
+      }
+      detalle.push({ ...establecimiento, puntos });
+    }
+    return detalle;
+  }
+
+  static async crearEstablecimiento(data: InsertEstablecimientoType): Promise<{
+    success: boolean;
+    establecimiento?: Establecimiento;
+    error?: string;
+    code?: EstablecimientoErrorCode;
+  }> {
+    const existentes = await storage.getEstablecimientos();
+    if (existentes.some(e => e.codigo === data.codigo)) {
+      return { success: false, error: `Ya existe el establecimiento ${data.codigo}`, code: "DUPLICATE_CODE" };
+    }
+
+    return { success: true, establecimiento: await storage.createEstablecimiento(data) };
+  }
+
+  /**
+   * The code cannot change once documents were numbered with it
+   */
+  static async actualizarEstablecimiento(id: string, data: InsertEstablecimientoType): Promise<{
+    success: boolean;
+    establecimiento?: Establecimiento;
+    error?: string;
+    code?: EstablecimientoErrorCode;
+  }> {
+    const establecimiento = await storage.getEstablecimiento(id);
+    if (!establecimiento) {
+      return { success: false, error: "Establecimiento no encontrado", code: "ESTABLECIMIENTO_NOT_FOUND" };
+    }
+
+    if (data.codigo !== establecimiento.codigo) {
+      const existentes = await storage.getEstablecimientos();
+      if (existentes.some(e => e.codigo === data.codigo)) {
+        return { success: false, error: `Ya existe el establecimiento ${data.codigo}`, code: "DUPLICATE_CODE" };
+      }
+      if (await this.tieneDocumentos(`${establecimiento.codigo}-`)) {
+        return {
+          success: false,
+          error: "No se puede cambiar el código de un establecimiento con documentos emitidos",
+          code: "IN_USE"
+        };
+      }
+    }
+
+    return { success: true, establecimiento: await storage.updateEstablecimiento(id, data) };
+  }
+
+  static async eliminarEstablecimiento(id: string): Promise<{ success: boolean; error?: string; code?: EstablecimientoErrorCode }> {
+    const establecimiento = await storage.getEstablecimiento(id);
+    if (!establecimiento) {
+      return { success: false, error: "Establecimiento no encontrado", code: "ESTABLECIMIENTO_NOT_FOUND" };
+    }
+
+    if ((await storage.getPuntosExpedicion(id)).length > 0) {
+      return {
+        success: false,
+        error: "El establecimiento tiene puntos de expedición; elimínelos primero o desactive el establecimiento",
+        code: "IN_USE"
+      };
+    }
+
+    await storage.deleteEstablecimiento(id);
+    return { success: true };
+  }
+
+  static async crearPunto(data: InsertPuntoExpedicionType): Promise<{
+    success: boolean;
+    punto?: PuntoExpedicion;
+    error?: string;
+    code?: EstablecimientoErrorCode;
+  }> {
+    const establecimiento = await storage.getEstablecimiento(data.establecimientoId);
+    if (!establecimiento) {
+      return { success: false, error: "Establecimiento no encontrado", code: "ESTABLECIMIENTO_NOT_FOUND" };
+    }
+
+    const puntos = await storage.getPuntosExpedicion(establecimiento.id);
+    if (puntos.some(punto => punto.codigo === data.codigo)) {
+      return {
+        success: false,
+        error: `Ya existe el punto ${establecimiento.codigo}-${data.codigo}`,
+        code: "DUPLICATE_CODE"
+      };
+    }
+
+    return { success: true, punto: await storage.createPuntoExpedicion(data) };
+  }
+
+  /**
+   * Puntos stay under their establecimiento; the code cannot change once documents were numbered with it
+   */
+  static async actualizarPunto(id: string, data: InsertPuntoExpedicionType): Promise<{
+    success: boolean;
+    punto?: PuntoExpedicion;
+    error?: string;
+    code?: EstablecimientoErrorCode;
+  }> {
+    const punto = await storage.getPuntoExpedicion(id);
+    const establecimiento = punto ? await storage.getEstablecimiento(punto.establecimientoId) : undefined;
+    if (!punto || !establecimiento) {
+      return { success: false, error: "Punto de expedición no encontrado", code: "PUNTO_NOT_FOUND" };
+    }
+
+    if (data.codigo !== punto.codigo) {
+      const puntos = await storage.getPuntosExpedicion(establecimiento.id);
+      if (puntos.some(p => p.codigo === data.codigo)) {
+        return {
+          success: false,
+          error: `Ya existe el punto ${establecimiento.codigo}-${data.codigo}`,
+          code: "DUPLICATE_CODE"
+        };
+      }
+      if (await this.tieneDocumentos(`${establecimiento.codigo}-${punto.codigo}-`)) {
+        return {
+          success: false,
+          error: "No se puede cambiar el código de un punto de expedición con documentos emitidos",
+          code: "IN_USE"
+        };
+      }
+    }
+
+    return {
+      success: true,
+      punto: await storage.updatePuntoExpedicion(id, {
+        codigo: data.codigo,
+        descripcion: data.descripcion,
+        activo: data.activo
+      })
+    };
+  }
+
+  /**
+   * Only puntos without documents or assigned users can be removed; deactivate the rest
+   */
+  static async eliminarPunto(id: string): Promise<{ success: boolean; error?: string; code?: EstablecimientoErrorCode }> {
+    const punto = await storage.getPuntoExpedicion(id);
+    const establecimiento = punto ? await storage.getEstablecimiento(punto.establecimientoId) : undefined;
+    if (!punto || !establecimiento) {
+      return { success: false, error: "Punto de expedición no encontrado", code: "PUNTO_NOT_FOUND" };
+    }
+
+    const usuarios = await storage.getUsers();
+    if (usuarios.some(user => user.puntoExpedicionId === id) ||
+        await this.tieneDocumentos(`${establecimiento.codigo}-${punto.codigo}-`)) {
+      return {
+        success: false,
+        error: "El punto de expedición tiene usuarios asignados o documentos emitidos; desactívelo en lugar de eliminarlo",
+        code: "IN_USE"
+      };
+    }
+
+    await storage.deletePuntoExpedicion(id);
+    return { success: true };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  /**
+   * Seed the catalog from CompanyConfig the first time (installations predating the catalog)
+   * and keep the configured establecimiento/punto in it when the fiscal form changes them
+   */
+  private static async asegurarCatalogo(companyConfig: CompanyConfig): Promise<void> {
+    if (!companyConfig.establecimiento || !companyConfig.puntoExpedicion) {
+      return;
+    }
+
+    let establecimiento = (await storage.getEstablecimientos()).find(e => e.codigo === companyConfig.establecimiento);
+    if (!establecimiento) {
+      establecimiento = await storage.createEstablecimiento({
+        codigo: companyConfig.establecimiento,
+        nombre: companyConfig.nombreFantasia || "Casa matriz",
+        direccion: companyConfig.direccion,
+        ciudad: companyConfig.ciudad,
+        telefono: companyConfig.telefono
+      });
+      console.log(`🏢 Establecimiento ${establecimiento.codigo} registrado desde la configuración de la empresa`);
+    }
+
+    const puntos = await storage.getPuntosExpedicion(establecimiento.id);
+    if (!puntos.some(punto => punto.codigo === companyConfig.puntoExpedicion)) {
+      await storage.createPuntoExpedicion({
+        establecimientoId: establecimiento.id,
+        codigo: companyConfig.puntoExpedicion,
+        descripcion: "Caja principal"
+      });
+    }
+  }
+
+  private static async buscarPorCodigo(codigoEstablecimiento: string, codigoPunto: string): Promise<{
+    establecimiento: Establecimiento;
+    punto: PuntoExpedicion;
+  } | null> {
+    const establecimiento = (await storage.getEstablecimientos()).find(e => e.codigo === codigoEstablecimiento);
+    if (!establecimiento) {
+      return null;
+    }
+
+    const punto = (await storage.getPuntosExpedicion(establecimiento.id)).find(p => p.codigo === codigoPunto);
+    return punto ? { establecimiento, punto } : null;
+  }
+
+  private static verificarActivo(establecimiento: Establecimiento, punto: PuntoExpedicion): PuntoAsignado {
+    if (!establecimiento.activo || !punto.activo) {
+      return {
+        success: false,
+        error: `El punto de expedición ${establecimiento.codigo}-${punto.codigo} está desactivado.`,
+        code: "PUNTO_INACTIVE"
+      };
+    }
+    return { success: true, establecimiento, punto };
+  }
+
+  private static async tieneDocumentos(prefijo: string): Promise<boolean> {
+    const [sales, notasCredito, notasDebito] = await Promise.all([
+      storage.getSales(),
+      storage.getNotasCredito(),
+      storage.getNotasDebito()
+    ]);
+    return sales.some(sale => sale.numeroFactura.startsWith(prefijo)) ||
+      notasCredito.some(nota => nota.numero.startsWith(prefijo)) ||
+      notasDebito.some(nota => nota.numero.startsWith(prefijo));
+  }
+}
@@ -1,6 +1,7 @@
 import express, { type Request, Response, NextFunction } from "express";
 import session from "express-session";
 import { registerRoutes } from "./routes";
+import { SifenQueueService } from "./sifen-queue";
 import { log, serveStatic as serveStaticProd } from "./static";
 
 // Import memory session store
@@ -134,11 +135,15 @@ app.use((req, res, next) => {
     log(`🚀 Aurum POS Server running on port ${port}`);
     log(`🌐 Environment: ${process.env.NODE_ENV || 'development'}`);
     (globalThis as any).__httpServer = httpServer;
+
+    // Background sending of electronic documents to SIFEN
+    SifenQueueService.start();
   });
   
   // Graceful shutdown to free port on restart
   const shutdown = () => {
     try {
+      SifenQueueService.stop();
       if (httpServer) {
         httpServer.close(() => process.exit(0));
       } else {
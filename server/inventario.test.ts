@@ -0,0 +1,104 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { saldoStock } from "@shared/inventario";
+import { prepararStorage } from "./test-storage";
+
+type Modulos = {
+  storage: typeof import("./storage").storage;
+  InventarioService: typeof import("./inventario").InventarioService;
+};
+
+let m: Modulos;
+
+before(async () => {
+  prepararStorage("inventario");
+  const { storage } = await import("./storage");
+  const { InventarioService } = await import("./inventario");
+  m = { storage, InventarioService };
+});
+
+const crearProducto = async (nombre: string, stockActual: number) => {
+  const item = await m.storage.createInventoryItem({ nombre, precio: "21000", stockActual, stockMinimo: 1, categoria: "Accesorios" });
+  await m.InventarioService.abrirKardex(item);
+  return item;
+};
+
+test("concurrent sales cannot take the same units", async () => {
+  const item = await crearProducto("Aromatizante", 3);
+  const lineas = [{ inventoryItemId: item.id, cantidad: 2 }];
+
+  const resultados = await Promise.all([
+    m.InventarioService.apartar(lineas, { permitirNegativo: false }),
+    m.InventarioService.apartar(lineas, { permitirNegativo: false })
+  ]);
+
+  assert.deepEqual(resultados.map(r => r.success).sort(), [false, true]);
+  assert.equal(resultados.find(r => !r.success)!.code, "INSUFFICIENT_STOCK");
+  assert.equal((await m.storage.getInventoryItem(item.id))!.stockActual, 1);
+
+  // The movement of the sale leaves stockActual as the sum of the ledger
+  await m.InventarioService.registrarVenta(lineas, { referencia: "001-001-0000001" });
+  const actual = (await m.storage.getInventoryItem(item.id))!.stockActual;
+  assert.equal(actual, 1);
+  assert.equal(saldoStock(await m.storage.getMovimientosStock(item.id)), actual);
+});
+
+test("a product short of stock gives back the ones already taken", async () => {
+  const cera = await crearProducto("Cera", 5);
+  const shampoo = await crearProducto("Shampoo", 1);
+
+  const result = await m.InventarioService.apartar([
+    { inventoryItemId: cera.id, cantidad: 2 },
+    { inventoryItemId: shampoo.id, cantidad: 2 }
+  ], { permitirNegativo: false });
+
+  assert.equal(result.code, "INSUFFICIENT_STOCK");
+  assert.equal((await m.storage.getInventoryItem(cera.id))!.stockActual, 5);
+  assert.equal((await m.storage.getInventoryItem(shampoo.id))!.stockActual, 1);
+});
+
+test("negative stock is taken only when allowed", async () => {
+  const item = await crearProducto("Paño", 1);
+
+  const result = await m.InventarioService.apartar([{ inventoryItemId: item.id, cantidad: 3 }], { permitirNegativo: true });
+  assert.equal(result.success, true);
+  assert.equal((await m.storage.getInventoryItem(item.id))!.stockActual, -2);
+
+  await m.InventarioService.liberar([{ inventoryItemId: item.id, cantidad: 3 }]);
+  assert.equal((await m.storage.getInventoryItem(item.id))!.stockActual, 1);
+});
+
+test("a sale that fails once saved gives back its stock and keeps the ledger", async () => {
+  const cera = await crearProducto("Cera líquida", 5);
+  const shampoo = await crearProducto("Shampoo neutro", 4);
+  const lineas = [{ inventoryItemId: cera.id, cantidad: 2 }, { inventoryItemId: shampoo.id, cantidad: 1 }];
+  await m.InventarioService.apartar(lineas, { permitirNegativo: false });
+
+  // Only the first product got its venta movement before the failure
+  await m.InventarioService.registrarVenta([lineas[0]], { saleId: "venta-fallida", referencia: "001-001-0000002" });
+  await m.InventarioService.deshacerVenta(lineas, { saleId: "venta-fallida", referencia: "001-001-0000002" });
+
+  for (const [item, stock] of [[cera, 5], [shampoo, 4]] as const) {
+    const actual = (await m.storage.getInventoryItem(item.id))!.stockActual;
+    assert.equal(actual, stock);
+    assert.equal(saldoStock(await m.storage.getMovimientosStock(item.id)), actual);
+  }
+});
+
+test("the first sale of a product at zero stock counts it down once", async () => {
+  const item = await m.storage.createInventoryItem({ nombre: "Silicona", precio: "15000", stockActual: 0, stockMinimo: 1, categoria: "Accesorios" });
+  const lineas = [{ inventoryItemId: item.id, cantidad: 2 }];
+
+  const resultados = await Promise.all([
+    m.InventarioService.apartar(lineas, { permitirNegativo: true }),
+    m.InventarioService.apartar(lineas, { permitirNegativo: true })
+  ]);
+  assert.ok(resultados.every(r => r.success));
+  await m.InventarioService.registrarVenta(lineas, { referencia: "001-001-0000003" });
+  await m.InventarioService.registrarVenta(lineas, { referencia: "001-001-0000004" });
+
+  const movimientos = await m.storage.getMovimientosStock(item.id);
+  assert.equal(movimientos.filter(mov => mov.tipo === "inicial").length, 1);
+  assert.equal((await m.storage.getInventoryItem(item.id))!.stockActual, -4);
+  assert.equal(saldoStock(movimientos), -4);
+});
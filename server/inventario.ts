@@ -0,0 +1,281 @@
+import type { InventoryItem, MovimientoStock, NotaCreditoMotivo, TipoMovimientoStock, AjusteStockType } from "@shared/schema";
+import { cantidadesPorProducto, saldoStock, lineasKardex, type LineaKardex } from "@shared/inventario";
+import { storage } from "./storage";
+
+/**
+ * Product stock ledger
+ * Stock only changes through movements: a sale takes its products out of stockActual in one atomic
+ * update per product before the invoice number is reserved, so two cashiers cannot sell the same
+ * units, and records the venta movements once it is saved. Cancelling a sale returns its products and
+ * a credit note returns the credited quantities when the goods come back (devolución). Purchases,
+ * consumption by services, adjustments and counts are entered by hand. Each movement moves stockActual
+ * by its quantity, keeping it the sum of the movements; every product opens its ledger once with an
+ * inicial movement of the stock it had, zero included. Selling or removing beyond the stock on hand is
+ * only possible when the admin allows negative stock in the company settings.
+ */
+
+export type InventarioErrorCode = "PRODUCT_NOT_FOUND" | "INSUFFICIENT_STOCK" | "REASON_REQUIRED";
+
+// Line with a product quantity; lines without inventoryItemId (services, combos) leave stock alone
+export interface LineaStock {
+  inventoryItemId: string | null | undefined;
+  cantidad: number;
+}
+
+// Document and user behind a movement
+export interface OrigenMovimiento {
+  saleId?: string | null;
+  referencia?: string | null;
+  motivo?: string | null;
+  userId?: string | null;
+}
+
+export interface KardexProducto {
+  item: InventoryItem;
+  movimientos: (LineaKardex & { usuario: string | null })[];
+}
+
+// Credit note motives that return the goods to stock
+const MOTIVOS_DEVOLUCION: NotaCreditoMotivo[] = ["devolucion_ajuste", "devolucion"];
+
+export class InventarioService {
+  /**
+   * Whether the stock on hand covers the product lines of a sale
+   * Units the sale already took out (when its items are replaced) count as available again
+   */
+  static async verificarStock(
+    lineas: LineaStock[],
+    opciones: { permitirNegativo: boolean; devueltas?: LineaStock[] }
+  ): Promise<{ success: boolean; error?: string; code?: InventarioErrorCode }> {
+    const devueltas = cantidadesPorProducto(opciones.devueltas ?? []);
+
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      const producto = await storage.getInventoryItem(inventoryItemId);
+      if (!producto) {
+        return { success: false, error: "Producto no encontrado en el inventario", code: "PRODUCT_NOT_FOUND" };
+      }
+
+      const disponible = producto.stockActual + (devueltas.get(inventoryItemId) ?? 0);
+      if (cantidad > disponible && !opciones.permitirNegativo) {
+        return {
+          success: false,
+          error: `Stock insuficiente de ${producto.nombre}: disponible ${Math.max(disponible, 0)}, solicitado ${cantidad}`,
+          code: "INSUFFICIENT_STOCK"
+        };
+      }
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Take the product lines of a new sale out of stockActual before it is numbered
+   * Each product is taken in one conditional update; when one falls short the others are given back
+   */
+  static async apartar(
+    lineas: LineaStock[],
+    opciones: { permitirNegativo: boolean }
+  ): Promise<{ success: boolean; error?: string; code?: InventarioErrorCode }> {
+    const apartadas: LineaStock[] = [];
+
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      const producto = await storage.getInventoryItem(inventoryItemId);
+      if (!producto) {
+        await this.liberar(apartadas);
+        return { success: false, error: "Producto no encontrado en el inventario", code: "PRODUCT_NOT_FOUND" };
+      }
+
+      await this.abrirKardex(producto);
+      const actualizado = await storage.adjustInventoryStock(inventoryItemId, -cantidad, opciones.permitirNegativo);
+      if (!actualizado) {
+        await this.liberar(apartadas);
+        const disponible = (await storage.getInventoryItem(inventoryItemId))?.stockActual ?? 0;
+        return {
+          success: false,
+          error: `Stock insuficiente de ${producto.nombre}: disponible ${Math.max(disponible, 0)}, solicitado ${cantidad}`,
+          code: "INSUFFICIENT_STOCK"
+        };
+      }
+      apartadas.push({ inventoryItemId, cantidad });
+    }
+
+    return { success: true };
+  }
+
+  /**
+   * Give back the stock apartado for a sale that could not be recorded
+   */
+  static async liberar(lineas: LineaStock[]): Promise<void> {
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      await storage.adjustInventoryStock(inventoryItemId, cantidad, true);
+    }
+  }
+
+  /**
+   * Record the venta movements of the stock apartado for a sale once it is saved
+   */
+  static async registrarVenta(lineas: LineaStock[], origen: OrigenMovimiento): Promise<void> {
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      await this.registrarProducto(inventoryItemId, "venta", -cantidad, origen, { apartado: true });
+    }
+  }
+
+  /**
+   * Undo the stock of a sale that failed once saved: units with a venta movement come back with a
+   * devolucion, those still only apartados are released
+   */
+  static async deshacerVenta(lineas: LineaStock[], origen: OrigenMovimiento & { saleId: string }): Promise<void> {
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      const vendidas = (await storage.getMovimientosStock(inventoryItemId))
+        .filter(movimiento => movimiento.saleId === origen.saleId && movimiento.tipo === "venta")
+        .reduce((total, movimiento) => total - movimiento.cantidad, 0);
+      if (vendidas > 0) {
+        await this.registrarProducto(inventoryItemId, "devolucion", vendidas, origen);
+      }
+      if (cantidad > vendidas) {
+        await storage.adjustInventoryStock(inventoryItemId, cantidad - vendidas, true);
+      }
+    }
+  }
+
+  /**
+   * Take the product lines of a sale out of stock
+   */
+  static async descontar(lineas: LineaStock[], origen: OrigenMovimiento): Promise<void> {
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      await this.registrarProducto(inventoryItemId, "venta", -cantidad, origen);
+    }
+  }
+
+  /**
+   * Put the product lines of a cancelled, credited or replaced sale back in stock
+   */
+  static async reponer(lineas: LineaStock[], origen: OrigenMovimiento): Promise<void> {
+    for (const [inventoryItemId, cantidad] of Array.from(cantidadesPorProducto(lineas))) {
+      await this.registrarProducto(inventoryItemId, "devolucion", cantidad, origen);
+    }
+  }
+
+  /**
+   * Whether a credit note with this motive returns the goods to stock
+   */
+  static devuelveMercaderia(motivo: NotaCreditoMotivo): boolean {
+    return MOTIVOS_DEVOLUCION.includes(motivo);
+  }
+
+  /**
+   * Record a movement entered by hand
+   * A count records the difference between the units counted and the stock on hand
+   */
+  static async registrarAjuste(
+    inventoryItemId: string,
+    data: AjusteStockType,
+    opciones: { userId: string; permitirNegativo: boolean }
+  ): Promise<{ success: boolean; item?: InventoryItem; movimiento?: MovimientoStock; error?: string; code?: InventarioErrorCode }> {
+    const item = await storage.getInventoryItem(inventoryItemId);
+    if (!item) {
+      return { success: false, error: "Producto no encontrado en el inventario", code: "PRODUCT_NOT_FOUND" };
+    }
+
+    const tipo: TipoMovimientoStock = data.action === "count"
+      ? "conteo"
+      : data.tipo ?? (data.action === "add" ? "compra" : "ajuste");
+    const motivo = data.motivo?.trim() || null;
+    if (tipo === "ajuste" && !motivo) {
+      return { success: false, error: "Indique el motivo del ajuste", code: "REASON_REQUIRED" };
+    }
+
+    const stock = await this.abrirKardex(item, opciones.userId);
+    const cantidad = data.action === "add" ? data.quantity
+      : data.action === "remove" ? -data.quantity
+      : data.quantity - stock;
+    if (cantidad < 0 && stock + cantidad < 0 && !opciones.permitirNegativo) {
+      return {
+        success: false,
+        error: `Stock insuficiente de ${item.nombre}: disponible ${Math.max(stock, 0)}, a descontar ${-cantidad}`,
+        code: "INSUFFICIENT_STOCK"
+      };
+    }
+
+    const movimiento = await this.registrar(item, tipo, cantidad, {
+      motivo,
+      referencia: data.referencia?.trim() || null,
+      userId: opciones.userId
+    });
+    return { success: true, item: await storage.getInventoryItem(inventoryItemId), movimiento };
+  }
+
+  /**
+   * Movements of a product with the running balance and who recorded them
+   */
+  static async kardex(inventoryItemId: string): Promise<{ success: boolean; kardex?: KardexProducto; error?: string; code?: InventarioErrorCode }> {
+    const item = await storage.getInventoryItem(inventoryItemId);
+    if (!item) {
+      return { success: false, error: "Producto no encontrado en el inventario", code: "PRODUCT_NOT_FOUND" };
+    }
+
+    await this.abrirKardex(item);
+    const usuarios = new Map<string, string | null>();
+    const movimientos: KardexProducto["movimientos"] = [];
+    for (const linea of lineasKardex(await storage.getMovimientosStock(inventoryItemId))) {
+      if (linea.userId && !usuarios.has(linea.userId)) {
+        const user = await storage.getUser(linea.userId);
+        usuarios.set(linea.userId, user ? user.fullName || user.username : null);
+      }
+      movimientos.push({ ...linea, usuario: linea.userId ? usuarios.get(linea.userId) ?? null : null });
+    }
+
+    return { success: true, kardex: { item, movimientos } };
+  }
+
+  /**
+   * Open the ledger of a product with the stock it has, once, before anything moves it; returns its stock
+   * Storage opens it in one step, so concurrent sales do not both record an inicial movement
+   */
+  static async abrirKardex(item: InventoryItem, userId?: string | null): Promise<number> {
+    await storage.openMovimientosStock(item.id, userId ?? null);
+    return saldoStock(await storage.getMovimientosStock(item.id));
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static async registrarProducto(
+    inventoryItemId: string,
+    tipo: TipoMovimientoStock,
+    cantidad: number,
+    origen: OrigenMovimiento,
+    opciones: { apartado: boolean } = { apartado: false }
+  ): Promise<void> {
+    // Products deleted from the catalog after the sale have no stock to move
+    const item = await storage.getInventoryItem(inventoryItemId);
+    if (!item) return;
+    await this.registrar(item, tipo, cantidad, origen, opciones);
+  }
+
+  private static async registrar(
+    item: InventoryItem,
+    tipo: TipoMovimientoStock,
+    cantidad: number,
+    origen: OrigenMovimiento,
+    opciones: { apartado: boolean } = { apartado: false }
+  ): Promise<MovimientoStock> {
+    await this.abrirKardex(item, origen.userId);
+    const movimiento = await storage.createMovimientoStock({
+      inventoryItemId: item.id,
+      tipo,
+      cantidad,
+      motivo: origen.motivo ?? null,
+      referencia: origen.referencia ?? null,
+      saleId: origen.saleId ?? null,
+      userId: origen.userId ?? null
+    });
+
+    // Units apartados by a sale are already out of stockActual
+    if (!opciones.apartado) {
+      await storage.adjustInventoryStock(item.id, cantidad, true);
+    }
+    return movimiento;
+  }
+}
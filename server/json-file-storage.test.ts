@@ -0,0 +1,67 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import fs from "fs";
+import path from "path";
+import { cotizarVenta } from "@shared/precios";
+import type { JsonFileStorage } from "./json-file-storage";
+import { prepararStorage } from "./test-storage";
+
+let storage: JsonFileStorage;
+
+before(async () => {
+  prepararStorage("storage");
+  const { JsonFileStorage } = await import("./json-file-storage");
+  storage = new JsonFileStorage();
+});
+
+const catalogo = async () => ({
+  services: await storage.getServices(),
+  combos: await storage.getServiceCombos(),
+  inventoryItems: await storage.getInventoryItems()
+});
+
+test("catalog items created through storage can be sold", async () => {
+  const service = await storage.createService({ nombre: "Lavado", precio: "55000", duracionMin: 30, categoria: "Lavado" });
+  const combo = await storage.createServiceCombo({ nombre: "Lavado + Cera", precioTotal: 88000 });
+  const item = await storage.createInventoryItem({ nombre: "Aromatizante", precio: "21000", tasaIva: 5, stockActual: 4, stockMinimo: 1, categoria: "Accesorios" });
+
+  assert.equal(service.activo, true);
+  assert.equal((await storage.getActiveServices()).length, 1);
+  assert.equal((await storage.getActiveServiceCombos()).length, 1);
+
+  const resultado = cotizarVenta(
+    [
+      { type: "service", id: service.id, quantity: 1 },
+      { type: "combo", id: combo.id, quantity: 1 },
+      { type: "product", id: item.id, quantity: 2 }
+    ],
+    await catalogo(),
+    { regimenTurismo: false }
+  );
+
+  assert.equal(resultado.success, true, resultado.error);
+  // Catalog prices are net of IVA
+  assert.equal(resultado.cotizacion!.total, 60500 + 96800 + 44100);
+});
+
+test("inactive catalog items are not sold", async () => {
+  const service = await storage.createService({ nombre: "Pulido", precio: "120000", duracionMin: 60, categoria: "Estética", activo: false });
+
+  const resultado = cotizarVenta([{ type: "service", id: service.id, quantity: 1 }], await catalogo(), { regimenTurismo: false });
+
+  assert.equal(resultado.success, false);
+  assert.equal(resultado.code, "ITEM_INACTIVE");
+});
+
+test("records saved with isActive read as activo", async () => {
+  const file = path.join(process.cwd(), "data", "services.json");
+  const services = JSON.parse(fs.readFileSync(file, "utf8"));
+  services.push({ id: "legacy-service", nombre: "Aspirado", precio: "30000", tasaIva: 10, isActive: true });
+  fs.writeFileSync(file, JSON.stringify(services));
+
+  const service = await storage.getService("legacy-service");
+  assert.equal(service?.activo, true);
+
+  const resultado = cotizarVenta([{ type: "service", id: "legacy-service", quantity: 1 }], await catalogo(), { regimenTurismo: false });
+  assert.equal(resultado.success, true, resultado.error);
+});
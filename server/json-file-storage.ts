@@ -2,8 +2,16 @@ import {
   type User, type InsertUser, type InternalUpdateUser,
   type CompanyConfig, type InsertCompanyConfig,
   type DnitConfig, type InsertDnitConfig, type UpdateDnitConfig,
+  type Establecimiento, type InsertEstablecimiento,
+  type PuntoExpedicion, type InsertPuntoExpedicion,
+  type Moneda, type InsertMoneda,
+  type TipoCambio, type InsertTipoCambio,
+  type Timbrado, type InsertTimbrado,
+  type TimbradoRango, type InsertTimbradoRango,
+  type DocumentSequence, type DocumentSequenceKey,
   type Category, type InsertCategory,
   type Customer, type InsertCustomer,
+  type PadronRuc, type InsertPadronRuc, type PadronRucCambios,
   type Vehicle, type InsertVehicle,
   type Service, type InsertService,
   type ServiceCombo, type InsertServiceCombo,
@@ -12,13 +20,27 @@ import {
   type WorkOrderItem, type InsertWorkOrderItem,
   type InventoryItem, type InsertInventoryItem,
   type Sale, type InsertSale,
-  type SaleItem, type InsertSaleItem
+  type SaleItem, type InsertSaleItem,
+  type SalePago, type InsertSalePago,
+  type SifenLote, type InsertSifenLote,
+  type SifenEvento, type InsertSifenEvento,
+  type NotaCredito, type InsertNotaCredito,
+  type NotaCreditoItem, type InsertNotaCreditoItem,
+  type NotaDebito, type InsertNotaDebito,
+  type NotaDebitoItem, type InsertNotaDebitoItem,
+  type Recibo, type InsertRecibo,
+  type ReciboAplicacion, type InsertReciboAplicacion,
+  type SesionCaja, type InsertSesionCaja,
+  type MovimientoCaja, type InsertMovimientoCaja,
+  type MovimientoStock, type InsertMovimientoStock
 } from "@shared/schema";
+import { estadoAlertaStock } from "@shared/inventario";
 import { randomUUID } from "crypto";
 import path from "path";
 import fs from "fs";
 import { EncryptionService } from "./encryption";
 import { PasswordUtils } from "./password-utils";
+import { SifenClient } from "./sifen-client";
 import { IStorage } from "./storage";
 
 /**
@@ -28,6 +50,7 @@ import { IStorage } from "./storage";
 export class JsonFileStorage implements IStorage {
   private dataDir: string;
   private nextWorkOrderNumber: number = 1;
+  private padronRucIndex: Map<string, PadronRuc> | null = null; // The padrón is too large to read on every lookup
 
   constructor(dataDir?: string) {
     this.dataDir = dataDir || this.getUserDataPath();
@@ -50,8 +73,16 @@ export class JsonFileStorage implements IStorage {
       this.initializeDataFile('users.json', []);
       this.initializeDataFile('company_configs.json', []);
       this.initializeDataFile('dnit_configs.json', []);
+      this.initializeDataFile('establecimientos.json', []);
+      this.initializeDataFile('puntos_expedicion.json', []);
+      this.initializeDataFile('monedas.json', []);
+      this.initializeDataFile('tipos_cambio.json', []);
+      this.initializeDataFile('timbrados.json', []);
+      this.initializeDataFile('timbrado_rangos.json', []);
+      this.initializeDataFile('document_sequences.json', []);
       this.initializeDataFile('categories.json', []);
       this.initializeDataFile('customers.json', []);
+      this.initializeDataFile('padron_ruc.json', []);
       this.initializeDataFile('vehicles.json', []);
       this.initializeDataFile('services.json', []);
       this.initializeDataFile('service_combos.json', []);
@@ -61,6 +92,18 @@ export class JsonFileStorage implements IStorage {
       this.initializeDataFile('inventory_items.json', []);
       this.initializeDataFile('sales.json', []);
       this.initializeDataFile('sale_items.json', []);
+      this.initializeDataFile('sale_pagos.json', []);
+      this.initializeDataFile('sifen_lotes.json', []);
+      this.initializeDataFile('sifen_eventos.json', []);
+      this.initializeDataFile('notas_credito.json', []);
+      this.initializeDataFile('nota_credito_items.json', []);
+      this.initializeDataFile('notas_debito.json', []);
+      this.initializeDataFile('nota_debito_items.json', []);
+      this.initializeDataFile('recibos.json', []);
+      this.initializeDataFile('recibo_aplicaciones.json', []);
+      this.initializeDataFile('sesiones_caja.json', []);
+      this.initializeDataFile('movimientos_caja.json', []);
+      this.initializeDataFile('movimientos_stock.json', []);
       this.initializeDataFile('metadata.json', { nextWorkOrderNumber: 1 });
 
       // Load metadata
@@ -96,6 +139,15 @@ export class JsonFileStorage implements IStorage {
     }
   }
 
+  // Catalog records (services, combos, inventory items) written before they followed the schema
+  // carry isActive instead of activo; read them with the schema field
+  private readCatalogFile(filename: string): any[] {
+    return this.readDataFile(filename).map((record: any) => {
+      const { isActive, ...rest } = record;
+      return { ...rest, activo: record.activo ?? isActive ?? true };
+    });
+  }
+
   private writeDataFile(filename: string, data: any): void {
     try {
       const filePath = path.join(this.dataDir, filename);
@@ -230,6 +282,10 @@ export class JsonFileStorage implements IStorage {
         lastLogin: null,
         failedLoginAttempts: 0,
         lastFailedLogin: null,
+        puntoExpedicionId: insertUser.puntoExpedicionId || null,
+        pinAutorizacion: null,
+        failedPinAttempts: 0,
+        lastFailedPin: null,
         createdAt: now,
         updatedAt: now,
         createdBy: insertUser.createdBy || null
@@ -347,6 +403,9 @@ export class JsonFileStorage implements IStorage {
         email: config.email || null,
         logoPath: config.logoPath || null,
         moneda: config.moneda || "GS",
+        permitirStockNegativo: config.permitirStockNegativo ?? false,
+        descuentoMaximoUser: config.descuentoMaximoUser ?? 10,
+        descuentoMaximoAdmin: config.descuentoMaximoAdmin ?? 100,
         createdAt: now,
         updatedAt: now
       };
@@ -508,7 +567,17 @@ export class JsonFileStorage implements IStorage {
   async getDnitConfig(): Promise<DnitConfig | undefined> {
     try {
       const configs = this.readDataFile('dnit_configs.json');
-      return configs[0]; // Return first config
+      const config = configs[0]; // Return first config
+      if (!config) return undefined;
+
+      // Decrypt sensitive fields before returning
+      return {
+        ...config,
+        authToken: EncryptionService.decrypt(config.authToken),
+        certificatePassword: config.certificatePassword ? EncryptionService.decrypt(config.certificatePassword) : null,
+        idCsc: config.idCsc ?? null,
+        csc: config.csc ? EncryptionService.decrypt(config.csc) : null
+      };
     } catch (error) {
       console.error('Error getting DNIT config:', error);
       return undefined;
@@ -520,13 +589,22 @@ export class JsonFileStorage implements IStorage {
       const id = this.generateUUID();
       const now = new Date();
 
+      // Encrypt sensitive fields before storing
       const dnitConfig: DnitConfig = {
         id,
         endpointUrl: config.endpointUrl,
-        authToken: config.authToken,
+        authToken: EncryptionService.encrypt(config.authToken),
         certificateData: config.certificateData || null,
+        certificatePassword: config.certificatePassword
+          ? EncryptionService.encrypt(config.certificatePassword)
+          : null,
+        idCsc: config.idCsc || null,
+        csc: config.csc ? EncryptionService.encrypt(config.csc) : null,
         operationMode: config.operationMode || "testing",
         isActive: config.isActive !== undefined ? config.isActive : true,
+        lastConnectionTest: null,
+        lastConnectionStatus: null,
+        lastConnectionError: null,
         createdAt: now,
         updatedAt: now
       };
@@ -535,7 +613,13 @@ export class JsonFileStorage implements IStorage {
       configs.push(dnitConfig);
       this.writeDataFile('dnit_configs.json', configs);
 
-      return dnitConfig;
+      // Return decrypted version to caller
+      return {
+        ...dnitConfig,
+        authToken: config.authToken,
+        certificatePassword: config.certificatePassword || null,
+        csc: config.csc || null
+      };
     } catch (error) {
       console.error('Error creating DNIT config:', error);
       throw error;
@@ -551,16 +635,35 @@ export class JsonFileStorage implements IStorage {
         return undefined;
       }
 
+      // Encrypt sensitive fields if they're being updated
+      const processedConfig = { ...config };
+      if (config.authToken) {
+        processedConfig.authToken = EncryptionService.encrypt(config.authToken);
+      }
+      if (config.certificatePassword) {
+        processedConfig.certificatePassword = EncryptionService.encrypt(config.certificatePassword);
+      }
+      if (config.csc) {
+        processedConfig.csc = EncryptionService.encrypt(config.csc);
+      }
+
       const updatedConfig = {
         ...configs[configIndex],
-        ...config,
+        ...processedConfig,
         updatedAt: new Date()
       };
 
       configs[configIndex] = updatedConfig;
       this.writeDataFile('dnit_configs.json', configs);
 
-      return updatedConfig;
+      // Return decrypted version
+      return {
+        ...updatedConfig,
+        authToken: EncryptionService.decrypt(updatedConfig.authToken),
+        certificatePassword: updatedConfig.certificatePassword ? EncryptionService.decrypt(updatedConfig.certificatePassword) : null,
+        idCsc: updatedConfig.idCsc ?? null,
+        csc: updatedConfig.csc ? EncryptionService.decrypt(updatedConfig.csc) : null
+      };
     } catch (error) {
       console.error('Error updating DNIT config:', error);
       return undefined;
@@ -586,1112 +689,2805 @@ export class JsonFileStorage implements IStorage {
 
   async testDnitConnection(config: DnitConfig): Promise<{ success: boolean; error?: string }> {
     try {
-      // Mock DNIT connection test - implement actual test logic as needed
       console.log('Testing DNIT connection with config:', config.endpointUrl);
-      return { success: true };
+      const companyConfig = await this.getCompanyConfig();
+      return await new SifenClient(config).testConnection(companyConfig?.ruc);
     } catch (error) {
       return { success: false, error: error instanceof Error ? error.message : 'Unknown error' };
     }
   }
 
   // ============================
-  // CUSTOMERS
+  // ESTABLECIMIENTOS
   // ============================
 
-  async getCustomer(id: string): Promise<Customer | undefined> {
+  async getEstablecimiento(id: string): Promise<Establecimiento | undefined> {
     try {
-      const customers = this.readDataFile('customers.json');
-      return customers.find((customer: Customer) => customer.id === id);
+      const establecimientos = this.readDataFile('establecimientos.json');
+      return establecimientos.find((establecimiento: Establecimiento) => establecimiento.id === id);
     } catch (error) {
-      console.error('Error getting customer:', error);
+      console.error('Error getting establecimiento:', error);
       return undefined;
     }
   }
 
-  async getCustomers(): Promise<Customer[]> {
+  async getEstablecimientos(): Promise<Establecimiento[]> {
     try {
-      const customers = this.readDataFile('customers.json');
-      return customers.sort((a: Customer, b: Customer) => 
-        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
-      );
+      const establecimientos = this.readDataFile('establecimientos.json');
+      return establecimientos.sort((a: Establecimiento, b: Establecimiento) => a.codigo.localeCompare(b.codigo));
     } catch (error) {
-      console.error('Error getting customers:', error);
+      console.error('Error getting establecimientos:', error);
       return [];
     }
   }
 
-  async createCustomer(customer: InsertCustomer): Promise<Customer> {
+  async createEstablecimiento(establecimiento: InsertEstablecimiento): Promise<Establecimiento> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newCustomer: Customer = {
+      const newEstablecimiento: Establecimiento = {
         id,
-        nombre: customer.nombre,
-        apellido: customer.apellido || null,
-        docTipo: customer.docTipo,
-        docNumero: customer.docNumero,
-        ruc: customer.ruc || null,
-        telefono: customer.telefono || null,
-        email: customer.email || null,
-        direccion: customer.direccion || null,
-        ciudad: customer.ciudad || null,
-        fechaNacimiento: this.processDateString(customer.fechaNacimiento),
-        observaciones: customer.observaciones || null,
-        isActive: customer.isActive !== undefined ? customer.isActive : true,
+        codigo: establecimiento.codigo,
+        nombre: establecimiento.nombre,
+        direccion: establecimiento.direccion,
+        ciudad: establecimiento.ciudad,
+        telefono: establecimiento.telefono || null,
+        activo: establecimiento.activo !== undefined ? establecimiento.activo : true,
         createdAt: now,
         updatedAt: now
       };
 
-      const customers = this.readDataFile('customers.json');
-      customers.push(newCustomer);
-      this.writeDataFile('customers.json', customers);
+      const establecimientos = this.readDataFile('establecimientos.json');
+      establecimientos.push(newEstablecimiento);
+      this.writeDataFile('establecimientos.json', establecimientos);
 
-      return newCustomer;
+      return newEstablecimiento;
     } catch (error) {
-      console.error('Error creating customer:', error);
+      console.error('Error creating establecimiento:', error);
       throw error;
     }
   }
 
-  async updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer | undefined> {
+  async updateEstablecimiento(id: string, establecimiento: Partial<InsertEstablecimiento>): Promise<Establecimiento | undefined> {
     try {
-      const customers = this.readDataFile('customers.json');
-      const customerIndex = customers.findIndex((c: Customer) => c.id === id);
-      
-      if (customerIndex === -1) {
+      const establecimientos = this.readDataFile('establecimientos.json');
+      const index = establecimientos.findIndex((e: Establecimiento) => e.id === id);
+
+      if (index === -1) {
         return undefined;
       }
 
-      const updatedCustomer = {
-        ...customers[customerIndex],
-        ...customer,
-        fechaNacimiento: customer.fechaNacimiento ? this.processDateString(customer.fechaNacimiento) : customers[customerIndex].fechaNacimiento,
+      establecimientos[index] = {
+        ...establecimientos[index],
+        ...establecimiento,
         updatedAt: new Date()
       };
+      this.writeDataFile('establecimientos.json', establecimientos);
 
-      customers[customerIndex] = updatedCustomer;
-      this.writeDataFile('customers.json', customers);
-
-      return updatedCustomer;
+      return establecimientos[index];
     } catch (error) {
-      console.error('Error updating customer:', error);
+      console.error('Error updating establecimiento:', error);
       return undefined;
     }
   }
 
-  async deleteCustomer(id: string): Promise<boolean> {
+  async deleteEstablecimiento(id: string): Promise<boolean> {
     try {
-      const customers = this.readDataFile('customers.json');
-      const filteredCustomers = customers.filter((customer: Customer) => customer.id !== id);
-      
-      if (filteredCustomers.length === customers.length) {
+      const establecimientos = this.readDataFile('establecimientos.json');
+      const filtered = establecimientos.filter((establecimiento: Establecimiento) => establecimiento.id !== id);
+      if (filtered.length === establecimientos.length) {
         return false;
       }
 
-      this.writeDataFile('customers.json', filteredCustomers);
+      this.writeDataFile('establecimientos.json', filtered);
       return true;
     } catch (error) {
-      console.error('Error deleting customer:', error);
+      console.error('Error deleting establecimiento:', error);
       return false;
     }
   }
 
   // ============================
-  // VEHICLES
+  // PUNTOS DE EXPEDICION
   // ============================
 
-  async getVehicle(id: string): Promise<Vehicle | undefined> {
+  async getPuntoExpedicion(id: string): Promise<PuntoExpedicion | undefined> {
     try {
-      const vehicles = this.readDataFile('vehicles.json');
-      return vehicles.find((vehicle: Vehicle) => vehicle.id === id);
+      const puntos = this.readDataFile('puntos_expedicion.json');
+      return puntos.find((punto: PuntoExpedicion) => punto.id === id);
     } catch (error) {
-      console.error('Error getting vehicle:', error);
+      console.error('Error getting punto de expedicion:', error);
       return undefined;
     }
   }
 
-  async getVehiclesByCustomer(customerId: string): Promise<Vehicle[]> {
-    try {
-      const vehicles = this.readDataFile('vehicles.json');
-      return vehicles.filter((vehicle: Vehicle) => vehicle.customerId === customerId);
-    } catch (error) {
-      console.error('Error getting vehicles by customer:', error);
-      return [];
-    }
-  }
-
-  async getAllVehicles(): Promise<Vehicle[]> {
+  async getPuntosExpedicion(establecimientoId?: string): Promise<PuntoExpedicion[]> {
     try {
-      const vehicles = this.readDataFile('vehicles.json');
-      return vehicles.sort((a: Vehicle, b: Vehicle) => 
-        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
-      );
+      const puntos = this.readDataFile('puntos_expedicion.json');
+      return puntos
+        .filter((punto: PuntoExpedicion) => !establecimientoId || punto.establecimientoId === establecimientoId)
+        .sort((a: PuntoExpedicion, b: PuntoExpedicion) => a.codigo.localeCompare(b.codigo));
     } catch (error) {
-      console.error('Error getting all vehicles:', error);
+      console.error('Error getting puntos de expedicion:', error);
       return [];
     }
   }
 
-  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+  async createPuntoExpedicion(punto: InsertPuntoExpedicion): Promise<PuntoExpedicion> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newVehicle: Vehicle = {
+      const newPunto: PuntoExpedicion = {
         id,
-        customerId: vehicle.customerId,
-        marca: vehicle.marca,
-        modelo: vehicle.modelo,
-        año: vehicle.año || null,
-        color: vehicle.color || null,
-        chapa: vehicle.chapa || null,
-        chasis: vehicle.chasis || null,
-        observaciones: vehicle.observaciones || null,
-        isActive: vehicle.isActive !== undefined ? vehicle.isActive : true,
+        establecimientoId: punto.establecimientoId,
+        codigo: punto.codigo,
+        descripcion: punto.descripcion,
+        activo: punto.activo !== undefined ? punto.activo : true,
         createdAt: now,
         updatedAt: now
       };
 
-      const vehicles = this.readDataFile('vehicles.json');
-      vehicles.push(newVehicle);
-      this.writeDataFile('vehicles.json', vehicles);
+      const puntos = this.readDataFile('puntos_expedicion.json');
+      puntos.push(newPunto);
+      this.writeDataFile('puntos_expedicion.json', puntos);
 
-      return newVehicle;
+      return newPunto;
     } catch (error) {
-      console.error('Error creating vehicle:', error);
+      console.error('Error creating punto de expedicion:', error);
       throw error;
     }
   }
 
-  async updateVehicle(id: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+  async updatePuntoExpedicion(id: string, punto: Partial<InsertPuntoExpedicion>): Promise<PuntoExpedicion | undefined> {
     try {
-      const vehicles = this.readDataFile('vehicles.json');
-      const vehicleIndex = vehicles.findIndex((v: Vehicle) => v.id === id);
-      
-      if (vehicleIndex === -1) {
+      const puntos = this.readDataFile('puntos_expedicion.json');
+      const index = puntos.findIndex((p: PuntoExpedicion) => p.id === id);
+
+      if (index === -1) {
         return undefined;
       }
 
-      const updatedVehicle = {
-        ...vehicles[vehicleIndex],
-        ...vehicle,
+      puntos[index] = {
+        ...puntos[index],
+        ...punto,
         updatedAt: new Date()
       };
+      this.writeDataFile('puntos_expedicion.json', puntos);
 
-      vehicles[vehicleIndex] = updatedVehicle;
-      this.writeDataFile('vehicles.json', vehicles);
-
-      return updatedVehicle;
+      return puntos[index];
     } catch (error) {
-      console.error('Error updating vehicle:', error);
+      console.error('Error updating punto de expedicion:', error);
       return undefined;
     }
   }
 
-  async deleteVehicle(id: string): Promise<boolean> {
+  async deletePuntoExpedicion(id: string): Promise<boolean> {
     try {
-      const vehicles = this.readDataFile('vehicles.json');
-      const filteredVehicles = vehicles.filter((vehicle: Vehicle) => vehicle.id !== id);
-      
-      if (filteredVehicles.length === vehicles.length) {
+      const puntos = this.readDataFile('puntos_expedicion.json');
+      const filtered = puntos.filter((punto: PuntoExpedicion) => punto.id !== id);
+      if (filtered.length === puntos.length) {
         return false;
       }
 
-      this.writeDataFile('vehicles.json', filteredVehicles);
+      this.writeDataFile('puntos_expedicion.json', filtered);
       return true;
     } catch (error) {
-      console.error('Error deleting vehicle:', error);
+      console.error('Error deleting punto de expedicion:', error);
       return false;
     }
   }
 
   // ============================
-  // SERVICES
+  // CURRENCIES
   // ============================
 
-  async getService(id: string): Promise<Service | undefined> {
+  async getMoneda(id: string): Promise<Moneda | undefined> {
     try {
-      const services = this.readDataFile('services.json');
-      return services.find((service: Service) => service.id === id);
+      const monedas = this.readDataFile('monedas.json');
+      return monedas.find((moneda: Moneda) => moneda.id === id);
     } catch (error) {
-      console.error('Error getting service:', error);
+      console.error('Error getting moneda:', error);
       return undefined;
     }
   }
 
-  async getServices(): Promise<Service[]> {
-    try {
-      const services = this.readDataFile('services.json');
-      return services.sort((a: Service, b: Service) => 
-        a.nombre.localeCompare(b.nombre)
-      );
-    } catch (error) {
-      console.error('Error getting services:', error);
-      return [];
-    }
-  }
-
-  async getActiveServices(): Promise<Service[]> {
+  async getMonedas(): Promise<Moneda[]> {
     try {
-      const services = await this.getServices();
-      return services.filter(service => service.isActive);
+      const monedas = this.readDataFile('monedas.json');
+      return monedas.sort((a: Moneda, b: Moneda) => a.codigo.localeCompare(b.codigo));
     } catch (error) {
-      console.error('Error getting active services:', error);
+      console.error('Error getting monedas:', error);
       return [];
     }
   }
 
-  async createService(service: InsertService): Promise<Service> {
+  async createMoneda(moneda: InsertMoneda): Promise<Moneda> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newService: Service = {
+      const newMoneda: Moneda = {
         id,
-        nombre: service.nombre,
-        descripcion: service.descripcion || null,
-        precio: service.precio,
-        duracionMinutos: service.duracionMinutos || null,
-        categoryId: service.categoryId || null,
-        imagenUrl: service.imagenUrl || null,
-        isActive: service.isActive !== undefined ? service.isActive : true,
+        codigo: moneda.codigo,
+        nombre: moneda.nombre,
+        simbolo: moneda.simbolo,
+        decimales: moneda.decimales !== undefined ? moneda.decimales : 2,
+        activo: moneda.activo !== undefined ? moneda.activo : true,
         createdAt: now,
         updatedAt: now
       };
 
-      const services = this.readDataFile('services.json');
-      services.push(newService);
-      this.writeDataFile('services.json', services);
+      const monedas = this.readDataFile('monedas.json');
+      monedas.push(newMoneda);
+      this.writeDataFile('monedas.json', monedas);
 
-      return newService;
+      return newMoneda;
     } catch (error) {
-      console.error('Error creating service:', error);
+      console.error('Error creating moneda:', error);
       throw error;
     }
   }
 
-  async updateService(id: string, service: Partial<InsertService>): Promise<Service | undefined> {
+  async updateMoneda(id: string, moneda: Partial<InsertMoneda>): Promise<Moneda | undefined> {
     try {
-      const services = this.readDataFile('services.json');
-      const serviceIndex = services.findIndex((s: Service) => s.id === id);
-      
-      if (serviceIndex === -1) {
+      const monedas = this.readDataFile('monedas.json');
+      const index = monedas.findIndex((m: Moneda) => m.id === id);
+
+      if (index === -1) {
         return undefined;
       }
 
-      const updatedService = {
-        ...services[serviceIndex],
-        ...service,
+      monedas[index] = {
+        ...monedas[index],
+        ...moneda,
         updatedAt: new Date()
       };
+      this.writeDataFile('monedas.json', monedas);
 
-      services[serviceIndex] = updatedService;
-      this.writeDataFile('services.json', services);
-
-      return updatedService;
+      return monedas[index];
     } catch (error) {
-      console.error('Error updating service:', error);
+      console.error('Error updating moneda:', error);
       return undefined;
     }
   }
 
-  async deleteService(id: string): Promise<boolean> {
+  async deleteMoneda(id: string): Promise<boolean> {
     try {
-      const services = this.readDataFile('services.json');
-      const filteredServices = services.filter((service: Service) => service.id !== id);
-      
-      if (filteredServices.length === services.length) {
+      const monedas = this.readDataFile('monedas.json');
+      const filtered = monedas.filter((moneda: Moneda) => moneda.id !== id);
+      if (filtered.length === monedas.length) {
         return false;
       }
 
-      this.writeDataFile('services.json', filteredServices);
+      this.writeDataFile('monedas.json', filtered);
       return true;
     } catch (error) {
-      console.error('Error deleting service:', error);
+      console.error('Error deleting moneda:', error);
       return false;
     }
   }
 
   // ============================
-  // SERVICE COMBOS
+  // EXCHANGE RATES
   // ============================
 
-  async getServiceCombo(id: string): Promise<ServiceCombo | undefined> {
-    try {
-      const combos = this.readDataFile('service_combos.json');
-      return combos.find((combo: ServiceCombo) => combo.id === id);
-    } catch (error) {
-      console.error('Error getting service combo:', error);
-      return undefined;
-    }
-  }
-
-  async getServiceCombos(): Promise<ServiceCombo[]> {
-    try {
-      const combos = this.readDataFile('service_combos.json');
-      return combos.sort((a: ServiceCombo, b: ServiceCombo) => 
-        a.nombre.localeCompare(b.nombre)
-      );
-    } catch (error) {
-      console.error('Error getting service combos:', error);
-      return [];
-    }
-  }
-
-  async getActiveServiceCombos(): Promise<ServiceCombo[]> {
+  async getTiposCambio(moneda?: string): Promise<TipoCambio[]> {
     try {
-      const combos = await this.getServiceCombos();
-      return combos.filter(combo => combo.isActive);
+      const tiposCambio = this.readDataFile('tipos_cambio.json');
+      return tiposCambio
+        .filter((tipoCambio: TipoCambio) => !moneda || tipoCambio.moneda === moneda)
+        .sort((a: TipoCambio, b: TipoCambio) => b.fecha.localeCompare(a.fecha) || a.moneda.localeCompare(b.moneda));
     } catch (error) {
-      console.error('Error getting active service combos:', error);
+      console.error('Error getting tipos de cambio:', error);
       return [];
     }
   }
 
-  async createServiceCombo(combo: InsertServiceCombo): Promise<ServiceCombo> {
+  async createTipoCambio(tipoCambio: InsertTipoCambio): Promise<TipoCambio> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newCombo: ServiceCombo = {
+      const newTipoCambio: TipoCambio = {
         id,
-        nombre: combo.nombre,
-        descripcion: combo.descripcion || null,
-        precio: combo.precio,
-        descuento: combo.descuento || 0,
-        duracionMinutos: combo.duracionMinutos || null,
-        imagenUrl: combo.imagenUrl || null,
-        isActive: combo.isActive !== undefined ? combo.isActive : true,
+        moneda: tipoCambio.moneda,
+        fecha: tipoCambio.fecha,
+        tasa: tipoCambio.tasa,
+        createdBy: tipoCambio.createdBy || null,
         createdAt: now,
         updatedAt: now
       };
 
-      const combos = this.readDataFile('service_combos.json');
-      combos.push(newCombo);
-      this.writeDataFile('service_combos.json', combos);
+      const tiposCambio = this.readDataFile('tipos_cambio.json');
+      tiposCambio.push(newTipoCambio);
+      this.writeDataFile('tipos_cambio.json', tiposCambio);
 
-      return newCombo;
+      return newTipoCambio;
     } catch (error) {
-      console.error('Error creating service combo:', error);
+      console.error('Error creating tipo de cambio:', error);
       throw error;
     }
   }
 
-  async updateServiceCombo(id: string, combo: Partial<InsertServiceCombo>): Promise<ServiceCombo | undefined> {
+  async updateTipoCambio(id: string, tipoCambio: Partial<InsertTipoCambio>): Promise<TipoCambio | undefined> {
     try {
-      const combos = this.readDataFile('service_combos.json');
-      const comboIndex = combos.findIndex((c: ServiceCombo) => c.id === id);
-      
-      if (comboIndex === -1) {
+      const tiposCambio = this.readDataFile('tipos_cambio.json');
+      const index = tiposCambio.findIndex((t: TipoCambio) => t.id === id);
+
+      if (index === -1) {
         return undefined;
       }
 
-      const updatedCombo = {
-        ...combos[comboIndex],
-        ...combo,
+      tiposCambio[index] = {
+        ...tiposCambio[index],
+        ...tipoCambio,
         updatedAt: new Date()
       };
+      this.writeDataFile('tipos_cambio.json', tiposCambio);
 
-      combos[comboIndex] = updatedCombo;
-      this.writeDataFile('service_combos.json', combos);
-
-      return updatedCombo;
+      return tiposCambio[index];
     } catch (error) {
-      console.error('Error updating service combo:', error);
+      console.error('Error updating tipo de cambio:', error);
       return undefined;
     }
   }
 
-  async deleteServiceCombo(id: string): Promise<boolean> {
+  async deleteTipoCambio(id: string): Promise<boolean> {
     try {
-      const combos = this.readDataFile('service_combos.json');
-      const filteredCombos = combos.filter((combo: ServiceCombo) => combo.id !== id);
-      
-      if (filteredCombos.length === combos.length) {
+      const tiposCambio = this.readDataFile('tipos_cambio.json');
+      const filtered = tiposCambio.filter((tipoCambio: TipoCambio) => tipoCambio.id !== id);
+      if (filtered.length === tiposCambio.length) {
         return false;
       }
 
-      this.writeDataFile('service_combos.json', filteredCombos);
+      this.writeDataFile('tipos_cambio.json', filtered);
       return true;
     } catch (error) {
-      console.error('Error deleting service combo:', error);
+      console.error('Error deleting tipo de cambio:', error);
       return false;
     }
   }
 
   // ============================
-  // SERVICE COMBO ITEMS
+  // TIMBRADOS
   // ============================
 
-  async getServiceComboItems(comboId: string): Promise<ServiceComboItem[]> {
+  async getTimbrado(id: string): Promise<Timbrado | undefined> {
     try {
-      const items = this.readDataFile('service_combo_items.json');
-      return items.filter((item: ServiceComboItem) => item.comboId === comboId);
+      const timbrados = this.readDataFile('timbrados.json');
+      return timbrados.find((timbrado: Timbrado) => timbrado.id === id);
     } catch (error) {
-      console.error('Error getting service combo items:', error);
+      console.error('Error getting timbrado:', error);
+      return undefined;
+    }
+  }
+
+  async getTimbrados(): Promise<Timbrado[]> {
+    try {
+      const timbrados = this.readDataFile('timbrados.json');
+      return timbrados.sort((a: Timbrado, b: Timbrado) => a.fechaInicio.localeCompare(b.fechaInicio));
+    } catch (error) {
+      console.error('Error getting timbrados:', error);
       return [];
     }
   }
 
-  async createServiceComboItem(item: InsertServiceComboItem): Promise<ServiceComboItem> {
+  async createTimbrado(timbrado: InsertTimbrado): Promise<Timbrado> {
     try {
       const id = this.generateUUID();
+      const now = new Date();
 
-      const newItem: ServiceComboItem = {
+      const newTimbrado: Timbrado = {
         id,
-        comboId: item.comboId,
-        serviceId: item.serviceId,
-        cantidad: item.cantidad || 1,
-        orden: item.orden || 1
+        numero: timbrado.numero,
+        fechaInicio: timbrado.fechaInicio,
+        fechaFin: timbrado.fechaFin,
+        estado: timbrado.estado || "proximo",
+        motivoFinalizacion: timbrado.motivoFinalizacion || null,
+        fechaFinalizacion: timbrado.fechaFinalizacion || null,
+        createdAt: now,
+        updatedAt: now
       };
 
-      const items = this.readDataFile('service_combo_items.json');
-      items.push(newItem);
-      this.writeDataFile('service_combo_items.json', items);
+      const timbrados = this.readDataFile('timbrados.json');
+      timbrados.push(newTimbrado);
+      this.writeDataFile('timbrados.json', timbrados);
 
-      return newItem;
+      return newTimbrado;
     } catch (error) {
-      console.error('Error creating service combo item:', error);
+      console.error('Error creating timbrado:', error);
       throw error;
     }
   }
 
-  async deleteServiceComboItem(id: string): Promise<boolean> {
+  async updateTimbrado(id: string, timbrado: Partial<InsertTimbrado>): Promise<Timbrado | undefined> {
     try {
-      const items = this.readDataFile('service_combo_items.json');
-      const filteredItems = items.filter((item: ServiceComboItem) => item.id !== id);
-      
-      if (filteredItems.length === items.length) {
-        return false;
+      const timbrados = this.readDataFile('timbrados.json');
+      const index = timbrados.findIndex((t: Timbrado) => t.id === id);
+
+      if (index === -1) {
+        return undefined;
       }
 
-      this.writeDataFile('service_combo_items.json', filteredItems);
+      timbrados[index] = {
+        ...timbrados[index],
+        ...timbrado,
+        updatedAt: new Date()
+      };
+      this.writeDataFile('timbrados.json', timbrados);
+
+      return timbrados[index];
+    } catch (error) {
+      console.error('Error updating timbrado:', error);
+      return undefined;
+    }
+  }
+
+  async deleteTimbrado(id: string): Promise<boolean> {
+    try {
+      await this.deleteTimbradoRangos(id);
+
+      const timbrados = this.readDataFile('timbrados.json');
+      const filtered = timbrados.filter((timbrado: Timbrado) => timbrado.id !== id);
+      if (filtered.length === timbrados.length) {
+        return false;
+      }
+
+      this.writeDataFile('timbrados.json', filtered);
       return true;
     } catch (error) {
-      console.error('Error deleting service combo item:', error);
+      console.error('Error deleting timbrado:', error);
       return false;
     }
   }
 
-  async deleteServiceComboItemsByCombo(comboId: string): Promise<void> {
+  // ============================
+  // TIMBRADO RANGOS
+  // ============================
+
+  async getTimbradoRangos(timbradoId: string): Promise<TimbradoRango[]> {
     try {
-      const items = this.readDataFile('service_combo_items.json');
-      const filteredItems = items.filter((item: ServiceComboItem) => item.comboId !== comboId);
-      this.writeDataFile('service_combo_items.json', filteredItems);
+      const rangos = this.readDataFile('timbrado_rangos.json');
+      return rangos.filter((rango: TimbradoRango) => rango.timbradoId === timbradoId);
     } catch (error) {
-      console.error('Error deleting service combo items by combo:', error);
+      console.error('Error getting timbrado ranges:', error);
+      return [];
+    }
+  }
+
+  async createTimbradoRango(rango: InsertTimbradoRango): Promise<TimbradoRango> {
+    try {
+      const newRango: TimbradoRango = {
+        id: this.generateUUID(),
+        timbradoId: rango.timbradoId,
+        establecimiento: rango.establecimiento,
+        puntoExpedicion: rango.puntoExpedicion,
+        numeroInicial: rango.numeroInicial,
+        numeroFinal: rango.numeroFinal
+      };
+
+      const rangos = this.readDataFile('timbrado_rangos.json');
+      rangos.push(newRango);
+      this.writeDataFile('timbrado_rangos.json', rangos);
+
+      return newRango;
+    } catch (error) {
+      console.error('Error creating timbrado range:', error);
       throw error;
     }
   }
 
+  async deleteTimbradoRangos(timbradoId: string): Promise<boolean> {
+    try {
+      const rangos = this.readDataFile('timbrado_rangos.json');
+      this.writeDataFile(
+        'timbrado_rangos.json',
+        rangos.filter((rango: TimbradoRango) => rango.timbradoId !== timbradoId)
+      );
+      return true;
+    } catch (error) {
+      console.error('Error deleting timbrado ranges:', error);
+      return false;
+    }
+  }
+
   // ============================
-  // WORK ORDERS
+  // DOCUMENT SEQUENCES
   // ============================
 
-  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+  // Synchronous read-modify-write: no other request can reserve in between
+  async reserveDocumentNumber(key: DocumentSequenceKey, minimo: number): Promise<number> {
     try {
-      const workOrders = this.readDataFile('work_orders.json');
-      return workOrders.find((order: WorkOrder) => order.id === id);
+      const sequences = this.readDataFile('document_sequences.json');
+      const index = sequences.findIndex((sequence: DocumentSequence) =>
+        sequence.tipoDocumento === key.tipoDocumento &&
+        sequence.timbrado === key.timbrado &&
+        sequence.establecimiento === key.establecimiento &&
+        sequence.puntoExpedicion === key.puntoExpedicion
+      );
+
+      const numero = index === -1 ? minimo : Math.max(sequences[index].ultimoNumero + 1, minimo);
+      if (index === -1) {
+        sequences.push({ id: this.generateUUID(), ...key, ultimoNumero: numero, updatedAt: new Date() });
+      } else {
+        sequences[index] = { ...sequences[index], ultimoNumero: numero, updatedAt: new Date() };
+      }
+      this.writeDataFile('document_sequences.json', sequences);
+
+      return numero;
     } catch (error) {
-      console.error('Error getting work order:', error);
-      return undefined;
+      console.error('Error reserving document number:', error);
+      throw error;
     }
   }
 
-  async getWorkOrders(): Promise<WorkOrder[]> {
+  async getDocumentSequences(): Promise<DocumentSequence[]> {
     try {
-      const workOrders = this.readDataFile('work_orders.json');
-      return workOrders.sort((a: WorkOrder, b: WorkOrder) => 
-        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
-      );
+      return this.readDataFile('document_sequences.json');
     } catch (error) {
-      console.error('Error getting work orders:', error);
+      console.error('Error getting document sequences:', error);
       return [];
     }
   }
 
-  async getWorkOrdersByStatus(status: string): Promise<WorkOrder[]> {
+  // ============================
+  // CUSTOMERS
+  // ============================
+
+  async getCustomer(id: string): Promise<Customer | undefined> {
     try {
-      const workOrders = await this.getWorkOrders();
-      return workOrders.filter(order => order.estado === status);
+      const customers = this.readDataFile('customers.json');
+      return customers.find((customer: Customer) => customer.id === id);
     } catch (error) {
-      console.error('Error getting work orders by status:', error);
-      return [];
+      console.error('Error getting customer:', error);
+      return undefined;
     }
   }
 
-  async getWorkOrdersByCustomer(customerId: string): Promise<WorkOrder[]> {
+  async getCustomers(): Promise<Customer[]> {
     try {
-      const workOrders = await this.getWorkOrders();
-      return workOrders.filter(order => order.customerId === customerId);
+      const customers = this.readDataFile('customers.json');
+      return customers.sort((a: Customer, b: Customer) => 
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
     } catch (error) {
-      console.error('Error getting work orders by customer:', error);
+      console.error('Error getting customers:', error);
       return [];
     }
   }
 
-  async createWorkOrder(workOrder: InsertWorkOrder): Promise<WorkOrder> {
+  async createCustomer(customer: InsertCustomer): Promise<Customer> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newWorkOrder: WorkOrder = {
+      const newCustomer: Customer = {
         id,
-        numero: workOrder.numero || this.nextWorkOrderNumber,
-        customerId: workOrder.customerId,
-        vehicleId: workOrder.vehicleId || null,
-        estado: workOrder.estado || "recibido",
-        fechaInicio: workOrder.fechaInicio ? new Date(workOrder.fechaInicio) : now,
-        fechaEstimadaEntrega: workOrder.fechaEstimadaEntrega ? new Date(workOrder.fechaEstimadaEntrega) : null,
-        fechaEntrega: workOrder.fechaEntrega ? new Date(workOrder.fechaEntrega) : null,
-        observaciones: workOrder.observaciones || null,
-        observacionesInternas: workOrder.observacionesInternas || null,
-        total: workOrder.total || 0,
-        adelanto: workOrder.adelanto || 0,
-        saldo: workOrder.saldo || 0,
+        nombre: customer.nombre,
+        apellido: customer.apellido || null,
+        docTipo: customer.docTipo,
+        docNumero: customer.docNumero,
+        ruc: customer.ruc || null,
+        telefono: customer.telefono || null,
+        email: customer.email || null,
+        direccion: customer.direccion || null,
+        ciudad: customer.ciudad || null,
+        fechaNacimiento: this.processDateString(customer.fechaNacimiento),
+        observaciones: customer.observaciones || null,
+        regimenTurismo: customer.regimenTurismo || false,
+        pais: customer.pais || null,
+        pasaporte: customer.pasaporte || null,
+        fechaIngreso: customer.fechaIngreso || null,
+        isActive: customer.isActive !== undefined ? customer.isActive : true,
         createdAt: now,
         updatedAt: now
       };
 
-      const workOrders = this.readDataFile('work_orders.json');
-      workOrders.push(newWorkOrder);
-      this.writeDataFile('work_orders.json', workOrders);
-
-      // Update next work order number
-      this.nextWorkOrderNumber++;
-      const metadata = this.readDataFile('metadata.json');
-      metadata.nextWorkOrderNumber = this.nextWorkOrderNumber;
-      this.writeDataFile('metadata.json', metadata);
+      const customers = this.readDataFile('customers.json');
+      customers.push(newCustomer);
+      this.writeDataFile('customers.json', customers);
 
-      return newWorkOrder;
+      return newCustomer;
     } catch (error) {
-      console.error('Error creating work order:', error);
+      console.error('Error creating customer:', error);
       throw error;
     }
   }
 
-  async updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined> {
+  async updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer | undefined> {
     try {
-      const workOrders = this.readDataFile('work_orders.json');
-      const orderIndex = workOrders.findIndex((order: WorkOrder) => order.id === id);
+      const customers = this.readDataFile('customers.json');
+      const customerIndex = customers.findIndex((c: Customer) => c.id === id);
       
-      if (orderIndex === -1) {
+      if (customerIndex === -1) {
         return undefined;
       }
 
-      const updatedOrder = {
-        ...workOrders[orderIndex],
-        ...workOrder,
-        fechaInicio: workOrder.fechaInicio ? new Date(workOrder.fechaInicio) : workOrders[orderIndex].fechaInicio,
-        fechaEstimadaEntrega: workOrder.fechaEstimadaEntrega ? new Date(workOrder.fechaEstimadaEntrega) : workOrders[orderIndex].fechaEstimadaEntrega,
-        fechaEntrega: workOrder.fechaEntrega ? new Date(workOrder.fechaEntrega) : workOrders[orderIndex].fechaEntrega,
+      const updatedCustomer = {
+        ...customers[customerIndex],
+        ...customer,
+        fechaNacimiento: customer.fechaNacimiento ? this.processDateString(customer.fechaNacimiento) : customers[customerIndex].fechaNacimiento,
         updatedAt: new Date()
       };
 
-      workOrders[orderIndex] = updatedOrder;
-      this.writeDataFile('work_orders.json', workOrders);
+      customers[customerIndex] = updatedCustomer;
+      this.writeDataFile('customers.json', customers);
 
-      return updatedOrder;
+      return updatedCustomer;
     } catch (error) {
-      console.error('Error updating work order:', error);
+      console.error('Error updating customer:', error);
       return undefined;
     }
   }
 
-  async deleteWorkOrder(id: string): Promise<boolean> {
+  async deleteCustomer(id: string): Promise<boolean> {
     try {
-      const workOrders = this.readDataFile('work_orders.json');
-      const filteredOrders = workOrders.filter((order: WorkOrder) => order.id !== id);
+      const customers = this.readDataFile('customers.json');
+      const filteredCustomers = customers.filter((customer: Customer) => customer.id !== id);
       
-      if (filteredOrders.length === workOrders.length) {
+      if (filteredCustomers.length === customers.length) {
         return false;
       }
 
-      this.writeDataFile('work_orders.json', filteredOrders);
+      this.writeDataFile('customers.json', filteredCustomers);
       return true;
     } catch (error) {
-      console.error('Error deleting work order:', error);
+      console.error('Error deleting customer:', error);
       return false;
     }
   }
 
-  async getNextWorkOrderNumber(): Promise<number> {
-    return this.nextWorkOrderNumber;
-  }
-
   // ============================
-  // WORK ORDER ITEMS
+  // RUC PADRÓN
   // ============================
 
-  async getWorkOrderItems(workOrderId: string): Promise<WorkOrderItem[]> {
+  async getPadronRuc(ruc: string): Promise<PadronRuc | undefined> {
     try {
-      const items = this.readDataFile('work_order_items.json');
-      return items.filter((item: WorkOrderItem) => item.workOrderId === workOrderId);
+      return this.getPadronRucIndex().get(ruc);
     } catch (error) {
-      console.error('Error getting work order items:', error);
-      return [];
+      console.error('Error getting padron RUC:', error);
+      return undefined;
     }
   }
 
-  async createWorkOrderItem(item: InsertWorkOrderItem): Promise<WorkOrderItem> {
+  async upsertPadronRuc(registros: InsertPadronRuc[]): Promise<PadronRucCambios> {
     try {
-      const id = this.generateUUID();
+      const index = this.getPadronRucIndex();
+      const cambios: PadronRucCambios = { nuevos: 0, actualizados: 0, sinCambios: 0 };
 
-      const newItem: WorkOrderItem = {
-        id,
-        workOrderId: item.workOrderId,
-        serviceId: item.serviceId || null,
-        comboId: item.comboId || null,
-        nombre: item.nombre,
-        cantidad: item.cantidad,
-        precioUnitario: item.precioUnitario,
-        subtotal: item.subtotal,
-        orden: item.orden || 1
-      };
+      for (const registro of registros) {
+        const existente = index.get(registro.ruc);
+        const rucAnterior = registro.rucAnterior || null;
+        if (existente && existente.dv === registro.dv && existente.razonSocial === registro.razonSocial &&
+            existente.rucAnterior === rucAnterior && existente.estado === registro.estado) {
+          cambios.sinCambios++;
+          continue;
+        }
 
-      const items = this.readDataFile('work_order_items.json');
-      items.push(newItem);
-      this.writeDataFile('work_order_items.json', items);
+        index.set(registro.ruc, { ...registro, rucAnterior, updatedAt: new Date() });
+        if (existente) {
+          cambios.actualizados++;
+        } else {
+          cambios.nuevos++;
+        }
+      }
 
-      return newItem;
+      if (cambios.nuevos > 0 || cambios.actualizados > 0) {
+        this.writeDataFile('padron_ruc.json', Array.from(index.values()));
+      }
+      return cambios;
     } catch (error) {
-      console.error('Error creating work order item:', error);
+      console.error('Error importing padron RUC:', error);
       throw error;
     }
   }
 
-  async deleteWorkOrderItem(id: string): Promise<boolean> {
+  async getPadronRucEstado(): Promise<{ cantidad: number; actualizado: Date | null }> {
     try {
-      const items = this.readDataFile('work_order_items.json');
-      const filteredItems = items.filter((item: WorkOrderItem) => item.id !== id);
-      
-      if (filteredItems.length === items.length) {
-        return false;
+      const index = this.getPadronRucIndex();
+      let actualizado: Date | null = null;
+      for (const registro of Array.from(index.values())) {
+        const fecha = new Date(registro.updatedAt);
+        if (!actualizado || fecha > actualizado) {
+          actualizado = fecha;
+        }
       }
-
-      this.writeDataFile('work_order_items.json', filteredItems);
-      return true;
+      return { cantidad: index.size, actualizado };
     } catch (error) {
-      console.error('Error deleting work order item:', error);
-      return false;
+      console.error('Error getting padron RUC status:', error);
+      return { cantidad: 0, actualizado: null };
     }
   }
 
-  async deleteWorkOrderItemsByWorkOrder(workOrderId: string): Promise<void> {
-    try {
-      const items = this.readDataFile('work_order_items.json');
-      const filteredItems = items.filter((item: WorkOrderItem) => item.workOrderId !== workOrderId);
-      this.writeDataFile('work_order_items.json', filteredItems);
-    } catch (error) {
-      console.error('Error deleting work order items by work order:', error);
-      throw error;
+  private getPadronRucIndex(): Map<string, PadronRuc> {
+    if (!this.padronRucIndex) {
+      const registros: PadronRuc[] = this.readDataFile('padron_ruc.json');
+      this.padronRucIndex = new Map(registros.map(registro => [registro.ruc, registro]));
     }
+    return this.padronRucIndex;
   }
 
-  // Enhanced WorkOrder Item Management
-  async addWorkOrderItem(workOrderId: string, item: InsertWorkOrderItem): Promise<WorkOrderItem> {
-    return await this.createWorkOrderItem({ ...item, workOrderId });
-  }
-
-  async removeWorkOrderItem(workOrderId: string, itemId: string): Promise<boolean> {
-    return await this.deleteWorkOrderItem(itemId);
-  }
+  // ============================
+  // VEHICLES
+  // ============================
 
-  async updateWorkOrderItem(workOrderId: string, itemId: string, data: Partial<InsertWorkOrderItem>): Promise<WorkOrderItem | undefined> {
+  async getVehicle(id: string): Promise<Vehicle | undefined> {
     try {
-      const items = this.readDataFile('work_order_items.json');
-      const itemIndex = items.findIndex((item: WorkOrderItem) => item.id === itemId && item.workOrderId === workOrderId);
-      
-      if (itemIndex === -1) {
-        return undefined;
-      }
-
-      const updatedItem = {
-        ...items[itemIndex],
-        ...data
-      };
-
-      items[itemIndex] = updatedItem;
-      this.writeDataFile('work_order_items.json', items);
-
-      return updatedItem;
+      const vehicles = this.readDataFile('vehicles.json');
+      return vehicles.find((vehicle: Vehicle) => vehicle.id === id);
     } catch (error) {
-      console.error('Error updating work order item:', error);
+      console.error('Error getting vehicle:', error);
       return undefined;
     }
   }
 
-  // WorkOrder Status Management
-  async updateWorkOrderStatus(id: string, status: WorkOrder["estado"]): Promise<WorkOrder | undefined> {
-    return await this.updateWorkOrder(id, { estado: status });
-  }
-
-  // WorkOrder-Sale Integration
-  async createSaleFromOrder(workOrderId: string, saleData: Partial<InsertSale>): Promise<Sale> {
+  async getVehiclesByCustomer(customerId: string): Promise<Vehicle[]> {
     try {
-      const workOrder = await this.getWorkOrder(workOrderId);
-      if (!workOrder) {
-        throw new Error('Work order not found');
+      const vehicles = this.readDataFile('vehicles.json');
+      return vehicles.filter((vehicle: Vehicle) => vehicle.customerId === customerId);
+    } catch (error) {
+      console.error('Error getting vehicles by customer:', error);
+      return [];
+    }
+  }
+
+  async getAllVehicles(): Promise<Vehicle[]> {
+    try {
+      const vehicles = this.readDataFile('vehicles.json');
+      return vehicles.sort((a: Vehicle, b: Vehicle) => 
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
+    } catch (error) {
+      console.error('Error getting all vehicles:', error);
+      return [];
+    }
+  }
+
+  async createVehicle(vehicle: InsertVehicle): Promise<Vehicle> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newVehicle: Vehicle = {
+        id,
+        customerId: vehicle.customerId,
+        marca: vehicle.marca,
+        modelo: vehicle.modelo,
+        año: vehicle.año || null,
+        color: vehicle.color || null,
+        chapa: vehicle.chapa || null,
+        chasis: vehicle.chasis || null,
+        observaciones: vehicle.observaciones || null,
+        isActive: vehicle.isActive !== undefined ? vehicle.isActive : true,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const vehicles = this.readDataFile('vehicles.json');
+      vehicles.push(newVehicle);
+      this.writeDataFile('vehicles.json', vehicles);
+
+      return newVehicle;
+    } catch (error) {
+      console.error('Error creating vehicle:', error);
+      throw error;
+    }
+  }
+
+  async updateVehicle(id: string, vehicle: Partial<InsertVehicle>): Promise<Vehicle | undefined> {
+    try {
+      const vehicles = this.readDataFile('vehicles.json');
+      const vehicleIndex = vehicles.findIndex((v: Vehicle) => v.id === id);
+      
+      if (vehicleIndex === -1) {
+        return undefined;
       }
 
-      const workOrderItems = await this.getWorkOrderItems(workOrderId);
+      const updatedVehicle = {
+        ...vehicles[vehicleIndex],
+        ...vehicle,
+        updatedAt: new Date()
+      };
+
+      vehicles[vehicleIndex] = updatedVehicle;
+      this.writeDataFile('vehicles.json', vehicles);
+
+      return updatedVehicle;
+    } catch (error) {
+      console.error('Error updating vehicle:', error);
+      return undefined;
+    }
+  }
+
+  async deleteVehicle(id: string): Promise<boolean> {
+    try {
+      const vehicles = this.readDataFile('vehicles.json');
+      const filteredVehicles = vehicles.filter((vehicle: Vehicle) => vehicle.id !== id);
       
-      const sale: InsertSale = {
-        customerId: workOrder.customerId,
-        workOrderId: workOrderId,
-        numero: saleData.numero || Date.now(),
-        fecha: saleData.fecha || new Date(),
-        subtotal: workOrder.total - (workOrder.adelanto || 0),
-        impuestos: saleData.impuestos || 0,
-        total: workOrder.total - (workOrder.adelanto || 0),
-        medioPago: saleData.medioPago || "efectivo",
-        observaciones: saleData.observaciones || `Venta generada desde orden de trabajo #${workOrder.numero}`,
-        ...saleData
+      if (filteredVehicles.length === vehicles.length) {
+        return false;
+      }
+
+      this.writeDataFile('vehicles.json', filteredVehicles);
+      return true;
+    } catch (error) {
+      console.error('Error deleting vehicle:', error);
+      return false;
+    }
+  }
+
+  // ============================
+  // SERVICES
+  // ============================
+
+  async getService(id: string): Promise<Service | undefined> {
+    try {
+      const services = this.readCatalogFile('services.json');
+      return services.find((service: Service) => service.id === id);
+    } catch (error) {
+      console.error('Error getting service:', error);
+      return undefined;
+    }
+  }
+
+  async getServices(): Promise<Service[]> {
+    try {
+      const services = this.readCatalogFile('services.json');
+      return services.sort((a: Service, b: Service) => 
+        a.nombre.localeCompare(b.nombre)
+      );
+    } catch (error) {
+      console.error('Error getting services:', error);
+      return [];
+    }
+  }
+
+  async getActiveServices(): Promise<Service[]> {
+    try {
+      const services = await this.getServices();
+      return services.filter(service => service.activo);
+    } catch (error) {
+      console.error('Error getting active services:', error);
+      return [];
+    }
+  }
+
+  async createService(service: InsertService): Promise<Service> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newService: Service = {
+        id,
+        nombre: service.nombre,
+        descripcion: service.descripcion || null,
+        precio: service.precio.toString(),
+        tasaIva: service.tasaIva ?? 10,
+        duracionMin: service.duracionMin,
+        categoria: service.categoria,
+        activo: service.activo !== undefined ? service.activo : true,
+        createdAt: now,
+        updatedAt: now
       };
 
-      const newSale = await this.createSale(sale);
+      const services = this.readCatalogFile('services.json');
+      services.push(newService);
+      this.writeDataFile('services.json', services);
 
-      // Create sale items from work order items
-      for (const workOrderItem of workOrderItems) {
-        await this.createSaleItem({
-          saleId: newSale.id,
-          serviceId: workOrderItem.serviceId,
-          comboId: workOrderItem.comboId,
-          inventoryItemId: null,
-          nombre: workOrderItem.nombre,
-          cantidad: workOrderItem.cantidad,
-          precioUnitario: workOrderItem.precioUnitario,
-          subtotal: workOrderItem.subtotal
-        });
+      return newService;
+    } catch (error) {
+      console.error('Error creating service:', error);
+      throw error;
+    }
+  }
+
+  async updateService(id: string, service: Partial<InsertService>): Promise<Service | undefined> {
+    try {
+      const services = this.readCatalogFile('services.json');
+      const serviceIndex = services.findIndex((s: Service) => s.id === id);
+      
+      if (serviceIndex === -1) {
+        return undefined;
+      }
+
+      const updatedService = {
+        ...services[serviceIndex],
+        ...service,
+        updatedAt: new Date()
+      };
+
+      services[serviceIndex] = updatedService;
+      this.writeDataFile('services.json', services);
+
+      return updatedService;
+    } catch (error) {
+      console.error('Error updating service:', error);
+      return undefined;
+    }
+  }
+
+  async deleteService(id: string): Promise<boolean> {
+    try {
+      const services = this.readCatalogFile('services.json');
+      const filteredServices = services.filter((service: Service) => service.id !== id);
+      
+      if (filteredServices.length === services.length) {
+        return false;
       }
 
-      return newSale;
+      this.writeDataFile('services.json', filteredServices);
+      return true;
+    } catch (error) {
+      console.error('Error deleting service:', error);
+      return false;
+    }
+  }
+
+  // ============================
+  // SERVICE COMBOS
+  // ============================
+
+  async getServiceCombo(id: string): Promise<ServiceCombo | undefined> {
+    try {
+      const combos = this.readCatalogFile('service_combos.json');
+      return combos.find((combo: ServiceCombo) => combo.id === id);
+    } catch (error) {
+      console.error('Error getting service combo:', error);
+      return undefined;
+    }
+  }
+
+  async getServiceCombos(): Promise<ServiceCombo[]> {
+    try {
+      const combos = this.readCatalogFile('service_combos.json');
+      return combos.sort((a: ServiceCombo, b: ServiceCombo) => 
+        a.nombre.localeCompare(b.nombre)
+      );
+    } catch (error) {
+      console.error('Error getting service combos:', error);
+      return [];
+    }
+  }
+
+  async getActiveServiceCombos(): Promise<ServiceCombo[]> {
+    try {
+      const combos = await this.getServiceCombos();
+      return combos.filter(combo => combo.activo);
+    } catch (error) {
+      console.error('Error getting active service combos:', error);
+      return [];
+    }
+  }
+
+  async createServiceCombo(combo: InsertServiceCombo): Promise<ServiceCombo> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newCombo: ServiceCombo = {
+        id,
+        nombre: combo.nombre,
+        descripcion: combo.descripcion || null,
+        precioTotal: combo.precioTotal.toString(),
+        tasaIva: combo.tasaIva ?? 10,
+        activo: combo.activo !== undefined ? combo.activo : true,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const combos = this.readCatalogFile('service_combos.json');
+      combos.push(newCombo);
+      this.writeDataFile('service_combos.json', combos);
+
+      return newCombo;
+    } catch (error) {
+      console.error('Error creating service combo:', error);
+      throw error;
+    }
+  }
+
+  async updateServiceCombo(id: string, combo: Partial<InsertServiceCombo>): Promise<ServiceCombo | undefined> {
+    try {
+      const combos = this.readCatalogFile('service_combos.json');
+      const comboIndex = combos.findIndex((c: ServiceCombo) => c.id === id);
+      
+      if (comboIndex === -1) {
+        return undefined;
+      }
+
+      const updatedCombo = {
+        ...combos[comboIndex],
+        ...combo,
+        updatedAt: new Date()
+      };
+
+      combos[comboIndex] = updatedCombo;
+      this.writeDataFile('service_combos.json', combos);
+
+      return updatedCombo;
+    } catch (error) {
+      console.error('Error updating service combo:', error);
+      return undefined;
+    }
+  }
+
+  async deleteServiceCombo(id: string): Promise<boolean> {
+    try {
+      const combos = this.readCatalogFile('service_combos.json');
+      const filteredCombos = combos.filter((combo: ServiceCombo) => combo.id !== id);
+      
+      if (filteredCombos.length === combos.length) {
+        return false;
+      }
+
+      this.writeDataFile('service_combos.json', filteredCombos);
+      return true;
+    } catch (error) {
+      console.error('Error deleting service combo:', error);
+      return false;
+    }
+  }
+
+  // ============================
+  // SERVICE COMBO ITEMS
+  // ============================
+
+  async getServiceComboItems(comboId: string): Promise<ServiceComboItem[]> {
+    try {
+      const items = this.readDataFile('service_combo_items.json');
+      return items.filter((item: ServiceComboItem) => item.comboId === comboId);
+    } catch (error) {
+      console.error('Error getting service combo items:', error);
+      return [];
+    }
+  }
+
+  async createServiceComboItem(item: InsertServiceComboItem): Promise<ServiceComboItem> {
+    try {
+      const id = this.generateUUID();
+
+      const newItem: ServiceComboItem = {
+        id,
+        comboId: item.comboId,
+        serviceId: item.serviceId,
+        cantidad: item.cantidad || 1,
+        orden: item.orden || 1
+      };
+
+      const items = this.readDataFile('service_combo_items.json');
+      items.push(newItem);
+      this.writeDataFile('service_combo_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating service combo item:', error);
+      throw error;
+    }
+  }
+
+  async deleteServiceComboItem(id: string): Promise<boolean> {
+    try {
+      const items = this.readDataFile('service_combo_items.json');
+      const filteredItems = items.filter((item: ServiceComboItem) => item.id !== id);
+      
+      if (filteredItems.length === items.length) {
+        return false;
+      }
+
+      this.writeDataFile('service_combo_items.json', filteredItems);
+      return true;
+    } catch (error) {
+      console.error('Error deleting service combo item:', error);
+      return false;
+    }
+  }
+
+  async deleteServiceComboItemsByCombo(comboId: string): Promise<void> {
+    try {
+      const items = this.readDataFile('service_combo_items.json');
+      const filteredItems = items.filter((item: ServiceComboItem) => item.comboId !== comboId);
+      this.writeDataFile('service_combo_items.json', filteredItems);
+    } catch (error) {
+      console.error('Error deleting service combo items by combo:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // WORK ORDERS
+  // ============================
+
+  async getWorkOrder(id: string): Promise<WorkOrder | undefined> {
+    try {
+      const workOrders = this.readDataFile('work_orders.json');
+      return workOrders.find((order: WorkOrder) => order.id === id);
+    } catch (error) {
+      console.error('Error getting work order:', error);
+      return undefined;
+    }
+  }
+
+  async getWorkOrders(): Promise<WorkOrder[]> {
+    try {
+      const workOrders = this.readDataFile('work_orders.json');
+      return workOrders.sort((a: WorkOrder, b: WorkOrder) => 
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
+    } catch (error) {
+      console.error('Error getting work orders:', error);
+      return [];
+    }
+  }
+
+  async getWorkOrdersByStatus(status: string): Promise<WorkOrder[]> {
+    try {
+      const workOrders = await this.getWorkOrders();
+      return workOrders.filter(order => order.estado === status);
+    } catch (error) {
+      console.error('Error getting work orders by status:', error);
+      return [];
+    }
+  }
+
+  async getWorkOrdersByCustomer(customerId: string): Promise<WorkOrder[]> {
+    try {
+      const workOrders = await this.getWorkOrders();
+      return workOrders.filter(order => order.customerId === customerId);
+    } catch (error) {
+      console.error('Error getting work orders by customer:', error);
+      return [];
+    }
+  }
+
+  async createWorkOrder(workOrder: InsertWorkOrder): Promise<WorkOrder> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newWorkOrder: WorkOrder = {
+        id,
+        numero: workOrder.numero || this.nextWorkOrderNumber,
+        customerId: workOrder.customerId,
+        vehicleId: workOrder.vehicleId || null,
+        estado: workOrder.estado || "recibido",
+        fechaInicio: workOrder.fechaInicio ? new Date(workOrder.fechaInicio) : now,
+        fechaEstimadaEntrega: workOrder.fechaEstimadaEntrega ? new Date(workOrder.fechaEstimadaEntrega) : null,
+        fechaEntrega: workOrder.fechaEntrega ? new Date(workOrder.fechaEntrega) : null,
+        observaciones: workOrder.observaciones || null,
+        observacionesInternas: workOrder.observacionesInternas || null,
+        total: workOrder.total || 0,
+        adelanto: workOrder.adelanto || 0,
+        saldo: workOrder.saldo || 0,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const workOrders = this.readDataFile('work_orders.json');
+      workOrders.push(newWorkOrder);
+      this.writeDataFile('work_orders.json', workOrders);
+
+      // Update next work order number
+      this.nextWorkOrderNumber++;
+      const metadata = this.readDataFile('metadata.json');
+      metadata.nextWorkOrderNumber = this.nextWorkOrderNumber;
+      this.writeDataFile('metadata.json', metadata);
+
+      return newWorkOrder;
+    } catch (error) {
+      console.error('Error creating work order:', error);
+      throw error;
+    }
+  }
+
+  async updateWorkOrder(id: string, workOrder: Partial<InsertWorkOrder>): Promise<WorkOrder | undefined> {
+    try {
+      const workOrders = this.readDataFile('work_orders.json');
+      const orderIndex = workOrders.findIndex((order: WorkOrder) => order.id === id);
+      
+      if (orderIndex === -1) {
+        return undefined;
+      }
+
+      const updatedOrder = {
+        ...workOrders[orderIndex],
+        ...workOrder,
+        fechaInicio: workOrder.fechaInicio ? new Date(workOrder.fechaInicio) : workOrders[orderIndex].fechaInicio,
+        fechaEstimadaEntrega: workOrder.fechaEstimadaEntrega ? new Date(workOrder.fechaEstimadaEntrega) : workOrders[orderIndex].fechaEstimadaEntrega,
+        fechaEntrega: workOrder.fechaEntrega ? new Date(workOrder.fechaEntrega) : workOrders[orderIndex].fechaEntrega,
+        updatedAt: new Date()
+      };
+
+      workOrders[orderIndex] = updatedOrder;
+      this.writeDataFile('work_orders.json', workOrders);
+
+      return updatedOrder;
+    } catch (error) {
+      console.error('Error updating work order:', error);
+      return undefined;
+    }
+  }
+
+  async deleteWorkOrder(id: string): Promise<boolean> {
+    try {
+      const workOrders = this.readDataFile('work_orders.json');
+      const filteredOrders = workOrders.filter((order: WorkOrder) => order.id !== id);
+      
+      if (filteredOrders.length === workOrders.length) {
+        return false;
+      }
+
+      this.writeDataFile('work_orders.json', filteredOrders);
+      return true;
+    } catch (error) {
+      console.error('Error deleting work order:', error);
+      return false;
+    }
+  }
+
+  async getNextWorkOrderNumber(): Promise<number> {
+    return this.nextWorkOrderNumber;
+  }
+
+  // ============================
+  // WORK ORDER ITEMS
+  // ============================
+
+  async getWorkOrderItems(workOrderId: string): Promise<WorkOrderItem[]> {
+    try {
+      const items = this.readDataFile('work_order_items.json');
+      return items.filter((item: WorkOrderItem) => item.workOrderId === workOrderId);
+    } catch (error) {
+      console.error('Error getting work order items:', error);
+      return [];
+    }
+  }
+
+  async createWorkOrderItem(item: InsertWorkOrderItem): Promise<WorkOrderItem> {
+    try {
+      const id = this.generateUUID();
+
+      const newItem: WorkOrderItem = {
+        id,
+        workOrderId: item.workOrderId,
+        serviceId: item.serviceId || null,
+        comboId: item.comboId || null,
+        nombre: item.nombre,
+        cantidad: item.cantidad,
+        precioUnitario: item.precioUnitario,
+        subtotal: item.subtotal,
+        orden: item.orden || 1
+      };
+
+      const items = this.readDataFile('work_order_items.json');
+      items.push(newItem);
+      this.writeDataFile('work_order_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating work order item:', error);
+      throw error;
+    }
+  }
+
+  async deleteWorkOrderItem(id: string): Promise<boolean> {
+    try {
+      const items = this.readDataFile('work_order_items.json');
+      const filteredItems = items.filter((item: WorkOrderItem) => item.id !== id);
+      
+      if (filteredItems.length === items.length) {
+        return false;
+      }
+
+      this.writeDataFile('work_order_items.json', filteredItems);
+      return true;
+    } catch (error) {
+      console.error('Error deleting work order item:', error);
+      return false;
+    }
+  }
+
+  async deleteWorkOrderItemsByWorkOrder(workOrderId: string): Promise<void> {
+    try {
+      const items = this.readDataFile('work_order_items.json');
+      const filteredItems = items.filter((item: WorkOrderItem) => item.workOrderId !== workOrderId);
+      this.writeDataFile('work_order_items.json', filteredItems);
+    } catch (error) {
+      console.error('Error deleting work order items by work order:', error);
+      throw error;
+    }
+  }
+
+  // Enhanced WorkOrder Item Management
+  async addWorkOrderItem(workOrderId: string, item: InsertWorkOrderItem): Promise<WorkOrderItem> {
+    return await this.createWorkOrderItem({ ...item, workOrderId });
+  }
+
+  async removeWorkOrderItem(workOrderId: string, itemId: string): Promise<boolean> {
+    return await this.deleteWorkOrderItem(itemId);
+  }
+
+  async updateWorkOrderItem(workOrderId: string, itemId: string, data: Partial<InsertWorkOrderItem>): Promise<WorkOrderItem | undefined> {
+    try {
+      const items = this.readDataFile('work_order_items.json');
+      const itemIndex = items.findIndex((item: WorkOrderItem) => item.id === itemId && item.workOrderId === workOrderId);
+      
+      if (itemIndex === -1) {
+        return undefined;
+      }
+
+      const updatedItem = {
+        ...items[itemIndex],
+        ...data
+      };
+
+      items[itemIndex] = updatedItem;
+      this.writeDataFile('work_order_items.json', items);
+
+      return updatedItem;
+    } catch (error) {
+      console.error('Error updating work order item:', error);
+      return undefined;
+    }
+  }
+
+  // WorkOrder Status Management
+  async updateWorkOrderStatus(id: string, status: WorkOrder["estado"]): Promise<WorkOrder | undefined> {
+    return await this.updateWorkOrder(id, { estado: status });
+  }
+
+  // WorkOrder-Sale Integration
+  async createSaleFromOrder(workOrderId: string, saleData: Partial<InsertSale>): Promise<Sale> {
+    try {
+      const workOrder = await this.getWorkOrder(workOrderId);
+      if (!workOrder) {
+        throw new Error('Work order not found');
+      }
+
+      const workOrderItems = await this.getWorkOrderItems(workOrderId);
+      
+      const sale: InsertSale = {
+        customerId: workOrder.customerId,
+        workOrderId: workOrderId,
+        numero: saleData.numero || Date.now(),
+        fecha: saleData.fecha || new Date(),
+        subtotal: workOrder.total - (workOrder.adelanto || 0),
+        impuestos: saleData.impuestos || 0,
+        total: workOrder.total - (workOrder.adelanto || 0),
+        medioPago: saleData.medioPago || "efectivo",
+        observaciones: saleData.observaciones || `Venta generada desde orden de trabajo #${workOrder.numero}`,
+        ...saleData
+      };
+
+      const newSale = await this.createSale(sale);
+
+      // Create sale items from work order items
+      for (const workOrderItem of workOrderItems) {
+        await this.createSaleItem({
+          saleId: newSale.id,
+          serviceId: workOrderItem.serviceId,
+          comboId: workOrderItem.comboId,
+          inventoryItemId: null,
+          nombre: workOrderItem.nombre,
+          cantidad: workOrderItem.cantidad,
+          precioUnitario: workOrderItem.precioUnitario,
+          subtotal: workOrderItem.subtotal
+        });
+      }
+
+      return newSale;
+    } catch (error) {
+      console.error('Error creating sale from order:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // INVENTORY ITEMS
+  // ============================
+
+  async getInventoryItem(id: string): Promise<InventoryItem | undefined> {
+    try {
+      const items = this.readCatalogFile('inventory_items.json');
+      return items.find((item: InventoryItem) => item.id === id);
+    } catch (error) {
+      console.error('Error getting inventory item:', error);
+      return undefined;
+    }
+  }
+
+  async getInventoryItems(): Promise<InventoryItem[]> {
+    try {
+      const items = this.readCatalogFile('inventory_items.json');
+      return items.sort((a: InventoryItem, b: InventoryItem) => 
+        a.nombre.localeCompare(b.nombre)
+      );
+    } catch (error) {
+      console.error('Error getting inventory items:', error);
+      return [];
+    }
+  }
+
+  async getInventoryItemsByAlert(alertStatus: string): Promise<InventoryItem[]> {
+    try {
+      const items = await this.getInventoryItems();
+      return items.filter(item => item.estadoAlerta === alertStatus);
+    } catch (error) {
+      console.error('Error getting inventory items by alert:', error);
+      return [];
+    }
+  }
+
+  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newItem: InventoryItem = {
+        id,
+        nombre: item.nombre,
+        descripcion: item.descripcion || null,
+        precio: item.precio.toString(),
+        tasaIva: item.tasaIva ?? 10,
+        stockActual: item.stockActual,
+        stockMinimo: item.stockMinimo,
+        unidadMedida: item.unidadMedida || "UN",
+        categoria: item.categoria,
+        proveedor: item.proveedor || null,
+        ultimoPedido: item.ultimoPedido || null,
+        estadoAlerta: item.estadoAlerta || "normal",
+        activo: item.activo !== undefined ? item.activo : true,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const items = this.readCatalogFile('inventory_items.json');
+      items.push(newItem);
+      this.writeDataFile('inventory_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating inventory item:', error);
+      throw error;
+    }
+  }
+
+  async updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined> {
+    try {
+      const items = this.readCatalogFile('inventory_items.json');
+      const itemIndex = items.findIndex((i: InventoryItem) => i.id === id);
+      
+      if (itemIndex === -1) {
+        return undefined;
+      }
+
+      const updatedItem = {
+        ...items[itemIndex],
+        ...item,
+        updatedAt: new Date()
+      };
+
+      items[itemIndex] = updatedItem;
+      this.writeDataFile('inventory_items.json', items);
+
+      return updatedItem;
+    } catch (error) {
+      console.error('Error updating inventory item:', error);
+      return undefined;
+    }
+  }
+
+  async deleteInventoryItem(id: string): Promise<boolean> {
+    try {
+      const items = this.readCatalogFile('inventory_items.json');
+      const filteredItems = items.filter((item: InventoryItem) => item.id !== id);
+      
+      if (filteredItems.length === items.length) {
+        return false;
+      }
+
+      this.writeDataFile('inventory_items.json', filteredItems);
+      return true;
+    } catch (error) {
+      console.error('Error deleting inventory item:', error);
+      return false;
+    }
+  }
+
+  async updateInventoryStock(id: string, newStock: number): Promise<InventoryItem | undefined> {
+    const item = await this.getInventoryItem(id);
+    if (!item) {
+      return undefined;
+    }
+
+    return await this.updateInventoryItem(id, {
+      stockActual: newStock,
+      estadoAlerta: estadoAlertaStock(newStock, item.stockMinimo)
+    });
+  }
+
+  async adjustInventoryStock(id: string, delta: number, allowNegative: boolean): Promise<InventoryItem | undefined> {
+    try {
+      // Read, check and write without yielding, so concurrent sales cannot take the same units
+      const items = this.readCatalogFile('inventory_items.json');
+      const itemIndex = items.findIndex((i: InventoryItem) => i.id === id);
+      if (itemIndex === -1) {
+        return undefined;
+      }
+
+      const stockActual = items[itemIndex].stockActual + delta;
+      if (delta < 0 && stockActual < 0 && !allowNegative) {
+        return undefined;
+      }
+
+      items[itemIndex] = {
+        ...items[itemIndex],
+        stockActual,
+        estadoAlerta: estadoAlertaStock(stockActual, items[itemIndex].stockMinimo),
+        updatedAt: new Date()
+      };
+      this.writeDataFile('inventory_items.json', items);
+
+      return items[itemIndex];
+    } catch (error) {
+      console.error('Error adjusting inventory stock:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // STOCK MOVEMENTS
+  // ============================
+
+  async getMovimientosStock(inventoryItemId: string): Promise<MovimientoStock[]> {
+    try {
+      const movimientos = this.readDataFile('movimientos_stock.json');
+      return movimientos
+        .filter((movimiento: MovimientoStock) => movimiento.inventoryItemId === inventoryItemId)
+        .map((movimiento: MovimientoStock) => ({ ...movimiento, fecha: new Date(movimiento.fecha) }))
+        .sort((a: MovimientoStock, b: MovimientoStock) => a.fecha.getTime() - b.fecha.getTime());
+    } catch (error) {
+      console.error('Error getting stock movements:', error);
+      return [];
+    }
+  }
+
+  async createMovimientoStock(movimiento: InsertMovimientoStock): Promise<MovimientoStock> {
+    try {
+      const newMovimiento: MovimientoStock = {
+        id: this.generateUUID(),
+        inventoryItemId: movimiento.inventoryItemId,
+        tipo: movimiento.tipo,
+        cantidad: movimiento.cantidad,
+        motivo: movimiento.motivo || null,
+        referencia: movimiento.referencia || null,
+        saleId: movimiento.saleId || null,
+        userId: movimiento.userId || null,
+        fecha: movimiento.fecha ? new Date(movimiento.fecha) : new Date()
+      };
+
+      const movimientos = this.readDataFile('movimientos_stock.json');
+      movimientos.push(newMovimiento);
+      this.writeDataFile('movimientos_stock.json', movimientos);
+
+      return newMovimiento;
+    } catch (error) {
+      console.error('Error creating stock movement:', error);
+      throw error;
+    }
+  }
+
+  async openMovimientosStock(inventoryItemId: string, userId: string | null): Promise<void> {
+    try {
+      // Read, check and write without yielding, so concurrent sales open the ledger once
+      const item = this.readCatalogFile('inventory_items.json').find((i: InventoryItem) => i.id === inventoryItemId);
+      const movimientos = this.readDataFile('movimientos_stock.json');
+      if (!item || movimientos.some((movimiento: MovimientoStock) => movimiento.inventoryItemId === inventoryItemId)) {
+        return;
+      }
+
+      movimientos.push({
+        id: this.generateUUID(),
+        inventoryItemId,
+        tipo: 'inicial',
+        cantidad: item.stockActual,
+        motivo: null,
+        referencia: null,
+        saleId: null,
+        userId: userId || null,
+        fecha: new Date()
+      });
+      this.writeDataFile('movimientos_stock.json', movimientos);
+    } catch (error) {
+      console.error('Error opening stock movements:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // SALES
+  // ============================
+
+  async getSale(id: string): Promise<Sale | undefined> {
+    try {
+      const sales = this.readDataFile('sales.json');
+      return sales.find((sale: Sale) => sale.id === id);
+    } catch (error) {
+      console.error('Error getting sale:', error);
+      return undefined;
+    }
+  }
+
+  async getSaleByCdc(cdc: string): Promise<Sale | undefined> {
+    try {
+      const sales = this.readDataFile('sales.json');
+      return sales.find((sale: Sale) => sale.cdc === cdc);
+    } catch (error) {
+      console.error('Error getting sale by CDC:', error);
+      return undefined;
+    }
+  }
+
+  async getSales(): Promise<Sale[]> {
+    try {
+      const sales = this.readDataFile('sales.json');
+      return sales.sort((a: Sale, b: Sale) => 
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
+    } catch (error) {
+      console.error('Error getting sales:', error);
+      return [];
+    }
+  }
+
+  async getSalesByDateRange(startDate: Date, endDate: Date): Promise<Sale[]> {
+    try {
+      const sales = await this.getSales();
+      return sales.filter(sale => {
+        const saleDate = new Date(sale.fecha);
+        return saleDate >= startDate && saleDate <= endDate;
+      });
+    } catch (error) {
+      console.error('Error getting sales by date range:', error);
+      return [];
+    }
+  }
+
+  async getSalesByCustomer(customerId: string): Promise<Sale[]> {
+    try {
+      const sales = await this.getSales();
+      return sales.filter(sale => sale.customerId === customerId);
+    } catch (error) {
+      console.error('Error getting sales by customer:', error);
+      return [];
+    }
+  }
+
+  async getSalesBySifenEstado(estado: Sale["sifenEstado"]): Promise<Sale[]> {
+    try {
+      const sales = await this.getSales();
+      // Sales stored before the SIFEN queue existed have no status and count as pending
+      return sales.filter(sale => (sale.sifenEstado || "pendiente") === estado);
+    } catch (error) {
+      console.error('Error getting sales by SIFEN status:', error);
+      return [];
+    }
+  }
+
+  async getSalesBySifenLote(loteId: string): Promise<Sale[]> {
+    try {
+      const sales = await this.getSales();
+      return sales.filter(sale => sale.sifenLoteId === loteId);
+    } catch (error) {
+      console.error('Error getting sales by SIFEN lote:', error);
+      return [];
+    }
+  }
+
+  async getSalesBySesionCaja(sesionId: string): Promise<Sale[]> {
+    try {
+      const sales = await this.getSales();
+      return sales.filter(sale => sale.sesionCajaId === sesionId);
+    } catch (error) {
+      console.error('Error getting sales by cash session:', error);
+      return [];
+    }
+  }
+
+  async getLastSale(): Promise<Sale | undefined> {
+    try {
+      const sales = await this.getSales();
+      return sales[0]; // Already sorted by date descending
+    } catch (error) {
+      console.error('Error getting last sale:', error);
+      return undefined;
+    }
+  }
+
+  async createSale(sale: InsertSale): Promise<Sale> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newSale: Sale = {
+        id,
+        numeroFactura: sale.numeroFactura,
+        customerId: sale.customerId || null,
+        workOrderId: sale.workOrderId || null,
+        fecha: sale.fecha ? new Date(sale.fecha) : now,
+        subtotal: sale.subtotal,
+        impuestos: sale.impuestos || "0",
+        total: sale.total,
+        gravadas10: sale.gravadas10 || "0",
+        gravadas5: sale.gravadas5 || "0",
+        exentas: sale.exentas || "0",
+        iva10: sale.iva10 || "0",
+        iva5: sale.iva5 || "0",
+        descuentoGlobal: sale.descuentoGlobal || "0",
+        descuentoGlobalTipo: sale.descuentoGlobalTipo || null,
+        descuentoGlobalValor: sale.descuentoGlobalValor || null,
+        motivoDescuentoGlobal: sale.motivoDescuentoGlobal || null,
+        descuentoTotal: sale.descuentoTotal || "0",
+        descuentoAutorizadoPor: sale.descuentoAutorizadoPor || null,
+        medioPago: sale.medioPago,
+        condicionVenta: sale.condicionVenta || "contado",
+        fechaVencimiento: sale.fechaVencimiento || null,
+        moneda: sale.moneda || "PYG",
+        tipoCambio: sale.tipoCambio || null,
+        totalMoneda: sale.totalMoneda || null,
+        regimenTurismo: sale.regimenTurismo || false,
+        sesionCajaId: sale.sesionCajaId || null,
+        timbradoUsado: sale.timbradoUsado,
+        cdc: sale.cdc || null,
+        sifenEstado: sale.sifenEstado || "pendiente",
+        sifenLoteId: sale.sifenLoteId || null,
+        sifenProtocolo: sale.sifenProtocolo || null,
+        sifenMensajes: sale.sifenMensajes || null,
+        anulada: sale.anulada || false,
+        motivoAnulacion: sale.motivoAnulacion || null,
+        fechaAnulacion: sale.fechaAnulacion ? new Date(sale.fechaAnulacion) : null,
+        anuladaPor: sale.anuladaPor || null,
+        createdBy: sale.createdBy || null,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const sales = this.readDataFile('sales.json');
+
+      // Invoice numbers are unique per timbrado
+      if (sales.some((s: Sale) => s.numeroFactura === newSale.numeroFactura && s.timbradoUsado === newSale.timbradoUsado)) {
+        throw new Error(`Invoice number ${newSale.numeroFactura} already exists for timbrado ${newSale.timbradoUsado}`);
+      }
+
+      sales.push(newSale);
+      this.writeDataFile('sales.json', sales);
+
+      return newSale;
+    } catch (error) {
+      console.error('Error creating sale:', error);
+      throw error;
+    }
+  }
+
+  async updateSale(id: string, sale: Partial<InsertSale>): Promise<Sale | undefined> {
+    try {
+      const sales = this.readDataFile('sales.json');
+      const saleIndex = sales.findIndex((s: Sale) => s.id === id);
+      
+      if (saleIndex === -1) {
+        return undefined;
+      }
+
+      const updatedSale = {
+        ...sales[saleIndex],
+        ...sale,
+        fecha: sale.fecha ? new Date(sale.fecha) : sales[saleIndex].fecha,
+        updatedAt: new Date()
+      };
+
+      sales[saleIndex] = updatedSale;
+      this.writeDataFile('sales.json', sales);
+
+      return updatedSale;
+    } catch (error) {
+      console.error('Error updating sale:', error);
+      return undefined;
+    }
+  }
+
+  async deleteSale(id: string): Promise<boolean> {
+    try {
+      const sales = this.readDataFile('sales.json');
+      const filteredSales = sales.filter((sale: Sale) => sale.id !== id);
+      
+      if (filteredSales.length === sales.length) {
+        return false;
+      }
+
+      this.writeDataFile('sales.json', filteredSales);
+      await this.deleteSalePagosBySale(id);
+      return true;
+    } catch (error) {
+      console.error('Error deleting sale:', error);
+      return false;
+    }
+  }
+
+  // ============================
+  // SALE ITEMS
+  // ============================
+
+  async getSaleItems(saleId: string): Promise<SaleItem[]> {
+    try {
+      const items = this.readDataFile('sale_items.json');
+      return items.filter((item: SaleItem) => item.saleId === saleId);
+    } catch (error) {
+      console.error('Error getting sale items:', error);
+      return [];
+    }
+  }
+
+  async createSaleItem(item: InsertSaleItem): Promise<SaleItem> {
+    try {
+      const id = this.generateUUID();
+
+      const newItem: SaleItem = {
+        id,
+        saleId: item.saleId,
+        serviceId: item.serviceId || null,
+        comboId: item.comboId || null,
+        inventoryItemId: item.inventoryItemId || null,
+        nombre: item.nombre,
+        cantidad: item.cantidad,
+        precioUnitario: item.precioUnitario,
+        subtotal: item.subtotal,
+        tasaIva: item.tasaIva ?? 10,
+        descuento: item.descuento || "0",
+        descuentoTipo: item.descuentoTipo || null,
+        descuentoValor: item.descuentoValor || null,
+        motivoDescuento: item.motivoDescuento || null,
+        descuentoGlobal: item.descuentoGlobal || "0"
+      };
+
+      const items = this.readDataFile('sale_items.json');
+      items.push(newItem);
+      this.writeDataFile('sale_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating sale item:', error);
+      throw error;
+    }
+  }
+
+  async deleteSaleItem(id: string): Promise<boolean> {
+    try {
+      const items = this.readDataFile('sale_items.json');
+      const filteredItems = items.filter((item: SaleItem) => item.id !== id);
+      
+      if (filteredItems.length === items.length) {
+        return false;
+      }
+
+      this.writeDataFile('sale_items.json', filteredItems);
+      return true;
+    } catch (error) {
+      console.error('Error deleting sale item:', error);
+      return false;
+    }
+  }
+
+  async deleteSaleItemsBySale(saleId: string): Promise<void> {
+    try {
+      const items = this.readDataFile('sale_items.json');
+      const filteredItems = items.filter((item: SaleItem) => item.saleId !== saleId);
+      this.writeDataFile('sale_items.json', filteredItems);
+    } catch (error) {
+      console.error('Error deleting sale items by sale:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // SALE PAYMENTS
+  // ============================
+
+  async getSalePagos(saleId: string): Promise<SalePago[]> {
+    try {
+      const pagos = this.readDataFile('sale_pagos.json');
+      return pagos.filter((pago: SalePago) => pago.saleId === saleId);
+    } catch (error) {
+      console.error('Error getting sale payments:', error);
+      return [];
+    }
+  }
+
+  async createSalePago(pago: InsertSalePago): Promise<SalePago> {
+    try {
+      const newPago: SalePago = {
+        id: this.generateUUID(),
+        saleId: pago.saleId,
+        medioPago: pago.medioPago,
+        monto: pago.monto,
+        vuelto: pago.vuelto ?? "0",
+        marcaTarjeta: pago.marcaTarjeta || null,
+        ultimos4: pago.ultimos4 || null,
+        referencia: pago.referencia || null
+      };
+
+      const pagos = this.readDataFile('sale_pagos.json');
+      pagos.push(newPago);
+      this.writeDataFile('sale_pagos.json', pagos);
+
+      return newPago;
+    } catch (error) {
+      console.error('Error creating sale payment:', error);
+      throw error;
+    }
+  }
+
+  async deleteSalePagosBySale(saleId: string): Promise<void> {
+    try {
+      const pagos = this.readDataFile('sale_pagos.json');
+      this.writeDataFile('sale_pagos.json', pagos.filter((pago: SalePago) => pago.saleId !== saleId));
+    } catch (error) {
+      console.error('Error deleting sale payments by sale:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // SIFEN LOTES
+  // ============================
+
+  async getSifenLote(id: string): Promise<SifenLote | undefined> {
+    try {
+      const lotes = await this.getSifenLotes();
+      return lotes.find(lote => lote.id === id);
+    } catch (error) {
+      console.error('Error getting SIFEN lote:', error);
+      return undefined;
+    }
+  }
+
+  async getSifenLotes(): Promise<SifenLote[]> {
+    try {
+      const lotes = this.readDataFile('sifen_lotes.json');
+      return lotes
+        .map((lote: SifenLote) => ({ ...lote, proximoIntento: new Date(lote.proximoIntento) }))
+        .sort((a: SifenLote, b: SifenLote) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        );
+    } catch (error) {
+      console.error('Error getting SIFEN lotes:', error);
+      return [];
+    }
+  }
+
+  async getSifenLotesByEstado(estado: SifenLote["estado"]): Promise<SifenLote[]> {
+    try {
+      const lotes = await this.getSifenLotes();
+      return lotes.filter(lote => lote.estado === estado);
+    } catch (error) {
+      console.error('Error getting SIFEN lotes by status:', error);
+      return [];
+    }
+  }
+
+  async createSifenLote(lote: InsertSifenLote): Promise<SifenLote> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newLote: SifenLote = {
+        id,
+        protocolo: lote.protocolo || null,
+        estado: lote.estado || "pendiente",
+        cantidadDocumentos: lote.cantidadDocumentos ?? 0,
+        intentos: lote.intentos ?? 0,
+        proximoIntento: lote.proximoIntento ? new Date(lote.proximoIntento) : now,
+        ultimoError: lote.ultimoError || null,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const lotes = this.readDataFile('sifen_lotes.json');
+      lotes.push(newLote);
+      this.writeDataFile('sifen_lotes.json', lotes);
+
+      return newLote;
+    } catch (error) {
+      console.error('Error creating SIFEN lote:', error);
+      throw error;
+    }
+  }
+
+  async updateSifenLote(id: string, lote: Partial<InsertSifenLote>): Promise<SifenLote | undefined> {
+    try {
+      const lotes = this.readDataFile('sifen_lotes.json');
+      const loteIndex = lotes.findIndex((l: SifenLote) => l.id === id);
+
+      if (loteIndex === -1) {
+        return undefined;
+      }
+
+      const updatedLote = {
+        ...lotes[loteIndex],
+        ...lote,
+        updatedAt: new Date()
+      };
+
+      lotes[loteIndex] = updatedLote;
+      this.writeDataFile('sifen_lotes.json', lotes);
+
+      return { ...updatedLote, proximoIntento: new Date(updatedLote.proximoIntento) };
+    } catch (error) {
+      console.error('Error updating SIFEN lote:', error);
+      return undefined;
+    }
+  }
+
+  // ============================
+  // SIFEN EVENTS
+  // ============================
+
+  async getSifenEvento(id: string): Promise<SifenEvento | undefined> {
+    try {
+      const eventos = await this.getSifenEventos();
+      return eventos.find(evento => evento.id === id);
+    } catch (error) {
+      console.error('Error getting SIFEN event:', error);
+      return undefined;
+    }
+  }
+
+  async getSifenEventos(): Promise<SifenEvento[]> {
+    try {
+      const eventos = this.readDataFile('sifen_eventos.json');
+      return eventos
+        .map((evento: SifenEvento) => ({ ...evento, proximoIntento: new Date(evento.proximoIntento) }))
+        .sort((a: SifenEvento, b: SifenEvento) =>
+          new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+        );
+    } catch (error) {
+      console.error('Error getting SIFEN events:', error);
+      return [];
+    }
+  }
+
+  async getSifenEventosByEstado(estado: SifenEvento["estado"]): Promise<SifenEvento[]> {
+    try {
+      const eventos = await this.getSifenEventos();
+      return eventos.filter(evento => evento.estado === estado);
+    } catch (error) {
+      console.error('Error getting SIFEN events by status:', error);
+      return [];
+    }
+  }
+
+  async createSifenEvento(evento: InsertSifenEvento): Promise<SifenEvento> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newEvento: SifenEvento = {
+        id,
+        tipo: evento.tipo,
+        saleId: evento.saleId || null,
+        cdc: evento.cdc || null,
+        timbrado: evento.timbrado || null,
+        establecimiento: evento.establecimiento || null,
+        puntoExpedicion: evento.puntoExpedicion || null,
+        tipoDocumento: evento.tipoDocumento ?? 1,
+        numeroDesde: evento.numeroDesde ?? null,
+        numeroHasta: evento.numeroHasta ?? null,
+        motivo: evento.motivo,
+        estado: evento.estado || "pendiente",
+        protocolo: evento.protocolo || null,
+        mensajes: evento.mensajes || null,
+        intentos: evento.intentos ?? 0,
+        proximoIntento: evento.proximoIntento ? new Date(evento.proximoIntento) : now,
+        ultimoError: evento.ultimoError || null,
+        createdBy: evento.createdBy || null,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const eventos = this.readDataFile('sifen_eventos.json');
+      eventos.push(newEvento);
+      this.writeDataFile('sifen_eventos.json', eventos);
+
+      return newEvento;
+    } catch (error) {
+      console.error('Error creating SIFEN event:', error);
+      throw error;
+    }
+  }
+
+  async updateSifenEvento(id: string, evento: Partial<InsertSifenEvento>): Promise<SifenEvento | undefined> {
+    try {
+      const eventos = this.readDataFile('sifen_eventos.json');
+      const eventoIndex = eventos.findIndex((e: SifenEvento) => e.id === id);
+
+      if (eventoIndex === -1) {
+        return undefined;
+      }
+
+      const updatedEvento = {
+        ...eventos[eventoIndex],
+        ...evento,
+        updatedAt: new Date()
+      };
+
+      eventos[eventoIndex] = updatedEvento;
+      this.writeDataFile('sifen_eventos.json', eventos);
+
+      return { ...updatedEvento, proximoIntento: new Date(updatedEvento.proximoIntento) };
+    } catch (error) {
+      console.error('Error updating SIFEN event:', error);
+      return undefined;
+    }
+  }
+  // ============================
+  // CREDIT NOTES
+  // ============================
+
+  async getNotaCredito(id: string): Promise<NotaCredito | undefined> {
+    try {
+      const notas = this.readDataFile('notas_credito.json');
+      return notas.find((nota: NotaCredito) => nota.id === id);
+    } catch (error) {
+      console.error('Error getting credit note:', error);
+      return undefined;
+    }
+  }
+
+  async getNotaCreditoByCdc(cdc: string): Promise<NotaCredito | undefined> {
+    try {
+      const notas = this.readDataFile('notas_credito.json');
+      return notas.find((nota: NotaCredito) => nota.cdc === cdc);
+    } catch (error) {
+      console.error('Error getting credit note by CDC:', error);
+      return undefined;
+    }
+  }
+
+  async getNotasCredito(): Promise<NotaCredito[]> {
+    try {
+      const notas = this.readDataFile('notas_credito.json');
+      return notas.sort((a: NotaCredito, b: NotaCredito) =>
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
+    } catch (error) {
+      console.error('Error getting credit notes:', error);
+      return [];
+    }
+  }
+
+  async getNotasCreditoBySale(saleId: string): Promise<NotaCredito[]> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas.filter(nota => nota.saleId === saleId);
+    } catch (error) {
+      console.error('Error getting credit notes by sale:', error);
+      return [];
+    }
+  }
+
+  async getNotasCreditoBySesionCaja(sesionId: string): Promise<NotaCredito[]> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas.filter(nota => nota.sesionCajaId === sesionId);
+    } catch (error) {
+      console.error('Error getting credit notes by cash session:', error);
+      return [];
+    }
+  }
+
+  async getNotasCreditoByDateRange(startDate: Date, endDate: Date): Promise<NotaCredito[]> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas.filter(nota => {
+        const fecha = new Date(nota.fecha);
+        return fecha >= startDate && fecha <= endDate;
+      });
+    } catch (error) {
+      console.error('Error getting credit notes by date range:', error);
+      return [];
+    }
+  }
+
+  async getNotasCreditoBySifenEstado(estado: NotaCredito["sifenEstado"]): Promise<NotaCredito[]> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas.filter(nota => nota.sifenEstado === estado);
+    } catch (error) {
+      console.error('Error getting credit notes by SIFEN status:', error);
+      return [];
+    }
+  }
+
+  async getNotasCreditoBySifenLote(loteId: string): Promise<NotaCredito[]> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas.filter(nota => nota.sifenLoteId === loteId);
+    } catch (error) {
+      console.error('Error getting credit notes by SIFEN lote:', error);
+      return [];
+    }
+  }
+
+  async getLastNotaCredito(): Promise<NotaCredito | undefined> {
+    try {
+      const notas = await this.getNotasCredito();
+      return notas[0]; // Already sorted by date descending
+    } catch (error) {
+      console.error('Error getting last credit note:', error);
+      return undefined;
+    }
+  }
+
+  async createNotaCredito(nota: InsertNotaCredito): Promise<NotaCredito> {
+    try {
+      const id = this.generateUUID();
+      const now = new Date();
+
+      const newNota: NotaCredito = {
+        id,
+        numero: nota.numero,
+        saleId: nota.saleId,
+        customerId: nota.customerId || null,
+        fecha: nota.fecha ? new Date(nota.fecha) : now,
+        motivo: nota.motivo,
+        descripcion: nota.descripcion,
+        subtotal: nota.subtotal,
+        impuestos: nota.impuestos || "0",
+        total: nota.total,
+        timbradoUsado: nota.timbradoUsado,
+        cdc: nota.cdc || null,
+        sifenEstado: nota.sifenEstado || "pendiente",
+        sifenLoteId: nota.sifenLoteId || null,
+        sifenProtocolo: nota.sifenProtocolo || null,
+        sifenMensajes: nota.sifenMensajes || null,
+        reembolsoEfectivo: nota.reembolsoEfectivo || "0",
+        sesionCajaId: nota.sesionCajaId || null,
+        createdBy: nota.createdBy || null,
+        createdAt: now,
+        updatedAt: now
+      };
+
+      const notas = this.readDataFile('notas_credito.json');
+      if (notas.some((n: NotaCredito) => n.numero === newNota.numero && n.timbradoUsado === newNota.timbradoUsado)) {
+        throw new Error(`Credit note number ${newNota.numero} already exists for timbrado ${newNota.timbradoUsado}`);
+      }
+      notas.push(newNota);
+      this.writeDataFile('notas_credito.json', notas);
+
+      return newNota;
+    } catch (error) {
+      console.error('Error creating credit note:', error);
+      throw error;
+    }
+  }
+
+  async updateNotaCredito(id: string, nota: Partial<InsertNotaCredito>): Promise<NotaCredito | undefined> {
+    try {
+      const notas = this.readDataFile('notas_credito.json');
+      const notaIndex = notas.findIndex((n: NotaCredito) => n.id === id);
+
+      if (notaIndex === -1) {
+        return undefined;
+      }
+
+      const updatedNota = {
+        ...notas[notaIndex],
+        ...nota,
+        updatedAt: new Date()
+      };
+
+      notas[notaIndex] = updatedNota;
+      this.writeDataFile('notas_credito.json', notas);
+
+      return updatedNota;
+    } catch (error) {
+      console.error('Error updating credit note:', error);
+      return undefined;
+    }
+  }
+
+  // ============================
+  // CREDIT NOTE ITEMS
+  // ============================
+
+  async getNotaCreditoItems(notaCreditoId: string): Promise<NotaCreditoItem[]> {
+    try {
+      const items = this.readDataFile('nota_credito_items.json');
+      return items.filter((item: NotaCreditoItem) => item.notaCreditoId === notaCreditoId);
+    } catch (error) {
+      console.error('Error getting credit note items:', error);
+      return [];
+    }
+  }
+
+  async createNotaCreditoItem(item: InsertNotaCreditoItem): Promise<NotaCreditoItem> {
+    try {
+      const id = this.generateUUID();
+
+      const newItem: NotaCreditoItem = {
+        id,
+        notaCreditoId: item.notaCreditoId,
+        saleItemId: item.saleItemId || null,
+        nombre: item.nombre,
+        cantidad: item.cantidad,
+        precioUnitario: item.precioUnitario,
+        subtotal: item.subtotal,
+        tasaIva: item.tasaIva ?? 10
+      };
+
+      const items = this.readDataFile('nota_credito_items.json');
+      items.push(newItem);
+      this.writeDataFile('nota_credito_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating credit note item:', error);
+      throw error;
+    }
+  }
+
+  // ============================
+  // DEBIT NOTES
+  // ============================
+
+  async getNotaDebito(id: string): Promise<NotaDebito | undefined> {
+    try {
+      const notas = this.readDataFile('notas_debito.json');
+      return notas.find((nota: NotaDebito) => nota.id === id);
+    } catch (error) {
+      console.error('Error getting debit note:', error);
+      return undefined;
+    }
+  }
+
+  async getNotaDebitoByCdc(cdc: string): Promise<NotaDebito | undefined> {
+    try {
+      const notas = this.readDataFile('notas_debito.json');
+      return notas.find((nota: NotaDebito) => nota.cdc === cdc);
+    } catch (error) {
+      console.error('Error getting debit note by CDC:', error);
+      return undefined;
+    }
+  }
+
+  async getNotasDebito(): Promise<NotaDebito[]> {
+    try {
+      const notas = this.readDataFile('notas_debito.json');
+      return notas.sort((a: NotaDebito, b: NotaDebito) =>
+        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      );
     } catch (error) {
-      console.error('Error creating sale from order:', error);
-      throw error;
+      console.error('Error getting debit notes:', error);
+      return [];
     }
   }
 
-  // ============================
-  // INVENTORY ITEMS
-  // ============================
+  async getNotasDebitoBySale(saleId: string): Promise<NotaDebito[]> {
+    try {
+      const notas = await this.getNotasDebito();
+      return notas.filter(nota => nota.saleId === saleId);
+    } catch (error) {
+      console.error('Error getting debit notes by sale:', error);
+      return [];
+    }
+  }
 
-  async getInventoryItem(id: string): Promise<InventoryItem | undefined> {
+  async getNotasDebitoByDateRange(startDate: Date, endDate: Date): Promise<NotaDebito[]> {
     try {
-      const items = this.readDataFile('inventory_items.json');
-      return items.find((item: InventoryItem) => item.id === id);
+      const notas = await this.getNotasDebito();
+      return notas.filter(nota => {
+        const fecha = new Date(nota.fecha);
+        return fecha >= startDate && fecha <= endDate;
+      });
     } catch (error) {
-      console.error('Error getting inventory item:', error);
-      return undefined;
+      console.error('Error getting debit notes by date range:', error);
+      return [];
     }
   }
 
-  async getInventoryItems(): Promise<InventoryItem[]> {
+  async getNotasDebitoBySifenEstado(estado: NotaDebito["sifenEstado"]): Promise<NotaDebito[]> {
     try {
-      const items = this.readDataFile('inventory_items.json');
-      return items.sort((a: InventoryItem, b: InventoryItem) => 
-        a.nombre.localeCompare(b.nombre)
-      );
+      const notas = await this.getNotasDebito();
+      return notas.filter(nota => nota.sifenEstado === estado);
     } catch (error) {
-      console.error('Error getting inventory items:', error);
+      console.error('Error getting debit notes by SIFEN status:', error);
       return [];
     }
   }
 
-  async getInventoryItemsByAlert(alertStatus: string): Promise<InventoryItem[]> {
+  async getNotasDebitoBySifenLote(loteId: string): Promise<NotaDebito[]> {
     try {
-      const items = await this.getInventoryItems();
-      return items.filter(item => item.estadoAlerta === alertStatus);
+      const notas = await this.getNotasDebito();
+      return notas.filter(nota => nota.sifenLoteId === loteId);
     } catch (error) {
-      console.error('Error getting inventory items by alert:', error);
+      console.error('Error getting debit notes by SIFEN lote:', error);
       return [];
     }
   }
 
-  async createInventoryItem(item: InsertInventoryItem): Promise<InventoryItem> {
+  async getLastNotaDebito(): Promise<NotaDebito | undefined> {
+    try {
+      const notas = await this.getNotasDebito();
+      return notas[0]; // Already sorted by date descending
+    } catch (error) {
+      console.error('Error getting last debit note:', error);
+      return undefined;
+    }
+  }
+
+  async createNotaDebito(nota: InsertNotaDebito): Promise<NotaDebito> {
     try {
       const id = this.generateUUID();
       const now = new Date();
 
-      const newItem: InventoryItem = {
+      const newNota: NotaDebito = {
         id,
-        nombre: item.nombre,
-        descripcion: item.descripcion || null,
-        codigo: item.codigo || null,
-        categoryId: item.categoryId || null,
-        precio: item.precio,
-        stockActual: item.stockActual,
-        stockMinimo: item.stockMinimo,
-        stockMaximo: item.stockMaximo || null,
-        unidadMedida: item.unidadMedida,
-        proveedor: item.proveedor || null,
-        ubicacion: item.ubicacion || null,
-        fechaVencimiento: this.processDateString(item.fechaVencimiento),
-        estadoAlerta: item.estadoAlerta || "normal",
-        isActive: item.isActive !== undefined ? item.isActive : true,
+        numero: nota.numero,
+        saleId: nota.saleId,
+        customerId: nota.customerId || null,
+        fecha: nota.fecha ? new Date(nota.fecha) : now,
+        motivo: nota.motivo,
+        descripcion: nota.descripcion,
+        subtotal: nota.subtotal,
+        impuestos: nota.impuestos || "0",
+        total: nota.total,
+        timbradoUsado: nota.timbradoUsado,
+        cdc: nota.cdc || null,
+        sifenEstado: nota.sifenEstado || "pendiente",
+        sifenLoteId: nota.sifenLoteId || null,
+        sifenProtocolo: nota.sifenProtocolo || null,
+        sifenMensajes: nota.sifenMensajes || null,
+        createdBy: nota.createdBy || null,
         createdAt: now,
         updatedAt: now
       };
 
-      const items = this.readDataFile('inventory_items.json');
-      items.push(newItem);
-      this.writeDataFile('inventory_items.json', items);
+      const notas = this.readDataFile('notas_debito.json');
+      if (notas.some((n: NotaDebito) => n.numero === newNota.numero && n.timbradoUsado === newNota.timbradoUsado)) {
+        throw new Error(`Debit note number ${newNota.numero} already exists for timbrado ${newNota.timbradoUsado}`);
+      }
+      notas.push(newNota);
+      this.writeDataFile('notas_debito.json', notas);
 
-      return newItem;
+      return newNota;
     } catch (error) {
-      console.error('Error creating inventory item:', error);
+      console.error('Error creating debit note:', error);
       throw error;
     }
   }
 
-  async updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined> {
+  async updateNotaDebito(id: string, nota: Partial<InsertNotaDebito>): Promise<NotaDebito | undefined> {
     try {
-      const items = this.readDataFile('inventory_items.json');
-      const itemIndex = items.findIndex((i: InventoryItem) => i.id === id);
-      
-      if (itemIndex === -1) {
+      const notas = this.readDataFile('notas_debito.json');
+      const notaIndex = notas.findIndex((n: NotaDebito) => n.id === id);
+
+      if (notaIndex === -1) {
         return undefined;
       }
 
-      const updatedItem = {
-        ...items[itemIndex],
-        ...item,
-        fechaVencimiento: item.fechaVencimiento ? this.processDateString(item.fechaVencimiento) : items[itemIndex].fechaVencimiento,
+      const updatedNota = {
+        ...notas[notaIndex],
+        ...nota,
         updatedAt: new Date()
       };
 
-      items[itemIndex] = updatedItem;
-      this.writeDataFile('inventory_items.json', items);
+      notas[notaIndex] = updatedNota;
+      this.writeDataFile('notas_debito.json', notas);
 
-      return updatedItem;
+      return updatedNota;
     } catch (error) {
-      console.error('Error updating inventory item:', error);
+      console.error('Error updating debit note:', error);
       return undefined;
     }
   }
 
-  async deleteInventoryItem(id: string): Promise<boolean> {
-    try {
-      const items = this.readDataFile('inventory_items.json');
-      const filteredItems = items.filter((item: InventoryItem) => item.id !== id);
-      
-      if (filteredItems.length === items.length) {
-        return false;
-      }
+  // ============================
+  // DEBIT NOTE ITEMS
+  // ============================
 
-      this.writeDataFile('inventory_items.json', filteredItems);
-      return true;
+  async getNotaDebitoItems(notaDebitoId: string): Promise<NotaDebitoItem[]> {
+    try {
+      const items = this.readDataFile('nota_debito_items.json');
+      return items.filter((item: NotaDebitoItem) => item.notaDebitoId === notaDebitoId);
     } catch (error) {
-      console.error('Error deleting inventory item:', error);
-      return false;
+      console.error('Error getting debit note items:', error);
+      return [];
     }
   }
 
-  async updateInventoryStock(id: string, newStock: number): Promise<InventoryItem | undefined> {
-    return await this.updateInventoryItem(id, { stockActual: newStock });
+  async createNotaDebitoItem(item: InsertNotaDebitoItem): Promise<NotaDebitoItem> {
+    try {
+      const id = this.generateUUID();
+
+      const newItem: NotaDebitoItem = {
+        id,
+        notaDebitoId: item.notaDebitoId,
+        serviceId: item.serviceId || null,
+        nombre: item.nombre,
+        cantidad: item.cantidad,
+        precioUnitario: item.precioUnitario,
+        subtotal: item.subtotal,
+        tasaIva: item.tasaIva ?? 10
+      };
+
+      const items = this.readDataFile('nota_debito_items.json');
+      items.push(newItem);
+      this.writeDataFile('nota_debito_items.json', items);
+
+      return newItem;
+    } catch (error) {
+      console.error('Error creating debit note item:', error);
+      throw error;
+    }
   }
 
   // ============================
-  // SALES
+  // RECEIPTS
   // ============================
 
-  async getSale(id: string): Promise<Sale | undefined> {
+  async getRecibo(id: string): Promise<Recibo | undefined> {
     try {
-      const sales = this.readDataFile('sales.json');
-      return sales.find((sale: Sale) => sale.id === id);
+      const recibos = this.readDataFile('recibos.json');
+      return recibos.find((recibo: Recibo) => recibo.id === id);
     } catch (error) {
-      console.error('Error getting sale:', error);
+      console.error('Error getting receipt:', error);
       return undefined;
     }
   }
 
-  async getSales(): Promise<Sale[]> {
+  async getRecibos(): Promise<Recibo[]> {
     try {
-      const sales = this.readDataFile('sales.json');
-      return sales.sort((a: Sale, b: Sale) => 
-        new Date(b.createdAt || '').getTime() - new Date(a.createdAt || '').getTime()
+      const recibos = this.readDataFile('recibos.json');
+      return recibos.sort((a: Recibo, b: Recibo) =>
+        new Date(b.fecha).getTime() - new Date(a.fecha).getTime()
       );
     } catch (error) {
-      console.error('Error getting sales:', error);
+      console.error('Error getting receipts:', error);
       return [];
     }
   }
 
-  async getSalesByDateRange(startDate: Date, endDate: Date): Promise<Sale[]> {
+  async getRecibosByCustomer(customerId: string): Promise<Recibo[]> {
     try {
-      const sales = await this.getSales();
-      return sales.filter(sale => {
-        const saleDate = new Date(sale.fecha);
-        return saleDate >= startDate && saleDate <= endDate;
-      });
+      const recibos = await this.getRecibos();
+      return recibos.filter(recibo => recibo.customerId === customerId);
     } catch (error) {
-      console.error('Error getting sales by date range:', error);
+      console.error('Error getting receipts by customer:', error);
       return [];
     }
   }
 
-  async getSalesByCustomer(customerId: string): Promise<Sale[]> {
+  async getRecibosBySesionCaja(sesionId: string): Promise<Recibo[]> {
     try {
-      const sales = await this.getSales();
-      return sales.filter(sale => sale.customerId === customerId);
+      const recibos = await this.getRecibos();
+      return recibos.filter(recibo => recibo.sesionCajaId === sesionId);
     } catch (error) {
-      console.error('Error getting sales by customer:', error);
+      console.error('Error getting receipts by cash session:', error);
       return [];
     }
   }
 
-  async getLastSale(): Promise<Sale | undefined> {
-    try {
-      const sales = await this.getSales();
-      return sales[0]; // Already sorted by date descending
-    } catch (error) {
-      console.error('Error getting last sale:', error);
-      return undefined;
-    }
-  }
-
-  async createSale(sale: InsertSale): Promise<Sale> {
+  async createRecibo(recibo: InsertRecibo): Promise<Recibo> {
     try {
-      const id = this.generateUUID();
+      const recibos = this.readDataFile('recibos.json');
       const now = new Date();
 
-      const newSale: Sale = {
-        id,
-        numero: sale.numero,
-        customerId: sale.customerId,
-        workOrderId: sale.workOrderId || null,
-        fecha: sale.fecha ? new Date(sale.fecha) : now,
-        subtotal: sale.subtotal,
-        impuestos: sale.impuestos || 0,
-        total: sale.total,
-        medioPago: sale.medioPago,
-        observaciones: sale.observaciones || null,
-        facturado: sale.facturado || false,
-        timbrado: sale.timbrado || null,
-        createdAt: now,
-        updatedAt: now
+      const newRecibo: Recibo = {
+        id: this.generateUUID(),
+        numero: recibos.reduce((max: number, r: Recibo) => Math.max(max, r.numero), 0) + 1,
+        customerId: recibo.customerId,
+        fecha: recibo.fecha ? new Date(recibo.fecha) : now,
+        monto: recibo.monto,
+        medioPago: recibo.medioPago,
+        referencia: recibo.referencia || null,
+        observaciones: recibo.observaciones || null,
+        sesionCajaId: recibo.sesionCajaId || null,
+        createdBy: recibo.createdBy || null,
+        createdAt: now
       };
 
-      const sales = this.readDataFile('sales.json');
-      sales.push(newSale);
-      this.writeDataFile('sales.json', sales);
+      recibos.push(newRecibo);
+      this.writeDataFile('recibos.json', recibos);
 
-      return newSale;
+      return newRecibo;
     } catch (error) {
-      console.error('Error creating sale:', error);
+      console.error('Error creating receipt:', error);
       throw error;
     }
   }
 
-  async updateSale(id: string, sale: Partial<InsertSale>): Promise<Sale | undefined> {
-    try {
-      const sales = this.readDataFile('sales.json');
-      const saleIndex = sales.findIndex((s: Sale) => s.id === id);
-      
-      if (saleIndex === -1) {
-        return undefined;
-      }
-
-      const updatedSale = {
-        ...sales[saleIndex],
-        ...sale,
-        fecha: sale.fecha ? new Date(sale.fecha) : sales[saleIndex].fecha,
-        updatedAt: new Date()
-      };
+  // ============================
+  // RECEIPT ALLOCATIONS
+  // ============================
 
-      sales[saleIndex] = updatedSale;
-      this.writeDataFile('sales.json', sales);
+  async getReciboAplicaciones(reciboId: string): Promise<ReciboAplicacion[]> {
+    try {
+      const aplicaciones = this.readDataFile('recibo_aplicaciones.json');
+      return aplicaciones.filter((aplicacion: ReciboAplicacion) => aplicacion.reciboId === reciboId);
+    } catch (error) {
+      console.error('Error getting receipt allocations:', error);
+      return [];
+    }
+  }
 
-      return updatedSale;
+  async getReciboAplicacionesBySale(saleId: string): Promise<ReciboAplicacion[]> {
+    try {
+      const aplicaciones = this.readDataFile('recibo_aplicaciones.json');
+      return aplicaciones.filter((aplicacion: ReciboAplicacion) => aplicacion.saleId === saleId);
     } catch (error) {
-      console.error('Error updating sale:', error);
-      return undefined;
+      console.error('Error getting receipt allocations by sale:', error);
+      return [];
     }
   }
 
-  async deleteSale(id: string): Promise<boolean> {
+  async createReciboAplicacion(aplicacion: InsertReciboAplicacion): Promise<ReciboAplicacion> {
     try {
-      const sales = this.readDataFile('sales.json');
-      const filteredSales = sales.filter((sale: Sale) => sale.id !== id);
-      
-      if (filteredSales.length === sales.length) {
-        return false;
-      }
+      const newAplicacion: ReciboAplicacion = {
+        id: this.generateUUID(),
+        reciboId: aplicacion.reciboId,
+        saleId: aplicacion.saleId,
+        monto: aplicacion.monto
+      };
 
-      this.writeDataFile('sales.json', filteredSales);
-      return true;
+      const aplicaciones = this.readDataFile('recibo_aplicaciones.json');
+      aplicaciones.push(newAplicacion);
+      this.writeDataFile('recibo_aplicaciones.json', aplicaciones);
+
+      return newAplicacion;
     } catch (error) {
-      console.error('Error deleting sale:', error);
-      return false;
+      console.error('Error creating receipt allocation:', error);
+      throw error;
     }
   }
 
   // ============================
-  // SALE ITEMS
+  // CASH SESSIONS
   // ============================
 
-  async getSaleItems(saleId: string): Promise<SaleItem[]> {
+  async getSesionCaja(id: string): Promise<SesionCaja | undefined> {
     try {
-      const items = this.readDataFile('sale_items.json');
-      return items.filter((item: SaleItem) => item.saleId === saleId);
+      const sesiones = this.readDataFile('sesiones_caja.json');
+      const sesion = sesiones.find((s: SesionCaja) => s.id === id);
+      return sesion ? this.parseSesionCaja(sesion) : undefined;
     } catch (error) {
-      console.error('Error getting sale items:', error);
-      return [];
+      console.error('Error getting cash session:', error);
+      return undefined;
     }
   }
 
-  async createSaleItem(item: InsertSaleItem): Promise<SaleItem> {
+  async getSesionesCaja(): Promise<SesionCaja[]> {
     try {
-      const id = this.generateUUID();
+      const sesiones = this.readDataFile('sesiones_caja.json');
+      return sesiones
+        .map((sesion: SesionCaja) => this.parseSesionCaja(sesion))
+        .sort((a: SesionCaja, b: SesionCaja) => b.fechaApertura.getTime() - a.fechaApertura.getTime());
+    } catch (error) {
+      console.error('Error getting cash sessions:', error);
+      return [];
+    }
+  }
 
-      const newItem: SaleItem = {
-        id,
-        saleId: item.saleId,
-        serviceId: item.serviceId || null,
-        comboId: item.comboId || null,
-        inventoryItemId: item.inventoryItemId || null,
-        nombre: item.nombre,
-        cantidad: item.cantidad,
-        precioUnitario: item.precioUnitario,
-        subtotal: item.subtotal
+  async createSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja> {
+    try {
+      const newSesion: SesionCaja = {
+        id: this.generateUUID(),
+        userId: sesion.userId,
+        puntoExpedicionId: sesion.puntoExpedicionId,
+        estado: sesion.estado || "abierta",
+        montoInicial: sesion.montoInicial,
+        fechaApertura: sesion.fechaApertura ? new Date(sesion.fechaApertura) : new Date(),
+        fechaCierre: sesion.fechaCierre || null,
+        efectivoEsperado: sesion.efectivoEsperado || null,
+        efectivoContado: sesion.efectivoContado || null,
+        diferencia: sesion.diferencia || null,
+        conteo: sesion.conteo || null,
+        observaciones: sesion.observaciones || null,
+        cerradaPor: sesion.cerradaPor || null
       };
 
-      const items = this.readDataFile('sale_items.json');
-      items.push(newItem);
-      this.writeDataFile('sale_items.json', items);
+      const sesiones = this.readDataFile('sesiones_caja.json');
+      sesiones.push(newSesion);
+      this.writeDataFile('sesiones_caja.json', sesiones);
 
-      return newItem;
+      return newSesion;
     } catch (error) {
-      console.error('Error creating sale item:', error);
+      console.error('Error creating cash session:', error);
       throw error;
     }
   }
 
-  async deleteSaleItem(id: string): Promise<boolean> {
+  async openSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja | undefined> {
     try {
-      const items = this.readDataFile('sale_items.json');
-      const filteredItems = items.filter((item: SaleItem) => item.id !== id);
-      
-      if (filteredItems.length === items.length) {
-        return false;
+      // Read, check and write without yielding, so concurrent openings leave one session per punto
+      const ocupado = this.readDataFile('sesiones_caja.json').some((s: SesionCaja) =>
+        s.puntoExpedicionId === sesion.puntoExpedicionId && s.estado === 'abierta'
+      );
+      if (ocupado) {
+        return undefined;
       }
 
-      this.writeDataFile('sale_items.json', filteredItems);
-      return true;
+      return this.createSesionCaja(sesion);
     } catch (error) {
-      console.error('Error deleting sale item:', error);
-      return false;
+      console.error('Error opening cash session:', error);
+      throw error;
     }
   }
 
-  async deleteSaleItemsBySale(saleId: string): Promise<void> {
+  async updateSesionCaja(id: string, sesion: Partial<InsertSesionCaja>): Promise<SesionCaja | undefined> {
     try {
-      const items = this.readDataFile('sale_items.json');
-      const filteredItems = items.filter((item: SaleItem) => item.saleId !== saleId);
-      this.writeDataFile('sale_items.json', filteredItems);
+      const sesiones = this.readDataFile('sesiones_caja.json');
+      const sesionIndex = sesiones.findIndex((s: SesionCaja) => s.id === id);
+
+      if (sesionIndex === -1) {
+        return undefined;
+      }
+
+      const updatedSesion = { ...sesiones[sesionIndex], ...sesion };
+      sesiones[sesionIndex] = updatedSesion;
+      this.writeDataFile('sesiones_caja.json', sesiones);
+
+      return this.parseSesionCaja(updatedSesion);
     } catch (error) {
-      console.error('Error deleting sale items by sale:', error);
+      console.error('Error updating cash session:', error);
+      return undefined;
+    }
+  }
+
+  // Dates are stored as ISO strings
+  private parseSesionCaja(sesion: SesionCaja): SesionCaja {
+    return {
+      ...sesion,
+      fechaApertura: new Date(sesion.fechaApertura),
+      fechaCierre: sesion.fechaCierre ? new Date(sesion.fechaCierre) : null
+    };
+  }
+
+  // ============================
+  // CASH MOVEMENTS
+  // ============================
+
+  async getMovimientosCaja(sesionId: string): Promise<MovimientoCaja[]> {
+    try {
+      const movimientos = this.readDataFile('movimientos_caja.json');
+      return movimientos
+        .filter((movimiento: MovimientoCaja) => movimiento.sesionId === sesionId)
+        .map((movimiento: MovimientoCaja) => ({ ...movimiento, fecha: new Date(movimiento.fecha) }))
+        .sort((a: MovimientoCaja, b: MovimientoCaja) => a.fecha.getTime() - b.fecha.getTime());
+    } catch (error) {
+      console.error('Error getting cash movements:', error);
+      return [];
+    }
+  }
+
+  async createMovimientoCaja(movimiento: InsertMovimientoCaja): Promise<MovimientoCaja> {
+    try {
+      const newMovimiento: MovimientoCaja = {
+        id: this.generateUUID(),
+        sesionId: movimiento.sesionId,
+        tipo: movimiento.tipo,
+        monto: movimiento.monto,
+        concepto: movimiento.concepto,
+        userId: movimiento.userId || null,
+        fecha: movimiento.fecha ? new Date(movimiento.fecha) : new Date()
+      };
+
+      const movimientos = this.readDataFile('movimientos_caja.json');
+      movimientos.push(newMovimiento);
+      this.writeDataFile('movimientos_caja.json', movimientos);
+
+      return newMovimiento;
+    } catch (error) {
+      console.error('Error creating cash movement:', error);
       throw error;
     }
   }
@@ -0,0 +1,280 @@
+import QRCode from "qrcode";
+import type { Sale, SaleItem, Customer, CompanyConfig, DnitConfig } from "@shared/schema";
+import { SifenXmlService, type ItemAmounts } from "./sifen-xml";
+import { SifenSignatureService } from "./sifen-signature";
+import { SifenQrService } from "./sifen-qr";
+import { leyendasTurismo, LEYENDA_TURISMO } from "@shared/turismo";
+import { MEDIOS_PAGO, descripcionPago, type PagoVenta } from "@shared/pagos";
+
+/**
+ * KuDE (Kuatia de Documento Electrónico) - printable representation of a factura electrónica
+ * Rendered server-side as standalone HTML in A4 or 80mm ticket layout, with the CDC,
+ * the e-Kuatia consultation legend and the QR code taken from the signed DE
+ */
+
+export type KudeFormato = "a4" | "80mm";
+
+export interface KudeFacturaInput {
+  sale: Sale;
+  items: SaleItem[];
+  pagos?: PagoVenta[];
+  customer: Customer | null;
+  companyConfig: CompanyConfig;
+  dnitConfig: DnitConfig | null | undefined;
+  formato: KudeFormato;
+}
+
+interface KudeQr {
+  svg: string | null;
+  aviso: string | null; // Why the QR could not be printed
+}
+
+export class KudeService {
+  /**
+   * Build the KuDE HTML of an invoice
+   * The DE is signed on the fly: signing is deterministic, so the QR matches the document sent to SIFEN
+   */
+  static async renderFactura(input: KudeFacturaInput): Promise<string> {
+    const { sale, items, pagos, customer, companyConfig, dnitConfig, formato } = input;
+    const amounts = SifenXmlService.calcularMontosFactura(sale, items);
+    const qr = await this.buildQr(input);
+
+    return this.html(sale, customer, companyConfig, amounts, pagos ?? [], qr, SifenQrService.consultaUrl(dnitConfig), formato);
+  }
+
+  private static async buildQr(input: KudeFacturaInput): Promise<KudeQr> {
+    const { sale, items, pagos, customer, companyConfig, dnitConfig } = input;
+
+    if (!sale.cdc) {
+      return { svg: null, aviso: "La factura no tiene CDC asignado" };
+    }
+    if (!SifenQrService.hasCsc(dnitConfig)) {
+      return { svg: null, aviso: "Código QR no disponible: falta configurar el CSC en la configuración DNIT" };
+    }
+
+    const xml = SifenXmlService.buildDE({ sale, items, pagos, companyConfig, customer });
+    const signature = SifenSignatureService.signDE(xml, dnitConfig);
+    if (!signature.success || !signature.qrUrl) {
+      return { svg: null, aviso: `Código QR no disponible: ${signature.error}` };
+    }
+
+    const svg = await QRCode.toString(signature.qrUrl, { type: "svg", margin: 0, errorCorrectionLevel: "M" });
+    return { svg, aviso: null };
+  }
+
+  private static html(
+    sale: Sale,
+    customer: Customer | null,
+    companyConfig: CompanyConfig,
+    amounts: ItemAmounts[],
+    pagos: PagoVenta[],
+    qr: KudeQr,
+    consultaUrl: string,
+    formato: KudeFormato
+  ): string {
+    const ticket = formato === "80mm";
+    const sumBy = (rate: 0 | 5 | 10, field: "total" | "liquidacionIva") =>
+      amounts.filter(a => a.tasaIva === rate).reduce((sum, a) => sum + a[field], 0);
+    const total = amounts.reduce((sum, a) => sum + a.total, 0);
+    const descuento = amounts.reduce((sum, a) => sum + a.descuento, 0);
+    const iva5 = sumBy(5, "liquidacionIva");
+    const iva10 = sumBy(10, "liquidacionIva");
+
+    const receptor = customer
+      ? `${this.escape(customer.nombre)}<br/>${customer.docTipo}: ${this.escape(customer.pasaporte || customer.docNumero)}`
+      : "Sin Nombre (Innominado)";
+
+    const filas = amounts.map(a => ticket ? `
+      <tr><td colspan="3">${this.escape(a.line.nombre)}</td></tr>
+      <tr>
+        <td>${a.line.cantidad} x ${this.formatNumber(a.precioUnitario)}</td>
+        <td class="amount">${a.tasaIva === 0 ? "Exenta" : `${a.tasaIva}%`}</td>
+        <td class="amount">${this.formatNumber(a.total)}</td>
+      </tr>${a.descuento > 0 ? `
+      <tr><td colspan="2">Descuento</td><td class="amount">-${this.formatNumber(a.descuento)}</td></tr>` : ""}` : `
+      <tr>
+        <td>${this.escape(a.line.codigo.substring(0, 20))}</td>
+        <td>${this.escape(a.line.nombre)}</td>
+        <td class="amount">${a.line.cantidad}</td>
+        <td class="amount">${this.formatNumber(a.precioUnitario)}</td>
+        <td class="amount">${a.descuento > 0 ? this.formatNumber(a.descuento) : ""}</td>
+        <td class="amount">${a.tasaIva === 0 ? this.formatNumber(a.total) : ""}</td>
+        <td class="amount">${a.tasaIva === 5 ? this.formatNumber(a.total) : ""}</td>
+        <td class="amount">${a.tasaIva === 10 ? this.formatNumber(a.total) : ""}</td>
+      </tr>`).join("");
+
+    const encabezadoItems = ticket
+      ? `<tr><th>Cant. x P. Unit.</th><th class="amount">IVA</th><th class="amount">Total</th></tr>`
+      : `<tr><th>Código</th><th>Descripción</th><th class="amount">Cant.</th><th class="amount">Precio Unit.</th><th class="amount">Descuento</th>` +
+        `<th class="amount">Exentas</th><th class="amount">5%</th><th class="amount">10%</th></tr>`;
+
+    const qrBlock = qr.svg
+      ? `<div class="qr">${qr.svg}</div>`
+      : `<div class="qr-aviso">${this.escape(qr.aviso ?? "")}</div>`;
+
+    return `<!DOCTYPE html>
+<html>
+  <head>
+    <meta charset="utf-8">
+    <title>KuDE Factura ${this.escape(sale.numeroFactura)}</title>
+    <style>
+      @page { ${ticket ? "size: 80mm auto; margin: 3mm;" : "size: A4; margin: 12mm;"} }
+      body {
+        font-family: Arial, Helvetica, sans-serif;
+        font-size: ${ticket ? "9px" : "11px"};
+        margin: 0 auto;
+        padding: ${ticket ? "2mm" : "10mm"};
+        max-width: ${ticket ? "74mm" : "190mm"};
+        color: #000;
+      }
+      .box { border: 1px solid #000; padding: 6px; margin-bottom: 6px; }
+      .center { text-align: center; }
+      .header { display: ${ticket ? "block" : "flex"}; justify-content: space-between; gap: 12px; }
+      .company-name { font-weight: bold; font-size: ${ticket ? "11px" : "14px"}; }
+      .doc-title { font-weight: bold; font-size: ${ticket ? "11px" : "13px"}; margin: 4px 0; }
+      table { width: 100%; border-collapse: collapse; }
+      th, td { padding: 2px; text-align: left; vertical-align: top; }
+      th { border-bottom: 1px solid #000; }
+      .amount { text-align: right; }
+      .totals td { border-top: 1px solid #ccc; }
+      .total-final td { font-weight: bold; border-top: 1px solid #000; }
+      .footer { display: ${ticket ? "block" : "flex"}; gap: 12px; align-items: center; }
+      .qr { width: ${ticket ? "35mm" : "30mm"}; height: ${ticket ? "35mm" : "30mm"}; margin: ${ticket ? "6px auto" : "0"}; flex-shrink: 0; }
+      .qr svg { width: 100%; height: 100%; }
+      .qr-aviso { border: 1px dashed #000; padding: 6px; margin: 6px 0; text-align: center; }
+      .cdc { font-family: 'Courier New', monospace; font-weight: bold; font-size: ${ticket ? "9px" : "12px"}; word-break: break-all; }
+      .legend { font-size: ${ticket ? "8px" : "10px"}; }
+      .anulada { border: 2px solid #000; text-align: center; font-weight: bold; padding: 4px; margin-bottom: 6px; }
+      @media print { .no-print { display: none !important; } }
+      @media screen { .print-controls { position: fixed; top: 10px; right: 10px; } }
+    </style>
+  </head>
+  <body>
+    <div class="print-controls no-print">
+      <button onclick="window.print()">Imprimir</button>
+      <button onclick="window.close()">Cerrar</button>
+    </div>
+
+    ${sale.anulada ? `<div class="anulada">DOCUMENTO ANULADO</div>` : ""}
+
+    <div class="box header">
+      <div${ticket ? ` class="center"` : ""}>
+        <div class="company-name">${this.escape(companyConfig.nombreFantasia || companyConfig.razonSocial)}</div>
+        <div>${this.escape(companyConfig.razonSocial)}</div>
+        <div>${this.escape(companyConfig.direccion)} - ${this.escape(companyConfig.ciudad)}</div>
+        ${companyConfig.telefono ? `<div>Tel: ${this.escape(companyConfig.telefono)}</div>` : ""}
+        ${companyConfig.email ? `<div>${this.escape(companyConfig.email)}</div>` : ""}
+      </div>
+      <div${ticket ? ` class="center"` : ""}>
+        <div>RUC: ${this.escape(companyConfig.ruc)}</div>
+        <div>Timbrado N°: ${this.escape(sale.timbradoUsado)}</div>
+        <div>Inicio de vigencia: ${this.escape(companyConfig.timbradoDesde)}</div>
+        <div class="doc-title">FACTURA ELECTRÓNICA</div>
+        <div class="doc-title">N° ${this.escape(sale.numeroFactura)}</div>
+      </div>
+    </div>
+
+    <div class="box">
+      <div>Fecha y hora de emisión: ${this.formatDateTime(new Date(sale.fecha))}</div>
+      ${sale.condicionVenta === "credito"
+        ? `<div>Condición de venta: Crédito${sale.fechaVencimiento ? ` - Vencimiento: ${this.formatDate(new Date(sale.fechaVencimiento))}` : ""}</div>`
+        : pagos.length > 1
+          ? `<div>Condición de venta: Contado</div>${pagos.map(pago =>
+              `<div>- ${this.escape(descripcionPago(pago))}: ${this.formatNumber(pago.monto)}${pago.vuelto ? ` (vuelto ${this.formatNumber(pago.vuelto)})` : ""}</div>`
+            ).join("")}`
+          : `<div>Condición de venta: Contado - ${MEDIOS_PAGO[sale.medioPago] ?? sale.medioPago}</div>`}
+      <div>Moneda: Guaraní</div>
+      ${sale.moneda && sale.moneda !== "PYG" && sale.totalMoneda && sale.tipoCambio
+        ? `<div>Pago en ${this.escape(sale.moneda)}: ${parseFloat(sale.totalMoneda).toLocaleString("es-PY", { minimumFractionDigits: 2, maximumFractionDigits: 2 })} (Tipo de cambio: ${this.formatNumber(parseFloat(sale.tipoCambio))})</div>`
+        : ""}
+      <div>Cliente: ${receptor}</div>
+      ${customer?.direccion ? `<div>Dirección: ${this.escape(customer.direccion)}</div>` : ""}
+      ${sale.regimenTurismo
+        ? (customer ? leyendasTurismo(customer) : [LEYENDA_TURISMO])
+            .map((leyenda, i) => i === 0 ? `<div><strong>${this.escape(leyenda)}</strong></div>` : `<div>${this.escape(leyenda)}</div>`)
+            .join("")
+        : ""}
+    </div>
+
+    <div class="box">
+      <table>
+        <thead>${encabezadoItems}</thead>
+        <tbody>${filas}</tbody>
+      </table>
+    </div>
+
+    <div class="box">
+      <table>
+        ${ticket ? `
+        <tr class="totals"><td>Exentas:</td><td class="amount">${this.formatNumber(sumBy(0, "total"))}</td></tr>
+        <tr class="totals"><td>Gravadas 5%:</td><td class="amount">${this.formatNumber(sumBy(5, "total"))}</td></tr>
+        <tr class="totals"><td>Gravadas 10%:</td><td class="amount">${this.formatNumber(sumBy(10, "total"))}</td></tr>` : `<tr class="totals">
+          <td>Subtotal:</td>
+          <td class="amount">${this.formatNumber(sumBy(0, "total"))}</td>
+          <td class="amount">${this.formatNumber(sumBy(5, "total"))}</td>
+          <td class="amount">${this.formatNumber(sumBy(10, "total"))}</td>
+        </tr>`}${descuento > 0 ? `
+        <tr class="totals">
+          <td colspan="${ticket ? 1 : 3}">Total bruto:</td>
+          <td class="amount">${this.formatNumber(total + descuento)}</td>
+        </tr>
+        <tr class="totals">
+          <td colspan="${ticket ? 1 : 3}">Descuentos:</td>
+          <td class="amount">-${this.formatNumber(descuento)}</td>
+        </tr>` : ""}
+        <tr class="total-final">
+          <td colspan="${ticket ? 1 : 3}">Total de la operación:</td>
+          <td class="amount">Gs. ${this.formatNumber(total)}</td>
+        </tr>
+        <tr class="totals">
+          <td colspan="${ticket ? 1 : 3}">Liquidación IVA (5%): ${this.formatNumber(iva5)} &nbsp; (10%): ${this.formatNumber(iva10)}</td>
+          <td class="amount">Total IVA: ${this.formatNumber(iva5 + iva10)}</td>
+        </tr>
+      </table>
+    </div>
+
+    <div class="${ticket ? "center" : "box footer"}">
+      ${qrBlock}
+      <div class="legend">
+        <div>Consulte la validez de esta Factura Electrónica con el número de CDC impreso abajo en:</div>
+        <div><strong>${consultaUrl}</strong></div>
+        <div style="margin-top: 4px;">CDC:</div>
+        <div class="cdc">${sale.cdc ? this.formatCdc(sale.cdc) : "-"}</div>
+        <div style="margin-top: 4px;"><strong>ESTE DOCUMENTO ES UNA REPRESENTACIÓN GRÁFICA DE UN DOCUMENTO ELECTRÓNICO (XML)</strong></div>
+        <div>Si su documento electrónico presenta algún error, podrá solicitar la modificación dentro de las 72 horas siguientes de la emisión de este comprobante.</div>
+      </div>
+    </div>
+  </body>
+</html>`;
+  }
+
+  /**
+   * CDC printed in groups of four digits for readability
+   */
+  private static formatCdc(cdc: string): string {
+    return cdc.replace(/(\d{4})(?=\d)/g, "$1 ");
+  }
+
+  private static formatNumber(value: number): string {
+    return value.toLocaleString("es-PY");
+  }
+
+  private static formatDate(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${pad(date.getDate())}/${pad(date.getMonth() + 1)}/${date.getFullYear()}`;
+  }
+
+  private static formatDateTime(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${this.formatDate(date)} ` +
+      `${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;");
+  }
+}
@@ -0,0 +1,263 @@
+import JSZip from "jszip";
+import type { Sale, Customer, NotaCreditoItem, NotaDebitoItem } from "@shared/schema";
+import { liquidarIva, type LiquidacionIva } from "@shared/iva";
+import { storage } from "./storage";
+
+/**
+ * Libro de Ventas (DNIT RG 90)
+ * Monthly register of every voucher issued: invoices, credit notes and debit notes, with the buyer,
+ * the timbrado and the amounts per IVA rate. Cancelled invoices stay in the ledger for the records but
+ * are not declared, so they are left out of the totals and of the RG 90 file uploaded to Marangatu.
+ */
+
+// Voucher types of the RG 90 registration
+export const TIPOS_COMPROBANTE_RG90 = {
+  factura: 109,
+  notaCredito: 110,
+  notaDebito: 111
+} as const;
+
+// Buyer identification types of the RG 90 registration
+export const TIPOS_IDENTIFICACION_RG90 = {
+  RUC: 11,
+  CI: 12,
+  Pasaporte: 13,
+  Extranjero: 14,
+  innominado: 15
+} as const;
+
+export interface RegistroLibroVentas {
+  tipoIdentificacion: number;
+  identificacion: string; // RUC without the verification digit
+  nombre: string;
+  tipoComprobante: number;
+  fecha: string; // ISO format
+  timbrado: string;
+  numero: string;
+  gravadas10: number; // IVA included
+  gravadas5: number; // IVA included
+  exentas: number;
+  iva10: number;
+  iva5: number;
+  total: number;
+  condicion: 1 | 2; // 1 contado, 2 crédito
+  monedaExtranjera: boolean;
+  comprobanteAsociado: string | null; // Invoice a credit or debit note refers to
+  timbradoAsociado: string | null;
+  anulado: boolean;
+}
+
+export interface LibroVentas {
+  periodo: string; // YYYY-MM
+  ruc: string;
+  registros: RegistroLibroVentas[];
+  totales: Pick<RegistroLibroVentas, "gravadas10" | "gravadas5" | "exentas" | "iva10" | "iva5" | "total">;
+  cantidadAnulados: number;
+}
+
+export class LibroVentasService {
+  /**
+   * Vouchers issued in a month (periodo as YYYY-MM)
+   */
+  static async generar(periodo: string): Promise<LibroVentas> {
+    const [anio, mes] = periodo.split('-').map(value => parseInt(value, 10));
+    const start = new Date(anio, mes - 1, 1);
+    const end = new Date(anio, mes, 0, 23, 59, 59, 999);
+
+    const [sales, notasCredito, notasDebito, customers, companyConfig] = await Promise.all([
+      storage.getSalesByDateRange(start, end),
+      storage.getNotasCreditoByDateRange(start, end),
+      storage.getNotasDebitoByDateRange(start, end),
+      storage.getCustomers(),
+      storage.getCompanyConfig()
+    ]);
+    const customerOf = (id: string | null) => (id ? customers.find(customer => customer.id === id) : undefined);
+
+    const registros: RegistroLibroVentas[] = [];
+
+    for (const sale of sales) {
+      registros.push({
+        ...this.comprador(customerOf(sale.customerId)),
+        ...this.montosFactura(sale),
+        tipoComprobante: TIPOS_COMPROBANTE_RG90.factura,
+        fecha: new Date(sale.fecha).toISOString(),
+        timbrado: sale.timbradoUsado,
+        numero: sale.numeroFactura,
+        condicion: sale.condicionVenta === "credito" ? 2 : 1,
+        monedaExtranjera: !!sale.moneda && sale.moneda !== "PYG",
+        comprobanteAsociado: null,
+        timbradoAsociado: null,
+        anulado: sale.anulada
+      });
+    }
+
+    const notas = [
+      ...notasCredito.map(nota => ({ nota, tipoComprobante: TIPOS_COMPROBANTE_RG90.notaCredito })),
+      ...notasDebito.map(nota => ({ nota, tipoComprobante: TIPOS_COMPROBANTE_RG90.notaDebito }))
+    ];
+    for (const { nota, tipoComprobante } of notas) {
+      const items: (NotaCreditoItem | NotaDebitoItem)[] = tipoComprobante === TIPOS_COMPROBANTE_RG90.notaCredito
+        ? await storage.getNotaCreditoItems(nota.id)
+        : await storage.getNotaDebitoItems(nota.id);
+      const sale = await storage.getSale(nota.saleId);
+
+      registros.push({
+        ...this.comprador(customerOf(nota.customerId)),
+        ...this.montosNota(items, parseFloat(nota.total)),
+        tipoComprobante,
+        fecha: new Date(nota.fecha).toISOString(),
+        timbrado: nota.timbradoUsado,
+        numero: nota.numero,
+        condicion: sale?.condicionVenta === "credito" ? 2 : 1, // Notes follow the condition of their invoice
+        monedaExtranjera: !!sale?.moneda && sale.moneda !== "PYG",
+        comprobanteAsociado: sale?.numeroFactura ?? null,
+        timbradoAsociado: sale?.timbradoUsado ?? null,
+        anulado: false
+      });
+    }
+
+    registros.sort((a, b) =>
+      a.fecha.localeCompare(b.fecha) || a.tipoComprobante - b.tipoComprobante || a.numero.localeCompare(b.numero)
+    );
+
+    // Credit notes reduce the sales declared in the month
+    const totales = { gravadas10: 0, gravadas5: 0, exentas: 0, iva10: 0, iva5: 0, total: 0 };
+    for (const registro of registros.filter(r => !r.anulado)) {
+      const signo = registro.tipoComprobante === TIPOS_COMPROBANTE_RG90.notaCredito ? -1 : 1;
+      totales.gravadas10 += signo * registro.gravadas10;
+      totales.gravadas5 += signo * registro.gravadas5;
+      totales.exentas += signo * registro.exentas;
+      totales.iva10 += signo * registro.iva10;
+      totales.iva5 += signo * registro.iva5;
+      totales.total += signo * registro.total;
+    }
+
+    return {
+      periodo,
+      ruc: companyConfig?.ruc ?? "",
+      registros,
+      totales,
+      cantidadAnulados: registros.filter(r => r.anulado).length
+    };
+  }
+
+  /**
+   * RG 90 registration file: comma separated, no header, one line per voucher
+   */
+  static exportarCSV(libro: LibroVentas): string {
+    return libro.registros
+      .filter(registro => !registro.anulado)
+      .map(registro => [
+        1, // Tipo de registro: ventas
+        registro.tipoIdentificacion,
+        registro.identificacion,
+        this.textoCSV(registro.nombre),
+        registro.tipoComprobante,
+        this.fechaCSV(registro.fecha),
+        registro.timbrado,
+        registro.numero,
+        registro.gravadas10,
+        registro.gravadas5,
+        registro.exentas,
+        registro.total,
+        registro.condicion,
+        registro.monedaExtranjera ? "S" : "N",
+        "S", // Imputa al IVA
+        "S", // Imputa al IRE
+        "N", // Imputa al IRP-RSP
+        registro.comprobanteAsociado ?? "",
+        registro.timbradoAsociado ?? ""
+      ].join(','))
+      .join('\r\n');
+  }
+
+  /**
+   * RG 90 file name: RUC (without DV), REG, period as MMYYYY and sequence
+   */
+  static nombreArchivo(libro: LibroVentas): string {
+    const [anio, mes] = libro.periodo.split('-');
+    return `${libro.ruc.split('-')[0]}_REG_${mes}${anio}_V0001`;
+  }
+
+  /**
+   * ZIP with the CSV file, as Marangatu expects the upload
+   */
+  static async exportarZIP(libro: LibroVentas): Promise<Buffer> {
+    const zip = new JSZip();
+    zip.file(`${this.nombreArchivo(libro)}.csv`, this.exportarCSV(libro));
+    return zip.generateAsync({ type: "nodebuffer", compression: "DEFLATE" });
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static comprador(customer?: Customer): Pick<RegistroLibroVentas, "tipoIdentificacion" | "identificacion" | "nombre"> {
+    if (!customer) {
+      return { tipoIdentificacion: TIPOS_IDENTIFICACION_RG90.innominado, identificacion: "0", nombre: "SIN NOMBRE" };
+    }
+
+    const identificacion = customer.docTipo === "RUC"
+      ? customer.docNumero.split('-')[0].trim()
+      : customer.docNumero.trim();
+    return {
+      tipoIdentificacion: TIPOS_IDENTIFICACION_RG90[customer.docTipo],
+      identificacion,
+      nombre: customer.nombre
+    };
+  }
+
+  private static montosFactura(sale: Sale): Pick<LiquidacionIva, "gravadas10" | "gravadas5" | "exentas" | "iva10" | "iva5" | "total"> {
+    const montos = {
+      gravadas10: parseFloat(sale.gravadas10 || "0"),
+      gravadas5: parseFloat(sale.gravadas5 || "0"),
+      exentas: parseFloat(sale.exentas || "0"),
+      iva10: parseFloat(sale.iva10 || "0"),
+      iva5: parseFloat(sale.iva5 || "0"),
+      total: parseFloat(sale.total)
+    };
+
+    // Invoices issued before the liquidation per rate was stored: all at 10%, or exentas under turismo
+    if (montos.gravadas10 + montos.gravadas5 + montos.exentas === 0 && montos.total > 0) {
+      const impuestos = parseFloat(sale.impuestos || "0");
+      if (sale.regimenTurismo || impuestos === 0) {
+        montos.exentas = montos.total;
+      } else {
+        montos.gravadas10 = montos.total;
+        montos.iva10 = impuestos;
+      }
+    }
+    return montos;
+  }
+
+  private static montosNota(
+    items: (NotaCreditoItem | NotaDebitoItem)[],
+    total: number
+  ): Pick<LiquidacionIva, "gravadas10" | "gravadas5" | "exentas" | "iva10" | "iva5" | "total"> {
+    const { gravadas10, gravadas5, exentas, iva10, iva5 } = liquidarIva(items.map(item => ({
+      precioUnitario: item.precioUnitario,
+      cantidad: item.cantidad,
+      tasaIva: item.tasaIva ?? 10
+    })));
+
+    // The stored total prevails; rounding differences go to the largest amount
+    const diferencia = total - (gravadas10 + gravadas5 + exentas);
+    if (gravadas10 >= gravadas5 && gravadas10 >= exentas) {
+      return { gravadas10: gravadas10 + diferencia, gravadas5, exentas, iva10, iva5, total };
+    }
+    if (gravadas5 >= exentas) {
+      return { gravadas10, gravadas5: gravadas5 + diferencia, exentas, iva10, iva5, total };
+    }
+    return { gravadas10, gravadas5, exentas: exentas + diferencia, iva10, iva5, total };
+  }
+
+  private static textoCSV(texto: string): string {
+    return texto.replace(/[,;"\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static fechaCSV(fecha: string): string {
+    const date = new Date(fecha);
+    const dos = (value: number) => value.toString().padStart(2, '0');
+    return `${dos(date.getDate())}/${dos(date.getMonth() + 1)}/${date.getFullYear()}`;
+  }
+}
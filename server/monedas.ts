@@ -0,0 +1,190 @@
+import type { Moneda, TipoCambio, InsertMonedaType, CreateTipoCambioType } from "@shared/schema";
+import { MONEDA_BASE, convertirDesdeGuaranies } from "@shared/monedas";
+import { storage } from "./storage";
+
+/**
+ * Currencies and exchange rates
+ * Sales are always invoiced in guaraníes; a foreign currency only adds the amount the customer
+ * was quoted or paid, converted at the rate an admin entered for the day. A day without its own
+ * rate uses the last one entered before it (weekends and holidays).
+ */
+
+export type MonedaErrorCode =
+  | "CURRENCY_NOT_FOUND"
+  | "CURRENCY_INACTIVE"
+  | "EXCHANGE_RATE_NOT_FOUND"
+  | "DUPLICATE_CODE"
+  | "IN_USE";
+
+export interface MonedaVigente extends Moneda {
+  tipoCambio: TipoCambio | null; // Rate that applies today
+}
+
+export interface MontosMoneda {
+  moneda: string;
+  tipoCambio: string | null;
+  totalMoneda: string | null;
+}
+
+export class MonedaService {
+  /**
+   * Active currencies with the rate that applies on a date
+   */
+  static async vigentes(fecha: Date = new Date()): Promise<MonedaVigente[]> {
+    const [monedas, tiposCambio] = await Promise.all([storage.getMonedas(), storage.getTiposCambio()]);
+    const dia = this.dia(fecha);
+
+    return monedas
+      .filter(moneda => moneda.activo)
+      .map(moneda => ({
+        ...moneda,
+        tipoCambio: tiposCambio.find(tipoCambio => tipoCambio.moneda === moneda.codigo && tipoCambio.fecha <= dia) ?? null
+      }));
+  }
+
+  /**
+   * Foreign currency amounts of a sale; guaraní sales carry none
+   */
+  static async montosVenta(
+    codigo: string | undefined,
+    totalGs: number,
+    fecha: Date
+  ): Promise<{ success: boolean; montos?: MontosMoneda; error?: string; code?: MonedaErrorCode }> {
+    if (!codigo || codigo === MONEDA_BASE) {
+      return { success: true, montos: { moneda: MONEDA_BASE, tipoCambio: null, totalMoneda: null } };
+    }
+
+    const moneda = (await storage.getMonedas()).find(m => m.codigo === codigo);
+    if (!moneda) {
+      return { success: false, error: `La moneda ${codigo} no está en el catálogo`, code: "CURRENCY_NOT_FOUND" };
+    }
+    if (!moneda.activo) {
+      return { success: false, error: `La moneda ${codigo} está inactiva`, code: "CURRENCY_INACTIVE" };
+    }
+
+    const dia = this.dia(fecha);
+    const tipoCambio = (await storage.getTiposCambio(codigo)).find(t => t.fecha <= dia);
+    if (!tipoCambio) {
+      return {
+        success: false,
+        error: `No hay tipo de cambio cargado para ${codigo} al ${dia}. Solicite a un administrador que lo registre.`,
+        code: "EXCHANGE_RATE_NOT_FOUND"
+      };
+    }
+
+    return {
+      success: true,
+      montos: {
+        moneda: codigo,
+        tipoCambio: tipoCambio.tasa,
+        totalMoneda: convertirDesdeGuaranies(totalGs, tipoCambio.tasa, moneda.decimales).toString()
+      }
+    };
+  }
+
+  static async crearMoneda(data: InsertMonedaType): Promise<{
+    success: boolean;
+    moneda?: Moneda;
+    error?: string;
+    code?: MonedaErrorCode;
+  }> {
+    const existentes = await storage.getMonedas();
+    if (existentes.some(m => m.codigo === data.codigo)) {
+      return { success: false, error: `Ya existe la moneda ${data.codigo}`, code: "DUPLICATE_CODE" };
+    }
+
+    return { success: true, moneda: await storage.createMoneda(data) };
+  }
+
+  /**
+   * The code cannot change once sales or rates refer to it
+   */
+  static async actualizarMoneda(id: string, data: InsertMonedaType): Promise<{
+    success: boolean;
+    moneda?: Moneda;
+    error?: string;
+    code?: MonedaErrorCode;
+  }> {
+    const moneda = await storage.getMoneda(id);
+    if (!moneda) {
+      return { success: false, error: "Moneda no encontrada", code: "CURRENCY_NOT_FOUND" };
+    }
+
+    if (data.codigo !== moneda.codigo) {
+      const existentes = await storage.getMonedas();
+      if (existentes.some(m => m.codigo === data.codigo)) {
+        return { success: false, error: `Ya existe la moneda ${data.codigo}`, code: "DUPLICATE_CODE" };
+      }
+      if (await this.enUso(moneda.codigo)) {
+        return {
+          success: false,
+          error: "No se puede cambiar el código de una moneda con tipos de cambio o ventas registradas",
+          code: "IN_USE"
+        };
+      }
+    }
+
+    return { success: true, moneda: await storage.updateMoneda(id, data) };
+  }
+
+  static async eliminarMoneda(id: string): Promise<{ success: boolean; error?: string; code?: MonedaErrorCode }> {
+    const moneda = await storage.getMoneda(id);
+    if (!moneda) {
+      return { success: false, error: "Moneda no encontrada", code: "CURRENCY_NOT_FOUND" };
+    }
+
+    if (await this.enUso(moneda.codigo)) {
+      return {
+        success: false,
+        error: "La moneda tiene tipos de cambio o ventas registradas; desactívela en lugar de eliminarla",
+        code: "IN_USE"
+      };
+    }
+
+    await storage.deleteMoneda(id);
+    return { success: true };
+  }
+
+  /**
+   * Rate of a currency for a day; entering it again for the same day corrects it
+   */
+  static async registrarTipoCambio(data: CreateTipoCambioType, userId: string | null): Promise<{
+    success: boolean;
+    tipoCambio?: TipoCambio;
+    error?: string;
+    code?: MonedaErrorCode;
+  }> {
+    const moneda = (await storage.getMonedas()).find(m => m.codigo === data.moneda);
+    if (!moneda) {
+      return { success: false, error: `La moneda ${data.moneda} no está en el catálogo`, code: "CURRENCY_NOT_FOUND" };
+    }
+
+    const tasa = data.tasa.toFixed(2);
+    const existente = (await storage.getTiposCambio(data.moneda)).find(t => t.fecha === data.fecha);
+    if (existente) {
+      return { success: true, tipoCambio: await storage.updateTipoCambio(existente.id, { tasa, createdBy: userId }) };
+    }
+
+    return {
+      success: true,
+      tipoCambio: await storage.createTipoCambio({ moneda: data.moneda, fecha: data.fecha, tasa, createdBy: userId })
+    };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static async enUso(codigo: string): Promise<boolean> {
+    if ((await storage.getTiposCambio(codigo)).length > 0) {
+      return true;
+    }
+    return (await storage.getSales()).some(sale => sale.moneda === codigo);
+  }
+
+  // Local calendar day as YYYY-MM-DD, the format rates are entered with
+  private static dia(fecha: Date): string {
+    const dos = (value: number) => value.toString().padStart(2, '0');
+    return `${fecha.getFullYear()}-${dos(fecha.getMonth() + 1)}-${dos(fecha.getDate())}`;
+  }
+}
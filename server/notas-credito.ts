@@ -0,0 +1,252 @@
+import type { Sale, SaleItem, NotaCredito, CreateNotaCreditoType, TasaIva } from "@shared/schema";
+import { calcularLineaIva, etiquetaTasaIva, liquidarIva } from "@shared/iva";
+import { descuentoItem } from "@shared/descuentos";
+import { storage } from "./storage";
+
+/**
+ * Nota de Crédito amount calculation
+ * A credit note returns part or all of an invoice: selected items (by quantity), a fixed
+ * amount, or the remaining balance. The sum of all credit notes of an invoice can never
+ * exceed the invoice total, and each item can only be credited up to its sold quantity.
+ * Amounts follow the sale convention: lines and subtotal net of IVA, IVA in impuestos.
+ * Each line keeps the IVA rate of the invoice line it credits, and discounted lines are credited
+ * at the price actually charged.
+ */
+
+export type NotaCreditoErrorCode =
+  | "SALE_FULLY_CREDITED"
+  | "INVALID_ITEM"
+  | "QUANTITY_EXCEEDED"
+  | "AMOUNT_EXCEEDED";
+
+export interface NotaCreditoLinea {
+  saleItemId: string | null;
+  nombre: string;
+  cantidad: number;
+  precioUnitario: number;
+  subtotal: number;
+  tasaIva: TasaIva;
+}
+
+export interface NotaCreditoCalculo {
+  lineas: NotaCreditoLinea[];
+  subtotal: number;
+  impuestos: number;
+  total: number;
+}
+
+export interface SaldoAcreditable {
+  acreditado: number; // Total of the credit notes already issued
+  disponible: number; // Amount that can still be credited
+  cantidadesAcreditadas: Record<string, number>; // Credited quantity per sale item
+  ajustesPorMonto: boolean; // Some note credited an amount instead of items
+}
+
+export class NotaCreditoService {
+  /**
+   * Credited and remaining amounts of an invoice
+   */
+  static async getSaldo(sale: Sale): Promise<SaldoAcreditable & { notas: NotaCredito[] }> {
+    const notas = await storage.getNotasCreditoBySale(sale.id);
+    const cantidadesAcreditadas: Record<string, number> = {};
+    let ajustesPorMonto = false;
+
+    for (const nota of notas) {
+      const items = await storage.getNotaCreditoItems(nota.id);
+      for (const item of items) {
+        if (item.saleItemId) {
+          cantidadesAcreditadas[item.saleItemId] = (cantidadesAcreditadas[item.saleItemId] || 0) + item.cantidad;
+        } else {
+          ajustesPorMonto = true;
+        }
+      }
+    }
+
+    const acreditado = notas.reduce((sum, nota) => sum + parseFloat(nota.total), 0);
+    return {
+      notas,
+      acreditado,
+      disponible: Math.max(parseFloat(sale.total) - acreditado, 0),
+      cantidadesAcreditadas,
+      ajustesPorMonto
+    };
+  }
+
+  /**
+   * Compute the lines and totals of a new credit note for the invoice
+   */
+  static async calcular(
+    sale: Sale,
+    saleItems: SaleItem[],
+    data: Pick<CreateNotaCreditoType, "items" | "monto">
+  ): Promise<{
+    success: boolean;
+    calculo?: NotaCreditoCalculo;
+    error?: string;
+    code?: NotaCreditoErrorCode;
+  }> {
+    const saldo = await this.getSaldo(sale);
+    if (saldo.disponible <= 0) {
+      return {
+        success: false,
+        error: `La factura ${sale.numeroFactura} ya fue acreditada en su totalidad`,
+        code: "SALE_FULLY_CREDITED"
+      };
+    }
+
+    // What is left of the invoice, used when the note credits the whole balance
+    const restante = {
+      subtotal: parseFloat(sale.subtotal) - saldo.notas.reduce((sum, nota) => sum + parseFloat(nota.subtotal), 0),
+      impuestos: parseFloat(sale.impuestos || "0") - saldo.notas.reduce((sum, nota) => sum + parseFloat(nota.impuestos || "0"), 0),
+      total: saldo.disponible
+    };
+
+    // Amount-only notes cannot be traced to items, so the remaining balance is credited as an amount
+    if (data.monto !== undefined || (!data.items && saldo.ajustesPorMonto)) {
+      const monto = data.monto ?? saldo.disponible;
+      return this.calcularPorMonto(sale, saleItems, monto, restante);
+    }
+
+    const pendientes = saleItems
+      .map(item => ({ item, cantidad: item.cantidad - (saldo.cantidadesAcreditadas[item.id] || 0) }))
+      .filter(({ cantidad }) => cantidad > 0);
+
+    if (!data.items && pendientes.length === 0) {
+      return this.calcularPorMonto(sale, saleItems, saldo.disponible, restante);
+    }
+
+    const solicitados = data.items ?? pendientes.map(({ item, cantidad }) => ({ saleItemId: item.id, cantidad }));
+
+    const lineas: NotaCreditoLinea[] = [];
+    for (const solicitado of solicitados) {
+      const saleItem = saleItems.find(item => item.id === solicitado.saleItemId);
+      if (!saleItem) {
+        return {
+          success: false,
+          error: "El ítem indicado no pertenece a la factura",
+          code: "INVALID_ITEM"
+        };
+      }
+
+      const disponible = saleItem.cantidad - (saldo.cantidadesAcreditadas[saleItem.id] || 0);
+      if (solicitado.cantidad > disponible) {
+        return {
+          success: false,
+          error: `Solo quedan ${disponible} unidad(es) de "${saleItem.nombre}" por acreditar`,
+          code: "QUANTITY_EXCEEDED"
+        };
+      }
+
+      const tasaIva = this.tasaIva(sale, saleItem);
+      const precioUnitario = this.precioEfectivo(saleItem, tasaIva);
+      lineas.push({
+        saleItemId: saleItem.id,
+        nombre: saleItem.nombre,
+        cantidad: solicitado.cantidad,
+        precioUnitario,
+        subtotal: precioUnitario * solicitado.cantidad,
+        tasaIva
+      });
+    }
+
+    // Crediting every pending unit closes the invoice exactly, without rounding leftovers
+    const acreditaTodo = pendientes.every(({ item, cantidad }) =>
+      lineas.filter(linea => linea.saleItemId === item.id).reduce((sum, linea) => sum + linea.cantidad, 0) === cantidad
+    );
+    if (acreditaTodo) {
+      return { success: true, calculo: { lineas, ...restante } };
+    }
+
+    const { subtotal, impuestos, total } = liquidarIva(lineas);
+    if (total > saldo.disponible) {
+      return {
+        success: false,
+        error: `El monto supera el saldo disponible de la factura (${saldo.disponible})`,
+        code: "AMOUNT_EXCEEDED"
+      };
+    }
+
+    return { success: true, calculo: { lineas, subtotal, impuestos, total } };
+  }
+
+  /**
+   * Adjustment for a fixed amount (IVA included, as shown on the invoice)
+   * The amount is prorated among the IVA rates of the invoice, one line per rate
+   */
+  private static calcularPorMonto(
+    sale: Sale,
+    saleItems: SaleItem[],
+    monto: number,
+    restante: { subtotal: number; impuestos: number; total: number }
+  ): { success: boolean; calculo?: NotaCreditoCalculo; error?: string; code?: NotaCreditoErrorCode } {
+    if (monto > restante.total) {
+      return {
+        success: false,
+        error: `El monto supera el saldo disponible de la factura (${restante.total})`,
+        code: "AMOUNT_EXCEEDED"
+      };
+    }
+
+    // Invoice total per rate; invoices without items are credited at their effective rate
+    const totalesPorTasa = new Map<TasaIva, number>();
+    for (const item of saleItems) {
+      const tasaIva = this.tasaIva(sale, item);
+      const { total } = calcularLineaIva({ precioUnitario: item.precioUnitario, cantidad: item.cantidad, tasaIva, descuento: descuentoItem(item) });
+      totalesPorTasa.set(tasaIva, (totalesPorTasa.get(tasaIva) || 0) + total);
+    }
+    const tasas = Array.from(totalesPorTasa.entries()).filter(([, total]) => total > 0);
+    if (tasas.length === 0) {
+      tasas.push([this.tasaIva(sale), 1]);
+    }
+    const totalFactura = tasas.reduce((sum, [, total]) => sum + total, 0);
+
+    const lineas: NotaCreditoLinea[] = [];
+    let asignado = 0;
+    tasas.forEach(([tasaIva, total], index) => {
+      // The last rate takes the rounding difference so the lines add up to the amount
+      const bruto = index === tasas.length - 1 ? monto - asignado : Math.round(monto * total / totalFactura);
+      asignado += bruto;
+      const neto = tasaIva === 0 ? bruto : Math.round(bruto * 100 / (100 + tasaIva));
+
+      lineas.push({
+        saleItemId: null,
+        nombre: tasas.length > 1
+          ? `Ajuste sobre factura ${sale.numeroFactura} (${etiquetaTasaIva(tasaIva)})`
+          : `Ajuste sobre factura ${sale.numeroFactura}`,
+        cantidad: 1,
+        precioUnitario: neto,
+        subtotal: neto,
+        tasaIva
+      });
+    });
+
+    const subtotal = lineas.reduce((sum, linea) => sum + linea.subtotal, 0);
+    return {
+      success: true,
+      calculo: { lineas, subtotal, impuestos: monto - subtotal, total: monto }
+    };
+  }
+
+  /**
+   * Net unit price an invoice line was charged at, after its line and ticket discounts
+   */
+  private static precioEfectivo(item: SaleItem, tasaIva: TasaIva): number {
+    const descuento = descuentoItem(item);
+    if (descuento <= 0) {
+      return parseFloat(item.precioUnitario);
+    }
+    const { total } = calcularLineaIva({ precioUnitario: item.precioUnitario, cantidad: item.cantidad, tasaIva, descuento });
+    return Math.round(total / item.cantidad * 100 / (100 + tasaIva));
+  }
+
+  /**
+   * IVA rate of an invoice line; lines stored before rates were kept per line
+   * take the effective rate of the invoice (0 under régimen de turismo)
+   */
+  private static tasaIva(sale: Sale, item?: SaleItem): TasaIva {
+    if (item?.tasaIva !== undefined && item.tasaIva !== null) {
+      return item.tasaIva;
+    }
+    return sale.regimenTurismo || parseFloat(sale.impuestos || "0") === 0 ? 0 : 10;
+  }
+}
@@ -0,0 +1,80 @@
+import type { Sale, CreateNotaDebitoType, TasaIva } from "@shared/schema";
+import { liquidarIva } from "@shared/iva";
+import { storage } from "./storage";
+
+/**
+ * Nota de Débito amount calculation
+ * A debit note adds charges found after invoicing (extra services, fees) to an issued
+ * invoice without modifying it. Lines follow the sale convention: prices net of IVA and
+ * the tax added on top, at the rate of the service charged (exempt under régimen de turismo).
+ */
+
+export type NotaDebitoErrorCode = "INVALID_SERVICE";
+
+export interface NotaDebitoLinea {
+  serviceId: string | null;
+  nombre: string;
+  cantidad: number;
+  precioUnitario: number;
+  subtotal: number;
+  tasaIva: TasaIva;
+}
+
+export interface NotaDebitoCalculo {
+  lineas: NotaDebitoLinea[];
+  subtotal: number;
+  impuestos: number;
+  total: number;
+}
+
+export class NotaDebitoService {
+  /**
+   * Compute the lines and totals of a new debit note for the invoice
+   */
+  static async calcular(
+    sale: Sale,
+    items: CreateNotaDebitoType["items"]
+  ): Promise<{
+    success: boolean;
+    calculo?: NotaDebitoCalculo;
+    error?: string;
+    code?: NotaDebitoErrorCode;
+  }> {
+    const lineas: NotaDebitoLinea[] = [];
+
+    for (const item of items) {
+      let tasaIva: TasaIva = item.tasaIva ?? 10;
+      if (item.serviceId) {
+        const service = await storage.getService(item.serviceId);
+        if (!service) {
+          return {
+            success: false,
+            error: `El servicio indicado para "${item.nombre}" no existe`,
+            code: "INVALID_SERVICE"
+          };
+        }
+        tasaIva = item.tasaIva ?? service.tasaIva;
+      }
+
+      lineas.push({
+        serviceId: item.serviceId || null,
+        nombre: item.nombre,
+        cantidad: item.cantidad,
+        precioUnitario: item.precioUnitario,
+        subtotal: item.precioUnitario * item.cantidad,
+        tasaIva: this.isExenta(sale) ? 0 : tasaIva
+      });
+    }
+
+    const { subtotal, impuestos, total } = liquidarIva(lineas);
+
+    return { success: true, calculo: { lineas, subtotal, impuestos, total } };
+  }
+
+  /**
+   * Invoices issued without IVA (régimen de turismo) keep their charges exempt
+   */
+  private static isExenta(sale: Sale): boolean {
+    return sale.regimenTurismo || parseFloat(sale.impuestos || "0") === 0;
+  }
+}
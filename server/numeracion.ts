@@ -0,0 +1,200 @@
+import type { DocumentSequenceKey } from "@shared/schema";
+import { storage } from "./storage";
+
+/**
+ * Document numbering
+ * Numbers are reserved through the storage sequence allocator, which is atomic in every backend,
+ * so two cashiers invoicing at the same time never get the same number. A number reserved for a
+ * document that was never saved is a gap; gaps must be inutilizados before the SIFEN audit.
+ */
+
+export type NumeracionErrorCode = "TIMBRADO_RANGE_EXHAUSTED";
+
+export interface HuecoNumeracion extends DocumentSequenceKey {
+  desde: number;
+  hasta: number;
+}
+
+export class NumeracionService {
+  static readonly TIPOS_DOCUMENTO: Record<number, string> = {
+    1: "Factura electrónica",
+    5: "Nota de crédito electrónica",
+    6: "Nota de débito electrónica"
+  };
+
+  /**
+   * Reserve the next number of a sequence within the authorized range
+   * The first reservation of a sequence continues after documents issued before it existed
+   */
+  static async reservar(
+    key: DocumentSequenceKey,
+    rango: { numeroInicial: number; numeroFinal?: number }
+  ): Promise<{ success: boolean; numero?: number; error?: string; code?: NumeracionErrorCode }> {
+    const existe = (await storage.getDocumentSequences()).some(sequence => this.mismaClave(sequence, key));
+    const ultimoEmitido = existe ? null : this.maximo(await this.numerosEmitidos(key));
+    const minimo = Math.max(rango.numeroInicial, (ultimoEmitido ?? 0) + 1);
+
+    const numero = await storage.reserveDocumentNumber(key, minimo);
+    if (rango.numeroFinal !== undefined && numero > rango.numeroFinal) {
+      return {
+        success: false,
+        error: `Se agotó la numeración autorizada del timbrado ${key.timbrado} ` +
+          `(${rango.numeroInicial} - ${rango.numeroFinal}). Active el siguiente timbrado para continuar facturando.`,
+        code: "TIMBRADO_RANGE_EXHAUSTED"
+      };
+    }
+
+    return { success: true, numero };
+  }
+
+  /**
+   * Number the next reservation will get (without reserving it)
+   */
+  static async siguiente(key: DocumentSequenceKey, numeroInicial: number): Promise<number> {
+    const sequence = (await storage.getDocumentSequences()).find(s => this.mismaClave(s, key));
+    const ultimo = Math.max(sequence?.ultimoNumero ?? 0, this.maximo(await this.numerosEmitidos(key)) ?? 0);
+    return Math.max(ultimo + 1, numeroInicial);
+  }
+
+  /**
+   * Numbers of every sequence that have no document and were not inutilizados
+   * Invoices are checked within the timbrado range; credit and debit notes start at 1
+   */
+  static async detectarHuecos(): Promise<HuecoNumeracion[]> {
+    const [sales, notasCredito, notasDebito, eventos, sequences, timbrados] = await Promise.all([
+      storage.getSales(),
+      storage.getNotasCredito(),
+      storage.getNotasDebito(),
+      storage.getSifenEventos(),
+      storage.getDocumentSequences(),
+      storage.getTimbrados()
+    ]);
+
+    // Numbers used per sequence: documents issued plus ranges inutilizados (not rejected by SIFEN)
+    const usados = new Map<string, { key: DocumentSequenceKey; numeros: Set<number>; ultimo: number }>();
+    const registrar = (key: DocumentSequenceKey, numero: number) => {
+      const clave = this.clave(key);
+      const entry = usados.get(clave) ?? { key, numeros: new Set<number>(), ultimo: 0 };
+      entry.numeros.add(numero);
+      entry.ultimo = Math.max(entry.ultimo, numero);
+      usados.set(clave, entry);
+    };
+
+    const documentos = [
+      ...sales.map(sale => ({ tipoDocumento: 1, numero: sale.numeroFactura, timbrado: sale.timbradoUsado })),
+      ...notasCredito.map(nota => ({ tipoDocumento: 5, numero: nota.numero, timbrado: nota.timbradoUsado })),
+      ...notasDebito.map(nota => ({ tipoDocumento: 6, numero: nota.numero, timbrado: nota.timbradoUsado }))
+    ];
+    for (const documento of documentos) {
+      const [establecimiento, puntoExpedicion, numero] = documento.numero.split('-');
+      if (!numero) continue;
+      registrar(
+        { tipoDocumento: documento.tipoDocumento, timbrado: documento.timbrado, establecimiento, puntoExpedicion },
+        parseInt(numero, 10)
+      );
+    }
+
+    const inutilizados = eventos.filter(evento =>
+      evento.tipo === "inutilizacion" && evento.estado !== "rechazado" &&
+      evento.timbrado && evento.establecimiento && evento.puntoExpedicion &&
+      evento.numeroDesde !== null && evento.numeroHasta !== null
+    );
+
+    // Sequences that reserved numbers without a document yet
+    for (const sequence of sequences) {
+      const clave = this.clave(sequence);
+      const entry = usados.get(clave) ?? { key: this.soloClave(sequence), numeros: new Set<number>(), ultimo: 0 };
+      entry.ultimo = Math.max(entry.ultimo, sequence.ultimoNumero);
+      usados.set(clave, entry);
+    }
+
+    const huecos: HuecoNumeracion[] = [];
+    for (const { key, numeros, ultimo } of Array.from(usados.values())) {
+      for (const evento of inutilizados) {
+        if (evento.tipoDocumento === key.tipoDocumento && evento.timbrado === key.timbrado &&
+            evento.establecimiento === key.establecimiento && evento.puntoExpedicion === key.puntoExpedicion) {
+          for (let numero = evento.numeroDesde!; numero <= evento.numeroHasta! && numero <= ultimo; numero++) {
+            numeros.add(numero);
+          }
+        }
+      }
+
+      // Reservations rejected because the range was exhausted are not gaps
+      const rango = await this.rangoAutorizado(key, timbrados);
+      const fin = rango.numeroFinal === null ? ultimo : Math.min(ultimo, rango.numeroFinal);
+      let desde: number | null = null;
+      for (let numero = rango.numeroInicial; numero <= fin + 1; numero++) {
+        const falta = numero <= fin && !numeros.has(numero);
+        if (falta && desde === null) {
+          desde = numero;
+        } else if (!falta && desde !== null) {
+          huecos.push({ ...key, desde, hasta: numero - 1 });
+          desde = null;
+        }
+      }
+    }
+
+    return huecos.sort((a, b) =>
+      a.timbrado.localeCompare(b.timbrado) ||
+      a.tipoDocumento - b.tipoDocumento ||
+      `${a.establecimiento}-${a.puntoExpedicion}`.localeCompare(`${b.establecimiento}-${b.puntoExpedicion}`) ||
+      a.desde - b.desde
+    );
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static async numerosEmitidos(key: DocumentSequenceKey): Promise<number[]> {
+    const documentos = key.tipoDocumento === 1
+      ? (await storage.getSales()).map(sale => ({ numero: sale.numeroFactura, timbrado: sale.timbradoUsado }))
+      : key.tipoDocumento === 5
+        ? (await storage.getNotasCredito()).map(nota => ({ numero: nota.numero, timbrado: nota.timbradoUsado }))
+        : (await storage.getNotasDebito()).map(nota => ({ numero: nota.numero, timbrado: nota.timbradoUsado }));
+
+    const prefijo = `${key.establecimiento}-${key.puntoExpedicion}-`;
+    return documentos
+      .filter(documento => documento.timbrado === key.timbrado && documento.numero.startsWith(prefijo))
+      .map(documento => parseInt(documento.numero.substring(prefijo.length), 10))
+      .filter(numero => !isNaN(numero));
+  }
+
+  private static async rangoAutorizado(
+    key: DocumentSequenceKey,
+    timbrados: Awaited<ReturnType<typeof storage.getTimbrados>>
+  ): Promise<{ numeroInicial: number; numeroFinal: number | null }> {
+    const timbrado = key.tipoDocumento === 1 ? timbrados.find(t => t.numero === key.timbrado) : undefined;
+    if (!timbrado) {
+      return { numeroInicial: 1, numeroFinal: null };
+    }
+
+    const rango = (await storage.getTimbradoRangos(timbrado.id)).find(r =>
+      r.establecimiento === key.establecimiento && r.puntoExpedicion === key.puntoExpedicion
+    );
+    return rango
+      ? { numeroInicial: rango.numeroInicial, numeroFinal: rango.numeroFinal }
+      : { numeroInicial: 1, numeroFinal: null };
+  }
+
+  private static maximo(numeros: number[]): number | null {
+    return numeros.length > 0 ? Math.max(...numeros) : null;
+  }
+
+  private static mismaClave(a: DocumentSequenceKey, b: DocumentSequenceKey): boolean {
+    return this.clave(a) === this.clave(b);
+  }
+
+  private static clave(key: DocumentSequenceKey): string {
+    return `${key.tipoDocumento}|${key.timbrado}|${key.establecimiento}|${key.puntoExpedicion}`;
+  }
+
+  private static soloClave(key: DocumentSequenceKey): DocumentSequenceKey {
+    return {
+      tipoDocumento: key.tipoDocumento,
+      timbrado: key.timbrado,
+      establecimiento: key.establecimiento,
+      puntoExpedicion: key.puntoExpedicion
+    };
+  }
+}
@@ -0,0 +1,153 @@
+import JSZip from "jszip";
+import type { InsertPadronRuc, PadronRucCambios } from "@shared/schema";
+import { digitoVerificadorRUC } from "@shared/documentos";
+import { storage } from "./storage";
+
+/**
+ * RUC padrón (DNIT taxpayer registry)
+ * The DNIT publishes the padrón as ruc0.zip ... ruc9.zip, each with a text file of lines
+ * "RUC|RAZÓN SOCIAL|DV|RUC ANTERIOR|ESTADO|". The files are merged into a local table so customers
+ * are looked up without internet; importing a newer padrón only rewrites the rows that changed.
+ */
+
+export type PadronRucErrorCode = "INVALID_FILE" | "EMPTY_FILE" | "INVALID_DOCUMENT";
+
+export interface ResultadoImportacionPadron extends PadronRucCambios {
+  archivos: string[];
+  procesados: number;
+  invalidos: number; // Lines that could not be read
+}
+
+export interface ConsultaPadronRuc {
+  ruc: string; // With the verification digit, e.g. "80069563-1"
+  dv: string;
+  encontrado: boolean;
+  razonSocial: string | null;
+  estado: string | null;
+}
+
+export class PadronRucService {
+  /**
+   * Merge a padrón file (the ZIP as downloaded from the DNIT, or the text file inside it)
+   */
+  static async importar(contenido: Buffer): Promise<{
+    success: boolean;
+    resultado?: ResultadoImportacionPadron;
+    error?: string;
+    code?: PadronRucErrorCode;
+  }> {
+    let archivos: { nombre: string; texto: string }[];
+    try {
+      archivos = await this.archivosDeTexto(contenido);
+    } catch (error) {
+      return { success: false, error: "El archivo no es un ZIP ni un texto del padrón RUC válido", code: "INVALID_FILE" };
+    }
+
+    const resultado: ResultadoImportacionPadron = {
+      archivos: archivos.map(archivo => archivo.nombre),
+      procesados: 0,
+      invalidos: 0,
+      nuevos: 0,
+      actualizados: 0,
+      sinCambios: 0
+    };
+
+    for (const archivo of archivos) {
+      // Keyed by RUC so a repeated line cannot be written twice in the same batch
+      const registros = new Map<string, InsertPadronRuc>();
+      for (const linea of archivo.texto.split(/\r?\n/)) {
+        if (!linea.trim()) continue;
+        const registro = this.parsearLinea(linea);
+        if (registro) {
+          registros.set(registro.ruc, registro);
+        } else {
+          resultado.invalidos++;
+        }
+      }
+
+      resultado.procesados += registros.size;
+      if (registros.size === 0) continue;
+
+      const cambios = await storage.upsertPadronRuc(Array.from(registros.values()));
+      resultado.nuevos += cambios.nuevos;
+      resultado.actualizados += cambios.actualizados;
+      resultado.sinCambios += cambios.sinCambios;
+    }
+
+    if (resultado.procesados === 0) {
+      return { success: false, error: "El archivo no contiene registros del padrón RUC", code: "EMPTY_FILE" };
+    }
+    return { success: true, resultado };
+  }
+
+  /**
+   * Taxpayer of a RUC or CI number, with or without its verification digit
+   * The digit is computed when the number is not in the padrón, so a RUC can still be completed
+   */
+  static async consultar(documento: string): Promise<{
+    success: boolean;
+    consulta?: ConsultaPadronRuc;
+    error?: string;
+    code?: PadronRucErrorCode;
+  }> {
+    const match = documento.replace(/[.\s]/g, '').match(/^(\d{1,8})(-\d)?$/);
+    if (!match) {
+      return { success: false, error: "Ingrese un número de RUC o CI de hasta 8 dígitos", code: "INVALID_DOCUMENT" };
+    }
+
+    const base = match[1].replace(/^0+(?=\d)/, '');
+    const contribuyente = await storage.getPadronRuc(base);
+    const dv = contribuyente?.dv ?? digitoVerificadorRUC(base).toString();
+
+    return {
+      success: true,
+      consulta: {
+        ruc: `${base}-${dv}`,
+        dv,
+        encontrado: !!contribuyente,
+        razonSocial: contribuyente?.razonSocial ?? null,
+        estado: contribuyente?.estado ?? null
+      }
+    };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static async archivosDeTexto(contenido: Buffer): Promise<{ nombre: string; texto: string }[]> {
+    // ZIP local file header "PK\x03\x04"
+    if (contenido.length >= 4 && contenido.readUInt32LE(0) === 0x04034b50) {
+      const zip = await JSZip.loadAsync(contenido);
+      const archivos: { nombre: string; texto: string }[] = [];
+      for (const entrada of Object.values(zip.files)) {
+        if (entrada.dir || !/\.txt$/i.test(entrada.name)) continue;
+        archivos.push({ nombre: entrada.name, texto: this.decodificar(await entrada.async("nodebuffer")) });
+      }
+      return archivos;
+    }
+
+    return [{ nombre: "padron.txt", texto: this.decodificar(contenido) }];
+  }
+
+  // Older padrón files are published in Latin-1 rather than UTF-8
+  private static decodificar(contenido: Buffer): string {
+    const texto = contenido.toString("utf8");
+    return texto.includes("�") ? contenido.toString("latin1") : texto;
+  }
+
+  private static parsearLinea(linea: string): InsertPadronRuc | null {
+    const [ruc, razonSocial, dv, rucAnterior, estado] = linea.split('|').map(campo => campo?.trim() ?? "");
+    if (!/^\d{1,8}$/.test(ruc) || !/^\d$/.test(dv) || !razonSocial) {
+      return null;
+    }
+
+    return {
+      ruc: ruc.replace(/^0+(?=\d)/, ''),
+      dv,
+      razonSocial,
+      rucAnterior: rucAnterior || null,
+      estado: estado || "ACTIVO"
+    };
+  }
+}
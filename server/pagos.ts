@@ -0,0 +1,107 @@
+import type { Sale, SalePago, SalePagoType, MedioPago, CondicionVenta } from "@shared/schema";
+import { validarPagos, aplicarVuelto, medioPagoPrincipal, type PagoVenta, type PagoErrorCode } from "@shared/pagos";
+import { storage } from "./storage";
+
+/**
+ * Payments of cash sales
+ * Each sale keeps one row per payment method used; medioPago on the sale is the method that paid
+ * the most, for the documents that only carry one. Credit sales are collected later with receipts
+ * and have no payments. Sales recorded before split payments count as paid in full with medioPago.
+ */
+
+export interface ResumenMedioPago {
+  medioPago: MedioPago;
+  cantidad: number; // Payments
+  total: number; // Applied to sales, change excluded
+  vuelto: number;
+}
+
+export class PagoService {
+  /**
+   * Payments of a new or edited sale for its priced total
+   * Without payments the whole total is paid with medioPago, as sales were recorded before
+   */
+  static pagosVenta(
+    data: { pagos?: SalePagoType[]; medioPago: MedioPago; condicionVenta?: CondicionVenta },
+    total: number
+  ): { success: boolean; pagos?: PagoVenta[]; medioPago?: MedioPago; error?: string; code?: PagoErrorCode } {
+    if (data.condicionVenta === "credito") {
+      return { success: true, pagos: [], medioPago: data.medioPago };
+    }
+
+    if (!data.pagos || data.pagos.length === 0) {
+      return { success: true, pagos: [{ medioPago: data.medioPago, monto: total, vuelto: 0 }], medioPago: data.medioPago };
+    }
+
+    const pagos = aplicarVuelto(data.pagos, total);
+    const validacion = validarPagos(pagos, total);
+    if (!validacion.success) {
+      return { success: false, error: validacion.error, code: validacion.code };
+    }
+
+    return { success: true, pagos, medioPago: medioPagoPrincipal(pagos) };
+  }
+
+  /**
+   * Replace the payments of a sale
+   */
+  static async registrarPagos(saleId: string, pagos: PagoVenta[]): Promise<SalePago[]> {
+    await storage.deleteSalePagosBySale(saleId);
+
+    const registrados: SalePago[] = [];
+    for (const pago of pagos) {
+      registrados.push(await storage.createSalePago({
+        saleId,
+        medioPago: pago.medioPago,
+        monto: pago.monto.toString(),
+        vuelto: (pago.vuelto ?? 0).toString(),
+        marcaTarjeta: pago.marcaTarjeta?.trim() || null,
+        ultimos4: pago.ultimos4 || null,
+        referencia: pago.referencia?.trim() || null
+      }));
+    }
+    return registrados;
+  }
+
+  /**
+   * Payments of a sale; earlier cash sales without rows were paid in full with medioPago
+   */
+  static async pagosDeVenta(sale: Sale): Promise<PagoVenta[]> {
+    if (sale.condicionVenta === "credito") {
+      return [];
+    }
+
+    const pagos = await storage.getSalePagos(sale.id);
+    if (pagos.length === 0) {
+      return [{ medioPago: sale.medioPago, monto: parseFloat(sale.total), vuelto: 0 }];
+    }
+
+    return pagos.map(pago => ({
+      medioPago: pago.medioPago,
+      monto: parseFloat(pago.monto),
+      vuelto: parseFloat(pago.vuelto),
+      marcaTarjeta: pago.marcaTarjeta,
+      ultimos4: pago.ultimos4,
+      referencia: pago.referencia
+    }));
+  }
+
+  /**
+   * Amounts collected per payment method on a set of sales
+   */
+  static async resumenPorMedio(sales: Sale[]): Promise<ResumenMedioPago[]> {
+    const medios = new Map<MedioPago, ResumenMedioPago>();
+
+    for (const sale of sales) {
+      for (const pago of await this.pagosDeVenta(sale)) {
+        const medio = medios.get(pago.medioPago) ?? { medioPago: pago.medioPago, cantidad: 0, total: 0, vuelto: 0 };
+        medio.cantidad++;
+        medio.total += pago.monto;
+        medio.vuelto += pago.vuelto ?? 0;
+        medios.set(pago.medioPago, medio);
+      }
+    }
+
+    return Array.from(medios.values()).sort((a, b) => b.total - a.total);
+  }
+}
@@ -1,12 +1,20 @@
 import { drizzle } from "drizzle-orm/neon-http";
 import { neon } from "@neondatabase/serverless";
-import { eq, desc, and, or, gte, lte, between, inArray } from "drizzle-orm";
+import { eq, desc, and, or, gte, lte, between, inArray, sql } from "drizzle-orm";
 import {
   users,
   companyConfigs,
   dnitConfigs,
+  establecimientos,
+  puntosExpedicion,
+  monedas,
+  tiposCambio,
+  timbrados,
+  timbradoRangos,
+  documentSequences,
   categories,
   customers,
+  padronRuc,
   vehicles,
   services,
   serviceCombos,
@@ -15,14 +23,34 @@ import {
   workOrderItems,
   inventoryItems,
   sales,
-  saleItems
+  saleItems,
+  salePagos,
+  sifenLotes,
+  sifenEventos,
+  notasCredito,
+  notaCreditoItems,
+  notasDebito,
+  notaDebitoItems,
+  recibos,
+  reciboAplicaciones,
+  sesionesCaja,
+  movimientosCaja,
+  movimientosStock
 } from "@shared/schema";
 import {
   type User, type InsertUser, type InternalUpdateUser,
   type CompanyConfig, type InsertCompanyConfig,
   type DnitConfig, type InsertDnitConfig, type UpdateDnitConfig,
+  type Establecimiento, type InsertEstablecimiento,
+  type PuntoExpedicion, type InsertPuntoExpedicion,
+  type Moneda, type InsertMoneda,
+  type TipoCambio, type InsertTipoCambio,
+  type Timbrado, type InsertTimbrado,
+  type TimbradoRango, type InsertTimbradoRango,
+  type DocumentSequence, type DocumentSequenceKey,
   type Category, type InsertCategory,
   type Customer, type InsertCustomer,
+  type PadronRuc, type InsertPadronRuc, type PadronRucCambios,
   type Vehicle, type InsertVehicle,
   type Service, type InsertService,
   type ServiceCombo, type InsertServiceCombo,
@@ -31,11 +59,25 @@ import {
   type WorkOrderItem, type InsertWorkOrderItem,
   type InventoryItem, type InsertInventoryItem,
   type Sale, type InsertSale,
-  type SaleItem, type InsertSaleItem
+  type SaleItem, type InsertSaleItem,
+  type SalePago, type InsertSalePago,
+  type SifenLote, type InsertSifenLote,
+  type SifenEvento, type InsertSifenEvento,
+  type NotaCredito, type InsertNotaCredito,
+  type NotaCreditoItem, type InsertNotaCreditoItem,
+  type NotaDebito, type InsertNotaDebito,
+  type NotaDebitoItem, type InsertNotaDebitoItem,
+  type Recibo, type InsertRecibo,
+  type ReciboAplicacion, type InsertReciboAplicacion,
+  type SesionCaja, type InsertSesionCaja,
+  type MovimientoCaja, type InsertMovimientoCaja,
+  type MovimientoStock, type InsertMovimientoStock
 } from "@shared/schema";
+import { estadoAlertaStock } from "@shared/inventario";
 import { IStorage } from "./storage";
 import { PasswordUtils } from "./password-utils";
 import { EncryptionService } from "./encryption";
+import { SifenClient } from "./sifen-client";
 
 /**
  * PostgreSQL Storage Implementation using Drizzle ORM
@@ -131,12 +173,15 @@ export class PostgresStorage implements IStorage {
       expirationDate: user.expirationDate ?? null,
       isActive: user.isActive ?? true,
       isBlocked: user.isBlocked ?? false,
+      puntoExpedicionId: user.puntoExpedicionId ?? null,
       createdBy: user.createdBy ?? null,
       currentMonthInvoices: 0,
       usageResetDate: new Date(),
       failedLoginAttempts: 0,
       lastLogin: null,
-      lastFailedLogin: null
+      lastFailedLogin: null,
+      failedPinAttempts: 0,
+      lastFailedPin: null
     }).returning();
     
     return newUser as User;
@@ -217,7 +262,10 @@ export class PostgresStorage implements IStorage {
       telefono: config.telefono ?? null,
       email: config.email ?? null,
       logoPath: config.logoPath ?? null,
-      moneda: config.moneda ?? "GS"
+      moneda: config.moneda ?? "GS",
+      permitirStockNegativo: config.permitirStockNegativo ?? false,
+      descuentoMaximoUser: config.descuentoMaximoUser ?? 10,
+      descuentoMaximoAdmin: config.descuentoMaximoAdmin ?? 100
     }).returning();
     
     return newConfig as CompanyConfig;
@@ -244,7 +292,8 @@ export class PostgresStorage implements IStorage {
       return {
         ...config,
         authToken: config.authToken ? await EncryptionService.decrypt(config.authToken) : config.authToken,
-        certificatePassword: config.certificatePassword ? await EncryptionService.decrypt(config.certificatePassword) : null
+        certificatePassword: config.certificatePassword ? await EncryptionService.decrypt(config.certificatePassword) : null,
+        csc: config.csc ? await EncryptionService.decrypt(config.csc) : null
       } as DnitConfig;
     }
     return undefined;
@@ -254,12 +303,15 @@ export class PostgresStorage implements IStorage {
     // Encrypt sensitive data
     const encryptedAuthToken = await EncryptionService.encrypt(config.authToken);
     const encryptedCertPassword = config.certificatePassword ? await EncryptionService.encrypt(config.certificatePassword) : null;
+    const encryptedCsc = config.csc ? await EncryptionService.encrypt(config.csc) : null;
     
     const [newConfig] = await this.db.insert(dnitConfigs).values({
       endpointUrl: config.endpointUrl,
       authToken: encryptedAuthToken,
       certificateData: config.certificateData ?? null,
       certificatePassword: encryptedCertPassword,
+      idCsc: config.idCsc ?? null,
+      csc: encryptedCsc,
       operationMode: config.operationMode ?? "testing",
       isActive: config.isActive ?? false
     }).returning();
@@ -268,7 +320,8 @@ export class PostgresStorage implements IStorage {
     return {
       ...newConfig,
       authToken: config.authToken,
-      certificatePassword: config.certificatePassword ?? null
+      certificatePassword: config.certificatePassword ?? null,
+      csc: config.csc ?? null
     } as DnitConfig;
   }
 
@@ -282,6 +335,10 @@ export class PostgresStorage implements IStorage {
     if (config.certificatePassword) {
       updateData.certificatePassword = await EncryptionService.encrypt(config.certificatePassword);
     }
+
+    if (config.csc) {
+      updateData.csc = await EncryptionService.encrypt(config.csc);
+    }
     
     const [updatedConfig] = await this.db.update(dnitConfigs)
       .set(updateData)
@@ -293,7 +350,8 @@ export class PostgresStorage implements IStorage {
       return {
         ...updatedConfig,
         authToken: config.authToken || (await EncryptionService.decrypt(updatedConfig.authToken)),
-        certificatePassword: config.certificatePassword || (updatedConfig.certificatePassword ? await EncryptionService.decrypt(updatedConfig.certificatePassword) : null)
+        certificatePassword: config.certificatePassword || (updatedConfig.certificatePassword ? await EncryptionService.decrypt(updatedConfig.certificatePassword) : null),
+        csc: config.csc || (updatedConfig.csc ? await EncryptionService.decrypt(updatedConfig.csc) : null)
       } as DnitConfig;
     }
     
@@ -306,8 +364,276 @@ export class PostgresStorage implements IStorage {
   }
 
   async testDnitConnection(config: DnitConfig): Promise<{ success: boolean; error?: string }> {
-    // Implementation would depend on actual DNIT API testing
-    return { success: true };
+    try {
+      const companyConfig = await this.getCompanyConfig();
+      return await new SifenClient(config).testConnection(companyConfig?.ruc);
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : `Error de conexión: ${error}` };
+    }
+  }
+
+  // ============================
+  // ESTABLECIMIENTOS
+  // ============================
+
+  async getEstablecimiento(id: string): Promise<Establecimiento | undefined> {
+    const result = await this.db.select().from(establecimientos).where(eq(establecimientos.id, id)).limit(1);
+    return result[0] as Establecimiento | undefined;
+  }
+
+  async getEstablecimientos(): Promise<Establecimiento[]> {
+    const result = await this.db.select().from(establecimientos).orderBy(establecimientos.codigo);
+    return result as Establecimiento[];
+  }
+
+  async createEstablecimiento(establecimiento: InsertEstablecimiento): Promise<Establecimiento> {
+    const [newEstablecimiento] = await this.db.insert(establecimientos).values({
+      codigo: establecimiento.codigo,
+      nombre: establecimiento.nombre,
+      direccion: establecimiento.direccion,
+      ciudad: establecimiento.ciudad,
+      telefono: establecimiento.telefono ?? null,
+      activo: establecimiento.activo ?? true
+    }).returning();
+
+    return newEstablecimiento as Establecimiento;
+  }
+
+  async updateEstablecimiento(id: string, establecimiento: Partial<InsertEstablecimiento>): Promise<Establecimiento | undefined> {
+    const [updated] = await this.db.update(establecimientos)
+      .set({ ...establecimiento, updatedAt: new Date() })
+      .where(eq(establecimientos.id, id))
+      .returning();
+
+    return updated as Establecimiento | undefined;
+  }
+
+  async deleteEstablecimiento(id: string): Promise<boolean> {
+    await this.db.delete(establecimientos).where(eq(establecimientos.id, id));
+    return true;
+  }
+
+  // ============================
+  // PUNTOS DE EXPEDICION
+  // ============================
+
+  async getPuntoExpedicion(id: string): Promise<PuntoExpedicion | undefined> {
+    const result = await this.db.select().from(puntosExpedicion).where(eq(puntosExpedicion.id, id)).limit(1);
+    return result[0] as PuntoExpedicion | undefined;
+  }
+
+  async getPuntosExpedicion(establecimientoId?: string): Promise<PuntoExpedicion[]> {
+    const result = establecimientoId
+      ? await this.db.select().from(puntosExpedicion)
+          .where(eq(puntosExpedicion.establecimientoId, establecimientoId))
+          .orderBy(puntosExpedicion.codigo)
+      : await this.db.select().from(puntosExpedicion).orderBy(puntosExpedicion.codigo);
+    return result as PuntoExpedicion[];
+  }
+
+  async createPuntoExpedicion(punto: InsertPuntoExpedicion): Promise<PuntoExpedicion> {
+    const [newPunto] = await this.db.insert(puntosExpedicion).values({
+      establecimientoId: punto.establecimientoId,
+      codigo: punto.codigo,
+      descripcion: punto.descripcion,
+      activo: punto.activo ?? true
+    }).returning();
+
+    return newPunto as PuntoExpedicion;
+  }
+
+  async updatePuntoExpedicion(id: string, punto: Partial<InsertPuntoExpedicion>): Promise<PuntoExpedicion | undefined> {
+    const [updated] = await this.db.update(puntosExpedicion)
+      .set({ ...punto, updatedAt: new Date() })
+      .where(eq(puntosExpedicion.id, id))
+      .returning();
+
+    return updated as PuntoExpedicion | undefined;
+  }
+
+  async deletePuntoExpedicion(id: string): Promise<boolean> {
+    await this.db.delete(puntosExpedicion).where(eq(puntosExpedicion.id, id));
+    return true;
+  }
+
+  // ============================
+  // CURRENCIES
+  // ============================
+
+  async getMoneda(id: string): Promise<Moneda | undefined> {
+    const result = await this.db.select().from(monedas).where(eq(monedas.id, id)).limit(1);
+    return result[0] as Moneda | undefined;
+  }
+
+  async getMonedas(): Promise<Moneda[]> {
+    const result = await this.db.select().from(monedas).orderBy(monedas.codigo);
+    return result as Moneda[];
+  }
+
+  async createMoneda(moneda: InsertMoneda): Promise<Moneda> {
+    const [newMoneda] = await this.db.insert(monedas).values({
+      codigo: moneda.codigo,
+      nombre: moneda.nombre,
+      simbolo: moneda.simbolo,
+      decimales: moneda.decimales ?? 2,
+      activo: moneda.activo ?? true
+    }).returning();
+
+    return newMoneda as Moneda;
+  }
+
+  async updateMoneda(id: string, moneda: Partial<InsertMoneda>): Promise<Moneda | undefined> {
+    const [updated] = await this.db.update(monedas)
+      .set({ ...moneda, updatedAt: new Date() })
+      .where(eq(monedas.id, id))
+      .returning();
+
+    return updated as Moneda | undefined;
+  }
+
+  async deleteMoneda(id: string): Promise<boolean> {
+    await this.db.delete(monedas).where(eq(monedas.id, id));
+    return true;
+  }
+
+  // ============================
+  // EXCHANGE RATES
+  // ============================
+
+  async getTiposCambio(moneda?: string): Promise<TipoCambio[]> {
+    const query = this.db.select().from(tiposCambio);
+    const result = moneda
+      ? await query.where(eq(tiposCambio.moneda, moneda)).orderBy(desc(tiposCambio.fecha))
+      : await query.orderBy(desc(tiposCambio.fecha), tiposCambio.moneda);
+    return result as TipoCambio[];
+  }
+
+  async createTipoCambio(tipoCambio: InsertTipoCambio): Promise<TipoCambio> {
+    const [newTipoCambio] = await this.db.insert(tiposCambio).values({
+      moneda: tipoCambio.moneda,
+      fecha: tipoCambio.fecha,
+      tasa: tipoCambio.tasa,
+      createdBy: tipoCambio.createdBy ?? null
+    }).returning();
+
+    return newTipoCambio as TipoCambio;
+  }
+
+  async updateTipoCambio(id: string, tipoCambio: Partial<InsertTipoCambio>): Promise<TipoCambio | undefined> {
+    const [updated] = await this.db.update(tiposCambio)
+      .set({ ...tipoCambio, updatedAt: new Date() })
+      .where(eq(tiposCambio.id, id))
+      .returning();
+
+    return updated as TipoCambio | undefined;
+  }
+
+  async deleteTipoCambio(id: string): Promise<boolean> {
+    await this.db.delete(tiposCambio).where(eq(tiposCambio.id, id));
+    return true;
+  }
+
+  // ============================
+  // TIMBRADOS
+  // ============================
+
+  async getTimbrado(id: string): Promise<Timbrado | undefined> {
+    const result = await this.db.select().from(timbrados).where(eq(timbrados.id, id)).limit(1);
+    return result[0] as Timbrado | undefined;
+  }
+
+  async getTimbrados(): Promise<Timbrado[]> {
+    const result = await this.db.select().from(timbrados).orderBy(timbrados.fechaInicio);
+    return result as Timbrado[];
+  }
+
+  async createTimbrado(timbrado: InsertTimbrado): Promise<Timbrado> {
+    const [newTimbrado] = await this.db.insert(timbrados).values({
+      numero: timbrado.numero,
+      fechaInicio: timbrado.fechaInicio,
+      fechaFin: timbrado.fechaFin,
+      estado: timbrado.estado ?? "proximo",
+      motivoFinalizacion: timbrado.motivoFinalizacion ?? null,
+      fechaFinalizacion: timbrado.fechaFinalizacion ?? null
+    }).returning();
+
+    return newTimbrado as Timbrado;
+  }
+
+  async updateTimbrado(id: string, timbrado: Partial<InsertTimbrado>): Promise<Timbrado | undefined> {
+    const [updated] = await this.db.update(timbrados)
+      .set({ ...timbrado, updatedAt: new Date() })
+      .where(eq(timbrados.id, id))
+      .returning();
+
+    return updated as Timbrado | undefined;
+  }
+
+  async deleteTimbrado(id: string): Promise<boolean> {
+    await this.deleteTimbradoRangos(id);
+    await this.db.delete(timbrados).where(eq(timbrados.id, id));
+    return true;
+  }
+
+  // ============================
+  // TIMBRADO RANGOS
+  // ============================
+
+  async getTimbradoRangos(timbradoId: string): Promise<TimbradoRango[]> {
+    const result = await this.db.select().from(timbradoRangos)
+      .where(eq(timbradoRangos.timbradoId, timbradoId))
+      .orderBy(timbradoRangos.establecimiento, timbradoRangos.puntoExpedicion);
+    return result as TimbradoRango[];
+  }
+
+  async createTimbradoRango(rango: InsertTimbradoRango): Promise<TimbradoRango> {
+    const [newRango] = await this.db.insert(timbradoRangos).values({
+      timbradoId: rango.timbradoId,
+      establecimiento: rango.establecimiento,
+      puntoExpedicion: rango.puntoExpedicion,
+      numeroInicial: rango.numeroInicial,
+      numeroFinal: rango.numeroFinal
+    }).returning();
+
+    return newRango as TimbradoRango;
+  }
+
+  async deleteTimbradoRangos(timbradoId: string): Promise<boolean> {
+    await this.db.delete(timbradoRangos).where(eq(timbradoRangos.timbradoId, timbradoId));
+    return true;
+  }
+
+  // ============================
+  // DOCUMENT SEQUENCES
+  // ============================
+
+  // Single upsert statement: the row lock serializes concurrent reservations of the same sequence
+  async reserveDocumentNumber(key: DocumentSequenceKey, minimo: number): Promise<number> {
+    const [sequence] = await this.db.insert(documentSequences).values({
+      tipoDocumento: key.tipoDocumento,
+      timbrado: key.timbrado,
+      establecimiento: key.establecimiento,
+      puntoExpedicion: key.puntoExpedicion,
+      ultimoNumero: minimo
+    }).onConflictDoUpdate({
+      target: [
+        documentSequences.tipoDocumento,
+        documentSequences.timbrado,
+        documentSequences.establecimiento,
+        documentSequences.puntoExpedicion
+      ],
+      set: {
+        ultimoNumero: sql`greatest(${documentSequences.ultimoNumero} + 1, ${minimo})`,
+        updatedAt: new Date()
+      }
+    }).returning();
+
+    return sequence.ultimoNumero;
+  }
+
+  async getDocumentSequences(): Promise<DocumentSequence[]> {
+    const result = await this.db.select().from(documentSequences);
+    return result as DocumentSequence[];
   }
 
   // ============================
@@ -426,6 +752,57 @@ export class PostgresStorage implements IStorage {
     return true;
   }
 
+  // ============================
+  // RUC PADRÓN
+  // ============================
+
+  async getPadronRuc(ruc: string): Promise<PadronRuc | undefined> {
+    const result = await this.db.select().from(padronRuc).where(eq(padronRuc.ruc, ruc)).limit(1);
+    return result[0] as PadronRuc | undefined;
+  }
+
+  // Rows whose data did not change are left untouched, so only new and updated rows are returned
+  async upsertPadronRuc(registros: InsertPadronRuc[]): Promise<PadronRucCambios> {
+    const cambios: PadronRucCambios = { nuevos: 0, actualizados: 0, sinCambios: 0 };
+    const LOTE = 1000;
+
+    for (let i = 0; i < registros.length; i += LOTE) {
+      const lote = registros.slice(i, i + LOTE);
+      const result = await this.db.insert(padronRuc).values(lote.map(registro => ({
+        ruc: registro.ruc,
+        dv: registro.dv,
+        razonSocial: registro.razonSocial,
+        rucAnterior: registro.rucAnterior || null,
+        estado: registro.estado
+      }))).onConflictDoUpdate({
+        target: padronRuc.ruc,
+        set: {
+          dv: sql`excluded.dv`,
+          razonSocial: sql`excluded.razon_social`,
+          rucAnterior: sql`excluded.ruc_anterior`,
+          estado: sql`excluded.estado`,
+          updatedAt: new Date()
+        },
+        setWhere: sql`(${padronRuc.dv}, ${padronRuc.razonSocial}, ${padronRuc.rucAnterior}, ${padronRuc.estado})
+          is distinct from (excluded.dv, excluded.razon_social, excluded.ruc_anterior, excluded.estado)`
+      }).returning({ ruc: padronRuc.ruc, nuevo: sql<boolean>`xmax = 0` });
+
+      const nuevos = result.filter(row => row.nuevo).length;
+      cambios.nuevos += nuevos;
+      cambios.actualizados += result.length - nuevos;
+      cambios.sinCambios += lote.length - result.length;
+    }
+    return cambios;
+  }
+
+  async getPadronRucEstado(): Promise<{ cantidad: number; actualizado: Date | null }> {
+    const [result] = await this.db.select({
+      cantidad: sql<number>`count(*)::int`,
+      actualizado: sql<string | null>`max(${padronRuc.updatedAt})`
+    }).from(padronRuc);
+    return { cantidad: result?.cantidad ?? 0, actualizado: result?.actualizado ? new Date(result.actualizado) : null };
+  }
+
   // ============================
   // VEHICLES
   // ============================
@@ -500,6 +877,7 @@ export class PostgresStorage implements IStorage {
       nombre: service.nombre,
       descripcion: service.descripcion ?? null,
       precio: String(service.precio),
+      tasaIva: service.tasaIva ?? 10,
       duracionMin: service.duracionMin,
       categoria: service.categoria,
       activo: service.activo ?? true
@@ -553,6 +931,7 @@ export class PostgresStorage implements IStorage {
       nombre: combo.nombre,
       descripcion: combo.descripcion ?? null,
       precioTotal: String(combo.precioTotal),
+      tasaIva: combo.tasaIva ?? 10,
       activo: combo.activo ?? true
     }).returning();
     
@@ -822,6 +1201,7 @@ export class PostgresStorage implements IStorage {
       nombre: item.nombre,
       descripcion: item.descripcion ?? null,
       precio: String(item.precio),
+      tasaIva: item.tasaIva ?? 10,
       stockActual: item.stockActual,
       stockMinimo: item.stockMinimo,
       unidadMedida: item.unidadMedida ?? "unidad",
@@ -843,13 +1223,7 @@ export class PostgresStorage implements IStorage {
     
     // Update alert status based on stock
     if (item.stockActual !== undefined && item.stockMinimo !== undefined) {
-      if (item.stockActual === 0) {
-        updateData.estadoAlerta = "critico";
-      } else if (item.stockActual <= item.stockMinimo) {
-        updateData.estadoAlerta = "bajo";
-      } else {
-        updateData.estadoAlerta = "normal";
-      }
+      updateData.estadoAlerta = estadoAlertaStock(item.stockActual, item.stockMinimo);
     }
     
     const [updated] = await this.db.update(inventoryItems)
@@ -869,17 +1243,10 @@ export class PostgresStorage implements IStorage {
     const item = await this.getInventoryItem(id);
     if (!item) return undefined;
     
-    let estadoAlerta: "normal" | "bajo" | "critico" = "normal";
-    if (newStock === 0) {
-      estadoAlerta = "critico";
-    } else if (newStock <= item.stockMinimo) {
-      estadoAlerta = "bajo";
-    }
-    
     const [updated] = await this.db.update(inventoryItems)
       .set({ 
         stockActual: newStock,
-        estadoAlerta,
+        estadoAlerta: estadoAlertaStock(newStock, item.stockMinimo),
         updatedAt: new Date()
       })
       .where(eq(inventoryItems.id, id))
@@ -888,6 +1255,69 @@ export class PostgresStorage implements IStorage {
     return updated as InventoryItem | undefined;
   }
 
+  async adjustInventoryStock(id: string, delta: number, allowNegative: boolean): Promise<InventoryItem | undefined> {
+    // Conditional update in one statement, so concurrent sales cannot take the same units
+    const [adjusted] = await this.db.update(inventoryItems)
+      .set({
+        stockActual: sql`${inventoryItems.stockActual} + ${delta}`,
+        updatedAt: new Date()
+      })
+      .where(delta < 0 && !allowNegative
+        ? and(eq(inventoryItems.id, id), gte(inventoryItems.stockActual, -delta))
+        : eq(inventoryItems.id, id))
+      .returning();
+    if (!adjusted) return undefined;
+
+    const [updated] = await this.db.update(inventoryItems)
+      .set({ estadoAlerta: estadoAlertaStock(adjusted.stockActual, adjusted.stockMinimo) })
+      .where(eq(inventoryItems.id, id))
+      .returning();
+
+    return updated as InventoryItem | undefined;
+  }
+
+  // ============================
+  // STOCK MOVEMENTS
+  // ============================
+
+  async getMovimientosStock(inventoryItemId: string): Promise<MovimientoStock[]> {
+    const result = await this.db.select().from(movimientosStock)
+      .where(eq(movimientosStock.inventoryItemId, inventoryItemId))
+      .orderBy(movimientosStock.fecha);
+    return result as MovimientoStock[];
+  }
+
+  async createMovimientoStock(movimiento: InsertMovimientoStock): Promise<MovimientoStock> {
+    const [newMovimiento] = await this.db.insert(movimientosStock).values({
+      inventoryItemId: movimiento.inventoryItemId,
+      tipo: movimiento.tipo,
+      cantidad: movimiento.cantidad,
+      motivo: movimiento.motivo ?? null,
+      referencia: movimiento.referencia ?? null,
+      saleId: movimiento.saleId ?? null,
+      userId: movimiento.userId ?? null,
+      fecha: movimiento.fecha ?? new Date()
+    }).returning();
+
+    return newMovimiento as MovimientoStock;
+  }
+
+  async openMovimientosStock(inventoryItemId: string, userId: string | null): Promise<void> {
+    const [movimiento] = await this.db.select({ id: movimientosStock.id }).from(movimientosStock)
+      .where(eq(movimientosStock.inventoryItemId, inventoryItemId))
+      .limit(1);
+    const item = await this.getInventoryItem(inventoryItemId);
+    if (movimiento || !item) return;
+
+    // The unique index on inicial movements keeps concurrent sales from opening the ledger twice
+    await this.db.insert(movimientosStock).values({
+      inventoryItemId,
+      tipo: "inicial",
+      cantidad: item.stockActual,
+      userId
+    }).onConflictDoNothing();
+  }
+
   // ============================
   // SALES
   // ============================
@@ -897,6 +1327,11 @@ export class PostgresStorage implements IStorage {
     return result[0] as Sale | undefined;
   }
 
+  async getSaleByCdc(cdc: string): Promise<Sale | undefined> {
+    const result = await this.db.select().from(sales).where(eq(sales.cdc, cdc)).limit(1);
+    return result[0] as Sale | undefined;
+  }
+
   async getSales(): Promise<Sale[]> {
     const result = await this.db.select().from(sales).orderBy(desc(sales.fecha));
     return result as Sale[];
@@ -916,6 +1351,26 @@ export class PostgresStorage implements IStorage {
     return result as Sale[];
   }
 
+  async getSalesBySifenEstado(estado: Sale["sifenEstado"]): Promise<Sale[]> {
+    const result = await this.db.select().from(sales)
+      .where(eq(sales.sifenEstado, estado))
+      .orderBy(sales.fecha);
+    return result as Sale[];
+  }
+
+  async getSalesBySifenLote(loteId: string): Promise<Sale[]> {
+    const result = await this.db.select().from(sales)
+      .where(eq(sales.sifenLoteId, loteId));
+    return result as Sale[];
+  }
+
+  async getSalesBySesionCaja(sesionId: string): Promise<Sale[]> {
+    const result = await this.db.select().from(sales)
+      .where(eq(sales.sesionCajaId, sesionId))
+      .orderBy(sales.fecha);
+    return result as Sale[];
+  }
+
   async getLastSale(): Promise<Sale | undefined> {
     const result = await this.db.select().from(sales)
       .orderBy(desc(sales.fecha))
@@ -932,9 +1387,35 @@ export class PostgresStorage implements IStorage {
       subtotal: sale.subtotal,
       impuestos: sale.impuestos ?? "0",
       total: sale.total,
+      gravadas10: sale.gravadas10 ?? "0",
+      gravadas5: sale.gravadas5 ?? "0",
+      exentas: sale.exentas ?? "0",
+      iva10: sale.iva10 ?? "0",
+      iva5: sale.iva5 ?? "0",
+      descuentoGlobal: sale.descuentoGlobal ?? "0",
+      descuentoGlobalTipo: sale.descuentoGlobalTipo ?? null,
+      descuentoGlobalValor: sale.descuentoGlobalValor ?? null,
+      motivoDescuentoGlobal: sale.motivoDescuentoGlobal ?? null,
+      descuentoTotal: sale.descuentoTotal ?? "0",
+      descuentoAutorizadoPor: sale.descuentoAutorizadoPor ?? null,
       medioPago: sale.medioPago,
+      condicionVenta: sale.condicionVenta ?? "contado",
+      fechaVencimiento: sale.fechaVencimiento ?? null,
+      moneda: sale.moneda ?? "PYG",
+      tipoCambio: sale.tipoCambio ?? null,
+      totalMoneda: sale.totalMoneda ?? null,
       regimenTurismo: sale.regimenTurismo ?? false,
+      sesionCajaId: sale.sesionCajaId ?? null,
       timbradoUsado: sale.timbradoUsado,
+      cdc: sale.cdc ?? null,
+      sifenEstado: sale.sifenEstado ?? "pendiente",
+      sifenLoteId: sale.sifenLoteId ?? null,
+      sifenProtocolo: sale.sifenProtocolo ?? null,
+      sifenMensajes: sale.sifenMensajes ?? null,
+      anulada: sale.anulada ?? false,
+      motivoAnulacion: sale.motivoAnulacion ?? null,
+      fechaAnulacion: sale.fechaAnulacion ?? null,
+      anuladaPor: sale.anuladaPor ?? null,
       createdBy: sale.createdBy ?? null
     }).returning();
     
@@ -951,8 +1432,9 @@ export class PostgresStorage implements IStorage {
   }
 
   async deleteSale(id: string): Promise<boolean> {
-    // Delete sale items first
+    // Delete sale items and payments first
     await this.db.delete(saleItems).where(eq(saleItems.saleId, id));
+    await this.db.delete(salePagos).where(eq(salePagos.saleId, id));
     // Then delete the sale
     await this.db.delete(sales).where(eq(sales.id, id));
     return true;
@@ -977,57 +1459,525 @@ export class PostgresStorage implements IStorage {
       nombre: item.nombre,
       cantidad: item.cantidad,
       precioUnitario: item.precioUnitario,
-      subtotal: item.subtotal
+      subtotal: item.subtotal,
+      tasaIva: item.tasaIva ?? 10,
+      descuento: item.descuento ?? "0",
+      descuentoTipo: item.descuentoTipo ?? null,
+      descuentoValor: item.descuentoValor ?? null,
+      motivoDescuento: item.motivoDescuento ?? null,
+      descuentoGlobal: item.descuentoGlobal ?? "0"
     }).returning();
     
-    // Update inventory stock if it's an inventory item
-    if (item.inventoryItemId) {
-      const inventoryItem = await this.getInventoryItem(item.inventoryItemId);
-      if (inventoryItem) {
-        await this.updateInventoryStock(
-          item.inventoryItemId,
-          inventoryItem.stockActual - item.cantidad
-        );
-      }
-    }
-    
     return newItem as SaleItem;
   }
 
   async deleteSaleItem(id: string): Promise<boolean> {
-    // Get the item first to restore inventory if needed
-    const [item] = await this.db.select().from(saleItems).where(eq(saleItems.id, id));
-    
-    if (item && item.inventoryItemId) {
-      const inventoryItem = await this.getInventoryItem(item.inventoryItemId);
-      if (inventoryItem) {
-        await this.updateInventoryStock(
-          item.inventoryItemId,
-          inventoryItem.stockActual + item.cantidad
-        );
-      }
-    }
-    
     await this.db.delete(saleItems).where(eq(saleItems.id, id));
     return true;
   }
 
   async deleteSaleItemsBySale(saleId: string): Promise<void> {
-    // Get all items first to restore inventory
-    const items = await this.getSaleItems(saleId);
-    
-    for (const item of items) {
-      if (item.inventoryItemId) {
-        const inventoryItem = await this.getInventoryItem(item.inventoryItemId);
-        if (inventoryItem) {
-          await this.updateInventoryStock(
-            item.inventoryItemId,
-            inventoryItem.stockActual + item.cantidad
-          );
-        }
-      }
-    }
-    
     await this.db.delete(saleItems).where(eq(saleItems.saleId, saleId));
   }
+
+  // ============================
+  // SALE PAYMENTS
+  // ============================
+
+  async getSalePagos(saleId: string): Promise<SalePago[]> {
+    const result = await this.db.select().from(salePagos)
+      .where(eq(salePagos.saleId, saleId));
+    return result as SalePago[];
+  }
+
+  async createSalePago(pago: InsertSalePago): Promise<SalePago> {
+    const [newPago] = await this.db.insert(salePagos).values({
+      saleId: pago.saleId,
+      medioPago: pago.medioPago,
+      monto: pago.monto,
+      vuelto: pago.vuelto ?? "0",
+      marcaTarjeta: pago.marcaTarjeta ?? null,
+      ultimos4: pago.ultimos4 ?? null,
+      referencia: pago.referencia ?? null
+    }).returning();
+    return newPago as SalePago;
+  }
+
+  async deleteSalePagosBySale(saleId: string): Promise<void> {
+    await this.db.delete(salePagos).where(eq(salePagos.saleId, saleId));
+  }
+
+  // ============================
+  // SIFEN LOTES
+  // ============================
+
+  async getSifenLote(id: string): Promise<SifenLote | undefined> {
+    const result = await this.db.select().from(sifenLotes).where(eq(sifenLotes.id, id)).limit(1);
+    return result[0] as SifenLote | undefined;
+  }
+
+  async getSifenLotes(): Promise<SifenLote[]> {
+    const result = await this.db.select().from(sifenLotes).orderBy(desc(sifenLotes.createdAt));
+    return result as SifenLote[];
+  }
+
+  async getSifenLotesByEstado(estado: SifenLote["estado"]): Promise<SifenLote[]> {
+    const result = await this.db.select().from(sifenLotes)
+      .where(eq(sifenLotes.estado, estado))
+      .orderBy(sifenLotes.proximoIntento);
+    return result as SifenLote[];
+  }
+
+  async createSifenLote(lote: InsertSifenLote): Promise<SifenLote> {
+    const [newLote] = await this.db.insert(sifenLotes).values({
+      protocolo: lote.protocolo ?? null,
+      estado: lote.estado ?? "pendiente",
+      cantidadDocumentos: lote.cantidadDocumentos ?? 0,
+      intentos: lote.intentos ?? 0,
+      proximoIntento: lote.proximoIntento ?? new Date(),
+      ultimoError: lote.ultimoError ?? null
+    }).returning();
+
+    return newLote as SifenLote;
+  }
+
+  async updateSifenLote(id: string, lote: Partial<InsertSifenLote>): Promise<SifenLote | undefined> {
+    const [updated] = await this.db.update(sifenLotes)
+      .set({ ...lote, updatedAt: new Date() })
+      .where(eq(sifenLotes.id, id))
+      .returning();
+
+    return updated as SifenLote | undefined;
+  }
+
+  // ============================
+  // SIFEN EVENTS
+  // ============================
+
+  async getSifenEvento(id: string): Promise<SifenEvento | undefined> {
+    const result = await this.db.select().from(sifenEventos).where(eq(sifenEventos.id, id)).limit(1);
+    return result[0] as SifenEvento | undefined;
+  }
+
+  async getSifenEventos(): Promise<SifenEvento[]> {
+    const result = await this.db.select().from(sifenEventos).orderBy(desc(sifenEventos.createdAt));
+    return result as SifenEvento[];
+  }
+
+  async getSifenEventosByEstado(estado: SifenEvento["estado"]): Promise<SifenEvento[]> {
+    const result = await this.db.select().from(sifenEventos)
+      .where(eq(sifenEventos.estado, estado))
+      .orderBy(sifenEventos.proximoIntento);
+    return result as SifenEvento[];
+  }
+
+  async createSifenEvento(evento: InsertSifenEvento): Promise<SifenEvento> {
+    const [newEvento] = await this.db.insert(sifenEventos).values({
+      tipo: evento.tipo,
+      saleId: evento.saleId ?? null,
+      cdc: evento.cdc ?? null,
+      timbrado: evento.timbrado ?? null,
+      establecimiento: evento.establecimiento ?? null,
+      puntoExpedicion: evento.puntoExpedicion ?? null,
+      tipoDocumento: evento.tipoDocumento ?? 1,
+      numeroDesde: evento.numeroDesde ?? null,
+      numeroHasta: evento.numeroHasta ?? null,
+      motivo: evento.motivo,
+      estado: evento.estado ?? "pendiente",
+      protocolo: evento.protocolo ?? null,
+      mensajes: evento.mensajes ?? null,
+      intentos: evento.intentos ?? 0,
+      proximoIntento: evento.proximoIntento ?? new Date(),
+      ultimoError: evento.ultimoError ?? null,
+      createdBy: evento.createdBy ?? null
+    }).returning();
+
+    return newEvento as SifenEvento;
+  }
+
+  async updateSifenEvento(id: string, evento: Partial<InsertSifenEvento>): Promise<SifenEvento | undefined> {
+    const [updated] = await this.db.update(sifenEventos)
+      .set({ ...evento, updatedAt: new Date() })
+      .where(eq(sifenEventos.id, id))
+      .returning();
+
+    return updated as SifenEvento | undefined;
+  }
+  // ============================
+  // CREDIT NOTES
+  // ============================
+
+  async getNotaCredito(id: string): Promise<NotaCredito | undefined> {
+    const result = await this.db.select().from(notasCredito).where(eq(notasCredito.id, id)).limit(1);
+    return result[0] as NotaCredito | undefined;
+  }
+
+  async getNotaCreditoByCdc(cdc: string): Promise<NotaCredito | undefined> {
+    const result = await this.db.select().from(notasCredito).where(eq(notasCredito.cdc, cdc)).limit(1);
+    return result[0] as NotaCredito | undefined;
+  }
+
+  async getNotasCredito(): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito).orderBy(desc(notasCredito.fecha));
+    return result as NotaCredito[];
+  }
+
+  async getNotasCreditoBySale(saleId: string): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito)
+      .where(eq(notasCredito.saleId, saleId))
+      .orderBy(desc(notasCredito.fecha));
+    return result as NotaCredito[];
+  }
+
+  async getNotasCreditoBySesionCaja(sesionId: string): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito)
+      .where(eq(notasCredito.sesionCajaId, sesionId))
+      .orderBy(notasCredito.fecha);
+    return result as NotaCredito[];
+  }
+
+  async getNotasCreditoByDateRange(startDate: Date, endDate: Date): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito)
+      .where(between(notasCredito.fecha, startDate, endDate))
+      .orderBy(desc(notasCredito.fecha));
+    return result as NotaCredito[];
+  }
+
+  async getNotasCreditoBySifenEstado(estado: NotaCredito["sifenEstado"]): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito)
+      .where(eq(notasCredito.sifenEstado, estado))
+      .orderBy(notasCredito.fecha);
+    return result as NotaCredito[];
+  }
+
+  async getNotasCreditoBySifenLote(loteId: string): Promise<NotaCredito[]> {
+    const result = await this.db.select().from(notasCredito)
+      .where(eq(notasCredito.sifenLoteId, loteId));
+    return result as NotaCredito[];
+  }
+
+  async getLastNotaCredito(): Promise<NotaCredito | undefined> {
+    const result = await this.db.select().from(notasCredito)
+      .orderBy(desc(notasCredito.createdAt))
+      .limit(1);
+    return result[0] as NotaCredito | undefined;
+  }
+
+  async createNotaCredito(nota: InsertNotaCredito): Promise<NotaCredito> {
+    const [newNota] = await this.db.insert(notasCredito).values({
+      numero: nota.numero,
+      saleId: nota.saleId,
+      customerId: nota.customerId ?? null,
+      fecha: nota.fecha ?? new Date(),
+      motivo: nota.motivo,
+      descripcion: nota.descripcion,
+      subtotal: nota.subtotal,
+      impuestos: nota.impuestos ?? "0",
+      total: nota.total,
+      timbradoUsado: nota.timbradoUsado,
+      cdc: nota.cdc ?? null,
+      sifenEstado: nota.sifenEstado ?? "pendiente",
+      sifenLoteId: nota.sifenLoteId ?? null,
+      sifenProtocolo: nota.sifenProtocolo ?? null,
+      sifenMensajes: nota.sifenMensajes ?? null,
+      reembolsoEfectivo: nota.reembolsoEfectivo ?? "0",
+      sesionCajaId: nota.sesionCajaId ?? null,
+      createdBy: nota.createdBy ?? null
+    }).returning();
+
+    return newNota as NotaCredito;
+  }
+
+  async updateNotaCredito(id: string, nota: Partial<InsertNotaCredito>): Promise<NotaCredito | undefined> {
+    const [updated] = await this.db.update(notasCredito)
+      .set({ ...nota, updatedAt: new Date() })
+      .where(eq(notasCredito.id, id))
+      .returning();
+
+    return updated as NotaCredito | undefined;
+  }
+
+  // ============================
+  // CREDIT NOTE ITEMS
+  // ============================
+
+  async getNotaCreditoItems(notaCreditoId: string): Promise<NotaCreditoItem[]> {
+    const result = await this.db.select().from(notaCreditoItems)
+      .where(eq(notaCreditoItems.notaCreditoId, notaCreditoId));
+    return result as NotaCreditoItem[];
+  }
+
+  async createNotaCreditoItem(item: InsertNotaCreditoItem): Promise<NotaCreditoItem> {
+    const [newItem] = await this.db.insert(notaCreditoItems).values({
+      notaCreditoId: item.notaCreditoId,
+      saleItemId: item.saleItemId ?? null,
+      nombre: item.nombre,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      subtotal: item.subtotal,
+      tasaIva: item.tasaIva ?? 10
+    }).returning();
+
+    return newItem as NotaCreditoItem;
+  }
+
+  // ============================
+  // DEBIT NOTES
+  // ============================
+
+  async getNotaDebito(id: string): Promise<NotaDebito | undefined> {
+    const result = await this.db.select().from(notasDebito).where(eq(notasDebito.id, id)).limit(1);
+    return result[0] as NotaDebito | undefined;
+  }
+
+  async getNotaDebitoByCdc(cdc: string): Promise<NotaDebito | undefined> {
+    const result = await this.db.select().from(notasDebito).where(eq(notasDebito.cdc, cdc)).limit(1);
+    return result[0] as NotaDebito | undefined;
+  }
+
+  async getNotasDebito(): Promise<NotaDebito[]> {
+    const result = await this.db.select().from(notasDebito).orderBy(desc(notasDebito.fecha));
+    return result as NotaDebito[];
+  }
+
+  async getNotasDebitoBySale(saleId: string): Promise<NotaDebito[]> {
+    const result = await this.db.select().from(notasDebito)
+      .where(eq(notasDebito.saleId, saleId))
+      .orderBy(desc(notasDebito.fecha));
+    return result as NotaDebito[];
+  }
+
+  async getNotasDebitoByDateRange(startDate: Date, endDate: Date): Promise<NotaDebito[]> {
+    const result = await this.db.select().from(notasDebito)
+      .where(between(notasDebito.fecha, startDate, endDate))
+      .orderBy(desc(notasDebito.fecha));
+    return result as NotaDebito[];
+  }
+
+  async getNotasDebitoBySifenEstado(estado: NotaDebito["sifenEstado"]): Promise<NotaDebito[]> {
+    const result = await this.db.select().from(notasDebito)
+      .where(eq(notasDebito.sifenEstado, estado))
+      .orderBy(notasDebito.fecha);
+    return result as NotaDebito[];
+  }
+
+  async getNotasDebitoBySifenLote(loteId: string): Promise<NotaDebito[]> {
+    const result = await this.db.select().from(notasDebito)
+      .where(eq(notasDebito.sifenLoteId, loteId));
+    return result as NotaDebito[];
+  }
+
+  async getLastNotaDebito(): Promise<NotaDebito | undefined> {
+    const result = await this.db.select().from(notasDebito)
+      .orderBy(desc(notasDebito.createdAt))
+      .limit(1);
+    return result[0] as NotaDebito | undefined;
+  }
+
+  async createNotaDebito(nota: InsertNotaDebito): Promise<NotaDebito> {
+    const [newNota] = await this.db.insert(notasDebito).values({
+      numero: nota.numero,
+      saleId: nota.saleId,
+      customerId: nota.customerId ?? null,
+      fecha: nota.fecha ?? new Date(),
+      motivo: nota.motivo,
+      descripcion: nota.descripcion,
+      subtotal: nota.subtotal,
+      impuestos: nota.impuestos ?? "0",
+      total: nota.total,
+      timbradoUsado: nota.timbradoUsado,
+      cdc: nota.cdc ?? null,
+      sifenEstado: nota.sifenEstado ?? "pendiente",
+      sifenLoteId: nota.sifenLoteId ?? null,
+      sifenProtocolo: nota.sifenProtocolo ?? null,
+      sifenMensajes: nota.sifenMensajes ?? null,
+      createdBy: nota.createdBy ?? null
+    }).returning();
+
+    return newNota as NotaDebito;
+  }
+
+  async updateNotaDebito(id: string, nota: Partial<InsertNotaDebito>): Promise<NotaDebito | undefined> {
+    const [updated] = await this.db.update(notasDebito)
+      .set({ ...nota, updatedAt: new Date() })
+      .where(eq(notasDebito.id, id))
+      .returning();
+
+    return updated as NotaDebito | undefined;
+  }
+
+  // ============================
+  // DEBIT NOTE ITEMS
+  // ============================
+
+  async getNotaDebitoItems(notaDebitoId: string): Promise<NotaDebitoItem[]> {
+    const result = await this.db.select().from(notaDebitoItems)
+      .where(eq(notaDebitoItems.notaDebitoId, notaDebitoId));
+    return result as NotaDebitoItem[];
+  }
+
+  async createNotaDebitoItem(item: InsertNotaDebitoItem): Promise<NotaDebitoItem> {
+    const [newItem] = await this.db.insert(notaDebitoItems).values({
+      notaDebitoId: item.notaDebitoId,
+      serviceId: item.serviceId ?? null,
+      nombre: item.nombre,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      subtotal: item.subtotal,
+      tasaIva: item.tasaIva ?? 10
+    }).returning();
+
+    return newItem as NotaDebitoItem;
+  }
+
+  // ============================
+  // RECEIPTS
+  // ============================
+
+  async getRecibo(id: string): Promise<Recibo | undefined> {
+    const result = await this.db.select().from(recibos).where(eq(recibos.id, id));
+    return result[0] as Recibo | undefined;
+  }
+
+  async getRecibos(): Promise<Recibo[]> {
+    const result = await this.db.select().from(recibos).orderBy(desc(recibos.fecha));
+    return result as Recibo[];
+  }
+
+  async getRecibosByCustomer(customerId: string): Promise<Recibo[]> {
+    const result = await this.db.select().from(recibos)
+      .where(eq(recibos.customerId, customerId))
+      .orderBy(desc(recibos.fecha));
+    return result as Recibo[];
+  }
+
+  async getRecibosBySesionCaja(sesionId: string): Promise<Recibo[]> {
+    const result = await this.db.select().from(recibos)
+      .where(eq(recibos.sesionCajaId, sesionId))
+      .orderBy(recibos.fecha);
+    return result as Recibo[];
+  }
+
+  async createRecibo(recibo: InsertRecibo): Promise<Recibo> {
+    // Numbered in the same statement; the unique index rejects a concurrent duplicate
+    const [newRecibo] = await this.db.insert(recibos).values({
+      numero: sql`(select coalesce(max(${recibos.numero}), 0) + 1 from ${recibos})`,
+      customerId: recibo.customerId,
+      fecha: recibo.fecha ?? new Date(),
+      monto: recibo.monto,
+      medioPago: recibo.medioPago,
+      referencia: recibo.referencia ?? null,
+      observaciones: recibo.observaciones ?? null,
+      sesionCajaId: recibo.sesionCajaId ?? null,
+      createdBy: recibo.createdBy ?? null
+    }).returning();
+
+    return newRecibo as Recibo;
+  }
+
+  // ============================
+  // RECEIPT ALLOCATIONS
+  // ============================
+
+  async getReciboAplicaciones(reciboId: string): Promise<ReciboAplicacion[]> {
+    const result = await this.db.select().from(reciboAplicaciones)
+      .where(eq(reciboAplicaciones.reciboId, reciboId));
+    return result as ReciboAplicacion[];
+  }
+
+  async getReciboAplicacionesBySale(saleId: string): Promise<ReciboAplicacion[]> {
+    const result = await this.db.select().from(reciboAplicaciones)
+      .where(eq(reciboAplicaciones.saleId, saleId));
+    return result as ReciboAplicacion[];
+  }
+
+  async createReciboAplicacion(aplicacion: InsertReciboAplicacion): Promise<ReciboAplicacion> {
+    const [newAplicacion] = await this.db.insert(reciboAplicaciones).values({
+      reciboId: aplicacion.reciboId,
+      saleId: aplicacion.saleId,
+      monto: aplicacion.monto
+    }).returning();
+
+    return newAplicacion as ReciboAplicacion;
+  }
+
+  // ============================
+  // CASH SESSIONS
+  // ============================
+
+  async getSesionCaja(id: string): Promise<SesionCaja | undefined> {
+    const result = await this.db.select().from(sesionesCaja).where(eq(sesionesCaja.id, id));
+    return result[0] as SesionCaja | undefined;
+  }
+
+  async getSesionesCaja(): Promise<SesionCaja[]> {
+    const result = await this.db.select().from(sesionesCaja).orderBy(desc(sesionesCaja.fechaApertura));
+    return result as SesionCaja[];
+  }
+
+  async createSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja> {
+    const [newSesion] = await this.db.insert(sesionesCaja).values({
+      userId: sesion.userId,
+      puntoExpedicionId: sesion.puntoExpedicionId,
+      estado: sesion.estado ?? "abierta",
+      montoInicial: sesion.montoInicial,
+      fechaApertura: sesion.fechaApertura ?? new Date(),
+      fechaCierre: sesion.fechaCierre ?? null,
+      efectivoEsperado: sesion.efectivoEsperado ?? null,
+      efectivoContado: sesion.efectivoContado ?? null,
+      diferencia: sesion.diferencia ?? null,
+      conteo: sesion.conteo ?? null,
+      observaciones: sesion.observaciones ?? null,
+      cerradaPor: sesion.cerradaPor ?? null
+    }).returning();
+
+    return newSesion as SesionCaja;
+  }
+
+  async openSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja | undefined> {
+    // The unique index on open sessions keeps concurrent openings from sharing a punto
+    const [newSesion] = await this.db.insert(sesionesCaja).values({
+      userId: sesion.userId,
+      puntoExpedicionId: sesion.puntoExpedicionId,
+      estado: "abierta",
+      montoInicial: sesion.montoInicial,
+      fechaApertura: sesion.fechaApertura ?? new Date(),
+      observaciones: sesion.observaciones ?? null
+    }).onConflictDoNothing().returning();
+
+    return newSesion as SesionCaja | undefined;
+  }
+
+  async updateSesionCaja(id: string, sesion: Partial<InsertSesionCaja>): Promise<SesionCaja | undefined> {
+    const [updated] = await this.db.update(sesionesCaja)
+      .set(sesion)
+      .where(eq(sesionesCaja.id, id))
+      .returning();
+
+    return updated as SesionCaja | undefined;
+  }
+
+  // ============================
+  // CASH MOVEMENTS
+  // ============================
+
+  async getMovimientosCaja(sesionId: string): Promise<MovimientoCaja[]> {
+    const result = await this.db.select().from(movimientosCaja)
+      .where(eq(movimientosCaja.sesionId, sesionId))
+      .orderBy(movimientosCaja.fecha);
+    return result as MovimientoCaja[];
+  }
+
+  async createMovimientoCaja(movimiento: InsertMovimientoCaja): Promise<MovimientoCaja> {
+    const [newMovimiento] = await this.db.insert(movimientosCaja).values({
+      sesionId: movimiento.sesionId,
+      tipo: movimiento.tipo,
+      monto: movimiento.monto,
+      concepto: movimiento.concepto,
+      userId: movimiento.userId ?? null,
+      fecha: movimiento.fecha ?? new Date()
+    }).returning();
+
+    return newMovimiento as MovimientoCaja;
+  }
 }
\ No newline at end of file
@@ -0,0 +1,187 @@
+import type { Sale, NotaCredito, NotaDebito } from "@shared/schema";
+import { storage } from "./storage";
+import { PagoService, type ResumenMedioPago } from "./pagos";
+
+/**
+ * Sales report aggregation
+ * Credit notes are subtracted from and debit notes added to invoiced amounts in the period
+ * they were issued, the same way they are declared in the IVA return. Cancelled invoices are excluded.
+ * Every amount is in guaraníes: sales in a foreign currency count at their invoiced guaraní total.
+ */
+
+export type ReportPeriod = "day" | "week" | "month" | "quarter" | "year" | "custom";
+
+export interface IvaTotales {
+  subtotal: number; // Net of IVA
+  iva: number;
+  total: number;
+}
+
+export interface SalesReportDay {
+  date: string; // Local midnight of the day, ISO format
+  amount: number; // Invoiced minus credited plus debited
+  orders: number; // Invoices issued that day
+  invoiced: number;
+  credited: number;
+  debited: number;
+}
+
+export interface SalesReportMoneda {
+  moneda: string;
+  cantidad: number;
+  totalMoneda: number; // In the foreign currency
+  totalGs: number; // Invoiced guaraní total of the same sales
+}
+
+export interface SalesReport {
+  period: ReportPeriod;
+  desde: string;
+  hasta: string;
+  daily: SalesReportDay[];
+  iva: {
+    facturas: IvaTotales;
+    notasCredito: IvaTotales;
+    notasDebito: IvaTotales;
+    neto: IvaTotales;
+  };
+  monedas: SalesReportMoneda[]; // Sales priced or paid in a foreign currency
+  mediosPago: ResumenMedioPago[]; // Cash sales per payment method, split payments counted in each
+  ventasCredito: { cantidad: number; total: number }; // Collected later with receipts
+  cantidadFacturas: number;
+  cantidadNotasCredito: number;
+  cantidadNotasDebito: number;
+}
+
+export class SalesReportService {
+  static readonly PERIODS: ReportPeriod[] = ["day", "week", "month", "quarter", "year", "custom"];
+
+  /**
+   * Date range of a report period; custom ranges come as YYYY-MM-DD strings
+   */
+  static resolvePeriod(
+    period: ReportPeriod,
+    now: Date = new Date(),
+    desde?: string,
+    hasta?: string
+  ): { start: Date; end: Date } {
+    const end = new Date(now.getFullYear(), now.getMonth(), now.getDate(), 23, 59, 59, 999);
+    const startOfDay = (date: Date) => new Date(date.getFullYear(), date.getMonth(), date.getDate());
+
+    switch (period) {
+      case "day":
+        return { start: startOfDay(now), end };
+      case "week":
+        return { start: new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6), end };
+      case "month":
+        return { start: new Date(now.getFullYear(), now.getMonth(), 1), end };
+      case "quarter":
+        return { start: new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1), end };
+      case "year":
+        return { start: new Date(now.getFullYear(), 0, 1), end };
+      case "custom": {
+        const parse = (value?: string) => {
+          const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+          return match ? new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3])) : null;
+        };
+        const start = parse(desde) ?? new Date(now.getFullYear(), now.getMonth(), now.getDate() - 6);
+        const last = parse(hasta);
+        return {
+          start,
+          end: last ? new Date(last.getFullYear(), last.getMonth(), last.getDate(), 23, 59, 59, 999) : end
+        };
+      }
+    }
+  }
+
+  static async getSalesReport(period: ReportPeriod, start: Date, end: Date): Promise<SalesReport> {
+    const sales = (await storage.getSalesByDateRange(start, end)).filter(sale => !sale.anulada);
+    const notas = await storage.getNotasCreditoByDateRange(start, end);
+    const notasDebito = await storage.getNotasDebitoByDateRange(start, end);
+
+    const days = new Map<string, SalesReportDay>();
+    const dayOf = (fecha: Date) => {
+      const date = new Date(fecha);
+      const key = new Date(date.getFullYear(), date.getMonth(), date.getDate()).toISOString();
+      let day = days.get(key);
+      if (!day) {
+        day = { date: key, amount: 0, orders: 0, invoiced: 0, credited: 0, debited: 0 };
+        days.set(key, day);
+      }
+      return day;
+    };
+
+    for (const sale of sales) {
+      const day = dayOf(sale.fecha);
+      day.orders++;
+      day.invoiced += parseFloat(sale.total);
+    }
+
+    for (const nota of notas) {
+      dayOf(nota.fecha).credited += parseFloat(nota.total);
+    }
+
+    for (const nota of notasDebito) {
+      dayOf(nota.fecha).debited += parseFloat(nota.total);
+    }
+
+    const daily = Array.from(days.values())
+      .map(day => ({ ...day, amount: day.invoiced - day.credited + day.debited }))
+      .sort((a, b) => a.date.localeCompare(b.date));
+
+    const facturas = this.sumIva(sales);
+    const notasCredito = this.sumIva(notas);
+    const debitos = this.sumIva(notasDebito);
+
+    const monedas = new Map<string, SalesReportMoneda>();
+    for (const sale of sales) {
+      if (!sale.moneda || sale.moneda === "PYG" || !sale.totalMoneda) continue;
+      const moneda = monedas.get(sale.moneda) ?? { moneda: sale.moneda, cantidad: 0, totalMoneda: 0, totalGs: 0 };
+      moneda.cantidad++;
+      moneda.totalMoneda += parseFloat(sale.totalMoneda);
+      moneda.totalGs += parseFloat(sale.total);
+      monedas.set(sale.moneda, moneda);
+    }
+
+    const ventasCredito = sales.filter(sale => sale.condicionVenta === "credito");
+    const mediosPago = await PagoService.resumenPorMedio(sales);
+
+    return {
+      period,
+      desde: start.toISOString(),
+      hasta: end.toISOString(),
+      daily,
+      iva: {
+        facturas,
+        notasCredito,
+        notasDebito: debitos,
+        neto: {
+          subtotal: facturas.subtotal - notasCredito.subtotal + debitos.subtotal,
+          iva: facturas.iva - notasCredito.iva + debitos.iva,
+          total: facturas.total - notasCredito.total + debitos.total
+        }
+      },
+      monedas: Array.from(monedas.values())
+        .map(moneda => ({ ...moneda, totalMoneda: Math.round(moneda.totalMoneda * 100) / 100 }))
+        .sort((a, b) => a.moneda.localeCompare(b.moneda)),
+      mediosPago,
+      ventasCredito: {
+        cantidad: ventasCredito.length,
+        total: ventasCredito.reduce((sum, sale) => sum + parseFloat(sale.total), 0)
+      },
+      cantidadFacturas: sales.length,
+      cantidadNotasCredito: notas.length,
+      cantidadNotasDebito: notasDebito.length
+    };
+  }
+
+  private static sumIva(documentos: (Sale | NotaCredito | NotaDebito)[]): IvaTotales {
+    return documentos.reduce(
+      (totales, documento) => ({
+        subtotal: totales.subtotal + parseFloat(documento.subtotal),
+        iva: totales.iva + parseFloat(documento.impuestos || "0"),
+        total: totales.total + parseFloat(documento.total)
+      }),
+      { subtotal: 0, iva: 0, total: 0 }
+    );
+  }
+}
@@ -1,4 +1,4 @@
-import type { Express } from "express";
+import express, { type Express } from "express";
 import { createServer, type Server } from "http";
 import { storage } from "./storage";
 import { 
@@ -14,16 +14,37 @@ import {
   updateUserSchema,
   loginSchema,
   changePasswordSchema,
+  pinAutorizacionSchema,
   saleWithItemsSchema,
-  frontendSaleItemSchema,
   insertWorkOrderSchema,
   insertWorkOrderItemSchema,
   insertVehicleSchema,
+  anularSaleSchema,
+  inutilizarNumeracionSchema,
+  createNotaCreditoSchema,
+  createNotaDebitoSchema,
+  createTimbradoSchema,
+  timbradoRangoSchema,
+  insertEstablecimientoSchema,
+  insertPuntoExpedicionSchema,
+  tasaIvaSchema,
+  createReciboSchema,
+  insertMonedaSchema,
+  createTipoCambioSchema,
+  insertCustomerSchema,
+  createCustomerSchema,
+  abrirSesionCajaSchema,
+  createMovimientoCajaSchema,
+  cerrarSesionCajaSchema,
+  ajusteStockSchema,
   type SafeDnitConfig,
+  type Sale,
+  type SalePago,
+  type SaleWithItemsType,
   type User,
   type PublicUser
 } from "@shared/schema";
-import { validateRUC, validateTimbradoDates, validateActiveTimbrado } from "./utils/paraguayan-validators";
+import { validateRUC, validateTimbradoDates, validateActiveTimbrado, generateCDC, regenerateCDC, validateCDC } from "./utils/paraguayan-validators";
 import type { Request, Response, NextFunction } from "express";
 import { 
   AuthMiddleware, 
@@ -36,6 +57,29 @@ import {
   enforceUsageLimit 
 } from "./usage-tracking";
 import { EncryptionService } from "./encryption";
+import { SifenXmlService } from "./sifen-xml";
+import { SifenSignatureService } from "./sifen-signature";
+import { SifenQueueService } from "./sifen-queue";
+import { KudeService } from "./kude";
+import { NotaCreditoService } from "./notas-credito";
+import { NotaDebitoService } from "./notas-debito";
+import { SalesReportService, type ReportPeriod } from "./reports";
+import { TimbradoService } from "./timbrados";
+import { EstablecimientoService } from "./establecimientos";
+import { NumeracionService } from "./numeracion";
+import { LibroVentasService } from "./libro-ventas";
+import { CuentasPorCobrarService } from "./cuentas-cobrar";
+import { MonedaService } from "./monedas";
+import { TurismoService } from "./turismo";
+import { PadronRucService } from "./padron-ruc";
+import { ClienteService } from "./clientes";
+import { PagoService } from "./pagos";
+import { CajaService, type CajaErrorCode } from "./caja";
+import { InventarioService, type InventarioErrorCode, type LineaStock } from "./inventario";
+import { DescuentoService, type DescuentoErrorCode } from "./descuentos";
+import { descuentoMaximoRol, porcentajeDescuento, type DescuentoVenta } from "@shared/descuentos";
+import { cotizarVenta, difiereDeCotizacion, type CotizacionVenta, type LineaVenta } from "@shared/precios";
+import { validarTurista, type TurismoErrorCode } from "@shared/turismo";
 
 /**
  * SECURITY: Convert User to PublicUser, excluding sensitive fields
@@ -44,6 +88,9 @@ import { EncryptionService } from "./encryption";
 function toPublicUser(user: User): PublicUser {
   const { 
     password, 
+    pinAutorizacion,
+    failedPinAttempts,
+    lastFailedPin,
     failedLoginAttempts, 
     lastFailedLogin, 
     ...publicUser 
@@ -70,6 +117,7 @@ function sessionUserToPublicUser(sessionUser: SessionUser): PublicUser {
     expirationDate: sessionUser.expirationDate ? sessionUser.expirationDate : null,
     usageResetDate: new Date(), // Default value since SessionUser doesn't have this
     lastLogin: null, // SessionUser doesn't have this
+    puntoExpedicionId: null, // SessionUser doesn't have this
     createdAt: new Date(), // Default value since SessionUser doesn't have this
     updatedAt: new Date(), // Default value since SessionUser doesn't have this
     createdBy: null // SessionUser doesn't have this
@@ -82,21 +130,40 @@ function sessionUserToPublicUser(sessionUser: SessionUser): PublicUser {
  */
 async function requireActiveTimbrado(req: Request, res: Response, next: NextFunction) {
   try {
-    const config = await storage.getCompanyConfig();
-    const validation = validateActiveTimbrado(config ?? null);
+    // Punto de expedición (cash register) assigned to the cashier; each punto has its own numbering
+    const sessionUser = (req as AuthenticatedRequest).session.user;
+    const user = sessionUser ? await storage.getUser(sessionUser.id) : undefined;
+    const ubicacion = await EstablecimientoService.resolverPunto(user?.puntoExpedicionId);
+    if (!ubicacion.success) {
+      return res.status(403).json({
+        error: "Operación de facturación bloqueada",
+        details: ubicacion.error,
+        code: ubicacion.code
+      });
+    }
+
+    // Picks the timbrado valid today, rolling over to the next one when it expired
+    const validation = await TimbradoService.resolverVigente(new Date(), {
+      establecimiento: ubicacion.establecimiento!.codigo,
+      puntoExpedicion: ubicacion.punto!.codigo
+    });
 
     if (!validation.isValid) {
       return res.status(403).json({
         error: "Operación de facturación bloqueada",
         details: validation.error,
-        code: "TIMBRADO_INVALID",
+        code: validation.code ?? "TIMBRADO_INVALID",
         daysLeft: validation.daysLeft
       });
     }
 
-    // Add config to request for use in routes
-    (req as any).companyConfig = config;
+    // Add config (synced with the vigente timbrado) and numbering range to request for use in routes
+    (req as any).companyConfig = validation.companyConfig;
     (req as any).timbradoStatus = validation;
+    (req as any).timbrado = validation.timbrado;
+    (req as any).timbradoRango = validation.rango;
+    (req as any).establecimiento = ubicacion.establecimiento;
+    (req as any).puntoExpedicion = ubicacion.punto;
     next();
   } catch (error) {
     console.error("Error validating timbrado:", error);
@@ -107,9 +174,12 @@ async function requireActiveTimbrado(req: Request, res: Response, next: NextFunc
   }
 }
 
+// SIFEN accepts cancellation events for approved invoices within 48 hours
+const SIFEN_CANCELLATION_HOURS = 48;
+
 /**
- * Middleware to validate sale edit/delete operations
- * Ensures only admins can edit/delete and within 24-hour window
+ * Middleware to validate sale edit operations
+ * Ensures only admins can edit, within 24-hour window, invoices not yet sent to SIFEN nor corrected with notes
  */
 async function validateSaleModification(req: AuthenticatedRequest, res: Response, next: NextFunction) {
   try {
@@ -130,6 +200,32 @@ async function validateSaleModification(req: AuthenticatedRequest, res: Response
       });
     }
 
+    if (sale.anulada) {
+      return res.status(400).json({
+        error: "Sale is cancelled",
+        details: "No se pueden modificar facturas anuladas"
+      });
+    }
+
+    // Only documents SIFEN never received can change; once sent they are corrected with notes
+    if (sale.sifenEstado !== "pendiente" || sale.sifenLoteId) {
+      return res.status(409).json({
+        error: "Document already sent to SIFEN",
+        details: "La factura ya fue enviada a SIFEN y no puede modificarse. Emita una nota de crédito o de débito.",
+        code: "SIFEN_DOCUMENT_SENT"
+      });
+    }
+
+    const notasCredito = await storage.getNotasCreditoBySale(sale.id);
+    const notasDebito = await storage.getNotasDebitoBySale(sale.id);
+    if (notasCredito.length > 0 || notasDebito.length > 0) {
+      return res.status(409).json({
+        error: "Sale has credit or debit notes",
+        details: `La factura tiene notas emitidas (${[...notasCredito, ...notasDebito].map(n => n.numero).join(', ')}) y no puede modificarse`,
+        code: "SALE_HAS_NOTES"
+      });
+    }
+
     // Check 24-hour rule for fiscal compliance
     const now = new Date();
     const saleDate = new Date(sale.createdAt);
@@ -266,6 +362,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Assigned punto de expedición must exist in the catalog
+      if (userData.puntoExpedicionId && !(await storage.getPuntoExpedicion(userData.puntoExpedicionId))) {
+        return res.status(400).json({
+          error: "Punto de expedición not found",
+          details: "El punto de expedición asignado no existe"
+        });
+      }
+
       const user = await storage.createUser(userData);
       
       res.json({
@@ -301,6 +405,14 @@ export async function registerRoutes(app: Express): Promise<Server> {
         }
       }
 
+      // Assigned punto de expedición must exist in the catalog
+      if (updates.puntoExpedicionId && !(await storage.getPuntoExpedicion(updates.puntoExpedicionId))) {
+        return res.status(400).json({
+          error: "Punto de expedición not found",
+          details: "El punto de expedición asignado no existe"
+        });
+      }
+
       const user = await storage.updateUser(req.params.id, updates);
       if (!user) {
         return res.status(404).json({ error: "User not found" });
@@ -380,6 +492,66 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
+  // Admins set their own PIN to authorize discounts beyond the cashier maximum
+  app.post("/api/users/:id/pin-autorizacion", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = pinAutorizacionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const targetUserId = req.params.id;
+      const currentUserId = req.session.user!.id;
+      if (targetUserId !== currentUserId) {
+        return res.status(403).json({
+          error: "Insufficient permissions",
+          details: "Solo puede establecer su propio PIN de autorización"
+        });
+      }
+
+      const user = await storage.getUser(currentUserId);
+      if (!user) {
+        return res.status(404).json({ error: "User not found" });
+      }
+
+      const isValidPassword = await PasswordUtils.comparePassword(validation.data.currentPassword, user.password);
+      if (!isValidPassword) {
+        return res.status(400).json({
+          error: "Invalid current password",
+          details: "La contraseña actual es incorrecta"
+        });
+      }
+
+      const result = await DescuentoService.establecerPin(currentUserId, validation.data.pin);
+      if (!result.success) {
+        return res.status(descuentoErrorStatus(result.code)).json({
+          error: "Failed to set authorization PIN",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Authorization PIN set - User: ${currentUserId}`);
+      res.json({ message: "Authorization PIN updated successfully" });
+    } catch (error) {
+      console.error("Error setting authorization PIN:", error);
+      res.status(500).json({ error: "Failed to set authorization PIN" });
+    }
+  });
+
+  // Admins a cashier can name to authorize a discount beyond the maximum of their role
+  app.get("/api/descuentos/autorizadores", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      res.json(await DescuentoService.autorizadores());
+    } catch (error) {
+      console.error("Error fetching discount authorizers:", error);
+      res.status(500).json({ error: "Failed to fetch discount authorizers" });
+    }
+  });
+
   // Usage Tracking Routes
   app.get("/api/usage/stats", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
@@ -510,6 +682,9 @@ export async function registerRoutes(app: Express): Promise<Server> {
         return res.status(500).json({ error: "Failed to save company configuration" });
       }
 
+      // Keep the timbrado registry in step with the timbrado edited here
+      await TimbradoService.registrarDesdeConfiguracion(result);
+
       res.json(result);
     } catch (error) {
       console.error("Error saving company config:", error);
@@ -518,16 +693,36 @@ export async function registerRoutes(app: Express): Promise<Server> {
   });
 
   // Timbrado validation status endpoint
-  app.get("/api/timbrado/status", AuthMiddleware.requireAuth, async (req, res) => {
+  app.get("/api/timbrado/status", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const config = await storage.getCompanyConfig();
-      const validation = validateActiveTimbrado(config ?? null);
+      // Status of the timbrado range of the punto de expedición the user invoices from
+      const user = await storage.getUser(req.session.user!.id);
+      const ubicacion = await EstablecimientoService.resolverPunto(user?.puntoExpedicionId);
+      if (!ubicacion.success) {
+        return res.json({
+          isValid: false,
+          blocksInvoicing: true,
+          error: ubicacion.error,
+          code: ubicacion.code
+        });
+      }
+
+      // Read only: an expired timbrado is rolled over when the next document is issued
+      const validation = await TimbradoService.consultarVigente(new Date(), {
+        establecimiento: ubicacion.establecimiento!.codigo,
+        puntoExpedicion: ubicacion.punto!.codigo
+      });
       
       res.json({
         isValid: validation.isValid,
         blocksInvoicing: validation.blocksInvoicing,
         daysLeft: validation.daysLeft,
-        error: validation.error
+        error: validation.error,
+        code: validation.code,
+        timbradoNumero: validation.timbrado?.numero,
+        numerosDisponibles: validation.numerosDisponibles,
+        establecimiento: ubicacion.establecimiento!.codigo,
+        puntoExpedicion: ubicacion.punto!.codigo
       });
     } catch (error) {
       console.error("Error checking timbrado status:", error);
@@ -535,50 +730,20 @@ export async function registerRoutes(app: Express): Promise<Server> {
     }
   });
 
-  // DNIT Configuration Routes
-  app.get("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  // Timbrado registry routes (admin only)
+  app.get("/api/timbrados", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const config = await storage.getDnitConfig();
-      
-      if (config) {
-        // Create safe config response without exposing sensitive data
-        const { authToken, certificatePassword, ...safeConfig } = config;
-        const safeResponse: SafeDnitConfig = {
-          ...safeConfig,
-          hasAuthToken: !!authToken && authToken.trim() !== '',
-          hasCertificatePassword: !!certificatePassword && certificatePassword.trim() !== ''
-        };
-        res.json(safeResponse);
-      } else {
-        res.json(null);
-      }
+      const timbrados = await TimbradoService.listar();
+      res.json(timbrados);
     } catch (error) {
-      console.error("Error fetching DNIT config:", error);
-      res.status(500).json({ error: "Failed to fetch DNIT configuration" });
+      console.error("Error fetching timbrados:", error);
+      res.status(500).json({ error: "Failed to fetch timbrados" });
     }
   });
 
-  app.put("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.post("/api/timbrados", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Handle placeholder values for sensitive fields
-      const processedBody = { ...req.body };
-      
-      // Replace placeholders with existing values if they exist
-      const existingConfig = await storage.getDnitConfig();
-      if (existingConfig) {
-        // If authToken is a placeholder, keep existing encrypted value
-        if (processedBody.authToken && EncryptionService.isPlaceholder(processedBody.authToken)) {
-          processedBody.authToken = existingConfig.authToken; // Already decrypted from storage
-        }
-        
-        // If certificatePassword is a placeholder, keep existing encrypted value
-        if (processedBody.certificatePassword && EncryptionService.isPlaceholder(processedBody.certificatePassword)) {
-          processedBody.certificatePassword = existingConfig.certificatePassword; // Already decrypted from storage
-        }
-      }
-
-      // Validate processed request body
-      const validation = insertDnitConfigSchema.safeParse(processedBody);
+      const validation = createTimbradoSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -586,120 +751,136 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const data = validation.data;
-      
-      let result;
-      if (existingConfig) {
-        result = await storage.updateDnitConfig(existingConfig.id, data);
-      } else {
-        result = await storage.createDnitConfig(data);
+      const result = await TimbradoService.registrar(validation.data);
+      if (!result.success) {
+        return res.status(result.code === "TIMBRADO_DUPLICATE" ? 409 : 400).json({
+          error: "Cannot register timbrado",
+          details: result.error,
+          code: result.code
+        });
       }
 
-      if (!result) {
-        return res.status(500).json({ error: "Failed to save DNIT configuration" });
-      }
+      console.log('AUDIT_LOG:', JSON.stringify({
+        action: 'TIMBRADO_REGISTERED',
+        timbradoId: result.timbrado!.id,
+        timbrado: result.timbrado!.numero,
+        estado: result.timbrado!.estado,
+        userId: req.session.user!.id,
+        username: req.session.user!.username,
+        timestamp: new Date().toISOString()
+      }, null, 2));
 
-      // Return safe config without sensitive data
-      const { authToken, certificatePassword, ...safeResult } = result;
-      const safeResponse: SafeDnitConfig = {
-        ...safeResult,
-        hasAuthToken: !!authToken && authToken.trim() !== '',
-        hasCertificatePassword: !!certificatePassword && certificatePassword.trim() !== ''
-      };
-      
-      res.json(safeResponse);
+      res.status(201).json(result.timbrado);
     } catch (error) {
-      console.error("Error saving DNIT config:", error);
-      res.status(500).json({ error: "Failed to save DNIT configuration" });
+      console.error("Error registering timbrado:", error);
+      res.status(500).json({ error: "Failed to register timbrado" });
     }
   });
 
-  app.delete("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.put("/api/timbrados/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const existingConfig = await storage.getDnitConfig();
-      if (!existingConfig) {
-        return res.status(404).json({ error: "DNIT configuration not found" });
+      const validation = createTimbradoSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
       }
 
-      const success = await storage.deleteDnitConfig(existingConfig.id);
-      if (!success) {
-        return res.status(500).json({ error: "Failed to delete DNIT configuration" });
+      const result = await TimbradoService.actualizar(req.params.id, validation.data);
+      if (!result.success) {
+        return res.status(result.code === "TIMBRADO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot update timbrado",
+          details: result.error,
+          code: result.code
+        });
       }
 
-      res.json({ message: "DNIT configuration deleted successfully" });
+      res.json(result.timbrado);
     } catch (error) {
-      console.error("Error deleting DNIT config:", error);
-      res.status(500).json({ error: "Failed to delete DNIT configuration" });
+      console.error("Error updating timbrado:", error);
+      res.status(500).json({ error: "Failed to update timbrado" });
     }
   });
 
-  app.post("/api/dnit-config/test-connection", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  // Authorize numbering for another establecimiento/punto on a timbrado
+  app.post("/api/timbrados/:id/rangos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const config = await storage.getDnitConfig();
-      if (!config) {
-        return res.status(404).json({ 
-          error: "DNIT configuration not found",
-          details: "Debe configurar DNIT antes de probar la conexión"
+      const validation = timbradoRangoSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
         });
       }
 
-      // Test connection with decrypted config (storage automatically decrypts)
-      const testResult = await storage.testDnitConnection(config);
-      
-      // Update connection status in database
-      await storage.updateDnitConfig(config.id, {
-        lastConnectionTest: new Date(),
-        lastConnectionStatus: testResult.success ? "success" : "failed",
-        lastConnectionError: testResult.error || null
-      });
+      const result = await TimbradoService.agregarRango(req.params.id, validation.data);
+      if (!result.success) {
+        return res.status(result.code === "TIMBRADO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot add timbrado range",
+          details: result.error,
+          code: result.code
+        });
+      }
 
-      res.json(testResult);
+      res.status(201).json(result.rango);
     } catch (error) {
-      console.error("Error testing DNIT connection:", error);
-      res.status(500).json({ 
-        error: "Error testing connection",
-        details: "Error interno al probar la conexión DNIT"
-      });
+      console.error("Error adding timbrado range:", error);
+      res.status(500).json({ error: "Failed to add timbrado range" });
     }
   });
 
-  // Services Routes
-  app.get("/api/services", async (req, res) => {
+  // Switch to a registered timbrado ahead of time (e.g. when the current range is exhausted)
+  app.post("/api/timbrados/:id/activar", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const services = await storage.getServices();
-      res.json(services);
+      const result = await TimbradoService.activar(req.params.id);
+      if (!result.success) {
+        return res.status(result.code === "TIMBRADO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot activate timbrado",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      res.json(result.timbrado);
     } catch (error) {
-      console.error("Error fetching services:", error);
-      res.status(500).json({ error: "Failed to fetch services" });
+      console.error("Error activating timbrado:", error);
+      res.status(500).json({ error: "Failed to activate timbrado" });
     }
   });
 
-  app.get("/api/services/active", async (req, res) => {
+  app.delete("/api/timbrados/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const services = await storage.getActiveServices();
-      res.json(services);
+      const result = await TimbradoService.eliminar(req.params.id);
+      if (!result.success) {
+        return res.status(result.code === "TIMBRADO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot delete timbrado",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error fetching active services:", error);
-      res.status(500).json({ error: "Failed to fetch active services" });
+      console.error("Error deleting timbrado:", error);
+      res.status(500).json({ error: "Failed to delete timbrado" });
     }
   });
 
-  app.get("/api/services/:id", async (req, res) => {
+  // Establecimientos and puntos de expedición catalog routes (admin only)
+  app.get("/api/establecimientos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const service = await storage.getService(req.params.id);
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
-      }
-      res.json(service);
+      const establecimientos = await EstablecimientoService.listar();
+      res.json(establecimientos);
     } catch (error) {
-      console.error("Error fetching service:", error);
-      res.status(500).json({ error: "Failed to fetch service" });
+      console.error("Error fetching establecimientos:", error);
+      res.status(500).json({ error: "Failed to fetch establecimientos" });
     }
   });
 
-  app.post("/api/services", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.post("/api/establecimientos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const validation = insertServiceSchema.safeParse(req.body);
+      const validation = insertEstablecimientoSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -707,17 +888,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const service = await storage.createService(validation.data);
-      res.json(service);
+      const result = await EstablecimientoService.crearEstablecimiento(validation.data);
+      if (!result.success) {
+        return res.status(409).json({
+          error: "Cannot create establecimiento",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      res.status(201).json(result.establecimiento);
     } catch (error) {
-      console.error("Error creating service:", error);
-      res.status(500).json({ error: "Failed to create service" });
+      console.error("Error creating establecimiento:", error);
+      res.status(500).json({ error: "Failed to create establecimiento" });
     }
   });
 
-  app.put("/api/services/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.put("/api/establecimientos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const validation = insertServiceSchema.partial().safeParse(req.body);
+      const validation = insertEstablecimientoSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -725,75 +914,69 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const service = await storage.updateService(req.params.id, validation.data);
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
+      const result = await EstablecimientoService.actualizarEstablecimiento(req.params.id, validation.data);
+      if (!result.success) {
+        return res.status(result.code === "ESTABLECIMIENTO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot update establecimiento",
+          details: result.error,
+          code: result.code
+        });
       }
-      res.json(service);
+
+      res.json(result.establecimiento);
     } catch (error) {
-      console.error("Error updating service:", error);
-      res.status(500).json({ error: "Failed to update service" });
+      console.error("Error updating establecimiento:", error);
+      res.status(500).json({ error: "Failed to update establecimiento" });
     }
   });
 
-  app.delete("/api/services/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.delete("/api/establecimientos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      // Soft delete - deactivate the service
-      const service = await storage.updateService(req.params.id, { activo: false });
-      if (!service) {
-        return res.status(404).json({ error: "Service not found" });
+      const result = await EstablecimientoService.eliminarEstablecimiento(req.params.id);
+      if (!result.success) {
+        return res.status(result.code === "ESTABLECIMIENTO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot delete establecimiento",
+          details: result.error,
+          code: result.code
+        });
       }
-      res.json({ message: "Service deactivated successfully" });
+
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error deactivating service:", error);
-      res.status(500).json({ error: "Failed to deactivate service" });
+      console.error("Error deleting establecimiento:", error);
+      res.status(500).json({ error: "Failed to delete establecimiento" });
     }
   });
 
-  // ========================
-  // CATEGORY ROUTES
-  // ========================
-
-  app.get("/api/categories", AuthMiddleware.requireAuth, async (req, res) => {
+  app.post("/api/puntos-expedicion", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const categories = await storage.getCategories();
-      res.json(categories);
+      const validation = insertPuntoExpedicionSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const result = await EstablecimientoService.crearPunto(validation.data);
+      if (!result.success) {
+        return res.status(result.code === "ESTABLECIMIENTO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot create punto de expedicion",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      res.status(201).json(result.punto);
     } catch (error) {
-      console.error("Error fetching categories:", error);
-      res.status(500).json({ error: "Failed to fetch categories" });
+      console.error("Error creating punto de expedicion:", error);
+      res.status(500).json({ error: "Failed to create punto de expedicion" });
     }
   });
 
-  app.get("/api/categories/active", AuthMiddleware.requireAuth, async (req, res) => {
+  app.put("/api/puntos-expedicion/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const categories = await storage.getActiveCategories();
-      res.json(categories);
-    } catch (error) {
-      console.error("Error fetching active categories:", error);
-      res.status(500).json({ error: "Failed to fetch active categories" });
-    }
-  });
-
-  app.get("/api/categories/by-type/:type", AuthMiddleware.requireAuth, async (req, res) => {
-    try {
-      const tipo = req.params.type as "servicios" | "productos" | "ambos";
-      if (!["servicios", "productos", "ambos"].includes(tipo)) {
-        return res.status(400).json({
-          error: "Invalid type",
-          details: "Type must be 'servicios', 'productos', or 'ambos'"
-        });
-      }
-      const categories = await storage.getCategoriesByType(tipo);
-      res.json(categories);
-    } catch (error) {
-      console.error("Error fetching categories by type:", error);
-      res.status(500).json({ error: "Failed to fetch categories by type" });
-    }
-  });
-
-  app.post("/api/categories", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
-    try {
-      const validation = insertCategorySchema.safeParse(req.body);
+      const validation = insertPuntoExpedicionSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -801,152 +984,65 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const category = await storage.createCategory(validation.data);
-      res.json(category);
-    } catch (error) {
-      console.error("Error creating category:", error);
-      res.status(500).json({ error: "Failed to create category" });
-    }
-  });
-
-  app.put("/api/categories/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
-    try {
-      const validation = insertCategorySchema.partial().safeParse(req.body);
-      if (!validation.success) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: validation.error.errors
+      const result = await EstablecimientoService.actualizarPunto(req.params.id, validation.data);
+      if (!result.success) {
+        return res.status(result.code === "PUNTO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot update punto de expedicion",
+          details: result.error,
+          code: result.code
         });
       }
 
-      const category = await storage.updateCategory(req.params.id, validation.data);
-      if (!category) {
-        return res.status(404).json({ error: "Category not found" });
-      }
-      res.json(category);
-    } catch (error) {
-      console.error("Error updating category:", error);
-      res.status(500).json({ error: "Failed to update category" });
-    }
-  });
-
-  app.delete("/api/categories/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
-    try {
-      const success = await storage.deleteCategory(req.params.id);
-      if (!success) {
-        return res.status(404).json({ error: "Category not found" });
-      }
-      res.json({ message: "Category deleted successfully" });
-    } catch (error) {
-      console.error("Error deleting category:", error);
-      res.status(500).json({ error: "Failed to delete category" });
-    }
-  });
-
-  // ========================
-  // CUSTOMER ROUTES
-  // ========================
-
-  app.get("/api/customers", AuthMiddleware.requireAuth, async (req, res) => {
-    try {
-      const customers = await storage.getCustomers();
-      res.json(customers);
+      res.json(result.punto);
     } catch (error) {
-      console.error("Error fetching customers:", error);
-      res.status(500).json({ error: "Failed to fetch customers" });
+      console.error("Error updating punto de expedicion:", error);
+      res.status(500).json({ error: "Failed to update punto de expedicion" });
     }
   });
 
-  app.post("/api/customers", AuthMiddleware.requireAuth, async (req, res) => {
+  app.delete("/api/puntos-expedicion/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      console.log("POST /api/customers - Received data:", JSON.stringify(req.body, null, 2));
-      
-      // Basic validation - ensure required fields are present
-      if (!req.body.nombre || req.body.nombre.trim() === '') {
-        console.log("Validation failed - missing nombre");
-        return res.status(400).json({
-          error: "Validation failed",
-          details: "El nombre del cliente es requerido"
+      const result = await EstablecimientoService.eliminarPunto(req.params.id);
+      if (!result.success) {
+        return res.status(result.code === "PUNTO_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot delete punto de expedicion",
+          details: result.error,
+          code: result.code
         });
       }
 
-      console.log("Creating customer with storage.createCustomer()");
-      const customer = await storage.createCustomer(req.body);
-      console.log("Customer created successfully:", customer);
-      res.json(customer);
-    } catch (error) {
-      console.error("Error creating customer:", error);
-      res.status(500).json({ 
-        error: "Failed to create customer",
-        details: (error as any).message || String(error)
-      });
-    }
-  });
-
-  app.put("/api/customers/:id", AuthMiddleware.requireAuth, async (req, res) => {
-    try {
-      const customer = await storage.updateCustomer(req.params.id, req.body);
-      if (!customer) {
-        return res.status(404).json({ error: "Customer not found" });
-      }
-      res.json(customer);
-    } catch (error) {
-      console.error("Error updating customer:", error);
-      res.status(500).json({ 
-        error: "Failed to update customer",
-        details: (error as any).message || String(error)
-      });
-    }
-  });
-
-  app.delete("/api/customers/:id", AuthMiddleware.requireAuth, async (req, res) => {
-    try {
-      const success = await storage.deleteCustomer(req.params.id);
-      if (!success) {
-        return res.status(404).json({ error: "Customer not found" });
-      }
-      res.json({ message: "Customer deleted successfully" });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting customer:", error);
-      res.status(500).json({ 
-        error: "Failed to delete customer",
-        details: (error as any).message || String(error)
-      });
+      console.error("Error deleting punto de expedicion:", error);
+      res.status(500).json({ error: "Failed to delete punto de expedicion" });
     }
   });
 
-  // ========================
-  // VEHICLE ROUTES
-  // ========================
-
-  app.get("/api/vehicles", AuthMiddleware.requireAuth, async (req, res) => {
+  // Currency catalog and exchange rate routes (changes admin only)
+  app.get("/api/monedas", AuthMiddleware.requireAuth, async (req, res) => {
     try {
-      const vehicles = await storage.getAllVehicles();
-      res.json(vehicles);
+      const monedas = await storage.getMonedas();
+      res.json(monedas);
     } catch (error) {
-      console.error("Error fetching vehicles:", error);
-      res.status(500).json({ error: "Failed to fetch vehicles" });
+      console.error("Error fetching monedas:", error);
+      res.status(500).json({ error: "Failed to fetch currencies" });
     }
   });
 
-  app.get("/api/vehicles/by-customer/:customerId", AuthMiddleware.requireAuth, async (req, res) => {
+  // Active currencies with the exchange rate that applies today
+  app.get("/api/monedas/vigentes", AuthMiddleware.requireAuth, async (req, res) => {
     try {
-      const { customerId } = req.params;
-      if (!customerId) {
-        return res.status(400).json({ error: "Customer ID is required" });
-      }
-
-      const vehicles = await storage.getVehiclesByCustomer(customerId);
-      res.json(vehicles);
+      const monedas = await MonedaService.vigentes();
+      res.json(monedas);
     } catch (error) {
-      console.error("Error fetching vehicles by customer:", error);
-      res.status(500).json({ error: "Failed to fetch vehicles by customer" });
+      console.error("Error fetching current exchange rates:", error);
+      res.status(500).json({ error: "Failed to fetch current exchange rates" });
     }
   });
 
-  app.post("/api/vehicles", AuthMiddleware.requireAuth, async (req, res) => {
+  app.post("/api/monedas", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const validation = insertVehicleSchema.safeParse(req.body);
+      const validation = insertMonedaSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -954,28 +1050,25 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Verify customer exists
-      const customer = await storage.getCustomer(validation.data.customerId);
-      if (!customer) {
-        return res.status(400).json({
-          error: "Invalid customer",
-          details: "Customer not found"
+      const result = await MonedaService.crearMoneda(validation.data);
+      if (!result.success) {
+        return res.status(409).json({
+          error: "Cannot create currency",
+          details: result.error,
+          code: result.code
         });
       }
 
-      const vehicle = await storage.createVehicle(validation.data);
-      res.json(vehicle);
+      res.status(201).json(result.moneda);
     } catch (error) {
-      console.error("Error creating vehicle:", error);
-      res.status(500).json({ error: "Failed to create vehicle" });
+      console.error("Error creating moneda:", error);
+      res.status(500).json({ error: "Failed to create currency" });
     }
   });
 
-  app.put("/api/vehicles/:id", AuthMiddleware.requireAuth, async (req, res) => {
+  app.put("/api/monedas/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      const validation = insertVehicleSchema.partial().safeParse(req.body);
-      
+      const validation = insertMonedaSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -983,163 +1076,2114 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // If customerId is being updated, verify it exists
-      if (validation.data.customerId) {
-        const customer = await storage.getCustomer(validation.data.customerId);
-        if (!customer) {
-          return res.status(400).json({
-            error: "Invalid customer",
-            details: "Customer not found"
-          });
-        }
-      }
-
-      const vehicle = await storage.updateVehicle(id, validation.data);
-      if (!vehicle) {
-        return res.status(404).json({ error: "Vehicle not found" });
+      const result = await MonedaService.actualizarMoneda(req.params.id, validation.data);
+      if (!result.success) {
+        return res.status(result.code === "CURRENCY_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot update currency",
+          details: result.error,
+          code: result.code
+        });
       }
 
-      res.json(vehicle);
+      res.json(result.moneda);
     } catch (error) {
-      console.error("Error updating vehicle:", error);
-      res.status(500).json({ error: "Failed to update vehicle" });
+      console.error("Error updating moneda:", error);
+      res.status(500).json({ error: "Failed to update currency" });
     }
   });
 
-  app.delete("/api/vehicles/:id", AuthMiddleware.requireAuth, async (req, res) => {
+  app.delete("/api/monedas/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const { id } = req.params;
-      
-      // Check if vehicle is used in any work orders
-      const workOrders = await storage.getWorkOrders();
-      const vehicleInUse = workOrders.some(order => order.vehicleId === id);
-      
-      if (vehicleInUse) {
-        return res.status(400).json({
-          error: "Cannot delete vehicle",
-          details: "Vehicle is referenced in existing work orders"
+      const result = await MonedaService.eliminarMoneda(req.params.id);
+      if (!result.success) {
+        return res.status(result.code === "CURRENCY_NOT_FOUND" ? 404 : 409).json({
+          error: "Cannot delete currency",
+          details: result.error,
+          code: result.code
         });
       }
 
-      const success = await storage.deleteVehicle(id);
-      if (!success) {
-        return res.status(404).json({ error: "Vehicle not found" });
-      }
-
-      res.json({ message: "Vehicle deleted successfully" });
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error deleting vehicle:", error);
-      res.status(500).json({ error: "Failed to delete vehicle" });
+      console.error("Error deleting moneda:", error);
+      res.status(500).json({ error: "Failed to delete currency" });
     }
   });
 
-  // ========================
-  // INVENTORY ROUTES
-  // ========================
-
-  app.get("/api/inventory", AuthMiddleware.requireAuth, async (req, res) => {
+  app.get("/api/tipos-cambio", AuthMiddleware.requireAuth, async (req, res) => {
     try {
-      const inventory = await storage.getInventoryItems();
-      res.json(inventory);
+      const tiposCambio = await storage.getTiposCambio(
+        typeof req.query.moneda === "string" ? req.query.moneda : undefined
+      );
+      res.json(tiposCambio);
     } catch (error) {
-      console.error("Error fetching inventory:", error);
-      res.status(500).json({ error: "Failed to fetch inventory" });
+      console.error("Error fetching tipos de cambio:", error);
+      res.status(500).json({ error: "Failed to fetch exchange rates" });
     }
   });
 
-  app.post("/api/inventory", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.post("/api/tipos-cambio", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Basic validation
-      if (!req.body.nombre || req.body.nombre.trim() === '') {
+      const validation = createTipoCambioSchema.safeParse(req.body);
+      if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
-          details: "El nombre del producto es requerido"
+          details: validation.error.errors
         });
       }
-      if (!req.body.precio || parseFloat(req.body.precio) <= 0) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: "El precio debe ser mayor a 0"
+
+      const userId = req.session.user!.id;
+      const result = await MonedaService.registrarTipoCambio(validation.data, userId);
+      if (!result.success || !result.tipoCambio) {
+        return res.status(404).json({
+          error: "Cannot register exchange rate",
+          details: result.error,
+          code: result.code
         });
       }
 
-      const item = await storage.createInventoryItem(req.body);
-      res.json(item);
+      console.log(`AUDIT_LOG: Exchange rate registered - Currency: ${result.tipoCambio.moneda}, Date: ${result.tipoCambio.fecha}, Rate: ${result.tipoCambio.tasa}, User: ${userId}`);
+      res.status(201).json(result.tipoCambio);
     } catch (error) {
-      console.error("Error creating inventory item:", error);
-      res.status(500).json({ error: "Failed to create inventory item" });
+      console.error("Error registering tipo de cambio:", error);
+      res.status(500).json({ error: "Failed to register exchange rate" });
     }
   });
 
-  app.put("/api/inventory/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  app.delete("/api/tipos-cambio/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const item = await storage.updateInventoryItem(req.params.id, req.body);
-      if (!item) {
-        return res.status(404).json({ error: "Inventory item not found" });
+      const success = await storage.deleteTipoCambio(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Exchange rate not found" });
       }
-      res.json(item);
+      res.json({ success: true });
     } catch (error) {
-      console.error("Error updating inventory item:", error);
-      res.status(500).json({ error: "Failed to update inventory item" });
+      console.error("Error deleting tipo de cambio:", error);
+      res.status(500).json({ error: "Failed to delete exchange rate" });
     }
   });
 
-  // Service Combos Routes
-  app.get("/api/service-combos", async (req, res) => {
+  // DNIT Configuration Routes
+  app.get("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const combos = await storage.getServiceCombos();
-      res.json(combos);
+      const config = await storage.getDnitConfig();
+      
+      if (config) {
+        // Create safe config response without exposing sensitive data
+        const { authToken, certificatePassword, csc, ...safeConfig } = config;
+        const safeResponse: SafeDnitConfig = {
+          ...safeConfig,
+          hasAuthToken: !!authToken && authToken.trim() !== '',
+          hasCertificatePassword: !!certificatePassword && certificatePassword.trim() !== '',
+          hasCsc: !!csc && csc.trim() !== ''
+        };
+        res.json(safeResponse);
+      } else {
+        res.json(null);
+      }
     } catch (error) {
-      console.error("Error fetching service combos:", error);
-      res.status(500).json({ error: "Failed to fetch service combos" });
+      console.error("Error fetching DNIT config:", error);
+      res.status(500).json({ error: "Failed to fetch DNIT configuration" });
     }
   });
 
-  app.get("/api/service-combos/active", async (req, res) => {
+  app.put("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const combos = await storage.getActiveServiceCombos();
-      res.json(combos);
-    } catch (error) {
-      console.error("Error fetching active service combos:", error);
-      res.status(500).json({ error: "Failed to fetch active service combos" });
-    }
-  });
-
+      // Handle placeholder values for sensitive fields
+      const processedBody = { ...req.body };
+      
+      // Replace placeholders with existing values if they exist
+      const existingConfig = await storage.getDnitConfig();
+      if (existingConfig) {
+        // If authToken is a placeholder, keep existing encrypted value
+        if (processedBody.authToken && EncryptionService.isPlaceholder(processedBody.authToken)) {
+          processedBody.authToken = existingConfig.authToken; // Already decrypted from storage
+        }
+        
+        // If certificatePassword is a placeholder, keep existing encrypted value
+        if (processedBody.certificatePassword && EncryptionService.isPlaceholder(processedBody.certificatePassword)) {
+          processedBody.certificatePassword = existingConfig.certificatePassword; // Already decrypted from storage
+        }
+
+        // If CSC is a placeholder, keep existing encrypted value
+        if (processedBody.csc && EncryptionService.isPlaceholder(processedBody.csc)) {
+          processedBody.csc = existingConfig.csc; // Already decrypted from storage
+        }
+      }
+
+      // Validate processed request body
+      const validation = insertDnitConfigSchema.safeParse(processedBody);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const data = validation.data;
+      
+      let result;
+      if (existingConfig) {
+        result = await storage.updateDnitConfig(existingConfig.id, data);
+      } else {
+        result = await storage.createDnitConfig(data);
+      }
+
+      if (!result) {
+        return res.status(500).json({ error: "Failed to save DNIT configuration" });
+      }
+
+      // Return safe config without sensitive data
+      const { authToken, certificatePassword, csc, ...safeResult } = result;
+      const safeResponse: SafeDnitConfig = {
+        ...safeResult,
+        hasAuthToken: !!authToken && authToken.trim() !== '',
+        hasCertificatePassword: !!certificatePassword && certificatePassword.trim() !== '',
+        hasCsc: !!csc && csc.trim() !== ''
+      };
+      
+      res.json(safeResponse);
+    } catch (error) {
+      console.error("Error saving DNIT config:", error);
+      res.status(500).json({ error: "Failed to save DNIT configuration" });
+    }
+  });
+
+  app.delete("/api/dnit-config", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const existingConfig = await storage.getDnitConfig();
+      if (!existingConfig) {
+        return res.status(404).json({ error: "DNIT configuration not found" });
+      }
+
+      const success = await storage.deleteDnitConfig(existingConfig.id);
+      if (!success) {
+        return res.status(500).json({ error: "Failed to delete DNIT configuration" });
+      }
+
+      res.json({ message: "DNIT configuration deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting DNIT config:", error);
+      res.status(500).json({ error: "Failed to delete DNIT configuration" });
+    }
+  });
+
+  app.post("/api/dnit-config/test-connection", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const config = await storage.getDnitConfig();
+      if (!config) {
+        return res.status(404).json({ 
+          error: "DNIT configuration not found",
+          details: "Debe configurar DNIT antes de probar la conexión"
+        });
+      }
+
+      // Test connection with decrypted config (storage automatically decrypts)
+      const testResult = await storage.testDnitConnection(config);
+      
+      // Update connection status in database
+      await storage.updateDnitConfig(config.id, {
+        lastConnectionTest: new Date(),
+        lastConnectionStatus: testResult.success ? "success" : "failed",
+        lastConnectionError: testResult.error || null
+      });
+
+      res.json(testResult);
+    } catch (error) {
+      console.error("Error testing DNIT connection:", error);
+      res.status(500).json({ 
+        error: "Error testing connection",
+        details: "Error interno al probar la conexión DNIT"
+      });
+    }
+  });
+
+  app.post("/api/dnit-config/test-certificate", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const config = await storage.getDnitConfig();
+      const result = SifenSignatureService.loadCertificate(config);
+
+      if (!result.success || !result.certificate) {
+        return res.json({ success: false, error: result.error, code: result.code });
+      }
+
+      // Only expose certificate metadata - never the key material
+      const { privateKeyPem, certificatePem, ...certificateInfo } = result.certificate;
+      res.json({ success: true, certificate: certificateInfo });
+    } catch (error) {
+      console.error("Error testing DNIT certificate:", error);
+      res.status(500).json({ 
+        error: "Error testing certificate",
+        details: "Error interno al verificar el certificado digital"
+      });
+    }
+  });
+
+  // SIFEN Queue Routes
+  app.get("/api/sifen/lotes", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const lotes = await storage.getSifenLotes();
+      res.json(lotes);
+    } catch (error) {
+      console.error("Error fetching SIFEN lotes:", error);
+      res.status(500).json({ error: "Failed to fetch SIFEN lotes" });
+    }
+  });
+
+  app.post("/api/sifen/queue/process", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const result = await SifenQueueService.processQueue();
+      res.json(result);
+    } catch (error) {
+      console.error("Error processing SIFEN queue:", error);
+      res.status(500).json({
+        error: "Failed to process SIFEN queue",
+        details: "Error interno al procesar la cola de documentos electrónicos"
+      });
+    }
+  });
+
+  app.post("/api/sales/:id/sifen/retry", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+
+      if (sale.sifenEstado !== "rechazado") {
+        return res.status(400).json({
+          error: "Sale was not rejected",
+          details: "Solo se pueden reenviar documentos rechazados por SIFEN"
+        });
+      }
+
+      const updatedSale = await SifenQueueService.requeueSale(sale);
+      res.json(updatedSale);
+    } catch (error) {
+      console.error("Error requeuing sale for SIFEN:", error);
+      res.status(500).json({ error: "Failed to requeue sale" });
+    }
+  });
+
+  // Services Routes
+  app.get("/api/services", async (req, res) => {
+    try {
+      const services = await storage.getServices();
+      res.json(services);
+    } catch (error) {
+      console.error("Error fetching services:", error);
+      res.status(500).json({ error: "Failed to fetch services" });
+    }
+  });
+
+  app.get("/api/services/active", async (req, res) => {
+    try {
+      const services = await storage.getActiveServices();
+      res.json(services);
+    } catch (error) {
+      console.error("Error fetching active services:", error);
+      res.status(500).json({ error: "Failed to fetch active services" });
+    }
+  });
+
+  app.get("/api/services/:id", async (req, res) => {
+    try {
+      const service = await storage.getService(req.params.id);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json(service);
+    } catch (error) {
+      console.error("Error fetching service:", error);
+      res.status(500).json({ error: "Failed to fetch service" });
+    }
+  });
+
+  app.post("/api/services", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const validation = insertServiceSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const service = await storage.createService(validation.data);
+      res.json(service);
+    } catch (error) {
+      console.error("Error creating service:", error);
+      res.status(500).json({ error: "Failed to create service" });
+    }
+  });
+
+  app.put("/api/services/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const validation = insertServiceSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const service = await storage.updateService(req.params.id, validation.data);
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json(service);
+    } catch (error) {
+      console.error("Error updating service:", error);
+      res.status(500).json({ error: "Failed to update service" });
+    }
+  });
+
+  app.delete("/api/services/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      // Soft delete - deactivate the service
+      const service = await storage.updateService(req.params.id, { activo: false });
+      if (!service) {
+        return res.status(404).json({ error: "Service not found" });
+      }
+      res.json({ message: "Service deactivated successfully" });
+    } catch (error) {
+      console.error("Error deactivating service:", error);
+      res.status(500).json({ error: "Failed to deactivate service" });
+    }
+  });
+
+  // ========================
+  // CATEGORY ROUTES
+  // ========================
+
+  app.get("/api/categories", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const categories = await storage.getCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories:", error);
+      res.status(500).json({ error: "Failed to fetch categories" });
+    }
+  });
+
+  app.get("/api/categories/active", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const categories = await storage.getActiveCategories();
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching active categories:", error);
+      res.status(500).json({ error: "Failed to fetch active categories" });
+    }
+  });
+
+  app.get("/api/categories/by-type/:type", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const tipo = req.params.type as "servicios" | "productos" | "ambos";
+      if (!["servicios", "productos", "ambos"].includes(tipo)) {
+        return res.status(400).json({
+          error: "Invalid type",
+          details: "Type must be 'servicios', 'productos', or 'ambos'"
+        });
+      }
+      const categories = await storage.getCategoriesByType(tipo);
+      res.json(categories);
+    } catch (error) {
+      console.error("Error fetching categories by type:", error);
+      res.status(500).json({ error: "Failed to fetch categories by type" });
+    }
+  });
+
+  app.post("/api/categories", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const validation = insertCategorySchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const category = await storage.createCategory(validation.data);
+      res.json(category);
+    } catch (error) {
+      console.error("Error creating category:", error);
+      res.status(500).json({ error: "Failed to create category" });
+    }
+  });
+
+  app.put("/api/categories/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const validation = insertCategorySchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const category = await storage.updateCategory(req.params.id, validation.data);
+      if (!category) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json(category);
+    } catch (error) {
+      console.error("Error updating category:", error);
+      res.status(500).json({ error: "Failed to update category" });
+    }
+  });
+
+  app.delete("/api/categories/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const success = await storage.deleteCategory(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Category not found" });
+      }
+      res.json({ message: "Category deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting category:", error);
+      res.status(500).json({ error: "Failed to delete category" });
+    }
+  });
+
+  // ========================
+  // RUC PADRÓN ROUTES
+  // ========================
+
+  app.get("/api/padron-ruc/estado", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const estado = await storage.getPadronRucEstado();
+      res.json(estado);
+    } catch (error) {
+      console.error("Error fetching RUC padron status:", error);
+      res.status(500).json({ error: "Failed to fetch RUC padron status" });
+    }
+  });
+
+  // Taxpayer of a RUC or CI from the local padrón, with the verification digit
+  app.get("/api/padron-ruc/:documento", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await PadronRucService.consultar(req.params.documento);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid document number",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      res.json(result.consulta);
+    } catch (error) {
+      console.error("Error looking up RUC padron:", error);
+      res.status(500).json({ error: "Failed to look up RUC padron" });
+    }
+  });
+
+  // The body is the file as downloaded from the DNIT (rucN.zip) or the text file inside it
+  app.post("/api/padron-ruc/importar", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin,
+    express.raw({ type: () => true, limit: "100mb" }),
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!Buffer.isBuffer(req.body) || req.body.length === 0) {
+        return res.status(400).json({
+          error: "File required",
+          details: "Seleccione un archivo del padrón RUC descargado de la DNIT"
+        });
+      }
+
+      const result = await PadronRucService.importar(req.body);
+      if (!result.success) {
+        return res.status(400).json({
+          error: "Invalid padron file",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      const resultado = result.resultado!;
+      console.log(`AUDIT_LOG: RUC padron imported - User: ${req.session.user!.id}, Files: ${resultado.archivos.join(", ")}, New: ${resultado.nuevos}, Updated: ${resultado.actualizados}, Unchanged: ${resultado.sinCambios}`);
+      res.json(resultado);
+    } catch (error) {
+      console.error("Error importing RUC padron:", error);
+      res.status(500).json({ error: "Failed to import RUC padron" });
+    }
+  });
+
+  // ========================
+  // CUSTOMER ROUTES
+  // ========================
+
+  app.get("/api/customers", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const customers = await storage.getCustomers();
+      res.json(customers);
+    } catch (error) {
+      console.error("Error fetching customers:", error);
+      res.status(500).json({ error: "Failed to fetch customers" });
+    }
+  });
+
+  app.post("/api/customers", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      console.log("POST /api/customers - Received data:", JSON.stringify(req.body, null, 2));
+      
+      // Basic validation - ensure required fields are present
+      if (!req.body.nombre || req.body.nombre.trim() === '') {
+        console.log("Validation failed - missing nombre");
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "El nombre del cliente es requerido"
+        });
+      }
+
+      // Document rules of the docTipo (RUC with its DV, CI range, passport format)
+      const validation = createCustomerSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const result = await ClienteService.crearCliente(validation.data);
+      if (!result.success) {
+        return res.status(result.code === "DUPLICATE_DOCUMENT" ? 409 : 400).json({
+          error: "Cannot create customer",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log("Customer created successfully:", result.customer);
+      res.json(result.customer);
+    } catch (error) {
+      console.error("Error creating customer:", error);
+      res.status(500).json({ 
+        error: "Failed to create customer",
+        details: (error as any).message || String(error)
+      });
+    }
+  });
+
+  app.put("/api/customers/:id", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const validation = insertCustomerSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const result = await ClienteService.actualizarCliente(req.params.id, validation.data);
+      if (!result.success) {
+        if (result.code === "CUSTOMER_NOT_FOUND") {
+          return res.status(404).json({ error: "Customer not found" });
+        }
+        return res.status(result.code === "DUPLICATE_DOCUMENT" ? 409 : 400).json({
+          error: "Cannot update customer",
+          details: result.error,
+          code: result.code
+        });
+      }
+      res.json(result.customer);
+    } catch (error) {
+      console.error("Error updating customer:", error);
+      res.status(500).json({ 
+        error: "Failed to update customer",
+        details: (error as any).message || String(error)
+      });
+    }
+  });
+
+  app.delete("/api/customers/:id", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const success = await storage.deleteCustomer(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json({ message: "Customer deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting customer:", error);
+      res.status(500).json({ 
+        error: "Failed to delete customer",
+        details: (error as any).message || String(error)
+      });
+    }
+  });
+
+  // Account statement: credit invoices, notes and receipts with running balance and aging
+  app.get("/api/customers/:id/cuenta", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const estadoCuenta = await CuentasPorCobrarService.getEstadoCuenta(req.params.id);
+      if (!estadoCuenta) {
+        return res.status(404).json({ error: "Customer not found" });
+      }
+      res.json(estadoCuenta);
+    } catch (error) {
+      console.error("Error fetching customer account:", error);
+      res.status(500).json({ error: "Failed to fetch customer account" });
+    }
+  });
+
+  // ========================
+  // RECEIPT ROUTES
+  // ========================
+
+  app.get("/api/recibos", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const recibos = typeof req.query.customerId === "string"
+        ? await storage.getRecibosByCustomer(req.query.customerId)
+        : await storage.getRecibos();
+      res.json(recibos);
+    } catch (error) {
+      console.error("Error fetching receipts:", error);
+      res.status(500).json({ error: "Failed to fetch receipts" });
+    }
+  });
+
+  app.get("/api/recibos/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const recibo = await storage.getRecibo(req.params.id);
+      if (!recibo) {
+        return res.status(404).json({ error: "Receipt not found" });
+      }
+      const aplicaciones = await storage.getReciboAplicaciones(recibo.id);
+      res.json({ ...recibo, aplicaciones });
+    } catch (error) {
+      console.error("Error fetching receipt:", error);
+      res.status(500).json({ error: "Failed to fetch receipt" });
+    }
+  });
+
+  // Payment of credit sales; without allocations it pays the oldest due invoices first
+  app.post("/api/recibos",
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = createReciboSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const userId = req.session.user!.id;
+
+      // Cash goes into the drawer of the cashier's open session
+      const sesion = await CajaService.sesionAbierta(userId);
+      if (validation.data.medioPago === "efectivo" && !sesion) {
+        return res.status(409).json({
+          error: "Cash register closed",
+          details: "No hay una caja abierta. Abra la caja antes de cobrar en efectivo.",
+          code: "NO_OPEN_SESSION"
+        });
+      }
+
+      const result = await CuentasPorCobrarService.registrarRecibo(validation.data, userId, sesion?.id ?? null);
+      if (!result.success || !result.recibo) {
+        return res.status(result.code === "CUSTOMER_NOT_FOUND" ? 404 : 400).json({
+          error: "Invalid receipt",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Receipt created - ID: ${result.recibo.id}, Number: ${result.recibo.numero}, Customer: ${result.recibo.customerId}, Amount: ${result.recibo.monto}, User: ${userId}`);
+
+      res.json({
+        ...result.recibo,
+        aplicaciones: result.aplicaciones
+      });
+    } catch (error) {
+      console.error("Error creating receipt:", error);
+      res.status(500).json({ error: "Failed to create receipt" });
+    }
+  });
+
+  // ========================
+  // CASH REGISTER ROUTES
+  // ========================
+
+  // Open cash session of the current user with its running totals; null when the register is closed
+  app.get("/api/caja/sesion-actual", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sesion = await CajaService.sesionAbierta(req.session.user!.id);
+      res.json(sesion ? await CajaService.resumen(sesion) : null);
+    } catch (error) {
+      console.error("Error fetching current cash session:", error);
+      res.status(500).json({ error: "Failed to fetch current cash session" });
+    }
+  });
+
+  // Session history; cashiers only see their own sessions
+  app.get("/api/caja/sesiones", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const currentUser = req.session.user!;
+      const users = await storage.getUsers();
+      const sesiones = (await storage.getSesionesCaja())
+        .filter(sesion => currentUser.role === "admin" || sesion.userId === currentUser.id)
+        .map(sesion => {
+          const cajero = users.find(user => user.id === sesion.userId);
+          return { ...sesion, cajero: cajero?.fullName || cajero?.username || null };
+        });
+      res.json(sesiones);
+    } catch (error) {
+      console.error("Error fetching cash sessions:", error);
+      res.status(500).json({ error: "Failed to fetch cash sessions" });
+    }
+  });
+
+  app.get("/api/caja/sesiones/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sesion = await storage.getSesionCaja(req.params.id);
+      if (!sesion || (sesion.userId !== req.session.user!.id && req.session.user!.role !== "admin")) {
+        return res.status(404).json({ error: "Cash session not found" });
+      }
+      res.json(await CajaService.resumen(sesion));
+    } catch (error) {
+      console.error("Error fetching cash session:", error);
+      res.status(500).json({ error: "Failed to fetch cash session" });
+    }
+  });
+
+  // Open the register at the punto de expedición assigned to the user
+  app.post("/api/caja/sesiones",
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = abrirSesionCajaSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const userId = req.session.user!.id;
+      const result = await CajaService.abrir(userId, validation.data);
+      if (!result.success || !result.sesion) {
+        return res.status(result.code === "SESSION_ALREADY_OPEN" || result.code === "PUNTO_IN_USE" ? 409 : 400).json({
+          error: "Cannot open cash session",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Cash session opened - ID: ${result.sesion.id}, Punto: ${result.sesion.puntoExpedicionId}, Float: ${result.sesion.montoInicial}, User: ${userId}`);
+
+      res.json(result.sesion);
+    } catch (error) {
+      console.error("Error opening cash session:", error);
+      res.status(500).json({ error: "Failed to open cash session" });
+    }
+  });
+
+  // Cash in or out of the drawer outside sales (ingresos, retiros, gastos menores)
+  app.post("/api/caja/sesiones/:id/movimientos",
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = createMovimientoCajaSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const currentUser = req.session.user!;
+      const result = await CajaService.registrarMovimiento(req.params.id, currentUser.id, currentUser.role === "admin", validation.data);
+      if (!result.success || !result.movimiento) {
+        return res.status(cajaErrorStatus(result.code)).json({
+          error: "Invalid cash movement",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Cash movement - Session: ${req.params.id}, Type: ${result.movimiento.tipo}, Amount: ${result.movimiento.monto}, User: ${currentUser.id}`);
+
+      res.json(result.movimiento);
+    } catch (error) {
+      console.error("Error creating cash movement:", error);
+      res.status(500).json({ error: "Failed to create cash movement" });
+    }
+  });
+
+  // Close the register with the count by denomination
+  app.post("/api/caja/sesiones/:id/cerrar",
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = cerrarSesionCajaSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const currentUser = req.session.user!;
+      const result = await CajaService.cerrar(req.params.id, currentUser.id, currentUser.role === "admin", validation.data);
+      if (!result.success || !result.sesion) {
+        return res.status(cajaErrorStatus(result.code)).json({
+          error: "Cannot close cash session",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Cash session closed - ID: ${result.sesion.id}, Expected: ${result.sesion.efectivoEsperado}, Counted: ${result.sesion.efectivoContado}, Difference: ${result.sesion.diferencia}, User: ${currentUser.id}`);
+
+      res.json(result.sesion);
+    } catch (error) {
+      console.error("Error closing cash session:", error);
+      res.status(500).json({ error: "Failed to close cash session" });
+    }
+  });
+
+  // Printable cierre de caja (Z report); open sessions print a partial report
+  app.get("/api/caja/sesiones/:id/cierre", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sesion = await storage.getSesionCaja(req.params.id);
+      if (!sesion || (sesion.userId !== req.session.user!.id && req.session.user!.role !== "admin")) {
+        return res.status(404).json({ error: "Cash session not found" });
+      }
+
+      const resumen = await CajaService.resumen(sesion);
+      res.type("html").send(CajaService.renderCierre(resumen, await storage.getCompanyConfig()));
+    } catch (error) {
+      console.error("Error printing cash session closing:", error);
+      res.status(500).json({ error: "Failed to print cash session closing" });
+    }
+  });
+
+  // ========================
+  // VEHICLE ROUTES
+  // ========================
+
+  app.get("/api/vehicles", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const vehicles = await storage.getAllVehicles();
+      res.json(vehicles);
+    } catch (error) {
+      console.error("Error fetching vehicles:", error);
+      res.status(500).json({ error: "Failed to fetch vehicles" });
+    }
+  });
+
+  app.get("/api/vehicles/by-customer/:customerId", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const { customerId } = req.params;
+      if (!customerId) {
+        return res.status(400).json({ error: "Customer ID is required" });
+      }
+
+      const vehicles = await storage.getVehiclesByCustomer(customerId);
+      res.json(vehicles);
+    } catch (error) {
+      console.error("Error fetching vehicles by customer:", error);
+      res.status(500).json({ error: "Failed to fetch vehicles by customer" });
+    }
+  });
+
+  app.post("/api/vehicles", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const validation = insertVehicleSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Verify customer exists
+      const customer = await storage.getCustomer(validation.data.customerId);
+      if (!customer) {
+        return res.status(400).json({
+          error: "Invalid customer",
+          details: "Customer not found"
+        });
+      }
+
+      const vehicle = await storage.createVehicle(validation.data);
+      res.json(vehicle);
+    } catch (error) {
+      console.error("Error creating vehicle:", error);
+      res.status(500).json({ error: "Failed to create vehicle" });
+    }
+  });
+
+  app.put("/api/vehicles/:id", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      const validation = insertVehicleSchema.partial().safeParse(req.body);
+      
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // If customerId is being updated, verify it exists
+      if (validation.data.customerId) {
+        const customer = await storage.getCustomer(validation.data.customerId);
+        if (!customer) {
+          return res.status(400).json({
+            error: "Invalid customer",
+            details: "Customer not found"
+          });
+        }
+      }
+
+      const vehicle = await storage.updateVehicle(id, validation.data);
+      if (!vehicle) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      res.json(vehicle);
+    } catch (error) {
+      console.error("Error updating vehicle:", error);
+      res.status(500).json({ error: "Failed to update vehicle" });
+    }
+  });
+
+  app.delete("/api/vehicles/:id", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const { id } = req.params;
+      
+      // Check if vehicle is used in any work orders
+      const workOrders = await storage.getWorkOrders();
+      const vehicleInUse = workOrders.some(order => order.vehicleId === id);
+      
+      if (vehicleInUse) {
+        return res.status(400).json({
+          error: "Cannot delete vehicle",
+          details: "Vehicle is referenced in existing work orders"
+        });
+      }
+
+      const success = await storage.deleteVehicle(id);
+      if (!success) {
+        return res.status(404).json({ error: "Vehicle not found" });
+      }
+
+      res.json({ message: "Vehicle deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting vehicle:", error);
+      res.status(500).json({ error: "Failed to delete vehicle" });
+    }
+  });
+
+  // ========================
+  // INVENTORY ROUTES
+  // ========================
+
+  app.get("/api/inventory", AuthMiddleware.requireAuth, async (req, res) => {
+    try {
+      const inventory = await storage.getInventoryItems();
+      res.json(inventory);
+    } catch (error) {
+      console.error("Error fetching inventory:", error);
+      res.status(500).json({ error: "Failed to fetch inventory" });
+    }
+  });
+
+  app.post("/api/inventory", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      // Basic validation
+      if (!req.body.nombre || req.body.nombre.trim() === '') {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "El nombre del producto es requerido"
+        });
+      }
+      if (!req.body.precio || parseFloat(req.body.precio) <= 0) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "El precio debe ser mayor a 0"
+        });
+      }
+      if (req.body.tasaIva !== undefined && !tasaIvaSchema.safeParse(req.body.tasaIva).success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "La tasa de IVA debe ser 10%, 5% o exento"
+        });
+      }
+
+      const item = await storage.createInventoryItem(req.body);
+      // The stock the product starts with opens its kardex
+      await InventarioService.abrirKardex(item, req.session.user!.id);
+      res.json(item);
+    } catch (error) {
+      console.error("Error creating inventory item:", error);
+      res.status(500).json({ error: "Failed to create inventory item" });
+    }
+  });
+
+  app.put("/api/inventory/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      if (req.body.tasaIva !== undefined && !tasaIvaSchema.safeParse(req.body.tasaIva).success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "La tasa de IVA debe ser 10%, 5% o exento"
+        });
+      }
+
+      // Stock only changes through movements; the alert level follows a new minimum
+      const { stockActual: _stockActual, estadoAlerta: _estadoAlerta, ...itemData } = req.body;
+      let item = await storage.updateInventoryItem(req.params.id, itemData);
+      if (!item) {
+        return res.status(404).json({ error: "Inventory item not found" });
+      }
+      if (itemData.stockMinimo !== undefined) {
+        item = await storage.updateInventoryStock(item.id, item.stockActual);
+      }
+      res.json(item);
+    } catch (error) {
+      console.error("Error updating inventory item:", error);
+      res.status(500).json({ error: "Failed to update inventory item" });
+    }
+  });
+
+  // Record a stock movement by hand: purchase, consumption by services, adjustment or count
+  app.put("/api/inventory/:id/stock", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = ajusteStockSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const companyConfig = await storage.getCompanyConfig();
+      const result = await InventarioService.registrarAjuste(req.params.id, validation.data, {
+        userId: req.session.user!.id,
+        permitirNegativo: companyConfig?.permitirStockNegativo ?? false
+      });
+      if (!result.success) {
+        return res.status(inventarioErrorStatus(result.code)).json({
+          error: "Failed to update stock",
+          details: result.error,
+          code: result.code
+        });
+      }
+
+      console.log(`AUDIT_LOG: Stock movement - Item: ${req.params.id}, Type: ${result.movimiento!.tipo}, Quantity: ${result.movimiento!.cantidad}, User: ${req.session.user!.id}`);
+      res.json({ item: result.item, movimiento: result.movimiento });
+    } catch (error) {
+      console.error("Error updating inventory stock:", error);
+      res.status(500).json({ error: "Failed to update inventory stock" });
+    }
+  });
+
+  // Kardex of a product: its stock movements with the running balance
+  app.get("/api/inventory/:id/kardex", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const result = await InventarioService.kardex(req.params.id);
+      if (!result.success) {
+        return res.status(inventarioErrorStatus(result.code)).json({
+          error: "Inventory item not found",
+          details: result.error,
+          code: result.code
+        });
+      }
+      res.json(result.kardex);
+    } catch (error) {
+      console.error("Error fetching inventory kardex:", error);
+      res.status(500).json({ error: "Failed to fetch inventory kardex" });
+    }
+  });
+
+  // Service Combos Routes
+  app.get("/api/service-combos", async (req, res) => {
+    try {
+      const combos = await storage.getServiceCombos();
+      res.json(combos);
+    } catch (error) {
+      console.error("Error fetching service combos:", error);
+      res.status(500).json({ error: "Failed to fetch service combos" });
+    }
+  });
+
+  app.get("/api/service-combos/active", async (req, res) => {
+    try {
+      const combos = await storage.getActiveServiceCombos();
+      res.json(combos);
+    } catch (error) {
+      console.error("Error fetching active service combos:", error);
+      res.status(500).json({ error: "Failed to fetch active service combos" });
+    }
+  });
+
   app.get("/api/service-combos/:id", async (req, res) => {
     try {
-      const combo = await storage.getServiceCombo(req.params.id);
-      if (!combo) {
-        return res.status(404).json({ error: "Service combo not found" });
+      const combo = await storage.getServiceCombo(req.params.id);
+      if (!combo) {
+        return res.status(404).json({ error: "Service combo not found" });
+      }
+      
+      // Get combo items with service details
+      const comboItems = await storage.getServiceComboItems(combo.id);
+      const serviceIds = comboItems.map(item => item.serviceId);
+      const services = [];
+      
+      for (const serviceId of serviceIds) {
+        const service = await storage.getService(serviceId);
+        if (service) {
+          services.push(service);
+        }
+      }
+
+      res.json({
+        ...combo,
+        services
+      });
+    } catch (error) {
+      console.error("Error fetching service combo:", error);
+      res.status(500).json({ error: "Failed to fetch service combo" });
+    }
+  });
+
+  app.post("/api/service-combos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const { serviceIds, ...comboData } = req.body;
+
+      // Validate combo data
+      const validation = insertServiceComboSchema.safeParse(comboData);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Validate service IDs
+      if (!serviceIds || !Array.isArray(serviceIds) || serviceIds.length < 2) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: "A combo must include at least 2 services"
+        });
+      }
+
+      // Create the combo
+      const combo = await storage.createServiceCombo(validation.data);
+
+      // Add service items to combo
+      for (const serviceId of serviceIds) {
+        await storage.createServiceComboItem({
+          comboId: combo.id,
+          serviceId
+        });
+      }
+
+      res.json(combo);
+    } catch (error) {
+      console.error("Error creating service combo:", error);
+      res.status(500).json({ error: "Failed to create service combo" });
+    }
+  });
+
+  app.put("/api/service-combos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      const { serviceIds, ...comboData } = req.body;
+
+      // Validate combo data
+      const validation = insertServiceComboSchema.partial().safeParse(comboData);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Update the combo
+      const combo = await storage.updateServiceCombo(req.params.id, validation.data);
+      if (!combo) {
+        return res.status(404).json({ error: "Service combo not found" });
+      }
+
+      // Update service items if provided
+      if (serviceIds && Array.isArray(serviceIds)) {
+        if (serviceIds.length < 2) {
+          return res.status(400).json({
+            error: "Validation failed",
+            details: "A combo must include at least 2 services"
+          });
+        }
+
+        // Remove existing combo items
+        await storage.deleteServiceComboItemsByCombo(combo.id);
+
+        // Add new service items
+        for (const serviceId of serviceIds) {
+          await storage.createServiceComboItem({
+            comboId: combo.id,
+            serviceId
+          });
+        }
+      }
+
+      res.json(combo);
+    } catch (error) {
+      console.error("Error updating service combo:", error);
+      res.status(500).json({ error: "Failed to update service combo" });
+    }
+  });
+
+  app.delete("/api/service-combos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+    try {
+      // Soft delete - deactivate the combo
+      const combo = await storage.updateServiceCombo(req.params.id, { activo: false });
+      if (!combo) {
+        return res.status(404).json({ error: "Service combo not found" });
+      }
+      res.json({ message: "Service combo deactivated successfully" });
+    } catch (error) {
+      console.error("Error deactivating service combo:", error);
+      res.status(500).json({ error: "Failed to deactivate service combo" });
+    }
+  });
+
+  // ========================
+  // WORK ORDER ROUTES - NO TIMBRADO CHECKS
+  // Work orders are operational, not fiscal documents
+  // ========================
+
+  // Get all work orders
+  app.get("/api/work-orders", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const workOrders = await storage.getWorkOrders();
+      res.json(workOrders);
+    } catch (error) {
+      console.error("Error fetching work orders:", error);
+      res.status(500).json({ error: "Failed to fetch work orders" });
+    }
+  });
+
+  // Get work orders by status
+  app.get("/api/work-orders/by-status/:status", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status } = req.params;
+      const workOrders = await storage.getWorkOrdersByStatus(status);
+      res.json(workOrders);
+    } catch (error) {
+      console.error("Error fetching work orders by status:", error);
+      res.status(500).json({ error: "Failed to fetch work orders" });
+    }
+  });
+
+  // Get work orders by customer
+  app.get("/api/work-orders/by-customer/:customerId", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { customerId } = req.params;
+      const workOrders = await storage.getWorkOrdersByCustomer(customerId);
+      res.json(workOrders);
+    } catch (error) {
+      console.error("Error fetching work orders by customer:", error);
+      res.status(500).json({ error: "Failed to fetch work orders" });
+    }
+  });
+
+  // Get next work order number
+  app.get("/api/work-orders/next-number", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const nextNumber = await storage.getNextWorkOrderNumber();
+      res.json({ nextNumber });
+    } catch (error) {
+      console.error("Error fetching next work order number:", error);
+      res.status(500).json({ error: "Failed to fetch next work order number" });
+    }
+  });
+
+  // Get specific work order
+  app.get("/api/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+      
+      // Get work order items
+      const items = await storage.getWorkOrderItems(req.params.id);
+      
+      res.json({
+        ...workOrder,
+        items
+      });
+    } catch (error) {
+      console.error("Error fetching work order:", error);
+      res.status(500).json({ error: "Failed to fetch work order" });
+    }
+  });
+
+  // Create work order
+  app.post("/api/work-orders", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = insertWorkOrderSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const workOrder = await storage.createWorkOrder(validation.data);
+      res.json(workOrder);
+    } catch (error) {
+      console.error("Error creating work order:", error);
+      res.status(500).json({ error: "Failed to create work order" });
+    }
+  });
+
+  // Update work order
+  app.put("/api/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const validation = insertWorkOrderSchema.partial().safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const workOrder = await storage.updateWorkOrder(req.params.id, validation.data);
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      res.json(workOrder);
+    } catch (error) {
+      console.error("Error updating work order:", error);
+      res.status(500).json({ error: "Failed to update work order" });
+    }
+  });
+
+  // Update work order status
+  app.put("/api/work-orders/:id/status", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { status } = req.body;
+      if (!status) {
+        return res.status(400).json({
+          error: "Status is required",
+          details: "Estado requerido"
+        });
+      }
+
+      const workOrder = await storage.updateWorkOrderStatus(req.params.id, status);
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      res.json(workOrder);
+    } catch (error) {
+      console.error("Error updating work order status:", error);
+      res.status(500).json({ error: "Failed to update work order status" });
+    }
+  });
+
+  // Add item to work order
+  app.post("/api/work-orders/:id/items", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const workOrderId = req.params.id;
+      const itemData = { ...req.body, workOrderId };
+      
+      const validation = insertWorkOrderItemSchema.safeParse(itemData);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      const item = await storage.addWorkOrderItem(workOrderId, validation.data);
+      res.json(item);
+    } catch (error) {
+      console.error("Error adding work order item:", error);
+      res.status(500).json({ error: "Failed to add work order item" });
+    }
+  });
+
+  // Remove item from work order
+  app.delete("/api/work-orders/:id/items/:itemId", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { id: workOrderId, itemId } = req.params;
+      
+      const success = await storage.removeWorkOrderItem(workOrderId, itemId);
+      if (!success) {
+        return res.status(404).json({ error: "Work order item not found" });
+      }
+
+      res.json({ message: "Work order item removed successfully" });
+    } catch (error) {
+      console.error("Error removing work order item:", error);
+      res.status(500).json({ error: "Failed to remove work order item" });
+    }
+  });
+
+  // Delete work order
+  app.delete("/api/work-orders/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const success = await storage.deleteWorkOrder(req.params.id);
+      if (!success) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      res.json({ message: "Work order deleted successfully" });
+    } catch (error) {
+      console.error("Error deleting work order:", error);
+      res.status(500).json({ error: "Failed to delete work order" });
+    }
+  });
+
+  // ========================
+  // PRINT ROUTES
+  // ========================
+
+  // Get work order print data (NO timbrado check - operational document)
+  app.get("/api/print/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const workOrder = await storage.getWorkOrder(req.params.id);
+      if (!workOrder) {
+        return res.status(404).json({ error: "Work order not found" });
+      }
+
+      const items = await storage.getWorkOrderItems(req.params.id);
+      const customer = await storage.getCustomer(workOrder.customerId);
+      const vehicle = await storage.getVehicle(workOrder.vehicleId);
+      const companyConfig = await storage.getCompanyConfig();
+
+      res.json({
+        workOrder,
+        items,
+        customer,
+        vehicle,
+        companyConfig
+      });
+    } catch (error) {
+      console.error("Error fetching work order for printing:", error);
+      res.status(500).json({ error: "Failed to fetch work order for printing" });
+    }
+  });
+
+  // Get invoice print data (WITH timbrado check - fiscal document)
+  app.get("/api/print/invoices/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Invoice not found" });
+      }
+
+      const saleItems = await storage.getSaleItems(req.params.id);
+      const pagos = await PagoService.pagosDeVenta(sale);
+      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
+      const companyConfig = await storage.getCompanyConfig();
+
+      // Validate timbrado for printing invoices
+      const timbradoValidation = validateActiveTimbrado(companyConfig ?? null);
+      if (!timbradoValidation.isValid && timbradoValidation.blocksInvoicing) {
+        return res.status(403).json({
+          error: "Cannot print invoice - Timbrado invalid",
+          details: timbradoValidation.error,
+          code: "TIMBRADO_INVALID"
+        });
+      }
+
+      if (req.query.format === "json") {
+        return res.json({
+          sale,
+          items: saleItems,
+          pagos,
+          customer,
+          companyConfig,
+          timbradoStatus: timbradoValidation
+        });
+      }
+
+      if (!companyConfig) {
+        return res.status(400).json({
+          error: "Company configuration not found",
+          details: "Debe configurar los datos fiscales de la empresa antes de imprimir la factura"
+        });
+      }
+
+      // Address of the establecimiento that issued the invoice
+      const emisor = await EstablecimientoService.configuracionEmisor(companyConfig, sale.numeroFactura);
+
+      // Reprints after a rollover keep the vigencia of the timbrado the invoice was issued with
+      const timbradoFactura = (await storage.getTimbrados()).find(timbrado => timbrado.numero === sale.timbradoUsado);
+
+      // KuDE: A4 by default, 80mm for thermal ticket printers
+      const dnitConfig = await storage.getDnitConfig();
+      const html = await KudeService.renderFactura({
+        sale,
+        items: saleItems,
+        pagos,
+        customer: customer ?? null,
+        companyConfig: timbradoFactura
+          ? { ...emisor, timbradoDesde: timbradoFactura.fechaInicio, timbradoHasta: timbradoFactura.fechaFin }
+          : emisor,
+        dnitConfig,
+        formato: req.query.size === "80mm" ? "80mm" : "a4"
+      });
+
+      res.type("html").send(html);
+    } catch (error) {
+      console.error("Error fetching invoice for printing:", error);
+      res.status(500).json({ error: "Failed to fetch invoice for printing" });
+    }
+  });
+
+  // Enhanced billing routes with both timbrado validation and usage limits
+  
+  // Create invoice route (protected by both timbrado validation and usage limits)
+  app.post("/api/sales/invoice", 
+    AuthMiddleware.requireAuth, 
+    AuthMiddleware.requireUserOrAdmin,
+    enforceUsageLimit,
+    requireActiveTimbrado, 
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      // Both timbrado and usage limits have been validated by middleware
+      const config = (req as any).companyConfig;
+      const usageInfo = (req as any).usageInfo;
+      const userId = req.session.user!.id;
+
+      // Increment user's invoice count
+      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
+      if (!incrementResult.success) {
+        return res.status(500).json({ 
+          error: "Failed to update usage counter",
+          details: "No se pudo actualizar el contador de uso"
+        });
+      }
+
+      // Update session with new invoice count
+      if (req.session.user) {
+        req.session.user.currentMonthInvoices = incrementResult.newCount!;
+      }
+
+      // Future implementation would create actual invoices here
+      res.json({
+        message: "Factura creada exitosamente",
+        invoiceNumber: `${config.establecimiento}-${config.puntoExpedicion}-${Date.now()}`,
+        timbrado: {
+          numero: config.timbradoNumero,
+          establecimiento: config.establecimiento,
+          puntoExpedicion: config.puntoExpedicion
+        },
+        usage: {
+          currentCount: incrementResult.newCount,
+          remaining: incrementResult.remaining,
+          monthlyLimit: usageInfo.limit
+        },
+        note: "Factura registrada - funcionalidad completa pendiente de implementación"
+      });
+    } catch (error) {
+      console.error("Error creating invoice:", error);
+      res.status(500).json({ error: "Failed to create invoice" });
+    }
+  });
+
+  // Create receipt route (protected by both timbrado validation and usage limits)
+  app.post("/api/sales/receipt", 
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    enforceUsageLimit,
+    requireActiveTimbrado, 
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      // Both timbrado and usage limits have been validated by middleware
+      const config = (req as any).companyConfig;
+      const usageInfo = (req as any).usageInfo;
+      const userId = req.session.user!.id;
+
+      // Increment user's invoice count
+      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
+      if (!incrementResult.success) {
+        return res.status(500).json({ 
+          error: "Failed to update usage counter",
+          details: "No se pudo actualizar el contador de uso"
+        });
+      }
+
+      // Update session with new invoice count
+      if (req.session.user) {
+        req.session.user.currentMonthInvoices = incrementResult.newCount!;
+      }
+
+      // Future implementation would create actual receipts here
+      res.json({
+        message: "Recibo creado exitosamente",
+        receiptNumber: `REC-${config.establecimiento}-${config.puntoExpedicion}-${Date.now()}`,
+        timbrado: {
+          numero: config.timbradoNumero,
+          establecimiento: config.establecimiento,
+          puntoExpedicion: config.puntoExpedicion
+        },
+        usage: {
+          currentCount: incrementResult.newCount,
+          remaining: incrementResult.remaining,
+          monthlyLimit: usageInfo.limit
+        },
+        note: "Recibo registrado - funcionalidad completa pendiente de implementación"
+      });
+    } catch (error) {
+      console.error("Error creating receipt:", error);
+      res.status(500).json({ error: "Failed to create receipt" });
+    }
+  });
+
+  // ========================
+  // SALES ROUTES - WITH TIMBRADO CHECKS
+  // Sales are fiscal documents requiring valid timbrado
+  // ========================
+
+  // Get all sales
+  app.get("/api/sales", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sales = await storage.getSales();
+      res.json(sales);
+    } catch (error) {
+      console.error("Error fetching sales:", error);
+      res.status(500).json({ error: "Failed to fetch sales" });
+    }
+  });
+
+  // Get specific sale
+  app.get("/api/sales/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
       }
+      res.json(sale);
+    } catch (error) {
+      console.error("Error fetching sale:", error);
+      res.status(500).json({ error: "Failed to fetch sale" });
+    }
+  });
+
+  // Look up a sale by the CDC of its electronic document
+  app.get("/api/sales/cdc/:cdc", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      if (!validateCDC(req.params.cdc)) {
+        return res.status(400).json({
+          error: "Invalid CDC",
+          details: "El CDC debe tener 44 dígitos y un dígito verificador válido"
+        });
+      }
+
+      const sale = await storage.getSaleByCdc(req.params.cdc);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+      res.json(sale);
+    } catch (error) {
+      console.error("Error fetching sale by CDC:", error);
+      res.status(500).json({ error: "Failed to fetch sale" });
+    }
+  });
+
+  // Payments of a sale, one per method used
+  app.get("/api/sales/:id/pagos", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+      res.json(await PagoService.pagosDeVenta(sale));
+    } catch (error) {
+      console.error("Error fetching sale payments:", error);
+      res.status(500).json({ error: "Failed to fetch sale payments" });
+    }
+  });
+
+  // Create standalone sale (WITH timbrado checks - fiscal document)
+  app.post("/api/sales", 
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    enforceUsageLimit,
+    requireActiveTimbrado,
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      // Validate sale data
+      const validation = saleWithItemsSchema.safeParse(req.body);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Timbrado and usage limits have been validated by middleware
+      const venta = await crearVenta(req, validation.data);
+      if (!venta.success) {
+        return res.status(venta.status).json(venta.body);
+      }
+
+      res.json({
+        message: "Sale created successfully",
+        sale: venta.sale,
+        pagos: venta.pagos,
+        invoiceNumber: venta.sale.numeroFactura,
+        timbrado: venta.timbrado
+      });
+    } catch (error) {
+      console.error("Error creating sale:", error);
+      res.status(500).json({ error: "Failed to create sale" });
+    }
+  });
+
+  app.post("/api/sales/create-from-order", 
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireUserOrAdmin,
+    enforceUsageLimit,
+    requireActiveTimbrado, 
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const { saleData, action } = req.body;
       
-      // Get combo items with service details
-      const comboItems = await storage.getServiceComboItems(combo.id);
-      const serviceIds = comboItems.map(item => item.serviceId);
-      const services = [];
-      
-      for (const serviceId of serviceIds) {
-        const service = await storage.getService(serviceId);
-        if (service) {
-          services.push(service);
+      // Validate sale data with new enhanced validation
+      const validation = saleWithItemsSchema.safeParse(saleData);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Priced from the catalog and the prices agreed on the work order
+      const venta = await crearVenta(req, validation.data);
+      if (!venta.success) {
+        return res.status(venta.status).json(venta.body);
+      }
+
+      // Update work order status if needed (mark as invoiced)
+      if (validation.data.workOrderId) {
+        await storage.updateWorkOrder(validation.data.workOrderId, {
+          estado: "entregado" // Mark as delivered when invoiced
+        });
+      }
+
+      res.json({
+        ...venta.sale,
+        items: venta.cotizacion.lineas,
+        pagos: venta.pagos,
+        action
+      });
+    } catch (error) {
+      console.error("Error creating sale from order:", error);
+      res.status(500).json({ error: "Failed to create sale" });
+    }
+  });
+
+  // Legacy print route - use GET /api/print/invoices/:id instead
+  app.get("/api/sales/:id/print", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+
+      const saleItems = await storage.getSaleItems(req.params.id);
+      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
+      const companyConfig = await storage.getCompanyConfig();
+
+      // NOTE: This legacy route does not check timbrado - use /api/print/invoices/:id for fiscal compliance
+      res.json({
+        sale,
+        items: saleItems,
+        customer,
+        companyConfig
+      });
+    } catch (error) {
+      console.error("Error fetching sale for printing:", error);
+      res.status(500).json({ error: "Failed to fetch sale for printing" });
+    }
+  });
+
+  // Get SIFEN electronic document (DE) XML for a sale (?signed=true to sign it)
+  app.get("/api/sales/:id/xml", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig) {
+        return res.status(400).json({
+          error: "Company configuration not found",
+          details: "Debe configurar los datos fiscales de la empresa antes de generar el documento electrónico"
+        });
+      }
+
+      const items = await storage.getSaleItems(sale.id);
+      const pagos = await PagoService.pagosDeVenta(sale);
+      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
+
+      let xml = SifenXmlService.buildDE({ sale, items, pagos, companyConfig, customer });
+
+      // Optionally sign with the certificate configured for DNIT
+      if (req.query.signed === "true") {
+        const dnitConfig = await storage.getDnitConfig();
+        const signature = SifenSignatureService.signDE(xml, dnitConfig);
+        if (!signature.success || !signature.signedXml) {
+          return res.status(400).json({
+            error: "Failed to sign electronic document",
+            details: signature.error,
+            code: signature.code
+          });
+        }
+        xml = signature.signedXml;
+      }
+
+      res.setHeader("Content-Disposition", `inline; filename="${sale.numeroFactura}.xml"`);
+      res.type("application/xml").send(xml);
+    } catch (error) {
+      console.error("Error generating sale XML:", error);
+      res.status(500).json({ error: "Failed to generate electronic document" });
+    }
+  });
+
+  // Edit invoice route - Admin only with 24-hour window
+  app.put("/api/sales/:id", 
+    AuthMiddleware.requireAuth, 
+    AuthMiddleware.requireAdmin,
+    validateSaleModification,
+    // Note: Removed requireActiveTimbrado to allow admin corrections even with expired timbrado
+    async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const saleId = req.params.id;
+      const existingSale = (req as any).existingSale;
+      const updateData = req.body;
+
+      // Validate update data with items validation
+      const validation = saleWithItemsSchema.partial().safeParse(updateData);
+      if (!validation.success) {
+        return res.status(400).json({
+          error: "Validation failed",
+          details: validation.error.errors
+        });
+      }
+
+      // Backup original data for audit log
+      const originalSaleItems = await storage.getSaleItems(saleId);
+      const auditLog = {
+        action: 'UPDATE_SALE',
+        saleId,
+        adminUserId: req.session.user!.id,
+        adminUserName: req.session.user!.fullName,
+        timestamp: new Date().toISOString(),
+        original: {
+          sale: existingSale,
+          items: originalSaleItems
+        },
+        new: {
+          sale: updateData,
+          items: updateData.items
+        }
+      };
+
+      // Remove items from updateData as they should be handled separately; totals are never taken from the client
+      const { items, pagos, subtotal, impuestos, total, regimenTurismo: _regimenTurismo, descuento, autorizadoPor, pinAutorizacion, ...saleUpdateData } = validation.data;
+
+      // New items are priced from the catalog and replace the IVA liquidation and discounts of the sale
+      let cotizacion: CotizacionVenta | undefined;
+      let descuentoAutorizadoPor: string | null = null;
+      let regimenTurismo = existingSale.regimenTurismo;
+      if (items) {
+        const turismo = await regimenTurismoVenta(saleUpdateData.customerId ?? existingSale.customerId, new Date(existingSale.fecha));
+        if (!turismo.success) {
+          return res.status(400).json({
+            error: "Tourism regime requirements not met",
+            details: turismo.error,
+            code: turismo.code
+          });
+        }
+        regimenTurismo = turismo.regimenTurismo;
+        const precios = await cotizarItemsVenta(items, regimenTurismo, existingSale.workOrderId, descuento);
+        if (!precios.success || !precios.cotizacion) {
+          return res.status(400).json({
+            error: "Invalid sale items",
+            details: precios.error,
+            code: precios.code
+          });
+        }
+        cotizacion = precios.cotizacion;
+        if (difiereDeCotizacion(cotizacion, validation.data)) {
+          return res.status(409).json({
+            error: "Price mismatch",
+            details: "Los precios de la venta no coinciden con el catálogo vigente. Revise la venta e intente nuevamente.",
+            code: "PRICE_MISMATCH",
+            cotizacion
+          });
+        }
+
+        // The admin editing the invoice answers for discounts beyond the cashier maximum
+        const companyConfig = await storage.getCompanyConfig();
+        const autorizacion = await DescuentoService.autorizar(cotizacion, req.session.user!, {
+          autorizadoPor,
+          pin: pinAutorizacion,
+          config: companyConfig
+        });
+        if (!autorizacion.success) {
+          return res.status(descuentoErrorStatus(autorizacion.code)).json({
+            error: "Discount not authorized",
+            details: autorizacion.error,
+            code: autorizacion.code
+          });
+        }
+        descuentoAutorizadoPor = autorizacion.autorizadoPor ??
+          (porcentajeDescuento(cotizacion) > descuentoMaximoRol("user", companyConfig) ? req.session.user!.id : null);
+
+        // The units of the replaced items go back to stock before the new ones are taken
+        const stock = await InventarioService.verificarStock(lineasStock(cotizacion), {
+          permitirNegativo: companyConfig?.permitirStockNegativo ?? false,
+          devueltas: originalSaleItems
+        });
+        if (!stock.success) {
+          return res.status(409).json({
+            error: "Insufficient stock",
+            details: stock.error,
+            code: stock.code
+          });
+        }
+      }
+
+      // Credit sales keep a customer and a due date; sales with receipts applied stay on credit
+      const condicionVenta = saleUpdateData.condicionVenta ?? existingSale.condicionVenta;
+      if (saleUpdateData.condicionVenta !== undefined || saleUpdateData.fechaVencimiento !== undefined ||
+          saleUpdateData.customerId !== undefined) {
+        const condicion = CuentasPorCobrarService.validarCondicionVenta({
+          condicionVenta,
+          fechaVencimiento: saleUpdateData.fechaVencimiento !== undefined ? saleUpdateData.fechaVencimiento : existingSale.fechaVencimiento && new Date(existingSale.fechaVencimiento),
+          customerId: saleUpdateData.customerId !== undefined ? saleUpdateData.customerId : existingSale.customerId
+        }, new Date(existingSale.fecha));
+        if (!condicion.success) {
+          return res.status(400).json({
+            error: "Invalid sale condition",
+            details: condicion.error,
+            code: condicion.code
+          });
+        }
+
+        const aplicaciones = await storage.getReciboAplicacionesBySale(saleId);
+        if (aplicaciones.length > 0 && (condicionVenta !== "credito" ||
+            (saleUpdateData.customerId !== undefined && saleUpdateData.customerId !== existingSale.customerId))) {
+          return res.status(409).json({
+            error: "Sale has receipts",
+            details: "La factura tiene recibos aplicados; no puede cambiar su condición ni su cliente",
+            code: "SALE_HAS_RECEIPTS"
+          });
+        }
+      }
+      if (condicionVenta !== "credito") {
+        saleUpdateData.fechaVencimiento = null;
+      }
+
+      // Foreign currency amounts follow the new total or currency, at the rate of the sale date
+      let conversion: Awaited<ReturnType<typeof MonedaService.montosVenta>>["montos"];
+      if (cotizacion || saleUpdateData.moneda !== undefined) {
+        const resultado = await MonedaService.montosVenta(
+          saleUpdateData.moneda ?? existingSale.moneda,
+          cotizacion ? cotizacion.total : parseFloat(existingSale.total),
+          new Date(existingSale.fecha)
+        );
+        if (!resultado.success || !resultado.montos) {
+          return res.status(400).json({
+            error: "Invalid sale currency",
+            details: resultado.error,
+            code: resultado.code
+          });
+        }
+        conversion = resultado.montos;
+      }
+
+      // Payments follow the new total, method or condition; a sale paid with several methods keeps
+      // its payments unless a single medioPago replaces them, so a new total needs them entered again
+      let cobro: ReturnType<typeof PagoService.pagosVenta> | undefined;
+      if (pagos !== undefined || cotizacion || saleUpdateData.medioPago !== undefined || saleUpdateData.condicionVenta !== undefined) {
+        const registrados = await storage.getSalePagos(saleId);
+        const anteriores = registrados.length > 1 && saleUpdateData.medioPago === undefined
+          ? registrados.map(pago => ({ ...pago, monto: parseFloat(pago.monto), vuelto: parseFloat(pago.vuelto) }))
+          : undefined;
+        cobro = PagoService.pagosVenta({
+          pagos: pagos ?? anteriores,
+          medioPago: saleUpdateData.medioPago ?? existingSale.medioPago,
+          condicionVenta
+        }, cotizacion ? cotizacion.total : parseFloat(existingSale.total));
+        if (!cobro.success || !cobro.pagos) {
+          return res.status(400).json({
+            error: "Invalid sale payments",
+            details: cobro.error,
+            code: cobro.code
+          });
         }
       }
 
+      // Update the sale; the queue builds its DE from the edited data, under a new CDC
+      const updatedSale = await storage.updateSale(saleId, {
+        ...saleUpdateData,
+        ...(cotizacion ? { ...montosVenta(cotizacion), regimenTurismo, descuentoAutorizadoPor } : {}),
+        ...(cobro ? { medioPago: cobro.medioPago } : {}),
+        ...conversion,
+        ...(existingSale.cdc ? { cdc: regenerateCDC(existingSale.cdc) } : {})
+      });
+
+      if (!updatedSale) {
+        return res.status(500).json({
+          error: "Failed to update sale",
+          details: "Error al actualizar la venta"
+        });
+      }
+
+      // Replace the sale items if new ones were provided
+      if (cotizacion) {
+        await storage.deleteSaleItemsBySale(saleId);
+        const origen = { saleId, referencia: existingSale.numeroFactura, userId: req.session.user!.id };
+        await InventarioService.reponer(originalSaleItems, { ...origen, motivo: "Modificación de la factura" });
+        await createSaleItems(updatedSale.id, cotizacion);
+        await InventarioService.descontar(lineasStock(cotizacion), origen);
+      }
+      if (cobro?.pagos) {
+        await PagoService.registrarPagos(saleId, cobro.pagos);
+      }
+
+      // Enhanced audit trail logging
+      console.log('AUDIT_LOG:', JSON.stringify(auditLog, null, 2));
+
       res.json({
-        ...combo,
-        services
+        message: "Factura actualizada exitosamente",
+        sale: updatedSale,
+        hoursElapsed: Math.round((req as any).hoursElapsed),
+        modifiedBy: req.session.user!.fullName
       });
     } catch (error) {
-      console.error("Error fetching service combo:", error);
-      res.status(500).json({ error: "Failed to fetch service combo" });
+      console.error("Error updating sale:", error);
+      res.status(500).json({ 
+        error: "Failed to update sale",
+        details: "Error al actualizar la factura"
+      });
     }
   });
 
-  app.post("/api/service-combos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
+  // Delete invoice route - Admin only with 24-hour window
+  // Cancel (anular) invoice route - fiscal documents are never deleted
+  app.post("/api/sales/:id/anular",
+    AuthMiddleware.requireAuth,
+    AuthMiddleware.requireAdmin,
+    async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { serviceIds, ...comboData } = req.body;
-
-      // Validate combo data
-      const validation = insertServiceComboSchema.safeParse(comboData);
+      const validation = anularSaleSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -1147,169 +3191,150 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Validate service IDs
-      if (!serviceIds || !Array.isArray(serviceIds) || serviceIds.length < 2) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: "A combo must include at least 2 services"
+      const sale = await storage.getSale(req.params.id);
+      if (!sale) {
+        return res.status(404).json({
+          error: "Sale not found",
+          details: "Venta no encontrada"
         });
       }
 
-      // Create the combo
-      const combo = await storage.createServiceCombo(validation.data);
-
-      // Add service items to combo
-      for (const serviceId of serviceIds) {
-        await storage.createServiceComboItem({
-          comboId: combo.id,
-          serviceId
+      if (sale.anulada) {
+        return res.status(400).json({
+          error: "Sale already cancelled",
+          details: "La factura ya se encuentra anulada"
         });
       }
 
-      res.json(combo);
-    } catch (error) {
-      console.error("Error creating service combo:", error);
-      res.status(500).json({ error: "Failed to create service combo" });
-    }
-  });
-
-  app.put("/api/service-combos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
-    try {
-      const { serviceIds, ...comboData } = req.body;
+      if (sale.sifenEstado === "enviado") {
+        return res.status(409).json({
+          error: "Document is being processed by SIFEN",
+          details: "El documento está siendo procesado por SIFEN. Intente nuevamente cuando tenga resultado.",
+          code: "SIFEN_PROCESSING"
+        });
+      }
 
-      // Validate combo data
-      const validation = insertServiceComboSchema.partial().safeParse(comboData);
-      if (!validation.success) {
-        return res.status(400).json({
-          error: "Validation failed",
-          details: validation.error.errors
+      const notasCredito = await storage.getNotasCreditoBySale(sale.id);
+      if (notasCredito.length > 0) {
+        return res.status(409).json({
+          error: "Sale has credit notes",
+          details: `La factura tiene notas de crédito emitidas (${notasCredito.map(n => n.numero).join(', ')}) y no puede anularse`,
+          code: "SALE_HAS_CREDIT_NOTES"
         });
       }
 
-      // Update the combo
-      const combo = await storage.updateServiceCombo(req.params.id, validation.data);
-      if (!combo) {
-        return res.status(404).json({ error: "Service combo not found" });
+      const notasDebito = await storage.getNotasDebitoBySale(sale.id);
+      if (notasDebito.length > 0) {
+        return res.status(409).json({
+          error: "Sale has debit notes",
+          details: `La factura tiene notas de débito emitidas (${notasDebito.map(n => n.numero).join(', ')}) y no puede anularse`,
+          code: "SALE_HAS_DEBIT_NOTES"
+        });
       }
 
-      // Update service items if provided
-      if (serviceIds && Array.isArray(serviceIds)) {
-        if (serviceIds.length < 2) {
-          return res.status(400).json({
-            error: "Validation failed",
-            details: "A combo must include at least 2 services"
-          });
-        }
+      // Collected credit stays on the receipts that applied it
+      const aplicaciones = await storage.getReciboAplicacionesBySale(sale.id);
+      if (aplicaciones.length > 0) {
+        const recibosAplicados = await Promise.all(aplicaciones.map(a => storage.getRecibo(a.reciboId)));
+        return res.status(409).json({
+          error: "Sale has applied receipts",
+          details: `La factura tiene cobros aplicados (recibos ${recibosAplicados.map(r => r?.numero).join(', ')}) y no puede anularse. Emita una nota de crédito.`,
+          code: "SALE_HAS_RECEIPTS"
+        });
+      }
 
-        // Remove existing combo items
-        await storage.deleteServiceComboItemsByCombo(combo.id);
+      const { motivo } = validation.data;
+      const userId = req.session.user!.id;
 
-        // Add new service items
-        for (const serviceId of serviceIds) {
-          await storage.createServiceComboItem({
-            comboId: combo.id,
-            serviceId
+      // Approved documents are cancelled with an event; documents SIFEN never approved void their number
+      let evento = null;
+      if (sale.cdc && sale.sifenEstado === "aprobado") {
+        const hoursElapsed = (Date.now() - new Date(sale.fecha).getTime()) / (1000 * 60 * 60);
+        if (hoursElapsed > SIFEN_CANCELLATION_HOURS) {
+          return res.status(403).json({
+            error: "Cancellation window expired",
+            details: `SIFEN solo permite cancelar facturas aprobadas dentro de las ${SIFEN_CANCELLATION_HOURS} horas. Emita una nota de crédito.`,
+            code: "FISCAL_COMPLIANCE_VIOLATION",
+            hoursElapsed: Math.round(hoursElapsed),
+            maxHours: SIFEN_CANCELLATION_HOURS
           });
         }
-      }
-
-      res.json(combo);
-    } catch (error) {
-      console.error("Error updating service combo:", error);
-      res.status(500).json({ error: "Failed to update service combo" });
-    }
-  });
 
-  app.delete("/api/service-combos/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
-    try {
-      // Soft delete - deactivate the combo
-      const combo = await storage.updateServiceCombo(req.params.id, { activo: false });
-      if (!combo) {
-        return res.status(404).json({ error: "Service combo not found" });
+        evento = await storage.createSifenEvento({
+          tipo: "cancelacion",
+          saleId: sale.id,
+          cdc: sale.cdc,
+          motivo,
+          createdBy: userId
+        });
+      } else if (sale.cdc) {
+        const [establecimiento, puntoExpedicion] = sale.numeroFactura.split('-');
+        const numero = extractInvoiceNumber(sale.numeroFactura);
+        evento = await storage.createSifenEvento({
+          tipo: "inutilizacion",
+          saleId: sale.id,
+          timbrado: sale.timbradoUsado,
+          establecimiento,
+          puntoExpedicion,
+          tipoDocumento: 1,
+          numeroDesde: numero,
+          numeroHasta: numero,
+          motivo,
+          createdBy: userId
+        });
       }
-      res.json({ message: "Service combo deactivated successfully" });
-    } catch (error) {
-      console.error("Error deactivating service combo:", error);
-      res.status(500).json({ error: "Failed to deactivate service combo" });
-    }
-  });
-
-  // ========================
-  // WORK ORDER ROUTES - NO TIMBRADO CHECKS
-  // Work orders are operational, not fiscal documents
-  // ========================
-
-  // Get all work orders
-  app.get("/api/work-orders", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const workOrders = await storage.getWorkOrders();
-      res.json(workOrders);
-    } catch (error) {
-      console.error("Error fetching work orders:", error);
-      res.status(500).json({ error: "Failed to fetch work orders" });
-    }
-  });
 
-  // Get work orders by status
-  app.get("/api/work-orders/by-status/:status", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { status } = req.params;
-      const workOrders = await storage.getWorkOrdersByStatus(status);
-      res.json(workOrders);
-    } catch (error) {
-      console.error("Error fetching work orders by status:", error);
-      res.status(500).json({ error: "Failed to fetch work orders" });
-    }
-  });
+      const updatedSale = await storage.updateSale(sale.id, {
+        anulada: true,
+        motivoAnulacion: motivo,
+        fechaAnulacion: new Date(),
+        anuladaPor: userId
+      });
 
-  // Get work orders by customer
-  app.get("/api/work-orders/by-customer/:customerId", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { customerId } = req.params;
-      const workOrders = await storage.getWorkOrdersByCustomer(customerId);
-      res.json(workOrders);
-    } catch (error) {
-      console.error("Error fetching work orders by customer:", error);
-      res.status(500).json({ error: "Failed to fetch work orders" });
-    }
-  });
+      // The products of a cancelled sale go back to stock
+      await InventarioService.reponer(await storage.getSaleItems(sale.id), {
+        saleId: sale.id,
+        referencia: sale.numeroFactura,
+        motivo: `Anulación: ${motivo}`,
+        userId
+      });
 
-  // Get next work order number
-  app.get("/api/work-orders/next-number", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const nextNumber = await storage.getNextWorkOrderNumber();
-      res.json({ nextNumber });
-    } catch (error) {
-      console.error("Error fetching next work order number:", error);
-      res.status(500).json({ error: "Failed to fetch next work order number" });
-    }
-  });
+      console.log('AUDIT_LOG:', JSON.stringify({
+        action: 'ANULAR_SALE',
+        saleId: sale.id,
+        numeroFactura: sale.numeroFactura,
+        motivo,
+        sifenEvento: evento?.tipo ?? null,
+        adminUserId: userId,
+        adminUserName: req.session.user!.fullName,
+        timestamp: new Date().toISOString()
+      }, null, 2));
 
-  // Get specific work order
-  app.get("/api/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const workOrder = await storage.getWorkOrder(req.params.id);
-      if (!workOrder) {
-        return res.status(404).json({ error: "Work order not found" });
+      // Release the work order so it can be invoiced again
+      if (sale.workOrderId) {
+        await storage.updateWorkOrder(sale.workOrderId, {
+          estado: "terminado" // Mark as finished but not invoiced
+        });
       }
-      
-      // Get work order items
-      const items = await storage.getWorkOrderItems(req.params.id);
-      
+
       res.json({
-        ...workOrder,
-        items
+        message: "Factura anulada exitosamente",
+        sale: updatedSale,
+        evento
       });
     } catch (error) {
-      console.error("Error fetching work order:", error);
-      res.status(500).json({ error: "Failed to fetch work order" });
+      console.error("Error cancelling sale:", error);
+      res.status(500).json({ 
+        error: "Failed to cancel sale",
+        details: "Error al anular la factura"
+      });
     }
   });
 
-  // Create work order
-  app.post("/api/work-orders", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  // Void (inutilizar) a range of unused document numbers
+  app.post("/api/sifen/inutilizar", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const validation = insertWorkOrderSchema.safeParse(req.body);
+      const validation = inutilizarNumeracionSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -1317,323 +3342,313 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      const workOrder = await storage.createWorkOrder(validation.data);
-      res.json(workOrder);
-    } catch (error) {
-      console.error("Error creating work order:", error);
-      res.status(500).json({ error: "Failed to create work order" });
-    }
-  });
-
-  // Update work order
-  app.put("/api/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const validation = insertWorkOrderSchema.partial().safeParse(req.body);
-      if (!validation.success) {
+      // The punto given, or the one the admin invoices from, numbered like its documents:
+      // with the vigente timbrado and the range it authorizes for the punto
+      const data = validation.data;
+      const user = await storage.getUser(req.session.user!.id);
+      const ubicacion = data.establecimiento && data.puntoExpedicion
+        ? await EstablecimientoService.buscarPunto(data.establecimiento, data.puntoExpedicion)
+        : await EstablecimientoService.resolverPunto(user?.puntoExpedicionId);
+      if (!ubicacion.success) {
         return res.status(400).json({
-          error: "Validation failed",
-          details: validation.error.errors
+          error: "Punto de expedición not found",
+          details: ubicacion.error,
+          code: ubicacion.code
         });
       }
+      const establecimiento = ubicacion.establecimiento!.codigo;
+      const puntoExpedicion = ubicacion.punto!.codigo;
 
-      const workOrder = await storage.updateWorkOrder(req.params.id, validation.data);
-      if (!workOrder) {
-        return res.status(404).json({ error: "Work order not found" });
+      const vigente = await TimbradoService.resolverVigente(new Date(), { establecimiento, puntoExpedicion });
+      if (!vigente.timbrado || !vigente.rango) {
+        return res.status(400).json({
+          error: "No timbrado for the punto de expedición",
+          details: vigente.error,
+          code: vigente.code
+        });
       }
+      const timbrado = vigente.timbrado.numero;
 
-      res.json(workOrder);
-    } catch (error) {
-      console.error("Error updating work order:", error);
-      res.status(500).json({ error: "Failed to update work order" });
-    }
-  });
+      if (data.tipoDocumento === 1 &&
+          (data.numeroDesde < vigente.rango.numeroInicial || data.numeroHasta > vigente.rango.numeroFinal)) {
+        return res.status(400).json({
+          error: "Numbers outside the authorized range",
+          details: `El timbrado ${timbrado} autoriza para ${establecimiento}-${puntoExpedicion} los números ` +
+            `${vigente.rango.numeroInicial} a ${vigente.rango.numeroFinal}`,
+          code: "TIMBRADO_RANGE_NOT_AUTHORIZED"
+        });
+      }
 
-  // Update work order status
-  app.put("/api/work-orders/:id/status", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { status } = req.body;
-      if (!status) {
+      // Numbers already used by a document cannot be voided (cancel the document instead)
+      const emitidos = data.tipoDocumento === 1
+        ? (await storage.getSales()).map(sale => ({ numero: sale.numeroFactura, timbrado: sale.timbradoUsado }))
+        : data.tipoDocumento === 5
+          ? (await storage.getNotasCredito()).map(nota => ({ numero: nota.numero, timbrado: nota.timbradoUsado }))
+          : data.tipoDocumento === 6
+            ? (await storage.getNotasDebito()).map(nota => ({ numero: nota.numero, timbrado: nota.timbradoUsado }))
+            : [];
+      const usados = emitidos.filter(documento => {
+        const [est, pun] = documento.numero.split('-');
+        const numero = extractInvoiceNumber(documento.numero);
+        return documento.timbrado === timbrado && est === establecimiento && pun === puntoExpedicion &&
+          numero >= data.numeroDesde && numero <= data.numeroHasta;
+      }).map(documento => documento.numero);
+      if (usados.length > 0) {
         return res.status(400).json({
-          error: "Status is required",
-          details: "Estado requerido"
+          error: "Numbers already used",
+          details: `Los números ${usados.join(', ')} ya fueron utilizados. Anule esos documentos en lugar de inutilizarlos.`
         });
       }
 
-      const workOrder = await storage.updateWorkOrderStatus(req.params.id, status);
-      if (!workOrder) {
-        return res.status(404).json({ error: "Work order not found" });
+      const eventos = await storage.getSifenEventos();
+      const superpuesto = eventos.find(evento =>
+        evento.tipo === "inutilizacion" &&
+        evento.estado !== "rechazado" &&
+        evento.timbrado === timbrado &&
+        evento.establecimiento === establecimiento &&
+        evento.puntoExpedicion === puntoExpedicion &&
+        evento.tipoDocumento === data.tipoDocumento &&
+        (evento.numeroDesde ?? 0) <= data.numeroHasta &&
+        (evento.numeroHasta ?? 0) >= data.numeroDesde
+      );
+      if (superpuesto) {
+        return res.status(400).json({
+          error: "Range already voided",
+          details: `El rango se superpone con una inutilización existente (${superpuesto.numeroDesde} - ${superpuesto.numeroHasta})`
+        });
       }
 
-      res.json(workOrder);
+      const evento = await storage.createSifenEvento({
+        tipo: "inutilizacion",
+        timbrado,
+        establecimiento,
+        puntoExpedicion,
+        tipoDocumento: data.tipoDocumento,
+        numeroDesde: data.numeroDesde,
+        numeroHasta: data.numeroHasta,
+        motivo: data.motivo,
+        createdBy: req.session.user!.id
+      });
+
+      res.json(evento);
     } catch (error) {
-      console.error("Error updating work order status:", error);
-      res.status(500).json({ error: "Failed to update work order status" });
+      console.error("Error voiding document numbers:", error);
+      res.status(500).json({
+        error: "Failed to void document numbers",
+        details: "Error al inutilizar la numeración"
+      });
     }
   });
 
-  // Add item to work order
-  app.post("/api/work-orders/:id/items", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  app.get("/api/sifen/eventos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req, res) => {
     try {
-      const workOrderId = req.params.id;
-      const itemData = { ...req.body, workOrderId };
-      
-      const validation = insertWorkOrderItemSchema.safeParse(itemData);
-      if (!validation.success) {
+      const eventos = await storage.getSifenEventos();
+      res.json(eventos);
+    } catch (error) {
+      console.error("Error fetching SIFEN events:", error);
+      res.status(500).json({ error: "Failed to fetch SIFEN events" });
+    }
+  });
+
+  // Reports Routes
+  app.get("/api/reports/sales/:period", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const period = req.params.period as ReportPeriod;
+      if (!SalesReportService.PERIODS.includes(period)) {
         return res.status(400).json({
-          error: "Validation failed",
-          details: validation.error.errors
+          error: "Invalid report period",
+          details: `Período inválido. Valores permitidos: ${SalesReportService.PERIODS.join(', ')}`
         });
       }
 
-      const item = await storage.addWorkOrderItem(workOrderId, validation.data);
-      res.json(item);
+      const { start, end } = SalesReportService.resolvePeriod(
+        period,
+        new Date(),
+        typeof req.query.desde === "string" ? req.query.desde : undefined,
+        typeof req.query.hasta === "string" ? req.query.hasta : undefined
+      );
+
+      const report = await SalesReportService.getSalesReport(period, start, end);
+      res.json(report);
     } catch (error) {
-      console.error("Error adding work order item:", error);
-      res.status(500).json({ error: "Failed to add work order item" });
+      console.error("Error generating sales report:", error);
+      res.status(500).json({ error: "Failed to generate sales report" });
     }
   });
 
-  // Remove item from work order
-  app.delete("/api/work-orders/:id/items/:itemId", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
-    try {
-      const { id: workOrderId, itemId } = req.params;
-      
-      const success = await storage.removeWorkOrderItem(workOrderId, itemId);
-      if (!success) {
-        return res.status(404).json({ error: "Work order item not found" });
-      }
-
-      res.json({ message: "Work order item removed successfully" });
+  // Numbers reserved without a document and not yet inutilizados, per timbrado and punto de expedición
+  app.get("/api/reports/numeracion-huecos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const huecos = await NumeracionService.detectarHuecos();
+      res.json(huecos);
     } catch (error) {
-      console.error("Error removing work order item:", error);
-      res.status(500).json({ error: "Failed to remove work order item" });
+      console.error("Error detecting numbering gaps:", error);
+      res.status(500).json({ error: "Failed to detect numbering gaps" });
     }
   });
 
-  // Delete work order
-  app.delete("/api/work-orders/:id", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
+  // Libro de Ventas of a month (?mes=YYYY-MM, current month by default)
+  app.get("/api/reports/libro-ventas", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const success = await storage.deleteWorkOrder(req.params.id);
-      if (!success) {
-        return res.status(404).json({ error: "Work order not found" });
+      const periodo = periodoLibroVentas(req.query.mes);
+      if (!periodo) {
+        return res.status(400).json({
+          error: "Invalid period",
+          details: "El mes debe tener el formato AAAA-MM"
+        });
       }
 
-      res.json({ message: "Work order deleted successfully" });
+      const libro = await LibroVentasService.generar(periodo);
+      res.json(libro);
     } catch (error) {
-      console.error("Error deleting work order:", error);
-      res.status(500).json({ error: "Failed to delete work order" });
+      console.error("Error generating sales ledger:", error);
+      res.status(500).json({ error: "Failed to generate sales ledger" });
     }
   });
 
-  // ========================
-  // PRINT ROUTES
-  // ========================
-
-  // Get work order print data (NO timbrado check - operational document)
-  app.get("/api/print/work-orders/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  // Aging of the receivables of every customer with unpaid credit invoices
+  app.get("/api/reports/cuentas-por-cobrar", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const workOrder = await storage.getWorkOrder(req.params.id);
-      if (!workOrder) {
-        return res.status(404).json({ error: "Work order not found" });
-      }
-
-      const items = await storage.getWorkOrderItems(req.params.id);
-      const customer = await storage.getCustomer(workOrder.customerId);
-      const vehicle = await storage.getVehicle(workOrder.vehicleId);
-      const companyConfig = await storage.getCompanyConfig();
-
-      res.json({
-        workOrder,
-        items,
-        customer,
-        vehicle,
-        companyConfig
-      });
+      const resumen = await CuentasPorCobrarService.getResumen();
+      res.json(resumen);
     } catch (error) {
-      console.error("Error fetching work order for printing:", error);
-      res.status(500).json({ error: "Failed to fetch work order for printing" });
+      console.error("Error generating receivables report:", error);
+      res.status(500).json({ error: "Failed to generate receivables report" });
     }
   });
 
-  // Get invoice print data (WITH timbrado check - fiscal document)
-  app.get("/api/print/invoices/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  // Turismo invoices of a month for the DNIT declaration (?mes=YYYY-MM&formato=csv)
+  app.get("/api/reports/turismo", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const sale = await storage.getSale(req.params.id);
-      if (!sale) {
-        return res.status(404).json({ error: "Invoice not found" });
+      const periodo = periodoLibroVentas(req.query.mes);
+      if (!periodo) {
+        return res.status(400).json({
+          error: "Invalid period",
+          details: "El mes debe tener el formato AAAA-MM"
+        });
       }
 
-      const saleItems = await storage.getSaleItems(req.params.id);
-      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
-      const companyConfig = await storage.getCompanyConfig();
+      const reporte = await TurismoService.reporteMensual(periodo);
 
-      // Validate timbrado for printing invoices
-      const timbradoValidation = validateActiveTimbrado(companyConfig ?? null);
-      if (!timbradoValidation.isValid && timbradoValidation.blocksInvoicing) {
-        return res.status(403).json({
-          error: "Cannot print invoice - Timbrado invalid",
-          details: timbradoValidation.error,
-          code: "TIMBRADO_INVALID"
-        });
+      if (req.query.formato === "csv") {
+        res.setHeader("Content-Disposition", `attachment; filename="turismo_${periodo}.csv"`);
+        return res.type("text/csv").send(TurismoService.exportarCSV(reporte));
       }
 
-      res.json({
-        sale,
-        items: saleItems,
-        customer,
-        companyConfig,
-        timbradoStatus: timbradoValidation
-      });
+      res.json(reporte);
     } catch (error) {
-      console.error("Error fetching invoice for printing:", error);
-      res.status(500).json({ error: "Failed to fetch invoice for printing" });
+      console.error("Error generating tourism report:", error);
+      res.status(500).json({ error: "Failed to generate tourism report" });
     }
   });
 
-  // Enhanced billing routes with both timbrado validation and usage limits
-  
-  // Create invoice route (protected by both timbrado validation and usage limits)
-  app.post("/api/sales/invoice", 
-    AuthMiddleware.requireAuth, 
-    AuthMiddleware.requireUserOrAdmin,
-    enforceUsageLimit,
-    requireActiveTimbrado, 
-    async (req: AuthenticatedRequest, res: Response) => {
+  // Discounts given in a month by reason, cashier and authorizer (?mes=YYYY-MM)
+  app.get("/api/reports/descuentos", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Both timbrado and usage limits have been validated by middleware
-      const config = (req as any).companyConfig;
-      const usageInfo = (req as any).usageInfo;
-      const userId = req.session.user!.id;
-
-      // Increment user's invoice count
-      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
-      if (!incrementResult.success) {
-        return res.status(500).json({ 
-          error: "Failed to update usage counter",
-          details: "No se pudo actualizar el contador de uso"
+      const periodo = periodoLibroVentas(req.query.mes);
+      if (!periodo) {
+        return res.status(400).json({
+          error: "Invalid period",
+          details: "El mes debe tener el formato AAAA-MM"
         });
       }
 
-      // Update session with new invoice count
-      if (req.session.user) {
-        req.session.user.currentMonthInvoices = incrementResult.newCount!;
-      }
-
-      // Future implementation would create actual invoices here
-      res.json({
-        message: "Factura creada exitosamente",
-        invoiceNumber: `${config.establecimiento}-${config.puntoExpedicion}-${Date.now()}`,
-        timbrado: {
-          numero: config.timbradoNumero,
-          establecimiento: config.establecimiento,
-          puntoExpedicion: config.puntoExpedicion
-        },
-        usage: {
-          currentCount: incrementResult.newCount,
-          remaining: incrementResult.remaining,
-          monthlyLimit: usageInfo.limit
-        },
-        note: "Factura registrada - funcionalidad completa pendiente de implementación"
-      });
+      res.json(await DescuentoService.reporteMensual(periodo));
     } catch (error) {
-      console.error("Error creating invoice:", error);
-      res.status(500).json({ error: "Failed to create invoice" });
+      console.error("Error generating discounts report:", error);
+      res.status(500).json({ error: "Failed to generate discounts report" });
     }
   });
 
-  // Create receipt route (protected by both timbrado validation and usage limits)
-  app.post("/api/sales/receipt", 
-    AuthMiddleware.requireAuth,
-    AuthMiddleware.requireUserOrAdmin,
-    enforceUsageLimit,
-    requireActiveTimbrado, 
-    async (req: AuthenticatedRequest, res: Response) => {
+  // Libro de Ventas in the DNIT RG 90 layout (?mes=YYYY-MM&formato=zip|csv)
+  app.get("/api/reports/libro-ventas/rg90", AuthMiddleware.requireAuth, AuthMiddleware.requireAdmin, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Both timbrado and usage limits have been validated by middleware
-      const config = (req as any).companyConfig;
-      const usageInfo = (req as any).usageInfo;
-      const userId = req.session.user!.id;
+      const periodo = periodoLibroVentas(req.query.mes);
+      if (!periodo) {
+        return res.status(400).json({
+          error: "Invalid period",
+          details: "El mes debe tener el formato AAAA-MM"
+        });
+      }
 
-      // Increment user's invoice count
-      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
-      if (!incrementResult.success) {
-        return res.status(500).json({ 
-          error: "Failed to update usage counter",
-          details: "No se pudo actualizar el contador de uso"
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig) {
+        return res.status(400).json({
+          error: "Company configuration not found",
+          details: "Debe configurar el RUC de la empresa antes de exportar el Libro de Ventas"
         });
       }
 
-      // Update session with new invoice count
-      if (req.session.user) {
-        req.session.user.currentMonthInvoices = incrementResult.newCount!;
+      const libro = await LibroVentasService.generar(periodo);
+      const nombreArchivo = LibroVentasService.nombreArchivo(libro);
+
+      if (req.query.formato === "csv") {
+        res.setHeader("Content-Disposition", `attachment; filename="${nombreArchivo}.csv"`);
+        return res.type("text/csv").send(LibroVentasService.exportarCSV(libro));
       }
 
-      // Future implementation would create actual receipts here
-      res.json({
-        message: "Recibo creado exitosamente",
-        receiptNumber: `REC-${config.establecimiento}-${config.puntoExpedicion}-${Date.now()}`,
-        timbrado: {
-          numero: config.timbradoNumero,
-          establecimiento: config.establecimiento,
-          puntoExpedicion: config.puntoExpedicion
-        },
-        usage: {
-          currentCount: incrementResult.newCount,
-          remaining: incrementResult.remaining,
-          monthlyLimit: usageInfo.limit
-        },
-        note: "Recibo registrado - funcionalidad completa pendiente de implementación"
-      });
+      const zip = await LibroVentasService.exportarZIP(libro);
+      res.setHeader("Content-Disposition", `attachment; filename="${nombreArchivo}.zip"`);
+      res.type("application/zip").send(zip);
     } catch (error) {
-      console.error("Error creating receipt:", error);
-      res.status(500).json({ error: "Failed to create receipt" });
+      console.error("Error exporting sales ledger:", error);
+      res.status(500).json({ error: "Failed to export sales ledger" });
     }
   });
 
-  // ========================
-  // SALES ROUTES - WITH TIMBRADO CHECKS
-  // Sales are fiscal documents requiring valid timbrado
-  // ========================
+  // Credit Notes (Nota de Crédito) Routes
+  app.get("/api/notas-credito", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const notas = await storage.getNotasCredito();
+      res.json(notas);
+    } catch (error) {
+      console.error("Error fetching credit notes:", error);
+      res.status(500).json({ error: "Failed to fetch credit notes" });
+    }
+  });
 
-  // Get all sales
-  app.get("/api/sales", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  app.get("/api/notas-credito/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const sales = await storage.getSales();
-      res.json(sales);
+      const notaCredito = await storage.getNotaCredito(req.params.id);
+      if (!notaCredito) {
+        return res.status(404).json({ error: "Credit note not found" });
+      }
+
+      const items = await storage.getNotaCreditoItems(notaCredito.id);
+      res.json({ ...notaCredito, items });
     } catch (error) {
-      console.error("Error fetching sales:", error);
-      res.status(500).json({ error: "Failed to fetch sales" });
+      console.error("Error fetching credit note:", error);
+      res.status(500).json({ error: "Failed to fetch credit note" });
     }
   });
 
-  // Get specific sale
-  app.get("/api/sales/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  // Credit notes of an invoice with the amount that can still be credited (and the items to credit)
+  app.get("/api/sales/:id/notas-credito", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
       const sale = await storage.getSale(req.params.id);
       if (!sale) {
         return res.status(404).json({ error: "Sale not found" });
       }
-      res.json(sale);
+
+      const saldo = await NotaCreditoService.getSaldo(sale);
+      const items = await storage.getSaleItems(sale.id);
+      res.json({ ...saldo, items });
     } catch (error) {
-      console.error("Error fetching sale:", error);
-      res.status(500).json({ error: "Failed to fetch sale" });
+      console.error("Error fetching credit notes for sale:", error);
+      res.status(500).json({ error: "Failed to fetch credit notes for sale" });
     }
   });
 
-  // Create standalone sale (WITH timbrado checks - fiscal document)
-  app.post("/api/sales", 
+  app.post("/api/notas-credito",
     AuthMiddleware.requireAuth,
-    AuthMiddleware.requireUserOrAdmin,
-    enforceUsageLimit,
+    AuthMiddleware.requireAdmin,
     requireActiveTimbrado,
     async (req: AuthenticatedRequest, res: Response) => {
     try {
-      // Timbrado and usage limits have been validated by middleware
       const companyConfig = (req as any).companyConfig;
       const userId = req.session.user!.id;
-      
-      // Validate sale data
-      const validation = saleWithItemsSchema.safeParse(req.body);
+
+      const validation = createNotaCreditoSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -1641,206 +3656,255 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Generate sequential invoice number
-      const lastSale = await storage.getLastSale();
-      const nextNumber = lastSale ? extractInvoiceNumber(lastSale.numeroFactura) + 1 : 1;
-      const numeroFactura = generateInvoiceNumber(
-        companyConfig.establecimiento,
-        companyConfig.puntoExpedicion,
-        nextNumber
-      );
+      const data = validation.data;
+      const sale = await storage.getSale(data.saleId);
+      if (!sale) {
+        return res.status(404).json({
+          error: "Sale not found",
+          details: "Factura no encontrada"
+        });
+      }
 
-      // Create sale with generated invoice number and creator tracking
-      const saleToCreate = {
-        ...validation.data,
-        numeroFactura,
-        timbradoUsado: companyConfig.timbradoNumero,
-        createdBy: userId,
-      };
+      if (sale.anulada) {
+        return res.status(409).json({
+          error: "Sale is cancelled",
+          details: "No se puede emitir una nota de crédito sobre una factura anulada"
+        });
+      }
 
-      const sale = await storage.createSale(saleToCreate);
-      
-      // Create sale items if provided
-      if (req.body.items && Array.isArray(req.body.items)) {
-        for (const item of req.body.items) {
-          // Validate each item individually
-          const itemValidation = frontendSaleItemSchema.safeParse(item);
-          if (!itemValidation.success) {
-            return res.status(400).json({
-              error: "Invalid item data",
-              details: `Item validation failed: ${itemValidation.error.errors.map(e => e.message).join(', ')}`
-            });
-          }
-
-          await storage.createSaleItem({
-            saleId: sale.id,
-            serviceId: item.type === 'service' ? item.id : null,
-            comboId: item.type === 'combo' ? item.id : null,
-            inventoryItemId: item.type === 'product' ? item.id : null,
-            nombre: item.name,
-            precioUnitario: item.price.toString(),
-            cantidad: item.quantity,
-            subtotal: (item.price * item.quantity).toString(),
+      if (sale.sifenEstado === "rechazado") {
+        return res.status(409).json({
+          error: "Sale was rejected by SIFEN",
+          details: "La factura fue rechazada por SIFEN. Corríjala y reenvíela antes de emitir una nota de crédito."
+        });
+      }
+
+      const saleItems = await storage.getSaleItems(sale.id);
+      const calculo = await NotaCreditoService.calcular(sale, saleItems, data);
+      if (!calculo.success || !calculo.calculo) {
+        return res.status(calculo.code === "INVALID_ITEM" ? 400 : 409).json({
+          error: "Invalid credit note amount",
+          details: calculo.error,
+          code: calculo.code
+        });
+      }
+
+      // Cash paid on the invoice is given back from the drawer of the user's open session
+      const reembolso = await CajaService.reembolsoEfectivo(sale, calculo.calculo.total);
+      let sesionCajaId: string | null = null;
+      if (reembolso > 0) {
+        const caja = await CajaService.sesionParaPago(userId, reembolso);
+        if (!caja.success) {
+          return res.status(409).json({
+            error: "Cash register unavailable",
+            details: caja.error,
+            code: caja.code
           });
         }
+        sesionCajaId = caja.sesion!.id;
       }
 
-      // Increment user's invoice count after successful creation
-      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
-      if (incrementResult.success && req.session.user) {
-        req.session.user.currentMonthInvoices = incrementResult.newCount!;
+      // Credit notes have their own sequence within the cashier's establecimiento and punto de expedición
+      const establecimiento = (req as any).establecimiento.codigo;
+      const puntoExpedicion = (req as any).puntoExpedicion.codigo;
+      const reserva = await NumeracionService.reservar(
+        { tipoDocumento: 5, timbrado: companyConfig.timbradoNumero, establecimiento, puntoExpedicion },
+        { numeroInicial: 1 }
+      );
+      if (!reserva.success || reserva.numero === undefined) {
+        return res.status(403).json({
+          error: "Operación de facturación bloqueada",
+          details: reserva.error,
+          code: reserva.code
+        });
+      }
+      const nextNumber = reserva.numero;
+      const numero = generateInvoiceNumber(establecimiento, puntoExpedicion, nextNumber);
+
+      const fecha = new Date();
+      const cdc = generateCDC({
+        tipoDocumento: 5, // Nota de crédito electrónica
+        ruc: companyConfig.ruc,
+        establecimiento,
+        puntoExpedicion,
+        numero: nextNumber,
+        fecha
+      });
+
+      const { lineas, subtotal, impuestos, total } = calculo.calculo;
+      const notaCredito = await storage.createNotaCredito({
+        numero,
+        saleId: sale.id,
+        customerId: sale.customerId,
+        fecha,
+        motivo: data.motivo,
+        descripcion: data.descripcion,
+        subtotal: subtotal.toString(),
+        impuestos: impuestos.toString(),
+        total: total.toString(),
+        timbradoUsado: companyConfig.timbradoNumero,
+        cdc,
+        reembolsoEfectivo: reembolso.toString(),
+        sesionCajaId,
+        createdBy: userId
+      });
+
+      const items = [];
+      for (const linea of lineas) {
+        items.push(await storage.createNotaCreditoItem({
+          notaCreditoId: notaCredito.id,
+          saleItemId: linea.saleItemId,
+          nombre: linea.nombre,
+          cantidad: linea.cantidad,
+          precioUnitario: linea.precioUnitario.toString(),
+          subtotal: linea.subtotal.toString(),
+          tasaIva: linea.tasaIva
+        }));
+      }
+
+      // Returned goods go back to stock; discounts and adjustments leave it as is
+      if (InventarioService.devuelveMercaderia(data.motivo)) {
+        await InventarioService.reponer(lineas.map(linea => ({
+          inventoryItemId: saleItems.find(item => item.id === linea.saleItemId)?.inventoryItemId,
+          cantidad: linea.cantidad
+        })), { saleId: sale.id, referencia: numero, motivo: `Nota de crédito: ${data.descripcion}`, userId });
       }
 
+      console.log('AUDIT_LOG:', JSON.stringify({
+        action: 'CREATE_NOTA_CREDITO',
+        notaCreditoId: notaCredito.id,
+        numero,
+        numeroFactura: sale.numeroFactura,
+        total,
+        reembolsoEfectivo: reembolso,
+        adminUserId: userId,
+        adminUserName: req.session.user!.fullName,
+        timestamp: new Date().toISOString()
+      }, null, 2));
+
       res.json({
-        message: "Sale created successfully",
+        message: "Nota de crédito emitida exitosamente",
+        notaCredito: { ...notaCredito, items }
+      });
+    } catch (error) {
+      console.error("Error creating credit note:", error);
+      res.status(500).json({
+        error: "Failed to create credit note",
+        details: "Error al emitir la nota de crédito"
+      });
+    }
+  });
+
+  // Get credit note print data (original invoice included for the reference block)
+  app.get("/api/print/notas-credito/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const notaCredito = await storage.getNotaCredito(req.params.id);
+      if (!notaCredito) {
+        return res.status(404).json({ error: "Credit note not found" });
+      }
+
+      const items = await storage.getNotaCreditoItems(notaCredito.id);
+      const sale = await storage.getSale(notaCredito.saleId);
+      const customer = notaCredito.customerId ? await storage.getCustomer(notaCredito.customerId) : null;
+      const companyConfig = await storage.getCompanyConfig();
+
+      res.json({
+        notaCredito,
+        items,
         sale,
-        invoiceNumber: numeroFactura,
-        timbrado: {
-          numero: companyConfig.timbradoNumero,
-          establecimiento: companyConfig.establecimiento,
-          puntoExpedicion: companyConfig.puntoExpedicion
-        }
+        customer,
+        companyConfig
       });
     } catch (error) {
-      console.error("Error creating sale:", error);
-      res.status(500).json({ error: "Failed to create sale" });
+      console.error("Error fetching credit note for printing:", error);
+      res.status(500).json({ error: "Failed to fetch credit note for printing" });
     }
   });
 
-  app.post("/api/sales/create-from-order", 
-    AuthMiddleware.requireAuth,
-    AuthMiddleware.requireUserOrAdmin,
-    enforceUsageLimit,
-    requireActiveTimbrado, 
-    async (req: AuthenticatedRequest, res: Response) => {
+  // Get SIFEN electronic document XML for a credit note (?signed=true to sign it)
+  app.get("/api/notas-credito/:id/xml", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const { saleData, action } = req.body;
-      
-      // Validate sale data with new enhanced validation
-      const validation = saleWithItemsSchema.safeParse(saleData);
-      if (!validation.success) {
+      const notaCredito = await storage.getNotaCredito(req.params.id);
+      if (!notaCredito) {
+        return res.status(404).json({ error: "Credit note not found" });
+      }
+
+      const sale = await storage.getSale(notaCredito.saleId);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
+      }
+
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig) {
         return res.status(400).json({
-          error: "Validation failed",
-          details: validation.error.errors
+          error: "Company configuration not found",
+          details: "Debe configurar los datos fiscales de la empresa antes de generar el documento electrónico"
         });
       }
 
-      const companyConfig = (req as any).companyConfig;
-      const userId = req.session.user!.id;
-      
-      // Generate sequential invoice number
-      const lastSale = await storage.getLastSale();
-      const nextNumber = lastSale ? extractInvoiceNumber(lastSale.numeroFactura) + 1 : 1;
-      const numeroFactura = generateInvoiceNumber(
-        companyConfig.establecimiento,
-        companyConfig.puntoExpedicion,
-        nextNumber
-      );
+      const items = await storage.getNotaCreditoItems(notaCredito.id);
+      const customer = notaCredito.customerId ? await storage.getCustomer(notaCredito.customerId) : null;
 
-      // Create sale with generated invoice number and creator tracking
-      const saleToCreate = {
-        ...validation.data,
-        numeroFactura,
-        timbradoUsado: companyConfig.timbradoNumero,
-        createdBy: userId, // Track who created the sale
-      };
+      let xml = SifenXmlService.buildNotaCredito({ notaCredito, items, sale, companyConfig, customer });
 
-      const sale = await storage.createSale(saleToCreate);
-      
-      // Create sale items with proper type mapping
-      if (saleData.items && Array.isArray(saleData.items)) {
-        for (const item of saleData.items) {
-          // Validate each item individually
-          const itemValidation = frontendSaleItemSchema.safeParse(item);
-          if (!itemValidation.success) {
-            return res.status(400).json({
-              error: "Invalid item data",
-              details: `Item validation failed: ${itemValidation.error.errors.map(e => e.message).join(', ')}`
-            });
-          }
-
-          await storage.createSaleItem({
-            saleId: sale.id,
-            serviceId: item.type === 'service' ? item.id : null,
-            comboId: item.type === 'combo' ? item.id : null,
-            inventoryItemId: item.type === 'product' ? item.id : null,
-            nombre: item.name,
-            precioUnitario: item.price.toString(),
-            cantidad: item.quantity,
-            subtotal: (item.price * item.quantity).toString(),
+      if (req.query.signed === "true") {
+        const dnitConfig = await storage.getDnitConfig();
+        const signature = SifenSignatureService.signDE(xml, dnitConfig);
+        if (!signature.success || !signature.signedXml) {
+          return res.status(400).json({
+            error: "Failed to sign electronic document",
+            details: signature.error,
+            code: signature.code
           });
         }
+        xml = signature.signedXml;
       }
 
-      // Update work order status if needed (mark as invoiced)
-      if (saleData.workOrderId) {
-        await storage.updateWorkOrder(saleData.workOrderId, {
-          estado: "entregado" // Mark as delivered when invoiced
-        });
-      }
-
-      // Increment user's invoice count for usage tracking
-      const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
-      if (!incrementResult.success) {
-        return res.status(500).json({ 
-          error: "Failed to update usage counter",
-          details: "No se pudo actualizar el contador de uso"
-        });
-      }
-
-      // Audit log for sale creation
-      console.log(`AUDIT_LOG: Sale created - ID: ${sale.id}, Invoice: ${sale.numeroFactura}, User: ${userId}, Items: ${saleData.items?.length || 0}`);
+      res.setHeader("Content-Disposition", `inline; filename="NC-${notaCredito.numero}.xml"`);
+      res.type("application/xml").send(xml);
+    } catch (error) {
+      console.error("Error generating credit note XML:", error);
+      res.status(500).json({ error: "Failed to generate electronic document" });
+    }
+  });
 
-      res.json({
-        ...sale,
-        items: saleData.items,
-        action
-      });
+  // Debit Notes (Nota de Débito) Routes
+  app.get("/api/notas-debito", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const notas = await storage.getNotasDebito();
+      res.json(notas);
     } catch (error) {
-      console.error("Error creating sale from order:", error);
-      res.status(500).json({ error: "Failed to create sale" });
+      console.error("Error fetching debit notes:", error);
+      res.status(500).json({ error: "Failed to fetch debit notes" });
     }
   });
 
-  // Legacy print route - use GET /api/print/invoices/:id instead
-  app.get("/api/sales/:id/print", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+  app.get("/api/notas-debito/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const sale = await storage.getSale(req.params.id);
-      if (!sale) {
-        return res.status(404).json({ error: "Sale not found" });
+      const notaDebito = await storage.getNotaDebito(req.params.id);
+      if (!notaDebito) {
+        return res.status(404).json({ error: "Debit note not found" });
       }
 
-      const saleItems = await storage.getSaleItems(req.params.id);
-      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
-      const companyConfig = await storage.getCompanyConfig();
-
-      // NOTE: This legacy route does not check timbrado - use /api/print/invoices/:id for fiscal compliance
-      res.json({
-        sale,
-        items: saleItems,
-        customer,
-        companyConfig
-      });
+      const items = await storage.getNotaDebitoItems(notaDebito.id);
+      res.json({ ...notaDebito, items });
     } catch (error) {
-      console.error("Error fetching sale for printing:", error);
-      res.status(500).json({ error: "Failed to fetch sale for printing" });
+      console.error("Error fetching debit note:", error);
+      res.status(500).json({ error: "Failed to fetch debit note" });
     }
   });
 
-  // Edit invoice route - Admin only with 24-hour window
-  app.put("/api/sales/:id", 
-    AuthMiddleware.requireAuth, 
+  // Charges added after invoicing - the original sale is never modified
+  app.post("/api/notas-debito",
+    AuthMiddleware.requireAuth,
     AuthMiddleware.requireAdmin,
-    validateSaleModification,
-    // Note: Removed requireActiveTimbrado to allow admin corrections even with expired timbrado
+    requireActiveTimbrado,
     async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const saleId = req.params.id;
-      const existingSale = (req as any).existingSale;
-      const updateData = req.body;
+      const companyConfig = (req as any).companyConfig;
+      const userId = req.session.user!.id;
 
-      // Validate update data with items validation
-      const validation = saleWithItemsSchema.partial().safeParse(updateData);
+      const validation = createNotaDebitoSchema.safeParse(req.body);
       if (!validation.success) {
         return res.status(400).json({
           error: "Validation failed",
@@ -1848,186 +3912,188 @@ export async function registerRoutes(app: Express): Promise<Server> {
         });
       }
 
-      // Backup original data for audit log
-      const originalSaleItems = await storage.getSaleItems(saleId);
-      const auditLog = {
-        action: 'UPDATE_SALE',
-        saleId,
-        adminUserId: req.session.user!.id,
-        adminUserName: req.session.user!.fullName,
-        timestamp: new Date().toISOString(),
-        original: {
-          sale: existingSale,
-          items: originalSaleItems
-        },
-        new: {
-          sale: updateData,
-          items: updateData.items
-        }
-      };
+      const data = validation.data;
+      const sale = await storage.getSale(data.saleId);
+      if (!sale) {
+        return res.status(404).json({
+          error: "Sale not found",
+          details: "Factura no encontrada"
+        });
+      }
 
-      // Remove items from updateData as they should be handled separately
-      const { items, ...saleUpdateData } = updateData;
+      if (sale.anulada) {
+        return res.status(409).json({
+          error: "Sale is cancelled",
+          details: "No se puede emitir una nota de débito sobre una factura anulada"
+        });
+      }
 
-      // Update the sale
-      const updatedSale = await storage.updateSale(saleId, {
-        ...saleUpdateData,
-        updatedAt: new Date().toISOString()
-      });
+      if (sale.sifenEstado === "rechazado") {
+        return res.status(409).json({
+          error: "Sale was rejected by SIFEN",
+          details: "La factura fue rechazada por SIFEN. Corríjala y reenvíela antes de emitir una nota de débito."
+        });
+      }
 
-      if (!updatedSale) {
-        return res.status(500).json({
-          error: "Failed to update sale",
-          details: "Error al actualizar la venta"
+      const calculo = await NotaDebitoService.calcular(sale, data.items);
+      if (!calculo.success || !calculo.calculo) {
+        return res.status(400).json({
+          error: "Invalid debit note items",
+          details: calculo.error,
+          code: calculo.code
         });
       }
 
-      // Handle sale items update if provided
-      if (items && Array.isArray(items)) {
-        // Validate each item
-        for (const item of items) {
-          const itemValidation = frontendSaleItemSchema.safeParse(item);
-          if (!itemValidation.success) {
-            return res.status(400).json({
-              error: "Invalid item data",
-              details: `Item validation failed: ${itemValidation.error.errors.map(e => e.message).join(', ')}`
-            });
-          }
-        }
+      // Debit notes have their own sequence within the cashier's establecimiento and punto de expedición
+      const establecimiento = (req as any).establecimiento.codigo;
+      const puntoExpedicion = (req as any).puntoExpedicion.codigo;
+      const reserva = await NumeracionService.reservar(
+        { tipoDocumento: 6, timbrado: companyConfig.timbradoNumero, establecimiento, puntoExpedicion },
+        { numeroInicial: 1 }
+      );
+      if (!reserva.success || reserva.numero === undefined) {
+        return res.status(403).json({
+          error: "Operación de facturación bloqueada",
+          details: reserva.error,
+          code: reserva.code
+        });
+      }
+      const nextNumber = reserva.numero;
+      const numero = generateInvoiceNumber(establecimiento, puntoExpedicion, nextNumber);
+
+      const fecha = new Date();
+      const cdc = generateCDC({
+        tipoDocumento: 6, // Nota de débito electrónica
+        ruc: companyConfig.ruc,
+        establecimiento,
+        puntoExpedicion,
+        numero: nextNumber,
+        fecha
+      });
 
-        // Delete existing items
-        await storage.deleteSaleItemsBySale(saleId);
-        
-        // Create new items with correct type mapping
-        for (const item of items) {
-          await storage.createSaleItem({
-            saleId: updatedSale.id,
-            serviceId: item.type === 'service' ? item.id : null,
-            comboId: item.type === 'combo' ? item.id : null,
-            inventoryItemId: item.type === 'product' ? item.id : null,
-            nombre: item.name,
-            precioUnitario: item.price.toString(),
-            cantidad: item.quantity,
-            subtotal: (item.price * item.quantity).toString(),
-          });
-        }
+      const { lineas, subtotal, impuestos, total } = calculo.calculo;
+      const notaDebito = await storage.createNotaDebito({
+        numero,
+        saleId: sale.id,
+        customerId: sale.customerId,
+        fecha,
+        motivo: data.motivo,
+        descripcion: data.descripcion,
+        subtotal: subtotal.toString(),
+        impuestos: impuestos.toString(),
+        total: total.toString(),
+        timbradoUsado: companyConfig.timbradoNumero,
+        cdc,
+        createdBy: userId
+      });
+
+      const items = [];
+      for (const linea of lineas) {
+        items.push(await storage.createNotaDebitoItem({
+          notaDebitoId: notaDebito.id,
+          serviceId: linea.serviceId,
+          nombre: linea.nombre,
+          cantidad: linea.cantidad,
+          precioUnitario: linea.precioUnitario.toString(),
+          subtotal: linea.subtotal.toString(),
+          tasaIva: linea.tasaIva
+        }));
       }
 
-      // Enhanced audit trail logging
-      console.log('AUDIT_LOG:', JSON.stringify(auditLog, null, 2));
+      console.log('AUDIT_LOG:', JSON.stringify({
+        action: 'CREATE_NOTA_DEBITO',
+        notaDebitoId: notaDebito.id,
+        numero,
+        numeroFactura: sale.numeroFactura,
+        total,
+        adminUserId: userId,
+        adminUserName: req.session.user!.fullName,
+        timestamp: new Date().toISOString()
+      }, null, 2));
 
       res.json({
-        message: "Factura actualizada exitosamente",
-        sale: updatedSale,
-        hoursElapsed: Math.round((req as any).hoursElapsed),
-        modifiedBy: req.session.user!.fullName
+        message: "Nota de débito emitida exitosamente",
+        notaDebito: { ...notaDebito, items }
       });
     } catch (error) {
-      console.error("Error updating sale:", error);
-      res.status(500).json({ 
-        error: "Failed to update sale",
-        details: "Error al actualizar la factura"
+      console.error("Error creating debit note:", error);
+      res.status(500).json({
+        error: "Failed to create debit note",
+        details: "Error al emitir la nota de débito"
       });
     }
   });
 
-  // Delete invoice route - Admin only with 24-hour window
-  app.delete("/api/sales/:id", 
-    AuthMiddleware.requireAuth, 
-    AuthMiddleware.requireAdmin,
-    validateSaleModification,
-    // Note: Removed requireActiveTimbrado to allow admin corrections even with expired timbrado
-    async (req: AuthenticatedRequest, res: Response) => {
+  // Get debit note print data (original invoice included for the reference block)
+  app.get("/api/print/notas-debito/:id", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
     try {
-      const saleId = req.params.id;
-      const existingSale = (req as any).existingSale;
+      const notaDebito = await storage.getNotaDebito(req.params.id);
+      if (!notaDebito) {
+        return res.status(404).json({ error: "Debit note not found" });
+      }
 
-      // Get sale items for audit log before deletion
-      const saleItems = await storage.getSaleItems(saleId);
+      const items = await storage.getNotaDebitoItems(notaDebito.id);
+      const sale = await storage.getSale(notaDebito.saleId);
+      const customer = notaDebito.customerId ? await storage.getCustomer(notaDebito.customerId) : null;
+      const companyConfig = await storage.getCompanyConfig();
 
-      // Enhanced audit trail logging
-      const auditLog = {
-        action: 'DELETE_SALE',
-        saleId,
-        adminUserId: req.session.user!.id,
-        adminUserName: req.session.user!.fullName,
-        timestamp: new Date().toISOString(),
-        deletedSale: existingSale,
-        deletedItems: saleItems
-      };
-      console.log('AUDIT_LOG:', JSON.stringify(auditLog, null, 2));
+      res.json({
+        notaDebito,
+        items,
+        sale,
+        customer,
+        companyConfig
+      });
+    } catch (error) {
+      console.error("Error fetching debit note for printing:", error);
+      res.status(500).json({ error: "Failed to fetch debit note for printing" });
+    }
+  });
 
-      // Check if we need to handle usage tracking (find who created the original sale)
-      // We look for a createdBy field or assume the first user for backwards compatibility
-      let saleCreatorId: string | null = null;
-      
-      // If sale has a createdBy field, use that; otherwise try to infer from session
-      if (existingSale.createdBy) {
-        saleCreatorId = existingSale.createdBy;
-      } else {
-        // For older sales without createdBy, try to find reasonable approach
-        console.log('Warning: Sale has no createdBy field, cannot decrement usage for original creator');
+  // Get SIFEN electronic document XML for a debit note (?signed=true to sign it)
+  app.get("/api/notas-debito/:id/xml", AuthMiddleware.requireAuth, async (req: AuthenticatedRequest, res: Response) => {
+    try {
+      const notaDebito = await storage.getNotaDebito(req.params.id);
+      if (!notaDebito) {
+        return res.status(404).json({ error: "Debit note not found" });
       }
 
-      // Delete sale items first (foreign key constraint)
-      await storage.deleteSaleItemsBySale(saleId);
-
-      // Delete the sale
-      const deleteResult = await storage.deleteSale(saleId);
-      if (!deleteResult) {
-        return res.status(500).json({
-          error: "Failed to delete sale",
-          details: "Error al eliminar la venta"
-        });
-      }
-
-      // Handle usage tracking: Decrement usage for the original sale creator
-      // Only if sale was created in current usage period
-      if (saleCreatorId) {
-        try {
-          const saleCreator = await storage.getUser(saleCreatorId);
-          if (saleCreator) {
-            // Check if sale was created within current usage period
-            const saleCreatedAt = new Date(existingSale.createdAt);
-            const usageResetDate = new Date(saleCreator.usageResetDate);
-            
-            if (saleCreatedAt >= usageResetDate) {
-              // Sale was created in current usage period, safe to decrement
-              const decrementResult = await UsageTrackingService.decrementInvoiceCount(saleCreatorId);
-              if (decrementResult.success) {
-                console.log(`Decremented usage count for user ${saleCreatorId} (was: ${decrementResult.newCount! + 1}, now: ${decrementResult.newCount})`);
-              } else {
-                console.warn(`Failed to decrement usage count for user ${saleCreatorId}`);
-              }
-            } else {
-              console.log(`Sale was created before current usage period, not decrementing usage count`);
-            }
-          }
-        } catch (error) {
-          console.error('Error handling usage tracking for deleted sale:', error);
-          // Don't fail the delete operation for usage tracking errors
-        }
+      const sale = await storage.getSale(notaDebito.saleId);
+      if (!sale) {
+        return res.status(404).json({ error: "Sale not found" });
       }
 
-      // Update work order status if it was linked
-      if (existingSale.workOrderId) {
-        await storage.updateWorkOrder(existingSale.workOrderId, {
-          estado: "terminado" // Mark as finished but not invoiced
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig) {
+        return res.status(400).json({
+          error: "Company configuration not found",
+          details: "Debe configurar los datos fiscales de la empresa antes de generar el documento electrónico"
         });
       }
 
-      res.json({
-        message: "Factura eliminada exitosamente",
-        deletedInvoice: existingSale.numeroFactura,
-        hoursElapsed: Math.round((req as any).hoursElapsed),
-        deletedBy: req.session.user!.fullName
-      });
+      const items = await storage.getNotaDebitoItems(notaDebito.id);
+      const customer = notaDebito.customerId ? await storage.getCustomer(notaDebito.customerId) : null;
+
+      let xml = SifenXmlService.buildNotaDebito({ notaDebito, items, sale, companyConfig, customer });
+
+      if (req.query.signed === "true") {
+        const dnitConfig = await storage.getDnitConfig();
+        const signature = SifenSignatureService.signDE(xml, dnitConfig);
+        if (!signature.success || !signature.signedXml) {
+          return res.status(400).json({
+            error: "Failed to sign electronic document",
+            details: signature.error,
+            code: signature.code
+          });
+        }
+        xml = signature.signedXml;
+      }
+
+      res.setHeader("Content-Disposition", `inline; filename="ND-${notaDebito.numero}.xml"`);
+      res.type("application/xml").send(xml);
     } catch (error) {
-      console.error("Error deleting sale:", error);
-      res.status(500).json({ 
-        error: "Failed to delete sale",
-        details: "Error al eliminar la factura"
-      });
+      console.error("Error generating debit note XML:", error);
+      res.status(500).json({ error: "Failed to generate electronic document" });
     }
   });
 
@@ -2060,6 +4126,379 @@ export async function registerRoutes(app: Express): Promise<Server> {
     return parseInt(parts[parts.length - 1]) || 0;
   }
 
+  // Helper function to read the month of the Libro de Ventas (YYYY-MM, current month by default)
+  function periodoLibroVentas(mes: unknown): string | null {
+    if (mes === undefined) {
+      const now = new Date();
+      return `${now.getFullYear()}-${(now.getMonth() + 1).toString().padStart(2, '0')}`;
+    }
+    return typeof mes === "string" && /^\d{4}-(0[1-9]|1[0-2])$/.test(mes) ? mes : null;
+  }
+
+  // Helper function to price the lines of a sale from the catalog and the prices agreed on its work order
+  async function cotizarItemsVenta(
+    items: LineaVenta[],
+    regimenTurismo: boolean,
+    workOrderId?: string | null,
+    descuento?: DescuentoVenta | null
+  ) {
+    const [services, combos, inventoryItems, workOrderItems] = await Promise.all([
+      storage.getServices(),
+      storage.getServiceCombos(),
+      storage.getInventoryItems(),
+      workOrderId ? storage.getWorkOrderItems(workOrderId) : Promise.resolve([])
+    ]);
+    return cotizarVenta(items, { services, combos, inventoryItems, workOrderItems }, { regimenTurismo, descuento });
+  }
+
+  // Helper function to get the régimen de turismo of a sale from its customer; a tourist who does not
+  // meet the conditions of the régimen on the sale date cannot be invoiced exento
+  async function regimenTurismoVenta(customerId: string | null | undefined, fecha: Date): Promise<{
+    success: boolean;
+    regimenTurismo: boolean;
+    error?: string;
+    code?: TurismoErrorCode;
+  }> {
+    const customer = customerId ? await storage.getCustomer(customerId) : undefined;
+    if (!customer?.regimenTurismo) {
+      return { success: true, regimenTurismo: false };
+    }
+    return { ...validarTurista(customer, fecha), regimenTurismo: true };
+  }
+
+  // Helper function to create a sale: the cashier's open session, catalog prices, discount authorization,
+  // stock, credit condition, currency and payments are checked before its number is reserved
+  async function crearVenta(req: AuthenticatedRequest, data: SaleWithItemsType): Promise<
+    | {
+        success: true;
+        sale: Sale;
+        pagos: SalePago[];
+        cotizacion: CotizacionVenta;
+        timbrado: { numero: string; establecimiento: string; puntoExpedicion: string };
+      }
+    | { success: false; status: number; body: Record<string, unknown> }
+  > {
+    const companyConfig = (req as any).companyConfig;
+    const userId = req.session.user!.id;
+
+    // Sales are recorded against the cashier's open cash session
+    const caja = await CajaService.sesionParaVenta(userId, (req as any).puntoExpedicion.id);
+    if (!caja.success) {
+      return {
+        success: false,
+        status: 409,
+        body: { error: "Cash register closed", details: caja.error, code: caja.code }
+      };
+    }
+
+    // Price the sale from the catalog before reserving its number; client totals are only a preview
+    const { items, pagos, descuento, autorizadoPor, pinAutorizacion, ...saleData } = data;
+    // The date of issue drives the CDC, exchange rate, tourism check and libro month; it is never taken from the client
+    const fecha = new Date();
+    const turismo = await regimenTurismoVenta(saleData.customerId, fecha);
+    if (!turismo.success) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Tourism regime requirements not met", details: turismo.error, code: turismo.code }
+      };
+    }
+    const regimenTurismo = turismo.regimenTurismo;
+    const precios = await cotizarItemsVenta(items, regimenTurismo, saleData.workOrderId, descuento);
+    if (!precios.success || !precios.cotizacion) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Invalid sale items", details: precios.error, code: precios.code }
+      };
+    }
+    const cotizacion = precios.cotizacion;
+    if (difiereDeCotizacion(cotizacion, data)) {
+      console.log(`AUDIT_LOG: Sale rejected for price mismatch - User: ${userId}, Sent total: ${saleData.total}, Catalog total: ${cotizacion.total}`);
+      return {
+        success: false,
+        status: 409,
+        body: {
+          error: "Price mismatch",
+          details: "Los precios de la venta no coinciden con el catálogo vigente. Revise la venta e intente nuevamente.",
+          code: "PRICE_MISMATCH",
+          cotizacion
+        }
+      };
+    }
+
+    // Discounts beyond the maximum of the cashier's role need the PIN of an admin
+    const autorizacion = await DescuentoService.autorizar(cotizacion, req.session.user!, {
+      autorizadoPor,
+      pin: pinAutorizacion,
+      config: companyConfig
+    });
+    if (!autorizacion.success) {
+      if (autorizacion.code === "INVALID_PIN" || autorizacion.code === "PIN_LOCKED") {
+        console.log(`AUDIT_LOG: Discount authorization failed - User: ${userId}, Admin: ${autorizadoPor}, Reason: ${autorizacion.code}, Discount: ${cotizacion.descuentoTotal}`);
+      }
+      return {
+        success: false,
+        status: descuentoErrorStatus(autorizacion.code),
+        body: { error: "Discount not authorized", details: autorizacion.error, code: autorizacion.code }
+      };
+    }
+
+    // Credit sales need an identified customer and a due date
+    const condicion = CuentasPorCobrarService.validarCondicionVenta(saleData, fecha);
+    if (!condicion.success) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Invalid sale condition", details: condicion.error, code: condicion.code }
+      };
+    }
+
+    // Foreign currency amounts at the rate of the day; fiscal totals stay in guaraníes
+    const conversion = await MonedaService.montosVenta(data.moneda, cotizacion.total, fecha);
+    if (!conversion.success || !conversion.montos) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Invalid sale currency", details: conversion.error, code: conversion.code }
+      };
+    }
+
+    // Payments must add up to the priced total; cash beyond it is given back as change
+    const cobro = PagoService.pagosVenta({ pagos, medioPago: saleData.medioPago, condicionVenta: saleData.condicionVenta }, cotizacion.total);
+    if (!cobro.success || !cobro.pagos) {
+      return {
+        success: false,
+        status: 400,
+        body: { error: "Invalid sale payments", details: cobro.error, code: cobro.code }
+      };
+    }
+
+    // Products are taken out of stock before the number is reserved, unless the admin allows negative stock;
+    // concurrent sales cannot take the same units
+    const lineas = lineasStock(cotizacion);
+    const stock = await InventarioService.apartar(lineas, {
+      permitirNegativo: companyConfig.permitirStockNegativo ?? false
+    });
+    if (!stock.success) {
+      return {
+        success: false,
+        status: 409,
+        body: { error: "Insufficient stock", details: stock.error, code: stock.code }
+      };
+    }
+
+    // Generate sequential invoice number
+    // within the range authorized by the vigente timbrado for this establecimiento/punto
+    const timbrado = (req as any).timbrado;
+    const establecimiento = (req as any).establecimiento.codigo;
+    const puntoExpedicion = (req as any).puntoExpedicion.codigo;
+    const reserva = await NumeracionService.reservar(
+      { tipoDocumento: 1, timbrado: timbrado.numero, establecimiento, puntoExpedicion },
+      (req as any).timbradoRango
+    );
+    if (!reserva.success || reserva.numero === undefined) {
+      await InventarioService.liberar(lineas);
+      return {
+        success: false,
+        status: 403,
+        body: { error: "Operación de facturación bloqueada", details: reserva.error, code: reserva.code }
+      };
+    }
+    const nextNumber = reserva.numero;
+    const numeroFactura = generateInvoiceNumber(establecimiento, puntoExpedicion, nextNumber);
+
+    // From here the number is taken: a sale that cannot be recorded gives its stock back and is voided
+    let sale: Sale | undefined;
+    let salePagos: SalePago[];
+    try {
+      // Build the CDC (Código de Control) of the electronic document
+      const cdc = generateCDC({
+        tipoDocumento: 1, // Factura electrónica
+        ruc: companyConfig.ruc,
+        establecimiento,
+        puntoExpedicion,
+        numero: nextNumber,
+        fecha
+      });
+
+      // Create sale with generated invoice number and creator tracking
+      sale = await storage.createSale({
+        ...saleData,
+        ...montosVenta(cotizacion),
+        ...conversion.montos,
+        medioPago: cobro.medioPago!,
+        regimenTurismo,
+        sesionCajaId: caja.sesion!.id,
+        descuentoAutorizadoPor: autorizacion.autorizadoPor ?? null,
+        fechaVencimiento: saleData.condicionVenta === "credito" ? saleData.fechaVencimiento : null,
+        numeroFactura,
+        fecha,
+        cdc,
+        timbradoUsado: timbrado.numero,
+        createdBy: userId
+      });
+      await createSaleItems(sale.id, cotizacion);
+      await InventarioService.registrarVenta(lineas, { saleId: sale.id, referencia: numeroFactura, userId });
+      salePagos = await PagoService.registrarPagos(sale.id, cobro.pagos);
+    } catch (error) {
+      await descartarVenta(sale, lineas, {
+        numeroFactura,
+        timbrado: timbrado.numero,
+        establecimiento,
+        puntoExpedicion,
+        numero: nextNumber,
+        userId
+      });
+      throw error;
+    }
+    if (autorizacion.autorizadoPor) {
+      console.log(`AUDIT_LOG: Discount authorized - Sale: ${numeroFactura}, User: ${userId}, Authorized by: ${autorizacion.autorizadoPor}, Discount: ${cotizacion.descuentoTotal}`);
+    }
+
+    // Increment user's invoice count after successful creation
+    const incrementResult = await UsageTrackingService.incrementInvoiceCount(userId);
+    if (incrementResult.success && req.session.user) {
+      req.session.user.currentMonthInvoices = incrementResult.newCount!;
+    }
+
+    console.log(`AUDIT_LOG: Sale created - ID: ${sale.id}, Invoice: ${numeroFactura}, User: ${userId}, Items: ${items.length}`);
+
+    return {
+      success: true,
+      sale,
+      pagos: salePagos,
+      cotizacion,
+      timbrado: { numero: timbrado.numero, establecimiento, puntoExpedicion }
+    };
+  }
+
+  // Helper function to undo a sale that failed after its number was reserved: its stock goes back, a sale
+  // already saved is anulada, and the number is inutilizado since it can no longer be issued
+  async function descartarVenta(
+    sale: Sale | undefined,
+    lineas: LineaStock[],
+    numeracion: { numeroFactura: string; timbrado: string; establecimiento: string; puntoExpedicion: string; numero: number; userId: string }
+  ) {
+    const { numeroFactura, userId, numero, ...ubicacion } = numeracion;
+    const motivo = "Error al registrar la venta";
+
+    if (sale) {
+      await InventarioService.deshacerVenta(lineas, { saleId: sale.id, referencia: numeroFactura, motivo, userId });
+      await storage.updateSale(sale.id, {
+        anulada: true,
+        motivoAnulacion: motivo,
+        fechaAnulacion: new Date(),
+        anuladaPor: userId
+      });
+    } else {
+      await InventarioService.liberar(lineas);
+    }
+
+    await storage.createSifenEvento({
+      tipo: "inutilizacion",
+      saleId: sale?.id ?? null,
+      ...ubicacion,
+      tipoDocumento: 1,
+      numeroDesde: numero,
+      numeroHasta: numero,
+      motivo,
+      createdBy: userId
+    });
+    console.log(`AUDIT_LOG: Sale could not be recorded - Invoice: ${numeroFactura}, Timbrado: ${ubicacion.timbrado}, Sale: ${sale?.id ?? "none"}, User: ${userId}. Number inutilizado.`);
+  }
+
+  // Helper function to get the sale totals, IVA liquidation and discounts of a quotation
+  function montosVenta(cotizacion: CotizacionVenta) {
+    return {
+      subtotal: cotizacion.subtotal.toString(),
+      impuestos: cotizacion.impuestos.toString(),
+      total: cotizacion.total.toString(),
+      gravadas10: cotizacion.gravadas10.toString(),
+      gravadas5: cotizacion.gravadas5.toString(),
+      exentas: cotizacion.exentas.toString(),
+      iva10: cotizacion.iva10.toString(),
+      iva5: cotizacion.iva5.toString(),
+      descuentoGlobal: cotizacion.descuentoGlobal.toString(),
+      descuentoGlobalTipo: cotizacion.detalleDescuento?.tipo ?? null,
+      descuentoGlobalValor: cotizacion.detalleDescuento?.valor.toString() ?? null,
+      motivoDescuentoGlobal: cotizacion.detalleDescuento?.motivo ?? null,
+      descuentoTotal: cotizacion.descuentoTotal.toString()
+    };
+  }
+
+  // Helper function to create the items of a sale from its quotation
+  async function createSaleItems(saleId: string, cotizacion: CotizacionVenta) {
+    for (const linea of cotizacion.lineas) {
+      await storage.createSaleItem({
+        saleId,
+        serviceId: linea.type === 'service' ? linea.id : null,
+        comboId: linea.type === 'combo' ? linea.id : null,
+        inventoryItemId: linea.type === 'product' ? linea.id : null,
+        nombre: linea.nombre,
+        precioUnitario: linea.precioUnitario.toString(),
+        cantidad: linea.cantidad,
+        subtotal: linea.subtotal.toString(),
+        tasaIva: linea.tasaIva,
+        descuento: linea.descuentoLinea.toString(),
+        descuentoTipo: linea.detalleDescuento?.tipo ?? null,
+        descuentoValor: linea.detalleDescuento?.valor.toString() ?? null,
+        motivoDescuento: linea.detalleDescuento?.motivo ?? null,
+        descuentoGlobal: linea.descuentoGlobal.toString(),
+      });
+    }
+  }
+
+  // Helper function to list the product quantities of a quotation for the stock
+  function lineasStock(cotizacion: CotizacionVenta): LineaStock[] {
+    return cotizacion.lineas.map(linea => ({
+      inventoryItemId: linea.type === 'product' ? linea.id : null,
+      cantidad: linea.cantidad
+    }));
+  }
+
+  // Helper function to map discount errors to HTTP status codes
+  function descuentoErrorStatus(code: DescuentoErrorCode | undefined): number {
+    switch (code) {
+      case "AUTHORIZATION_REQUIRED":
+      case "INVALID_PIN":
+      case "DISCOUNT_EXCEEDS_MAXIMUM":
+        return 403;
+      case "PIN_LOCKED":
+        return 429;
+      case "USER_NOT_FOUND":
+        return 404;
+      default:
+        return 400;
+    }
+  }
+
+  // Helper function to map stock errors to HTTP status codes
+  function inventarioErrorStatus(code: InventarioErrorCode | undefined): number {
+    switch (code) {
+      case "PRODUCT_NOT_FOUND":
+        return 404;
+      case "INSUFFICIENT_STOCK":
+        return 409;
+      default:
+        return 400;
+    }
+  }
+
+  // Helper function to map cash session errors to HTTP status codes
+  function cajaErrorStatus(code: CajaErrorCode | undefined): number {
+    switch (code) {
+      case "SESSION_NOT_FOUND":
+        return 404;
+      case "NOT_SESSION_OWNER":
+        return 403;
+      case "SESSION_CLOSED":
+        return 409;
+      default:
+        return 400;
+    }
+  }
+
   // Helper function to generate invoice number
   function generateInvoiceNumber(establecimiento: string, puntoExpedicion: string, numero: number): string {
     const paddedNumero = numero.toString().padStart(7, '0');
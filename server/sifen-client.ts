@@ -0,0 +1,394 @@
+import http from "http";
+import https from "https";
+import JSZip from "jszip";
+import { DOMParser } from "@xmldom/xmldom";
+import type { DnitConfig } from "@shared/schema";
+import { SifenSignatureService } from "./sifen-signature";
+import { splitRUC } from "./utils/paraguayan-validators";
+
+/**
+ * SOAP client for the SIFEN web services
+ * Covers siRecepDE, siRecepLoteDE, siConsLoteDE, siConsDE, siConsRUC and siRecepEvento.
+ * The official endpoints use mutual TLS with the same certificate used to sign documents.
+ */
+
+export const SIFEN_HOSTS = {
+  testing: "https://sifen-test.set.gov.py",
+  production: "https://sifen.set.gov.py",
+} as const;
+
+export const SIFEN_PATHS = {
+  recepcionDE: "/de/ws/sync/recibe.wsdl",
+  recepcionLote: "/de/ws/async/recibe-lote.wsdl",
+  consultaLote: "/de/ws/consultas/consulta-lote.wsdl",
+  consultaDE: "/de/ws/consultas/consulta.wsdl",
+  consultaRUC: "/de/ws/consultas/consulta-ruc.wsdl",
+  recepcionEvento: "/de/ws/eventos/evento.wsdl",
+} as const;
+
+// Result codes (dCodRes) the application reacts to
+export const SIFEN_CODES = {
+  DE_APROBADO: "0260",
+  LOTE_RECIBIDO: "0300",
+  LOTE_EN_PROCESAMIENTO: "0361",
+  LOTE_CONCLUIDO: "0362",
+  LOTE_INEXISTENTE: "0364",
+  CDC_INEXISTENTE: "0420",
+  CDC_ENCONTRADO: "0422",
+  RUC_INEXISTENTE: "0500",
+  RUC_ENCONTRADO: "0502",
+  EVENTO_REGISTRADO: "0600",
+} as const;
+
+const SOAP_NAMESPACE = "http://www.w3.org/2003/05/soap-envelope";
+const SIFEN_NAMESPACE = "http://ekuatia.set.gov.py/sifen/xsd";
+const REQUEST_TIMEOUT_MS = 30000;
+
+export interface SifenMessage {
+  codigo: string;
+  mensaje: string;
+}
+
+export interface SifenDocumentResult {
+  id: string; // CDC of the document (or event id)
+  estado: string; // Aprobado | Aprobado con observación | Rechazado
+  protocolo: string | null;
+  fechaProceso: string | null;
+  mensajes: SifenMessage[];
+}
+
+export interface SifenLoteReceipt extends SifenMessage {
+  protocoloLote: string | null;
+  fechaProceso: string | null;
+  tiempoProcesamiento: number | null; // Minutes suggested by SIFEN before polling
+}
+
+export interface SifenLoteStatus extends SifenMessage {
+  fechaProceso: string | null;
+  resultados: SifenDocumentResult[];
+}
+
+export interface SifenConsultaDE extends SifenMessage {
+  fechaProceso: string | null;
+  xml: string | null;
+}
+
+export interface SifenConsultaRUC extends SifenMessage {
+  contribuyente: {
+    ruc: string;
+    razonSocial: string;
+    estado: string;
+    facturadorElectronico: boolean;
+  } | null;
+}
+
+export class SifenClient {
+  private readonly baseUrl: string;
+
+  constructor(private readonly config: DnitConfig) {
+    this.baseUrl = SifenClient.resolveBaseUrl(config);
+  }
+
+  /**
+   * Resolve the base URL for the configured operation mode
+   * Official hosts must match the mode; any other host (mock server, proxy) is used as-is
+   */
+  static resolveBaseUrl(config: Pick<DnitConfig, "endpointUrl" | "operationMode">): string {
+    const mode = config.operationMode ?? "testing";
+    const endpoint = (config.endpointUrl || "").trim().replace(/\/+$/, "");
+
+    if (!endpoint) {
+      return SIFEN_HOSTS[mode];
+    }
+
+    if (!/^https?:\/\//.test(endpoint)) {
+      throw new Error("URL del endpoint inválida");
+    }
+
+    const origin = new URL(endpoint).origin;
+    if (mode === "production" && origin === SIFEN_HOSTS.testing) {
+      throw new Error("El modo producción no puede usar el ambiente de pruebas de SIFEN");
+    }
+    if (mode === "testing" && origin === SIFEN_HOSTS.production) {
+      throw new Error("El modo de pruebas no puede enviar documentos al ambiente de producción de SIFEN");
+    }
+
+    return origin === SIFEN_HOSTS.testing || origin === SIFEN_HOSTS.production ? origin : endpoint;
+  }
+
+  // ========================
+  // SIFEN SERVICES
+  // ========================
+
+  /**
+   * siRecepDE - synchronous reception of a single signed DE
+   */
+  async recibirDE(signedXml: string): Promise<SifenDocumentResult> {
+    const response = await this.call(
+      SIFEN_PATHS.recepcionDE,
+      `<rEnviDe xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><xDE>${this.stripDeclaration(signedXml)}</xDE></rEnviDe>`
+    );
+
+    const protocolo = this.first(response, "rProtDe");
+    if (!protocolo) {
+      throw new Error(this.describeUnexpected(response));
+    }
+    return this.parseDocumentResult(protocolo);
+  }
+
+  /**
+   * siRecepLoteDE - asynchronous reception of up to 50 signed DEs
+   */
+  async recibirLote(signedXmls: string[]): Promise<SifenLoteReceipt> {
+    if (signedXmls.length === 0 || signedXmls.length > 50) {
+      throw new Error("Un lote debe contener entre 1 y 50 documentos electrónicos");
+    }
+
+    const zip = new JSZip();
+    zip.file("lote.xml", `<rLoteDE>${signedXmls.map(xml => this.stripDeclaration(xml)).join("")}</rLoteDE>`);
+    const content = await zip.generateAsync({ type: "base64", compression: "DEFLATE" });
+
+    const response = await this.call(
+      SIFEN_PATHS.recepcionLote,
+      `<rEnvioLote xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><xDE>${content}</xDE></rEnvioLote>`
+    );
+
+    const tiempo = this.text(response, "dTpoProces");
+    return {
+      codigo: this.text(response, "dCodRes") ?? "",
+      mensaje: this.text(response, "dMsgRes") ?? "",
+      protocoloLote: this.text(response, "dProtConsLote"),
+      fechaProceso: this.text(response, "dFecProc"),
+      tiempoProcesamiento: tiempo ? parseInt(tiempo) : null,
+    };
+  }
+
+  /**
+   * siConsLoteDE - query the processing result of a lote
+   */
+  async consultarLote(protocoloLote: string): Promise<SifenLoteStatus> {
+    const response = await this.call(
+      SIFEN_PATHS.consultaLote,
+      `<rEnviConsLoteDe xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><dProtConsLote>${this.escape(protocoloLote)}</dProtConsLote></rEnviConsLoteDe>`
+    );
+
+    return {
+      codigo: this.text(response, "dCodResLot") ?? "",
+      mensaje: this.text(response, "dMsgResLot") ?? "",
+      fechaProceso: this.text(response, "dFecProc"),
+      resultados: this.all(response, "gResProcLote").map(node => this.parseDocumentResult(node)),
+    };
+  }
+
+  /**
+   * siConsDE - query a DE by its CDC
+   */
+  async consultarDE(cdc: string): Promise<SifenConsultaDE> {
+    const response = await this.call(
+      SIFEN_PATHS.consultaDE,
+      `<rEnviConsDeRequest xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><dCDC>${this.escape(cdc)}</dCDC></rEnviConsDeRequest>`
+    );
+
+    return {
+      codigo: this.text(response, "dCodRes") ?? "",
+      mensaje: this.text(response, "dMsgRes") ?? "",
+      fechaProceso: this.text(response, "dFecProc"),
+      xml: this.text(response, "xContenDE"),
+    };
+  }
+
+  /**
+   * siConsRUC - query a taxpayer by RUC (with or without check digit)
+   */
+  async consultarRUC(ruc: string): Promise<SifenConsultaRUC> {
+    const base = splitRUC(ruc)?.base ?? ruc.trim();
+    const response = await this.call(
+      SIFEN_PATHS.consultaRUC,
+      `<rEnviConsRUC xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><dRUCCons>${this.escape(base)}</dRUCCons></rEnviConsRUC>`
+    );
+
+    const contribuyente = this.first(response, "xContRUC");
+    return {
+      codigo: this.text(response, "dCodRes") ?? "",
+      mensaje: this.text(response, "dMsgRes") ?? "",
+      contribuyente: contribuyente ? {
+        ruc: this.text(contribuyente, "dRUCCons") ?? base,
+        razonSocial: this.text(contribuyente, "dRazCons") ?? "",
+        estado: this.text(contribuyente, "dDesEstCons") ?? "",
+        facturadorElectronico: this.text(contribuyente, "dRUCFactElec") === "S",
+      } : null,
+    };
+  }
+
+  /**
+   * siRecepEvento - register a signed event (cancelación, inutilización, ...)
+   * @param signedEventXml Signed rEve element (gGroupGesEve content)
+   */
+  async recibirEvento(signedEventXml: string): Promise<SifenDocumentResult> {
+    const response = await this.call(
+      SIFEN_PATHS.recepcionEvento,
+      `<rEnviEventoDe xmlns="${SIFEN_NAMESPACE}"><dId>${this.requestId()}</dId><dEvReg><gGroupGesEve>${this.stripDeclaration(signedEventXml)}</gGroupGesEve></dEvReg></rEnviEventoDe>`
+    );
+
+    const resultado = this.first(response, "gResProcEVe");
+    if (!resultado) {
+      throw new Error(this.describeUnexpected(response));
+    }
+    return this.parseDocumentResult(resultado);
+  }
+
+  /**
+   * Check connectivity and credentials against the configured environment
+   * Uses siConsRUC with the company RUC when available, otherwise a siConsDE round-trip
+   */
+  async testConnection(ruc?: string | null): Promise<{ success: boolean; error?: string }> {
+    try {
+      if (ruc) {
+        const result = await this.consultarRUC(ruc);
+        if (result.codigo === SIFEN_CODES.RUC_ENCONTRADO || result.codigo === SIFEN_CODES.RUC_INEXISTENTE) {
+          return { success: true };
+        }
+        return { success: false, error: `SIFEN ${result.codigo}: ${result.mensaje}` };
+      }
+
+      const result = await this.consultarDE("0".repeat(44));
+      if (result.codigo) {
+        return { success: true };
+      }
+      return { success: false, error: "Respuesta de SIFEN sin código de resultado" };
+    } catch (error) {
+      return { success: false, error: error instanceof Error ? error.message : `Error de conexión: ${error}` };
+    }
+  }
+
+  // ========================
+  // TRANSPORT
+  // ========================
+
+  /**
+   * POST a SOAP 1.2 envelope and return the parsed response Body
+   */
+  private async call(path: string, body: string): Promise<Element> {
+    const envelope = `<?xml version="1.0" encoding="UTF-8"?>` +
+      `<soap:Envelope xmlns:soap="${SOAP_NAMESPACE}"><soap:Header/><soap:Body>${body}</soap:Body></soap:Envelope>`;
+
+    const url = new URL(`${this.baseUrl}${path}`);
+    const { status, text } = await this.post(url, envelope);
+
+    let document: Document;
+    try {
+      document = new DOMParser().parseFromString(text, "text/xml") as unknown as Document;
+    } catch (error) {
+      throw new Error(`Respuesta inválida de SIFEN (HTTP ${status})`);
+    }
+
+    const soapBody = document.getElementsByTagNameNS(SOAP_NAMESPACE, "Body")[0];
+    if (!soapBody) {
+      throw new Error(`Respuesta inválida de SIFEN (HTTP ${status})`);
+    }
+
+    const fault = soapBody.getElementsByTagNameNS(SOAP_NAMESPACE, "Fault")[0];
+    if (fault) {
+      const reason = fault.getElementsByTagNameNS(SOAP_NAMESPACE, "Text")[0]?.textContent;
+      throw new Error(`SIFEN rechazó la solicitud: ${reason?.trim() || `HTTP ${status}`}`);
+    }
+
+    if (status >= 400) {
+      throw new Error(`SIFEN respondió HTTP ${status}`);
+    }
+
+    return soapBody as unknown as Element;
+  }
+
+  private post(url: URL, payload: string): Promise<{ status: number; text: string }> {
+    const isHttps = url.protocol === "https:";
+    const options: https.RequestOptions = {
+      method: "POST",
+      headers: {
+        "Content-Type": "application/soap+xml; charset=utf-8",
+        "Content-Length": Buffer.byteLength(payload),
+      },
+      timeout: REQUEST_TIMEOUT_MS,
+    };
+
+    if (isHttps) {
+      // Official endpoints authenticate the client with the signing certificate
+      const certificate = SifenSignatureService.loadCertificate(this.config);
+      if (certificate.success && certificate.certificate) {
+        options.key = certificate.certificate.privateKeyPem;
+        options.cert = certificate.certificate.certificatePem;
+      } else if (certificate.code !== "CERTIFICATE_MISSING" || this.isOfficialHost()) {
+        return Promise.reject(new Error(certificate.error || "Certificado digital requerido para conectar con SIFEN"));
+      }
+    }
+
+    return new Promise((resolve, reject) => {
+      const request = (isHttps ? https : http).request(url, options, response => {
+        const chunks: Buffer[] = [];
+        response.on("data", chunk => chunks.push(Buffer.from(chunk)));
+        response.on("end", () => resolve({
+          status: response.statusCode ?? 0,
+          text: Buffer.concat(chunks).toString("utf8"),
+        }));
+        response.on("error", reject);
+      });
+
+      request.on("timeout", () => request.destroy(new Error("Tiempo de espera agotado al conectar con SIFEN")));
+      request.on("error", error => reject(new Error(`Error de conexión con SIFEN: ${error.message}`)));
+      request.write(payload);
+      request.end();
+    });
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private parseDocumentResult(node: Element): SifenDocumentResult {
+    return {
+      id: this.text(node, "Id") ?? this.text(node, "id") ?? "",
+      estado: this.text(node, "dEstRes") ?? "",
+      protocolo: this.text(node, "dProtAut"),
+      fechaProceso: this.text(node, "dFecProc"),
+      mensajes: this.all(node, "gResProc").map(message => ({
+        codigo: this.text(message, "dCodRes") ?? "",
+        mensaje: this.text(message, "dMsgRes") ?? "",
+      })),
+    };
+  }
+
+  private describeUnexpected(response: Element): string {
+    const codigo = this.text(response, "dCodRes");
+    const mensaje = this.text(response, "dMsgRes");
+    return codigo ? `SIFEN ${codigo}: ${mensaje ?? ""}` : "Respuesta inesperada de SIFEN";
+  }
+
+  private isOfficialHost(): boolean {
+    return this.baseUrl === SIFEN_HOSTS.testing || this.baseUrl === SIFEN_HOSTS.production;
+  }
+
+  private first(parent: Element, localName: string): Element | null {
+    return this.all(parent, localName)[0] ?? null;
+  }
+
+  private all(parent: Element, localName: string): Element[] {
+    return Array.from(parent.getElementsByTagNameNS("*", localName));
+  }
+
+  private text(parent: Element, localName: string): string | null {
+    const value = this.first(parent, localName)?.textContent;
+    return value != null ? value.trim() : null;
+  }
+
+  private requestId(): string {
+    return Date.now().toString();
+  }
+
+  private stripDeclaration(xml: string): string {
+    return xml.replace(/^\s*<\?xml[^>]*\?>\s*/, "");
+  }
+
+  private escape(value: string): string {
+    return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+  }
+}
@@ -0,0 +1,228 @@
+import http from "http";
+import { randomInt } from "crypto";
+import { pathToFileURL } from "url";
+import JSZip from "jszip";
+import { DOMParser } from "@xmldom/xmldom";
+import { SIFEN_PATHS, SIFEN_CODES } from "./sifen-client";
+import { validateCDC } from "./utils/paraguayan-validators";
+
+/**
+ * Local mock of the SIFEN web services for offline development and testing
+ * Point DnitConfig.endpointUrl to http://localhost:8089 (testing mode) and run:
+ *   npm run sifen:mock
+ *
+ * Behaviour:
+ * - DEs are approved when they carry a valid CDC and an XML signature, rejected otherwise
+ * - Lotes report "en procesamiento" on the first query and their results afterwards
+ * - Every RUC is reported as an active electronic invoicer except 0
+ * - Events are registered when signed
+ */
+
+interface MockDocumentResult {
+  id: string;
+  estado: "Aprobado" | "Rechazado";
+  protocolo: string | null;
+  codigo: string;
+  mensaje: string;
+}
+
+interface MockState {
+  documents: Map<string, string>; // CDC -> DE XML
+  lotes: Map<string, { results: MockDocumentResult[]; consultas: number }>;
+  events: MockDocumentResult[];
+}
+
+const SOAP_NAMESPACE = "http://www.w3.org/2003/05/soap-envelope";
+const SIFEN_NAMESPACE = "http://ekuatia.set.gov.py/sifen/xsd";
+
+export function createSifenMockServer(): http.Server & { state: MockState } {
+  const state: MockState = {
+    documents: new Map(),
+    lotes: new Map(),
+    events: [],
+  };
+
+  const server = http.createServer((req, res) => {
+    const chunks: Buffer[] = [];
+    req.on("data", chunk => chunks.push(Buffer.from(chunk)));
+    req.on("end", async () => {
+      try {
+        const body = await handleRequest(state, req.url ?? "", Buffer.concat(chunks).toString("utf8"));
+        res.writeHead(200, { "Content-Type": "application/soap+xml; charset=utf-8" });
+        res.end(envelope(body));
+      } catch (error) {
+        const message = error instanceof Error ? error.message : String(error);
+        res.writeHead(error instanceof NotFoundError ? 404 : 400, { "Content-Type": "application/soap+xml; charset=utf-8" });
+        res.end(envelope(
+          `<env:Fault><env:Code><env:Value>env:Sender</env:Value></env:Code>` +
+          `<env:Reason><env:Text xml:lang="es">${escape(message)}</env:Text></env:Reason></env:Fault>`
+        ));
+      }
+    });
+  });
+
+  return Object.assign(server, { state });
+}
+
+class NotFoundError extends Error {}
+
+async function handleRequest(state: MockState, url: string, payload: string): Promise<string> {
+  const path = url.split("?")[0];
+  const request = new DOMParser().parseFromString(payload, "text/xml") as unknown as Document;
+  const fecha = new Date().toISOString().substring(0, 19);
+
+  switch (path) {
+    case SIFEN_PATHS.recepcionDE: {
+      const rDE = first(request, "rDE");
+      if (!rDE) throw new Error("xDE no contiene un rDE");
+      const result = processDocument(state, rDE);
+      return `<ns2:rRetEnviDe xmlns:ns2="${SIFEN_NAMESPACE}"><ns2:rProtDe>` +
+        `<ns2:Id>${result.id}</ns2:Id><ns2:dFecProc>${fecha}</ns2:dFecProc><ns2:dDigVal></ns2:dDigVal>` +
+        `<ns2:dEstRes>${result.estado}</ns2:dEstRes>` +
+        (result.protocolo ? `<ns2:dProtAut>${result.protocolo}</ns2:dProtAut>` : "") +
+        `<ns2:gResProc><ns2:dCodRes>${result.codigo}</ns2:dCodRes><ns2:dMsgRes>${escape(result.mensaje)}</ns2:dMsgRes></ns2:gResProc>` +
+        `</ns2:rProtDe></ns2:rRetEnviDe>`;
+    }
+
+    case SIFEN_PATHS.recepcionLote: {
+      const content = text(request, "xDE");
+      if (!content) throw new Error("xDE vacío");
+      const zip = await JSZip.loadAsync(content, { base64: true });
+      const file = Object.values(zip.files)[0];
+      if (!file) throw new Error("El lote no contiene archivos");
+      const lote = new DOMParser().parseFromString(await file.async("string"), "text/xml") as unknown as Document;
+      const documents = Array.from(lote.getElementsByTagNameNS("*", "rDE"));
+
+      const protocolo = randomDigits(15);
+      state.lotes.set(protocolo, {
+        results: documents.map(rDE => processDocument(state, rDE)),
+        consultas: 0,
+      });
+
+      return `<ns2:rResEnviLoteDe xmlns:ns2="${SIFEN_NAMESPACE}">` +
+        `<ns2:dFecProc>${fecha}</ns2:dFecProc><ns2:dCodRes>${SIFEN_CODES.LOTE_RECIBIDO}</ns2:dCodRes>` +
+        `<ns2:dMsgRes>Lote recibido con éxito</ns2:dMsgRes><ns2:dProtConsLote>${protocolo}</ns2:dProtConsLote>` +
+        `<ns2:dTpoProces>1</ns2:dTpoProces></ns2:rResEnviLoteDe>`;
+    }
+
+    case SIFEN_PATHS.consultaLote: {
+      const protocolo = text(request, "dProtConsLote") ?? "";
+      const lote = state.lotes.get(protocolo);
+      if (!lote) {
+        return loteStatus(fecha, SIFEN_CODES.LOTE_INEXISTENTE, `Número de lote inexistente: ${protocolo}`, []);
+      }
+
+      lote.consultas++;
+      if (lote.consultas === 1) {
+        return loteStatus(fecha, SIFEN_CODES.LOTE_EN_PROCESAMIENTO, `Lote ${protocolo} en procesamiento`, []);
+      }
+      return loteStatus(fecha, SIFEN_CODES.LOTE_CONCLUIDO, `Lote ${protocolo} procesamiento concluido`, lote.results);
+    }
+
+    case SIFEN_PATHS.consultaDE: {
+      const cdc = text(request, "dCDC") ?? "";
+      const xml = state.documents.get(cdc);
+      return `<ns2:rEnviConsDeResponse xmlns:ns2="${SIFEN_NAMESPACE}"><ns2:dFecProc>${fecha}</ns2:dFecProc>` +
+        (xml
+          ? `<ns2:dCodRes>${SIFEN_CODES.CDC_ENCONTRADO}</ns2:dCodRes><ns2:dMsgRes>CDC encontrado</ns2:dMsgRes><ns2:xContenDE>${escape(xml)}</ns2:xContenDE>`
+          : `<ns2:dCodRes>${SIFEN_CODES.CDC_INEXISTENTE}</ns2:dCodRes><ns2:dMsgRes>CDC inexistente</ns2:dMsgRes>`) +
+        `</ns2:rEnviConsDeResponse>`;
+    }
+
+    case SIFEN_PATHS.consultaRUC: {
+      const ruc = text(request, "dRUCCons") ?? "";
+      const found = /^\d{1,8}$/.test(ruc) && parseInt(ruc) > 0;
+      return `<ns2:rResEnviConsRUC xmlns:ns2="${SIFEN_NAMESPACE}">` +
+        (found
+          ? `<ns2:dCodRes>${SIFEN_CODES.RUC_ENCONTRADO}</ns2:dCodRes><ns2:dMsgRes>RUC encontrado</ns2:dMsgRes>` +
+            `<ns2:xContRUC><ns2:dRUCCons>${ruc}</ns2:dRUCCons><ns2:dRazCons>CONTRIBUYENTE DE PRUEBA ${ruc}</ns2:dRazCons>` +
+            `<ns2:dCodEstCons>ACT</ns2:dCodEstCons><ns2:dDesEstCons>ACTIVO</ns2:dDesEstCons><ns2:dRUCFactElec>S</ns2:dRUCFactElec></ns2:xContRUC>`
+          : `<ns2:dCodRes>${SIFEN_CODES.RUC_INEXISTENTE}</ns2:dCodRes><ns2:dMsgRes>RUC inexistente</ns2:dMsgRes>`) +
+        `</ns2:rResEnviConsRUC>`;
+    }
+
+    case SIFEN_PATHS.recepcionEvento: {
+      const evento = first(request, "rEve");
+      const signed = !!first(request, "Signature");
+      const id = evento?.getAttribute("Id") ?? "";
+      const result: MockDocumentResult = signed && evento
+        ? { id, estado: "Aprobado", protocolo: randomDigits(10), codigo: SIFEN_CODES.EVENTO_REGISTRADO, mensaje: "Evento registrado correctamente" }
+        : { id, estado: "Rechazado", protocolo: null, codigo: "0160", mensaje: "XML del evento mal formado o sin firma" };
+      state.events.push(result);
+
+      return `<ns2:rRetEnviEventoDe xmlns:ns2="${SIFEN_NAMESPACE}"><ns2:dFecProc>${fecha}</ns2:dFecProc>` +
+        `<ns2:gResProcEVe><ns2:dEstRes>${result.estado}</ns2:dEstRes>` +
+        (result.protocolo ? `<ns2:dProtAut>${result.protocolo}</ns2:dProtAut>` : "") +
+        `<ns2:id>${escape(result.id)}</ns2:id>` +
+        `<ns2:gResProc><ns2:dCodRes>${result.codigo}</ns2:dCodRes><ns2:dMsgRes>${escape(result.mensaje)}</ns2:dMsgRes></ns2:gResProc>` +
+        `</ns2:gResProcEVe></ns2:rRetEnviEventoDe>`;
+    }
+
+    default:
+      throw new NotFoundError(`Servicio no encontrado: ${path}`);
+  }
+}
+
+/**
+ * Approve a DE when it has a valid CDC and a signature, and remember it for siConsDE
+ */
+function processDocument(state: MockState, rDE: Element): MockDocumentResult {
+  const de = rDE.getElementsByTagNameNS("*", "DE")[0];
+  const cdc = de?.getAttribute("Id") ?? "";
+
+  if (!validateCDC(cdc)) {
+    return { id: cdc, estado: "Rechazado", protocolo: null, codigo: "1000", mensaje: "CDC inválido o ausente" };
+  }
+  if (!rDE.getElementsByTagNameNS("*", "Signature")[0]) {
+    return { id: cdc, estado: "Rechazado", protocolo: null, codigo: "0141", mensaje: "Documento sin firma digital" };
+  }
+
+  state.documents.set(cdc, rDE.toString());
+  return {
+    id: cdc,
+    estado: "Aprobado",
+    protocolo: randomDigits(10),
+    codigo: SIFEN_CODES.DE_APROBADO,
+    mensaje: "Autorización del DE satisfactoria",
+  };
+}
+
+function loteStatus(fecha: string, codigo: string, mensaje: string, results: MockDocumentResult[]): string {
+  return `<ns2:rResEnviConsLoteDe xmlns:ns2="${SIFEN_NAMESPACE}"><ns2:dFecProc>${fecha}</ns2:dFecProc>` +
+    `<ns2:dCodResLot>${codigo}</ns2:dCodResLot><ns2:dMsgResLot>${escape(mensaje)}</ns2:dMsgResLot>` +
+    results.map(result =>
+      `<ns2:gResProcLote><ns2:id>${result.id}</ns2:id><ns2:dEstRes>${result.estado}</ns2:dEstRes>` +
+      (result.protocolo ? `<ns2:dProtAut>${result.protocolo}</ns2:dProtAut>` : "") +
+      `<ns2:gResProc><ns2:dCodRes>${result.codigo}</ns2:dCodRes><ns2:dMsgRes>${escape(result.mensaje)}</ns2:dMsgRes></ns2:gResProc>` +
+      `</ns2:gResProcLote>`
+    ).join("") +
+    `</ns2:rResEnviConsLoteDe>`;
+}
+
+function envelope(body: string): string {
+  return `<?xml version="1.0" encoding="UTF-8"?><env:Envelope xmlns:env="${SOAP_NAMESPACE}"><env:Header/><env:Body>${body}</env:Body></env:Envelope>`;
+}
+
+function first(document: Document, localName: string): Element | null {
+  return (document.getElementsByTagNameNS("*", localName)[0] as Element | undefined) ?? null;
+}
+
+function text(document: Document, localName: string): string | null {
+  return first(document, localName)?.textContent?.trim() ?? null;
+}
+
+function randomDigits(length: number): string {
+  return Array.from({ length }, (_, i) => randomInt(i === 0 ? 1 : 0, 10)).join("");
+}
+
+function escape(value: string): string {
+  return value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+}
+
+// Run standalone: tsx server/sifen-mock-server.ts
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  const port = parseInt(process.env.SIFEN_MOCK_PORT || "8089", 10);
+  createSifenMockServer().listen(port, () => {
+    console.log(`Mock SIFEN server listening on http://localhost:${port}`);
+  });
+}
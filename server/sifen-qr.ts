@@ -0,0 +1,108 @@
+import { createHash } from "crypto";
+import type { DnitConfig } from "@shared/schema";
+import { EncryptionService } from "./encryption";
+
+/**
+ * SIFEN QR code (dCarQR) for the KuDE
+ * The QR URL carries the CDC, emission date, receiver, totals, item count and the
+ * DigestValue of the signed DE, protected with a cHashQR built from the company CSC
+ * (Código de Seguridad del Contribuyente) issued by the DNIT
+ */
+
+export type QrErrorCode = "CSC_MISSING" | "QR_DATA_MISSING";
+
+export class SifenQrService {
+  static readonly URL_TEST = "https://ekuatia.set.gov.py/consultas-test/qr?";
+  static readonly URL_PRODUCCION = "https://ekuatia.set.gov.py/consultas/qr?";
+  static readonly CONSULTA_TEST = "https://ekuatia.set.gov.py/consultas-test/";
+  static readonly CONSULTA_PRODUCCION = "https://ekuatia.set.gov.py/consultas/";
+  static readonly VERSION = "150";
+
+  /**
+   * Whether the DNIT configuration has the IdCSC and CSC needed to build the QR
+   */
+  static hasCsc(config: DnitConfig | null | undefined): boolean {
+    return !!config?.idCsc && !!config.csc && config.csc.trim() !== "";
+  }
+
+  /**
+   * Build the QR URL from a signed DE (as produced by SifenSignatureService.signDE)
+   */
+  static buildUrl(signedXml: string, config: DnitConfig | null | undefined): {
+    success: boolean;
+    url?: string;
+    error?: string;
+    code?: QrErrorCode;
+  } {
+    if (!config || !this.hasCsc(config)) {
+      return {
+        success: false,
+        error: "No hay CSC configurado. Cargue el IdCSC y el CSC en la configuración DNIT.",
+        code: "CSC_MISSING"
+      };
+    }
+
+    const cdc = signedXml.match(/<DE\s[^>]*Id="(\d{44})"/)?.[1];
+    const fechaEmision = this.valor(signedXml, "dFeEmiDE");
+    const rucReceptor = this.valor(signedXml, "dRucRec");
+    const documentoReceptor = this.valor(signedXml, "dNumIDRec");
+    const totalGeneral = this.valor(signedXml, "dTotGralOpe");
+    const totalIva = this.valor(signedXml, "dTotIVA");
+    const digestValue = this.valor(signedXml, "DigestValue");
+    const cantidadItems = (signedXml.match(/<gCamItem>/g) ?? []).length;
+
+    if (!cdc || !fechaEmision || !totalGeneral || !totalIva || !digestValue || (!rucReceptor && !documentoReceptor)) {
+      return {
+        success: false,
+        error: "El documento firmado no contiene los datos requeridos para el código QR",
+        code: "QR_DATA_MISSING"
+      };
+    }
+
+    // Storage returns secrets decrypted; decrypt() is a no-op for values that are not encrypted
+    const csc = EncryptionService.decrypt(config.csc!);
+
+    const parametros = [
+      `nVersion=${this.VERSION}`,
+      `Id=${cdc}`,
+      `dFeEmiDE=${this.toHex(fechaEmision)}`,
+      rucReceptor ? `dRucRec=${rucReceptor}` : `dNumIDRec=${documentoReceptor}`,
+      `dTotGralOpe=${totalGeneral}`,
+      `dTotIVA=${totalIva}`,
+      `cItems=${cantidadItems}`,
+      `DigestValue=${this.toHex(digestValue)}`,
+      `IdCSC=${config.idCsc!.padStart(4, "0")}`,
+    ].join("&");
+
+    const hash = createHash("sha256").update(parametros + csc).digest("hex");
+    const base = config.operationMode === "production" ? this.URL_PRODUCCION : this.URL_TEST;
+
+    return { success: true, url: `${base}${parametros}&cHashQR=${hash}` };
+  }
+
+  /**
+   * Add gCamFuFD with the QR URL inside rDE, after the signature (it is not part of the signed DE)
+   */
+  static appendToXml(signedXml: string, url: string): string {
+    const escaped = url.replace(/&/g, "&amp;");
+    return signedXml.replace(
+      /<\/rDE>\s*$/,
+      `<gCamFuFD><dCarQR>${escaped}</dCarQR></gCamFuFD></rDE>`
+    );
+  }
+
+  /**
+   * e-Kuatia page where the receiver can look the document up by CDC
+   */
+  static consultaUrl(config: DnitConfig | null | undefined): string {
+    return config?.operationMode === "production" ? this.CONSULTA_PRODUCCION : this.CONSULTA_TEST;
+  }
+
+  private static valor(xml: string, localName: string): string | undefined {
+    return xml.match(new RegExp(`<(?:\\w+:)?${localName}>([^<]+)</`))?.[1]?.trim();
+  }
+
+  private static toHex(value: string): string {
+    return Buffer.from(value, "utf8").toString("hex");
+  }
+}
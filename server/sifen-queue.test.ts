@@ -0,0 +1,119 @@
+import { test, before, type TestContext } from "node:test";
+import assert from "node:assert/strict";
+import { prepararStorage } from "./test-storage";
+
+type Modulos = {
+  storage: typeof import("./storage").storage;
+  SifenQueueService: typeof import("./sifen-queue").SifenQueueService;
+  SifenSignatureService: typeof import("./sifen-signature").SifenSignatureService;
+  SifenClient: typeof import("./sifen-client").SifenClient;
+};
+
+let m: Modulos;
+let lotesRecibidos: string[][];
+
+const cdc = (n: number) => n.toString().padStart(44, "0");
+
+before(async () => {
+  prepararStorage("sifen-queue");
+  m = {
+    storage: (await import("./storage")).storage,
+    SifenQueueService: (await import("./sifen-queue")).SifenQueueService,
+    SifenSignatureService: (await import("./sifen-signature")).SifenSignatureService,
+    SifenClient: (await import("./sifen-client")).SifenClient
+  };
+
+  await m.storage.createCompanyConfig({
+    ruc: "80012345-6",
+    razonSocial: "Lavadero Test S.A.",
+    timbradoNumero: "12345678",
+    timbradoDesde: "2024-01-01",
+    timbradoHasta: "2030-12-31",
+    direccion: "Avda. Test 123"
+  });
+  await m.storage.createDnitConfig({ endpointUrl: "http://localhost:9", authToken: "token", isActive: true });
+});
+
+// The DE of each document is just its CDC; signing echoes it back and SIFEN receives every lote
+const simularSifen = (t: TestContext) => {
+  lotesRecibidos = [];
+  t.mock.method(m.SifenQueueService as any, "buildXml", async (documento: any) => {
+    const datos = documento.sale ?? documento.notaCredito ?? documento.notaDebito;
+    return `<DE Id="${datos.cdc}"/>`;
+  });
+  t.mock.method(m.SifenSignatureService, "loadCertificate", () => ({ success: true }));
+  t.mock.method(m.SifenSignatureService, "signDE", (xml: string) => xml.includes(cdc(99))
+    ? { success: false, error: "Documento mal formado", code: "SIGNATURE_FAILED" }
+    : { success: true, signedXml: xml });
+  t.mock.method(m.SifenClient.prototype, "recibirLote", async (xmls: string[]) => {
+    lotesRecibidos.push(xmls.map(xml => xml.match(/Id="(\d+)"/)![1]));
+    return { codigo: "0300", mensaje: "Lote recibido", protocoloLote: `P${lotesRecibidos.length}`, fechaProceso: null, tiempoProcesamiento: 1 };
+  });
+};
+
+const crearFactura = (numero: number) => m.storage.createSale({
+  numeroFactura: `001-001-${numero.toString().padStart(7, "0")}`,
+  subtotal: "100000",
+  total: "110000",
+  medioPago: "efectivo",
+  timbradoUsado: "12345678",
+  cdc: cdc(numero),
+  sifenEstado: "pendiente"
+});
+
+test("invoices and credit notes travel in separate lotes", async (t) => {
+  simularSifen(t);
+  const factura = await crearFactura(1);
+  await crearFactura(2);
+  const nota = await m.storage.createNotaCredito({
+    numero: "001-001-0000001",
+    saleId: factura.id,
+    motivo: "descuento",
+    descripcion: "Descuento posterior",
+    subtotal: "10000",
+    total: "11000",
+    timbradoUsado: "12345678",
+    cdc: cdc(3),
+    sifenEstado: "pendiente"
+  });
+
+  const result = await m.SifenQueueService.processQueue();
+
+  assert.equal(result.lotesCreados, 2);
+  // Invoices first, then the notes that refer to them
+  assert.deepEqual(lotesRecibidos.map(lote => [...lote].sort()), [[cdc(1), cdc(2)], [cdc(3)]]);
+  assert.equal((await m.storage.getNotaCredito(nota.id))!.sifenEstado, "enviado");
+});
+
+test("a document that fails to sign is rejected and the rest of its lote is sent", async (t) => {
+  simularSifen(t);
+  const mala = await crearFactura(99);
+  const buena = await crearFactura(4);
+
+  const result = await m.SifenQueueService.processQueue();
+
+  assert.equal(result.lotesEnviados, 1);
+  assert.deepEqual(lotesRecibidos, [[cdc(4)]]);
+
+  const rechazada = (await m.storage.getSale(mala.id))!;
+  assert.equal(rechazada.sifenEstado, "rechazado");
+  assert.equal(rechazada.sifenLoteId, null);
+  assert.match(rechazada.sifenMensajes ?? "", /Documento mal formado/);
+  assert.equal((await m.storage.getSale(buena.id))!.sifenEstado, "enviado");
+});
+
+test("a certificate problem retries the whole lote", async (t) => {
+  simularSifen(t);
+  t.mock.method(m.SifenSignatureService, "loadCertificate", () => ({ success: false, error: "Certificado vencido", code: "CERTIFICATE_EXPIRED" }));
+  const factura = await crearFactura(5);
+
+  const result = await m.SifenQueueService.processQueue();
+
+  assert.equal(result.lotesEnviados, 0);
+  assert.equal(lotesRecibidos.length, 0);
+  const pendiente = (await m.storage.getSale(factura.id))!;
+  assert.equal(pendiente.sifenEstado, "pendiente");
+  const lote = (await m.storage.getSifenLotesByEstado("pendiente")).find(l => l.id === pendiente.sifenLoteId)!;
+  assert.equal(lote.intentos, 1);
+  assert.equal(lote.ultimoError, "Certificado vencido");
+});
@@ -0,0 +1,502 @@
+import type { CompanyConfig, DnitConfig, InsertSale, NotaCredito, NotaDebito, Sale, SifenEvento, SifenLote } from "@shared/schema";
+import { storage } from "./storage";
+import { SifenXmlService } from "./sifen-xml";
+import { SifenSignatureService } from "./sifen-signature";
+import { SifenClient, SIFEN_CODES, type SifenDocumentResult } from "./sifen-client";
+import { EstablecimientoService } from "./establecimientos";
+import { PagoService } from "./pagos";
+
+/**
+ * Background queue for the asynchronous SIFEN reception (siRecepLoteDE)
+ * Pending invoices, credit notes and debit notes are grouped into persistent lotes of up to 50 documents
+ * of the same type (SIFEN rejects mixed lotes), signed and sent, then the lote is polled until SIFEN
+ * returns the result of every document. A document that cannot be signed is marked rechazado and the
+ * rest of its lote is sent without it.
+ * Cancelación and inutilización events are sent one by one through siRecepEvento.
+ * Failed sends and polls are retried with exponential backoff.
+ */
+
+export interface SifenQueueResult {
+  lotesCreados: number;
+  lotesEnviados: number;
+  lotesConsultados: number;
+  eventosEnviados: number;
+  error?: string;
+}
+
+// Electronic documents that travel in a lote
+type DocumentoLote =
+  | { tipo: "factura"; sale: Sale }
+  | { tipo: "notaCredito"; notaCredito: NotaCredito }
+  | { tipo: "notaDebito"; notaDebito: NotaDebito };
+
+// Lotes are built per type; credit and debit notes go after the invoices they refer to
+const TIPOS_LOTE: DocumentoLote["tipo"][] = ["factura", "notaCredito", "notaDebito"];
+
+type EstadoSifen = Pick<InsertSale, "sifenEstado" | "sifenLoteId" | "sifenProtocolo" | "sifenMensajes">;
+
+export class SifenQueueService {
+  static readonly MAX_DOCUMENTOS_POR_LOTE = 50;
+  static readonly MAX_BACKOFF_MINUTES = 60;
+  static readonly DEFAULT_INTERVAL_MS = 30000;
+
+  private static timer: NodeJS.Timeout | null = null;
+  private static running = false;
+
+  /**
+   * Start the periodic worker (interval from SIFEN_QUEUE_INTERVAL_MS)
+   */
+  static start(intervalMs: number = parseInt(process.env.SIFEN_QUEUE_INTERVAL_MS || String(this.DEFAULT_INTERVAL_MS), 10)): void {
+    if (this.timer) {
+      return;
+    }
+
+    this.timer = setInterval(() => {
+      this.processQueue().catch(error => console.error("Error processing SIFEN queue:", error));
+    }, intervalMs);
+    // Do not keep the process alive only for the queue
+    this.timer.unref();
+  }
+
+  static stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = null;
+    }
+  }
+
+  /**
+   * Run one pass of the queue: resend failed lotes, batch new documents, poll sent lotes and send events
+   */
+  static async processQueue(now: Date = new Date()): Promise<SifenQueueResult> {
+    const result: SifenQueueResult = { lotesCreados: 0, lotesEnviados: 0, lotesConsultados: 0, eventosEnviados: 0 };
+
+    if (this.running) {
+      return { ...result, error: "La cola SIFEN ya se está procesando" };
+    }
+
+    this.running = true;
+    try {
+      const dnitConfig = await storage.getDnitConfig();
+      if (!dnitConfig || !dnitConfig.isActive) {
+        return { ...result, error: "La integración con DNIT no está activa" };
+      }
+
+      const companyConfig = await storage.getCompanyConfig();
+      if (!companyConfig) {
+        return { ...result, error: "Debe configurar los datos fiscales de la empresa" };
+      }
+
+      let client: SifenClient;
+      try {
+        client = new SifenClient(dnitConfig);
+      } catch (error) {
+        return { ...result, error: error instanceof Error ? error.message : String(error) };
+      }
+
+      // 1. Lotes whose previous send failed
+      const lotesPendientes = await storage.getSifenLotesByEstado("pendiente");
+      for (const lote of lotesPendientes) {
+        if (new Date(lote.proximoIntento) <= now) {
+          if (await this.sendLote(lote, client, dnitConfig, companyConfig, now)) {
+            result.lotesEnviados++;
+          }
+        }
+      }
+
+      // 2. New documents not yet assigned to a lote
+      const pendientes: DocumentoLote[] = [
+        ...(await storage.getSalesBySifenEstado("pendiente"))
+          .map(sale => ({ tipo: "factura" as const, sale })),
+        ...(await storage.getNotasCreditoBySifenEstado("pendiente"))
+          .map(notaCredito => ({ tipo: "notaCredito" as const, notaCredito })),
+        ...(await storage.getNotasDebitoBySifenEstado("pendiente"))
+          .map(notaDebito => ({ tipo: "notaDebito" as const, notaDebito })),
+      ]
+        .filter(documento => this.isPendiente(documento) && !this.datos(documento).sifenLoteId)
+        .sort((a, b) => new Date(this.datos(a).fecha).getTime() - new Date(this.datos(b).fecha).getTime());
+
+      for (const tipo of TIPOS_LOTE) {
+        const delTipo = pendientes.filter(documento => documento.tipo === tipo);
+        for (let i = 0; i < delTipo.length; i += this.MAX_DOCUMENTOS_POR_LOTE) {
+          const documentos = delTipo.slice(i, i + this.MAX_DOCUMENTOS_POR_LOTE);
+          const lote = await storage.createSifenLote({
+            estado: "pendiente",
+            cantidadDocumentos: documentos.length,
+            proximoIntento: now
+          });
+          for (const documento of documentos) {
+            await this.updateDocumento(documento, { sifenLoteId: lote.id });
+          }
+          result.lotesCreados++;
+
+          if (await this.sendLote(lote, client, dnitConfig, companyConfig, now)) {
+            result.lotesEnviados++;
+          }
+        }
+      }
+
+      // 3. Lotes waiting for their processing result
+      const lotesEnviados = await storage.getSifenLotesByEstado("enviado");
+      for (const lote of lotesEnviados) {
+        if (new Date(lote.proximoIntento) <= now) {
+          await this.pollLote(lote, client, now);
+          result.lotesConsultados++;
+        }
+      }
+
+      // 4. Cancelación and inutilización events
+      const eventos = (await storage.getSifenEventosByEstado("pendiente"))
+        .sort((a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime());
+      for (const evento of eventos) {
+        if (new Date(evento.proximoIntento) <= now) {
+          if (await this.sendEvento(evento, client, dnitConfig, now)) {
+            result.eventosEnviados++;
+          }
+        }
+      }
+
+      return result;
+    } finally {
+      this.running = false;
+    }
+  }
+
+  /**
+   * Put a rejected sale back in the queue (after correcting the data that caused the rejection)
+   */
+  static async requeueSale(sale: Sale): Promise<Sale | undefined> {
+    return storage.updateSale(sale.id, {
+      sifenEstado: "pendiente",
+      sifenLoteId: null,
+      sifenProtocolo: null,
+      sifenMensajes: null
+    });
+  }
+
+  /**
+   * Sign every document of the lote and send it with siRecepLoteDE
+   * A certificate problem affects the whole lote and is retried; a document that cannot be built or
+   * signed on its own is marked rechazado with the error and left out
+   */
+  private static async sendLote(
+    lote: SifenLote,
+    client: SifenClient,
+    dnitConfig: DnitConfig,
+    companyConfig: CompanyConfig,
+    now: Date
+  ): Promise<boolean> {
+    const pendientes = (await this.getDocumentosLote(lote.id)).filter(documento => this.isPendiente(documento));
+
+    if (pendientes.length === 0) {
+      await storage.updateSifenLote(lote.id, {
+        estado: "error",
+        ultimoError: "El lote no contiene documentos pendientes"
+      });
+      return false;
+    }
+
+    const certificate = SifenSignatureService.loadCertificate(dnitConfig, now);
+    if (!certificate.success) {
+      await this.scheduleRetry(lote, certificate.error ?? "No se pudo cargar el certificado digital", now);
+      return false;
+    }
+
+    const documentos: DocumentoLote[] = [];
+    const signedXmls: string[] = [];
+    for (const documento of pendientes) {
+      let signature: { success: boolean; signedXml?: string; error?: string };
+      try {
+        const xml = await this.buildXml(documento, companyConfig);
+        signature = xml
+          ? SifenSignatureService.signDE(xml, dnitConfig)
+          : { success: false, error: "No se encontró la factura asociada" };
+      } catch (error) {
+        // Data SIFEN cannot receive, such as the unknown country of a customer
+        signature = { success: false, error: error instanceof Error ? error.message : String(error) };
+      }
+      if (!signature.success || !signature.signedXml) {
+        console.error(`SIFEN signing failed - ${this.describir(documento)}: ${signature.error}`);
+        await this.updateDocumento(documento, {
+          sifenEstado: "rechazado",
+          sifenLoteId: null,
+          sifenMensajes: `No se pudo firmar: ${signature.error}`
+        });
+        continue;
+      }
+      documentos.push(documento);
+      signedXmls.push(signature.signedXml);
+    }
+
+    if (documentos.length === 0) {
+      await storage.updateSifenLote(lote.id, {
+        estado: "error",
+        cantidadDocumentos: 0,
+        ultimoError: "Ningún documento del lote pudo firmarse"
+      });
+      return false;
+    }
+
+    try {
+      const receipt = await client.recibirLote(signedXmls);
+
+      if (receipt.codigo !== SIFEN_CODES.LOTE_RECIBIDO || !receipt.protocoloLote) {
+        await this.scheduleRetry(lote, `${receipt.codigo} - ${receipt.mensaje}`, now);
+        return false;
+      }
+
+      // SIFEN suggests how many minutes to wait before querying the lote
+      const esperaMinutos = Math.max(receipt.tiempoProcesamiento ?? 1, 1);
+      await storage.updateSifenLote(lote.id, {
+        estado: "enviado",
+        protocolo: receipt.protocoloLote,
+        cantidadDocumentos: documentos.length,
+        intentos: 0,
+        proximoIntento: new Date(now.getTime() + esperaMinutos * 60000),
+        ultimoError: null
+      });
+
+      for (const documento of documentos) {
+        await this.updateDocumento(documento, { sifenEstado: "enviado" });
+      }
+
+      console.log(`📤 Lote SIFEN ${receipt.protocoloLote} enviado con ${documentos.length} documento(s)`);
+      return true;
+    } catch (error) {
+      console.error("Error sending SIFEN lote:", error);
+      await this.scheduleRetry(lote, error instanceof Error ? error.message : String(error), now);
+      return false;
+    }
+  }
+
+  /**
+   * Query the lote with siConsLoteDE and apply the result of each document
+   */
+  private static async pollLote(lote: SifenLote, client: SifenClient, now: Date): Promise<void> {
+    if (!lote.protocolo) {
+      await this.failLote(lote, "El lote no tiene protocolo de recepción");
+      return;
+    }
+
+    try {
+      const status = await client.consultarLote(lote.protocolo);
+
+      if (status.codigo === SIFEN_CODES.LOTE_EN_PROCESAMIENTO) {
+        await this.scheduleRetry(lote, null, now);
+        return;
+      }
+
+      if (status.codigo !== SIFEN_CODES.LOTE_CONCLUIDO) {
+        await this.failLote(lote, `${status.codigo} - ${status.mensaje}`);
+        return;
+      }
+
+      for (const resultado of status.resultados) {
+        await this.applyDocumentResult(lote, resultado);
+      }
+
+      // Documents missing from the response go back to the queue in a new lote
+      const sinResultado = (await this.getDocumentosLote(lote.id))
+        .filter(documento => this.datos(documento).sifenEstado === "enviado");
+      for (const documento of sinResultado) {
+        await this.updateDocumento(documento, { sifenEstado: "pendiente", sifenLoteId: null });
+      }
+
+      await storage.updateSifenLote(lote.id, { estado: "procesado", ultimoError: null });
+    } catch (error) {
+      console.error("Error querying SIFEN lote:", error);
+      await this.scheduleRetry(lote, error instanceof Error ? error.message : String(error), now);
+    }
+  }
+
+  /**
+   * Sign and send an event; SIFEN answers synchronously with its result
+   */
+  private static async sendEvento(
+    evento: SifenEvento,
+    client: SifenClient,
+    dnitConfig: DnitConfig,
+    now: Date
+  ): Promise<boolean> {
+    const signature = SifenSignatureService.signEvento(SifenXmlService.buildEvento(evento), dnitConfig);
+    if (!signature.success || !signature.signedXml) {
+      await this.scheduleEventoRetry(evento, signature.error ?? "No se pudo firmar el evento", now);
+      return false;
+    }
+
+    try {
+      const resultado = await client.recibirEvento(signature.signedXml);
+      const aprobado = /^aprobado/i.test(resultado.estado.trim());
+
+      await storage.updateSifenEvento(evento.id, {
+        estado: aprobado ? "aprobado" : "rechazado",
+        protocolo: resultado.protocolo,
+        mensajes: resultado.mensajes.length > 0
+          ? resultado.mensajes.map(m => `${m.codigo} - ${m.mensaje}`).join("\n")
+          : null,
+        ultimoError: null
+      });
+
+      console.log(`📤 Evento SIFEN de ${evento.tipo} ${aprobado ? "aprobado" : "rechazado"}`);
+      return true;
+    } catch (error) {
+      console.error("Error sending SIFEN event:", error);
+      await this.scheduleEventoRetry(evento, error instanceof Error ? error.message : String(error), now);
+      return false;
+    }
+  }
+
+  private static async applyDocumentResult(lote: SifenLote, resultado: SifenDocumentResult): Promise<void> {
+    const sale = await storage.getSaleByCdc(resultado.id);
+    const notaCredito = sale ? undefined : await storage.getNotaCreditoByCdc(resultado.id);
+    const notaDebito = sale || notaCredito ? undefined : await storage.getNotaDebitoByCdc(resultado.id);
+    const documento: DocumentoLote | null = sale
+      ? { tipo: "factura", sale }
+      : notaCredito
+        ? { tipo: "notaCredito", notaCredito }
+        : notaDebito ? { tipo: "notaDebito", notaDebito } : null;
+    if (!documento || this.datos(documento).sifenLoteId !== lote.id) {
+      return;
+    }
+
+    // "Aprobado" and "Aprobado con observación" are both valid documents
+    const aprobado = /^aprobado/i.test(resultado.estado.trim());
+    await this.updateDocumento(documento, {
+      sifenEstado: aprobado ? "aprobado" : "rechazado",
+      sifenProtocolo: resultado.protocolo,
+      sifenMensajes: resultado.mensajes.length > 0
+        ? resultado.mensajes.map(m => `${m.codigo} - ${m.mensaje}`).join("\n")
+        : null
+    });
+  }
+
+  /**
+   * Mark the lote as failed and release its documents so they are sent again
+   */
+  private static async failLote(lote: SifenLote, error: string): Promise<void> {
+    const documentos = await this.getDocumentosLote(lote.id);
+    for (const documento of documentos) {
+      const { sifenEstado } = this.datos(documento);
+      if (sifenEstado === "pendiente" || sifenEstado === "enviado") {
+        await this.updateDocumento(documento, { sifenEstado: "pendiente", sifenLoteId: null });
+      }
+    }
+
+    await storage.updateSifenLote(lote.id, { estado: "error", ultimoError: error });
+  }
+
+  private static async scheduleRetry(lote: SifenLote, error: string | null, now: Date): Promise<void> {
+    const intentos = lote.intentos + 1;
+    await storage.updateSifenLote(lote.id, {
+      intentos,
+      proximoIntento: this.nextAttempt(intentos, now),
+      ultimoError: error
+    });
+  }
+
+  private static async scheduleEventoRetry(evento: SifenEvento, error: string, now: Date): Promise<void> {
+    const intentos = evento.intentos + 1;
+    await storage.updateSifenEvento(evento.id, {
+      intentos,
+      proximoIntento: this.nextAttempt(intentos, now),
+      ultimoError: error
+    });
+  }
+
+  // ========================
+  // LOTE DOCUMENTS
+  // ========================
+
+  private static async getDocumentosLote(loteId: string): Promise<DocumentoLote[]> {
+    return [
+      ...(await storage.getSalesBySifenLote(loteId)).map(sale => ({ tipo: "factura" as const, sale })),
+      ...(await storage.getNotasCreditoBySifenLote(loteId)).map(notaCredito => ({ tipo: "notaCredito" as const, notaCredito })),
+      ...(await storage.getNotasDebitoBySifenLote(loteId)).map(notaDebito => ({ tipo: "notaDebito" as const, notaDebito })),
+    ];
+  }
+
+  private static datos(documento: DocumentoLote): Sale | NotaCredito | NotaDebito {
+    switch (documento.tipo) {
+      case "factura":
+        return documento.sale;
+      case "notaCredito":
+        return documento.notaCredito;
+      case "notaDebito":
+        return documento.notaDebito;
+    }
+  }
+
+  /**
+   * Documents with CDC waiting to be sent (cancelled invoices are never sent)
+   */
+  private static isPendiente(documento: DocumentoLote): boolean {
+    const datos = this.datos(documento);
+    if (documento.tipo === "factura" && documento.sale.anulada) {
+      return false;
+    }
+    return (datos.sifenEstado || "pendiente") === "pendiente" && !!datos.cdc;
+  }
+
+  private static describir(documento: DocumentoLote): string {
+    switch (documento.tipo) {
+      case "factura":
+        return `Factura ${documento.sale.numeroFactura}`;
+      case "notaCredito":
+        return `Nota de crédito ${documento.notaCredito.numero}`;
+      case "notaDebito":
+        return `Nota de débito ${documento.notaDebito.numero}`;
+    }
+  }
+
+  private static async updateDocumento(documento: DocumentoLote, updates: EstadoSifen): Promise<void> {
+    switch (documento.tipo) {
+      case "factura":
+        await storage.updateSale(documento.sale.id, updates);
+        break;
+      case "notaCredito":
+        await storage.updateNotaCredito(documento.notaCredito.id, updates);
+        break;
+      case "notaDebito":
+        await storage.updateNotaDebito(documento.notaDebito.id, updates);
+        break;
+    }
+  }
+
+  /**
+   * Unsigned DE XML of the document; null when a credit or debit note lost its invoice
+   */
+  private static async buildXml(documento: DocumentoLote, companyConfig: CompanyConfig): Promise<string | null> {
+    if (documento.tipo === "factura") {
+      const { sale } = documento;
+      const items = await storage.getSaleItems(sale.id);
+      const pagos = await PagoService.pagosDeVenta(sale);
+      const customer = sale.customerId ? await storage.getCustomer(sale.customerId) : null;
+      const emisor = await EstablecimientoService.configuracionEmisor(companyConfig, sale.numeroFactura);
+      return SifenXmlService.buildDE({ sale, items, pagos, companyConfig: emisor, customer });
+    }
+
+    const nota = this.datos(documento) as NotaCredito | NotaDebito;
+    const sale = await storage.getSale(nota.saleId);
+    if (!sale) {
+      return null;
+    }
+    const customer = nota.customerId ? await storage.getCustomer(nota.customerId) : null;
+    const emisor = await EstablecimientoService.configuracionEmisor(companyConfig, nota.numero);
+
+    if (documento.tipo === "notaCredito") {
+      const items = await storage.getNotaCreditoItems(documento.notaCredito.id);
+      return SifenXmlService.buildNotaCredito({ notaCredito: documento.notaCredito, items, sale, companyConfig: emisor, customer });
+    }
+
+    const items = await storage.getNotaDebitoItems(documento.notaDebito.id);
+    return SifenXmlService.buildNotaDebito({ notaDebito: documento.notaDebito, items, sale, companyConfig: emisor, customer });
+  }
+
+  /**
+   * Exponential backoff: 1, 2, 4, ... minutes up to MAX_BACKOFF_MINUTES
+   */
+  private static nextAttempt(intentos: number, now: Date): Date {
+    const esperaMinutos = Math.min(Math.pow(2, intentos - 1), this.MAX_BACKOFF_MINUTES);
+    return new Date(now.getTime() + esperaMinutos * 60000);
+  }
+}
@@ -0,0 +1,80 @@
+import { test, before, mock } from "node:test";
+import assert from "node:assert/strict";
+import forge from "node-forge";
+import type { DnitConfig } from "@shared/schema";
+import { SifenSignatureService } from "./sifen-signature";
+
+const CDC = "01800123456001001000000112024010110000000019";
+const XML = `<rDE xmlns="http://ekuatia.set.gov.py/sifen/xsd"><DE Id="${CDC}"><dFeEmiDE>2024-01-01T10:00:00</dFeEmiDE><dTotGralOpe>110000</dTotGralOpe></DE></rDE>`;
+const PASSWORD = "clave-p12";
+
+let keys: forge.pki.rsa.KeyPair;
+
+before(() => {
+  // Unencrypted secrets are read as they are; keep the default key warning out of the output
+  mock.method(console, "warn", () => {});
+  mock.method(console, "error", () => {});
+  keys = forge.pki.rsa.generateKeyPair({ bits: 1024, e: 0x10001 });
+});
+
+// Self-signed certificate valid between the given dates, stored like the DNIT configuration form does
+const configuracion = (validoDesde: Date, validoHasta: Date) => {
+  const cert = forge.pki.createCertificate();
+  cert.publicKey = keys.publicKey;
+  cert.serialNumber = "01";
+  cert.validity.notBefore = validoDesde;
+  cert.validity.notAfter = validoHasta;
+  const attrs = [{ name: "commonName", value: "Lavadero Test S.A." }, { shortName: "C", value: "PY" }];
+  cert.setSubject(attrs);
+  cert.setIssuer(attrs);
+  cert.sign(keys.privateKey, forge.md.sha256.create());
+
+  const p12 = forge.pkcs12.toPkcs12Asn1(keys.privateKey, [cert], PASSWORD, { algorithm: "3des" });
+  return {
+    certificateData: forge.util.encode64(forge.asn1.toDer(p12).getBytes()),
+    certificatePassword: PASSWORD
+  } as DnitConfig;
+};
+
+const dias = (n: number) => new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+
+test("a signed DE verifies with its certificate and fails once altered", () => {
+  const config = configuracion(dias(-1), dias(365));
+
+  const firmado = SifenSignatureService.signDE(XML, config);
+  assert.equal(firmado.success, true, firmado.error);
+  assert.match(firmado.signedXml!, /<\/DE><Signature xmlns="http:\/\/www\.w3\.org\/2000\/09\/xmldsig#">/);
+
+  const { certificate } = SifenSignatureService.loadCertificate(config);
+  assert.equal(SifenSignatureService.verifyDE(firmado.signedXml!, certificate!.certificatePem), true);
+
+  const alterado = firmado.signedXml!.replace("<dTotGralOpe>110000", "<dTotGralOpe>11000");
+  assert.equal(SifenSignatureService.verifyDE(alterado, certificate!.certificatePem), false);
+});
+
+test("expired and not yet valid certificates are rejected", () => {
+  const vencido = SifenSignatureService.loadCertificate(configuracion(dias(-400), dias(-35)));
+  assert.equal(vencido.code, "CERTIFICATE_EXPIRED");
+
+  const futuro = SifenSignatureService.loadCertificate(configuracion(dias(2), dias(365)));
+  assert.equal(futuro.code, "CERTIFICATE_NOT_YET_VALID");
+
+  // Nothing is signed with an expired certificate
+  const firmado = SifenSignatureService.signDE(XML, configuracion(dias(-400), dias(-35)));
+  assert.equal(firmado.success, false);
+  assert.equal(firmado.code, "CERTIFICATE_EXPIRED");
+});
+
+test("a wrong password is reported as such", () => {
+  const config = { ...configuracion(dias(-1), dias(365)), certificatePassword: "otra-clave" };
+
+  const result = SifenSignatureService.loadCertificate(config);
+  assert.equal(result.code, "CERTIFICATE_PASSWORD_INVALID");
+});
+
+test("missing and malformed certificates are reported", () => {
+  assert.equal(SifenSignatureService.loadCertificate(null).code, "CERTIFICATE_MISSING");
+
+  const config = { certificateData: forge.util.encode64("no es un p12"), certificatePassword: PASSWORD } as DnitConfig;
+  assert.equal(SifenSignatureService.loadCertificate(config).code, "CERTIFICATE_INVALID");
+});
@@ -0,0 +1,270 @@
+import forge from "node-forge";
+import { SignedXml } from "xml-crypto";
+import type { DnitConfig } from "@shared/schema";
+import { EncryptionService } from "./encryption";
+import { SifenQrService, type QrErrorCode } from "./sifen-qr";
+
+/**
+ * XML digital signature service for SIFEN electronic documents
+ * Loads the PKCS#12 certificate stored in DnitConfig and produces an enveloped
+ * XMLDSig (RSA-SHA256, exclusive C14N) over the DE or event (rEve) element
+ */
+
+export type CertificateErrorCode =
+  | "CERTIFICATE_MISSING"
+  | "CERTIFICATE_INVALID"
+  | "CERTIFICATE_PASSWORD_INVALID"
+  | "CERTIFICATE_EXPIRED"
+  | "CERTIFICATE_NOT_YET_VALID";
+
+export interface CertificateInfo {
+  privateKeyPem: string;
+  certificatePem: string;
+  subject: string;
+  issuer: string;
+  serialNumber: string;
+  validFrom: Date;
+  validTo: Date;
+}
+
+export class SifenSignatureService {
+  static readonly SIGNATURE_ALGORITHM = "http://www.w3.org/2001/04/xmldsig-more#rsa-sha256";
+  static readonly DIGEST_ALGORITHM = "http://www.w3.org/2001/04/xmlenc#sha256";
+  static readonly CANONICALIZATION_ALGORITHM = "http://www.w3.org/2001/10/xml-exc-c14n#";
+  static readonly ENVELOPED_SIGNATURE = "http://www.w3.org/2000/09/xmldsig#enveloped-signature";
+
+  /**
+   * Decrypt and parse the PKCS#12 certificate from the DNIT configuration
+   * Checks the password and the certificate validity period
+   */
+  static loadCertificate(config: DnitConfig | null | undefined, now: Date = new Date()): {
+    success: boolean;
+    certificate?: CertificateInfo;
+    error?: string;
+    code?: CertificateErrorCode;
+  } {
+    if (!config || !config.certificateData || config.certificateData.trim() === "") {
+      return {
+        success: false,
+        error: "No hay certificado digital configurado. Cargue el archivo .p12 en la configuración DNIT.",
+        code: "CERTIFICATE_MISSING"
+      };
+    }
+
+    // Storage returns secrets decrypted; decrypt() is a no-op for values that are not encrypted
+    const certificateData = this.normalizeBase64(EncryptionService.decrypt(config.certificateData));
+    const password = config.certificatePassword ? EncryptionService.decrypt(config.certificatePassword) : "";
+
+    let p12: forge.pkcs12.Pkcs12Pfx;
+    try {
+      const asn1 = forge.asn1.fromDer(forge.util.decode64(certificateData));
+      p12 = forge.pkcs12.pkcs12FromAsn1(asn1, password);
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      if (/invalid password|mac could not be verified/i.test(message)) {
+        return {
+          success: false,
+          error: "Contraseña del certificado incorrecta",
+          code: "CERTIFICATE_PASSWORD_INVALID"
+        };
+      }
+      return {
+        success: false,
+        error: "El certificado digital no es un archivo PKCS#12 (.p12) válido",
+        code: "CERTIFICATE_INVALID"
+      };
+    }
+
+    const keyBags = [
+      ...(p12.getBags({ bagType: forge.pki.oids.pkcs8ShroudedKeyBag })[forge.pki.oids.pkcs8ShroudedKeyBag] ?? []),
+      ...(p12.getBags({ bagType: forge.pki.oids.keyBag })[forge.pki.oids.keyBag] ?? []),
+    ];
+    const certBags = p12.getBags({ bagType: forge.pki.oids.certBag })[forge.pki.oids.certBag] ?? [];
+
+    const privateKey = keyBags.find(bag => bag.key)?.key as forge.pki.rsa.PrivateKey | undefined;
+    if (!privateKey) {
+      return {
+        success: false,
+        error: "El certificado digital no contiene la clave privada",
+        code: "CERTIFICATE_INVALID"
+      };
+    }
+
+    // Pick the certificate that belongs to the private key (the file may include the CA chain)
+    const certificate = certBags
+      .map(bag => bag.cert)
+      .find((cert): cert is forge.pki.Certificate => {
+        const publicKey = cert?.publicKey as forge.pki.rsa.PublicKey | undefined;
+        return !!publicKey && publicKey.n.equals(privateKey.n);
+      });
+    if (!certificate) {
+      return {
+        success: false,
+        error: "El certificado digital no corresponde a la clave privada",
+        code: "CERTIFICATE_INVALID"
+      };
+    }
+
+    const validFrom = certificate.validity.notBefore;
+    const validTo = certificate.validity.notAfter;
+
+    if (now < validFrom) {
+      return {
+        success: false,
+        error: `El certificado digital aún no es válido (válido desde ${validFrom.toISOString().substring(0, 10)})`,
+        code: "CERTIFICATE_NOT_YET_VALID"
+      };
+    }
+
+    if (now > validTo) {
+      return {
+        success: false,
+        error: `El certificado digital venció el ${validTo.toISOString().substring(0, 10)}. Debe renovarlo para firmar documentos.`,
+        code: "CERTIFICATE_EXPIRED"
+      };
+    }
+
+    return {
+      success: true,
+      certificate: {
+        privateKeyPem: forge.pki.privateKeyToPem(privateKey),
+        certificatePem: forge.pki.certificateToPem(certificate),
+        subject: this.formatName(certificate.subject),
+        issuer: this.formatName(certificate.issuer),
+        serialNumber: certificate.serialNumber,
+        validFrom,
+        validTo
+      }
+    };
+  }
+
+  /**
+   * Sign a DE XML document (as produced by SifenXmlService.buildDE)
+   * The Signature element is appended inside rDE right after DE, referencing DE by its Id (CDC).
+   * When the CSC is configured, gCamFuFD with the KuDE QR code is added after the signature
+   */
+  static signDE(xml: string, config: DnitConfig | null | undefined): {
+    success: boolean;
+    signedXml?: string;
+    qrUrl?: string;
+    error?: string;
+    code?: CertificateErrorCode | QrErrorCode | "SIGNATURE_FAILED";
+  } {
+    if (!/<DE\s[^>]*Id="\d{44}"/.test(xml)) {
+      return {
+        success: false,
+        error: "El documento no tiene CDC asignado y no puede firmarse",
+        code: "SIGNATURE_FAILED"
+      };
+    }
+
+    const signature = this.signElement(xml, "DE", config);
+    if (!signature.success || !signature.signedXml || !SifenQrService.hasCsc(config)) {
+      return signature;
+    }
+
+    const qr = SifenQrService.buildUrl(signature.signedXml, config);
+    if (!qr.success || !qr.url) {
+      return { success: false, error: qr.error, code: qr.code };
+    }
+
+    return {
+      success: true,
+      signedXml: SifenQrService.appendToXml(signature.signedXml, qr.url),
+      qrUrl: qr.url
+    };
+  }
+
+  /**
+   * Sign an event XML (as produced by SifenXmlService.buildEvento)
+   * The Signature element is appended inside rGesEve right after rEve
+   */
+  static signEvento(xml: string, config: DnitConfig | null | undefined): {
+    success: boolean;
+    signedXml?: string;
+    error?: string;
+    code?: CertificateErrorCode | "SIGNATURE_FAILED";
+  } {
+    if (!/<rEve\s[^>]*Id="\d+"/.test(xml)) {
+      return {
+        success: false,
+        error: "El evento no tiene identificador y no puede firmarse",
+        code: "SIGNATURE_FAILED"
+      };
+    }
+
+    return this.signElement(xml, "rEve", config);
+  }
+
+  private static signElement(xml: string, localName: string, config: DnitConfig | null | undefined): {
+    success: boolean;
+    signedXml?: string;
+    error?: string;
+    code?: CertificateErrorCode | "SIGNATURE_FAILED";
+  } {
+    const loaded = this.loadCertificate(config);
+    if (!loaded.success || !loaded.certificate) {
+      return { success: false, error: loaded.error, code: loaded.code };
+    }
+
+    try {
+      const signature = new SignedXml({
+        privateKey: loaded.certificate.privateKeyPem,
+        publicCert: loaded.certificate.certificatePem,
+        signatureAlgorithm: this.SIGNATURE_ALGORITHM,
+        canonicalizationAlgorithm: this.CANONICALIZATION_ALGORITHM,
+      });
+
+      signature.addReference({
+        xpath: `//*[local-name(.)='${localName}']`,
+        transforms: [this.ENVELOPED_SIGNATURE, this.CANONICALIZATION_ALGORITHM],
+        digestAlgorithm: this.DIGEST_ALGORITHM,
+      });
+
+      signature.computeSignature(xml, {
+        location: { reference: `//*[local-name(.)='${localName}']`, action: "after" },
+      });
+
+      return { success: true, signedXml: signature.getSignedXml() };
+    } catch (error) {
+      console.error("Error signing electronic document:", error);
+      return {
+        success: false,
+        error: "No se pudo firmar el documento electrónico",
+        code: "SIGNATURE_FAILED"
+      };
+    }
+  }
+
+  /**
+   * Verify the enveloped signature of a signed DE using the embedded certificate
+   */
+  static verifyDE(signedXml: string, certificatePem: string): boolean {
+    try {
+      const match = signedXml.match(/<(?:\w+:)?Signature[\s>][\s\S]*<\/(?:\w+:)?Signature>/);
+      if (!match) {
+        return false;
+      }
+
+      const verifier = new SignedXml({ publicCert: certificatePem });
+      verifier.loadSignature(match[0]);
+      return verifier.checkSignature(signedXml);
+    } catch (error) {
+      console.error("Error verifying electronic document signature:", error);
+      return false;
+    }
+  }
+
+  /**
+   * Accept raw base64, base64 with line breaks or a data URL from the configuration form
+   */
+  private static normalizeBase64(data: string): string {
+    return data.replace(/^data:[^,]*,/, "").replace(/\s+/g, "");
+  }
+
+  private static formatName(name: forge.pki.Certificate["subject"]): string {
+    return name.attributes
+      .map(attr => `${attr.shortName ?? attr.name}=${attr.value}`)
+      .join(", ");
+  }
+}
@@ -0,0 +1,880 @@
+import type { Sale, SaleItem, CompanyConfig, Customer, SifenEvento, NotaCredito, NotaCreditoItem, NotaDebito, NotaDebitoItem, TasaIva } from "@shared/schema";
+import { calcularLineaIva } from "@shared/iva";
+import { leyendasTurismo } from "@shared/turismo";
+import { convertirDesdeGuaranies } from "@shared/monedas";
+import { resolverPais, PARAGUAY, type Pais } from "@shared/paises";
+import type { PagoVenta } from "@shared/pagos";
+import { splitRUC, getTipoContribuyente, getSecurityCodeFromCDC } from "./utils/paraguayan-validators";
+
+/**
+ * SIFEN Documento Electrónico (DE) XML builder
+ * Generates the version 150 layout (rDE > DE > gTimb, gDatGralOpe, gDtipDE, gTotSub)
+ * from a stored sale, credit note or debit note, its items and the company fiscal configuration
+ */
+
+export interface SifenDocumentInput {
+  sale: Sale;
+  items: SaleItem[];
+  pagos?: PagoVenta[]; // Payments of a cash sale; the whole total with medioPago when omitted
+  companyConfig: CompanyConfig;
+  customer?: Customer | null;
+}
+
+export interface SifenNotaCreditoInput {
+  notaCredito: NotaCredito;
+  items: NotaCreditoItem[];
+  sale: Sale; // Invoice the credit note refers to
+  companyConfig: CompanyConfig;
+  customer?: Customer | null;
+}
+
+export interface SifenNotaDebitoInput {
+  notaDebito: NotaDebito;
+  items: NotaDebitoItem[];
+  sale: Sale; // Invoice the debit note refers to
+  companyConfig: CompanyConfig;
+  customer?: Customer | null;
+}
+
+interface XmlNode {
+  name: string;
+  attributes?: Record<string, string>;
+  children?: (XmlNode | null)[];
+  text?: string | number;
+}
+
+// Common shape of invoice, credit note and debit note lines
+export interface DocumentLine {
+  codigo: string;
+  nombre: string;
+  cantidad: number;
+  precioUnitario: string;
+  tasaIva: TasaIva;
+  descuento?: number; // Line discount, IVA included
+  descuentoGlobal?: number; // Share of the document discount, IVA included
+}
+
+interface DocumentHeader {
+  cdc: string | null;
+  tipo: { codigo: number; descripcion: string };
+  numero: string;
+  timbrado: string;
+  fecha: Date;
+  tipoTransaccion: { codigo: number; descripcion: string } | null; // Only informed for facturas
+  infoFiscal?: string | null; // dInfoFisc, legends of interest to the DNIT
+}
+
+export interface ItemAmounts {
+  line: DocumentLine;
+  tasaIva: TasaIva;
+  precioUnitario: number;
+  totalBruto: number;
+  descuento: number;
+  total: number;
+  baseGravada: number;
+  liquidacionIva: number;
+}
+
+// SIFEN payment type codes (iTiPago) for each medio de pago
+const TIPOS_PAGO: Record<Sale["medioPago"], { codigo: number; descripcion: string }> = {
+  efectivo: { codigo: 1, descripcion: "Efectivo" },
+  cheque: { codigo: 2, descripcion: "Cheque" },
+  tarjeta_credito: { codigo: 3, descripcion: "Tarjeta de crédito" },
+  tarjeta_debito: { codigo: 4, descripcion: "Tarjeta de débito" },
+  transferencia: { codigo: 5, descripcion: "Transferencia" },
+};
+
+// SIFEN card brand codes (iDenTarj)
+const MARCAS_TARJETA: Record<string, { codigo: number; descripcion: string }> = {
+  visa: { codigo: 1, descripcion: "Visa" },
+  mastercard: { codigo: 2, descripcion: "Mastercard" },
+  "american express": { codigo: 3, descripcion: "American Express" },
+  maestro: { codigo: 4, descripcion: "Maestro" },
+  panal: { codigo: 5, descripcion: "Panal" },
+  cabal: { codigo: 6, descripcion: "Cabal" },
+  otra: { codigo: 99, descripcion: "Otro" },
+};
+
+// SIFEN currency descriptions (ISO 4217) for payments in a foreign currency
+const MONEDAS: Record<string, string> = {
+  PYG: "Guarani",
+  USD: "US Dollar",
+  BRL: "Brazilian Real",
+  ARS: "Argentine Peso",
+  EUR: "Euro",
+  UYU: "Peso Uruguayo",
+  CLP: "Chilean Peso",
+  BOB: "Boliviano",
+};
+
+// SIFEN identity document codes (iTipIDRec) for non-contributor receivers
+const TIPOS_DOCUMENTO: Record<Exclude<Customer["docTipo"], "RUC">, { codigo: number; descripcion: string }> = {
+  CI: { codigo: 1, descripcion: "Cédula paraguaya" },
+  Pasaporte: { codigo: 2, descripcion: "Pasaporte" },
+  Extranjero: { codigo: 3, descripcion: "Cédula extranjera" },
+};
+
+// SIFEN credit note reasons (iMotEmi)
+const MOTIVOS_NOTA_CREDITO: Record<NotaCredito["motivo"], { codigo: number; descripcion: string }> = {
+  devolucion_ajuste: { codigo: 1, descripcion: "Devolución y Ajuste de precios" },
+  devolucion: { codigo: 2, descripcion: "Devolución" },
+  descuento: { codigo: 3, descripcion: "Descuento" },
+  bonificacion: { codigo: 4, descripcion: "Bonificación" },
+  credito_incobrable: { codigo: 5, descripcion: "Crédito incobrable" },
+  ajuste_precio: { codigo: 8, descripcion: "Ajuste de precio" },
+};
+
+// SIFEN debit note reasons (iMotEmi)
+const MOTIVOS_NOTA_DEBITO: Record<NotaDebito["motivo"], { codigo: number; descripcion: string }> = {
+  recupero_costo: { codigo: 6, descripcion: "Recupero de costo" },
+  recupero_gasto: { codigo: 7, descripcion: "Recupero de gasto" },
+  ajuste_precio: { codigo: 8, descripcion: "Ajuste de precio" },
+};
+
+// Car wash activity (CIIU 4520 - mantenimiento de vehículos); CompanyConfig does not store it yet
+const ACTIVIDAD_ECONOMICA = { codigo: "45200", descripcion: "MANTENIMIENTO Y REPARACION DE VEHICULOS AUTOMOTORES" };
+
+export class SifenXmlService {
+  static readonly VERSION = "150";
+  static readonly NAMESPACE = "http://ekuatia.set.gov.py/sifen/xsd";
+
+  /**
+   * Build the complete rDE XML document for a sale
+   * Amounts are expressed in guaraníes with IVA included, as SIFEN expects
+   */
+  static buildDE(input: SifenDocumentInput): string {
+    const { sale, items, pagos, companyConfig, customer } = input;
+    const amounts = this.calcularMontosFactura(sale, items);
+
+    const hasProducts = items.some(item => item.inventoryItemId);
+    const hasServices = items.some(item => item.serviceId || item.comboId);
+    const tipoTransaccion = hasProducts && hasServices
+      ? { codigo: 3, descripcion: "Mixto (Venta de mercadería y servicios)" }
+      : hasProducts
+        ? { codigo: 1, descripcion: "Venta de mercadería" }
+        : { codigo: 2, descripcion: "Prestación de servicios" };
+
+    return this.buildDocument(
+      {
+        cdc: sale.cdc,
+        tipo: { codigo: 1, descripcion: "Factura electrónica" },
+        numero: sale.numeroFactura,
+        timbrado: sale.timbradoUsado,
+        fecha: new Date(sale.fecha),
+        tipoTransaccion,
+        infoFiscal: sale.regimenTurismo && customer ? leyendasTurismo(customer).join(". ") : null,
+      },
+      companyConfig,
+      customer ?? null,
+      this.buildDatosFactura(sale, amounts, pagos),
+      amounts,
+      null
+    );
+  }
+
+  /**
+   * Line amounts of an invoice as reported in the DE (IVA included)
+   * The KuDE prints these same figures so it always matches the signed document
+   */
+  static calcularMontosFactura(sale: Sale, items: SaleItem[]): ItemAmounts[] {
+    const lines = items.map(item => ({
+      codigo: item.serviceId || item.comboId || item.inventoryItemId || item.id,
+      nombre: item.nombre,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      tasaIva: this.tasaIva(sale, item.tasaIva),
+      descuento: parseFloat(item.descuento ?? "0") || 0,
+      descuentoGlobal: parseFloat(item.descuentoGlobal ?? "0") || 0,
+    }));
+    return this.calculateItemAmounts(lines);
+  }
+
+  /**
+   * Build the rDE XML of a Nota de Crédito electrónica (iTiDE 5)
+   * The associated document (gCamDEAsoc) is the original invoice, referenced by CDC
+   * when it was issued electronically or by timbrado and number otherwise
+   */
+  static buildNotaCredito(input: SifenNotaCreditoInput): string {
+    const { notaCredito, items, sale, companyConfig, customer } = input;
+    const lines = items.map(item => ({
+      codigo: item.saleItemId || item.id,
+      nombre: item.nombre,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      tasaIva: this.tasaIva(sale, item.tasaIva),
+    }));
+
+    return this.buildNota(
+      {
+        cdc: notaCredito.cdc,
+        tipo: { codigo: 5, descripcion: "Nota de crédito electrónica" },
+        numero: notaCredito.numero,
+        timbrado: notaCredito.timbradoUsado,
+        fecha: new Date(notaCredito.fecha),
+        tipoTransaccion: null,
+      },
+      MOTIVOS_NOTA_CREDITO[notaCredito.motivo] ?? MOTIVOS_NOTA_CREDITO.devolucion_ajuste,
+      lines,
+      sale,
+      companyConfig,
+      customer ?? null
+    );
+  }
+
+  /**
+   * Build the rDE XML of a Nota de Débito electrónica (iTiDE 6)
+   * Same layout as the credit note: gCamNCDE carries the reason and gCamDEAsoc the invoice
+   */
+  static buildNotaDebito(input: SifenNotaDebitoInput): string {
+    const { notaDebito, items, sale, companyConfig, customer } = input;
+    const lines = items.map(item => ({
+      codigo: item.serviceId || item.id,
+      nombre: item.nombre,
+      cantidad: item.cantidad,
+      precioUnitario: item.precioUnitario,
+      tasaIva: this.tasaIva(sale, item.tasaIva),
+    }));
+
+    return this.buildNota(
+      {
+        cdc: notaDebito.cdc,
+        tipo: { codigo: 6, descripcion: "Nota de débito electrónica" },
+        numero: notaDebito.numero,
+        timbrado: notaDebito.timbradoUsado,
+        fecha: new Date(notaDebito.fecha),
+        tipoTransaccion: null,
+      },
+      MOTIVOS_NOTA_DEBITO[notaDebito.motivo] ?? MOTIVOS_NOTA_DEBITO.ajuste_precio,
+      lines,
+      sale,
+      companyConfig,
+      customer ?? null
+    );
+  }
+
+  /**
+   * Build the rGesEve XML of a cancelación or inutilización event
+   * The rEve Id is derived from the stored event id so retries send the same identifier
+   */
+  static buildEvento(evento: SifenEvento): string {
+    const rGesEve: XmlNode = {
+      name: "rGesEve",
+      attributes: {
+        xmlns: this.NAMESPACE,
+        "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+        "xsi:schemaLocation": `${this.NAMESPACE} siRecepEvento_v${this.VERSION}.xsd`,
+      },
+      children: [
+        {
+          name: "rEve",
+          attributes: { Id: this.eventoId(evento) },
+          children: [
+            { name: "dFecFirma", text: this.formatDateTime(new Date()) },
+            { name: "dVerFor", text: this.VERSION },
+            {
+              name: "gGroupTiEvt",
+              children: [
+                evento.tipo === "cancelacion"
+                  ? {
+                      name: "rGeVeCan",
+                      children: [
+                        { name: "Id", text: evento.cdc ?? "" },
+                        { name: "mOtEve", text: evento.motivo },
+                      ],
+                    }
+                  : {
+                      name: "rGeVeInu",
+                      children: [
+                        { name: "dNumTim", text: (evento.timbrado ?? "").padStart(8, "0") },
+                        { name: "dEst", text: (evento.establecimiento ?? "").padStart(3, "0") },
+                        { name: "dPunExp", text: (evento.puntoExpedicion ?? "").padStart(3, "0") },
+                        { name: "dNumIn", text: String(evento.numeroDesde ?? 0).padStart(7, "0") },
+                        { name: "dNumFin", text: String(evento.numeroHasta ?? 0).padStart(7, "0") },
+                        { name: "iTiDE", text: evento.tipoDocumento },
+                        { name: "mOtEve", text: evento.motivo },
+                      ],
+                    },
+              ],
+            },
+          ],
+        },
+      ],
+    };
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.serialize(rGesEve, 0)}`;
+  }
+
+  // ========================
+  // DE SECTIONS
+  // ========================
+
+  /**
+   * rDE > DE wrapper shared by every document type
+   */
+  private static buildDocument(
+    header: DocumentHeader,
+    companyConfig: CompanyConfig,
+    customer: Customer | null,
+    datosTipoDocumento: XmlNode,
+    amounts: ItemAmounts[],
+    documentoAsociado: XmlNode | null
+  ): string {
+    const rDE: XmlNode = {
+      name: "rDE",
+      attributes: {
+        xmlns: this.NAMESPACE,
+        "xmlns:xsi": "http://www.w3.org/2001/XMLSchema-instance",
+        "xsi:schemaLocation": `${this.NAMESPACE} siRecepDE_v${this.VERSION}.xsd`,
+      },
+      children: [
+        { name: "dVerFor", text: this.VERSION },
+        {
+          name: "DE",
+          attributes: header.cdc ? { Id: header.cdc } : undefined,
+          children: [
+            header.cdc ? { name: "dDVId", text: header.cdc.charAt(43) } : null,
+            // Signed as of the emission date so the DE (and the DigestValue printed in the
+            // KuDE QR) is the same whether it is generated for printing or for the lote
+            { name: "dFecFirma", text: this.formatDateTime(header.fecha) },
+            { name: "dSisFact", text: 1 },
+            {
+              name: "gOpeDE",
+              children: [
+                { name: "iTipEmi", text: 1 },
+                { name: "dDesTipEmi", text: "Normal" },
+                header.cdc ? { name: "dCodSeg", text: getSecurityCodeFromCDC(header.cdc) } : null,
+                header.infoFiscal ? { name: "dInfoFisc", text: header.infoFiscal } : null,
+              ],
+            },
+            this.buildTimbrado(header, companyConfig),
+            this.buildDatosGenerales(header, companyConfig, customer),
+            datosTipoDocumento,
+            this.buildTotales(amounts),
+            documentoAsociado,
+          ],
+        },
+      ],
+    };
+
+    return `<?xml version="1.0" encoding="UTF-8"?>\n${this.serialize(rDE, 0)}`;
+  }
+
+  /**
+   * Credit and debit notes: gCamNCDE with the reason, the items and the associated invoice
+   */
+  private static buildNota(
+    header: DocumentHeader,
+    motivo: { codigo: number; descripcion: string },
+    lines: DocumentLine[],
+    sale: Sale,
+    companyConfig: CompanyConfig,
+    customer: Customer | null
+  ): string {
+    const amounts = this.calculateItemAmounts(lines);
+
+    return this.buildDocument(
+      header,
+      companyConfig,
+      customer,
+      {
+        name: "gDtipDE",
+        children: [
+          {
+            name: "gCamNCDE",
+            children: [
+              { name: "iMotEmi", text: motivo.codigo },
+              { name: "dDesMotEmi", text: motivo.descripcion },
+            ],
+          },
+          ...amounts.map(amount => this.buildItem(amount)),
+        ],
+      },
+      amounts,
+      this.buildDocumentoAsociado(sale, companyConfig)
+    );
+  }
+
+  /**
+   * gTimb - timbrado and document numbering
+   */
+  private static buildTimbrado(header: DocumentHeader, companyConfig: CompanyConfig): XmlNode {
+    const [establecimiento, puntoExpedicion, numero] = this.splitInvoiceNumber(header.numero, companyConfig);
+
+    return {
+      name: "gTimb",
+      children: [
+        { name: "iTiDE", text: header.tipo.codigo },
+        { name: "dDesTiDE", text: header.tipo.descripcion },
+        { name: "dNumTim", text: (header.timbrado || companyConfig.timbradoNumero).padStart(8, "0") },
+        { name: "dEst", text: establecimiento },
+        { name: "dPunExp", text: puntoExpedicion },
+        { name: "dNumDoc", text: numero },
+        { name: "dFeIniT", text: companyConfig.timbradoDesde },
+      ],
+    };
+  }
+
+  /**
+   * gDatGralOpe - emission date, operation data, issuer and receiver
+   */
+  private static buildDatosGenerales(
+    header: DocumentHeader,
+    companyConfig: CompanyConfig,
+    customer: Customer | null
+  ): XmlNode {
+    return {
+      name: "gDatGralOpe",
+      children: [
+        { name: "dFeEmiDE", text: this.formatDateTime(header.fecha) },
+        {
+          name: "gOpeCom",
+          children: [
+            header.tipoTransaccion ? { name: "iTipTra", text: header.tipoTransaccion.codigo } : null,
+            header.tipoTransaccion ? { name: "dDesTipTra", text: header.tipoTransaccion.descripcion } : null,
+            { name: "iTImp", text: 1 },
+            { name: "dDesTImp", text: "IVA" },
+            { name: "cMoneOpe", text: "PYG" },
+            { name: "dDesMoneOpe", text: "Guarani" },
+          ],
+        },
+        this.buildEmisor(companyConfig),
+        this.buildReceptor(customer),
+      ],
+    };
+  }
+
+  /**
+   * gEmis - issuer data taken from the company configuration
+   */
+  private static buildEmisor(companyConfig: CompanyConfig): XmlNode {
+    const ruc = splitRUC(companyConfig.ruc);
+    if (!ruc) {
+      throw new Error(`RUC de la empresa inválido: ${companyConfig.ruc}`);
+    }
+
+    return {
+      name: "gEmis",
+      children: [
+        { name: "dRucEm", text: ruc.base },
+        { name: "dDVEmi", text: ruc.dv },
+        { name: "iTipCont", text: getTipoContribuyente(companyConfig.ruc) },
+        { name: "dNomEmi", text: companyConfig.razonSocial },
+        companyConfig.nombreFantasia ? { name: "dNomFanEmi", text: companyConfig.nombreFantasia } : null,
+        { name: "dDirEmi", text: companyConfig.direccion },
+        { name: "dNumCas", text: 0 },
+        // Geographic codes are not part of CompanyConfig yet - default to Capital / Asunción
+        { name: "cDepEmi", text: 1 },
+        { name: "dDesDepEmi", text: "CAPITAL" },
+        { name: "cCiuEmi", text: 1 },
+        { name: "dDesCiuEmi", text: companyConfig.ciudad.toUpperCase() },
+        { name: "dTelEmi", text: companyConfig.telefono || "0" },
+        { name: "dEmailE", text: companyConfig.email || "" },
+        {
+          name: "gActEco",
+          children: [
+            { name: "cActEco", text: ACTIVIDAD_ECONOMICA.codigo },
+            { name: "dDesActEco", text: ACTIVIDAD_ECONOMICA.descripcion },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * gDatRec - receiver data; sales without customer are issued to an innominado receiver
+   */
+  private static buildReceptor(customer: Customer | null): XmlNode {
+    if (!customer) {
+      return {
+        name: "gDatRec",
+        children: [
+          { name: "iNatRec", text: 2 },
+          { name: "iTiOpe", text: 2 },
+          { name: "cPaisRec", text: PARAGUAY.codigo },
+          { name: "dDesPaisRe", text: PARAGUAY.descripcion },
+          { name: "iTipIDRec", text: 5 },
+          { name: "dDTipIDRec", text: "Innominado" },
+          { name: "dNumIDRec", text: "0" },
+          { name: "dNomRec", text: "Sin Nombre" },
+        ],
+      };
+    }
+
+    const contactNodes: (XmlNode | null)[] = [
+      customer.direccion ? { name: "dDirRec", text: customer.direccion } : null,
+      customer.direccion ? { name: "dNumCasRec", text: 0 } : null,
+      customer.telefono ? { name: "dTelRec", text: customer.telefono } : null,
+      customer.email ? { name: "dEmailRec", text: customer.email } : null,
+    ];
+
+    const ruc = customer.docTipo === "RUC" ? splitRUC(customer.docNumero) : null;
+    if (ruc) {
+      return {
+        name: "gDatRec",
+        children: [
+          { name: "iNatRec", text: 1 },
+          { name: "iTiOpe", text: 1 },
+          { name: "cPaisRec", text: PARAGUAY.codigo },
+          { name: "dDesPaisRe", text: PARAGUAY.descripcion },
+          { name: "iTiContRec", text: getTipoContribuyente(customer.docNumero) },
+          { name: "dRucRec", text: ruc.base },
+          { name: "dDVRec", text: ruc.dv },
+          { name: "dNomRec", text: customer.nombre },
+          ...contactNodes,
+        ],
+      };
+    }
+
+    const pais = this.resolvePais(customer);
+    const documento = customer.docTipo === "RUC"
+      ? { codigo: 9, descripcion: "Otro" }
+      : TIPOS_DOCUMENTO[customer.docTipo];
+    const isForeign = pais.codigo !== PARAGUAY.codigo;
+
+    return {
+      name: "gDatRec",
+      children: [
+        { name: "iNatRec", text: 2 },
+        { name: "iTiOpe", text: isForeign ? 4 : 2 },
+        { name: "cPaisRec", text: pais.codigo },
+        { name: "dDesPaisRe", text: pais.descripcion },
+        { name: "iTipIDRec", text: documento.codigo },
+        { name: "dDTipIDRec", text: documento.descripcion },
+        { name: "dNumIDRec", text: customer.pasaporte || customer.docNumero },
+        { name: "dNomRec", text: customer.nombre },
+        ...contactNodes,
+      ],
+    };
+  }
+
+  /**
+   * gDtipDE - factura specific fields, payment condition and items
+   */
+  private static buildDatosFactura(sale: Sale, amounts: ItemAmounts[], pagos?: PagoVenta[]): XmlNode {
+    const total = amounts.reduce((sum, a) => sum + a.total, 0);
+
+    return {
+      name: "gDtipDE",
+      children: [
+        {
+          name: "gCamFE",
+          children: [
+            { name: "iIndPres", text: 1 },
+            { name: "dDesIndPres", text: "Operación presencial" },
+          ],
+        },
+        sale.condicionVenta === "credito"
+          ? this.buildCondicionCredito(sale)
+          : this.buildCondicionContado(sale, total, pagos),
+        ...amounts.map(amount => this.buildItem(amount)),
+      ],
+    };
+  }
+
+  /**
+   * gCamCond - cash sale, one gPaConEIni per payment method used
+   */
+  private static buildCondicionContado(sale: Sale, total: number, pagos?: PagoVenta[]): XmlNode {
+    // The operation stays in guaraníes; a payment in another currency carries its rate
+    const extranjera = !!sale.moneda && sale.moneda !== "PYG" && !!sale.tipoCambio && !!sale.totalMoneda;
+    const pagosVenta = pagos && pagos.length > 0 ? pagos : [{ medioPago: sale.medioPago, monto: total }];
+
+    return {
+      name: "gCamCond",
+      children: [
+        { name: "iCondOpe", text: 1 },
+        { name: "dDCondOpe", text: "Contado" },
+        ...pagosVenta.map((pago): XmlNode => {
+          const tipoPago = TIPOS_PAGO[pago.medioPago] ?? TIPOS_PAGO.efectivo;
+          const isCard = pago.medioPago === "tarjeta_credito" || pago.medioPago === "tarjeta_debito";
+          const marca = isCard ? MARCAS_TARJETA[pago.marcaTarjeta?.trim().toLowerCase() ?? ""] ?? MARCAS_TARJETA.otra : null;
+          const monto = !extranjera
+            ? pago.monto
+            : pagosVenta.length === 1 ? parseFloat(sale.totalMoneda!) : convertirDesdeGuaranies(pago.monto, sale.tipoCambio!);
+
+          return {
+            name: "gPaConEIni",
+            children: [
+              { name: "iTiPago", text: tipoPago.codigo },
+              { name: "dDesTiPag", text: tipoPago.descripcion },
+              { name: "dMonTiPag", text: monto },
+              { name: "cMoneTiPag", text: extranjera ? sale.moneda : "PYG" },
+              { name: "dDMoneTiPag", text: extranjera ? MONEDAS[sale.moneda] ?? sale.moneda : "Guarani" },
+              extranjera ? { name: "dTiCamTiPag", text: parseFloat(sale.tipoCambio!) } : null,
+              marca ? {
+                name: "gPagTarCD",
+                children: [
+                  { name: "iDenTarj", text: marca.codigo },
+                  { name: "dDesDenTarj", text: marca.descripcion },
+                  { name: "iForProPa", text: 1 },
+                  pago.ultimos4 ? { name: "dNumTarj", text: pago.ultimos4 } : null,
+                ],
+              } : null,
+            ],
+          };
+        }),
+      ],
+    };
+  }
+
+  /**
+   * gCamCond - credit sale with a term in days up to its due date
+   */
+  private static buildCondicionCredito(sale: Sale): XmlNode {
+    const fecha = new Date(sale.fecha);
+    const vencimiento = new Date(sale.fechaVencimiento ?? sale.fecha);
+    const dias = Math.max(0, Math.round(
+      (Date.UTC(vencimiento.getFullYear(), vencimiento.getMonth(), vencimiento.getDate()) -
+        Date.UTC(fecha.getFullYear(), fecha.getMonth(), fecha.getDate())) / (24 * 60 * 60 * 1000)
+    ));
+
+    return {
+      name: "gCamCond",
+      children: [
+        { name: "iCondOpe", text: 2 },
+        { name: "dDCondOpe", text: "Crédito" },
+        {
+          name: "gPagCred",
+          children: [
+            { name: "iCondCred", text: 1 },
+            { name: "dDCondCred", text: "Plazo" },
+            { name: "dPlazoCre", text: `${dias} días` },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * gCamDEAsoc - invoice referenced by a credit note
+   */
+  private static buildDocumentoAsociado(sale: Sale, companyConfig: CompanyConfig): XmlNode {
+    if (sale.cdc) {
+      return {
+        name: "gCamDEAsoc",
+        children: [
+          { name: "iTipDocAso", text: 1 },
+          { name: "dDesTipDocAso", text: "Electrónico" },
+          { name: "dCdCDERef", text: sale.cdc },
+        ],
+      };
+    }
+
+    const [establecimiento, puntoExpedicion, numero] = this.splitInvoiceNumber(sale.numeroFactura, companyConfig);
+    return {
+      name: "gCamDEAsoc",
+      children: [
+        { name: "iTipDocAso", text: 2 },
+        { name: "dDesTipDocAso", text: "Impreso" },
+        { name: "dNTimDI", text: sale.timbradoUsado.padStart(8, "0") },
+        { name: "dEstDocAso", text: establecimiento },
+        { name: "dPExpDocAso", text: puntoExpedicion },
+        { name: "dNumDocAso", text: numero },
+        { name: "iTipoDocAso", text: 1 },
+        { name: "dDTipoDocAso", text: "Factura" },
+        { name: "dFecEmiDI", text: this.formatDateTime(new Date(sale.fecha)).substring(0, 10) },
+      ],
+    };
+  }
+
+  /**
+   * gCamItem - a single document line with its IVA breakdown
+   */
+  private static buildItem(amount: ItemAmounts): XmlNode {
+    const { line, tasaIva } = amount;
+    // Discounts are reported per unit
+    const descuentoUnitario = this.decimales((line.descuento ?? 0) / line.cantidad);
+    const afectacion = tasaIva === 0
+      ? { codigo: 3, descripcion: "Exento" }
+      : { codigo: 1, descripcion: "Gravado IVA" };
+
+    return {
+      name: "gCamItem",
+      children: [
+        { name: "dCodInt", text: line.codigo.substring(0, 20) },
+        { name: "dDesProSer", text: line.nombre },
+        { name: "cUniMed", text: 77 },
+        { name: "dDesUniMed", text: "UNI" },
+        { name: "dCantProSer", text: line.cantidad },
+        {
+          name: "gValorItem",
+          children: [
+            { name: "dPUniProSer", text: amount.precioUnitario },
+            { name: "dTotBruOpeItem", text: amount.totalBruto },
+            {
+              name: "gValorRestaItem",
+              children: [
+                { name: "dDescItem", text: descuentoUnitario },
+                { name: "dPorcDesIt", text: amount.precioUnitario > 0 ? this.decimales(descuentoUnitario * 100 / amount.precioUnitario) : 0 },
+                { name: "dDescGloItem", text: this.decimales((line.descuentoGlobal ?? 0) / line.cantidad) },
+                { name: "dTotOpeItem", text: amount.total },
+              ],
+            },
+          ],
+        },
+        {
+          name: "gCamIVA",
+          children: [
+            { name: "iAfecIVA", text: afectacion.codigo },
+            { name: "dDesAfecIVA", text: afectacion.descripcion },
+            { name: "dPropIVA", text: tasaIva === 0 ? 0 : 100 },
+            { name: "dTasaIVA", text: tasaIva },
+            { name: "dBasGravIVA", text: amount.baseGravada },
+            { name: "dLiqIVAItem", text: amount.liquidacionIva },
+          ],
+        },
+      ],
+    };
+  }
+
+  /**
+   * gTotSub - document totals per IVA rate
+   */
+  private static buildTotales(amounts: ItemAmounts[]): XmlNode {
+    const sumBy = (rate: 0 | 5 | 10, field: "total" | "baseGravada" | "liquidacionIva") =>
+      amounts.filter(a => a.tasaIva === rate).reduce((sum, a) => sum + a[field], 0);
+
+    const subExento = sumBy(0, "total");
+    const sub5 = sumBy(5, "total");
+    const sub10 = sumBy(10, "total");
+    const totalOperacion = subExento + sub5 + sub10;
+    const iva5 = sumBy(5, "liquidacionIva");
+    const iva10 = sumBy(10, "liquidacionIva");
+    const base5 = sumBy(5, "baseGravada");
+    const base10 = sumBy(10, "baseGravada");
+    const descuentoItems = amounts.reduce((sum, a) => sum + (a.line.descuento ?? 0), 0);
+    const descuentoGlobal = amounts.reduce((sum, a) => sum + (a.line.descuentoGlobal ?? 0), 0);
+    const totalSinDescuentoGlobal = amounts.reduce((sum, a) => sum + a.totalBruto, 0) - descuentoItems;
+
+    return {
+      name: "gTotSub",
+      children: [
+        { name: "dSubExe", text: subExento },
+        { name: "dSubExo", text: 0 },
+        { name: "dSub5", text: sub5 },
+        { name: "dSub10", text: sub10 },
+        { name: "dTotOpe", text: totalOperacion },
+        { name: "dTotDesc", text: descuentoItems },
+        { name: "dTotDescGlotem", text: descuentoGlobal },
+        { name: "dTotAntItem", text: 0 },
+        { name: "dTotAnt", text: 0 },
+        { name: "dPorcDescTotal", text: totalSinDescuentoGlobal > 0 ? this.decimales(descuentoGlobal * 100 / totalSinDescuentoGlobal) : 0 },
+        { name: "dDescTotal", text: descuentoItems + descuentoGlobal },
+        { name: "dAnticipo", text: 0 },
+        { name: "dRedon", text: 0 },
+        { name: "dTotGralOpe", text: totalOperacion },
+        { name: "dIVA5", text: iva5 },
+        { name: "dIVA10", text: iva10 },
+        { name: "dTotIVA", text: iva5 + iva10 },
+        { name: "dBaseGrav5", text: base5 },
+        { name: "dBaseGrav10", text: base10 },
+        { name: "dTBasGraIVA", text: base5 + base10 },
+      ],
+    };
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  /**
+   * IVA rate of a line; lines stored before rates were kept per line take the rate of the invoice
+   */
+  private static tasaIva(sale: Sale, tasaIva: TasaIva | undefined): TasaIva {
+    if (tasaIva !== undefined && tasaIva !== null) {
+      return tasaIva;
+    }
+    return sale.regimenTurismo || parseFloat(sale.impuestos || "0") === 0 ? 0 : 10;
+  }
+
+  /**
+   * Lines are stored net of IVA, while SIFEN line amounts include IVA - gross them up here
+   */
+  private static calculateItemAmounts(lines: DocumentLine[]): ItemAmounts[] {
+    return lines.map(line => ({
+      line,
+      tasaIva: line.tasaIva,
+      ...calcularLineaIva({ ...line, descuento: (line.descuento ?? 0) + (line.descuentoGlobal ?? 0) })
+    }));
+  }
+
+  /**
+   * Unit discounts and percentages go with up to 8 decimals
+   */
+  private static decimales(valor: number): number {
+    return Number(valor.toFixed(8));
+  }
+
+  /**
+   * Split "001-001-0000001" into establecimiento, punto de expedición and number
+   */
+  private static splitInvoiceNumber(numeroFactura: string, companyConfig: CompanyConfig): [string, string, string] {
+    const parts = numeroFactura.split("-");
+    if (parts.length === 3) {
+      return [parts[0].padStart(3, "0"), parts[1].padStart(3, "0"), parts[2].padStart(7, "0")];
+    }
+    return [
+      companyConfig.establecimiento.padStart(3, "0"),
+      companyConfig.puntoExpedicion.padStart(3, "0"),
+      (parts[parts.length - 1] || "0").padStart(7, "0"),
+    ];
+  }
+
+  /**
+   * Country of a non-contributor receiver: a cédula paraguaya is from Paraguay, any other document
+   * needs a known country, since SIFEN treats the receiver as foreign or local by it
+   */
+  private static resolvePais(customer: Customer): Pais {
+    const pais = resolverPais(customer.pais);
+    if (pais) {
+      return pais;
+    }
+    if (customer.docTipo === "CI" && !customer.pais?.trim()) {
+      return PARAGUAY;
+    }
+    throw new Error(customer.pais?.trim()
+      ? `País del cliente ${customer.nombre} desconocido: ${customer.pais.trim()}`
+      : `Indique el país del cliente ${customer.nombre}`);
+  }
+
+  /**
+   * Numeric event identifier (up to 10 digits) taken from the event UUID
+   */
+  private static eventoId(evento: SifenEvento): string {
+    const hex = evento.id.replace(/[^0-9a-f]/gi, "").substring(0, 8) || "1";
+    return String(parseInt(hex, 16) % 10000000000);
+  }
+
+  /**
+   * SIFEN dates use local time without offset: YYYY-MM-DDThh:mm:ss
+   */
+  private static formatDateTime(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}` +
+      `T${pad(date.getHours())}:${pad(date.getMinutes())}:${pad(date.getSeconds())}`;
+  }
+
+  private static escape(value: string): string {
+    return value
+      .replace(/&/g, "&amp;")
+      .replace(/</g, "&lt;")
+      .replace(/>/g, "&gt;")
+      .replace(/"/g, "&quot;")
+      .replace(/'/g, "&apos;");
+  }
+
+  private static serialize(node: XmlNode, depth: number): string {
+    const indent = "  ".repeat(depth);
+    const attributes = Object.entries(node.attributes ?? {})
+      .map(([key, value]) => ` ${key}="${this.escape(value)}"`)
+      .join("");
+
+    const children = (node.children ?? []).filter((child): child is XmlNode => child !== null);
+    if (children.length > 0) {
+      const inner = children.map(child => this.serialize(child, depth + 1)).join("\n");
+      return `${indent}<${node.name}${attributes}>\n${inner}\n${indent}</${node.name}>`;
+    }
+
+    return `${indent}<${node.name}${attributes}>${this.escape(String(node.text ?? ""))}</${node.name}>`;
+  }
+}
@@ -2,8 +2,16 @@ import {
   type User, type InsertUser, type InternalUpdateUser,
   type CompanyConfig, type InsertCompanyConfig,
   type DnitConfig, type InsertDnitConfig, type UpdateDnitConfig,
+  type Establecimiento, type InsertEstablecimiento,
+  type PuntoExpedicion, type InsertPuntoExpedicion,
+  type Moneda, type InsertMoneda,
+  type TipoCambio, type InsertTipoCambio,
+  type Timbrado, type InsertTimbrado,
+  type TimbradoRango, type InsertTimbradoRango,
+  type DocumentSequence, type DocumentSequenceKey,
   type Category, type InsertCategory,
   type Customer, type InsertCustomer,
+  type PadronRuc, type InsertPadronRuc, type PadronRucCambios,
   type Vehicle, type InsertVehicle,
   type Service, type InsertService,
   type ServiceCombo, type InsertServiceCombo,
@@ -12,13 +20,27 @@ import {
   type WorkOrderItem, type InsertWorkOrderItem,
   type InventoryItem, type InsertInventoryItem,
   type Sale, type InsertSale,
-  type SaleItem, type InsertSaleItem
+  type SaleItem, type InsertSaleItem,
+  type SalePago, type InsertSalePago,
+  type SifenLote, type InsertSifenLote,
+  type SifenEvento, type InsertSifenEvento,
+  type NotaCredito, type InsertNotaCredito,
+  type NotaCreditoItem, type InsertNotaCreditoItem,
+  type NotaDebito, type InsertNotaDebito,
+  type NotaDebitoItem, type InsertNotaDebitoItem,
+  type Recibo, type InsertRecibo,
+  type ReciboAplicacion, type InsertReciboAplicacion,
+  type SesionCaja, type InsertSesionCaja,
+  type MovimientoCaja, type InsertMovimientoCaja,
+  type MovimientoStock, type InsertMovimientoStock
 } from "@shared/schema";
+import { estadoAlertaStock } from "@shared/inventario";
 import { randomUUID } from "crypto";
 import { EncryptionService } from "./encryption";
 import { PasswordUtils } from "./password-utils";
 import { PostgresStorage } from "./postgres-storage";
 import { JsonFileStorage } from "./json-file-storage";
+import { SifenClient } from "./sifen-client";
 
 export interface IStorage {
   // Users
@@ -54,6 +76,50 @@ export interface IStorage {
   deleteDnitConfig(id: string): Promise<boolean>;
   testDnitConnection(config: DnitConfig): Promise<{ success: boolean; error?: string }>;
 
+  // Establecimientos
+  getEstablecimiento(id: string): Promise<Establecimiento | undefined>;
+  getEstablecimientos(): Promise<Establecimiento[]>;
+  createEstablecimiento(establecimiento: InsertEstablecimiento): Promise<Establecimiento>;
+  updateEstablecimiento(id: string, establecimiento: Partial<InsertEstablecimiento>): Promise<Establecimiento | undefined>;
+  deleteEstablecimiento(id: string): Promise<boolean>;
+
+  // Puntos de Expedición
+  getPuntoExpedicion(id: string): Promise<PuntoExpedicion | undefined>;
+  getPuntosExpedicion(establecimientoId?: string): Promise<PuntoExpedicion[]>;
+  createPuntoExpedicion(punto: InsertPuntoExpedicion): Promise<PuntoExpedicion>;
+  updatePuntoExpedicion(id: string, punto: Partial<InsertPuntoExpedicion>): Promise<PuntoExpedicion | undefined>;
+  deletePuntoExpedicion(id: string): Promise<boolean>;
+
+  // Currencies
+  getMoneda(id: string): Promise<Moneda | undefined>;
+  getMonedas(): Promise<Moneda[]>;
+  createMoneda(moneda: InsertMoneda): Promise<Moneda>;
+  updateMoneda(id: string, moneda: Partial<InsertMoneda>): Promise<Moneda | undefined>;
+  deleteMoneda(id: string): Promise<boolean>;
+
+  // Exchange Rates
+  getTiposCambio(moneda?: string): Promise<TipoCambio[]>;
+  createTipoCambio(tipoCambio: InsertTipoCambio): Promise<TipoCambio>;
+  updateTipoCambio(id: string, tipoCambio: Partial<InsertTipoCambio>): Promise<TipoCambio | undefined>;
+  deleteTipoCambio(id: string): Promise<boolean>;
+
+  // Timbrados
+  getTimbrado(id: string): Promise<Timbrado | undefined>;
+  getTimbrados(): Promise<Timbrado[]>;
+  createTimbrado(timbrado: InsertTimbrado): Promise<Timbrado>;
+  updateTimbrado(id: string, timbrado: Partial<InsertTimbrado>): Promise<Timbrado | undefined>;
+  deleteTimbrado(id: string): Promise<boolean>;
+
+  // Timbrado Rangos
+  getTimbradoRangos(timbradoId: string): Promise<TimbradoRango[]>;
+  createTimbradoRango(rango: InsertTimbradoRango): Promise<TimbradoRango>;
+  deleteTimbradoRangos(timbradoId: string): Promise<boolean>;
+
+  // Document Sequences
+  // Atomically reserve the next number of a sequence: max(last reserved + 1, minimo)
+  reserveDocumentNumber(key: DocumentSequenceKey, minimo: number): Promise<number>;
+  getDocumentSequences(): Promise<DocumentSequence[]>;
+
   // Customers
   getCustomer(id: string): Promise<Customer | undefined>;
   getCustomers(): Promise<Customer[]>;
@@ -61,6 +127,11 @@ export interface IStorage {
   updateCustomer(id: string, customer: Partial<InsertCustomer>): Promise<Customer | undefined>;
   deleteCustomer(id: string): Promise<boolean>;
 
+  // RUC Padrón
+  getPadronRuc(ruc: string): Promise<PadronRuc | undefined>;
+  upsertPadronRuc(registros: InsertPadronRuc[]): Promise<PadronRucCambios>;
+  getPadronRucEstado(): Promise<{ cantidad: number; actualizado: Date | null }>;
+
   // Vehicles
   getVehicle(id: string): Promise<Vehicle | undefined>;
   getVehiclesByCustomer(customerId: string): Promise<Vehicle[]>;
@@ -126,12 +197,24 @@ export interface IStorage {
   updateInventoryItem(id: string, item: Partial<InsertInventoryItem>): Promise<InventoryItem | undefined>;
   deleteInventoryItem(id: string): Promise<boolean>;
   updateInventoryStock(id: string, newStock: number): Promise<InventoryItem | undefined>;
+  // Atomically add delta to stockActual; a decrease beyond the stock on hand is refused (undefined) unless allowNegative
+  adjustInventoryStock(id: string, delta: number, allowNegative: boolean): Promise<InventoryItem | undefined>;
+
+  // Stock Movements
+  getMovimientosStock(inventoryItemId: string): Promise<MovimientoStock[]>;
+  createMovimientoStock(movimiento: InsertMovimientoStock): Promise<MovimientoStock>;
+  // Atomically open the ledger of an item with an inicial movement of its stockActual, unless it already has movements
+  openMovimientosStock(inventoryItemId: string, userId: string | null): Promise<void>;
 
   // Sales
   getSale(id: string): Promise<Sale | undefined>;
+  getSaleByCdc(cdc: string): Promise<Sale | undefined>;
   getSales(): Promise<Sale[]>;
   getSalesByDateRange(startDate: Date, endDate: Date): Promise<Sale[]>;
   getSalesByCustomer(customerId: string): Promise<Sale[]>;
+  getSalesBySifenEstado(estado: Sale["sifenEstado"]): Promise<Sale[]>;
+  getSalesBySifenLote(loteId: string): Promise<Sale[]>;
+  getSalesBySesionCaja(sesionId: string): Promise<Sale[]>;
   getLastSale(): Promise<Sale | undefined>;
   createSale(sale: InsertSale): Promise<Sale>;
   updateSale(id: string, sale: Partial<InsertSale>): Promise<Sale | undefined>;
@@ -142,6 +225,81 @@ export interface IStorage {
   createSaleItem(item: InsertSaleItem): Promise<SaleItem>;
   deleteSaleItem(id: string): Promise<boolean>;
   deleteSaleItemsBySale(saleId: string): Promise<void>;
+
+  // Sale Payments
+  getSalePagos(saleId: string): Promise<SalePago[]>;
+  createSalePago(pago: InsertSalePago): Promise<SalePago>;
+  deleteSalePagosBySale(saleId: string): Promise<void>;
+
+  // SIFEN Lotes
+  getSifenLote(id: string): Promise<SifenLote | undefined>;
+  getSifenLotes(): Promise<SifenLote[]>;
+  getSifenLotesByEstado(estado: SifenLote["estado"]): Promise<SifenLote[]>;
+  createSifenLote(lote: InsertSifenLote): Promise<SifenLote>;
+  updateSifenLote(id: string, lote: Partial<InsertSifenLote>): Promise<SifenLote | undefined>;
+
+  // SIFEN Events
+  getSifenEvento(id: string): Promise<SifenEvento | undefined>;
+  getSifenEventos(): Promise<SifenEvento[]>;
+  getSifenEventosByEstado(estado: SifenEvento["estado"]): Promise<SifenEvento[]>;
+  createSifenEvento(evento: InsertSifenEvento): Promise<SifenEvento>;
+  updateSifenEvento(id: string, evento: Partial<InsertSifenEvento>): Promise<SifenEvento | undefined>;
+
+  // Credit Notes
+  getNotaCredito(id: string): Promise<NotaCredito | undefined>;
+  getNotaCreditoByCdc(cdc: string): Promise<NotaCredito | undefined>;
+  getNotasCredito(): Promise<NotaCredito[]>;
+  getNotasCreditoBySale(saleId: string): Promise<NotaCredito[]>;
+  getNotasCreditoBySesionCaja(sesionId: string): Promise<NotaCredito[]>;
+  getNotasCreditoByDateRange(startDate: Date, endDate: Date): Promise<NotaCredito[]>;
+  getNotasCreditoBySifenEstado(estado: NotaCredito["sifenEstado"]): Promise<NotaCredito[]>;
+  getNotasCreditoBySifenLote(loteId: string): Promise<NotaCredito[]>;
+  getLastNotaCredito(): Promise<NotaCredito | undefined>;
+  createNotaCredito(nota: InsertNotaCredito): Promise<NotaCredito>;
+  updateNotaCredito(id: string, nota: Partial<InsertNotaCredito>): Promise<NotaCredito | undefined>;
+
+  // Credit Note Items
+  getNotaCreditoItems(notaCreditoId: string): Promise<NotaCreditoItem[]>;
+  createNotaCreditoItem(item: InsertNotaCreditoItem): Promise<NotaCreditoItem>;
+
+  // Debit Notes
+  getNotaDebito(id: string): Promise<NotaDebito | undefined>;
+  getNotaDebitoByCdc(cdc: string): Promise<NotaDebito | undefined>;
+  getNotasDebito(): Promise<NotaDebito[]>;
+  getNotasDebitoBySale(saleId: string): Promise<NotaDebito[]>;
+  getNotasDebitoByDateRange(startDate: Date, endDate: Date): Promise<NotaDebito[]>;
+  getNotasDebitoBySifenEstado(estado: NotaDebito["sifenEstado"]): Promise<NotaDebito[]>;
+  getNotasDebitoBySifenLote(loteId: string): Promise<NotaDebito[]>;
+  getLastNotaDebito(): Promise<NotaDebito | undefined>;
+  createNotaDebito(nota: InsertNotaDebito): Promise<NotaDebito>;
+  updateNotaDebito(id: string, nota: Partial<InsertNotaDebito>): Promise<NotaDebito | undefined>;
+
+  // Debit Note Items
+  getNotaDebitoItems(notaDebitoId: string): Promise<NotaDebitoItem[]>;
+  createNotaDebitoItem(item: InsertNotaDebitoItem): Promise<NotaDebitoItem>;
+
+  // Receipts (numbered by the storage)
+  getRecibo(id: string): Promise<Recibo | undefined>;
+  getRecibos(): Promise<Recibo[]>;
+  getRecibosByCustomer(customerId: string): Promise<Recibo[]>;
+  getRecibosBySesionCaja(sesionId: string): Promise<Recibo[]>;
+  createRecibo(recibo: InsertRecibo): Promise<Recibo>;
+
+  // Receipt Allocations
+  getReciboAplicaciones(reciboId: string): Promise<ReciboAplicacion[]>;
+  getReciboAplicacionesBySale(saleId: string): Promise<ReciboAplicacion[]>;
+  createReciboAplicacion(aplicacion: InsertReciboAplicacion): Promise<ReciboAplicacion>;
+
+  // Cash Sessions
+  getSesionCaja(id: string): Promise<SesionCaja | undefined>;
+  getSesionesCaja(): Promise<SesionCaja[]>;
+  createSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja>;
+  openSesionCaja(sesion: InsertSesionCaja): Promise<SesionCaja | undefined>; // Undefined when the punto already has a session open
+  updateSesionCaja(id: string, sesion: Partial<InsertSesionCaja>): Promise<SesionCaja | undefined>;
+
+  // Cash Movements
+  getMovimientosCaja(sesionId: string): Promise<MovimientoCaja[]>;
+  createMovimientoCaja(movimiento: InsertMovimientoCaja): Promise<MovimientoCaja>;
 }
 
 /**
@@ -152,8 +310,16 @@ export class MemStorage implements IStorage {
   private users: Map<string, User>;
   private companyConfigs: Map<string, CompanyConfig>;
   private dnitConfigs: Map<string, DnitConfig>;
+  private establecimientos: Map<string, Establecimiento>;
+  private puntosExpedicion: Map<string, PuntoExpedicion>;
+  private monedas: Map<string, Moneda>;
+  private tiposCambio: Map<string, TipoCambio>;
+  private timbrados: Map<string, Timbrado>;
+  private timbradoRangos: Map<string, TimbradoRango>;
+  private documentSequences: Map<string, DocumentSequence>;
   private categories: Map<string, Category>;
   private customers: Map<string, Customer>;
+  private padronRuc: Map<string, PadronRuc>;
   private vehicles: Map<string, Vehicle>;
   private services: Map<string, Service>;
   private serviceCombos: Map<string, ServiceCombo>;
@@ -163,14 +329,34 @@ export class MemStorage implements IStorage {
   private inventoryItems: Map<string, InventoryItem>;
   private sales: Map<string, Sale>;
   private saleItems: Map<string, SaleItem>;
+  private salePagos: Map<string, SalePago>;
+  private sifenLotes: Map<string, SifenLote>;
+  private sifenEventos: Map<string, SifenEvento>;
+  private notasCredito: Map<string, NotaCredito>;
+  private notaCreditoItems: Map<string, NotaCreditoItem>;
+  private notasDebito: Map<string, NotaDebito>;
+  private notaDebitoItems: Map<string, NotaDebitoItem>;
+  private recibos: Map<string, Recibo>;
+  private reciboAplicaciones: Map<string, ReciboAplicacion>;
+  private sesionesCaja: Map<string, SesionCaja>;
+  private movimientosCaja: Map<string, MovimientoCaja>;
+  private movimientosStock: Map<string, MovimientoStock>;
   private nextWorkOrderNumber: number = 1;
 
   constructor() {
     this.users = new Map();
     this.companyConfigs = new Map();
     this.dnitConfigs = new Map();
+    this.establecimientos = new Map();
+    this.puntosExpedicion = new Map();
+    this.monedas = new Map();
+    this.tiposCambio = new Map();
+    this.timbrados = new Map();
+    this.timbradoRangos = new Map();
+    this.documentSequences = new Map();
     this.categories = new Map();
     this.customers = new Map();
+    this.padronRuc = new Map();
     this.vehicles = new Map();
     this.services = new Map();
     this.serviceCombos = new Map();
@@ -180,6 +366,18 @@ export class MemStorage implements IStorage {
     this.inventoryItems = new Map();
     this.sales = new Map();
     this.saleItems = new Map();
+    this.salePagos = new Map();
+    this.sifenLotes = new Map();
+    this.sifenEventos = new Map();
+    this.notasCredito = new Map();
+    this.notaCreditoItems = new Map();
+    this.notasDebito = new Map();
+    this.notaDebitoItems = new Map();
+    this.recibos = new Map();
+    this.reciboAplicaciones = new Map();
+    this.sesionesCaja = new Map();
+    this.movimientosCaja = new Map();
+    this.movimientosStock = new Map();
   }
 
   /**
@@ -191,8 +389,16 @@ export class MemStorage implements IStorage {
     
     this.companyConfigs.clear();
     this.dnitConfigs.clear();
+    this.establecimientos.clear();
+    this.puntosExpedicion.clear();
+    this.monedas.clear();
+    this.tiposCambio.clear();
+    this.timbrados.clear();
+    this.timbradoRangos.clear();
+    this.documentSequences.clear();
     this.categories.clear();
     this.customers.clear();
+    this.padronRuc.clear();
     this.vehicles.clear();
     this.services.clear();
     this.serviceCombos.clear();
@@ -202,6 +408,18 @@ export class MemStorage implements IStorage {
     this.inventoryItems.clear();
     this.sales.clear();
     this.saleItems.clear();
+    this.salePagos.clear();
+    this.sifenLotes.clear();
+    this.sifenEventos.clear();
+    this.notasCredito.clear();
+    this.notaCreditoItems.clear();
+    this.notasDebito.clear();
+    this.notaDebitoItems.clear();
+    this.recibos.clear();
+    this.reciboAplicaciones.clear();
+    this.sesionesCaja.clear();
+    this.movimientosCaja.clear();
+    this.movimientosStock.clear();
     
     // Reset counters
     this.nextWorkOrderNumber = 1;
@@ -244,6 +462,10 @@ export class MemStorage implements IStorage {
       lastLogin: null,
       failedLoginAttempts: 0,
       lastFailedLogin: null,
+      puntoExpedicionId: insertUser.puntoExpedicionId ?? null,
+      pinAutorizacion: null,
+      failedPinAttempts: 0,
+      lastFailedPin: null,
       createdAt: now,
       updatedAt: now,
       createdBy: insertUser.createdBy ?? null
@@ -363,6 +585,9 @@ export class MemStorage implements IStorage {
       puntoExpedicion: insertConfig.puntoExpedicion ?? "001",
       ciudad: insertConfig.ciudad ?? "Asunción",
       moneda: insertConfig.moneda ?? "PYG",
+      permitirStockNegativo: insertConfig.permitirStockNegativo ?? false,
+      descuentoMaximoUser: insertConfig.descuentoMaximoUser ?? 10,
+      descuentoMaximoAdmin: insertConfig.descuentoMaximoAdmin ?? 100,
       id,
       createdAt: now,
       updatedAt: now
@@ -446,7 +671,8 @@ export class MemStorage implements IStorage {
     return {
       ...config,
       authToken: EncryptionService.decrypt(config.authToken),
-      certificatePassword: config.certificatePassword ? EncryptionService.decrypt(config.certificatePassword) : null
+      certificatePassword: config.certificatePassword ? EncryptionService.decrypt(config.certificatePassword) : null,
+      csc: config.csc ? EncryptionService.decrypt(config.csc) : null
     };
   }
 
@@ -462,6 +688,8 @@ export class MemStorage implements IStorage {
       certificatePassword: insertConfig.certificatePassword 
         ? EncryptionService.encrypt(insertConfig.certificatePassword)
         : null,
+      idCsc: insertConfig.idCsc ?? null,
+      csc: insertConfig.csc ? EncryptionService.encrypt(insertConfig.csc) : null,
       operationMode: insertConfig.operationMode ?? "testing",
       isActive: insertConfig.isActive ?? false,
       lastConnectionTest: null,
@@ -479,7 +707,8 @@ export class MemStorage implements IStorage {
     return {
       ...config,
       authToken: insertConfig.authToken,
-      certificatePassword: insertConfig.certificatePassword ?? null
+      certificatePassword: insertConfig.certificatePassword ?? null,
+      csc: insertConfig.csc ?? null
     };
   }
 
@@ -495,6 +724,9 @@ export class MemStorage implements IStorage {
     if ('certificatePassword' in updates && updates.certificatePassword) {
       (processedUpdates as any).certificatePassword = EncryptionService.encrypt(updates.certificatePassword);
     }
+    if ('csc' in updates && updates.csc) {
+      (processedUpdates as any).csc = EncryptionService.encrypt(updates.csc);
+    }
     
     const updated: DnitConfig = {
       ...config,
@@ -507,7 +739,8 @@ export class MemStorage implements IStorage {
     return {
       ...updated,
       authToken: updates.authToken || EncryptionService.decrypt(updated.authToken),
-      certificatePassword: updated.certificatePassword ? EncryptionService.decrypt(updated.certificatePassword) : null
+      certificatePassword: updated.certificatePassword ? EncryptionService.decrypt(updated.certificatePassword) : null,
+      csc: updated.csc ? EncryptionService.decrypt(updated.csc) : null
     };
   }
 
@@ -516,26 +749,242 @@ export class MemStorage implements IStorage {
   }
 
   async testDnitConnection(config: DnitConfig): Promise<{ success: boolean; error?: string }> {
-    // Placeholder implementation for DNIT connection testing
-    // In a real implementation, this would test the actual connection to DNIT services
     try {
-      // Simulate connection test
-      const isValidUrl = config.endpointUrl && config.endpointUrl.startsWith('http');
-      const hasToken = config.authToken && config.authToken.length > 0;
-      
-      if (!isValidUrl) {
-        return { success: false, error: "URL del endpoint inválida" };
-      }
-      
-      if (!hasToken) {
-        return { success: false, error: "Token de autenticación requerido" };
-      }
-      
-      // Simulate successful connection
-      return { success: true };
+      const companyConfig = await this.getCompanyConfig();
+      return await new SifenClient(config).testConnection(companyConfig?.ruc);
     } catch (error) {
-      return { success: false, error: `Error de conexión: ${error}` };
+      return { success: false, error: `Error de conexión: ${error instanceof Error ? error.message : error}` };
+    }
+  }
+
+  // Establecimientos
+  async getEstablecimiento(id: string): Promise<Establecimiento | undefined> {
+    return this.establecimientos.get(id);
+  }
+
+  async getEstablecimientos(): Promise<Establecimiento[]> {
+    return Array.from(this.establecimientos.values())
+      .sort((a, b) => a.codigo.localeCompare(b.codigo));
+  }
+
+  async createEstablecimiento(insertEstablecimiento: InsertEstablecimiento): Promise<Establecimiento> {
+    const id = randomUUID();
+    const now = new Date();
+    const establecimiento: Establecimiento = {
+      ...insertEstablecimiento,
+      telefono: insertEstablecimiento.telefono ?? null,
+      activo: insertEstablecimiento.activo ?? true,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.establecimientos.set(id, establecimiento);
+    return establecimiento;
+  }
+
+  async updateEstablecimiento(id: string, updates: Partial<InsertEstablecimiento>): Promise<Establecimiento | undefined> {
+    const establecimiento = this.establecimientos.get(id);
+    if (!establecimiento) return undefined;
+
+    const updated: Establecimiento = { ...establecimiento, ...updates, updatedAt: new Date() };
+    this.establecimientos.set(id, updated);
+    return updated;
+  }
+
+  async deleteEstablecimiento(id: string): Promise<boolean> {
+    return this.establecimientos.delete(id);
+  }
+
+  // Puntos de Expedición
+  async getPuntoExpedicion(id: string): Promise<PuntoExpedicion | undefined> {
+    return this.puntosExpedicion.get(id);
+  }
+
+  async getPuntosExpedicion(establecimientoId?: string): Promise<PuntoExpedicion[]> {
+    return Array.from(this.puntosExpedicion.values())
+      .filter(punto => !establecimientoId || punto.establecimientoId === establecimientoId)
+      .sort((a, b) => a.codigo.localeCompare(b.codigo));
+  }
+
+  async createPuntoExpedicion(insertPunto: InsertPuntoExpedicion): Promise<PuntoExpedicion> {
+    const id = randomUUID();
+    const now = new Date();
+    const punto: PuntoExpedicion = {
+      ...insertPunto,
+      activo: insertPunto.activo ?? true,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.puntosExpedicion.set(id, punto);
+    return punto;
+  }
+
+  async updatePuntoExpedicion(id: string, updates: Partial<InsertPuntoExpedicion>): Promise<PuntoExpedicion | undefined> {
+    const punto = this.puntosExpedicion.get(id);
+    if (!punto) return undefined;
+
+    const updated: PuntoExpedicion = { ...punto, ...updates, updatedAt: new Date() };
+    this.puntosExpedicion.set(id, updated);
+    return updated;
+  }
+
+  async deletePuntoExpedicion(id: string): Promise<boolean> {
+    return this.puntosExpedicion.delete(id);
+  }
+
+  // Currencies
+  async getMoneda(id: string): Promise<Moneda | undefined> {
+    return this.monedas.get(id);
+  }
+
+  async getMonedas(): Promise<Moneda[]> {
+    return Array.from(this.monedas.values())
+      .sort((a, b) => a.codigo.localeCompare(b.codigo));
+  }
+
+  async createMoneda(insertMoneda: InsertMoneda): Promise<Moneda> {
+    const id = randomUUID();
+    const now = new Date();
+    const moneda: Moneda = {
+      ...insertMoneda,
+      decimales: insertMoneda.decimales ?? 2,
+      activo: insertMoneda.activo ?? true,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.monedas.set(id, moneda);
+    return moneda;
+  }
+
+  async updateMoneda(id: string, updates: Partial<InsertMoneda>): Promise<Moneda | undefined> {
+    const moneda = this.monedas.get(id);
+    if (!moneda) return undefined;
+
+    const updated: Moneda = { ...moneda, ...updates, updatedAt: new Date() };
+    this.monedas.set(id, updated);
+    return updated;
+  }
+
+  async deleteMoneda(id: string): Promise<boolean> {
+    return this.monedas.delete(id);
+  }
+
+  // Exchange Rates
+  async getTiposCambio(moneda?: string): Promise<TipoCambio[]> {
+    return Array.from(this.tiposCambio.values())
+      .filter(tipoCambio => !moneda || tipoCambio.moneda === moneda)
+      .sort((a, b) => b.fecha.localeCompare(a.fecha) || a.moneda.localeCompare(b.moneda));
+  }
+
+  async createTipoCambio(insertTipoCambio: InsertTipoCambio): Promise<TipoCambio> {
+    const id = randomUUID();
+    const now = new Date();
+    const tipoCambio: TipoCambio = {
+      ...insertTipoCambio,
+      createdBy: insertTipoCambio.createdBy ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.tiposCambio.set(id, tipoCambio);
+    return tipoCambio;
+  }
+
+  async updateTipoCambio(id: string, updates: Partial<InsertTipoCambio>): Promise<TipoCambio | undefined> {
+    const tipoCambio = this.tiposCambio.get(id);
+    if (!tipoCambio) return undefined;
+
+    const updated: TipoCambio = { ...tipoCambio, ...updates, updatedAt: new Date() };
+    this.tiposCambio.set(id, updated);
+    return updated;
+  }
+
+  async deleteTipoCambio(id: string): Promise<boolean> {
+    return this.tiposCambio.delete(id);
+  }
+
+  // Timbrados
+  async getTimbrado(id: string): Promise<Timbrado | undefined> {
+    return this.timbrados.get(id);
+  }
+
+  async getTimbrados(): Promise<Timbrado[]> {
+    return Array.from(this.timbrados.values())
+      .sort((a, b) => a.fechaInicio.localeCompare(b.fechaInicio));
+  }
+
+  async createTimbrado(insertTimbrado: InsertTimbrado): Promise<Timbrado> {
+    const id = randomUUID();
+    const now = new Date();
+    const timbrado: Timbrado = {
+      ...insertTimbrado,
+      estado: insertTimbrado.estado ?? "proximo",
+      motivoFinalizacion: insertTimbrado.motivoFinalizacion ?? null,
+      fechaFinalizacion: insertTimbrado.fechaFinalizacion ?? null,
+      id,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.timbrados.set(id, timbrado);
+    return timbrado;
+  }
+
+  async updateTimbrado(id: string, updates: Partial<InsertTimbrado>): Promise<Timbrado | undefined> {
+    const timbrado = this.timbrados.get(id);
+    if (!timbrado) return undefined;
+
+    const updated: Timbrado = { ...timbrado, ...updates, updatedAt: new Date() };
+    this.timbrados.set(id, updated);
+    return updated;
+  }
+
+  async deleteTimbrado(id: string): Promise<boolean> {
+    await this.deleteTimbradoRangos(id);
+    return this.timbrados.delete(id);
+  }
+
+  // Timbrado Rangos
+  async getTimbradoRangos(timbradoId: string): Promise<TimbradoRango[]> {
+    return Array.from(this.timbradoRangos.values()).filter(rango => rango.timbradoId === timbradoId);
+  }
+
+  async createTimbradoRango(insertRango: InsertTimbradoRango): Promise<TimbradoRango> {
+    const id = randomUUID();
+    const rango: TimbradoRango = { ...insertRango, id };
+    this.timbradoRangos.set(id, rango);
+    return rango;
+  }
+
+  async deleteTimbradoRangos(timbradoId: string): Promise<boolean> {
+    for (const rango of Array.from(this.timbradoRangos.values())) {
+      if (rango.timbradoId === timbradoId) {
+        this.timbradoRangos.delete(rango.id);
+      }
     }
+    return true;
+  }
+
+
+  // Document Sequences
+  // No await between read and write: the reservation cannot interleave with another request
+  async reserveDocumentNumber(key: DocumentSequenceKey, minimo: number): Promise<number> {
+    const mapKey = `${key.tipoDocumento}|${key.timbrado}|${key.establecimiento}|${key.puntoExpedicion}`;
+    const sequence = this.documentSequences.get(mapKey);
+    const numero = sequence ? Math.max(sequence.ultimoNumero + 1, minimo) : minimo;
+
+    this.documentSequences.set(mapKey, {
+      ...key,
+      id: sequence?.id ?? randomUUID(),
+      ultimoNumero: numero,
+      updatedAt: new Date()
+    });
+    return numero;
+  }
+
+  async getDocumentSequences(): Promise<DocumentSequence[]> {
+    return Array.from(this.documentSequences.values());
   }
 
   // Continue with simplified implementations for all other entities...
@@ -588,6 +1037,42 @@ export class MemStorage implements IStorage {
     return this.customers.delete(id);
   }
 
+  // RUC Padrón
+  async getPadronRuc(ruc: string): Promise<PadronRuc | undefined> {
+    return this.padronRuc.get(ruc);
+  }
+
+  async upsertPadronRuc(registros: InsertPadronRuc[]): Promise<PadronRucCambios> {
+    const cambios: PadronRucCambios = { nuevos: 0, actualizados: 0, sinCambios: 0 };
+    for (const registro of registros) {
+      const existente = this.padronRuc.get(registro.ruc);
+      const rucAnterior = registro.rucAnterior ?? null;
+      if (existente && existente.dv === registro.dv && existente.razonSocial === registro.razonSocial &&
+          existente.rucAnterior === rucAnterior && existente.estado === registro.estado) {
+        cambios.sinCambios++;
+        continue;
+      }
+
+      this.padronRuc.set(registro.ruc, { ...registro, rucAnterior, updatedAt: new Date() });
+      if (existente) {
+        cambios.actualizados++;
+      } else {
+        cambios.nuevos++;
+      }
+    }
+    return cambios;
+  }
+
+  async getPadronRucEstado(): Promise<{ cantidad: number; actualizado: Date | null }> {
+    let actualizado: Date | null = null;
+    for (const registro of Array.from(this.padronRuc.values())) {
+      if (!actualizado || registro.updatedAt > actualizado) {
+        actualizado = registro.updatedAt;
+      }
+    }
+    return { cantidad: this.padronRuc.size, actualizado };
+  }
+
   // Vehicles
   async getVehicle(id: string): Promise<Vehicle | undefined> {
     return this.vehicles.get(id);
@@ -653,6 +1138,7 @@ export class MemStorage implements IStorage {
     const service: Service = { 
       ...insertService,
       precio: typeof insertService.precio === 'number' ? insertService.precio.toString() : insertService.precio,
+      tasaIva: insertService.tasaIva ?? 10,
       id,
       descripcion: insertService.descripcion ?? null,
       activo: insertService.activo ?? true,
@@ -700,6 +1186,7 @@ export class MemStorage implements IStorage {
     const combo: ServiceCombo = { 
       ...insertCombo,
       precioTotal: typeof insertCombo.precioTotal === 'number' ? insertCombo.precioTotal.toString() : insertCombo.precioTotal,
+      tasaIva: insertCombo.tasaIva ?? 10,
       id,
       descripcion: insertCombo.descripcion ?? null,
       activo: insertCombo.activo ?? true,
@@ -1054,6 +1541,7 @@ export class MemStorage implements IStorage {
       ...insertItem,
       id,
       descripcion: insertItem.descripcion ?? null,
+      tasaIva: insertItem.tasaIva ?? 10,
       unidadMedida: insertItem.unidadMedida ?? "UN",
       proveedor: insertItem.proveedor ?? null,
       ultimoPedido: insertItem.ultimoPedido ?? null,
@@ -1084,7 +1572,51 @@ export class MemStorage implements IStorage {
   }
 
   async updateInventoryStock(id: string, newStock: number): Promise<InventoryItem | undefined> {
-    return this.updateInventoryItem(id, { stockActual: newStock });
+    const item = this.inventoryItems.get(id);
+    if (!item) return undefined;
+
+    return this.updateInventoryItem(id, {
+      stockActual: newStock,
+      estadoAlerta: estadoAlertaStock(newStock, item.stockMinimo)
+    });
+  }
+
+  async adjustInventoryStock(id: string, delta: number, allowNegative: boolean): Promise<InventoryItem | undefined> {
+    const item = this.inventoryItems.get(id);
+    if (!item || (delta < 0 && item.stockActual + delta < 0 && !allowNegative)) return undefined;
+
+    return this.updateInventoryStock(id, item.stockActual + delta);
+  }
+
+  // Stock Movements
+  async getMovimientosStock(inventoryItemId: string): Promise<MovimientoStock[]> {
+    return Array.from(this.movimientosStock.values())
+      .filter(movimiento => movimiento.inventoryItemId === inventoryItemId)
+      .sort((a, b) => new Date(a.fecha).getTime() - new Date(b.fecha).getTime());
+  }
+
+  async createMovimientoStock(insertMovimiento: InsertMovimientoStock): Promise<MovimientoStock> {
+    const id = randomUUID();
+    const movimiento: MovimientoStock = {
+      ...insertMovimiento,
+      id,
+      motivo: insertMovimiento.motivo ?? null,
+      referencia: insertMovimiento.referencia ?? null,
+      saleId: insertMovimiento.saleId ?? null,
+      userId: insertMovimiento.userId ?? null,
+      fecha: insertMovimiento.fecha ?? new Date()
+    };
+    this.movimientosStock.set(id, movimiento);
+    return movimiento;
+  }
+
+  async openMovimientosStock(inventoryItemId: string, userId: string | null): Promise<void> {
+    // Checked and written without yielding, so concurrent sales open the ledger once
+    const item = this.inventoryItems.get(inventoryItemId);
+    const abierto = Array.from(this.movimientosStock.values()).some(movimiento => movimiento.inventoryItemId === inventoryItemId);
+    if (!item || abierto) return;
+
+    await this.createMovimientoStock({ inventoryItemId, tipo: "inicial", cantidad: item.stockActual, userId });
   }
 
   // Sales
@@ -1092,6 +1624,10 @@ export class MemStorage implements IStorage {
     return this.sales.get(id);
   }
 
+  async getSaleByCdc(cdc: string): Promise<Sale | undefined> {
+    return Array.from(this.sales.values()).find(sale => sale.cdc === cdc);
+  }
+
   async getSales(): Promise<Sale[]> {
     return Array.from(this.sales.values());
   }
@@ -1109,12 +1645,38 @@ export class MemStorage implements IStorage {
     );
   }
 
+  async getSalesBySifenEstado(estado: Sale["sifenEstado"]): Promise<Sale[]> {
+    return Array.from(this.sales.values()).filter(
+      sale => sale.sifenEstado === estado
+    );
+  }
+
+  async getSalesBySifenLote(loteId: string): Promise<Sale[]> {
+    return Array.from(this.sales.values()).filter(
+      sale => sale.sifenLoteId === loteId
+    );
+  }
+
+  async getSalesBySesionCaja(sesionId: string): Promise<Sale[]> {
+    return Array.from(this.sales.values()).filter(
+      sale => sale.sesionCajaId === sesionId
+    );
+  }
+
   async getLastSale(): Promise<Sale | undefined> {
     const sales = Array.from(this.sales.values());
     return sales.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
   }
 
   async createSale(insertSale: InsertSale): Promise<Sale> {
+    // Invoice numbers are unique per timbrado
+    const duplicate = Array.from(this.sales.values()).some(sale =>
+      sale.numeroFactura === insertSale.numeroFactura && sale.timbradoUsado === insertSale.timbradoUsado
+    );
+    if (duplicate) {
+      throw new Error(`Invoice number ${insertSale.numeroFactura} already exists for timbrado ${insertSale.timbradoUsado}`);
+    }
+
     const id = randomUUID();
     const now = new Date();
     const sale: Sale = { 
@@ -1124,7 +1686,33 @@ export class MemStorage implements IStorage {
       workOrderId: insertSale.workOrderId ?? null,
       fecha: insertSale.fecha ?? now,
       impuestos: insertSale.impuestos ?? "0",
+      gravadas10: insertSale.gravadas10 ?? "0",
+      gravadas5: insertSale.gravadas5 ?? "0",
+      exentas: insertSale.exentas ?? "0",
+      iva10: insertSale.iva10 ?? "0",
+      iva5: insertSale.iva5 ?? "0",
+      descuentoGlobal: insertSale.descuentoGlobal ?? "0",
+      descuentoGlobalTipo: insertSale.descuentoGlobalTipo ?? null,
+      descuentoGlobalValor: insertSale.descuentoGlobalValor ?? null,
+      motivoDescuentoGlobal: insertSale.motivoDescuentoGlobal ?? null,
+      descuentoTotal: insertSale.descuentoTotal ?? "0",
+      descuentoAutorizadoPor: insertSale.descuentoAutorizadoPor ?? null,
+      condicionVenta: insertSale.condicionVenta ?? "contado",
+      fechaVencimiento: insertSale.fechaVencimiento ?? null,
+      moneda: insertSale.moneda ?? "PYG",
+      tipoCambio: insertSale.tipoCambio ?? null,
+      totalMoneda: insertSale.totalMoneda ?? null,
       regimenTurismo: insertSale.regimenTurismo ?? false,
+      sesionCajaId: insertSale.sesionCajaId ?? null,
+      cdc: insertSale.cdc ?? null,
+      sifenEstado: insertSale.sifenEstado ?? "pendiente",
+      sifenLoteId: insertSale.sifenLoteId ?? null,
+      sifenProtocolo: insertSale.sifenProtocolo ?? null,
+      sifenMensajes: insertSale.sifenMensajes ?? null,
+      anulada: insertSale.anulada ?? false,
+      motivoAnulacion: insertSale.motivoAnulacion ?? null,
+      fechaAnulacion: insertSale.fechaAnulacion ?? null,
+      anuladaPor: insertSale.anuladaPor ?? null,
       createdBy: insertSale.createdBy ?? null,
       createdAt: now,
       updatedAt: now
@@ -1147,8 +1735,9 @@ export class MemStorage implements IStorage {
   }
 
   async deleteSale(id: string): Promise<boolean> {
-    // First delete all associated sale items (cascade delete)
+    // First delete all associated sale items and payments (cascade delete)
     await this.deleteSaleItemsBySale(id);
+    await this.deleteSalePagosBySale(id);
     
     // Then delete the sale itself
     return this.sales.delete(id);
@@ -1168,6 +1757,12 @@ export class MemStorage implements IStorage {
       serviceId: insertItem.serviceId ?? null,
       comboId: insertItem.comboId ?? null,
       inventoryItemId: insertItem.inventoryItemId ?? null,
+      tasaIva: insertItem.tasaIva ?? 10,
+      descuento: insertItem.descuento ?? "0",
+      descuentoTipo: insertItem.descuentoTipo ?? null,
+      descuentoValor: insertItem.descuentoValor ?? null,
+      motivoDescuento: insertItem.motivoDescuento ?? null,
+      descuentoGlobal: insertItem.descuentoGlobal ?? "0",
       id 
     };
     this.saleItems.set(id, item);
@@ -1185,6 +1780,462 @@ export class MemStorage implements IStorage {
     
     itemsToDelete.forEach(id => this.saleItems.delete(id));
   }
+
+  // Sale Payments
+  async getSalePagos(saleId: string): Promise<SalePago[]> {
+    return Array.from(this.salePagos.values()).filter(pago => pago.saleId === saleId);
+  }
+
+  async createSalePago(insertPago: InsertSalePago): Promise<SalePago> {
+    const id = randomUUID();
+    const pago: SalePago = {
+      ...insertPago,
+      vuelto: insertPago.vuelto ?? "0",
+      marcaTarjeta: insertPago.marcaTarjeta ?? null,
+      ultimos4: insertPago.ultimos4 ?? null,
+      referencia: insertPago.referencia ?? null,
+      id
+    };
+    this.salePagos.set(id, pago);
+    return pago;
+  }
+
+  async deleteSalePagosBySale(saleId: string): Promise<void> {
+    Array.from(this.salePagos.values())
+      .filter(pago => pago.saleId === saleId)
+      .forEach(pago => this.salePagos.delete(pago.id));
+  }
+
+  // SIFEN Lotes
+  async getSifenLote(id: string): Promise<SifenLote | undefined> {
+    return this.sifenLotes.get(id);
+  }
+
+  async getSifenLotes(): Promise<SifenLote[]> {
+    return Array.from(this.sifenLotes.values()).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  async getSifenLotesByEstado(estado: SifenLote["estado"]): Promise<SifenLote[]> {
+    return Array.from(this.sifenLotes.values()).filter(lote => lote.estado === estado);
+  }
+
+  async createSifenLote(insertLote: InsertSifenLote): Promise<SifenLote> {
+    const id = randomUUID();
+    const now = new Date();
+    const lote: SifenLote = {
+      id,
+      protocolo: insertLote.protocolo ?? null,
+      estado: insertLote.estado ?? "pendiente",
+      cantidadDocumentos: insertLote.cantidadDocumentos ?? 0,
+      intentos: insertLote.intentos ?? 0,
+      proximoIntento: insertLote.proximoIntento ?? now,
+      ultimoError: insertLote.ultimoError ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sifenLotes.set(id, lote);
+    return lote;
+  }
+
+  async updateSifenLote(id: string, updates: Partial<InsertSifenLote>): Promise<SifenLote | undefined> {
+    const lote = this.sifenLotes.get(id);
+    if (!lote) return undefined;
+
+    const updated: SifenLote = {
+      ...lote,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.sifenLotes.set(id, updated);
+    return updated;
+  }
+
+  // SIFEN Events
+  async getSifenEvento(id: string): Promise<SifenEvento | undefined> {
+    return this.sifenEventos.get(id);
+  }
+
+  async getSifenEventos(): Promise<SifenEvento[]> {
+    return Array.from(this.sifenEventos.values()).sort(
+      (a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    );
+  }
+
+  async getSifenEventosByEstado(estado: SifenEvento["estado"]): Promise<SifenEvento[]> {
+    return Array.from(this.sifenEventos.values()).filter(evento => evento.estado === estado);
+  }
+
+  async createSifenEvento(insertEvento: InsertSifenEvento): Promise<SifenEvento> {
+    const id = randomUUID();
+    const now = new Date();
+    const evento: SifenEvento = {
+      id,
+      tipo: insertEvento.tipo,
+      saleId: insertEvento.saleId ?? null,
+      cdc: insertEvento.cdc ?? null,
+      timbrado: insertEvento.timbrado ?? null,
+      establecimiento: insertEvento.establecimiento ?? null,
+      puntoExpedicion: insertEvento.puntoExpedicion ?? null,
+      tipoDocumento: insertEvento.tipoDocumento ?? 1,
+      numeroDesde: insertEvento.numeroDesde ?? null,
+      numeroHasta: insertEvento.numeroHasta ?? null,
+      motivo: insertEvento.motivo,
+      estado: insertEvento.estado ?? "pendiente",
+      protocolo: insertEvento.protocolo ?? null,
+      mensajes: insertEvento.mensajes ?? null,
+      intentos: insertEvento.intentos ?? 0,
+      proximoIntento: insertEvento.proximoIntento ?? now,
+      ultimoError: insertEvento.ultimoError ?? null,
+      createdBy: insertEvento.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.sifenEventos.set(id, evento);
+    return evento;
+  }
+
+  async updateSifenEvento(id: string, updates: Partial<InsertSifenEvento>): Promise<SifenEvento | undefined> {
+    const evento = this.sifenEventos.get(id);
+    if (!evento) return undefined;
+
+    const updated: SifenEvento = {
+      ...evento,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.sifenEventos.set(id, updated);
+    return updated;
+  }
+
+  // Credit Notes
+  async getNotaCredito(id: string): Promise<NotaCredito | undefined> {
+    return this.notasCredito.get(id);
+  }
+
+  async getNotaCreditoByCdc(cdc: string): Promise<NotaCredito | undefined> {
+    return Array.from(this.notasCredito.values()).find(nota => nota.cdc === cdc);
+  }
+
+  async getNotasCredito(): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).sort(
+      (a, b) => new Date(b.fecha).getTime() - new Date(a.fecha).getTime()
+    );
+  }
+
+  async getNotasCreditoBySale(saleId: string): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).filter(nota => nota.saleId === saleId);
+  }
+
+  async getNotasCreditoBySesionCaja(sesionId: string): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).filter(nota => nota.sesionCajaId === sesionId);
+  }
+
+  async getNotasCreditoByDateRange(startDate: Date, endDate: Date): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).filter(nota => {
+      const fecha = new Date(nota.fecha);
+      return fecha >= startDate && fecha <= endDate;
+    });
+  }
+
+  async getNotasCreditoBySifenEstado(estado: NotaCredito["sifenEstado"]): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).filter(nota => nota.sifenEstado === estado);
+  }
+
+  async getNotasCreditoBySifenLote(loteId: string): Promise<NotaCredito[]> {
+    return Array.from(this.notasCredito.values()).filter(nota => nota.sifenLoteId === loteId);
+  }
+
+  async getLastNotaCredito(): Promise<NotaCredito | undefined> {
+    const notas = Array.from(this.notasCredito.values());
+    return notas.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  }
+
+  async createNotaCredito(insertNota: InsertNotaCredito): Promise<NotaCredito> {
+    const duplicate = Array.from(this.notasCredito.values()).some(nota =>
+      nota.numero === insertNota.numero && nota.timbradoUsado === insertNota.timbradoUsado
+    );
+    if (duplicate) {
+      throw new Error(`Credit note number ${insertNota.numero} already exists for timbrado ${insertNota.timbradoUsado}`);
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+    const nota: NotaCredito = {
+      ...insertNota,
+      id,
+      customerId: insertNota.customerId ?? null,
+      fecha: insertNota.fecha ?? now,
+      impuestos: insertNota.impuestos ?? "0",
+      cdc: insertNota.cdc ?? null,
+      sifenEstado: insertNota.sifenEstado ?? "pendiente",
+      sifenLoteId: insertNota.sifenLoteId ?? null,
+      sifenProtocolo: insertNota.sifenProtocolo ?? null,
+      sifenMensajes: insertNota.sifenMensajes ?? null,
+      reembolsoEfectivo: insertNota.reembolsoEfectivo ?? "0",
+      sesionCajaId: insertNota.sesionCajaId ?? null,
+      createdBy: insertNota.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notasCredito.set(id, nota);
+    return nota;
+  }
+
+  async updateNotaCredito(id: string, updates: Partial<InsertNotaCredito>): Promise<NotaCredito | undefined> {
+    const nota = this.notasCredito.get(id);
+    if (!nota) return undefined;
+
+    const updated: NotaCredito = {
+      ...nota,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.notasCredito.set(id, updated);
+    return updated;
+  }
+
+  // Credit Note Items
+  async getNotaCreditoItems(notaCreditoId: string): Promise<NotaCreditoItem[]> {
+    return Array.from(this.notaCreditoItems.values()).filter(
+      item => item.notaCreditoId === notaCreditoId
+    );
+  }
+
+  async createNotaCreditoItem(insertItem: InsertNotaCreditoItem): Promise<NotaCreditoItem> {
+    const id = randomUUID();
+    const item: NotaCreditoItem = {
+      ...insertItem,
+      saleItemId: insertItem.saleItemId ?? null,
+      tasaIva: insertItem.tasaIva ?? 10,
+      id
+    };
+    this.notaCreditoItems.set(id, item);
+    return item;
+  }
+
+  // Debit Notes
+  async getNotaDebito(id: string): Promise<NotaDebito | undefined> {
+    return this.notasDebito.get(id);
+  }
+
+  async getNotaDebitoByCdc(cdc: string): Promise<NotaDebito | undefined> {
+    return Array.from(this.notasDebito.values()).find(nota => nota.cdc === cdc);
+  }
+
+  async getNotasDebito(): Promise<NotaDebito[]> {
+    return Array.from(this.notasDebito.values()).sort(
+      (a, b) => new Date(b.fecha).getTime() - new Date(a.fecha).getTime()
+    );
+  }
+
+  async getNotasDebitoBySale(saleId: string): Promise<NotaDebito[]> {
+    return Array.from(this.notasDebito.values()).filter(nota => nota.saleId === saleId);
+  }
+
+  async getNotasDebitoByDateRange(startDate: Date, endDate: Date): Promise<NotaDebito[]> {
+    return Array.from(this.notasDebito.values()).filter(nota => {
+      const fecha = new Date(nota.fecha);
+      return fecha >= startDate && fecha <= endDate;
+    });
+  }
+
+  async getNotasDebitoBySifenEstado(estado: NotaDebito["sifenEstado"]): Promise<NotaDebito[]> {
+    return Array.from(this.notasDebito.values()).filter(nota => nota.sifenEstado === estado);
+  }
+
+  async getNotasDebitoBySifenLote(loteId: string): Promise<NotaDebito[]> {
+    return Array.from(this.notasDebito.values()).filter(nota => nota.sifenLoteId === loteId);
+  }
+
+  async getLastNotaDebito(): Promise<NotaDebito | undefined> {
+    const notas = Array.from(this.notasDebito.values());
+    return notas.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())[0];
+  }
+
+  async createNotaDebito(insertNota: InsertNotaDebito): Promise<NotaDebito> {
+    const duplicate = Array.from(this.notasDebito.values()).some(nota =>
+      nota.numero === insertNota.numero && nota.timbradoUsado === insertNota.timbradoUsado
+    );
+    if (duplicate) {
+      throw new Error(`Debit note number ${insertNota.numero} already exists for timbrado ${insertNota.timbradoUsado}`);
+    }
+
+    const id = randomUUID();
+    const now = new Date();
+    const nota: NotaDebito = {
+      ...insertNota,
+      id,
+      customerId: insertNota.customerId ?? null,
+      fecha: insertNota.fecha ?? now,
+      impuestos: insertNota.impuestos ?? "0",
+      cdc: insertNota.cdc ?? null,
+      sifenEstado: insertNota.sifenEstado ?? "pendiente",
+      sifenLoteId: insertNota.sifenLoteId ?? null,
+      sifenProtocolo: insertNota.sifenProtocolo ?? null,
+      sifenMensajes: insertNota.sifenMensajes ?? null,
+      createdBy: insertNota.createdBy ?? null,
+      createdAt: now,
+      updatedAt: now
+    };
+    this.notasDebito.set(id, nota);
+    return nota;
+  }
+
+  async updateNotaDebito(id: string, updates: Partial<InsertNotaDebito>): Promise<NotaDebito | undefined> {
+    const nota = this.notasDebito.get(id);
+    if (!nota) return undefined;
+
+    const updated: NotaDebito = {
+      ...nota,
+      ...updates,
+      updatedAt: new Date()
+    };
+    this.notasDebito.set(id, updated);
+    return updated;
+  }
+
+  // Debit Note Items
+  async getNotaDebitoItems(notaDebitoId: string): Promise<NotaDebitoItem[]> {
+    return Array.from(this.notaDebitoItems.values()).filter(
+      item => item.notaDebitoId === notaDebitoId
+    );
+  }
+
+  async createNotaDebitoItem(insertItem: InsertNotaDebitoItem): Promise<NotaDebitoItem> {
+    const id = randomUUID();
+    const item: NotaDebitoItem = {
+      ...insertItem,
+      serviceId: insertItem.serviceId ?? null,
+      tasaIva: insertItem.tasaIva ?? 10,
+      id
+    };
+    this.notaDebitoItems.set(id, item);
+    return item;
+  }
+
+  // Receipts
+  async getRecibo(id: string): Promise<Recibo | undefined> {
+    return this.recibos.get(id);
+  }
+
+  async getRecibos(): Promise<Recibo[]> {
+    return Array.from(this.recibos.values()).sort(
+      (a, b) => new Date(b.fecha).getTime() - new Date(a.fecha).getTime()
+    );
+  }
+
+  async getRecibosByCustomer(customerId: string): Promise<Recibo[]> {
+    return (await this.getRecibos()).filter(recibo => recibo.customerId === customerId);
+  }
+
+  async getRecibosBySesionCaja(sesionId: string): Promise<Recibo[]> {
+    return (await this.getRecibos()).filter(recibo => recibo.sesionCajaId === sesionId);
+  }
+
+  async createRecibo(insertRecibo: InsertRecibo): Promise<Recibo> {
+    const id = randomUUID();
+    const now = new Date();
+    const numero = Array.from(this.recibos.values()).reduce((max, recibo) => Math.max(max, recibo.numero), 0) + 1;
+    const recibo: Recibo = {
+      ...insertRecibo,
+      id,
+      numero,
+      fecha: insertRecibo.fecha ?? now,
+      referencia: insertRecibo.referencia ?? null,
+      observaciones: insertRecibo.observaciones ?? null,
+      sesionCajaId: insertRecibo.sesionCajaId ?? null,
+      createdBy: insertRecibo.createdBy ?? null,
+      createdAt: now
+    };
+    this.recibos.set(id, recibo);
+    return recibo;
+  }
+
+  // Receipt Allocations
+  async getReciboAplicaciones(reciboId: string): Promise<ReciboAplicacion[]> {
+    return Array.from(this.reciboAplicaciones.values()).filter(aplicacion => aplicacion.reciboId === reciboId);
+  }
+
+  async getReciboAplicacionesBySale(saleId: string): Promise<ReciboAplicacion[]> {
+    return Array.from(this.reciboAplicaciones.values()).filter(aplicacion => aplicacion.saleId === saleId);
+  }
+
+  async createReciboAplicacion(insertAplicacion: InsertReciboAplicacion): Promise<ReciboAplicacion> {
+    const id = randomUUID();
+    const aplicacion: ReciboAplicacion = { ...insertAplicacion, id };
+    this.reciboAplicaciones.set(id, aplicacion);
+    return aplicacion;
+  }
+
+  // Cash Sessions
+  async getSesionCaja(id: string): Promise<SesionCaja | undefined> {
+    return this.sesionesCaja.get(id);
+  }
+
+  async getSesionesCaja(): Promise<SesionCaja[]> {
+    return Array.from(this.sesionesCaja.values()).sort(
+      (a, b) => new Date(b.fechaApertura).getTime() - new Date(a.fechaApertura).getTime()
+    );
+  }
+
+  async createSesionCaja(insertSesion: InsertSesionCaja): Promise<SesionCaja> {
+    const id = randomUUID();
+    const sesion: SesionCaja = {
+      ...insertSesion,
+      id,
+      estado: insertSesion.estado ?? "abierta",
+      fechaApertura: insertSesion.fechaApertura ?? new Date(),
+      fechaCierre: insertSesion.fechaCierre ?? null,
+      efectivoEsperado: insertSesion.efectivoEsperado ?? null,
+      efectivoContado: insertSesion.efectivoContado ?? null,
+      diferencia: insertSesion.diferencia ?? null,
+      conteo: insertSesion.conteo ?? null,
+      observaciones: insertSesion.observaciones ?? null,
+      cerradaPor: insertSesion.cerradaPor ?? null
+    };
+    this.sesionesCaja.set(id, sesion);
+    return sesion;
+  }
+
+  async openSesionCaja(insertSesion: InsertSesionCaja): Promise<SesionCaja | undefined> {
+    // Checked and written without yielding, so concurrent openings leave one session per punto
+    const ocupado = Array.from(this.sesionesCaja.values()).some(sesion =>
+      sesion.puntoExpedicionId === insertSesion.puntoExpedicionId && sesion.estado === "abierta"
+    );
+    if (ocupado) return undefined;
+
+    return this.createSesionCaja(insertSesion);
+  }
+
+  async updateSesionCaja(id: string, updateData: Partial<InsertSesionCaja>): Promise<SesionCaja | undefined> {
+    const sesion = this.sesionesCaja.get(id);
+    if (!sesion) return undefined;
+
+    const updated: SesionCaja = { ...sesion, ...updateData };
+    this.sesionesCaja.set(id, updated);
+    return updated;
+  }
+
+  // Cash Movements
+  async getMovimientosCaja(sesionId: string): Promise<MovimientoCaja[]> {
+    return Array.from(this.movimientosCaja.values())
+      .filter(movimiento => movimiento.sesionId === sesionId)
+      .sort((a, b) => new Date(a.fecha).getTime() - new Date(b.fecha).getTime());
+  }
+
+  async createMovimientoCaja(insertMovimiento: InsertMovimientoCaja): Promise<MovimientoCaja> {
+    const id = randomUUID();
+    const movimiento: MovimientoCaja = {
+      ...insertMovimiento,
+      id,
+      userId: insertMovimiento.userId ?? null,
+      fecha: insertMovimiento.fecha ?? new Date()
+    };
+    this.movimientosCaja.set(id, movimiento);
+    return movimiento;
+  }
 }
 
 // Bootstrap admin user function - ALWAYS starts clean
@@ -0,0 +1,15 @@
+import { mock } from "node:test";
+import fs from "fs";
+import os from "os";
+import path from "path";
+
+/**
+ * Set-up shared by the tests that run against the storage
+ * The storage writes to ./data, so every test file works in a fresh directory, and its logs, some from
+ * its background admin set-up, are kept from interleaving with the runner output. Call it in before(),
+ * ahead of importing the storage.
+ */
+export function prepararStorage(nombre: string): void {
+  mock.method(console, "log", () => {});
+  process.chdir(fs.mkdtempSync(path.join(os.tmpdir(), `aurum-${nombre}-`)));
+}
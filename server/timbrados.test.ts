@@ -0,0 +1,62 @@
+import { test, before } from "node:test";
+import assert from "node:assert/strict";
+import { prepararStorage } from "./test-storage";
+
+type Modulos = {
+  storage: typeof import("./storage").storage;
+  TimbradoService: typeof import("./timbrados").TimbradoService;
+};
+
+let m: Modulos;
+
+// Local calendar date n days from today, as timbrado dates are stored
+const dia = (n: number) => {
+  const fecha = new Date(Date.now() + n * 24 * 60 * 60 * 1000);
+  return `${fecha.getFullYear()}-${String(fecha.getMonth() + 1).padStart(2, "0")}-${String(fecha.getDate()).padStart(2, "0")}`;
+};
+
+before(async () => {
+  prepararStorage("timbrados");
+  const { storage } = await import("./storage");
+  const { TimbradoService } = await import("./timbrados");
+  m = { storage, TimbradoService };
+
+  // The configured timbrado expired; the next one is registered and valid today
+  await m.storage.createCompanyConfig({
+    ruc: "80012345-6",
+    razonSocial: "Lavadero Test S.A.",
+    timbradoNumero: "11111111",
+    timbradoDesde: dia(-400),
+    timbradoHasta: dia(-10),
+    establecimiento: "001",
+    puntoExpedicion: "001",
+    direccion: "Avda. Test 123"
+  });
+  // Listing the registry seeds it with the configured timbrado
+  await m.TimbradoService.listar();
+  const siguiente = await m.TimbradoService.registrar({
+    numero: "22222222",
+    fechaInicio: dia(-9),
+    fechaFin: dia(355),
+    rangos: [{ establecimiento: "001", puntoExpedicion: "001", numeroInicial: 1, numeroFinal: 9999999 }]
+  });
+  assert.equal(siguiente.success, true, siguiente.error);
+});
+
+const estados = async () => Object.fromEntries((await m.storage.getTimbrados()).map(t => [t.numero, t.estado]));
+
+test("checking the status reports the next timbrado without rolling over", async () => {
+  const ubicacion = { establecimiento: "001", puntoExpedicion: "001" };
+
+  const consulta = await m.TimbradoService.consultarVigente(new Date(), ubicacion);
+  assert.equal(consulta.isValid, true, consulta.error);
+  assert.equal(consulta.timbrado!.numero, "22222222");
+  assert.deepEqual(await estados(), { "11111111": "vigente", "22222222": "proximo" });
+  assert.equal((await m.storage.getCompanyConfig())!.timbradoNumero, "11111111");
+
+  // Issuing a document does the roll over
+  const emision = await m.TimbradoService.resolverVigente(new Date(), ubicacion);
+  assert.equal(emision.timbrado!.numero, "22222222");
+  assert.deepEqual(await estados(), { "11111111": "finalizado", "22222222": "vigente" });
+  assert.equal((await m.storage.getCompanyConfig())!.timbradoNumero, "22222222");
+});
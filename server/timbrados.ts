@@ -0,0 +1,613 @@
+import type { CompanyConfig, Timbrado, TimbradoRango, CreateTimbradoType, TimbradoRangoType } from "@shared/schema";
+import { storage } from "./storage";
+import { NumeracionService } from "./numeracion";
+import { getDaysUntilTimbradoExpiration, validateTimbradoDates } from "./utils/paraguayan-validators";
+
+/**
+ * Timbrado registry
+ * Keeps every timbrado authorized by the DNIT with its validity dates and the invoice number
+ * ranges authorized per establecimiento/punto de expedición. Exactly one timbrado is vigente at
+ * a time and it is mirrored in CompanyConfig (timbradoNumero/Desde/Hasta); when it expires the
+ * next registered timbrado valid for the date takes over with the next document issued. Status
+ * checks only read the registry.
+ */
+
+export type TimbradoErrorCode =
+  | "TIMBRADO_INVALID"
+  | "TIMBRADO_EXPIRED"
+  | "TIMBRADO_NOT_STARTED"
+  | "TIMBRADO_RANGE_NOT_AUTHORIZED"
+  | "TIMBRADO_RANGE_EXHAUSTED"
+  | "TIMBRADO_NOT_FOUND"
+  | "TIMBRADO_DUPLICATE"
+  | "TIMBRADO_IN_USE"
+  | "INVALID_DATES"
+  | "INVALID_RANGES";
+
+export interface TimbradoVigente {
+  isValid: boolean;
+  blocksInvoicing: boolean;
+  error?: string;
+  code?: TimbradoErrorCode;
+  daysLeft?: number;
+  companyConfig?: CompanyConfig;
+  timbrado?: Timbrado;
+  rango?: TimbradoRango;
+  siguienteNumero?: number;
+  numerosDisponibles?: number;
+}
+
+export interface TimbradoRangoUso extends TimbradoRango {
+  ultimoNumero: number | null; // Last invoice number issued in the range
+}
+
+export interface TimbradoDetalle extends Timbrado {
+  rangos: TimbradoRangoUso[];
+}
+
+export class TimbradoService {
+  /**
+   * Resolve the timbrado to use for a document issued on the given date from an establecimiento/punto
+   * (the one in CompanyConfig when not given). Expired timbrados are finalized and the next one
+   * valid for the date is activated. Issuing is blocked when the range of the punto is exhausted.
+   */
+  static async resolverVigente(
+    fecha: Date = new Date(),
+    ubicacion?: { establecimiento: string; puntoExpedicion: string }
+  ): Promise<TimbradoVigente> {
+    return this.evaluarVigente(fecha, ubicacion, { transicion: true });
+  }
+
+  /**
+   * The timbrado a document issued on the given date would use, like resolverVigente, without
+   * finalizing or activating any timbrado: an expired one is reported as replaced by the next one
+   * valid for the date, which takes over when the next document is issued
+   */
+  static async consultarVigente(
+    fecha: Date = new Date(),
+    ubicacion?: { establecimiento: string; puntoExpedicion: string }
+  ): Promise<TimbradoVigente> {
+    return this.evaluarVigente(fecha, ubicacion, { transicion: false });
+  }
+
+  /**
+   * Next invoice number of the range: one after the last number reserved or issued with the
+   * timbrado for that establecimiento/punto, or the first number of the range
+   */
+  static async siguienteNumero(timbrado: Timbrado, rango: TimbradoRango): Promise<number> {
+    return NumeracionService.siguiente({
+      tipoDocumento: 1,
+      timbrado: timbrado.numero,
+      establecimiento: rango.establecimiento,
+      puntoExpedicion: rango.puntoExpedicion
+    }, rango.numeroInicial);
+  }
+
+  /**
+   * Every timbrado of the registry with its ranges and their usage
+   */
+  static async listar(): Promise<TimbradoDetalle[]> {
+    const companyConfig = await storage.getCompanyConfig();
+    if (companyConfig) {
+      await this.asegurarRegistro(companyConfig);
+    }
+
+    const timbrados = await storage.getTimbrados();
+    const detalle: TimbradoDetalle[] = [];
+    for (const timbrado of timbrados) {
+      const rangos = await storage.getTimbradoRangos(timbrado.id);
+      const rangosUso: TimbradoRangoUso[] = [];
+      for (const rango of rangos) {
+        rangosUso.push({ ...rango, ultimoNumero: await this.ultimoNumero(timbrado, rango) });
+      }
+      detalle.push({ ...timbrado, rangos: rangosUso });
+    }
+    return detalle;
+  }
+
+  /**
+   * Register a new timbrado; it becomes vigente right away when no other timbrado is
+   */
+  static async registrar(data: CreateTimbradoType): Promise<{
+    success: boolean;
+    timbrado?: Timbrado;
+    error?: string;
+    code?: TimbradoErrorCode;
+  }> {
+    const validacion = await this.validar(data, null);
+    if (!validacion.success) {
+      return validacion;
+    }
+
+    const timbrados = await storage.getTimbrados();
+    const hayVigente = timbrados.some(timbrado => timbrado.estado === "vigente");
+
+    let timbrado = await storage.createTimbrado({
+      numero: data.numero,
+      fechaInicio: data.fechaInicio,
+      fechaFin: data.fechaFin,
+      estado: "proximo"
+    });
+    await this.guardarRangos(timbrado.id, data.rangos);
+
+    if (!hayVigente) {
+      timbrado = await this.activarTimbrado(timbrado);
+    }
+
+    return { success: true, timbrado };
+  }
+
+  /**
+   * Correct dates or ranges of a timbrado that has not been finalized
+   * Ranges cannot be shrunk below invoices already issued
+   */
+  static async actualizar(id: string, data: CreateTimbradoType): Promise<{
+    success: boolean;
+    timbrado?: Timbrado;
+    error?: string;
+    code?: TimbradoErrorCode;
+  }> {
+    const timbrado = await storage.getTimbrado(id);
+    if (!timbrado) {
+      return { success: false, error: "Timbrado no encontrado", code: "TIMBRADO_NOT_FOUND" };
+    }
+    if (timbrado.estado === "finalizado") {
+      return { success: false, error: "No se puede modificar un timbrado finalizado", code: "TIMBRADO_IN_USE" };
+    }
+
+    const validacion = await this.validar(data, timbrado);
+    if (!validacion.success) {
+      return validacion;
+    }
+
+    for (const rango of await storage.getTimbradoRangos(id)) {
+      const ultimo = await this.ultimoNumero(timbrado, rango);
+      if (ultimo === null) continue;
+
+      const nuevo = data.rangos.find(r =>
+        r.establecimiento === rango.establecimiento && r.puntoExpedicion === rango.puntoExpedicion
+      );
+      if (!nuevo || nuevo.numeroInicial > ultimo || nuevo.numeroFinal < ultimo) {
+        return {
+          success: false,
+          error: `Ya se emitieron facturas hasta el número ${ultimo} en ${rango.establecimiento}-${rango.puntoExpedicion}; ` +
+            `el rango debe incluirlo`,
+          code: "TIMBRADO_IN_USE"
+        };
+      }
+    }
+
+    const updated = await storage.updateTimbrado(id, {
+      numero: data.numero,
+      fechaInicio: data.fechaInicio,
+      fechaFin: data.fechaFin
+    });
+    await this.guardarRangos(id, data.rangos);
+
+    if (updated && updated.estado === "vigente") {
+      const companyConfig = await storage.getCompanyConfig();
+      if (companyConfig) {
+        await this.sincronizarConfiguracion(companyConfig, updated);
+      }
+    }
+
+    return { success: true, timbrado: updated };
+  }
+
+  /**
+   * Authorize numbering for another establecimiento/punto on an existing timbrado (e.g. a new cash register)
+   */
+  static async agregarRango(id: string, data: TimbradoRangoType): Promise<{
+    success: boolean;
+    rango?: TimbradoRango;
+    error?: string;
+    code?: TimbradoErrorCode;
+  }> {
+    const timbrado = await storage.getTimbrado(id);
+    if (!timbrado) {
+      return { success: false, error: "Timbrado no encontrado", code: "TIMBRADO_NOT_FOUND" };
+    }
+    if (timbrado.estado === "finalizado") {
+      return { success: false, error: "No se puede modificar un timbrado finalizado", code: "TIMBRADO_IN_USE" };
+    }
+
+    const rangos = await storage.getTimbradoRangos(id);
+    if (rangos.some(r => r.establecimiento === data.establecimiento && r.puntoExpedicion === data.puntoExpedicion)) {
+      return {
+        success: false,
+        error: `El timbrado ${timbrado.numero} ya tiene un rango para ${data.establecimiento}-${data.puntoExpedicion}`,
+        code: "INVALID_RANGES"
+      };
+    }
+
+    return { success: true, rango: await storage.createTimbradoRango({ timbradoId: id, ...data }) };
+  }
+
+  /**
+   * Switch to a registered timbrado before the current one expires (e.g. when its range is exhausted)
+   */
+  static async activar(id: string): Promise<{
+    success: boolean;
+    timbrado?: Timbrado;
+    error?: string;
+    code?: TimbradoErrorCode;
+  }> {
+    const timbrado = await storage.getTimbrado(id);
+    if (!timbrado) {
+      return { success: false, error: "Timbrado no encontrado", code: "TIMBRADO_NOT_FOUND" };
+    }
+    if (timbrado.estado !== "proximo") {
+      return { success: false, error: "Solo se puede activar un timbrado próximo", code: "TIMBRADO_IN_USE" };
+    }
+
+    const dia = this.formatFecha(new Date());
+    if (timbrado.fechaInicio > dia || timbrado.fechaFin < dia) {
+      return {
+        success: false,
+        error: `El timbrado ${timbrado.numero} no está vigente hoy (${timbrado.fechaInicio} al ${timbrado.fechaFin})`,
+        code: "INVALID_DATES"
+      };
+    }
+
+    const actual = (await storage.getTimbrados()).find(t => t.estado === "vigente");
+    if (actual) {
+      await this.finalizar(actual, "Reemplazado");
+    }
+
+    return { success: true, timbrado: await this.activarTimbrado(timbrado) };
+  }
+
+  /**
+   * Remove a timbrado registered by mistake; only próximos without documents can be removed
+   */
+  static async eliminar(id: string): Promise<{ success: boolean; error?: string; code?: TimbradoErrorCode }> {
+    const timbrado = await storage.getTimbrado(id);
+    if (!timbrado) {
+      return { success: false, error: "Timbrado no encontrado", code: "TIMBRADO_NOT_FOUND" };
+    }
+
+    const sales = await storage.getSales();
+    if (timbrado.estado !== "proximo" || sales.some(sale => sale.timbradoUsado === timbrado.numero)) {
+      return {
+        success: false,
+        error: "Solo se pueden eliminar timbrados próximos que no tengan documentos emitidos",
+        code: "TIMBRADO_IN_USE"
+      };
+    }
+
+    await storage.deleteTimbrado(id);
+    return { success: true };
+  }
+
+  /**
+   * The fiscal configuration form still edits the timbrado fields: keep the registry in step
+   * A different number registers a new vigente timbrado and finalizes the previous one, so
+   * the history of which invoices belong to which timbrado is never lost
+   */
+  static async registrarDesdeConfiguracion(companyConfig: CompanyConfig): Promise<void> {
+    const timbrados = await storage.getTimbrados();
+    if (timbrados.length === 0) {
+      await this.asegurarRegistro(companyConfig);
+      return;
+    }
+
+    const vigente = timbrados.find(timbrado => timbrado.estado === "vigente");
+    if (vigente && vigente.numero === companyConfig.timbradoNumero) {
+      if (vigente.fechaInicio !== companyConfig.timbradoDesde || vigente.fechaFin !== companyConfig.timbradoHasta) {
+        await storage.updateTimbrado(vigente.id, {
+          fechaInicio: companyConfig.timbradoDesde,
+          fechaFin: companyConfig.timbradoHasta
+        });
+      }
+      await this.asegurarRango(vigente, companyConfig);
+      return;
+    }
+
+    const registrado = timbrados.find(timbrado =>
+      timbrado.numero === companyConfig.timbradoNumero && timbrado.estado !== "finalizado"
+    );
+    if (vigente) {
+      await this.finalizar(vigente, "Reemplazado");
+    }
+
+    const timbrado = registrado ?? await storage.createTimbrado({
+      numero: companyConfig.timbradoNumero,
+      fechaInicio: companyConfig.timbradoDesde,
+      fechaFin: companyConfig.timbradoHasta,
+      estado: "proximo"
+    });
+    await this.asegurarRango(timbrado, companyConfig);
+    await this.activarTimbrado(timbrado);
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  /**
+   * Timbrado and range for a document issued on the given date; with transicion, an expired
+   * timbrado is finalized and the next one activated. Without it no timbrado changes state: only
+   * an empty registry is seeded from CompanyConfig, as the registry listing does.
+   */
+  private static async evaluarVigente(
+    fecha: Date,
+    ubicacion: { establecimiento: string; puntoExpedicion: string } | undefined,
+    opciones: { transicion: boolean }
+  ): Promise<TimbradoVigente> {
+    const companyConfig = await storage.getCompanyConfig();
+    if (!companyConfig) {
+      return {
+        isValid: false,
+        error: "Configuración de empresa no encontrada. Debe configurar los datos fiscales antes de emitir facturas.",
+        blocksInvoicing: true,
+        code: "TIMBRADO_INVALID"
+      };
+    }
+
+    const establecimiento = ubicacion?.establecimiento ?? companyConfig.establecimiento;
+    const puntoExpedicion = ubicacion?.puntoExpedicion ?? companyConfig.puntoExpedicion;
+    if (!establecimiento || !puntoExpedicion) {
+      return {
+        isValid: false,
+        error: "Establecimiento y punto de expedición no configurados. Complete la configuración fiscal.",
+        blocksInvoicing: true,
+        code: "TIMBRADO_INVALID"
+      };
+    }
+
+    await this.asegurarRegistro(companyConfig);
+
+    const dia = this.formatFecha(fecha);
+    const timbrados = await storage.getTimbrados();
+    let vigente = timbrados.find(timbrado => timbrado.estado === "vigente");
+
+    // Expired: finalize it so the next timbrado can take over
+    if (vigente && vigente.fechaFin < dia) {
+      if (opciones.transicion) {
+        await this.finalizar(vigente, "Vencido");
+      }
+      vigente = undefined;
+    }
+
+    if (!vigente) {
+      const siguiente = timbrados.find(timbrado =>
+        timbrado.estado === "proximo" && timbrado.fechaInicio <= dia && timbrado.fechaFin >= dia
+      );
+      if (siguiente) {
+        vigente = opciones.transicion ? await this.activarTimbrado(siguiente) : siguiente;
+      }
+    }
+
+    if (!vigente) {
+      const futuro = timbrados.find(timbrado => timbrado.estado === "proximo" && timbrado.fechaInicio > dia);
+      if (futuro) {
+        return {
+          isValid: false,
+          error: `No hay timbrado vigente. El timbrado ${futuro.numero} entra en vigencia el ${futuro.fechaInicio}.`,
+          blocksInvoicing: true,
+          code: "TIMBRADO_NOT_STARTED"
+        };
+      }
+
+      const ultimo = timbrados[timbrados.length - 1];
+      const daysLeft = ultimo ? getDaysUntilTimbradoExpiration(ultimo.fechaFin) : undefined;
+      return {
+        isValid: false,
+        error: daysLeft !== undefined && daysLeft < 0
+          ? `Timbrado vencido hace ${Math.abs(daysLeft)} días. No se pueden emitir facturas con timbrado vencido.`
+          : "No hay timbrado vigente. Registre un nuevo timbrado para continuar facturando.",
+        blocksInvoicing: true,
+        code: "TIMBRADO_EXPIRED",
+        daysLeft
+      };
+    }
+
+    // Keep the CompanyConfig mirror in sync (documents and the XML read the timbrado from it)
+    const config = opciones.transicion ? await this.sincronizarConfiguracion(companyConfig, vigente) : companyConfig;
+
+    if (vigente.fechaInicio > dia) {
+      return {
+        isValid: false,
+        error: `El timbrado ${vigente.numero} entra en vigencia el ${vigente.fechaInicio}.`,
+        blocksInvoicing: true,
+        code: "TIMBRADO_NOT_STARTED",
+        companyConfig: config,
+        timbrado: vigente
+      };
+    }
+
+    const daysLeft = getDaysUntilTimbradoExpiration(vigente.fechaFin);
+    const rangos = await storage.getTimbradoRangos(vigente.id);
+    const rango = rangos.find(r => r.establecimiento === establecimiento && r.puntoExpedicion === puntoExpedicion);
+    if (!rango) {
+      return {
+        isValid: false,
+        error: `El timbrado ${vigente.numero} no autoriza numeración para ${establecimiento}-${puntoExpedicion}.`,
+        blocksInvoicing: true,
+        code: "TIMBRADO_RANGE_NOT_AUTHORIZED",
+        daysLeft,
+        companyConfig: config,
+        timbrado: vigente
+      };
+    }
+
+    const siguienteNumero = await this.siguienteNumero(vigente, rango);
+    if (siguienteNumero > rango.numeroFinal) {
+      return {
+        isValid: false,
+        error: `Se agotó la numeración autorizada del timbrado ${vigente.numero} ` +
+          `(${rango.numeroInicial} - ${rango.numeroFinal}). Active el siguiente timbrado para continuar facturando.`,
+        blocksInvoicing: true,
+        code: "TIMBRADO_RANGE_EXHAUSTED",
+        daysLeft,
+        companyConfig: config,
+        timbrado: vigente,
+        rango,
+        numerosDisponibles: 0
+      };
+    }
+
+    return {
+      isValid: true,
+      blocksInvoicing: false,
+      daysLeft,
+      companyConfig: config,
+      timbrado: vigente,
+      rango,
+      siguienteNumero,
+      numerosDisponibles: rango.numeroFinal - siguienteNumero + 1
+    };
+  }
+
+  /**
+   * Seed the registry from CompanyConfig the first time (installations predating the registry)
+   * The configured establecimiento/punto gets the whole numbering range
+   */
+  private static async asegurarRegistro(companyConfig: CompanyConfig): Promise<void> {
+    if (!companyConfig.timbradoNumero || !companyConfig.timbradoDesde || !companyConfig.timbradoHasta) {
+      return;
+    }
+
+    const timbrados = await storage.getTimbrados();
+    if (timbrados.length > 0) {
+      return;
+    }
+
+    const timbrado = await storage.createTimbrado({
+      numero: companyConfig.timbradoNumero,
+      fechaInicio: companyConfig.timbradoDesde,
+      fechaFin: companyConfig.timbradoHasta,
+      estado: "vigente"
+    });
+    await this.asegurarRango(timbrado, companyConfig);
+
+    console.log(`📋 Timbrado ${timbrado.numero} registrado desde la configuración de la empresa`);
+  }
+
+  private static async asegurarRango(timbrado: Timbrado, companyConfig: CompanyConfig): Promise<void> {
+    const rangos = await storage.getTimbradoRangos(timbrado.id);
+    const existe = rangos.some(rango =>
+      rango.establecimiento === companyConfig.establecimiento && rango.puntoExpedicion === companyConfig.puntoExpedicion
+    );
+    if (!existe) {
+      await storage.createTimbradoRango({
+        timbradoId: timbrado.id,
+        establecimiento: companyConfig.establecimiento,
+        puntoExpedicion: companyConfig.puntoExpedicion,
+        numeroInicial: 1,
+        numeroFinal: 9999999
+      });
+    }
+  }
+
+  private static async activarTimbrado(timbrado: Timbrado): Promise<Timbrado> {
+    const activado = await storage.updateTimbrado(timbrado.id, { estado: "vigente" }) ?? timbrado;
+
+    const companyConfig = await storage.getCompanyConfig();
+    if (companyConfig) {
+      await this.sincronizarConfiguracion(companyConfig, activado);
+    }
+
+    console.log('AUDIT_LOG:', JSON.stringify({
+      action: 'TIMBRADO_ACTIVATED',
+      timbradoId: activado.id,
+      timbrado: activado.numero,
+      fechaInicio: activado.fechaInicio,
+      fechaFin: activado.fechaFin,
+      timestamp: new Date().toISOString()
+    }, null, 2));
+
+    return activado;
+  }
+
+  private static async finalizar(timbrado: Timbrado, motivo: string): Promise<void> {
+    await storage.updateTimbrado(timbrado.id, {
+      estado: "finalizado",
+      motivoFinalizacion: motivo,
+      fechaFinalizacion: new Date()
+    });
+
+    console.log('AUDIT_LOG:', JSON.stringify({
+      action: 'TIMBRADO_FINALIZED',
+      timbradoId: timbrado.id,
+      timbrado: timbrado.numero,
+      motivo,
+      timestamp: new Date().toISOString()
+    }, null, 2));
+  }
+
+  private static async sincronizarConfiguracion(companyConfig: CompanyConfig, timbrado: Timbrado): Promise<CompanyConfig> {
+    if (
+      companyConfig.timbradoNumero === timbrado.numero &&
+      companyConfig.timbradoDesde === timbrado.fechaInicio &&
+      companyConfig.timbradoHasta === timbrado.fechaFin
+    ) {
+      return companyConfig;
+    }
+
+    const updated = await storage.updateCompanyConfig(companyConfig.id, {
+      timbradoNumero: timbrado.numero,
+      timbradoDesde: timbrado.fechaInicio,
+      timbradoHasta: timbrado.fechaFin
+    });
+    return updated ?? companyConfig;
+  }
+
+  private static async guardarRangos(timbradoId: string, rangos: CreateTimbradoType["rangos"]): Promise<void> {
+    await storage.deleteTimbradoRangos(timbradoId);
+    for (const rango of rangos) {
+      await storage.createTimbradoRango({ timbradoId, ...rango });
+    }
+  }
+
+  private static async validar(data: CreateTimbradoType, actual: Timbrado | null): Promise<{
+    success: boolean;
+    error?: string;
+    code?: TimbradoErrorCode;
+  }> {
+    const fechas = validateTimbradoDates(data.fechaInicio, data.fechaFin);
+    if (!fechas.isValid) {
+      return { success: false, error: fechas.error, code: "INVALID_DATES" };
+    }
+
+    const duplicado = (await storage.getTimbrados()).find(timbrado =>
+      timbrado.numero === data.numero && timbrado.id !== actual?.id
+    );
+    if (duplicado) {
+      return { success: false, error: `El timbrado ${data.numero} ya está registrado`, code: "TIMBRADO_DUPLICATE" };
+    }
+
+    const vistos = new Set<string>();
+    for (const rango of data.rangos) {
+      const clave = `${rango.establecimiento}-${rango.puntoExpedicion}`;
+      if (vistos.has(clave)) {
+        return {
+          success: false,
+          error: `El punto ${clave} tiene más de un rango; indique un único rango por punto de expedición`,
+          code: "INVALID_RANGES"
+        };
+      }
+      vistos.add(clave);
+    }
+
+    return { success: true };
+  }
+
+  private static async ultimoNumero(timbrado: Timbrado, rango: TimbradoRango): Promise<number | null> {
+    const prefijo = `${rango.establecimiento}-${rango.puntoExpedicion}-`;
+    const numeros = (await storage.getSales())
+      .filter(sale => sale.timbradoUsado === timbrado.numero && sale.numeroFactura.startsWith(prefijo))
+      .map(sale => parseInt(sale.numeroFactura.substring(prefijo.length), 10))
+      .filter(numero => !isNaN(numero));
+
+    return numeros.length > 0 ? Math.max(...numeros) : null;
+  }
+
+  /**
+   * Local calendar date (YYYY-MM-DD), the format timbrado dates are stored in
+   */
+  private static formatFecha(date: Date): string {
+    const pad = (n: number) => n.toString().padStart(2, "0");
+    return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+  }
+}
@@ -0,0 +1,153 @@
+import type { Customer } from "@shared/schema";
+import { fechaIngresoTurista, diasDePermanencia } from "@shared/turismo";
+import { storage } from "./storage";
+
+/**
+ * Monthly report of the Régimen de Turismo
+ * Lists the invoices issued exentas under the régimen with the tourist's passport, country and entry
+ * date, the figures the DNIT declaration asks for. Credit notes issued in the month on turismo
+ * invoices reduce the total; cancelled invoices are listed but left out of the totals.
+ */
+
+export interface RegistroTurismo {
+  saleId: string;
+  fecha: string; // ISO format
+  numeroFactura: string;
+  timbrado: string;
+  nombre: string;
+  pasaporte: string;
+  pais: string;
+  fechaIngreso: string | null; // YYYY-MM-DD
+  diasPermanencia: number | null; // Days since the entry date at the sale
+  total: number; // Exentas
+  anulada: boolean;
+}
+
+export interface ReporteTurismo {
+  periodo: string; // YYYY-MM
+  registros: RegistroTurismo[];
+  totales: {
+    cantidad: number;
+    total: number;
+    notasCredito: number;
+    neto: number;
+  };
+  porPais: { pais: string; cantidad: number; total: number }[];
+}
+
+export class TurismoService {
+  /**
+   * Turismo invoices issued in a month (periodo as YYYY-MM)
+   */
+  static async reporteMensual(periodo: string): Promise<ReporteTurismo> {
+    const [anio, mes] = periodo.split('-').map(value => parseInt(value, 10));
+    const start = new Date(anio, mes - 1, 1);
+    const end = new Date(anio, mes, 0, 23, 59, 59, 999);
+
+    const [sales, notasCredito, customers] = await Promise.all([
+      storage.getSalesByDateRange(start, end),
+      storage.getNotasCreditoByDateRange(start, end),
+      storage.getCustomers()
+    ]);
+    const customerOf = (id: string | null) => (id ? customers.find(customer => customer.id === id) : undefined);
+
+    const registros = sales
+      .filter(sale => sale.regimenTurismo)
+      .map(sale => this.registro(sale.id, customerOf(sale.customerId), {
+        fecha: new Date(sale.fecha),
+        numeroFactura: sale.numeroFactura,
+        timbrado: sale.timbradoUsado,
+        total: parseFloat(sale.total),
+        anulada: sale.anulada
+      }))
+      .sort((a, b) => a.fecha.localeCompare(b.fecha) || a.numeroFactura.localeCompare(b.numeroFactura));
+
+    // Credit notes of the month on turismo invoices, including those of earlier months
+    let totalNotasCredito = 0;
+    for (const nota of notasCredito) {
+      const sale = await storage.getSale(nota.saleId);
+      if (sale?.regimenTurismo) {
+        totalNotasCredito += parseFloat(nota.total);
+      }
+    }
+
+    const vigentes = registros.filter(registro => !registro.anulada);
+    const total = vigentes.reduce((sum, registro) => sum + registro.total, 0);
+
+    const porPais = new Map<string, { pais: string; cantidad: number; total: number }>();
+    for (const registro of vigentes) {
+      const grupo = porPais.get(registro.pais) ?? { pais: registro.pais, cantidad: 0, total: 0 };
+      grupo.cantidad++;
+      grupo.total += registro.total;
+      porPais.set(registro.pais, grupo);
+    }
+
+    return {
+      periodo,
+      registros,
+      totales: {
+        cantidad: vigentes.length,
+        total,
+        notasCredito: totalNotasCredito,
+        neto: total - totalNotasCredito
+      },
+      porPais: Array.from(porPais.values()).sort((a, b) => b.total - a.total)
+    };
+  }
+
+  /**
+   * Report as a CSV file with a header row, for the accountant preparing the declaration
+   */
+  static exportarCSV(reporte: ReporteTurismo): string {
+    const encabezado = ["Fecha", "Factura", "Timbrado", "Turista", "Pasaporte", "País", "Fecha de ingreso", "Días de permanencia", "Exentas", "Estado"];
+    const filas = reporte.registros.map(registro => [
+      this.fechaCSV(registro.fecha),
+      registro.numeroFactura,
+      registro.timbrado,
+      this.textoCSV(registro.nombre),
+      this.textoCSV(registro.pasaporte),
+      this.textoCSV(registro.pais),
+      registro.fechaIngreso ?? "",
+      registro.diasPermanencia ?? "",
+      registro.total,
+      registro.anulada ? "Anulada" : "Vigente"
+    ].join(';'));
+
+    return [encabezado.join(';'), ...filas].join('\r\n');
+  }
+
+  // ========================
+  // HELPERS
+  // ========================
+
+  private static registro(
+    saleId: string,
+    customer: Customer | undefined,
+    venta: { fecha: Date; numeroFactura: string; timbrado: string; total: number; anulada: boolean }
+  ): RegistroTurismo {
+    const ingreso = fechaIngresoTurista(customer?.fechaIngreso);
+    return {
+      saleId,
+      fecha: venta.fecha.toISOString(),
+      numeroFactura: venta.numeroFactura,
+      timbrado: venta.timbrado,
+      nombre: customer?.nombre ?? "SIN NOMBRE",
+      pasaporte: customer?.pasaporte || customer?.docNumero || "",
+      pais: customer?.pais?.trim() || "",
+      fechaIngreso: customer?.fechaIngreso?.substring(0, 10) ?? null,
+      diasPermanencia: ingreso ? diasDePermanencia(ingreso, venta.fecha) : null,
+      total: venta.total,
+      anulada: venta.anulada
+    };
+  }
+
+  private static textoCSV(texto: string): string {
+    return texto.replace(/[;"\r\n]+/g, ' ').replace(/\s+/g, ' ').trim();
+  }
+
+  private static fechaCSV(fecha: string): string {
+    const date = new Date(fecha);
+    const dos = (value: number) => value.toString().padStart(2, '0');
+    return `${dos(date.getDate())}/${dos(date.getMonth() + 1)}/${date.getFullYear()}`;
+  }
+}
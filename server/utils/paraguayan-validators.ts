@@ -1,3 +1,6 @@
+import crypto from 'crypto';
+import { digitoVerificadorRUC } from '@shared/documentos';
+
 /**
  * Paraguayan-specific validation utilities
  * Includes RUC validation with checksum and timbrado date validation
@@ -5,7 +8,7 @@
 
 /**
  * Validates Paraguayan RUC format and checksum
- * Format: 80000000-0 (8 digits + dash + 1 check digit)
+ * Format: 80000000-0 (up to 8 digits + dash + 1 check digit)
  * @param ruc The RUC string to validate
  * @returns true if valid, false otherwise
  */
@@ -17,34 +20,15 @@ export function validateRUC(ruc: string): boolean {
   // Remove spaces and normalize
   const cleanRUC = ruc.trim();
   
-  // Check basic format: 8 digits + dash + 1 digit
-  const rucPattern = /^\d{8}-\d$/;
+  // Check basic format: 1 to 8 digits + dash + 1 digit
+  const rucPattern = /^\d{1,8}-\d$/;
   if (!rucPattern.test(cleanRUC)) {
     return false;
   }
 
   // Extract base number and check digit
   const [baseNumber, checkDigitStr] = cleanRUC.split('-');
-  const checkDigit = parseInt(checkDigitStr);
-  
-  // Calculate checksum using Paraguayan RUC algorithm
-  const multipliers = [2, 3, 4, 5, 6, 7, 2, 3];
-  let sum = 0;
-  
-  for (let i = 0; i < 8; i++) {
-    sum += parseInt(baseNumber[i]) * multipliers[i];
-  }
-  
-  const remainder = sum % 11;
-  let calculatedCheckDigit;
-  
-  if (remainder < 2) {
-    calculatedCheckDigit = 0;
-  } else {
-    calculatedCheckDigit = 11 - remainder;
-  }
-  
-  return calculatedCheckDigit === checkDigit;
+  return digitoVerificadorRUC(baseNumber) === parseInt(checkDigitStr);
 }
 
 /**
@@ -246,4 +230,118 @@ export function validateActiveTimbrado(companyConfig: {
     blocksInvoicing: false,
     daysLeft
   };
-}
\ No newline at end of file
+}
+
+/**
+ * Splits a Paraguayan RUC into its base number and check digit
+ * @param ruc The RUC string in "80000000-0" format
+ * @returns Object with base number and check digit, or null if the RUC is malformed
+ */
+export function splitRUC(ruc: string): { base: string; dv: string } | null {
+  if (!ruc || typeof ruc !== 'string') {
+    return null;
+  }
+
+  const match = ruc.trim().match(/^(\d{1,8})-(\d)$/);
+  if (!match) {
+    return null;
+  }
+
+  return { base: match[1], dv: match[2] };
+}
+
+/**
+ * Infers the SIFEN tipo de contribuyente from a RUC
+ * Legal entities are issued RUCs in the 80.000.000 series; everything else is a natural person
+ * @param ruc The RUC string in "80000000-0" format
+ * @returns 1 = persona física, 2 = persona jurídica
+ */
+export function getTipoContribuyente(ruc: string): 1 | 2 {
+  const parts = splitRUC(ruc);
+  return parts && parts.base.length === 8 && parts.base.startsWith('80') ? 2 : 1;
+}
+
+/**
+ * Generates the 9-digit random security code (dCodSeg) that is part of the CDC
+ * @returns Zero-padded 9 digit string
+ */
+export function generateSecurityCode(): string {
+  return crypto.randomInt(1, 1_000_000_000).toString().padStart(9, '0');
+}
+
+/**
+ * Builds the 44-digit CDC (Código de Control) of an electronic document
+ * Layout: tipo DE (2) + RUC (8) + DV (1) + establecimiento (3) + punto (3) + número (7)
+ *         + tipo contribuyente (1) + fecha YYYYMMDD (8) + tipo emisión (1) + código de seguridad (9) + DV (1)
+ * @param params Document data used to compose the CDC
+ * @returns The CDC string, or throws if any component is malformed
+ */
+export function generateCDC(params: {
+  tipoDocumento: number;
+  ruc: string;
+  establecimiento: string;
+  puntoExpedicion: string;
+  numero: string | number;
+  fecha: Date;
+  tipoEmision?: number;
+  codigoSeguridad?: string;
+}): string {
+  const rucParts = splitRUC(params.ruc);
+  if (!rucParts) {
+    throw new Error(`RUC inválido para generar CDC: ${params.ruc}`);
+  }
+
+  const fecha = params.fecha;
+  const fechaStr = `${fecha.getFullYear()}${(fecha.getMonth() + 1).toString().padStart(2, '0')}${fecha.getDate().toString().padStart(2, '0')}`;
+
+  const base = [
+    params.tipoDocumento.toString().padStart(2, '0'),
+    rucParts.base.padStart(8, '0'),
+    rucParts.dv,
+    params.establecimiento.padStart(3, '0'),
+    params.puntoExpedicion.padStart(3, '0'),
+    params.numero.toString().padStart(7, '0'),
+    getTipoContribuyente(params.ruc).toString(),
+    fechaStr,
+    (params.tipoEmision ?? 1).toString(),
+    params.codigoSeguridad ?? generateSecurityCode(),
+  ].join('');
+
+  if (!/^\d{43}$/.test(base)) {
+    throw new Error(`Datos inválidos para generar CDC: ${base}`);
+  }
+
+  return `${base}${digitoVerificadorRUC(base)}`;
+}
+
+/**
+ * Gives a CDC a new security code, keeping the document it identifies
+ * An invoice edited before it is sent gets a new DE, so KuDEs printed with the old data no longer match
+ * @param cdc A valid 44-digit CDC
+ * @returns The CDC with a new security code and check digit
+ */
+export function regenerateCDC(cdc: string): string {
+  const base = `${cdc.substring(0, 34)}${generateSecurityCode()}`;
+  return `${base}${digitoVerificadorRUC(base)}`;
+}
+
+/**
+ * Validates a CDC: 44 digits with a correct modulo-11 check digit
+ * @param cdc The CDC string to validate
+ * @returns true if valid, false otherwise
+ */
+export function validateCDC(cdc: string): boolean {
+  if (!cdc || !/^\d{44}$/.test(cdc)) {
+    return false;
+  }
+  return digitoVerificadorRUC(cdc.substring(0, 43)) === parseInt(cdc[43]);
+}
+
+/**
+ * Extracts the security code (dCodSeg) embedded in a CDC
+ * @param cdc A valid 44-digit CDC
+ * @returns The 9-digit security code
+ */
+export function getSecurityCodeFromCDC(cdc: string): string {
+  return cdc.substring(34, 43);
+}
@@ -0,0 +1,33 @@
+import type { TipoMovimientoCaja } from "./schema";
+
+/**
+ * Cash register count shared by the server and the closing dialog
+ * The drawer is counted by guaraní denomination; the count is kept with the closed session so the
+ * cierre de caja can be reprinted with the same figures.
+ */
+
+// Bills and coins in circulation, largest first
+export const DENOMINACIONES_GUARANI = [100000, 50000, 20000, 10000, 5000, 2000, 1000, 500, 100, 50];
+
+export const TIPOS_MOVIMIENTO_CAJA: Record<TipoMovimientoCaja, string> = {
+  ingreso: "Ingreso",
+  retiro: "Retiro",
+  gasto: "Gasto menor",
+};
+
+// Quantity counted per denomination, keyed by the denomination value
+export type ConteoCaja = Record<string, number>;
+
+/**
+ * Guaraníes in a count
+ */
+export function totalConteo(conteo: ConteoCaja): number {
+  return Object.entries(conteo).reduce((sum, [denominacion, cantidad]) => sum + parseInt(denominacion, 10) * cantidad, 0);
+}
+
+/**
+ * Effect of a movement on the cash in the drawer
+ */
+export function signoMovimiento(tipo: TipoMovimientoCaja): 1 | -1 {
+  return tipo === "ingreso" ? 1 : -1;
+}
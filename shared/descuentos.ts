@@ -0,0 +1,147 @@
+import type { CompanyConfig, MotivoDescuento, TasaIva, TipoDescuento } from "./schema";
+import { calcularLineaIva } from "./iva";
+
+/**
+ * Sale discounts shared by the server and the client
+ * A line or the whole ticket can be discounted by a percentage or by an amount in guaraníes, always
+ * with a reason. Amounts are IVA included: the line discount comes off the line total and the ticket
+ * discount is prorated over what is left of each line, so the IVA is liquidated on what the customer
+ * pays. Each role has a maximum percentage in the company settings; above it an admin enters a PIN.
+ */
+
+export const TIPOS_DESCUENTO: Record<TipoDescuento, string> = {
+  porcentaje: "Porcentaje",
+  monto: "Monto fijo",
+};
+
+export const MOTIVOS_DESCUENTO: Record<MotivoDescuento, string> = {
+  promocion: "Promoción",
+  cliente_frecuente: "Cliente frecuente",
+  reclamo: "Reclamo",
+  empleado: "Empleado",
+  redondeo: "Redondeo",
+  otro: "Otro",
+};
+
+export interface DescuentoVenta {
+  tipo: TipoDescuento;
+  valor: number; // Percentage or guaraníes
+  motivo: MotivoDescuento;
+}
+
+// Line to discount, with its price net of IVA as stored
+export interface LineaDescontable {
+  precioUnitario: number | string;
+  cantidad: number;
+  tasaIva: TasaIva;
+  descuento?: DescuentoVenta | null;
+}
+
+export interface MontosDescuentoLinea {
+  totalBruto: number; // IVA included, before discounts
+  descuentoLinea: number;
+  descuentoGlobal: number; // Share of the ticket discount
+}
+
+export interface DescuentosVenta {
+  lineas: MontosDescuentoLinea[];
+  totalBruto: number;
+  descuentoGlobal: number;
+  descuentoTotal: number;
+}
+
+/**
+ * Guaraníes a discount takes off an amount (IVA included), never more than the amount
+ */
+export function montoDescuento(descuento: DescuentoVenta | null | undefined, importe: number): number {
+  if (!descuento) return 0;
+  const monto = descuento.tipo === "porcentaje" ? Math.round(importe * descuento.valor / 100) : Math.round(descuento.valor);
+  return Math.min(Math.max(monto, 0), importe);
+}
+
+/**
+ * Line and ticket discounts of a sale; the ticket discount applies to what the lines come to after
+ * their own discounts and is prorated over them
+ */
+export function aplicarDescuentos(lineas: LineaDescontable[], descuento?: DescuentoVenta | null): DescuentosVenta {
+  const montos = lineas.map(linea => {
+    const { totalBruto } = calcularLineaIva({ precioUnitario: linea.precioUnitario, cantidad: linea.cantidad, tasaIva: linea.tasaIva });
+    return { totalBruto, descuentoLinea: montoDescuento(linea.descuento, totalBruto), descuentoGlobal: 0 };
+  });
+
+  const importes = montos.map(linea => linea.totalBruto - linea.descuentoLinea);
+  const descuentoGlobal = montoDescuento(descuento, importes.reduce((sum, importe) => sum + importe, 0));
+  prorratear(descuentoGlobal, importes).forEach((parte, index) => {
+    montos[index].descuentoGlobal = parte;
+  });
+
+  const descuentoLineas = montos.reduce((sum, linea) => sum + linea.descuentoLinea, 0);
+  return {
+    lineas: montos,
+    totalBruto: montos.reduce((sum, linea) => sum + linea.totalBruto, 0),
+    descuentoGlobal,
+    descuentoTotal: descuentoLineas + descuentoGlobal
+  };
+}
+
+/**
+ * Largest discount of a sale as a percentage: of any of its lines or of the ticket as a whole
+ */
+export function porcentajeDescuento(venta: {
+  totalBruto: number;
+  descuentoTotal: number;
+  lineas: { totalBruto: number; descuentoLinea: number }[];
+}): number {
+  const porcentaje = (descuento: number, importe: number) => importe > 0 ? descuento * 100 / importe : 0;
+  const maximo = Math.max(
+    porcentaje(venta.descuentoTotal, venta.totalBruto),
+    ...venta.lineas.map(linea => porcentaje(linea.descuentoLinea, linea.totalBruto))
+  );
+  return Math.round(maximo * 100) / 100;
+}
+
+/**
+ * Largest discount (%) a role gives without authorization; readonly users do not sell
+ */
+export function descuentoMaximoRol(
+  role: string,
+  config: Pick<CompanyConfig, "descuentoMaximoUser" | "descuentoMaximoAdmin"> | null | undefined
+): number {
+  if (role === "admin") return config?.descuentoMaximoAdmin ?? 100;
+  if (role === "user") return config?.descuentoMaximoUser ?? 10;
+  return 0;
+}
+
+/**
+ * Discount of a stored sale item (IVA included); items recorded before discounts have none
+ */
+export function descuentoItem(item: { descuento?: string | null; descuentoGlobal?: string | null }): number {
+  return (parseFloat(item.descuento ?? "0") || 0) + (parseFloat(item.descuentoGlobal ?? "0") || 0);
+}
+
+// ========================
+// HELPERS
+// ========================
+
+// Share of an amount for each line in proportion to the line amounts; each line gets its share rounded
+// down and the guaraníes left go one each to the lines with the largest fractions, so no share is
+// negative or larger than its line
+function prorratear(monto: number, importes: number[]): number[] {
+  const total = importes.reduce((sum, importe) => sum + importe, 0);
+  if (monto <= 0 || total <= 0) {
+    return importes.map(() => 0);
+  }
+
+  const exactas = importes.map(importe => monto * importe / total);
+  const partes = exactas.map(exacta => Math.floor(exacta));
+  let resto = monto - partes.reduce((sum, parte) => sum + parte, 0);
+  const porFraccion = exactas
+    .map((exacta, index) => ({ index, fraccion: exacta - partes[index] }))
+    .sort((a, b) => b.fraccion - a.fraccion);
+  for (const { index } of porFraccion) {
+    if (resto <= 0) break;
+    partes[index] += 1;
+    resto -= 1;
+  }
+  return partes;
+}
@@ -0,0 +1,147 @@
+import type { Customer } from "./schema";
+import { resolverPais } from "./paises";
+
+/**
+ * Customer identity documents shared by the API and the customer form
+ * Each document type has its own rules: RUC with its verification digit, CI as a number within the
+ * range issued so far, passports with the format of the issuing country when it is known and foreign
+ * identity cards as plain codes. Documents are stored and compared normalized, so "1.234.567" and
+ * "1234567" are the same customer, and a CI and the RUC built on it are the same person.
+ */
+
+export type TipoDocumento = Customer["docTipo"];
+
+export type DocumentoErrorCode = "INVALID_RUC" | "INVALID_CI" | "INVALID_PASSPORT" | "INVALID_FOREIGN_ID";
+
+// Cédulas issued so far are below 10 million; the margin leaves room for new issues
+export const CI_MAXIMO = 15000000;
+
+// Passport formats of the countries most seen at the counter (ISO 3166 alpha-3)
+const FORMATOS_PASAPORTE: Record<string, { patron: RegExp; ejemplo: string }> = {
+  ARG: { patron: /^([A-Z]{3}\d{6}|\d{8}N)$/, ejemplo: "AAA123456" },
+  BRA: { patron: /^[A-Z]{2}\d{6}$/, ejemplo: "FZ123456" },
+  USA: { patron: /^([A-Z]\d{8}|\d{9})$/, ejemplo: "A12345678" },
+  ESP: { patron: /^[A-Z]{3}\d{6}$/, ejemplo: "PAA123456" },
+};
+
+/**
+ * Document number as stored: without dots or spaces, RUC and CI without leading zeros,
+ * passports and foreign documents in upper case
+ */
+export function normalizarDocumento(docTipo: TipoDocumento, docNumero: string): string {
+  const limpio = docNumero.trim().replace(/[.\s]/g, "");
+
+  switch (docTipo) {
+    case "RUC": {
+      const [base, dv] = limpio.split("-");
+      return dv !== undefined ? `${base.replace(/^0+(?=\d)/, "")}-${dv}` : base.replace(/^0+(?=\d)/, "");
+    }
+    case "CI":
+      return limpio.replace(/-/g, "").replace(/^0+(?=\d)/, "");
+    default:
+      return limpio.replace(/-/g, "").toUpperCase();
+  }
+}
+
+/**
+ * Key used to detect duplicated customers: a CI and the RUC of the same person share it
+ */
+export function claveDocumento(docTipo: TipoDocumento, docNumero: string): string {
+  const normalizado = normalizarDocumento(docTipo, docNumero);
+  return docTipo === "RUC" || docTipo === "CI"
+    ? `PY:${normalizado.split("-")[0]}`
+    : `${docTipo}:${normalizado}`;
+}
+
+/**
+ * Whether a document number is valid for its type; passports are checked against the format
+ * of the customer's country when it is known
+ */
+export function validarDocumento(
+  docTipo: TipoDocumento,
+  docNumero: string,
+  pais?: string | null
+): { success: boolean; error?: string; code?: DocumentoErrorCode } {
+  const numero = normalizarDocumento(docTipo, docNumero);
+
+  switch (docTipo) {
+    case "RUC": {
+      const match = numero.match(/^(\d{1,8})-(\d)$/);
+      if (!match) {
+        return {
+          success: false,
+          error: "El RUC debe tener hasta 8 dígitos y el dígito verificador, por ejemplo 1234567-8",
+          code: "INVALID_RUC"
+        };
+      }
+      const dv = digitoVerificadorRUC(match[1]);
+      if (dv !== parseInt(match[2], 10)) {
+        return {
+          success: false,
+          error: `El dígito verificador del RUC ${match[1]} es ${dv}`,
+          code: "INVALID_RUC"
+        };
+      }
+      return { success: true };
+    }
+
+    case "CI": {
+      const valor = /^\d{1,8}$/.test(numero) ? parseInt(numero, 10) : NaN;
+      if (!(valor >= 1 && valor <= CI_MAXIMO)) {
+        return {
+          success: false,
+          error: `La cédula de identidad debe ser un número entre 1 y ${CI_MAXIMO.toLocaleString("es-PY")}`,
+          code: "INVALID_CI"
+        };
+      }
+      return { success: true };
+    }
+
+    case "Pasaporte": {
+      const codigo = resolverPais(pais)?.codigo ?? "";
+      const formato = FORMATOS_PASAPORTE[codigo];
+      if (formato && !formato.patron.test(numero)) {
+        return {
+          success: false,
+          error: `El pasaporte no tiene el formato de ${codigo}, por ejemplo ${formato.ejemplo}`,
+          code: "INVALID_PASSPORT"
+        };
+      }
+      if (!/^(?=.*\d)[A-Z0-9]{5,12}$/.test(numero)) {
+        return {
+          success: false,
+          error: "El pasaporte debe tener entre 5 y 12 letras y números",
+          code: "INVALID_PASSPORT"
+        };
+      }
+      return { success: true };
+    }
+
+    case "Extranjero":
+      if (!/^[A-Z0-9]{4,20}$/.test(numero)) {
+        return {
+          success: false,
+          error: "El documento extranjero debe tener entre 4 y 20 letras y números",
+          code: "INVALID_FOREIGN_ID"
+        };
+      }
+      return { success: true };
+  }
+}
+
+/**
+ * RUC verification digit as published by the DNIT: modulo 11 with weights 2 to 11, right to left
+ * SIFEN uses the same check digit for the CDC, so this is the only implementation of it
+ */
+export function digitoVerificadorRUC(base: string): number {
+  let suma = 0;
+  let factor = 2;
+
+  for (let i = base.length - 1; i >= 0; i--) {
+    suma += parseInt(base[i], 10) * factor;
+    factor = factor === 11 ? 2 : factor + 1;
+  }
+
+  const resto = suma % 11;
+  return resto > 1 ? 11 - resto : 0;
+}
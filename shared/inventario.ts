@@ -0,0 +1,68 @@
+import type { InventoryItem, MovimientoStock, TipoMovimientoStock } from "./schema";
+
+/**
+ * Product stock shared by the server and the client
+ * Every change of stock is a movement in an append-only ledger: purchases, sales and their returns,
+ * consumption by services, manual adjustments and count corrections. stockActual is the sum of the
+ * movements of the product and the kardex lists them with the balance after each one. The alert
+ * level follows the stock on hand against stockMinimo.
+ */
+
+export type EstadoAlertaStock = InventoryItem["estadoAlerta"];
+
+export const TIPOS_MOVIMIENTO_STOCK: Record<TipoMovimientoStock, string> = {
+  inicial: "Saldo inicial",
+  compra: "Compra",
+  venta: "Venta",
+  devolucion: "Devolución",
+  consumo_servicio: "Consumo en servicios",
+  ajuste: "Ajuste",
+  conteo: "Conteo físico",
+};
+
+// Movement with the stock left after it
+export interface LineaKardex extends MovimientoStock {
+  saldo: number;
+}
+
+/**
+ * Alert level of a product for its stock on hand
+ */
+export function estadoAlertaStock(stock: number, minimo: number): EstadoAlertaStock {
+  if (stock <= 0) {
+    return "critico";
+  }
+  return stock <= minimo ? "bajo" : "normal";
+}
+
+/**
+ * Units per product in a set of lines; the same product can appear on more than one line
+ */
+export function cantidadesPorProducto(
+  lineas: { inventoryItemId: string | null | undefined; cantidad: number }[]
+): Map<string, number> {
+  const cantidades = new Map<string, number>();
+  for (const linea of lineas) {
+    if (!linea.inventoryItemId) continue;
+    cantidades.set(linea.inventoryItemId, (cantidades.get(linea.inventoryItemId) ?? 0) + linea.cantidad);
+  }
+  return cantidades;
+}
+
+/**
+ * Stock of a product from its movements
+ */
+export function saldoStock(movimientos: Pick<MovimientoStock, "cantidad">[]): number {
+  return movimientos.reduce((sum, movimiento) => sum + movimiento.cantidad, 0);
+}
+
+/**
+ * Kardex of a product: its movements in date order with the running balance
+ */
+export function lineasKardex(movimientos: MovimientoStock[]): LineaKardex[] {
+  let saldo = 0;
+  return movimientos.map(movimiento => {
+    saldo += movimiento.cantidad;
+    return { ...movimiento, saldo };
+  });
+}
@@ -0,0 +1,100 @@
+import type { TasaIva } from "./schema";
+
+/**
+ * IVA liquidation shared by the server and the client
+ * Prices are stored net of IVA and each line is grossed up at its own rate (10%, 5% or exento)
+ * the way SIFEN reports it: IVA-included unit price times quantity, with the taxable base and
+ * the IVA derived from that total. Discounts are IVA included and come off the line total before
+ * the base is derived. Sales, the KuDE and the DE XML all use these figures.
+ */
+
+export const TASAS_IVA: TasaIva[] = [10, 5, 0];
+
+export interface LineaIva {
+  precioUnitario: number | string; // Net of IVA
+  cantidad: number;
+  tasaIva: TasaIva;
+  descuento?: number; // IVA included, line and ticket discounts together
+}
+
+export interface MontosLineaIva {
+  precioUnitario: number; // IVA included
+  totalBruto: number; // IVA included, before discounts
+  descuento: number;
+  total: number; // IVA included
+  baseGravada: number;
+  liquidacionIva: number;
+}
+
+export interface LiquidacionIva {
+  subtotal: number; // Net of IVA
+  impuestos: number;
+  total: number;
+  gravadas10: number; // IVA included
+  gravadas5: number; // IVA included
+  exentas: number;
+  iva10: number;
+  iva5: number;
+}
+
+/**
+ * Amounts of a single line at its IVA rate
+ */
+export function calcularLineaIva(linea: LineaIva): MontosLineaIva {
+  const precioNeto = typeof linea.precioUnitario === "string" ? parseFloat(linea.precioUnitario) : linea.precioUnitario;
+  const precioUnitario = Math.round(precioNeto * (100 + linea.tasaIva) / 100);
+  const totalBruto = precioUnitario * linea.cantidad;
+  const descuento = Math.min(linea.descuento ?? 0, totalBruto);
+  const total = totalBruto - descuento;
+  const baseGravada = linea.tasaIva === 0 ? 0 : Math.round(total * 100 / (100 + linea.tasaIva));
+
+  return {
+    precioUnitario,
+    totalBruto,
+    descuento,
+    total,
+    baseGravada,
+    liquidacionIva: linea.tasaIva === 0 ? 0 : total - baseGravada
+  };
+}
+
+/**
+ * Document totals per IVA rate
+ */
+export function liquidarIva(lineas: LineaIva[]): LiquidacionIva {
+  const liquidacion: LiquidacionIva = {
+    subtotal: 0,
+    impuestos: 0,
+    total: 0,
+    gravadas10: 0,
+    gravadas5: 0,
+    exentas: 0,
+    iva10: 0,
+    iva5: 0
+  };
+
+  for (const linea of lineas) {
+    const montos = calcularLineaIva(linea);
+    if (linea.tasaIva === 10) {
+      liquidacion.gravadas10 += montos.total;
+      liquidacion.iva10 += montos.liquidacionIva;
+    } else if (linea.tasaIva === 5) {
+      liquidacion.gravadas5 += montos.total;
+      liquidacion.iva5 += montos.liquidacionIva;
+    } else {
+      liquidacion.exentas += montos.total;
+    }
+  }
+
+  liquidacion.total = liquidacion.gravadas10 + liquidacion.gravadas5 + liquidacion.exentas;
+  liquidacion.impuestos = liquidacion.iva10 + liquidacion.iva5;
+  liquidacion.subtotal = liquidacion.total - liquidacion.impuestos;
+  return liquidacion;
+}
+
+/**
+ * Label of a rate for forms and printed documents
+ */
+export function etiquetaTasaIva(tasaIva: TasaIva): string {
+  return tasaIva === 0 ? "Exento" : `IVA ${tasaIva}%`;
+}
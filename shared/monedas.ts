@@ -0,0 +1,41 @@
+import type { Moneda } from "./schema";
+
+/**
+ * Currency conversion shared by the server and the client
+ * Prices, totals and the IVA liquidation are always in guaraníes, as SIFEN and the DNIT require.
+ * A sale in a foreign currency keeps its guaraní totals and stores, next to them, the rate of the
+ * day (guaraníes per unit) and the total converted at that rate.
+ */
+
+export const MONEDA_BASE = "PYG";
+
+/**
+ * Guaraní amount expressed in a foreign currency, rounded to the decimals of the currency
+ */
+export function convertirDesdeGuaranies(montoGs: number, tasa: number | string, decimales: number = 2): number {
+  const tasaNumero = typeof tasa === "string" ? parseFloat(tasa) : tasa;
+  const factor = Math.pow(10, decimales);
+  return Math.round(montoGs / tasaNumero * factor) / factor;
+}
+
+/**
+ * Foreign currency amount expressed in guaraníes (no decimals)
+ */
+export function convertirAGuaranies(monto: number, tasa: number | string): number {
+  const tasaNumero = typeof tasa === "string" ? parseFloat(tasa) : tasa;
+  return Math.round(monto * tasaNumero);
+}
+
+/**
+ * Amount with the symbol of its currency for screens and printed documents
+ */
+export function formatearMoneda(monto: number | string, moneda?: Pick<Moneda, "simbolo" | "decimales">): string {
+  const valor = typeof monto === "string" ? parseFloat(monto) : monto;
+  if (!moneda) {
+    return `Gs. ${Math.round(valor).toLocaleString("es-PY")}`;
+  }
+  return `${moneda.simbolo} ${valor.toLocaleString("es-PY", {
+    minimumFractionDigits: moneda.decimales,
+    maximumFractionDigits: moneda.decimales
+  })}`;
+}
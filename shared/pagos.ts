@@ -0,0 +1,103 @@
+import type { MedioPago } from "./schema";
+
+/**
+ * Payments of a cash sale shared by the server and the client
+ * A sale can be paid part in cash and part by card, or with several cards; the payments must add up
+ * to the invoice total. Cash handed over beyond the total is given back as change, recorded on the
+ * cash payment so the till matches what stayed in the drawer.
+ */
+
+export const MEDIOS_PAGO: Record<MedioPago, string> = {
+  efectivo: "Efectivo",
+  tarjeta_credito: "Tarjeta de crédito",
+  tarjeta_debito: "Tarjeta de débito",
+  transferencia: "Transferencia",
+  cheque: "Cheque",
+};
+
+export const MARCAS_TARJETA = ["Visa", "Mastercard", "American Express", "Maestro", "Panal", "Cabal", "Otra"];
+
+export type PagoErrorCode = "INVALID_PAYMENT" | "CHANGE_NOT_ALLOWED" | "PAYMENTS_TOTAL_MISMATCH";
+
+export interface PagoVenta {
+  medioPago: MedioPago;
+  monto: number; // Applied to the sale, in guaraníes
+  vuelto?: number; // Change given back, cash only
+  marcaTarjeta?: string | null;
+  ultimos4?: string | null;
+  referencia?: string | null;
+}
+
+/**
+ * Whether the payments settle a sale total exactly
+ */
+export function validarPagos(
+  pagos: PagoVenta[],
+  total: number
+): { success: boolean; error?: string; code?: PagoErrorCode } {
+  if (pagos.length === 0) {
+    return { success: false, error: "Registre al menos un pago", code: "INVALID_PAYMENT" };
+  }
+
+  for (const pago of pagos) {
+    if (!(pago.monto > 0)) {
+      return { success: false, error: "Cada pago debe tener un monto mayor a cero", code: "INVALID_PAYMENT" };
+    }
+    if ((pago.vuelto ?? 0) > 0 && pago.medioPago !== "efectivo") {
+      return { success: false, error: "Solo se da vuelto en pagos en efectivo", code: "CHANGE_NOT_ALLOWED" };
+    }
+  }
+
+  const suma = pagos.reduce((sum, pago) => sum + pago.monto, 0);
+  if (Math.round(suma) !== Math.round(total)) {
+    return {
+      success: false,
+      error: `Los pagos suman Gs. ${Math.round(suma).toLocaleString("es-PY")} y el total de la venta es Gs. ${Math.round(total).toLocaleString("es-PY")}`,
+      code: "PAYMENTS_TOTAL_MISMATCH"
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Payments with the amount handed over beyond the total turned into change on the cash payments
+ * Amounts paid by card or transfer are never reduced, so an overpayment without cash stays invalid
+ */
+export function aplicarVuelto(pagos: PagoVenta[], total: number): PagoVenta[] {
+  let exceso = Math.round(pagos.reduce((sum, pago) => sum + pago.monto, 0) - total);
+  const resultado = pagos.map(pago => ({ ...pago }));
+
+  for (let i = resultado.length - 1; i >= 0 && exceso > 0; i--) {
+    const pago = resultado[i];
+    if (pago.medioPago !== "efectivo") continue;
+    const vuelto = Math.min(exceso, pago.monto);
+    pago.monto -= vuelto;
+    pago.vuelto = (pago.vuelto ?? 0) + vuelto;
+    exceso -= vuelto;
+  }
+
+  // A cash payment used up as change leaves nothing applied to the sale
+  return resultado.filter(pago => pago.monto > 0 || pago.medioPago !== "efectivo");
+}
+
+/**
+ * Payment method recorded on the sale: the one that paid the largest amount
+ */
+export function medioPagoPrincipal(pagos: PagoVenta[]): MedioPago {
+  return pagos.reduce<PagoVenta | null>((mayor, pago) => (!mayor || pago.monto > mayor.monto ? pago : mayor), null)
+    ?.medioPago ?? "efectivo";
+}
+
+/**
+ * Payment as printed on receipts, e.g. "Tarjeta de crédito Visa ****1234"
+ */
+export function descripcionPago(pago: Pick<PagoVenta, "medioPago" | "marcaTarjeta" | "ultimos4" | "referencia">): string {
+  const detalle = [
+    pago.marcaTarjeta,
+    pago.ultimos4 ? `****${pago.ultimos4}` : null,
+    pago.referencia ? `Ref. ${pago.referencia}` : null
+  ].filter(Boolean);
+
+  return [MEDIOS_PAGO[pago.medioPago] ?? pago.medioPago, ...detalle].join(" ");
+}
@@ -0,0 +1,334 @@
+/**
+ * Countries (ISO 3166-1) shared by the customer form, the régimen de turismo and the SIFEN receptor
+ * The country of a customer is typed as a name, in Spanish or with a common alternative, or as its
+ * alpha-2 or alpha-3 code; case and accents do not matter. A country that cannot be resolved is
+ * rejected when the customer is saved instead of being taken for Paraguay.
+ */
+
+export interface Pais {
+  codigo: string; // ISO 3166-1 alpha-3, as SIFEN expects in cPaisRec
+  descripcion: string;
+}
+
+export type PaisErrorCode = "INVALID_COUNTRY";
+
+export const PARAGUAY: Pais = { codigo: "PRY", descripcion: "Paraguay" };
+
+// alpha-3, alpha-2 and Spanish name of every country
+const PAISES: [string, string, string][] = [
+  ["AFG", "AF", "Afganistán"],
+  ["ALA", "AX", "Islas Åland"],
+  ["ALB", "AL", "Albania"],
+  ["DEU", "DE", "Alemania"],
+  ["AND", "AD", "Andorra"],
+  ["AGO", "AO", "Angola"],
+  ["AIA", "AI", "Anguila"],
+  ["ATA", "AQ", "Antártida"],
+  ["ATG", "AG", "Antigua y Barbuda"],
+  ["SAU", "SA", "Arabia Saudita"],
+  ["DZA", "DZ", "Argelia"],
+  ["ARG", "AR", "Argentina"],
+  ["ARM", "AM", "Armenia"],
+  ["ABW", "AW", "Aruba"],
+  ["AUS", "AU", "Australia"],
+  ["AUT", "AT", "Austria"],
+  ["AZE", "AZ", "Azerbaiyán"],
+  ["BHS", "BS", "Bahamas"],
+  ["BGD", "BD", "Bangladés"],
+  ["BRB", "BB", "Barbados"],
+  ["BHR", "BH", "Baréin"],
+  ["BEL", "BE", "Bélgica"],
+  ["BLZ", "BZ", "Belice"],
+  ["BEN", "BJ", "Benín"],
+  ["BMU", "BM", "Bermudas"],
+  ["BLR", "BY", "Bielorrusia"],
+  ["BOL", "BO", "Bolivia"],
+  ["BES", "BQ", "Bonaire, San Eustaquio y Saba"],
+  ["BIH", "BA", "Bosnia y Herzegovina"],
+  ["BWA", "BW", "Botsuana"],
+  ["BRA", "BR", "Brasil"],
+  ["BRN", "BN", "Brunéi"],
+  ["BGR", "BG", "Bulgaria"],
+  ["BFA", "BF", "Burkina Faso"],
+  ["BDI", "BI", "Burundi"],
+  ["BTN", "BT", "Bután"],
+  ["CPV", "CV", "Cabo Verde"],
+  ["KHM", "KH", "Camboya"],
+  ["CMR", "CM", "Camerún"],
+  ["CAN", "CA", "Canadá"],
+  ["QAT", "QA", "Catar"],
+  ["TCD", "TD", "Chad"],
+  ["CHL", "CL", "Chile"],
+  ["CHN", "CN", "China"],
+  ["CYP", "CY", "Chipre"],
+  ["VAT", "VA", "Ciudad del Vaticano"],
+  ["COL", "CO", "Colombia"],
+  ["COM", "KM", "Comoras"],
+  ["PRK", "KP", "Corea del Norte"],
+  ["KOR", "KR", "Corea del Sur"],
+  ["CIV", "CI", "Costa de Marfil"],
+  ["CRI", "CR", "Costa Rica"],
+  ["HRV", "HR", "Croacia"],
+  ["CUB", "CU", "Cuba"],
+  ["CUW", "CW", "Curazao"],
+  ["DNK", "DK", "Dinamarca"],
+  ["DMA", "DM", "Dominica"],
+  ["ECU", "EC", "Ecuador"],
+  ["EGY", "EG", "Egipto"],
+  ["SLV", "SV", "El Salvador"],
+  ["ARE", "AE", "Emiratos Árabes Unidos"],
+  ["ERI", "ER", "Eritrea"],
+  ["SVK", "SK", "Eslovaquia"],
+  ["SVN", "SI", "Eslovenia"],
+  ["ESP", "ES", "España"],
+  ["USA", "US", "Estados Unidos"],
+  ["EST", "EE", "Estonia"],
+  ["SWZ", "SZ", "Esuatini"],
+  ["ETH", "ET", "Etiopía"],
+  ["PHL", "PH", "Filipinas"],
+  ["FIN", "FI", "Finlandia"],
+  ["FJI", "FJ", "Fiyi"],
+  ["FRA", "FR", "Francia"],
+  ["GAB", "GA", "Gabón"],
+  ["GMB", "GM", "Gambia"],
+  ["GEO", "GE", "Georgia"],
+  ["GHA", "GH", "Ghana"],
+  ["GIB", "GI", "Gibraltar"],
+  ["GRD", "GD", "Granada"],
+  ["GRC", "GR", "Grecia"],
+  ["GRL", "GL", "Groenlandia"],
+  ["GLP", "GP", "Guadalupe"],
+  ["GUM", "GU", "Guam"],
+  ["GTM", "GT", "Guatemala"],
+  ["GUF", "GF", "Guayana Francesa"],
+  ["GGY", "GG", "Guernsey"],
+  ["GIN", "GN", "Guinea"],
+  ["GNQ", "GQ", "Guinea Ecuatorial"],
+  ["GNB", "GW", "Guinea-Bisáu"],
+  ["GUY", "GY", "Guyana"],
+  ["HTI", "HT", "Haití"],
+  ["HND", "HN", "Honduras"],
+  ["HKG", "HK", "Hong Kong"],
+  ["HUN", "HU", "Hungría"],
+  ["IND", "IN", "India"],
+  ["IDN", "ID", "Indonesia"],
+  ["IRQ", "IQ", "Irak"],
+  ["IRN", "IR", "Irán"],
+  ["IRL", "IE", "Irlanda"],
+  ["BVT", "BV", "Isla Bouvet"],
+  ["IMN", "IM", "Isla de Man"],
+  ["CXR", "CX", "Isla de Navidad"],
+  ["NFK", "NF", "Isla Norfolk"],
+  ["ISL", "IS", "Islandia"],
+  ["CYM", "KY", "Islas Caimán"],
+  ["CCK", "CC", "Islas Cocos"],
+  ["COK", "CK", "Islas Cook"],
+  ["FRO", "FO", "Islas Feroe"],
+  ["SGS", "GS", "Islas Georgias del Sur y Sandwich del Sur"],
+  ["HMD", "HM", "Islas Heard y McDonald"],
+  ["FLK", "FK", "Islas Malvinas"],
+  ["MNP", "MP", "Islas Marianas del Norte"],
+  ["MHL", "MH", "Islas Marshall"],
+  ["PCN", "PN", "Islas Pitcairn"],
+  ["SLB", "SB", "Islas Salomón"],
+  ["TCA", "TC", "Islas Turcas y Caicos"],
+  ["UMI", "UM", "Islas Ultramarinas Menores de Estados Unidos"],
+  ["VGB", "VG", "Islas Vírgenes Británicas"],
+  ["VIR", "VI", "Islas Vírgenes de los Estados Unidos"],
+  ["ISR", "IL", "Israel"],
+  ["ITA", "IT", "Italia"],
+  ["JAM", "JM", "Jamaica"],
+  ["JPN", "JP", "Japón"],
+  ["JEY", "JE", "Jersey"],
+  ["JOR", "JO", "Jordania"],
+  ["KAZ", "KZ", "Kazajistán"],
+  ["KEN", "KE", "Kenia"],
+  ["KGZ", "KG", "Kirguistán"],
+  ["KIR", "KI", "Kiribati"],
+  ["KWT", "KW", "Kuwait"],
+  ["LAO", "LA", "Laos"],
+  ["LSO", "LS", "Lesoto"],
+  ["LVA", "LV", "Letonia"],
+  ["LBN", "LB", "Líbano"],
+  ["LBR", "LR", "Liberia"],
+  ["LBY", "LY", "Libia"],
+  ["LIE", "LI", "Liechtenstein"],
+  ["LTU", "LT", "Lituania"],
+  ["LUX", "LU", "Luxemburgo"],
+  ["MAC", "MO", "Macao"],
+  ["MKD", "MK", "Macedonia del Norte"],
+  ["MDG", "MG", "Madagascar"],
+  ["MYS", "MY", "Malasia"],
+  ["MWI", "MW", "Malaui"],
+  ["MDV", "MV", "Maldivas"],
+  ["MLI", "ML", "Malí"],
+  ["MLT", "MT", "Malta"],
+  ["MAR", "MA", "Marruecos"],
+  ["MTQ", "MQ", "Martinica"],
+  ["MUS", "MU", "Mauricio"],
+  ["MRT", "MR", "Mauritania"],
+  ["MYT", "YT", "Mayotte"],
+  ["MEX", "MX", "México"],
+  ["FSM", "FM", "Micronesia"],
+  ["MDA", "MD", "Moldavia"],
+  ["MCO", "MC", "Mónaco"],
+  ["MNG", "MN", "Mongolia"],
+  ["MNE", "ME", "Montenegro"],
+  ["MSR", "MS", "Montserrat"],
+  ["MOZ", "MZ", "Mozambique"],
+  ["MMR", "MM", "Myanmar"],
+  ["NAM", "NA", "Namibia"],
+  ["NRU", "NR", "Nauru"],
+  ["NPL", "NP", "Nepal"],
+  ["NIC", "NI", "Nicaragua"],
+  ["NER", "NE", "Níger"],
+  ["NGA", "NG", "Nigeria"],
+  ["NIU", "NU", "Niue"],
+  ["NOR", "NO", "Noruega"],
+  ["NCL", "NC", "Nueva Caledonia"],
+  ["NZL", "NZ", "Nueva Zelanda"],
+  ["OMN", "OM", "Omán"],
+  ["NLD", "NL", "Países Bajos"],
+  ["PAK", "PK", "Pakistán"],
+  ["PLW", "PW", "Palaos"],
+  ["PSE", "PS", "Palestina"],
+  ["PAN", "PA", "Panamá"],
+  ["PNG", "PG", "Papúa Nueva Guinea"],
+  ["PRY", "PY", "Paraguay"],
+  ["PER", "PE", "Perú"],
+  ["PYF", "PF", "Polinesia Francesa"],
+  ["POL", "PL", "Polonia"],
+  ["PRT", "PT", "Portugal"],
+  ["PRI", "PR", "Puerto Rico"],
+  ["GBR", "GB", "Reino Unido"],
+  ["CAF", "CF", "República Centroafricana"],
+  ["CZE", "CZ", "República Checa"],
+  ["COG", "CG", "República del Congo"],
+  ["COD", "CD", "República Democrática del Congo"],
+  ["DOM", "DO", "República Dominicana"],
+  ["REU", "RE", "Reunión"],
+  ["RWA", "RW", "Ruanda"],
+  ["ROU", "RO", "Rumania"],
+  ["RUS", "RU", "Rusia"],
+  ["ESH", "EH", "Sahara Occidental"],
+  ["WSM", "WS", "Samoa"],
+  ["ASM", "AS", "Samoa Americana"],
+  ["BLM", "BL", "San Bartolomé"],
+  ["KNA", "KN", "San Cristóbal y Nieves"],
+  ["SMR", "SM", "San Marino"],
+  ["MAF", "MF", "San Martín"],
+  ["SPM", "PM", "San Pedro y Miquelón"],
+  ["VCT", "VC", "San Vicente y las Granadinas"],
+  ["SHN", "SH", "Santa Elena, Ascensión y Tristán de Acuña"],
+  ["LCA", "LC", "Santa Lucía"],
+  ["STP", "ST", "Santo Tomé y Príncipe"],
+  ["SEN", "SN", "Senegal"],
+  ["SRB", "RS", "Serbia"],
+  ["SYC", "SC", "Seychelles"],
+  ["SLE", "SL", "Sierra Leona"],
+  ["SGP", "SG", "Singapur"],
+  ["SXM", "SX", "Sint Maarten"],
+  ["SYR", "SY", "Siria"],
+  ["SOM", "SO", "Somalia"],
+  ["LKA", "LK", "Sri Lanka"],
+  ["ZAF", "ZA", "Sudáfrica"],
+  ["SDN", "SD", "Sudán"],
+  ["SSD", "SS", "Sudán del Sur"],
+  ["SWE", "SE", "Suecia"],
+  ["CHE", "CH", "Suiza"],
+  ["SUR", "SR", "Surinam"],
+  ["SJM", "SJ", "Svalbard y Jan Mayen"],
+  ["THA", "TH", "Tailandia"],
+  ["TWN", "TW", "Taiwán"],
+  ["TZA", "TZ", "Tanzania"],
+  ["TJK", "TJ", "Tayikistán"],
+  ["IOT", "IO", "Territorio Británico del Océano Índico"],
+  ["ATF", "TF", "Territorios Australes Franceses"],
+  ["TLS", "TL", "Timor Oriental"],
+  ["TGO", "TG", "Togo"],
+  ["TKL", "TK", "Tokelau"],
+  ["TON", "TO", "Tonga"],
+  ["TTO", "TT", "Trinidad y Tobago"],
+  ["TUN", "TN", "Túnez"],
+  ["TKM", "TM", "Turkmenistán"],
+  ["TUR", "TR", "Turquía"],
+  ["TUV", "TV", "Tuvalu"],
+  ["UKR", "UA", "Ucrania"],
+  ["UGA", "UG", "Uganda"],
+  ["URY", "UY", "Uruguay"],
+  ["UZB", "UZ", "Uzbekistán"],
+  ["VUT", "VU", "Vanuatu"],
+  ["VEN", "VE", "Venezuela"],
+  ["VNM", "VN", "Vietnam"],
+  ["WLF", "WF", "Wallis y Futuna"],
+  ["YEM", "YE", "Yemen"],
+  ["DJI", "DJ", "Yibuti"],
+  ["ZMB", "ZM", "Zambia"],
+  ["ZWE", "ZW", "Zimbabue"],
+];
+
+// Other names customers are often registered with
+const OTROS_NOMBRES: Record<string, string> = {
+  brazil: "BRA",
+  "estados unidos de america": "USA",
+  "united states": "USA",
+  eeuu: "USA",
+  spain: "ESP",
+  germany: "DEU",
+  france: "FRA",
+  italy: "ITA",
+  inglaterra: "GBR",
+  "united kingdom": "GBR",
+  holanda: "NLD",
+  japan: "JPN",
+  corea: "KOR",
+  "republica de corea": "KOR",
+};
+
+const POR_CODIGO = new Map<string, Pais>();
+const POR_NOMBRE = new Map<string, Pais>();
+for (const [alfa3, alfa2, descripcion] of PAISES) {
+  const pais = { codigo: alfa3, descripcion };
+  POR_CODIGO.set(alfa3, pais);
+  POR_CODIGO.set(alfa2, pais);
+  POR_NOMBRE.set(normalizarNombre(descripcion), pais);
+}
+for (const [nombre, codigo] of Object.entries(OTROS_NOMBRES)) {
+  POR_NOMBRE.set(normalizarNombre(nombre), POR_CODIGO.get(codigo)!);
+}
+
+/**
+ * Country of a name or ISO code as typed; null when it is empty or unknown
+ */
+export function resolverPais(pais: string | null | undefined): Pais | null {
+  const valor = pais?.trim();
+  if (!valor) {
+    return null;
+  }
+  if (/^[A-Za-z]{2,3}$/.test(valor)) {
+    const porCodigo = POR_CODIGO.get(valor.toUpperCase());
+    if (porCodigo) {
+      return porCodigo;
+    }
+  }
+  return POR_NOMBRE.get(normalizarNombre(valor)) ?? null;
+}
+
+/**
+ * Whether the country typed for a customer, when there is one, is a known country
+ */
+export function validarPais(pais: string | null | undefined): { success: boolean; error?: string; code?: PaisErrorCode } {
+  if (pais?.trim() && !resolverPais(pais)) {
+    return {
+      success: false,
+      error: `País desconocido: ${pais.trim()}. Ingrese el nombre del país o su código ISO, por ejemplo Francia o FRA`,
+      code: "INVALID_COUNTRY"
+    };
+  }
+  return { success: true };
+}
+
+// Lower case without accents or repeated spaces
+function normalizarNombre(nombre: string): string {
+  return nombre.normalize("NFD").replace(/[\u0300-\u036f]/g, "").toLowerCase().replace(/\s+/g, " ").trim();
+}
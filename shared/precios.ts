@@ -0,0 +1,177 @@
+import type { Service, ServiceCombo, InventoryItem, WorkOrderItem, TasaIva } from "./schema";
+import { liquidarIva, type LiquidacionIva } from "./iva";
+import { aplicarDescuentos, type DescuentoVenta } from "./descuentos";
+
+/**
+ * Sale pricing engine shared by the server and the client
+ * Line prices come from the catalog, never from the request: services, combos and products at their
+ * current price, and the lines of a work order at the price agreed when the order was opened
+ * (the combo price already carries its discount over the separate services). Line and ticket
+ * discounts (shared/descuentos.ts) come off the IVA-included totals. The server prices every sale
+ * with it; SaleDialog uses it for the preview so both always show the same figures.
+ */
+
+export type TipoLineaVenta = "service" | "combo" | "product";
+
+export type PrecioErrorCode = "ITEM_NOT_FOUND" | "ITEM_INACTIVE" | "INVALID_QUANTITY";
+
+// Line as sent by the client; only the item, the quantity and the discount are taken from it
+export interface LineaVenta {
+  type: TipoLineaVenta;
+  id: string;
+  quantity: number;
+  descuento?: DescuentoVenta | null;
+}
+
+export interface CatalogoPrecios {
+  services: Pick<Service, "id" | "nombre" | "precio" | "tasaIva" | "activo">[];
+  combos: Pick<ServiceCombo, "id" | "nombre" | "precioTotal" | "tasaIva" | "activo">[];
+  inventoryItems: Pick<InventoryItem, "id" | "nombre" | "precio" | "tasaIva" | "activo">[];
+  workOrderItems?: Pick<WorkOrderItem, "serviceId" | "comboId" | "precio">[];
+}
+
+export interface LineaCotizada {
+  type: TipoLineaVenta;
+  id: string;
+  nombre: string;
+  precioUnitario: number; // Net of IVA
+  cantidad: number;
+  subtotal: number; // Net of IVA, before discounts
+  tasaIva: TasaIva;
+  totalBruto: number; // IVA included, before discounts
+  detalleDescuento: DescuentoVenta | null;
+  descuentoLinea: number; // IVA included
+  descuentoGlobal: number; // Share of the ticket discount, IVA included
+  descuento: number; // Line and ticket discounts, as liquidarIva takes them
+}
+
+export interface CotizacionVenta extends LiquidacionIva {
+  lineas: LineaCotizada[];
+  totalBruto: number; // IVA included, before discounts
+  detalleDescuento: DescuentoVenta | null; // Ticket discount
+  descuentoGlobal: number;
+  descuentoTotal: number;
+}
+
+/**
+ * Price the lines of a sale, apply its discounts and liquidate its IVA (every line exento under
+ * régimen de turismo)
+ */
+export function cotizarVenta(
+  lineas: LineaVenta[],
+  catalogo: CatalogoPrecios,
+  opciones: { regimenTurismo: boolean; descuento?: DescuentoVenta | null }
+): { success: boolean; cotizacion?: CotizacionVenta; error?: string; code?: PrecioErrorCode } {
+  const cotizadas: LineaCotizada[] = [];
+
+  for (const linea of lineas) {
+    if (!Number.isInteger(linea.quantity) || linea.quantity <= 0) {
+      return {
+        success: false,
+        error: "La cantidad de cada ítem debe ser un número entero mayor a cero",
+        code: "INVALID_QUANTITY"
+      };
+    }
+
+    const item = buscarItem(linea, catalogo);
+    if (!item) {
+      return {
+        success: false,
+        error: "Uno de los ítems de la venta no existe en el catálogo",
+        code: "ITEM_NOT_FOUND"
+      };
+    }
+
+    // Lines agreed on a work order are invoiced even if the item was deactivated since
+    const acordado = precioAcordado(linea, catalogo);
+    if (!item.activo && acordado === undefined) {
+      return {
+        success: false,
+        error: `"${item.nombre}" está inactivo y no puede facturarse`,
+        code: "ITEM_INACTIVE"
+      };
+    }
+
+    const precioUnitario = Math.round(parseFloat(acordado ?? item.precio));
+    cotizadas.push({
+      type: linea.type,
+      id: linea.id,
+      nombre: item.nombre,
+      precioUnitario,
+      cantidad: linea.quantity,
+      subtotal: precioUnitario * linea.quantity,
+      tasaIva: opciones.regimenTurismo ? 0 : item.tasaIva ?? 10,
+      totalBruto: 0,
+      detalleDescuento: linea.descuento ?? null,
+      descuentoLinea: 0,
+      descuentoGlobal: 0,
+      descuento: 0
+    });
+  }
+
+  const descuentos = aplicarDescuentos(cotizadas.map(linea => ({ ...linea, descuento: linea.detalleDescuento })), opciones.descuento);
+  descuentos.lineas.forEach((montos, index) => {
+    const linea = cotizadas[index];
+    Object.assign(linea, montos, { descuento: montos.descuentoLinea + montos.descuentoGlobal });
+    if (montos.descuentoLinea === 0) linea.detalleDescuento = null;
+  });
+
+  return {
+    success: true,
+    cotizacion: {
+      lineas: cotizadas,
+      ...liquidarIva(cotizadas),
+      totalBruto: descuentos.totalBruto,
+      detalleDescuento: descuentos.descuentoGlobal > 0 ? opciones.descuento ?? null : null,
+      descuentoGlobal: descuentos.descuentoGlobal,
+      descuentoTotal: descuentos.descuentoTotal
+    }
+  };
+}
+
+/**
+ * Whether the prices or totals a client computed differ from the quotation
+ */
+export function difiereDeCotizacion(
+  cotizacion: CotizacionVenta,
+  enviada: {
+    items?: { price?: number }[];
+    subtotal?: string | number;
+    impuestos?: string | number;
+    total?: string | number;
+  }
+): boolean {
+  const difiere = (enviado: string | number | undefined, esperado: number) =>
+    enviado !== undefined && Math.round(Number(enviado)) !== esperado;
+
+  return (enviada.items ?? []).some((item, index) => difiere(item.price, cotizacion.lineas[index].precioUnitario)) ||
+    difiere(enviada.subtotal, cotizacion.subtotal) ||
+    difiere(enviada.impuestos, cotizacion.impuestos) ||
+    difiere(enviada.total, cotizacion.total);
+}
+
+// ========================
+// HELPERS
+// ========================
+
+function buscarItem(
+  linea: LineaVenta,
+  catalogo: CatalogoPrecios
+): { nombre: string; precio: string; tasaIva: TasaIva; activo: boolean } | undefined {
+  if (linea.type === "service") {
+    return catalogo.services.find(service => service.id === linea.id);
+  }
+  if (linea.type === "combo") {
+    const combo = catalogo.combos.find(c => c.id === linea.id);
+    return combo && { nombre: combo.nombre, precio: combo.precioTotal, tasaIva: combo.tasaIva, activo: combo.activo };
+  }
+  return catalogo.inventoryItems.find(item => item.id === linea.id);
+}
+
+function precioAcordado(linea: LineaVenta, catalogo: CatalogoPrecios): string | undefined {
+  const item = catalogo.workOrderItems?.find(workOrderItem =>
+    (linea.type === "service" && workOrderItem.serviceId === linea.id) ||
+    (linea.type === "combo" && workOrderItem.comboId === linea.id)
+  );
+  return item?.precio;
+}
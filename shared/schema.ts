@@ -1,6 +1,8 @@
 import { z } from "zod";
-import { pgTable, varchar, text, integer, boolean, timestamp, decimal, pgEnum } from "drizzle-orm/pg-core";
+import { pgTable, varchar, text, integer, boolean, timestamp, decimal, pgEnum, uniqueIndex } from "drizzle-orm/pg-core";
 import { sql } from "drizzle-orm";
+import { validarDocumento } from "./documentos";
+import { validarPais } from "./paises";
 
 /**
  * PostgreSQL TABLE DEFINITIONS WITH DRIZZLE ORM
@@ -18,6 +20,19 @@ export const workOrderEstadoEnum = pgEnum("work_order_estado", ["recibido", "en_
 export const inventoryAlertaEnum = pgEnum("inventory_alerta", ["normal", "bajo", "critico"]);
 export const medioPagoEnum = pgEnum("medio_pago", ["efectivo", "tarjeta_credito", "tarjeta_debito", "transferencia", "cheque"]);
 export const operationModeEnum = pgEnum("operation_mode", ["testing", "production"]);
+export const sifenEstadoEnum = pgEnum("sifen_estado", ["pendiente", "enviado", "aprobado", "rechazado"]);
+export const sifenLoteEstadoEnum = pgEnum("sifen_lote_estado", ["pendiente", "enviado", "procesado", "error"]);
+export const sifenEventoTipoEnum = pgEnum("sifen_evento_tipo", ["cancelacion", "inutilizacion"]);
+export const sifenEventoEstadoEnum = pgEnum("sifen_evento_estado", ["pendiente", "aprobado", "rechazado"]);
+export const notaCreditoMotivoEnum = pgEnum("nota_credito_motivo", ["devolucion_ajuste", "devolucion", "descuento", "bonificacion", "credito_incobrable", "ajuste_precio"]);
+export const notaDebitoMotivoEnum = pgEnum("nota_debito_motivo", ["recupero_costo", "recupero_gasto", "ajuste_precio"]);
+export const timbradoEstadoEnum = pgEnum("timbrado_estado", ["vigente", "proximo", "finalizado"]);
+export const condicionVentaEnum = pgEnum("condicion_venta", ["contado", "credito"]);
+export const sesionCajaEstadoEnum = pgEnum("sesion_caja_estado", ["abierta", "cerrada"]);
+export const movimientoCajaTipoEnum = pgEnum("movimiento_caja_tipo", ["ingreso", "retiro", "gasto"]);
+export const movimientoStockTipoEnum = pgEnum("movimiento_stock_tipo", ["inicial", "compra", "venta", "devolucion", "consumo_servicio", "ajuste", "conteo"]);
+export const descuentoTipoEnum = pgEnum("descuento_tipo", ["porcentaje", "monto"]);
+export const motivoDescuentoEnum = pgEnum("motivo_descuento", ["promocion", "cliente_frecuente", "reclamo", "empleado", "redondeo", "otro"]);
 
 // ====================================
 // PostgreSQL TABLE DEFINITIONS
@@ -41,6 +56,10 @@ export const users = pgTable("users", {
   lastLogin: timestamp("last_login"),
   failedLoginAttempts: integer("failed_login_attempts").notNull().default(0),
   lastFailedLogin: timestamp("last_failed_login"),
+  puntoExpedicionId: varchar("punto_expedicion_id", { length: 36 }), // Cash register the user invoices from
+  pinAutorizacion: text("pin_autorizacion"), // Hashed PIN an admin enters to authorize discounts above the cashier's maximum
+  failedPinAttempts: integer("failed_pin_attempts").notNull().default(0), // Wrong admin PINs entered by this cashier in a row
+  lastFailedPin: timestamp("last_failed_pin"),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`),
   createdBy: varchar("created_by", { length: 36 })
@@ -63,6 +82,9 @@ export const companyConfigs = pgTable("company_configs", {
   email: varchar("email", { length: 255 }),
   logoPath: text("logo_path"),
   moneda: varchar("moneda", { length: 10 }).notNull().default("GS"),
+  permitirStockNegativo: boolean("permitir_stock_negativo").notNull().default(false), // Sell products beyond the stock on hand
+  descuentoMaximoUser: integer("descuento_maximo_user").notNull().default(10), // Largest discount (%) a cashier gives without authorization
+  descuentoMaximoAdmin: integer("descuento_maximo_admin").notNull().default(100), // Largest discount (%) an admin gives or authorizes
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
 });
@@ -74,6 +96,8 @@ export const dnitConfigs = pgTable("dnit_configs", {
   authToken: text("auth_token").notNull(),
   certificateData: text("certificate_data"),
   certificatePassword: text("certificate_password"),
+  idCsc: varchar("id_csc", { length: 4 }),
+  csc: text("csc"),
   operationMode: operationModeEnum("operation_mode").notNull().default("testing"),
   isActive: boolean("is_active").notNull().default(false),
   lastConnectionTest: timestamp("last_connection_test"),
@@ -83,6 +107,91 @@ export const dnitConfigs = pgTable("dnit_configs", {
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
 });
 
+// Establecimientos table (locations; the code is the first block of every document number)
+export const establecimientos = pgTable("establecimientos", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  codigo: varchar("codigo", { length: 3 }).notNull().unique(),
+  nombre: text("nombre").notNull(),
+  direccion: text("direccion").notNull(),
+  ciudad: text("ciudad").notNull(),
+  telefono: varchar("telefono", { length: 50 }),
+  activo: boolean("activo").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
+// Puntos de expedición table (cash registers of an establecimiento, each with its own numbering)
+export const puntosExpedicion = pgTable("puntos_expedicion", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  establecimientoId: varchar("establecimiento_id", { length: 36 }).notNull().references(() => establecimientos.id),
+  codigo: varchar("codigo", { length: 3 }).notNull(),
+  descripcion: text("descripcion").notNull(),
+  activo: boolean("activo").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
+// Currencies table (foreign currencies accepted in sales; guaraníes are the base currency)
+export const monedas = pgTable("monedas", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  codigo: varchar("codigo", { length: 3 }).notNull().unique(), // ISO 4217, e.g. "USD"
+  nombre: text("nombre").notNull(),
+  simbolo: varchar("simbolo", { length: 10 }).notNull(),
+  decimales: integer("decimales").notNull().default(2),
+  activo: boolean("activo").notNull().default(true),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
+// Exchange rates table (guaraníes per unit of a currency, one rate per currency and day)
+export const tiposCambio = pgTable("tipos_cambio", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  moneda: varchar("moneda", { length: 3 }).notNull(),
+  fecha: varchar("fecha", { length: 10 }).notNull(), // YYYY-MM-DD
+  tasa: decimal("tasa", { precision: 12, scale: 2 }).notNull(),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+}, (table) => [
+  uniqueIndex("tipos_cambio_moneda_fecha_idx").on(table.moneda, table.fecha)
+]);
+
+// Timbrados table (registry of authorized timbrados, the vigente one is mirrored in company_configs)
+export const timbrados = pgTable("timbrados", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  numero: varchar("numero", { length: 50 }).notNull(),
+  fechaInicio: varchar("fecha_inicio", { length: 10 }).notNull(),
+  fechaFin: varchar("fecha_fin", { length: 10 }).notNull(),
+  estado: timbradoEstadoEnum("estado").notNull().default("proximo"),
+  motivoFinalizacion: text("motivo_finalizacion"),
+  fechaFinalizacion: timestamp("fecha_finalizacion"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
+// Timbrado number ranges (authorized invoice numbers per establecimiento/punto de expedición)
+export const timbradoRangos = pgTable("timbrado_rangos", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  timbradoId: varchar("timbrado_id", { length: 36 }).notNull().references(() => timbrados.id),
+  establecimiento: varchar("establecimiento", { length: 3 }).notNull(),
+  puntoExpedicion: varchar("punto_expedicion", { length: 3 }).notNull(),
+  numeroInicial: integer("numero_inicial").notNull(),
+  numeroFinal: integer("numero_final").notNull()
+});
+
+// Document number sequences (last number reserved per document type, timbrado and punto de expedición)
+export const documentSequences = pgTable("document_sequences", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  tipoDocumento: integer("tipo_documento").notNull(), // iTiDE: 1 factura, 5 nota de crédito, 6 nota de débito
+  timbrado: varchar("timbrado", { length: 50 }).notNull(),
+  establecimiento: varchar("establecimiento", { length: 3 }).notNull(),
+  puntoExpedicion: varchar("punto_expedicion", { length: 3 }).notNull(),
+  ultimoNumero: integer("ultimo_numero").notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+}, (table) => [
+  uniqueIndex("document_sequences_key_idx").on(table.tipoDocumento, table.timbrado, table.establecimiento, table.puntoExpedicion)
+]);
+
 // Categories table
 export const categories = pgTable("categories", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -112,6 +221,16 @@ export const customers = pgTable("customers", {
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
 });
 
+// RUC padrón table (local copy of the DNIT taxpayer registry for offline lookups)
+export const padronRuc = pgTable("padron_ruc", {
+  ruc: varchar("ruc", { length: 8 }).primaryKey(), // Without the verification digit
+  dv: varchar("dv", { length: 1 }).notNull(),
+  razonSocial: text("razon_social").notNull(),
+  rucAnterior: varchar("ruc_anterior", { length: 20 }),
+  estado: varchar("estado", { length: 30 }).notNull(),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
 // Vehicles table
 export const vehicles = pgTable("vehicles", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
@@ -131,6 +250,7 @@ export const services = pgTable("services", {
   nombre: varchar("nombre", { length: 255 }).notNull(),
   descripcion: text("descripcion"),
   precio: decimal("precio", { precision: 10, scale: 2 }).notNull(),
+  tasaIva: integer("tasa_iva").notNull().default(10), // 10, 5 or 0 (exento)
   duracionMin: integer("duracion_min").notNull(),
   categoria: varchar("categoria", { length: 255 }).notNull(),
   activo: boolean("activo").notNull().default(true),
@@ -144,6 +264,7 @@ export const serviceCombos = pgTable("service_combos", {
   nombre: varchar("nombre", { length: 255 }).notNull(),
   descripcion: text("descripcion"),
   precioTotal: decimal("precio_total", { precision: 10, scale: 2 }).notNull(),
+  tasaIva: integer("tasa_iva").notNull().default(10),
   activo: boolean("activo").notNull().default(true),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
@@ -190,6 +311,7 @@ export const inventoryItems = pgTable("inventory_items", {
   nombre: varchar("nombre", { length: 255 }).notNull(),
   descripcion: text("descripcion"),
   precio: decimal("precio", { precision: 10, scale: 2 }).notNull(),
+  tasaIva: integer("tasa_iva").notNull().default(10),
   stockActual: integer("stock_actual").notNull().default(0),
   stockMinimo: integer("stock_minimo").notNull().default(0),
   unidadMedida: varchar("unidad_medida", { length: 50 }).notNull().default("unidad"),
@@ -202,19 +324,87 @@ export const inventoryItems = pgTable("inventory_items", {
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
 });
 
+// SIFEN lotes table (asynchronous batches of electronic documents)
+export const sifenLotes = pgTable("sifen_lotes", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  protocolo: varchar("protocolo", { length: 50 }),
+  estado: sifenLoteEstadoEnum("estado").notNull().default("pendiente"),
+  cantidadDocumentos: integer("cantidad_documentos").notNull().default(0),
+  intentos: integer("intentos").notNull().default(0),
+  proximoIntento: timestamp("proximo_intento").notNull().default(sql`now()`),
+  ultimoError: text("ultimo_error"),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+});
+
 // Sales table
 export const sales = pgTable("sales", {
   id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
-  numeroFactura: varchar("numero_factura", { length: 50 }).notNull().unique(),
+  numeroFactura: varchar("numero_factura", { length: 50 }).notNull(),
   customerId: varchar("customer_id", { length: 36 }).references(() => customers.id),
   workOrderId: varchar("work_order_id", { length: 36 }).references(() => workOrders.id),
   fecha: timestamp("fecha").notNull().default(sql`now()`),
   subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
   impuestos: decimal("impuestos", { precision: 10, scale: 2 }).notNull().default("0"),
   total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  // Liquidación per IVA rate; gravadas and exentas IVA included, as printed on the invoice
+  gravadas10: decimal("gravadas_10", { precision: 10, scale: 2 }).notNull().default("0"),
+  gravadas5: decimal("gravadas_5", { precision: 10, scale: 2 }).notNull().default("0"),
+  exentas: decimal("exentas", { precision: 10, scale: 2 }).notNull().default("0"),
+  iva10: decimal("iva_10", { precision: 10, scale: 2 }).notNull().default("0"),
+  iva5: decimal("iva_5", { precision: 10, scale: 2 }).notNull().default("0"),
+  // Ticket discount, prorated over the lines; descuentoTotal adds the line discounts (IVA included)
+  descuentoGlobal: decimal("descuento_global", { precision: 10, scale: 2 }).notNull().default("0"),
+  descuentoGlobalTipo: descuentoTipoEnum("descuento_global_tipo"),
+  descuentoGlobalValor: decimal("descuento_global_valor", { precision: 10, scale: 2 }), // Percentage or guaraníes as entered
+  motivoDescuentoGlobal: motivoDescuentoEnum("motivo_descuento_global"),
+  descuentoTotal: decimal("descuento_total", { precision: 10, scale: 2 }).notNull().default("0"),
+  descuentoAutorizadoPor: varchar("descuento_autorizado_por", { length: 36 }).references(() => users.id), // Admin whose PIN allowed a discount above the cashier's maximum
   medioPago: medioPagoEnum("medio_pago").notNull(),
+  condicionVenta: condicionVentaEnum("condicion_venta").notNull().default("contado"),
+  fechaVencimiento: timestamp("fecha_vencimiento"), // Due date of credit sales
+  moneda: varchar("moneda", { length: 3 }).notNull().default("PYG"), // Currency the sale was priced or paid in
+  tipoCambio: decimal("tipo_cambio", { precision: 12, scale: 2 }), // Guaraníes per unit of the foreign currency
+  totalMoneda: decimal("total_moneda", { precision: 14, scale: 2 }), // Total in the foreign currency
   regimenTurismo: boolean("regimen_turismo").notNull().default(false),
+  sesionCajaId: varchar("sesion_caja_id", { length: 36 }).references(() => sesionesCaja.id), // Cash session the sale was collected in
   timbradoUsado: varchar("timbrado_usado", { length: 50 }).notNull(),
+  cdc: varchar("cdc", { length: 44 }).unique(),
+  sifenEstado: sifenEstadoEnum("sifen_estado").notNull().default("pendiente"),
+  sifenLoteId: varchar("sifen_lote_id", { length: 36 }).references(() => sifenLotes.id),
+  sifenProtocolo: varchar("sifen_protocolo", { length: 50 }),
+  sifenMensajes: text("sifen_mensajes"),
+  anulada: boolean("anulada").notNull().default(false),
+  motivoAnulacion: text("motivo_anulacion"),
+  fechaAnulacion: timestamp("fecha_anulacion"),
+  anuladaPor: varchar("anulada_por", { length: 36 }).references(() => users.id),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+}, (table) => [
+  // Numbering restarts with every timbrado
+  uniqueIndex("sales_numero_timbrado_idx").on(table.numeroFactura, table.timbradoUsado)
+]);
+
+// SIFEN events table (cancelación of approved documents, inutilización of number ranges)
+export const sifenEventos = pgTable("sifen_eventos", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  tipo: sifenEventoTipoEnum("tipo").notNull(),
+  saleId: varchar("sale_id", { length: 36 }).references(() => sales.id),
+  cdc: varchar("cdc", { length: 44 }),
+  timbrado: varchar("timbrado", { length: 50 }),
+  establecimiento: varchar("establecimiento", { length: 3 }),
+  puntoExpedicion: varchar("punto_expedicion", { length: 3 }),
+  tipoDocumento: integer("tipo_documento").notNull().default(1),
+  numeroDesde: integer("numero_desde"),
+  numeroHasta: integer("numero_hasta"),
+  motivo: text("motivo").notNull(),
+  estado: sifenEventoEstadoEnum("estado").notNull().default("pendiente"),
+  protocolo: varchar("protocolo", { length: 50 }),
+  mensajes: text("mensajes"),
+  intentos: integer("intentos").notNull().default(0),
+  proximoIntento: timestamp("proximo_intento").notNull().default(sql`now()`),
+  ultimoError: text("ultimo_error"),
   createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
   createdAt: timestamp("created_at").notNull().default(sql`now()`),
   updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
@@ -230,9 +420,174 @@ export const saleItems = pgTable("sale_items", {
   nombre: varchar("nombre", { length: 255 }).notNull(),
   cantidad: integer("cantidad").notNull().default(1),
   precioUnitario: decimal("precio_unitario", { precision: 10, scale: 2 }).notNull(),
-  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull()
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(), // Before discounts
+  tasaIva: integer("tasa_iva").notNull().default(10), // Rate applied when the document was issued
+  // Line discount and the share of the ticket discount, IVA included
+  descuento: decimal("descuento", { precision: 10, scale: 2 }).notNull().default("0"),
+  descuentoTipo: descuentoTipoEnum("descuento_tipo"),
+  descuentoValor: decimal("descuento_valor", { precision: 10, scale: 2 }), // Percentage or guaraníes as entered
+  motivoDescuento: motivoDescuentoEnum("motivo_descuento"),
+  descuentoGlobal: decimal("descuento_global", { precision: 10, scale: 2 }).notNull().default("0")
 });
 
+// Sale payments table (a cash sale can be paid with several methods)
+export const salePagos = pgTable("sale_pagos", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  saleId: varchar("sale_id", { length: 36 }).notNull().references(() => sales.id),
+  medioPago: medioPagoEnum("medio_pago").notNull(),
+  monto: decimal("monto", { precision: 10, scale: 2 }).notNull(), // Applied to the sale, change excluded
+  vuelto: decimal("vuelto", { precision: 10, scale: 2 }).notNull().default("0"), // Change given back on cash
+  marcaTarjeta: varchar("marca_tarjeta", { length: 30 }),
+  ultimos4: varchar("ultimos_4", { length: 4 }),
+  referencia: varchar("referencia", { length: 50 }) // Transfer reference or cheque number
+});
+
+// Credit notes table (Nota de Crédito electrónica referencing an issued invoice)
+export const notasCredito = pgTable("notas_credito", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  numero: varchar("numero", { length: 50 }).notNull(),
+  saleId: varchar("sale_id", { length: 36 }).notNull().references(() => sales.id),
+  customerId: varchar("customer_id", { length: 36 }).references(() => customers.id),
+  fecha: timestamp("fecha").notNull().default(sql`now()`),
+  motivo: notaCreditoMotivoEnum("motivo").notNull(),
+  descripcion: text("descripcion").notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  impuestos: decimal("impuestos", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  timbradoUsado: varchar("timbrado_usado", { length: 50 }).notNull(),
+  cdc: varchar("cdc", { length: 44 }).unique(),
+  sifenEstado: sifenEstadoEnum("sifen_estado").notNull().default("pendiente"),
+  sifenLoteId: varchar("sifen_lote_id", { length: 36 }).references(() => sifenLotes.id),
+  sifenProtocolo: varchar("sifen_protocolo", { length: 50 }),
+  sifenMensajes: text("sifen_mensajes"),
+  reembolsoEfectivo: decimal("reembolso_efectivo", { precision: 10, scale: 2 }).notNull().default("0"), // Cash given back to the customer
+  sesionCajaId: varchar("sesion_caja_id", { length: 36 }).references(() => sesionesCaja.id), // Cash session the refund was paid out of
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+}, (table) => [
+  uniqueIndex("notas_credito_numero_timbrado_idx").on(table.numero, table.timbradoUsado)
+]);
+
+// Credit note items table
+export const notaCreditoItems = pgTable("nota_credito_items", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  notaCreditoId: varchar("nota_credito_id", { length: 36 }).notNull().references(() => notasCredito.id),
+  saleItemId: varchar("sale_item_id", { length: 36 }).references(() => saleItems.id),
+  nombre: varchar("nombre", { length: 255 }).notNull(),
+  cantidad: integer("cantidad").notNull().default(1),
+  precioUnitario: decimal("precio_unitario", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  tasaIva: integer("tasa_iva").notNull().default(10)
+});
+
+// Debit notes table (Nota de Débito electrónica referencing an issued invoice)
+export const notasDebito = pgTable("notas_debito", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  numero: varchar("numero", { length: 50 }).notNull(),
+  saleId: varchar("sale_id", { length: 36 }).notNull().references(() => sales.id),
+  customerId: varchar("customer_id", { length: 36 }).references(() => customers.id),
+  fecha: timestamp("fecha").notNull().default(sql`now()`),
+  motivo: notaDebitoMotivoEnum("motivo").notNull(),
+  descripcion: text("descripcion").notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  impuestos: decimal("impuestos", { precision: 10, scale: 2 }).notNull().default("0"),
+  total: decimal("total", { precision: 10, scale: 2 }).notNull(),
+  timbradoUsado: varchar("timbrado_usado", { length: 50 }).notNull(),
+  cdc: varchar("cdc", { length: 44 }).unique(),
+  sifenEstado: sifenEstadoEnum("sifen_estado").notNull().default("pendiente"),
+  sifenLoteId: varchar("sifen_lote_id", { length: 36 }).references(() => sifenLotes.id),
+  sifenProtocolo: varchar("sifen_protocolo", { length: 50 }),
+  sifenMensajes: text("sifen_mensajes"),
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`),
+  updatedAt: timestamp("updated_at").notNull().default(sql`now()`)
+}, (table) => [
+  uniqueIndex("notas_debito_numero_timbrado_idx").on(table.numero, table.timbradoUsado)
+]);
+
+// Debit note items table
+export const notaDebitoItems = pgTable("nota_debito_items", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  notaDebitoId: varchar("nota_debito_id", { length: 36 }).notNull().references(() => notasDebito.id),
+  serviceId: varchar("service_id", { length: 36 }).references(() => services.id),
+  nombre: varchar("nombre", { length: 255 }).notNull(),
+  cantidad: integer("cantidad").notNull().default(1),
+  precioUnitario: decimal("precio_unitario", { precision: 10, scale: 2 }).notNull(),
+  subtotal: decimal("subtotal", { precision: 10, scale: 2 }).notNull(),
+  tasaIva: integer("tasa_iva").notNull().default(10)
+});
+
+// Receipts table (recibos de dinero for payments of credit sales)
+export const recibos = pgTable("recibos", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  numero: integer("numero").notNull().unique(),
+  customerId: varchar("customer_id", { length: 36 }).notNull().references(() => customers.id),
+  fecha: timestamp("fecha").notNull().default(sql`now()`),
+  monto: decimal("monto", { precision: 10, scale: 2 }).notNull(),
+  medioPago: medioPagoEnum("medio_pago").notNull(),
+  referencia: varchar("referencia", { length: 100 }), // Transfer, cheque or voucher number
+  observaciones: text("observaciones"),
+  sesionCajaId: varchar("sesion_caja_id", { length: 36 }).references(() => sesionesCaja.id), // Cash session the receipt was collected in
+  createdBy: varchar("created_by", { length: 36 }).references(() => users.id),
+  createdAt: timestamp("created_at").notNull().default(sql`now()`)
+});
+
+// Receipt allocations table (amount of a receipt applied to each credit invoice)
+export const reciboAplicaciones = pgTable("recibo_aplicaciones", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  reciboId: varchar("recibo_id", { length: 36 }).notNull().references(() => recibos.id),
+  saleId: varchar("sale_id", { length: 36 }).notNull().references(() => sales.id),
+  monto: decimal("monto", { precision: 10, scale: 2 }).notNull()
+});
+
+// Cash sessions table (shifts of a cashier at a punto de expedición, from the opening float to the count)
+export const sesionesCaja = pgTable("sesiones_caja", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  userId: varchar("user_id", { length: 36 }).notNull().references(() => users.id),
+  puntoExpedicionId: varchar("punto_expedicion_id", { length: 36 }).notNull().references(() => puntosExpedicion.id),
+  estado: sesionCajaEstadoEnum("estado").notNull().default("abierta"),
+  montoInicial: decimal("monto_inicial", { precision: 10, scale: 2 }).notNull(), // Opening float
+  fechaApertura: timestamp("fecha_apertura").notNull().default(sql`now()`),
+  fechaCierre: timestamp("fecha_cierre"),
+  efectivoEsperado: decimal("efectivo_esperado", { precision: 10, scale: 2 }), // Cash that should be in the drawer at closing
+  efectivoContado: decimal("efectivo_contado", { precision: 10, scale: 2 }),
+  diferencia: decimal("diferencia", { precision: 10, scale: 2 }), // Counted minus expected: over when positive, short when negative
+  conteo: text("conteo"), // JSON with the quantity counted per denomination
+  observaciones: text("observaciones"),
+  cerradaPor: varchar("cerrada_por", { length: 36 }).references(() => users.id)
+}, (table) => [
+  // A punto de expedición has one open session at a time
+  uniqueIndex("sesiones_caja_abierta_idx").on(table.puntoExpedicionId).where(sql`${table.estado} = 'abierta'`)
+]);
+
+// Cash movements table (money put in or taken out of the drawer outside sales)
+export const movimientosCaja = pgTable("movimientos_caja", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  sesionId: varchar("sesion_id", { length: 36 }).notNull().references(() => sesionesCaja.id),
+  tipo: movimientoCajaTipoEnum("tipo").notNull(),
+  monto: decimal("monto", { precision: 10, scale: 2 }).notNull(),
+  concepto: text("concepto").notNull(),
+  userId: varchar("user_id", { length: 36 }).references(() => users.id),
+  fecha: timestamp("fecha").notNull().default(sql`now()`)
+});
+
+// Stock movements table (append-only ledger; the stock of a product is the sum of its movements)
+export const movimientosStock = pgTable("movimientos_stock", {
+  id: varchar("id", { length: 36 }).primaryKey().default(sql`gen_random_uuid()`),
+  inventoryItemId: varchar("inventory_item_id", { length: 36 }).notNull().references(() => inventoryItems.id),
+  tipo: movimientoStockTipoEnum("tipo").notNull(),
+  cantidad: integer("cantidad").notNull(), // Units in when positive, out when negative
+  motivo: text("motivo"),
+  referencia: varchar("referencia", { length: 100 }), // Invoice, credit note or supplier document number
+  saleId: varchar("sale_id", { length: 36 }).references(() => sales.id),
+  userId: varchar("user_id", { length: 36 }).references(() => users.id),
+  fecha: timestamp("fecha").notNull().default(sql`now()`)
+}, (table) => [
+  // A product ledger is opened once
+  uniqueIndex("movimientos_stock_inicial_idx").on(table.inventoryItemId).where(sql`${table.tipo} = 'inicial'`)
+]);
+
 // ========================
 // USER MANAGEMENT TYPES
 // ========================
@@ -267,6 +622,16 @@ export interface User {
   failedLoginAttempts: number;
   lastFailedLogin: Date | null;
   
+  // Punto de expedición the user invoices from (null = the one in CompanyConfig)
+  puntoExpedicionId: string | null;
+  
+  // Hashed PIN an admin enters to authorize discounts above the cashier's maximum
+  pinAutorizacion: string | null;
+  
+  // Wrong admin PINs entered by this user in a row; overrides lock for a while after too many
+  failedPinAttempts: number;
+  lastFailedPin: Date | null;
+  
   // Audit fields
   createdAt: Date;
   updatedAt: Date;
@@ -284,6 +649,7 @@ export interface InsertUser {
   expirationDate?: Date | null;
   isActive?: boolean;
   isBlocked?: boolean;
+  puntoExpedicionId?: string | null;
   createdBy?: string | null;
 }
 
@@ -303,6 +669,10 @@ export interface InternalUpdateUser {
   lastLogin?: Date | null;
   failedLoginAttempts?: number;
   lastFailedLogin?: Date | null;
+  puntoExpedicionId?: string | null;
+  pinAutorizacion?: string | null; // Already hashed
+  failedPinAttempts?: number;
+  lastFailedPin?: Date | null;
   updatedAt?: Date;
 }
 
@@ -326,6 +696,9 @@ export interface CompanyConfig {
   email: string | null;
   logoPath: string | null;
   moneda: string;
+  permitirStockNegativo: boolean;
+  descuentoMaximoUser: number; // Percentage
+  descuentoMaximoAdmin: number; // Percentage
   createdAt: Date;
   updatedAt: Date;
 }
@@ -345,6 +718,9 @@ export interface InsertCompanyConfig {
   email?: string | null;
   logoPath?: string | null;
   moneda?: string;
+  permitirStockNegativo?: boolean;
+  descuentoMaximoUser?: number;
+  descuentoMaximoAdmin?: number;
 }
 
 // ========================
@@ -357,6 +733,8 @@ export interface DnitConfig {
   authToken: string; // Encrypted in storage
   certificateData: string | null;
   certificatePassword: string | null; // Encrypted in storage
+  idCsc: string | null; // Código de Seguridad del Contribuyente identifier
+  csc: string | null; // Encrypted in storage
   operationMode: "testing" | "production";
   isActive: boolean;
   lastConnectionTest: Date | null;
@@ -371,6 +749,8 @@ export interface InsertDnitConfig {
   authToken: string;
   certificateData?: string | null;
   certificatePassword?: string | null;
+  idCsc?: string | null;
+  csc?: string | null;
   operationMode?: "testing" | "production";
   isActive?: boolean;
 }
@@ -380,6 +760,8 @@ export interface UpdateDnitConfig {
   authToken?: string;
   certificateData?: string | null;
   certificatePassword?: string | null;
+  idCsc?: string | null;
+  csc?: string | null;
   operationMode?: "testing" | "production";
   isActive?: boolean;
   lastConnectionTest?: Date | null;
@@ -387,6 +769,148 @@ export interface UpdateDnitConfig {
   lastConnectionError?: string | null;
 }
 
+// ========================
+// ESTABLECIMIENTO TYPES
+// ========================
+
+export interface Establecimiento {
+  id: string;
+  codigo: string; // 3 digits, e.g. "001"
+  nombre: string;
+  direccion: string;
+  ciudad: string;
+  telefono: string | null;
+  activo: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertEstablecimiento {
+  codigo: string;
+  nombre: string;
+  direccion: string;
+  ciudad: string;
+  telefono?: string | null;
+  activo?: boolean;
+}
+
+export interface PuntoExpedicion {
+  id: string;
+  establecimientoId: string;
+  codigo: string; // 3 digits, e.g. "001"
+  descripcion: string; // e.g. "Caja 1"
+  activo: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertPuntoExpedicion {
+  establecimientoId: string;
+  codigo: string;
+  descripcion: string;
+  activo?: boolean;
+}
+
+// ========================
+// CURRENCY TYPES
+// ========================
+
+export interface Moneda {
+  id: string;
+  codigo: string; // ISO 4217, e.g. "USD"
+  nombre: string;
+  simbolo: string;
+  decimales: number;
+  activo: boolean;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertMoneda {
+  codigo: string;
+  nombre: string;
+  simbolo: string;
+  decimales?: number;
+  activo?: boolean;
+}
+
+export interface TipoCambio {
+  id: string;
+  moneda: string; // Currency code
+  fecha: string; // YYYY-MM-DD
+  tasa: string; // Guaraníes per unit, decimal as string for precision
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertTipoCambio {
+  moneda: string;
+  fecha: string;
+  tasa: string;
+  createdBy?: string | null;
+}
+
+// ========================
+// TIMBRADO TYPES
+// ========================
+
+export interface Timbrado {
+  id: string;
+  numero: string;
+  fechaInicio: string; // YYYY-MM-DD
+  fechaFin: string; // YYYY-MM-DD
+  estado: "vigente" | "proximo" | "finalizado";
+  motivoFinalizacion: string | null; // Why it stopped being used (vencido, rango agotado, reemplazado)
+  fechaFinalizacion: Date | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertTimbrado {
+  numero: string;
+  fechaInicio: string;
+  fechaFin: string;
+  estado?: "vigente" | "proximo" | "finalizado";
+  motivoFinalizacion?: string | null;
+  fechaFinalizacion?: Date | null;
+}
+
+export interface TimbradoRango {
+  id: string;
+  timbradoId: string;
+  establecimiento: string;
+  puntoExpedicion: string;
+  numeroInicial: number;
+  numeroFinal: number;
+}
+
+export interface InsertTimbradoRango {
+  timbradoId: string;
+  establecimiento: string;
+  puntoExpedicion: string;
+  numeroInicial: number;
+  numeroFinal: number;
+}
+
+// ========================
+// DOCUMENT SEQUENCE TYPES
+// ========================
+
+// Numbering is independent for each document type, timbrado and punto de expedición
+export interface DocumentSequenceKey {
+  tipoDocumento: number; // iTiDE: 1 factura, 5 nota de crédito, 6 nota de débito
+  timbrado: string;
+  establecimiento: string;
+  puntoExpedicion: string;
+}
+
+export interface DocumentSequence extends DocumentSequenceKey {
+  id: string;
+  ultimoNumero: number; // Last number reserved (issued or lost if the document was never saved)
+  updatedAt: Date;
+}
+
 // ========================
 // CATEGORY TYPES
 // ========================
@@ -443,6 +967,30 @@ export interface InsertCustomer {
   fechaIngreso?: string | null;
 }
 
+export interface PadronRuc {
+  ruc: string; // Without the verification digit
+  dv: string;
+  razonSocial: string;
+  rucAnterior: string | null;
+  estado: string; // As published by the DNIT: ACTIVO, SUSPENSION TEMPORAL, CANCELADO...
+  updatedAt: Date;
+}
+
+export interface InsertPadronRuc {
+  ruc: string;
+  dv: string;
+  razonSocial: string;
+  rucAnterior?: string | null;
+  estado: string;
+}
+
+// Outcome of merging a padrón file into the local copy
+export interface PadronRucCambios {
+  nuevos: number;
+  actualizados: number;
+  sinCambios: number;
+}
+
 // ========================
 // VEHICLE TYPES
 // ========================
@@ -468,6 +1016,12 @@ export interface InsertVehicle {
   observaciones?: string | null;
 }
 
+// ========================
+// IVA TYPES
+// ========================
+
+export type TasaIva = 10 | 5 | 0; // 0 = exento
+
 // ========================
 // SERVICE TYPES
 // ========================
@@ -477,6 +1031,7 @@ export interface Service {
   nombre: string;
   descripcion: string | null;
   precio: string; // Decimal as string for precision
+  tasaIva: TasaIva;
   duracionMin: number;
   categoria: string;
   activo: boolean;
@@ -488,6 +1043,7 @@ export interface InsertService {
   nombre: string;
   descripcion?: string | null;
   precio: string | number; // Accept both for flexibility
+  tasaIva?: TasaIva;
   duracionMin: number;
   categoria: string;
   activo?: boolean;
@@ -502,6 +1058,7 @@ export interface ServiceCombo {
   nombre: string;
   descripcion: string | null;
   precioTotal: string; // Decimal as string for precision
+  tasaIva: TasaIva;
   activo: boolean;
   createdAt: Date;
   updatedAt: Date;
@@ -511,6 +1068,7 @@ export interface InsertServiceCombo {
   nombre: string;
   descripcion?: string | null;
   precioTotal: string | number; // Accept both for flexibility
+  tasaIva?: TasaIva;
   activo?: boolean;
 }
 
@@ -585,6 +1143,7 @@ export interface InventoryItem {
   nombre: string;
   descripcion: string | null;
   precio: string; // Precio de venta
+  tasaIva: TasaIva;
   stockActual: number;
   stockMinimo: number;
   unidadMedida: string;
@@ -601,6 +1160,7 @@ export interface InsertInventoryItem {
   nombre: string;
   descripcion?: string | null;
   precio: string | number; // Precio de venta
+  tasaIva?: TasaIva;
   stockActual: number;
   stockMinimo: number;
   unidadMedida?: string;
@@ -611,10 +1171,43 @@ export interface InsertInventoryItem {
   activo?: boolean;
 }
 
+export type TipoMovimientoStock = "inicial" | "compra" | "venta" | "devolucion" | "consumo_servicio" | "ajuste" | "conteo";
+
+export interface MovimientoStock {
+  id: string;
+  inventoryItemId: string;
+  tipo: TipoMovimientoStock;
+  cantidad: number; // Units in when positive, out when negative
+  motivo: string | null;
+  referencia: string | null; // Invoice, credit note or supplier document number
+  saleId: string | null;
+  userId: string | null;
+  fecha: Date;
+}
+
+export interface InsertMovimientoStock {
+  inventoryItemId: string;
+  tipo: TipoMovimientoStock;
+  cantidad: number;
+  motivo?: string | null;
+  referencia?: string | null;
+  saleId?: string | null;
+  userId?: string | null;
+  fecha?: Date;
+}
+
 // ========================
 // SALES TYPES
 // ========================
 
+export type CondicionVenta = "contado" | "credito";
+
+export type MedioPago = "efectivo" | "tarjeta_credito" | "tarjeta_debito" | "transferencia" | "cheque";
+
+export type TipoDescuento = "porcentaje" | "monto";
+
+export type MotivoDescuento = "promocion" | "cliente_frecuente" | "reclamo" | "empleado" | "redondeo" | "otro";
+
 export interface Sale {
   id: string;
   numeroFactura: string;
@@ -624,9 +1217,35 @@ export interface Sale {
   subtotal: string; // Decimal as string for precision
   impuestos: string; // Decimal as string for precision
   total: string; // Decimal as string for precision
+  gravadas10: string; // Lines at 10%, IVA included
+  gravadas5: string; // Lines at 5%, IVA included
+  exentas: string;
+  iva10: string; // IVA liquidated at 10%
+  iva5: string; // IVA liquidated at 5%
+  descuentoGlobal: string; // Ticket discount, IVA included
+  descuentoGlobalTipo: TipoDescuento | null;
+  descuentoGlobalValor: string | null; // Percentage or guaraníes as entered
+  motivoDescuentoGlobal: MotivoDescuento | null;
+  descuentoTotal: string; // Line and ticket discounts, IVA included
+  descuentoAutorizadoPor: string | null; // Admin whose PIN allowed a discount above the cashier's maximum
   medioPago: "efectivo" | "tarjeta_credito" | "tarjeta_debito" | "transferencia" | "cheque";
+  condicionVenta: CondicionVenta;
+  fechaVencimiento: Date | null; // Due date of credit sales
+  moneda: string; // "PYG" or the foreign currency the sale was priced or paid in
+  tipoCambio: string | null; // Guaraníes per unit of the foreign currency
+  totalMoneda: string | null; // Total in the foreign currency; fiscal totals stay in guaraníes
   regimenTurismo: boolean;
+  sesionCajaId: string | null; // Cash session the sale was collected in
   timbradoUsado: string;
+  cdc: string | null; // Código de Control (44 digits) of the electronic document
+  sifenEstado: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId: string | null;
+  sifenProtocolo: string | null; // Authorization protocol returned by SIFEN
+  sifenMensajes: string | null; // Result messages from SIFEN ("codigo - mensaje", one per line)
+  anulada: boolean; // Cancelled documents are kept for fiscal records
+  motivoAnulacion: string | null;
+  fechaAnulacion: Date | null;
+  anuladaPor: string | null;
   createdBy: string | null;
   createdAt: Date;
   updatedAt: Date;
@@ -640,9 +1259,35 @@ export interface InsertSale {
   subtotal: string;
   impuestos?: string;
   total: string;
+  gravadas10?: string;
+  gravadas5?: string;
+  exentas?: string;
+  iva10?: string;
+  iva5?: string;
+  descuentoGlobal?: string;
+  descuentoGlobalTipo?: TipoDescuento | null;
+  descuentoGlobalValor?: string | null;
+  motivoDescuentoGlobal?: MotivoDescuento | null;
+  descuentoTotal?: string;
+  descuentoAutorizadoPor?: string | null;
   medioPago: "efectivo" | "tarjeta_credito" | "tarjeta_debito" | "transferencia" | "cheque";
+  condicionVenta?: CondicionVenta;
+  fechaVencimiento?: Date | null;
+  moneda?: string;
+  tipoCambio?: string | null;
+  totalMoneda?: string | null;
   regimenTurismo?: boolean;
+  sesionCajaId?: string | null;
   timbradoUsado: string;
+  cdc?: string | null;
+  sifenEstado?: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId?: string | null;
+  sifenProtocolo?: string | null;
+  sifenMensajes?: string | null;
+  anulada?: boolean;
+  motivoAnulacion?: string | null;
+  fechaAnulacion?: Date | null;
+  anuladaPor?: string | null;
   createdBy?: string | null;
 }
 
@@ -655,7 +1300,13 @@ export interface SaleItem {
   nombre: string;
   cantidad: number;
   precioUnitario: string; // Decimal as string for precision
-  subtotal: string; // Decimal as string for precision
+  subtotal: string; // Decimal as string for precision, before discounts
+  tasaIva: TasaIva;
+  descuento: string; // Line discount, IVA included
+  descuentoTipo: TipoDescuento | null;
+  descuentoValor: string | null; // Percentage or guaraníes as entered
+  motivoDescuento: MotivoDescuento | null;
+  descuentoGlobal: string; // Share of the ticket discount, IVA included
 }
 
 export interface InsertSaleItem {
@@ -667,6 +1318,341 @@ export interface InsertSaleItem {
   cantidad: number;
   precioUnitario: string;
   subtotal: string;
+  tasaIva?: TasaIva;
+  descuento?: string;
+  descuentoTipo?: TipoDescuento | null;
+  descuentoValor?: string | null;
+  motivoDescuento?: MotivoDescuento | null;
+  descuentoGlobal?: string;
+}
+
+export interface SalePago {
+  id: string;
+  saleId: string;
+  medioPago: MedioPago;
+  monto: string; // Applied to the sale, change excluded
+  vuelto: string; // Change given back on cash payments
+  marcaTarjeta: string | null;
+  ultimos4: string | null; // Last 4 digits of the card
+  referencia: string | null; // Transfer reference or cheque number
+}
+
+export interface InsertSalePago {
+  saleId: string;
+  medioPago: MedioPago;
+  monto: string;
+  vuelto?: string;
+  marcaTarjeta?: string | null;
+  ultimos4?: string | null;
+  referencia?: string | null;
+}
+
+// ========================
+// CREDIT NOTE TYPES
+// ========================
+
+export type NotaCreditoMotivo = "devolucion_ajuste" | "devolucion" | "descuento" | "bonificacion" | "credito_incobrable" | "ajuste_precio";
+
+export interface NotaCredito {
+  id: string;
+  numero: string; // Own sequence: 001-001-0000001
+  saleId: string; // Original invoice
+  customerId: string | null;
+  fecha: Date;
+  motivo: NotaCreditoMotivo;
+  descripcion: string;
+  subtotal: string; // Decimal as string for precision
+  impuestos: string; // Decimal as string for precision
+  total: string; // Decimal as string for precision
+  timbradoUsado: string;
+  cdc: string | null;
+  sifenEstado: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId: string | null;
+  sifenProtocolo: string | null;
+  sifenMensajes: string | null;
+  reembolsoEfectivo: string; // Cash given back to the customer
+  sesionCajaId: string | null; // Cash session the refund was paid out of
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertNotaCredito {
+  numero: string;
+  saleId: string;
+  customerId?: string | null;
+  fecha?: Date;
+  motivo: NotaCreditoMotivo;
+  descripcion: string;
+  subtotal: string;
+  impuestos?: string;
+  total: string;
+  timbradoUsado: string;
+  cdc?: string | null;
+  sifenEstado?: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId?: string | null;
+  sifenProtocolo?: string | null;
+  sifenMensajes?: string | null;
+  reembolsoEfectivo?: string;
+  sesionCajaId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface NotaCreditoItem {
+  id: string;
+  notaCreditoId: string;
+  saleItemId: string | null; // null for amount-only adjustments
+  nombre: string;
+  cantidad: number;
+  precioUnitario: string; // Decimal as string for precision
+  subtotal: string; // Decimal as string for precision
+  tasaIva: TasaIva;
+}
+
+export interface InsertNotaCreditoItem {
+  notaCreditoId: string;
+  saleItemId?: string | null;
+  nombre: string;
+  cantidad: number;
+  precioUnitario: string;
+  subtotal: string;
+  tasaIva?: TasaIva;
+}
+
+// ========================
+// DEBIT NOTE TYPES
+// ========================
+
+export type NotaDebitoMotivo = "recupero_costo" | "recupero_gasto" | "ajuste_precio";
+
+export interface NotaDebito {
+  id: string;
+  numero: string; // Own sequence: 001-001-0000001
+  saleId: string; // Original invoice
+  customerId: string | null;
+  fecha: Date;
+  motivo: NotaDebitoMotivo;
+  descripcion: string;
+  subtotal: string; // Decimal as string for precision
+  impuestos: string; // Decimal as string for precision
+  total: string; // Decimal as string for precision
+  timbradoUsado: string;
+  cdc: string | null;
+  sifenEstado: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId: string | null;
+  sifenProtocolo: string | null;
+  sifenMensajes: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertNotaDebito {
+  numero: string;
+  saleId: string;
+  customerId?: string | null;
+  fecha?: Date;
+  motivo: NotaDebitoMotivo;
+  descripcion: string;
+  subtotal: string;
+  impuestos?: string;
+  total: string;
+  timbradoUsado: string;
+  cdc?: string | null;
+  sifenEstado?: "pendiente" | "enviado" | "aprobado" | "rechazado";
+  sifenLoteId?: string | null;
+  sifenProtocolo?: string | null;
+  sifenMensajes?: string | null;
+  createdBy?: string | null;
+}
+
+export interface NotaDebitoItem {
+  id: string;
+  notaDebitoId: string;
+  serviceId: string | null; // Catalog service charged, null for free-text charges
+  nombre: string;
+  cantidad: number;
+  precioUnitario: string; // Decimal as string for precision
+  subtotal: string; // Decimal as string for precision
+  tasaIva: TasaIva;
+}
+
+export interface InsertNotaDebitoItem {
+  notaDebitoId: string;
+  serviceId?: string | null;
+  nombre: string;
+  cantidad: number;
+  precioUnitario: string;
+  subtotal: string;
+  tasaIva?: TasaIva;
+}
+
+// ========================
+// RECEIPT TYPES
+// ========================
+
+export interface Recibo {
+  id: string;
+  numero: number; // Own sequence, not a fiscal document
+  customerId: string;
+  fecha: Date;
+  monto: string; // Decimal as string for precision
+  medioPago: "efectivo" | "tarjeta_credito" | "tarjeta_debito" | "transferencia" | "cheque";
+  referencia: string | null;
+  observaciones: string | null;
+  sesionCajaId: string | null; // Cash session the receipt was collected in
+  createdBy: string | null;
+  createdAt: Date;
+}
+
+export interface InsertRecibo {
+  customerId: string;
+  fecha?: Date;
+  monto: string;
+  medioPago: "efectivo" | "tarjeta_credito" | "tarjeta_debito" | "transferencia" | "cheque";
+  referencia?: string | null;
+  observaciones?: string | null;
+  sesionCajaId?: string | null;
+  createdBy?: string | null;
+}
+
+export interface ReciboAplicacion {
+  id: string;
+  reciboId: string;
+  saleId: string; // Credit invoice paid
+  monto: string; // Decimal as string for precision
+}
+
+export interface InsertReciboAplicacion {
+  reciboId: string;
+  saleId: string;
+  monto: string;
+}
+
+// ========================
+// CASH REGISTER TYPES
+// ========================
+
+export type EstadoSesionCaja = "abierta" | "cerrada";
+
+export type TipoMovimientoCaja = "ingreso" | "retiro" | "gasto";
+
+export interface SesionCaja {
+  id: string;
+  userId: string; // Cashier who opened the session
+  puntoExpedicionId: string;
+  estado: EstadoSesionCaja;
+  montoInicial: string; // Opening float
+  fechaApertura: Date;
+  fechaCierre: Date | null;
+  efectivoEsperado: string | null; // Set when the session is closed
+  efectivoContado: string | null;
+  diferencia: string | null; // Counted minus expected: over when positive, short when negative
+  conteo: string | null; // JSON: { "100000": 2, "50000": 1, ... }
+  observaciones: string | null;
+  cerradaPor: string | null;
+}
+
+export interface InsertSesionCaja {
+  userId: string;
+  puntoExpedicionId: string;
+  estado?: EstadoSesionCaja;
+  montoInicial: string;
+  fechaApertura?: Date;
+  fechaCierre?: Date | null;
+  efectivoEsperado?: string | null;
+  efectivoContado?: string | null;
+  diferencia?: string | null;
+  conteo?: string | null;
+  observaciones?: string | null;
+  cerradaPor?: string | null;
+}
+
+export interface MovimientoCaja {
+  id: string;
+  sesionId: string;
+  tipo: TipoMovimientoCaja; // ingreso adds cash; retiro and gasto (petty expenses) take it out
+  monto: string; // Decimal as string for precision
+  concepto: string;
+  userId: string | null;
+  fecha: Date;
+}
+
+export interface InsertMovimientoCaja {
+  sesionId: string;
+  tipo: TipoMovimientoCaja;
+  monto: string;
+  concepto: string;
+  userId?: string | null;
+  fecha?: Date;
+}
+
+// ========================
+// SIFEN QUEUE TYPES
+// ========================
+
+export interface SifenLote {
+  id: string;
+  protocolo: string | null; // Lote protocol (dProtConsLote) assigned by SIFEN on reception
+  estado: "pendiente" | "enviado" | "procesado" | "error";
+  cantidadDocumentos: number;
+  intentos: number;
+  proximoIntento: Date; // Next send attempt or status poll
+  ultimoError: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertSifenLote {
+  protocolo?: string | null;
+  estado?: "pendiente" | "enviado" | "procesado" | "error";
+  cantidadDocumentos?: number;
+  intentos?: number;
+  proximoIntento?: Date;
+  ultimoError?: string | null;
+}
+
+export interface SifenEvento {
+  id: string;
+  tipo: "cancelacion" | "inutilizacion";
+  saleId: string | null;
+  cdc: string | null; // Cancelled document (cancelación)
+  timbrado: string | null; // Voided range (inutilización)
+  establecimiento: string | null;
+  puntoExpedicion: string | null;
+  tipoDocumento: number; // iTiDE of the voided range
+  numeroDesde: number | null;
+  numeroHasta: number | null;
+  motivo: string;
+  estado: "pendiente" | "aprobado" | "rechazado";
+  protocolo: string | null;
+  mensajes: string | null;
+  intentos: number;
+  proximoIntento: Date;
+  ultimoError: string | null;
+  createdBy: string | null;
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface InsertSifenEvento {
+  tipo: "cancelacion" | "inutilizacion";
+  saleId?: string | null;
+  cdc?: string | null;
+  timbrado?: string | null;
+  establecimiento?: string | null;
+  puntoExpedicion?: string | null;
+  tipoDocumento?: number;
+  numeroDesde?: number | null;
+  numeroHasta?: number | null;
+  motivo: string;
+  estado?: "pendiente" | "aprobado" | "rechazado";
+  protocolo?: string | null;
+  mensajes?: string | null;
+  intentos?: number;
+  proximoIntento?: Date;
+  ultimoError?: string | null;
+  createdBy?: string | null;
 }
 
 // ========================
@@ -685,6 +1671,7 @@ export const insertUserSchema = z.object({
   expirationDate: z.date().optional().nullable(),
   isActive: z.boolean().optional(),
   isBlocked: z.boolean().optional(),
+  puntoExpedicionId: z.string().optional().nullable(),
   createdBy: z.string().optional().nullable()
 });
 
@@ -717,7 +1704,10 @@ export const insertCompanyConfigSchema = z.object({
   telefono: z.string().optional().nullable(),
   email: z.string().email().optional().nullable(),
   logoPath: z.string().optional().nullable(),
-  moneda: z.string().optional()
+  moneda: z.string().optional(),
+  permitirStockNegativo: z.boolean().optional(),
+  descuentoMaximoUser: z.number().int().min(0).max(100, "Discount cannot exceed 100%").optional(),
+  descuentoMaximoAdmin: z.number().int().min(0).max(100, "Discount cannot exceed 100%").optional()
 });
 
 export type InsertCompanyConfigType = z.infer<typeof insertCompanyConfigSchema>;
@@ -727,7 +1717,7 @@ export const insertCustomerSchema = z.object({
   nombre: z.string().min(1, "Name is required"),
   docTipo: z.enum(["CI", "Pasaporte", "RUC", "Extranjero"]).optional(),
   docNumero: z.string().min(1, "Document number is required"),
-  email: z.string().email().optional().nullable(),
+  email: z.string().email().optional().nullable().or(z.literal("")),
   telefono: z.string().optional().nullable(),
   direccion: z.string().optional().nullable(),
   regimenTurismo: z.boolean().optional(),
@@ -738,11 +1728,40 @@ export const insertCustomerSchema = z.object({
 
 export type InsertCustomerType = z.infer<typeof insertCustomerSchema>;
 
+// Identity document rules of each docTipo, shared by the API and the customer form
+export function refinarIdentidadCliente(
+  data: Pick<InsertCustomerType, "docTipo" | "docNumero" | "pais" | "pasaporte">,
+  ctx: z.RefinementCtx
+) {
+  const documento = validarDocumento(data.docTipo ?? "CI", data.docNumero, data.pais);
+  if (!documento.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: documento.error!, path: ["docNumero"] });
+  }
+
+  if (data.pasaporte?.trim()) {
+    const pasaporte = validarDocumento("Pasaporte", data.pasaporte, data.pais);
+    if (!pasaporte.success) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: pasaporte.error!, path: ["pasaporte"] });
+    }
+  }
+
+  const pais = validarPais(data.pais);
+  if (!pais.success) {
+    ctx.addIssue({ code: z.ZodIssueCode.custom, message: pais.error!, path: ["pais"] });
+  }
+}
+
+export const createCustomerSchema = insertCustomerSchema.superRefine(refinarIdentidadCliente);
+
+// IVA rate of catalog items and document lines
+export const tasaIvaSchema = z.union([z.literal(10), z.literal(5), z.literal(0)]);
+
 // Service schemas
 export const insertServiceSchema = z.object({
   nombre: z.string().min(1, "Service name is required"),
   descripcion: z.string().optional().nullable(),
   precio: z.union([z.string(), z.number()]).transform(val => String(val)),
+  tasaIva: tasaIvaSchema.optional(),
   duracionMin: z.number().positive("Duration must be positive"),
   categoria: z.string().min(1, "Category is required"),
   activo: z.boolean().optional()
@@ -792,6 +1811,7 @@ export const insertInventoryItemSchema = z.object({
   nombre: z.string().min(1, "Item name is required"),
   descripcion: z.string().optional().nullable(),
   precio: z.union([z.string(), z.number()]).transform(val => String(val)),
+  tasaIva: tasaIvaSchema.optional(),
   stockActual: z.number().min(0, "Stock cannot be negative"),
   stockMinimo: z.number().min(0, "Minimum stock cannot be negative"),
   unidadMedida: z.string().default("unidad"),
@@ -814,13 +1834,196 @@ export const insertSaleSchema = z.object({
   impuestos: z.string().optional(),
   total: z.string().min(1, "Total is required"),
   medioPago: z.enum(["efectivo", "tarjeta_credito", "tarjeta_debito", "transferencia", "cheque"]),
+  condicionVenta: z.enum(["contado", "credito"]).optional(),
+  fechaVencimiento: z.date().optional().nullable(),
+  moneda: z.string().regex(/^[A-Z]{3}$/, "Invalid currency code").optional(),
+  tipoCambio: z.string().optional().nullable(),
+  totalMoneda: z.string().optional().nullable(),
   regimenTurismo: z.boolean().optional(),
   timbradoUsado: z.string().min(1, "Timbrado is required"),
+  cdc: z.string().regex(/^\d{44}$/, "CDC must have 44 digits").optional().nullable(),
   createdBy: z.string().optional().nullable()
 });
 
 export type InsertSaleType = z.infer<typeof insertSaleSchema>;
 
+// Sale cancellation schema
+export const anularSaleSchema = z.object({
+  motivo: z.string().trim().min(5, "Reason must have at least 5 characters").max(500, "Reason is too long")
+});
+
+export type AnularSaleType = z.infer<typeof anularSaleSchema>;
+
+// Number range inutilización schema
+export const inutilizarNumeracionSchema = z.object({
+  establecimiento: z.string().regex(/^\d{3}$/, "Establecimiento must have 3 digits").optional(),
+  puntoExpedicion: z.string().regex(/^\d{3}$/, "Punto de expedición must have 3 digits").optional(),
+  tipoDocumento: z.number().int().min(1).max(7).default(1),
+  numeroDesde: z.number().int().min(1, "Start number must be positive"),
+  numeroHasta: z.number().int().min(1, "End number must be positive"),
+  motivo: z.string().trim().min(5, "Reason must have at least 5 characters").max(500, "Reason is too long")
+}).refine(data => data.numeroHasta >= data.numeroDesde, {
+  message: "End number must be greater than or equal to start number",
+  path: ["numeroHasta"]
+}).refine(data => (data.establecimiento === undefined) === (data.puntoExpedicion === undefined), {
+  message: "Provide both establecimiento and punto de expedición, or neither",
+  path: ["puntoExpedicion"]
+});
+
+export type InutilizarNumeracionType = z.infer<typeof inutilizarNumeracionSchema>;
+
+// Credit note schema - items (partial by quantity), monto (partial by amount) or neither (remaining balance)
+export const createNotaCreditoSchema = z.object({
+  saleId: z.string().min(1, "Sale is required"),
+  motivo: z.enum(["devolucion_ajuste", "devolucion", "descuento", "bonificacion", "credito_incobrable", "ajuste_precio"]),
+  descripcion: z.string().trim().min(5, "Description must have at least 5 characters").max(500, "Description is too long"),
+  items: z.array(z.object({
+    saleItemId: z.string().min(1, "Sale item is required"),
+    cantidad: z.number().int().positive("Quantity must be positive")
+  })).min(1, "At least one item is required").optional(),
+  monto: z.number().positive("Amount must be positive").optional()
+}).refine(data => !(data.items && data.monto !== undefined), {
+  message: "Provide either items or an amount, not both",
+  path: ["monto"]
+});
+
+export type CreateNotaCreditoType = z.infer<typeof createNotaCreditoSchema>;
+
+// Debit note schema - additional charges on an issued invoice (prices net of IVA, like sale items)
+export const createNotaDebitoSchema = z.object({
+  saleId: z.string().min(1, "Sale is required"),
+  motivo: z.enum(["recupero_costo", "recupero_gasto", "ajuste_precio"]),
+  descripcion: z.string().trim().min(5, "Description must have at least 5 characters").max(500, "Description is too long"),
+  items: z.array(z.object({
+    serviceId: z.string().optional().nullable(),
+    nombre: z.string().trim().min(1, "Item name is required").max(255, "Item name is too long"),
+    cantidad: z.number().int().positive("Quantity must be positive"),
+    precioUnitario: z.number().int().positive("Unit price must be positive"),
+    tasaIva: tasaIvaSchema.optional() // Defaults to the rate of the service, or 10%
+  })).min(1, "At least one item is required")
+});
+
+export type CreateNotaDebitoType = z.infer<typeof createNotaDebitoSchema>;
+
+// Receipt schema - payment of credit sales; without allocations it pays the oldest due invoices first
+export const createReciboSchema = z.object({
+  customerId: z.string().min(1, "Customer is required"),
+  monto: z.number().int().positive("Amount must be positive"),
+  medioPago: z.enum(["efectivo", "tarjeta_credito", "tarjeta_debito", "transferencia", "cheque"]),
+  referencia: z.string().trim().max(100, "Reference is too long").optional().nullable(),
+  observaciones: z.string().trim().max(500, "Notes are too long").optional().nullable(),
+  aplicaciones: z.array(z.object({
+    saleId: z.string().min(1, "Sale is required"),
+    monto: z.number().int().positive("Amount must be positive")
+  })).optional()
+});
+
+export type CreateReciboType = z.infer<typeof createReciboSchema>;
+
+// Timbrado registry schema - validity dates and authorized ranges per establecimiento/punto
+export const timbradoRangoSchema = z.object({
+  establecimiento: z.string().regex(/^\d{3}$/, "Establecimiento must have 3 digits"),
+  puntoExpedicion: z.string().regex(/^\d{3}$/, "Punto de expedición must have 3 digits"),
+  numeroInicial: z.number().int().min(1, "Initial number must be at least 1").max(9999999, "Number must have up to 7 digits"),
+  numeroFinal: z.number().int().min(1, "Final number must be at least 1").max(9999999, "Number must have up to 7 digits")
+}).refine(data => data.numeroFinal >= data.numeroInicial, {
+  message: "Final number must not be lower than the initial number",
+  path: ["numeroFinal"]
+});
+
+export type TimbradoRangoType = z.infer<typeof timbradoRangoSchema>;
+
+export const createTimbradoSchema = z.object({
+  numero: z.string().regex(/^\d{8}$/, "Timbrado must have 8 digits"),
+  fechaInicio: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid start date"),
+  fechaFin: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid end date"),
+  rangos: z.array(timbradoRangoSchema).min(1, "At least one number range is required")
+});
+
+export type CreateTimbradoType = z.infer<typeof createTimbradoSchema>;
+
+// Establecimientos and puntos de expedición catalog schemas
+export const insertEstablecimientoSchema = z.object({
+  codigo: z.string().regex(/^\d{3}$/, "Establecimiento must have 3 digits"),
+  nombre: z.string().min(1, "Name is required"),
+  direccion: z.string().min(1, "Address is required"),
+  ciudad: z.string().min(1, "City is required"),
+  telefono: z.string().optional().nullable(),
+  activo: z.boolean().optional()
+});
+
+export type InsertEstablecimientoType = z.infer<typeof insertEstablecimientoSchema>;
+
+export const insertPuntoExpedicionSchema = z.object({
+  establecimientoId: z.string().min(1, "Establecimiento is required"),
+  codigo: z.string().regex(/^\d{3}$/, "Punto de expedición must have 3 digits"),
+  descripcion: z.string().min(1, "Description is required"),
+  activo: z.boolean().optional()
+});
+
+export type InsertPuntoExpedicionType = z.infer<typeof insertPuntoExpedicionSchema>;
+
+// Currency catalog and exchange rate schemas; guaraníes are the base currency and never take a rate
+export const insertMonedaSchema = z.object({
+  codigo: z.string().regex(/^[A-Z]{3}$/, "Currency code must have 3 uppercase letters")
+    .refine(codigo => codigo !== "PYG", "Guaraní is the base currency"),
+  nombre: z.string().min(1, "Name is required"),
+  simbolo: z.string().min(1, "Symbol is required").max(10, "Symbol is too long"),
+  decimales: z.number().int().min(0).max(4).optional(),
+  activo: z.boolean().optional()
+});
+
+export type InsertMonedaType = z.infer<typeof insertMonedaSchema>;
+
+export const createTipoCambioSchema = z.object({
+  moneda: z.string().regex(/^[A-Z]{3}$/, "Invalid currency code"),
+  fecha: z.string().regex(/^\d{4}-\d{2}-\d{2}$/, "Invalid date"),
+  tasa: z.number().positive("Rate must be positive")
+});
+
+export type CreateTipoCambioType = z.infer<typeof createTipoCambioSchema>;
+
+// Cash register schemas; amounts in guaraníes, the closing count is the quantity per denomination
+export const abrirSesionCajaSchema = z.object({
+  montoInicial: z.number().int().min(0, "Opening float cannot be negative"),
+  observaciones: z.string().trim().max(500, "Notes are too long").optional().nullable()
+});
+
+export type AbrirSesionCajaType = z.infer<typeof abrirSesionCajaSchema>;
+
+export const createMovimientoCajaSchema = z.object({
+  tipo: z.enum(["ingreso", "retiro", "gasto"]),
+  monto: z.number().int().positive("Amount must be positive"),
+  concepto: z.string().trim().min(1, "Concept is required").max(200, "Concept is too long")
+});
+
+export type CreateMovimientoCajaType = z.infer<typeof createMovimientoCajaSchema>;
+
+export const cerrarSesionCajaSchema = z.object({
+  conteo: z.record(z.string().regex(/^\d+$/, "Invalid denomination"), z.number().int().min(0, "Quantity cannot be negative")),
+  observaciones: z.string().trim().max(500, "Notes are too long").optional().nullable()
+});
+
+export type CerrarSesionCajaType = z.infer<typeof cerrarSesionCajaSchema>;
+
+// Stock movement entered by hand; add and remove move the quantity, count sets the units counted.
+// Purchases only add and consumption by services only removes; sales are recorded by the server
+export const ajusteStockSchema = z.object({
+  action: z.enum(["add", "remove", "count"]),
+  tipo: z.enum(["compra", "consumo_servicio", "ajuste"]).optional(), // Defaults to compra when adding and ajuste when removing
+  quantity: z.number().int("Quantity must be a whole number").min(0, "Quantity cannot be negative"),
+  motivo: z.string().trim().max(255, "Reason is too long").optional().nullable(),
+  referencia: z.string().trim().max(100, "Reference is too long").optional().nullable()
+}).refine(data => data.action === "count" || data.quantity > 0, {
+  message: "Quantity must be positive",
+  path: ["quantity"]
+}).refine(data => !(data.tipo === "compra" && data.action !== "add") && !(data.tipo === "consumo_servicio" && data.action !== "remove"), {
+  message: "Movement type does not match the action",
+  path: ["tipo"]
+});
+
+export type AjusteStockType = z.infer<typeof ajusteStockSchema>;
+
 // ========================
 // ADDITIONAL REQUIRED SCHEMAS FOR ROUTES
 // ========================
@@ -842,7 +2045,8 @@ export const updateUserSchema = z.object({
   monthlyInvoiceLimit: z.number().positive().optional(),
   expirationDate: z.date().optional().nullable(),
   isActive: z.boolean().optional(),
-  isBlocked: z.boolean().optional()
+  isBlocked: z.boolean().optional(),
+  puntoExpedicionId: z.string().optional().nullable()
 });
 
 export type UpdateUserType = z.infer<typeof updateUserSchema>;
@@ -855,12 +2059,22 @@ export const changePasswordSchema = z.object({
 
 export type ChangePasswordType = z.infer<typeof changePasswordSchema>;
 
+// PIN an admin enters to authorize discounts above the cashier's maximum
+export const pinAutorizacionSchema = z.object({
+  currentPassword: z.string().min(1, "Current password is required"),
+  pin: z.string().regex(/^\d{4,8}$/, "PIN must have 4 to 8 digits")
+});
+
+export type PinAutorizacionType = z.infer<typeof pinAutorizacionSchema>;
+
 // DNIT Config schemas
 export const insertDnitConfigSchema = z.object({
   endpointUrl: z.string().url("Invalid URL format"),
   authToken: z.string().min(1, "Auth token is required"),
   certificateData: z.string().optional().nullable(),
   certificatePassword: z.string().optional().nullable(),
+  idCsc: z.string().regex(/^\d{1,4}$/, "IdCSC must have up to 4 digits").optional().nullable(),
+  csc: z.string().optional().nullable(),
   operationMode: z.enum(["testing", "production"]).optional(),
   isActive: z.boolean().optional()
 });
@@ -872,6 +2086,7 @@ export const insertServiceComboSchema = z.object({
   nombre: z.string().min(1, "Combo name is required"),
   descripcion: z.string().optional().nullable(),
   precioTotal: z.union([z.string(), z.number()]).transform(val => String(val)),
+  tasaIva: tasaIvaSchema.optional(),
   activo: z.boolean().optional()
 });
 
@@ -893,34 +2108,63 @@ export const insertSaleItemSchema = z.object({
   nombre: z.string().min(1, "Item name is required"),
   cantidad: z.number().positive("Quantity must be positive"),
   precioUnitario: z.string().min(1, "Unit price is required"),
-  subtotal: z.string().min(1, "Subtotal is required")
+  subtotal: z.string().min(1, "Subtotal is required"),
+  tasaIva: tasaIvaSchema.optional()
 });
 
 export type InsertSaleItemType = z.infer<typeof insertSaleItemSchema>;
 
+// Discount of a line or of the whole ticket, as a percentage or an amount in guaraníes (IVA included)
+export const descuentoVentaSchema = z.object({
+  tipo: z.enum(["porcentaje", "monto"]),
+  valor: z.number().positive("Discount must be positive"),
+  motivo: z.enum(["promocion", "cliente_frecuente", "reclamo", "empleado", "redondeo", "otro"])
+}).refine(data => data.tipo !== "porcentaje" || data.valor <= 100, {
+  message: "Discount cannot exceed 100%",
+  path: ["valor"]
+});
+
+export type DescuentoVentaType = z.infer<typeof descuentoVentaSchema>;
+
 // Frontend sale schemas
+// Prices and totals sent by the client are only checked against the server pricing (shared/precios.ts)
 export const frontendSaleItemSchema = z.object({
-  serviceId: z.string().optional().nullable(),
-  comboId: z.string().optional().nullable(),
-  inventoryItemId: z.string().optional().nullable(),
-  nombre: z.string().min(1, "Item name is required"),
-  cantidad: z.number().positive("Quantity must be positive"),
-  precioUnitario: z.union([z.string(), z.number()]).transform(val => String(val)),
-  subtotal: z.union([z.string(), z.number()]).transform(val => String(val))
+  type: z.enum(["service", "combo", "product"]),
+  id: z.string().min(1, "Item id is required"),
+  name: z.string().optional(),
+  price: z.number().optional(),
+  quantity: z.number().int("Quantity must be a whole number").positive("Quantity must be positive"),
+  descuento: descuentoVentaSchema.optional().nullable()
 });
 
+// Payments of a cash sale; amounts in guaraníes, cash may exceed the total and the excess is given as change
+export const salePagoSchema = z.object({
+  medioPago: z.enum(["efectivo", "tarjeta_credito", "tarjeta_debito", "transferencia", "cheque"]),
+  monto: z.number().positive("Payment amount must be positive"),
+  vuelto: z.number().min(0, "Change cannot be negative").optional(),
+  marcaTarjeta: z.string().max(30).optional().nullable(),
+  ultimos4: z.string().regex(/^\d{4}$/, "Card last digits must be 4 digits").optional().nullable(),
+  referencia: z.string().max(50).optional().nullable()
+});
+
+export type SalePagoType = z.infer<typeof salePagoSchema>;
+
 export const saleWithItemsSchema = z.object({
-  numeroFactura: z.string().min(1, "Invoice number is required"),
   customerId: z.string().optional().nullable(),
-  workOrderId: z.string().optional().nullable(),
-  fecha: z.string().or(z.date()).transform(val => typeof val === 'string' ? new Date(val) : val).optional(),
-  subtotal: z.union([z.string(), z.number()]).transform(val => String(val)),
+  workOrderId: z.string().optional().nullable(), // The sale date is stamped by the server
+  subtotal: z.union([z.string(), z.number()]).transform(val => String(val)).optional(),
   impuestos: z.union([z.string(), z.number()]).transform(val => String(val)).optional(),
-  total: z.union([z.string(), z.number()]).transform(val => String(val)),
+  total: z.union([z.string(), z.number()]).transform(val => String(val)).optional(),
   medioPago: z.enum(["efectivo", "tarjeta_credito", "tarjeta_debito", "transferencia", "cheque"]),
+  condicionVenta: z.enum(["contado", "credito"]).optional(),
+  fechaVencimiento: z.string().or(z.date()).transform(val => typeof val === 'string' ? new Date(val) : val).optional().nullable(),
+  moneda: z.string().regex(/^[A-Z]{3}$/, "Invalid currency code").optional(), // Amounts in guaraníes are converted at the rate of the day
   regimenTurismo: z.boolean().optional(),
-  timbradoUsado: z.string().min(1, "Timbrado is required"),
-  items: z.array(frontendSaleItemSchema).min(1, "At least one item is required")
+  pagos: z.array(salePagoSchema).optional(), // Defaults to the whole total paid with medioPago
+  items: z.array(frontendSaleItemSchema).min(1, "At least one item is required"),
+  descuento: descuentoVentaSchema.optional().nullable(), // Ticket discount
+  autorizadoPor: z.string().optional(), // Admin who authorizes discounts above the cashier's maximum
+  pinAutorizacion: z.string().regex(/^\d{4,8}$/, "PIN must have 4 to 8 digits").optional() // PIN of that admin
 });
 
 export type SaleWithItemsType = z.infer<typeof saleWithItemsSchema>;
@@ -943,6 +2187,7 @@ export interface PublicUser {
   isActive: boolean;
   isBlocked: boolean;
   lastLogin: Date | null;
+  puntoExpedicionId: string | null;
   createdAt: Date;
   updatedAt: Date;
   createdBy: string | null;
@@ -964,7 +2209,9 @@ export interface SafeDnitConfig {
   updatedAt: Date;
   hasAuthToken: boolean;
   hasCertificatePassword: boolean;
-  // Note: authToken, certificateData, and certificatePassword are excluded for security
+  idCsc: string | null;
+  hasCsc: boolean;
+  // Note: authToken, certificateData, certificatePassword and csc are excluded for security
 }
 
 // Types are already exported above as interfaces and type aliases
\ No newline at end of file
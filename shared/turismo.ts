@@ -0,0 +1,116 @@
+import type { Customer } from "./schema";
+import { resolverPais, PARAGUAY } from "./paises";
+
+/**
+ * Régimen de Turismo shared by the server and the client
+ * A sale is exenta of IVA under the régimen only for a foreign tourist identified by passport, from
+ * another country and still within the stay allowed since the entry date. The invoice carries the
+ * legends and the tourist's data so the exención can be supported in the monthly declaration.
+ */
+
+export const DIAS_PERMANENCIA_TURISMO = 90;
+
+export const LEYENDA_TURISMO = "RÉGIMEN DE TURISMO - OPERACIÓN EXENTA DE IVA";
+export const LEYENDA_TURISTA = "Venta a turista extranjero no residente";
+
+export type TurismoErrorCode =
+  | "TOURIST_PASSPORT_REQUIRED"
+  | "TOURIST_COUNTRY_REQUIRED"
+  | "TOURIST_COUNTRY_UNKNOWN"
+  | "TOURIST_ENTRY_DATE_REQUIRED"
+  | "TOURIST_ENTRY_AFTER_SALE"
+  | "TOURIST_STAY_EXCEEDED";
+
+type DatosTurista = Pick<Customer, "pasaporte" | "pais" | "fechaIngreso">;
+
+/**
+ * Whether a tourist can be invoiced under the régimen on a date
+ */
+export function validarTurista(
+  customer: DatosTurista,
+  fecha: Date
+): { success: boolean; error?: string; code?: TurismoErrorCode } {
+  if (!customer.pasaporte?.trim()) {
+    return {
+      success: false,
+      error: "El régimen de turismo requiere el número de pasaporte del turista",
+      code: "TOURIST_PASSPORT_REQUIRED"
+    };
+  }
+
+  const pais = resolverPais(customer.pais);
+  if (customer.pais?.trim() && !pais) {
+    return {
+      success: false,
+      error: `País del turista desconocido: ${customer.pais.trim()}. Corrija el país del cliente`,
+      code: "TOURIST_COUNTRY_UNKNOWN"
+    };
+  }
+  if (!pais || pais.codigo === PARAGUAY.codigo) {
+    return {
+      success: false,
+      error: "El régimen de turismo solo aplica a turistas de un país distinto de Paraguay",
+      code: "TOURIST_COUNTRY_REQUIRED"
+    };
+  }
+
+  const ingreso = fechaIngresoTurista(customer.fechaIngreso);
+  if (!ingreso) {
+    return {
+      success: false,
+      error: "El régimen de turismo requiere la fecha de ingreso al país",
+      code: "TOURIST_ENTRY_DATE_REQUIRED"
+    };
+  }
+
+  const dias = diasDePermanencia(ingreso, fecha);
+  if (dias < 0) {
+    return {
+      success: false,
+      error: "La fecha de ingreso del turista es posterior a la fecha de la venta",
+      code: "TOURIST_ENTRY_AFTER_SALE"
+    };
+  }
+  if (dias > DIAS_PERMANENCIA_TURISMO) {
+    return {
+      success: false,
+      error: `El turista ingresó hace ${dias} días; el régimen de turismo solo aplica dentro de los ${DIAS_PERMANENCIA_TURISMO} días de permanencia`,
+      code: "TOURIST_STAY_EXCEEDED"
+    };
+  }
+
+  return { success: true };
+}
+
+/**
+ * Legends and tourist data printed on a turismo invoice
+ */
+export function leyendasTurismo(customer: DatosTurista): string[] {
+  const ingreso = fechaIngresoTurista(customer.fechaIngreso);
+  const datos = [
+    `Pasaporte N° ${customer.pasaporte ?? ""}`,
+    `País: ${customer.pais ?? ""}`,
+    ingreso ? `Fecha de ingreso: ${ingreso.toLocaleDateString("es-PY", { day: "2-digit", month: "2-digit", year: "numeric" })}` : null
+  ].filter(Boolean);
+
+  return [LEYENDA_TURISMO, LEYENDA_TURISTA, datos.join(" - ")];
+}
+
+/**
+ * Entry date (stored as YYYY-MM-DD) as a local calendar day
+ */
+export function fechaIngresoTurista(fechaIngreso: string | null | undefined): Date | null {
+  const match = fechaIngreso?.match(/^(\d{4})-(\d{2})-(\d{2})/);
+  if (!match) {
+    return null;
+  }
+  return new Date(parseInt(match[1], 10), parseInt(match[2], 10) - 1, parseInt(match[3], 10));
+}
+
+/**
+ * Calendar days between the entry date and a sale
+ */
+export function diasDePermanencia(ingreso: Date, fecha: Date): number {
+  const dia = new Date(fecha.getFullYear(), fecha.getMonth(), fecha.getDate());
+  return Math.round((dia.getTime() - ingreso.getTime()) / 86400000);
+}